@@ -5,33 +5,96 @@ import InventoryDashboard from './components/InventoryDashboard';
 import AdminDashboard from './components/AdminDashboard';
 import MammalEmployeeDashboard from './components/MammalEmployeeDashboard';
 import ThemeLanguageControls from './components/ThemeLanguageControls';
-import { LocationId, Language, Theme, User, InventoryItem, Transaction, TransactionType, LocationData, TransactionStatus, UserRole } from './types';
+import { LocationId, Language, Theme, User, AuthSession, InventoryItem, Product, Transaction, TransactionType, TransferReceipt, TransferSignatureRole, LocationData, Supplier, PurchaseOrder, GoodsReceivedNote, GoodsReceiptLine, Recipe, StockTake, WasteReasonCode, WriteOffTarget, OutboxEntry, AppNotification, NotificationEvent } from './types';
 import { LOCATIONS as STATIC_LOCATIONS, TRANSLATIONS, INITIAL_INVENTORY, INITIAL_USERS } from './constants';
-import { supabase } from './services/supabase';
+import { supabase, setSessionToken } from './services/supabase';
+import { Repository, describeError, toRepositoryError } from './services/repository';
+import { supabaseRepository } from './services/supabaseRepository';
+import { TransactionQuery, TransactionCursor, matchesTransactionQuery, patchTransactions } from './services/transferService';
+import { mapProduct, patchInventory } from './services/catalogService';
+import { PurchaseOrderDraft } from './services/purchasingService';
+import { RecipeDraft } from './services/recipeService';
+import {
+  newOutboxId, listOutbox, queueOutboxEntries, uploadOutboxEntries, flushOutbox, resolveOutboxConflict, requestBackgroundSync,
+  saveSyncCredentials, saveStockSnapshot, loadStockSnapshot, clearOfflineSession, applyPendingEntries, outboxToTransaction
+} from './services/outboxService';
+import { registerPushSubscription, unregisterPushSubscription } from './services/pushService';
+import { REORDER_LOOKBACK_DAYS } from './services/replenishmentService';
+import {
+  mapNotification, fetchNotifications, markNotificationsRead, fetchMutedEvents, saveMutedEvents, notifyExpiringStock, showSystemNotification
+} from './services/notificationService';
 
 // Helper to generate IDs locally if backend is offline
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
-const App: React.FC = () => {
+// Replaces changed records where they are and puts new ones first, as these lists are newest first
+const patchById = <T extends { id: string }>(records: T[], changed: T[], removedIds: string[] = []): T[] => {
+  const updates = new Map(changed.map(record => [record.id, record]));
+  const kept = records
+    .filter(record => !removedIds.includes(record.id))
+    .map(record => {
+      const update = updates.get(record.id);
+      updates.delete(record.id);
+      return update || record;
+    });
+  return [...updates.values(), ...kept];
+};
+
+// History loaded up front: enough for the reorder plan's lookback and this month's waste report
+const defaultTransactionsSince = () => {
+  const lookback = new Date(Date.now() - REORDER_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const monthStart = new Date();
+  monthStart.setDate(1);
+  monthStart.setHours(0, 0, 0, 0);
+  return (lookback < monthStart ? lookback : monthStart).toISOString();
+};
+
+// Branch and Mammal views only need their own location's history. The warehouse plans
+// replenishment from every location's usage, so it (like the admin overview) loads them all.
+const transactionScopeOf = (locationId: LocationId | null): LocationId | undefined =>
+  locationId && locationId !== 'all' && locationId !== 'warehouse' ? locationId : undefined;
+
+interface AppProps {
+  repository?: Repository; // Where locations, users, stock and transactions are read and written
+}
+
+const App: React.FC<AppProps> = ({ repository = supabaseRepository }) => {
   // Global Application State
   const [users, setUsers] = useState<User[]>([]);
   const [inventory, setInventory] = useState<Record<string, InventoryItem[]>>({});
+  const [products, setProducts] = useState<Product[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [goodsReceivedNotes, setGoodsReceivedNotes] = useState<GoodsReceivedNote[]>([]);
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [locations, setLocations] = useState<LocationData[]>(STATIC_LOCATIONS);
   const [loading, setLoading] = useState(true);
+
+  // Usage and receive logs of the signed-in user still waiting in the offline outbox
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  // The signed-in user's notification inbox and the events they switched off
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [mutedEvents, setMutedEvents] = useState<NotificationEvent[]>([]);
   
   // Session State - Lazy initialization to prevent flicker
   const [currentUser, setCurrentUser] = useState<User | null>(() => {
     try {
         const savedUserStr = localStorage.getItem('dawar_user');
         const expiryStr = localStorage.getItem('dawar_session_expiry');
+        const tokenStr = localStorage.getItem('dawar_session_token');
         if (savedUserStr && expiryStr) {
-            if (Date.now() < parseInt(expiryStr, 10)) {
+            if (tokenStr && Date.now() < parseInt(expiryStr, 10)) {
+                setSessionToken(tokenStr);
                 return JSON.parse(savedUserStr);
             }
-            // Clear expired session
+            // Clear expired (or pre-token) session
             localStorage.removeItem('dawar_user');
             localStorage.removeItem('dawar_session_expiry');
+            localStorage.removeItem('dawar_session_token');
         }
     } catch (e) {
         console.error("Failed to restore session", e);
@@ -43,9 +106,10 @@ const App: React.FC = () => {
       try {
           const savedUserStr = localStorage.getItem('dawar_user');
           const expiryStr = localStorage.getItem('dawar_session_expiry');
+          const tokenStr = localStorage.getItem('dawar_session_token');
           let user: User | null = null;
           
-          if (savedUserStr && expiryStr && Date.now() < parseInt(expiryStr, 10)) {
+          if (savedUserStr && expiryStr && tokenStr && Date.now() < parseInt(expiryStr, 10)) {
               user = JSON.parse(savedUserStr);
           }
 
@@ -71,8 +135,37 @@ const App: React.FC = () => {
     return (saved === 'dark' || saved === 'light') ? saved : 'light';
   });
 
-  // To prevent repeated notifications for the same transaction
-  const notifiedIds = useRef<Set<string>>(new Set());
+  // Pending silent re-sync after server-side changes the app made itself
+  const syncTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // The slice of history held in `transactions`: every row since `since`, for one location when
+  // scoped, plus all pending transfers. `oldest` is where paging into older history resumes.
+  const transactionWindow = useRef<TransactionQuery & { oldest?: TransactionCursor }>({
+    locationId: transactionScopeOf(selectedLocation),
+    since: defaultTransactionsSince()
+  });
+  const [transactionsSince, setTransactionsSince] = useState(() => transactionWindow.current.since!);
+  const [hasOlderTransactions, setHasOlderTransactions] = useState(true);
+  const transactionScope = transactionScopeOf(selectedLocation);
+
+  // The user whose data fetchData last loaded, so a location change right at sign-in does not
+  // load the history twice
+  const loadedUserId = useRef<string | null>(null);
+
+  // Rows realtime reported as changed, re-read together once the events settle
+  const realtimeChanges = useRef({
+    stock: new Set<string>(),
+    products: new Set<string>(),
+    transactions: new Set<string>(),
+    purchaseOrders: new Set<string>(),
+    goodsReceived: new Set<string>(),
+    stockTakes: new Set<string>()
+  });
+  const realtimeTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // One outbox upload at a time; a request made meanwhile runs once the current one is done
+  const outboxFlushing = useRef(false);
+  const outboxFlushQueued = useRef(false);
 
   // Handle document direction and theme class updates
   useEffect(() => {
@@ -90,119 +183,277 @@ const App: React.FC = () => {
   // Initial Data Fetch from Supabase with Fallback
   const fetchData = async (silent = false) => {
     if (!silent) setLoading(true);
+
+    // Offline: keep what is on screen, or on a cold start use the last stock snapshot, with
+    // queued entries applied on top
+    if (!navigator.onLine && currentUser) {
+        const queued = await refreshOutbox();
+        try {
+            const snapshot = await loadStockSnapshot(currentUser.id);
+            if (snapshot) setInventory(applyPendingEntries(snapshot, queued));
+            setTransactions(prev => prev.length > 0 ? prev : queued.filter(e => e.status === 'pending').map(outboxToTransaction));
+        } catch (error) {
+            console.warn("No offline stock snapshot available", error);
+        }
+        setLoading(false);
+        return;
+    }
+
     let loadedUsers = INITIAL_USERS;
     let loadedInventory = INITIAL_INVENTORY;
     let loadedLocations = STATIC_LOCATIONS;
     let loadedTransactions: Transaction[] = [];
+    let loadedProducts: Product[] = [];
+    let loadedSuppliers: Supplier[] = [];
+    let loadedPurchaseOrders: PurchaseOrder[] = [];
+    let loadedGoodsReceived: GoodsReceivedNote[] = [];
+    let loadedStockTakes: StockTake[] = [];
+    let loadedRecipes: Recipe[] = [];
 
     try {
-        // Fetch Locations
-        const { data: locData, error: locError } = await supabase.from('locations').select('*');
-        if (!locError && locData) {
-            loadedLocations = locData.map((l: any) => ({
-                id: l.id,
-                name: l.name,
-                nameAr: l.name_ar || l.name,
-                description: l.description || '',
-                descriptionAr: l.description_ar || l.description || '',
-                icon: l.icon || 'store',
-                type: l.type as 'central' | 'branch'
-            }));
-        }
-
-        // Fetch Users
-        const { data: usersData, error: usersError } = await supabase.from('app_users').select('*');
-        if (!usersError && usersData && usersData.length > 0) {
-            loadedUsers = usersData.map((u: any) => ({
-                id: u.id,
-                username: u.username,
-                password: u.password,
-                name: u.name,
-                nameAr: u.name_ar,
-                role: u.role as UserRole,
-                branchCode: u.branch_code,
-                branchName: u.branch_name,
-                branchNameAr: u.branch_name_ar,
-                accessibleBranches: u.accessible_branches || []
-            }));
-        }
-
-        // Fetch Inventory
-        const { data: itemsData, error: itemsError } = await supabase.from('inventory_items').select('*');
-        if (!itemsError && itemsData && itemsData.length > 0) {
+        // The records load side by side; each falls back on its own when its request fails
+        const [locationsResult, usersResult, productsResult, itemsResult, transactionsResult] = await Promise.allSettled([
+            repository.locations.list(),
+            repository.users.list(),
+            repository.items.listProducts(),
+            repository.items.list(),
+            loadTransactionWindow()
+        ]);
+        // Purchasing only comes back for admins and the warehouse manager; recipes drive production
+        // at Mammal
+        const [suppliersResult, purchaseOrdersResult, goodsReceivedResult, stockTakesResult, recipesResult] = await Promise.allSettled([
+            repository.purchasing.listSuppliers(),
+            repository.purchasing.listOrders(),
+            repository.purchasing.listReceipts(),
+            repository.stockTakes.list(),
+            repository.recipes.list()
+        ]);
+
+        if (locationsResult.status === 'fulfilled') loadedLocations = locationsResult.value;
+        if (usersResult.status === 'fulfilled' && usersResult.value.length > 0) loadedUsers = usersResult.value;
+        if (productsResult.status === 'fulfilled') loadedProducts = productsResult.value;
+        if (itemsResult.status === 'fulfilled' && itemsResult.value.length > 0) {
             const newInventory: Record<string, InventoryItem[]> = {};
-            itemsData.forEach((i: any) => {
-                const item: InventoryItem = {
-                    id: i.id,
-                    nameEn: i.name_en,
-                    nameAr: i.name_ar,
-                    description: i.description,
-                    category: i.category,
-                    quantity: Number(i.quantity),
-                    unit: i.unit,
-                    minThreshold: Number(i.min_threshold),
-                    lastUpdated: i.last_updated,
-                    locationId: i.location_id,
-                    expirationDate: i.expiration_date,
-                    barcode: i.barcode
-                };
-                if (!newInventory[i.location_id]) newInventory[i.location_id] = [];
-                newInventory[i.location_id].push(item);
+            itemsResult.value.forEach(item => {
+                const locationId = item.locationId as string;
+                if (!newInventory[locationId]) newInventory[locationId] = [];
+                newInventory[locationId].push(item);
             });
             loadedInventory = newInventory;
+            if (currentUser) {
+                saveStockSnapshot(currentUser.id, newInventory).catch(error => console.warn("Could not save the stock snapshot", error));
+            }
         }
-
-        // Fetch Transactions - Ordered by Date Descending
-        const { data: txData, error: txError } = await supabase
-          .from('transactions')
-          .select('*')
-          .order('date', { ascending: false });
-          
-        if (!txError && txData) {
-            loadedTransactions = txData.map((t: any) => ({
-                id: t.id,
-                transferGroupId: t.transfer_group_id,
-                date: t.date,
-                type: t.type as TransactionType,
-                status: t.status as TransactionStatus,
-                fromLocation: t.from_location,
-                toLocation: t.to_location,
-                itemNameEn: t.item_name_en,
-                itemNameAr: t.item_name_ar,
-                quantity: Number(t.quantity),
-                unit: t.unit,
-                performedBy: t.performed_by,
-                notes: t.notes,
-                rejectionReason: t.rejection_reason
-            }));
+        if (transactionsResult.status === 'fulfilled') loadedTransactions = transactionsResult.value;
+        if (suppliersResult.status === 'fulfilled') loadedSuppliers = suppliersResult.value;
+        if (purchaseOrdersResult.status === 'fulfilled') loadedPurchaseOrders = purchaseOrdersResult.value;
+        if (goodsReceivedResult.status === 'fulfilled') loadedGoodsReceived = goodsReceivedResult.value;
+        if (stockTakesResult.status === 'fulfilled') loadedStockTakes = stockTakesResult.value;
+        if (recipesResult.status === 'fulfilled') loadedRecipes = recipesResult.value;
+
+        // Tell the user once, rather than leave them looking at fallback data; silent re-syncs
+        // keep what is on screen until the next one
+        const failure = [
+            locationsResult, usersResult, productsResult, itemsResult, transactionsResult,
+            suppliersResult, purchaseOrdersResult, goodsReceivedResult, stockTakesResult, recipesResult
+        ].find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failure) {
+            console.warn("Could not load all data", failure.reason);
+            if (!silent) alert(`${language === 'ar' ? 'تعذر تحميل بعض البيانات' : 'Some data could not be loaded'}: ${describeError(failure.reason, language)}`);
         }
     } catch (error) {
         console.warn("Backend connection failed or not configured. Using local fallback data.", error);
     } finally {
+        // Entries still in the outbox are not on the server yet
+        const queued = (await refreshOutbox()).filter(e => e.status === 'pending');
         setUsers(loadedUsers);
-        setInventory(loadedInventory);
+        setInventory(applyPendingEntries(loadedInventory, queued));
+        setProducts(loadedProducts);
         setLocations(loadedLocations);
-        setTransactions(loadedTransactions);
+        setTransactions([...queued.map(outboxToTransaction), ...loadedTransactions]);
+        setSuppliers(loadedSuppliers);
+        setPurchaseOrders(loadedPurchaseOrders);
+        setGoodsReceivedNotes(loadedGoodsReceived);
+        setStockTakes(loadedStockTakes);
+        setRecipes(loadedRecipes);
         setLoading(false);
     }
   };
 
+  // Debounced silent reload of everything, for when patching the changed rows failed
+  const scheduleSync = () => {
+    clearTimeout(syncTimer.current);
+    syncTimer.current = setTimeout(() => fetchData(true), 500);
+  };
+
+  // Pending transfers plus every page of history in the current window
+  const loadTransactionWindow = async (): Promise<Transaction[]> => {
+    const slice = transactionWindow.current;
+    const [pending, history] = await Promise.all([
+      repository.transactions.pending(slice.locationId),
+      repository.transactions.history({ locationId: slice.locationId, since: slice.since })
+    ]);
+    slice.oldest = history.oldest;
+    return patchTransactions(history.transactions, pending);
+  };
+
+  const refreshTransactions = async () => {
+    const slice = transactionWindow.current;
+    try {
+      const loaded = await loadTransactionWindow();
+      if (transactionWindow.current !== slice) return; // The location changed meanwhile
+      const queued = (await refreshOutbox()).filter(e => e.status === 'pending');
+      setTransactions([...queued.map(outboxToTransaction), ...loaded]);
+    } catch (error) {
+      console.warn("Could not load transactions", error);
+    }
+  };
+
+  // Realtime payloads carry bare rows, without the product, lots, lines or catalog details the
+  // state holds, so the rows they name are re-read (one query per table for a burst of events) and
+  // patched into the state. Changes made here are applied the same way once the server confirms
+  // them. Entries still in the outbox stay applied on top of the stock read back.
+  const applyRealtimeChanges = async () => {
+    const changes = realtimeChanges.current;
+    const stockIds = [...changes.stock];
+    const productIds = [...changes.products];
+    const transactionIds = [...changes.transactions];
+    const purchaseOrderIds = [...changes.purchaseOrders];
+    const goodsReceivedIds = [...changes.goodsReceived];
+    const stockTakeIds = [...changes.stockTakes];
+    [changes.stock, changes.products, changes.transactions, changes.purchaseOrders, changes.goodsReceived, changes.stockTakes]
+      .forEach(ids => ids.clear());
+
+    try {
+      const [items, changedTransactions, orders, receipts, changedStockTakes] = await Promise.all([
+        repository.items.fetch(stockIds, productIds),
+        repository.transactions.byIds(transactionIds),
+        repository.purchasing.fetchOrders(purchaseOrderIds),
+        repository.purchasing.fetchReceipts(goodsReceivedIds),
+        repository.stockTakes.fetch(stockTakeIds)
+      ]);
+      if (items.length > 0) {
+        const queued = (await refreshOutbox()).filter(e => e.status === 'pending');
+        const byLocation: Record<string, InventoryItem[]> = {};
+        items.forEach(item => {
+          const locationId = item.locationId as string;
+          if (!byLocation[locationId]) byLocation[locationId] = [];
+          byLocation[locationId].push(item);
+        });
+        const changed = Object.values(applyPendingEntries(byLocation, queued)).flat();
+        setInventory(prev => patchInventory(prev, changed));
+      }
+      if (changedTransactions.length > 0) {
+        const slice = transactionWindow.current;
+        setTransactions(prev => {
+          const loaded = new Set(prev.map(tx => tx.id));
+          const relevant = changedTransactions.filter(tx => loaded.has(tx.id) || matchesTransactionQuery(tx, slice));
+          return relevant.length > 0 ? patchTransactions(prev, relevant) : prev;
+        });
+      }
+      if (orders.length > 0) setPurchaseOrders(prev => patchById(prev, orders));
+      if (receipts.length > 0) setGoodsReceivedNotes(prev => patchById(prev, receipts));
+      if (changedStockTakes.length > 0) setStockTakes(prev => patchById(prev, changedStockTakes));
+    } catch (error) {
+      console.warn("Could not apply realtime changes, reloading", error);
+      scheduleSync();
+    }
+  };
+
+  const queueRealtimeChange = (table: keyof typeof realtimeChanges.current, id: string) => {
+    realtimeChanges.current[table].add(id);
+    clearTimeout(realtimeTimer.current);
+    realtimeTimer.current = setTimeout(applyRealtimeChanges, 300);
+  };
+
+  // After a change made here moved stock, re-reads the rows of the products it touched at every
+  // location, and the transactions it logged, rather than reloading everything
+  const refreshAfterChange = (productIds: (string | undefined)[], transactionIds: (string | undefined)[] = []) => {
+    productIds.forEach(id => { if (id) queueRealtimeChange('products', id); });
+    transactionIds.forEach(id => { if (id) queueRealtimeChange('transactions', id); });
+  };
+
+  const refreshOutbox = async (): Promise<OutboxEntry[]> => {
+    if (!currentUser) return [];
+    try {
+      const entries = (await listOutbox()).filter(e => e.userId === currentUser.id);
+      setOutbox(entries);
+      return entries;
+    } catch (error) {
+      console.warn("Offline outbox unavailable", error);
+      return [];
+    }
+  };
+
+  // Uploads queued usage/receive logs. Entries the server refuses stay in the outbox as conflicts
+  // for the user to resolve.
+  const syncOutbox = async () => {
+    if (!currentUser || !navigator.onLine) return;
+    if (outboxFlushing.current) {
+      outboxFlushQueued.current = true;
+      return;
+    }
+    outboxFlushing.current = true;
+    try {
+      const result = await flushOutbox(currentUser.id, repository.transactions.logEntries);
+      await refreshOutbox();
+      // Logged entries give way to their transactions; conflicts leave the history until resolved
+      const settled = [...result.uploaded, ...result.conflicts];
+      if (settled.length > 0) {
+        const settledIds = settled.map(entry => entry.id);
+        setTransactions(prev => patchTransactions(prev, result.synced, settledIds));
+        refreshAfterChange(settled.map(entry => entry.productId));
+      }
+      if (result.conflicts.length > 0) {
+        alert(language === 'ar'
+          ? 'تعذر تسجيل بعض الحركات لأن المخزون تغير. يرجى مراجعتها.'
+          : 'Some entries could not be logged because the stock has changed. Please review them.');
+      }
+    } catch (error) {
+      console.error("Failed to sync the offline outbox", error);
+    } finally {
+      outboxFlushing.current = false;
+      if (outboxFlushQueued.current) {
+        outboxFlushQueued.current = false;
+        syncOutbox();
+      }
+    }
+  };
+
+  // A different location needs a different slice of history. Right after sign-in fetchData
+  // (below) loads it.
   useEffect(() => {
+    if (transactionWindow.current.locationId === transactionScope) return;
+    transactionWindow.current = { locationId: transactionScope, since: defaultTransactionsSince() };
+    setTransactionsSince(transactionWindow.current.since!);
+    setHasOlderTransactions(true);
+    if (currentUser && loadedUserId.current === currentUser.id) refreshTransactions();
+  }, [transactionScope]);
+
+  // Row-level security only returns data for an authenticated session, so
+  // load and subscribe once a user is signed in (and again when they change).
+  useEffect(() => {
+      if (!currentUser) {
+        loadedUserId.current = null;
+        setLoading(false);
+        return;
+      }
+
+      loadedUserId.current = currentUser.id;
       fetchData();
 
-      // Debounce fetchData to avoid multiple rapid calls from real-time updates
-      let debounceTimer: any;
-      const debouncedFetch = () => {
-        clearTimeout(debounceTimer);
-        debounceTimer = setTimeout(() => fetchData(true), 500);
-      };
 
-      // Set up real-time subscriptions
+      // Set up real-time subscriptions; each event patches the rows it names
       const txSubscription = supabase
         .channel('transactions-changes')
         .on('postgres_changes', { event: '*', schema: 'public', table: 'transactions' }, (payload) => {
           console.log('Real-time transaction update:', payload);
-          debouncedFetch();
+          if (payload.eventType === 'DELETE') {
+            const removedId = (payload.old as { id: string }).id;
+            setTransactions(prev => patchTransactions(prev, [], [removedId]));
+          } else {
+            queueRealtimeChange('transactions', (payload.new as { id: string }).id);
+          }
         })
         .subscribe((status) => {
           console.log('Transactions subscription status:', status);
@@ -210,20 +461,113 @@ const App: React.FC = () => {
 
       const invSubscription = supabase
         .channel('inventory-changes')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'inventory_items' }, (payload) => {
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'stock' }, (payload) => {
           console.log('Real-time inventory update:', payload);
-          debouncedFetch();
+          if (payload.eventType === 'DELETE') {
+            const removedId = (payload.old as { id: string }).id;
+            setInventory(prev => patchInventory(prev, [], [removedId]));
+          } else {
+            queueRealtimeChange('stock', (payload.new as { id: string }).id);
+          }
+        })
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'products' }, (payload) => {
+          console.log('Real-time catalog update:', payload);
+          if (payload.eventType === 'DELETE') {
+            const removedId = (payload.old as { id: string }).id;
+            setProducts(prev => prev.filter(p => p.id !== removedId));
+            return;
+          }
+          const product = mapProduct(payload.new);
+          setProducts(prev => [...prev.filter(p => p.id !== product.id), product].sort((a, b) => a.nameEn.localeCompare(b.nameEn)));
+          // Stock rows show the product's names and unit
+          if (payload.eventType === 'UPDATE') queueRealtimeChange('products', product.id);
         })
         .subscribe((status) => {
           console.log('Inventory subscription status:', status);
         });
 
+      const purchasingSubscription = supabase
+        .channel('purchasing-changes')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'purchase_orders' }, (payload) => {
+          console.log('Real-time purchasing update:', payload);
+          if (payload.eventType === 'DELETE') {
+            const removedId = (payload.old as { id: string }).id;
+            setPurchaseOrders(prev => patchById(prev, [], [removedId]));
+            setGoodsReceivedNotes(prev => prev.filter(grn => grn.purchaseOrderId !== removedId));
+          } else {
+            queueRealtimeChange('purchaseOrders', (payload.new as { id: string }).id);
+          }
+        })
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'goods_received_notes' }, (payload) => {
+          console.log('Real-time goods receipt:', payload);
+          queueRealtimeChange('goodsReceived', (payload.new as { id: string }).id);
+        })
+        .subscribe((status) => {
+          console.log('Purchasing subscription status:', status);
+        });
+
+      const stockTakeSubscription = supabase
+        .channel('stock-take-changes')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'stock_takes' }, (payload) => {
+          console.log('Real-time stock-take update:', payload);
+          if (payload.eventType === 'DELETE') {
+            const removedId = (payload.old as { id: string }).id;
+            setStockTakes(prev => patchById(prev, [], [removedId]));
+          } else {
+            queueRealtimeChange('stockTakes', (payload.new as { id: string }).id);
+          }
+        })
+        .subscribe((status) => {
+          console.log('Stock-take subscription status:', status);
+        });
+
       return () => {
-        clearTimeout(debounceTimer);
+        clearTimeout(syncTimer.current);
+        clearTimeout(realtimeTimer.current);
         supabase.removeChannel(txSubscription);
         supabase.removeChannel(invSubscription);
+        supabase.removeChannel(purchasingSubscription);
+        supabase.removeChannel(stockTakeSubscription);
+      };
+  }, [currentUser?.id]);
+
+  // Hand the session to the service worker for background uploads and upload anything left in the
+  // outbox from an earlier visit
+  useEffect(() => {
+      if (!currentUser) {
+        setOutbox([]);
+        return;
+      }
+
+      const token = localStorage.getItem('dawar_session_token');
+      if (token) saveSyncCredentials(currentUser.id, token).catch(error => console.warn("Background sync unavailable", error));
+      syncOutbox();
+
+      const handleOnline = () => {
+        setIsOnline(true);
+        syncOutbox();
+      };
+      const handleOffline = () => setIsOnline(false);
+      const handleWorkerMessage = (event: MessageEvent) => {
+        if (event.data?.type === 'outbox-synced') {
+          refreshOutbox();
+          const uploaded: { entryId: string, productId?: string, transactionId?: string }[] = event.data.uploaded || [];
+          setTransactions(prev => patchTransactions(prev, [], uploaded.map(u => u.entryId)));
+          refreshAfterChange(uploaded.map(u => u.productId), uploaded.map(u => u.transactionId));
+          // The worker leaves refused entries behind; retrying them here turns them into conflicts
+          if (event.data.rejected) syncOutbox();
+        }
+      };
+
+      window.addEventListener('online', handleOnline);
+      window.addEventListener('offline', handleOffline);
+      navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+      return () => {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+        navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
       };
-  }, []);
+  }, [currentUser?.id]);
 
   // Request Notification Permission
   const requestNotificationPermission = async () => {
@@ -233,6 +577,9 @@ const App: React.FC = () => {
       try {
           const permission = await Notification.requestPermission();
           console.log('Notification permission:', permission);
+          if (permission === 'granted') {
+            registerPushSubscription(language).catch(error => console.warn("Push subscription failed", error));
+          }
       } catch (e) {
           console.warn("Notification permission request failed", e);
       }
@@ -257,88 +604,52 @@ const App: React.FC = () => {
     }
   }, [currentUser]);
 
-  // Notification Trigger Effect
+  // Web Push: keep this browser subscribed for the signed-in user, in the current language, so
+  // transfer alerts arrive with the app closed
   useEffect(() => {
     if (!currentUser) return;
+    registerPushSubscription(language).catch(error => console.warn("Push subscription failed", error));
+  }, [currentUser?.id, language]);
 
-    // Filter relevant incoming transfers that haven't been notified yet
-    const relevantIncoming = transactions.filter(t => 
-      t.toLocation === selectedLocation && 
-      t.status === 'pending_target' && 
-      !notifiedIds.current.has(t.id)
-    );
+  const loadNotifications = async () => {
+    try {
+      setNotifications(await fetchNotifications());
+    } catch (error) {
+      console.warn("Could not load notifications", error);
+    }
+  };
 
-    // Filter relevant completed transfers (where we were the sender)
-    const relevantCompleted = transactions.filter(t => 
-      t.fromLocation === selectedLocation && 
-      t.status === 'completed' && 
-      !notifiedIds.current.has(t.id + '_completed')
-    );
+  // Notification inbox: loaded on sign-in and kept current over realtime. New and re-raised
+  // notifications also show as a system notification while the app is open; they share the Web
+  // Push tag, so a device that got the push as well shows it once.
+  useEffect(() => {
+    if (!currentUser) {
+      setNotifications([]);
+      setMutedEvents([]);
+      return;
+    }
 
-    const t_text = TRANSLATIONS[language];
+    fetchMutedEvents().then(setMutedEvents).catch(error => console.warn("Could not load notification preferences", error));
+    loadNotifications();
+    // Today's expiry digest, if the database schedule has not sent it yet
+    notifyExpiringStock().catch(error => console.warn("Could not check expiring stock", error));
 
-    if (relevantIncoming.length > 0) {
-      relevantIncoming.forEach(tx => {
-        const fromLoc = availableLocations.find(l => l.id === tx.fromLocation);
-        const fromLocName = fromLoc ? (fromLoc.id === 'warehouse' ? t_text.warehouse : fromLoc.id === 'mammal' ? t_text.mammal : (language === 'ar' ? (fromLoc.nameAr || fromLoc.name) : fromLoc.name)) : tx.fromLocation;
-        if ('Notification' in window && Notification.permission === 'granted') {
-          try {
-            const title = t_text.incomingRequests;
-            const options = {
-                body: `${language === 'ar' ? tx.itemNameAr : tx.itemNameEn}: ${tx.quantity} ${tx.unit} ${t_text.from} ${fromLocName}`,
-                icon: 'https://cdn-icons-png.flaticon.com/512/3081/3081840.png',
-                badge: 'https://cdn-icons-png.flaticon.com/512/3081/3081840.png',
-                vibrate: [100, 50, 100],
-                data: { primaryKey: tx.id }
-            };
-            
-            if ('serviceWorker' in navigator) {
-                navigator.serviceWorker.ready.then(registration => {
-                    registration.showNotification(title, options);
-                }).catch(err => {
-                    console.error("Service worker notification failed, falling back to standard", err);
-                    new Notification(title, options);
-                });
-            } else {
-                new Notification(title, options);
-            }
-          } catch (e) { console.error("Notification failed", e); }
+    const notificationSubscription = supabase
+      .channel('notification-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${currentUser.id}` }, (payload) => {
+        if (payload.eventType !== 'DELETE' && !payload.new.read_at) {
+          showSystemNotification(mapNotification(payload.new), language);
         }
-        notifiedIds.current.add(tx.id);
+        loadNotifications();
+      })
+      .subscribe((status) => {
+        console.log('Notification subscription status:', status);
       });
-    }
 
-    if (relevantCompleted.length > 0) {
-      relevantCompleted.forEach(tx => {
-        const toLoc = availableLocations.find(l => l.id === tx.toLocation);
-        const toLocName = toLoc ? (toLoc.id === 'warehouse' ? t_text.warehouse : toLoc.id === 'mammal' ? t_text.mammal : (language === 'ar' ? (toLoc.nameAr || toLoc.name) : toLoc.name)) : tx.toLocation;
-        if ('Notification' in window && Notification.permission === 'granted') {
-          try {
-            const title = language === 'ar' ? 'تم استلام التحويل' : 'Transfer Received';
-            const options = {
-                body: `${language === 'ar' ? tx.itemNameAr : tx.itemNameEn}: ${tx.quantity} ${tx.unit} ${language === 'ar' ? 'بواسطة' : 'by'} ${toLocName}`,
-                icon: 'https://cdn-icons-png.flaticon.com/512/3081/3081840.png',
-                badge: 'https://cdn-icons-png.flaticon.com/512/3081/3081840.png',
-                vibrate: [100, 50, 100],
-                data: { primaryKey: tx.id + '_completed' }
-            };
-            
-            if ('serviceWorker' in navigator) {
-                navigator.serviceWorker.ready.then(registration => {
-                    registration.showNotification(title, options);
-                }).catch(err => {
-                    console.error("Service worker notification failed, falling back to standard", err);
-                    new Notification(title, options);
-                });
-            } else {
-                new Notification(title, options);
-            }
-          } catch (e) { console.error("Notification failed", e); }
-        }
-        notifiedIds.current.add(tx.id + '_completed');
-      });
-    }
-  }, [transactions, currentUser, selectedLocation, language]);
+    return () => {
+      supabase.removeChannel(notificationSubscription);
+    };
+  }, [currentUser?.id]);
 
   // Dynamically calculate available locations based on state and permissions
   const availableLocations = useMemo<LocationData[]>(() => {
@@ -378,18 +689,15 @@ const App: React.FC = () => {
     });
   };
 
-  const handleLogin = (user: User, rememberMe: boolean) => {
+  const handleLogin = ({ user, accessToken, expiresAt }: AuthSession) => {
     setCurrentUser(user);
     requestNotificationPermission();
 
-    // Session persistence logic
-    const duration = rememberMe 
-      ? 30 * 24 * 60 * 60 * 1000 // 30 days
-      : 60 * 60 * 1000; // 1 hour
-      
-    const expiry = Date.now() + duration;
+    // Session persistence logic - the server decides the token lifetime
+    // (30 days with "remember me", 1 hour otherwise) and the local session follows it
     localStorage.setItem('dawar_user', JSON.stringify(user));
-    localStorage.setItem('dawar_session_expiry', expiry.toString());
+    localStorage.setItem('dawar_session_expiry', expiresAt.toString());
+    localStorage.setItem('dawar_session_token', accessToken);
 
     if (user.role === 'warehouse_manager') {
        setSelectedLocation(null);
@@ -408,30 +716,92 @@ const App: React.FC = () => {
       cutoffDate.setMonth(cutoffDate.getMonth() - months);
       const cutoffString = cutoffDate.toISOString();
 
-      const { error } = await supabase
-          .from('transactions')
-          .delete()
-          .lt('date', cutoffString);
-
-      if (error) {
-          console.error("Error cleaning up transactions:", error);
-      } else {
+      try {
+          await repository.transactions.deleteBefore(cutoffString);
           setTransactions(prev => prev.filter(t => new Date(t.date) >= cutoffDate));
+      } catch (error) {
+          console.error("Error cleaning up transactions:", error);
+          alert(`${language === 'ar' ? 'تعذر حذف السجلات القديمة' : 'Could not delete the old logs'}: ${describeError(error, language)}`);
       }
   };
 
   const handleLogout = () => {
+    const token = localStorage.getItem('dawar_session_token');
+    if (token) unregisterPushSubscription(token).catch(error => console.warn("Could not remove the push subscription", error));
     setCurrentUser(null);
     setSelectedLocation(null);
-    notifiedIds.current.clear();
     localStorage.removeItem('dawar_user');
     localStorage.removeItem('dawar_session_expiry');
+    localStorage.removeItem('dawar_session_token');
+    setSessionToken(null);
+    clearOfflineSession().catch(error => console.warn("Could not clear the offline session", error));
+  };
+
+  // One more page of history before what is loaded (the admin log's "Load older")
+  const handleLoadOlderTransactions = async () => {
+    const slice = transactionWindow.current;
+    try {
+      const page = await repository.transactions.page({ locationId: slice.locationId, before: slice.since }, slice.oldest);
+      if (transactionWindow.current !== slice) return;
+      const oldest = page.transactions[page.transactions.length - 1];
+      if (oldest) {
+        slice.oldest = { date: oldest.date, id: oldest.id };
+        slice.since = oldest.date;
+        setTransactionsSince(oldest.date);
+      }
+      setHasOlderTransactions(!!page.nextCursor);
+      setTransactions(prev => patchTransactions(prev, page.transactions));
+    } catch (error) {
+      console.error("Failed to load older transactions", error);
+      alert(`${language === 'ar' ? 'تعذر تحميل المعاملات الأقدم' : 'Could not load older transactions'}: ${describeError(error, language)}`);
+    }
+  };
+
+  // Loads history back to `since` if it is not loaded yet, e.g. for a report on an older date
+  const handleLoadTransactionsSince = async (since: string) => {
+    const slice = transactionWindow.current;
+    if (!slice.since || new Date(since).getTime() >= new Date(slice.since).getTime()) return;
+    try {
+      const history = await repository.transactions.history({ locationId: slice.locationId, since, before: slice.since }, slice.oldest);
+      if (transactionWindow.current !== slice) return;
+      slice.since = since;
+      slice.oldest = history.oldest;
+      setTransactionsSince(since);
+      setTransactions(prev => patchTransactions(prev, history.transactions));
+    } catch (error) {
+      console.error("Failed to load transactions", error);
+      alert(`${language === 'ar' ? 'تعذر تحميل المعاملات' : 'Could not load transactions'}: ${describeError(error, language)}`);
+    }
+  };
+
+  const handleMarkNotificationsRead = async (notificationIds: string[]) => {
+    if (notificationIds.length === 0) return;
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => notificationIds.includes(n.id) ? { ...n, readAt } : n));
+    try {
+      await markNotificationsRead(notificationIds);
+    } catch (error) {
+      console.error("Failed to mark notifications read", error);
+      loadNotifications();
+    }
+  };
+
+  const handleSaveNotificationPreferences = async (muted: NotificationEvent[]) => {
+    if (!currentUser) return;
+    try {
+      await saveMutedEvents(currentUser.id, muted);
+      setMutedEvents(muted);
+    } catch (error) {
+      console.error("Failed to save notification preferences", error);
+      alert(`${language === 'ar' ? 'فشل حفظ إعدادات الإشعارات' : 'Failed to save notification preferences'}: ${describeError(error, language)}`);
+    }
   };
 
   const handleCreateUser = async (newUser: Omit<User, 'id'>) => {
     const tempId = generateId();
     // Optimistic Update
-    const user: User = { ...newUser, id: tempId };
+    const { password: _password, ...profile } = newUser;
+    const user: User = { ...profile, id: tempId };
     setUsers(prev => [...prev, user]);
 
     if (newUser.role === 'branch_manager' && newUser.branchCode) {
@@ -449,39 +819,20 @@ const App: React.FC = () => {
         });
     }
 
-    // Async Backend Call
-    const { data, error } = await supabase.from('app_users').insert([{
-        username: newUser.username,
-        password: newUser.password,
-        name: newUser.name,
-        name_ar: newUser.nameAr,
-        role: newUser.role,
-        branch_code: newUser.branchCode,
-        branch_name: newUser.branchName,
-        branch_name_ar: newUser.branchNameAr,
-        accessible_branches: newUser.accessibleBranches || []
-    }]).select();
-    
-    if (!error && data && data[0]) {
-        const realUser: User = {
-            id: data[0].id,
-            username: data[0].username,
-            password: data[0].password,
-            name: data[0].name,
-            nameAr: data[0].name_ar,
-            role: data[0].role,
-            branchCode: data[0].branch_code,
-            branchName: data[0].branch_name,
-            branchNameAr: data[0].branch_name_ar,
-            accessibleBranches: data[0].accessible_branches
-        };
+    try {
+        const realUser = await repository.users.create(newUser);
         setUsers(prev => prev.map(u => u.id === tempId ? realUser : u));
+    } catch (error) {
+        console.error("Failed to create user", error);
+        alert(`${language === 'ar' ? 'تعذر إنشاء المستخدم' : 'Could not create the user'}: ${describeError(error, language)}`);
+        fetchData(true);
     }
   };
 
   const handleEditUser = async (updatedUser: User) => {
-      // Optimistic Update
-      setUsers(prev => prev.map(u => u.id === updatedUser.id ? updatedUser : u));
+      // Optimistic Update - never keep the password in client state
+      const { password: _password, ...profile } = updatedUser;
+      setUsers(prev => prev.map(u => u.id === updatedUser.id ? profile : u));
 
       if (updatedUser.role === 'branch_manager' && updatedUser.branchCode) {
           const newLoc: LocationData = {
@@ -501,28 +852,25 @@ const App: React.FC = () => {
           });
       }
 
-      const updates: any = {
-        username: updatedUser.username,
-        name: updatedUser.name,
-        name_ar: updatedUser.nameAr,
-        role: updatedUser.role,
-        branch_code: updatedUser.branchCode,
-        branch_name: updatedUser.branchName,
-        branch_name_ar: updatedUser.branchNameAr,
-        accessible_branches: updatedUser.accessibleBranches || []
-      };
-
-      if (updatedUser.password && updatedUser.password.trim() !== '') {
-          updates.password = updatedUser.password;
+      try {
+          await repository.users.update(updatedUser);
+      } catch (error) {
+          console.error("Failed to update user", error);
+          alert(`${language === 'ar' ? 'تعذر تحديث المستخدم' : 'Could not update the user'}: ${describeError(error, language)}`);
+          fetchData(true);
       }
-
-      await supabase.from('app_users').update(updates).eq('id', updatedUser.id);
   };
 
   const handleDeleteUser = async (id: string) => {
     // Optimistic Update
     setUsers(prev => prev.filter(u => u.id !== id));
-    await supabase.from('app_users').delete().eq('id', id);
+    try {
+        await repository.users.remove(id);
+    } catch (error) {
+        console.error("Failed to delete user", error);
+        alert(`${language === 'ar' ? 'تعذر حذف المستخدم' : 'Could not delete the user'}: ${describeError(error, language)}`);
+        fetchData(true);
+    }
   };
 
   const handleAddItem = async (locationId: string, item: Omit<InventoryItem, 'id' | 'lastUpdated'>) => {
@@ -540,6 +888,7 @@ const App: React.FC = () => {
 
       // Check for duplicates
       const existing = (inventory[locationId] || []).find(i => 
+          (item.productId && i.productId === item.productId) ||
           i.nameEn.toLowerCase() === item.nameEn.toLowerCase() || 
           i.nameAr === item.nameAr
       );
@@ -562,39 +911,48 @@ const App: React.FC = () => {
           [locationId]: [...(prev[locationId] || []), newItem]
       }));
 
-      const { data, error } = await supabase.from('inventory_items').insert([{
-          location_id: locationId,
-          name_en: item.nameEn,
-          name_ar: item.nameAr,
-          description: item.description,
-          category: item.category,
-          quantity: item.quantity,
-          unit: item.unit,
-          min_threshold: item.minThreshold,
-          expiration_date: item.expirationDate || null,
-          barcode: item.barcode || null
-      }]).select();
-
-      if (!error && data && data[0]) {
-          const realItem: InventoryItem = {
-              id: data[0].id,
-              locationId: data[0].location_id,
-              nameEn: data[0].name_en,
-              nameAr: data[0].name_ar,
-              description: data[0].description,
-              category: data[0].category,
-              quantity: data[0].quantity,
-              unit: data[0].unit,
-              minThreshold: data[0].min_threshold,
-              lastUpdated: data[0].last_updated
-          };
+      try {
+          // Products picked from the catalog are only stocked here; new ones join the catalog first
+          let productId = item.productId;
+          if (!productId) {
+              const product = await repository.items.createProduct(item);
+              setProducts(prev => [...prev, product]);
+              productId = product.id;
+          }
+
+          const realItem = await repository.items.add(locationId, productId, item);
           setInventory(prev => ({
               ...prev,
               [locationId]: prev[locationId].map(i => i.id === tempId ? realItem : i)
           }));
+      } catch (error) {
+          console.error("Failed to add item", error);
+          alert(`${language === 'ar' ? 'تعذر إضافة المنتج' : 'Could not add the item'}: ${describeError(error, language)}`);
+          fetchData(true);
       }
   };
 
+  // Mirrors a catalog change into the stock items of every location
+  const applyProductUpdate = (product: Product) => {
+      setProducts(prev => prev.map(p => p.id === product.id ? product : p));
+      setInventory(prev => {
+          const next: Record<string, InventoryItem[]> = {};
+          Object.keys(prev).forEach(loc => {
+              next[loc] = prev[loc].map(i => i.productId === product.id ? {
+                  ...i,
+                  sku: product.sku,
+                  nameEn: product.nameEn,
+                  nameAr: product.nameAr,
+                  description: product.description,
+                  category: product.category,
+                  unit: product.unit,
+                  barcode: product.barcode
+              } : i);
+          });
+          return next;
+      });
+  };
+
   const handleEditItem = async (locationId: string, updatedItem: InventoryItem) => {
       if (currentUser?.role === 'branch_manager' && currentUser.branchCode !== locationId) return;
       if (currentUser?.role === 'warehouse_manager' && locationId !== 'warehouse' && locationId !== 'mammal') return;
@@ -611,23 +969,34 @@ const App: React.FC = () => {
           return;
       }
 
+      // Names, category, unit and barcode live in the shared catalog, which only admins edit
+      const original = (inventory[locationId] || []).find(i => i.id === updatedItem.id);
+      const catalogChanged = currentUser?.role === 'admin' && !!original && !!updatedItem.productId && (
+          original.nameEn !== updatedItem.nameEn ||
+          original.nameAr !== updatedItem.nameAr ||
+          (original.description || '') !== (updatedItem.description || '') ||
+          original.category !== updatedItem.category ||
+          original.unit !== updatedItem.unit ||
+          (original.barcode || '') !== (updatedItem.barcode || '')
+      );
+
       // Optimistic Update
       setInventory(prev => ({
           ...prev,
           [locationId]: (prev[locationId] || []).map(i => i.id === updatedItem.id ? updatedItem : i)
       }));
 
-      await supabase.from('inventory_items').update({
-          name_en: updatedItem.nameEn,
-          name_ar: updatedItem.nameAr,
-          description: updatedItem.description,
-          category: updatedItem.category,
-          quantity: updatedItem.quantity,
-          unit: updatedItem.unit,
-          min_threshold: updatedItem.minThreshold,
-          expiration_date: updatedItem.expirationDate || null,
-          barcode: updatedItem.barcode || null
-      }).eq('id', updatedItem.id);
+      try {
+          await repository.items.update(updatedItem);
+
+          if (catalogChanged) {
+              applyProductUpdate(await repository.items.updateProduct({ ...updatedItem, id: updatedItem.productId!, sku: updatedItem.sku || '' }));
+          }
+      } catch (error) {
+          console.error("Failed to update item", error);
+          alert(`${language === 'ar' ? 'تعذر تحديث المنتج' : 'Could not update the item'}: ${describeError(error, language)}`);
+          fetchData(true);
+      }
   };
 
   const handleDeleteItem = async (locationId: string, itemId: string) => {
@@ -640,7 +1009,14 @@ const App: React.FC = () => {
          [locationId]: (prev[locationId] || []).filter(i => i.id !== itemId)
      }));
 
-     await supabase.from('inventory_items').delete().eq('id', itemId);
+     // Removes the stock at this location only; the product stays in the catalog
+     try {
+         await repository.items.remove([itemId]);
+     } catch (error) {
+         console.error("Failed to delete item", error);
+         alert(`${language === 'ar' ? 'تعذر حذف المنتج' : 'Could not delete the item'}: ${describeError(error, language)}`);
+         fetchData(true);
+     }
   };
 
   const handleBulkDeleteItems = async (locationId: string, itemIds: string[]) => {
@@ -650,7 +1026,13 @@ const App: React.FC = () => {
           [locationId]: (prev[locationId] || []).filter(i => !itemIds.includes(i.id))
       }));
 
-      await supabase.from('inventory_items').delete().in('id', itemIds);
+      try {
+          await repository.items.remove(itemIds);
+      } catch (error) {
+          console.error("Failed to delete items", error);
+          alert(`${language === 'ar' ? 'تعذر حذف المنتجات' : 'Could not delete the items'}: ${describeError(error, language)}`);
+          fetchData(true);
+      }
   };
 
   const handleBulkEditItems = async (locationId: string, itemIds: string[], updates: Partial<InventoryItem>) => {
@@ -660,407 +1042,431 @@ const App: React.FC = () => {
           [locationId]: (prev[locationId] || []).map(i => itemIds.includes(i.id) ? { ...i, ...updates } : i)
       }));
 
-      const dbUpdates: any = {};
-      if (updates.category) dbUpdates.category = updates.category;
-      if (updates.unit) dbUpdates.unit = updates.unit;
-      if (updates.minThreshold !== undefined) dbUpdates.min_threshold = updates.minThreshold;
+      // Category and unit are catalog fields, so they change for the products at every location
+      const productUpdates: Partial<Pick<Product, 'category' | 'unit'>> = {};
+      if (updates.category) productUpdates.category = updates.category;
+      if (updates.unit) productUpdates.unit = updates.unit;
+
+      const productIds = (inventory[locationId] || [])
+          .filter(i => itemIds.includes(i.id) && i.productId)
+          .map(i => i.productId!);
 
-      await supabase.from('inventory_items').update(dbUpdates).in('id', itemIds);
+      try {
+          if (updates.minThreshold !== undefined) {
+              await repository.items.setMinThreshold(itemIds, updates.minThreshold);
+          }
+          if (currentUser?.role === 'admin' && Object.keys(productUpdates).length > 0 && productIds.length > 0) {
+              await repository.items.updateProducts(productIds, productUpdates);
+              setProducts(prev => prev.map(p => productIds.includes(p.id) ? { ...p, ...productUpdates } : p));
+              refreshAfterChange(productIds);
+          }
+      } catch (error) {
+          console.error("Failed to update items", error);
+          alert(`${language === 'ar' ? 'تعذر تحديث المنتجات' : 'Could not update the items'}: ${describeError(error, language)}`);
+          fetchData(true);
+      }
   };
 
-  const handleTransfer = async (items: { itemId: string, quantity: number }[], toLocation: LocationId, sourceOverride?: LocationId) => {
-    if (!currentUser) return;
-    
-    const fromLocation = sourceOverride || selectedLocation;
-    if (!fromLocation || fromLocation === 'all') return;
-
-    const isManagerOfSource = 
-        (currentUser.role === 'branch_manager' && currentUser.branchCode === fromLocation) ||
-        (currentUser.role === 'warehouse_manager' && (fromLocation === 'warehouse' || fromLocation === 'mammal')) ||
-        (currentUser.role === 'admin');
-
-    const status: TransactionStatus = isManagerOfSource ? 'pending_target' : 'pending_source';
-    const transferGroupId = `GRP-${Date.now()}`;
-
-    const newTransactions: Transaction[] = [];
-    const updatedSourceInventory = [...(inventory[fromLocation] || [])];
-
-    // Optimistic Update Loop
-    for (const transferItem of items) {
-        const sourceItemIndex = updatedSourceInventory.findIndex(i => i.id === transferItem.itemId);
-        if (sourceItemIndex !== -1) {
-            const sourceItem = updatedSourceInventory[sourceItemIndex];
-            
-            // Deduct from source locally if manager
-            if (isManagerOfSource) {
-                updatedSourceInventory[sourceItemIndex] = {
-                    ...sourceItem,
-                    quantity: sourceItem.quantity - transferItem.quantity
-                };
-            }
+  const handleAddProduct = async (product: Omit<Product, 'id' | 'sku'>) => {
+      try {
+          const created = await repository.items.createProduct(product);
+          setProducts(prev => [...prev, created]);
+      } catch (error) {
+          console.error("Failed to add product", error);
+          alert(`${language === 'ar' ? 'تعذر إضافة المنتج' : 'Could not add the product'}: ${describeError(error, language)}`);
+      }
+  };
 
-            newTransactions.push({
-                id: generateId(),
-                transferGroupId: transferGroupId,
-                date: new Date().toISOString(),
-                type: 'transfer',
-                status: status,
-                fromLocation: fromLocation,
-                toLocation: toLocation,
-                itemNameEn: sourceItem.nameEn,
-                itemNameAr: sourceItem.nameAr,
-                quantity: transferItem.quantity,
-                unit: sourceItem.unit,
-                performedBy: currentUser.name
-            });
-        }
-    }
+  const handleEditProduct = async (product: Product) => {
+      try {
+          applyProductUpdate(await repository.items.updateProduct(product));
+      } catch (error) {
+          console.error("Failed to update product", error);
+          alert(`${language === 'ar' ? 'تعذر تحديث المنتج' : 'Could not update the product'}: ${describeError(error, language)}`);
+      }
+  };
 
-    // Update Local State
-    if (isManagerOfSource) {
-        setInventory(prev => ({ ...prev, [fromLocation]: updatedSourceInventory }));
-    }
-    setTransactions(prev => [...newTransactions, ...prev]);
+  const handleDeleteProduct = async (productId: string) => {
+      try {
+          await repository.items.deleteProduct(productId);
+          setProducts(prev => prev.filter(p => p.id !== productId));
+      } catch (error) {
+          console.error("Failed to delete product", error);
+          if (toRepositoryError(error).kind === 'in_use') {
+              alert(language === 'ar'
+                  ? 'لا يمكن حذف منتج لا يزال مخزناً في أحد المواقع'
+                  : 'A product cannot be deleted while any location still stocks it');
+          } else {
+              alert(`${language === 'ar' ? 'تعذر حذف المنتج' : 'Could not delete the product'}: ${describeError(error, language)}`);
+          }
+      }
+  };
 
-    // Backend Calls
-    if (newTransactions.length > 0) {
-        try {
-            // Sync Inventory updates if manager - Sequential to avoid rate limits
-            if (isManagerOfSource) {
-                for (const item of items) {
-                    const sourceItem = (inventory[fromLocation] || []).find(i => i.id === item.itemId);
-                    if (sourceItem) {
-                        await supabase.from('inventory_items').update({
-                            quantity: sourceItem.quantity - item.quantity
-                        }).eq('id', item.itemId);
-                    }
-                }
-            }
-            
-            // Save Transactions
-            const dbTransactions = newTransactions.map(t => ({
-                transfer_group_id: t.transferGroupId,
-                date: t.date,
-                type: 'transfer',
-                status: t.status,
-                from_location: t.fromLocation,
-                to_location: t.toLocation,
-                item_name_en: t.itemNameEn,
-                item_name_ar: t.itemNameAr,
-                quantity: t.quantity,
-                unit: t.unit,
-                performed_by: t.performedBy
-            }));
-            
-            const { data, error } = await supabase.from('transactions').insert(dbTransactions).select();
-            
-            if (!error && data) {
-                // Map real IDs back to transactions
-                setTransactions(prev => {
-                    let updated = [...prev];
-                    data.forEach((dbTx: any) => {
-                        const index = updated.findIndex(t => 
-                            t.transferGroupId === dbTx.transfer_group_id && 
-                            t.itemNameEn === dbTx.item_name_en &&
-                            t.id.length < 15
-                        );
-                        if (index !== -1) {
-                            updated[index] = {
-                                ...updated[index],
-                                id: dbTx.id
-                            };
-                        }
-                    });
-                    return updated;
-                });
-            }
-        } catch (err) {
-            console.error("Transfer failed", err);
-            // Rollback optimistic update if needed, but for now just log
-            alert("Transfer failed. Please check your connection.");
-            fetchData(true); // Sync back with server
-        }
-    }
+  const handleAddSupplier = async (supplier: Omit<Supplier, 'id'>) => {
+      try {
+          const created = await repository.purchasing.createSupplier(supplier);
+          setSuppliers(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      } catch (error) {
+          console.error("Failed to add supplier", error);
+          alert(`${language === 'ar' ? 'تعذر إضافة المورد' : 'Could not add the supplier'}: ${describeError(error, language)}`);
+      }
   };
 
-  const handleConfirmSourceTransfer = async (transaction: Transaction) => {
-      if (!currentUser) return;
-      
+  const handleEditSupplier = async (supplier: Supplier) => {
       try {
-          const sourceItem = (inventory[transaction.fromLocation!] || []).find(i => i.nameEn === transaction.itemNameEn || i.nameAr === transaction.itemNameAr);
-          
-          // Optimistic Update
-          if (sourceItem) {
-              setInventory(prev => ({
-                  ...prev,
-                  [transaction.fromLocation!]: prev[transaction.fromLocation!].map(i => 
-                      i.id === sourceItem.id ? { ...i, quantity: i.quantity - transaction.quantity } : i
-                  )
-              }));
+          const updated = await repository.purchasing.updateSupplier(supplier);
+          setSuppliers(prev => prev.map(s => s.id === updated.id ? updated : s));
+          setPurchaseOrders(prev => prev.map(po => po.supplierId === updated.id ? { ...po, supplierName: updated.name } : po));
+      } catch (error) {
+          console.error("Failed to update supplier", error);
+          alert(`${language === 'ar' ? 'تعذر تحديث المورد' : 'Could not update the supplier'}: ${describeError(error, language)}`);
+      }
+  };
+
+  const handleDeleteSupplier = async (supplierId: string) => {
+      try {
+          await repository.purchasing.deleteSupplier(supplierId);
+          setSuppliers(prev => prev.filter(s => s.id !== supplierId));
+      } catch (error) {
+          console.error("Failed to delete supplier", error);
+          if (toRepositoryError(error).kind === 'in_use') {
+              alert(language === 'ar'
+                  ? 'لا يمكن حذف مورد مرتبط بأوامر شراء'
+                  : 'A supplier cannot be deleted while purchase orders refer to it');
+          } else {
+              alert(`${language === 'ar' ? 'تعذر حذف المورد' : 'Could not delete the supplier'}: ${describeError(error, language)}`);
           }
+      }
+  };
 
-          setTransactions(prev => prev.map(t => t.id === transaction.id ? { ...t, status: 'pending_target' } : t));
+  const handleSaveRecipe = async (draft: RecipeDraft, recipeId?: string) => {
+      try {
+          const saved = recipeId ? await repository.recipes.update(recipeId, draft) : await repository.recipes.create(draft);
+          setRecipes(prev => (recipeId ? prev.map(r => r.id === saved.id ? saved : r) : [...prev, saved])
+              .sort((a, b) => a.nameEn.localeCompare(b.nameEn)));
+      } catch (error) {
+          console.error("Failed to save recipe", error);
+          alert(`${language === 'ar' ? 'تعذر حفظ الوصفة' : 'Could not save the recipe'}: ${describeError(error, language)}`);
+          fetchData(true);
+      }
+  };
 
-          // Backend - Sequential
-          if (sourceItem) {
-              await supabase.from('inventory_items').update({
-                  quantity: sourceItem.quantity - transaction.quantity
-              }).eq('id', sourceItem.id);
-          }
-          await supabase.from('transactions').update({ status: 'pending_target' }).eq('id', transaction.id);
+  const handleDeleteRecipe = async (recipeId: string) => {
+      try {
+          await repository.recipes.remove(recipeId);
+          setRecipes(prev => prev.filter(r => r.id !== recipeId));
       } catch (error) {
-          console.error("Error in handleConfirmSourceTransfer:", error);
+          console.error("Failed to delete recipe", error);
+          alert(`${language === 'ar' ? 'تعذر حذف الوصفة' : 'Could not delete the recipe'}: ${describeError(error, language)}`);
       }
   };
 
-  const handleReceiveTransfer = async (transaction: Transaction) => {
+  const handleSavePurchaseOrder = async (draft: PurchaseOrderDraft, purchaseOrderId?: string) => {
       if (!currentUser) return;
-      
       try {
-          const targetLocation = transaction.toLocation!;
-          
-          // Optimistic Update
-          const existingItems = inventory[targetLocation] || [];
-          const destItem = existingItems.find(i => i.nameEn === transaction.itemNameEn || i.nameAr === transaction.itemNameAr);
-
-          if (destItem) {
-              setInventory(prev => ({
-                  ...prev,
-                  [targetLocation]: prev[targetLocation].map(i => 
-                      i.id === destItem.id ? { ...i, quantity: i.quantity + transaction.quantity } : i
-                  )
-              }));
-          } else {
-              const newItem: InventoryItem = {
-                  id: generateId(),
-                  locationId: targetLocation,
-                  nameEn: transaction.itemNameEn,
-                  nameAr: transaction.itemNameAr,
-                  category: 'Received',
-                  quantity: transaction.quantity,
-                  unit: transaction.unit,
-                  minThreshold: 0,
-                  lastUpdated: new Date().toISOString()
-              };
-              setInventory(prev => ({
-                  ...prev,
-                  [targetLocation]: [...(prev[targetLocation] || []), newItem]
-              }));
-          }
+          const saved = purchaseOrderId
+              ? await repository.purchasing.updateOrder(purchaseOrderId, draft)
+              : await repository.purchasing.createOrder(draft, currentUser.name);
+          setPurchaseOrders(prev => purchaseOrderId ? prev.map(po => po.id === saved.id ? saved : po) : [saved, ...prev]);
+      } catch (error) {
+          console.error("Failed to save purchase order", error);
+          alert(`${language === 'ar' ? 'تعذر حفظ أمر الشراء' : 'Could not save the purchase order'}: ${describeError(error, language)}`);
+          fetchData(true);
+      }
+  };
 
-          setTransactions(prev => prev.map(t => t.id === transaction.id ? { ...t, status: 'completed' } : t));
+  const handleSetPurchaseOrderStatus = async (purchaseOrderId: string, status: 'ordered' | 'cancelled') => {
+      try {
+          const updated = await repository.purchasing.setOrderStatus(purchaseOrderId, status);
+          setPurchaseOrders(prev => prev.map(po => po.id === updated.id ? updated : po));
+      } catch (error) {
+          console.error("Failed to update purchase order", error);
+          alert(`${language === 'ar' ? 'تعذر تحديث أمر الشراء' : 'Could not update the purchase order'}: ${describeError(error, language)}`);
+      }
+  };
 
-          // Backend - Sequential
-          if (destItem) {
-              await supabase.from('inventory_items').update({
-                  quantity: destItem.quantity + transaction.quantity
-              }).eq('id', destItem.id);
-          } else {
-              await supabase.from('inventory_items').insert([{
-                  location_id: targetLocation,
-                  name_en: transaction.itemNameEn,
-                  name_ar: transaction.itemNameAr,
-                  category: 'Received',
-                  quantity: transaction.quantity,
-                  unit: transaction.unit,
-                  min_threshold: 0
-              }]);
-          }
-          await supabase.from('transactions').update({ status: 'completed' }).eq('id', transaction.id);
+  const handleDeletePurchaseOrder = async (purchaseOrderId: string) => {
+      try {
+          await repository.purchasing.deleteOrder(purchaseOrderId);
+          setPurchaseOrders(prev => prev.filter(po => po.id !== purchaseOrderId));
+      } catch (error) {
+          console.error("Failed to delete purchase order", error);
+          alert(`${language === 'ar' ? 'تعذر حذف أمر الشراء' : 'Could not delete the purchase order'}: ${describeError(error, language)}`);
+      }
+  };
+
+  // Goods are added to warehouse stock on the server; re-read the order's status, its products'
+  // stock and the receive transactions the note logged
+  const handleReceivePurchaseOrder = async (purchaseOrderId: string, lines: GoodsReceiptLine[], notes?: string) => {
+      try {
+          const grn = await repository.purchasing.receiveOrder(purchaseOrderId, lines, notes);
+          setGoodsReceivedNotes(prev => patchById(prev, [grn]));
+          const order = purchaseOrders.find(po => po.id === purchaseOrderId);
+          queueRealtimeChange('purchaseOrders', purchaseOrderId);
+          refreshAfterChange((order?.lines || []).map(l => l.productId), grn.lines.map(l => l.transactionId));
+      } catch (error) {
+          console.error("Failed to receive purchase order", error);
+          alert(`${language === 'ar' ? 'تعذر استلام البضائع' : 'Could not receive the goods'}: ${describeError(error, language)}`);
+          fetchData(true);
+      }
+  };
+
+  const replaceStockTake = (updated: StockTake) => setStockTakes(prev => patchById(prev, [updated]));
+
+  const handleStartStockTake = async (locationId: string, notes?: string) => {
+      try {
+          replaceStockTake(await repository.stockTakes.start(locationId, notes));
+      } catch (error) {
+          console.error("Failed to start stock-take", error);
+          alert(`${language === 'ar' ? 'تعذر بدء الجرد' : 'Could not start the stock-take'}: ${describeError(error, language)}`);
+          fetchData(true);
+      }
+  };
+
+  const handleSaveStockCounts = async (stockTakeId: string, counts: { lineId: string, countedQuantity: number | null }[]) => {
+      try {
+          replaceStockTake(await repository.stockTakes.recordCounts(stockTakeId, counts));
+      } catch (error) {
+          console.error("Failed to save stock counts", error);
+          alert(`${language === 'ar' ? 'تعذر حفظ الكميات المعدودة' : 'Could not save the counts'}: ${describeError(error, language)}`);
+          fetchData(true);
+      }
+  };
+
+  // Unsaved counts are stored first so the submitted count is exactly what is on screen
+  const handleSubmitStockTake = async (stockTakeId: string, counts: { lineId: string, countedQuantity: number | null }[]) => {
+      try {
+          if (counts.length > 0) await repository.stockTakes.recordCounts(stockTakeId, counts);
+          replaceStockTake(await repository.stockTakes.submit(stockTakeId));
+      } catch (error) {
+          console.error("Failed to submit stock-take", error);
+          alert(`${language === 'ar' ? 'تعذر إرسال الجرد' : 'Could not submit the stock-take'}: ${describeError(error, language)}`);
+          fetchData(true);
+      }
+  };
+
+  // Variances are posted to stock on the server; re-read the stock and adjustments of the lines
+  // that moved
+  const handleApproveStockTake = async (stockTakeId: string) => {
+      try {
+          const approved = await repository.stockTakes.approve(stockTakeId);
+          replaceStockTake(approved);
+          const adjusted = approved.lines.filter(l => l.transactionId);
+          refreshAfterChange(adjusted.map(l => l.productId), adjusted.map(l => l.transactionId));
+      } catch (error) {
+          console.error("Failed to approve stock-take", error);
+          alert(`${language === 'ar' ? 'تعذر اعتماد الجرد' : 'Could not approve the stock-take'}: ${describeError(error, language)}`);
+          fetchData(true);
+      }
+  };
+
+  const handleCancelStockTake = async (stockTakeId: string) => {
+      try {
+          replaceStockTake(await repository.stockTakes.cancel(stockTakeId));
       } catch (error) {
-          console.error("Error in handleReceiveTransfer:", error);
+          console.error("Failed to cancel stock-take", error);
+          alert(`${language === 'ar' ? 'تعذر إلغاء الجرد' : 'Could not cancel the stock-take'}: ${describeError(error, language)}`);
+          fetchData(true);
       }
   };
 
-  const handleRejectTransfer = async (transaction: Transaction, reason: string) => {
+  // Stock leaves its lots on the server; re-read the item to pick up the new quantity and lots
+  const handleWriteOff = async (target: WriteOffTarget, quantity: number, reasonCode: WasteReasonCode, notes: string) => {
+      try {
+          const tx = await repository.transactions.writeOff(target.itemId, quantity, reasonCode, notes, target.lotId);
+          setTransactions(prev => [tx, ...prev]);
+          refreshAfterChange([tx.productId]);
+      } catch (error) {
+          console.error("Failed to write off stock", error);
+          alert(`${language === 'ar' ? 'تعذر شطب المخزون' : 'Could not write off the stock'}: ${describeError(error, language)}`);
+          fetchData(true);
+      }
+  };
+
+  // Returns the lines created, so a transfer the source sent at once can be signed for
+  const handleTransfer = async (items: { itemId: string, quantity: number }[], toLocation: LocationId, sourceOverride?: LocationId): Promise<Transaction[]> => {
+    if (!currentUser) return [];
+    
+    const fromLocation = sourceOverride || selectedLocation;
+    if (!fromLocation || fromLocation === 'all' || items.length === 0) return [];
+
+    try {
+        // The database checks stock and, when we manage the source, deducts it in the same commit
+        const created = await repository.transactions.createTransfer(fromLocation, toLocation, items);
+        setTransactions(prev => [...created, ...prev]);
+        refreshAfterChange(created.map(tx => tx.productId));
+        return created;
+    } catch (err) {
+        console.error("Transfer failed", err);
+        alert(`${language === 'ar' ? 'فشل التحويل' : 'Transfer failed'}: ${describeError(err, language)}`);
+        fetchData(true); // Sync back with server
+        return [];
+    }
+  };
+
+  // Runs one transfer state change on the server, then patches the transaction and re-reads the
+  // stock it moved
+  const runTransferAction = async (action: () => Promise<Transaction>, failureMessage: string) => {
       if (!currentUser) return;
-      
+
       try {
-          const sourceLocation = transaction.fromLocation!;
-          const wasDeducted = transaction.status === 'pending_target';
-          
-          const sourceItem = (inventory[sourceLocation] || []).find(i => i.nameEn === transaction.itemNameEn || i.nameAr === transaction.itemNameAr);
-
-          // Optimistic Update
-          if (wasDeducted) {
-              if (sourceItem) {
-                   setInventory(prev => ({
-                      ...prev,
-                      [sourceLocation]: prev[sourceLocation].map(i => 
-                          i.id === sourceItem.id ? { ...i, quantity: i.quantity + transaction.quantity } : i
-                      )
-                  }));
-              } else {
-                  // Restore item
-                  const restoredItem: InventoryItem = {
-                      id: generateId(),
-                      locationId: sourceLocation,
-                      nameEn: transaction.itemNameEn,
-                      nameAr: transaction.itemNameAr,
-                      category: 'Returned',
-                      quantity: transaction.quantity,
-                      unit: transaction.unit,
-                      minThreshold: 0,
-                      lastUpdated: new Date().toISOString()
-                  };
-                  setInventory(prev => ({
-                      ...prev,
-                      [sourceLocation]: [...(prev[sourceLocation] || []), restoredItem]
-                  }));
-              }
-          }
+          const updated = await action();
+          setTransactions(prev => prev.map(t => t.id === updated.id ? updated : t));
+          refreshAfterChange([updated.productId]);
+      } catch (error) {
+          console.error(failureMessage, error);
+          alert(`${failureMessage}: ${describeError(error, language)}`);
+          fetchData(true);
+      }
+  };
 
-          setTransactions(prev => prev.map(t => t.id === transaction.id ? { ...t, status: 'rejected', rejectionReason: reason } : t));
-
-          // Backend - Sequential
-          if (wasDeducted) {
-              if (sourceItem) {
-                   await supabase.from('inventory_items').update({
-                      quantity: sourceItem.quantity + transaction.quantity
-                  }).eq('id', sourceItem.id);
-              } else {
-                  await supabase.from('inventory_items').insert([{
-                      location_id: sourceLocation,
-                      name_en: transaction.itemNameEn,
-                      name_ar: transaction.itemNameAr,
-                      category: 'Returned',
-                      quantity: transaction.quantity,
-                      unit: transaction.unit,
-                      min_threshold: 0
-                  }]);
-              }
-          }
-          await supabase.from('transactions').update({ status: 'rejected', rejection_reason: reason }).eq('id', transaction.id);
+  const handleConfirmSourceTransfer = (transaction: Transaction) =>
+      runTransferAction(
+          () => repository.transactions.confirmTransfer(transaction.id),
+          language === 'ar' ? 'تعذر تأكيد الإرسال' : 'Could not confirm the transfer'
+      );
+
+  const handleReceiveTransfer = (transaction: Transaction, receipt?: TransferReceipt) =>
+      runTransferAction(
+          () => repository.transactions.receiveTransfer(transaction.id, receipt),
+          language === 'ar' ? 'تعذر استلام التحويل' : 'Could not receive the transfer'
+      );
+
+  const handleRejectTransfer = (transaction: Transaction, reason: string) =>
+      runTransferAction(
+          () => repository.transactions.rejectTransfer(transaction.id, reason),
+          language === 'ar' ? 'تعذر رفض التحويل' : 'Could not reject the transfer'
+      );
+
+  const handleCancelTransfer = (transaction: Transaction) =>
+      runTransferAction(
+          () => repository.transactions.cancelTransfer(transaction.id),
+          language === 'ar' ? 'تعذر إلغاء التحويل' : 'Could not cancel the transfer'
+      );
+
+  // Printed transfers carry a code the server signs (section 20 of supabase_schema.sql); scanning
+  // one checks it against the transfer's lines before the receiver accepts it
+  const handleSignTransferDocument = (transferGroupId: string) =>
+      repository.transactions.signTransferDocument(transferGroupId);
+
+  const handleVerifyTransferDocument = async (transferGroupId: string, signature: string) => {
+      try {
+          return await repository.transactions.verifyTransferDocument(transferGroupId, signature);
       } catch (error) {
-          console.error("Error in handleRejectTransfer:", error);
+          console.error("Failed to verify transfer document", error);
+          alert(`${language === 'ar' ? 'تعذر التحقق من مستند التحويل' : 'Could not verify the transfer document'}: ${describeError(error, language)}`);
+          return null;
       }
   };
 
-  const handleDailyLog = async (type: TransactionType, itemId: string, quantity: number, notes: string) => {
+  // The sender signs before confirming and the receiver before accepting (section 21 of
+  // supabase_schema.sql); the step only goes ahead once the signature is recorded
+  const handleRecordTransferSignature = async (transferGroupId: string, role: TransferSignatureRole, signerName: string, image: string) => {
+      try {
+          await repository.transactions.recordTransferSignature(transferGroupId, role, signerName, image);
+          return true;
+      } catch (error) {
+          console.error("Failed to record transfer signature", error);
+          alert(`${language === 'ar' ? 'تعذر حفظ التوقيع' : 'Could not save the signature'}: ${describeError(error, language)}`);
+          return false;
+      }
+  };
+
+  const handleLoadTransferSignatures = (transferGroupId: string) =>
+      repository.transactions.transferSignatures(transferGroupId);
+
+  // Usage and receive logs are saved to the offline outbox first and uploaded from there, now or
+  // once the connection is back. Each entry carries its outbox id as an idempotency key, so an
+  // upload that is retried never logs it twice.
+  const queueStockLogs = async (logs: { type: TransactionType, itemId: string, quantity: number, notes: string, unitCost?: number, recipeId?: string }[]) => {
       if (!currentUser || !selectedLocation || selectedLocation === 'all') return;
       const location = selectedLocation;
-      const item = (inventory[location] || []).find(i => i.id === itemId);
-      
-      if (item) {
-          const newQty = type === 'usage' ? item.quantity - quantity : item.quantity + quantity;
-          
-          // Optimistic Update
-          setInventory(prev => ({
-              ...prev,
-              [location]: prev[location].map(i => i.id === itemId ? { ...i, quantity: newQty } : i)
-          }));
-
-          const tempId = generateId();
-          const newTx: Transaction = {
-              id: tempId,
-              date: new Date().toISOString(),
-              type: type,
-              status: 'completed',
-              fromLocation: type === 'usage' ? location : 'External Supplier',
-              toLocation: type === 'usage' ? 'Consumed' : location,
+      const batchId = newOutboxId();
+      const loggedAt = new Date().toISOString();
+      const entries: OutboxEntry[] = [];
+      // What each item will hold once the earlier entries of this batch apply, which is what the
+      // server checks the next entry against
+      const expected: Record<string, number> = {};
+
+      logs.forEach(log => {
+          const item = (inventory[location] || []).find(i => i.id === log.itemId);
+          if (!item) return;
+          const expectedQuantity = expected[item.id] ?? item.quantity;
+          expected[item.id] = expectedQuantity + (log.type === 'usage' ? -log.quantity : log.quantity);
+          entries.push({
+              id: newOutboxId(),
+              batchId,
+              locationId: location,
+              type: log.type as OutboxEntry['type'],
+              itemId: item.id,
+              productId: item.productId,
               itemNameEn: item.nameEn,
               itemNameAr: item.nameAr,
-              quantity: quantity,
               unit: item.unit,
+              quantity: log.quantity,
+              notes: log.notes,
+              unitCost: log.unitCost,
+              recipeId: log.recipeId,
+              expectedQuantity,
+              userId: currentUser.id,
               performedBy: currentUser.name,
-              notes: notes
-          };
-          
-          setTransactions(prev => [newTx, ...prev]);
-
-          // Backend - Sequential
-          await supabase.from('inventory_items').update({ quantity: newQty }).eq('id', itemId);
-          await supabase.from('transactions').insert([{
-              date: newTx.date,
-              type: type,
-              status: 'completed',
-              from_location: newTx.fromLocation,
-              to_location: newTx.toLocation,
-              item_name_en: newTx.itemNameEn,
-              item_name_ar: newTx.itemNameAr,
-              quantity: quantity,
-              unit: item.unit,
-              performed_by: currentUser.name,
-              notes: notes
-          }]);
+              loggedAt,
+              status: 'pending'
+          });
+      });
+
+      if (entries.length === 0) return;
+
+      // Optimistic Update
+      setInventory(prev => applyPendingEntries(prev, entries));
+      setTransactions(prev => [...entries.map(outboxToTransaction), ...prev]);
+
+      try {
+          await queueOutboxEntries(entries);
+      } catch (queueError) {
+          // No IndexedDB (e.g. some private windows): upload directly, in one database transaction
+          console.warn("Offline outbox unavailable, logging directly", queueError);
+          try {
+              const saved = await uploadOutboxEntries(entries, repository.transactions.logEntries);
+              const tempIds = entries.map(e => e.id);
+              setTransactions(prev => [...saved, ...prev.filter(t => !tempIds.includes(t.id))]);
+              refreshAfterChange(saved.map(tx => tx.productId));
+          } catch (error) {
+              console.error("Failed to log stock entries", error);
+              alert(`${language === 'ar' ? 'تعذر تسجيل الحركات' : 'Could not log the entries'}: ${describeError(error, language)}`);
+              fetchData(true);
+          }
+          return;
       }
+
+      await refreshOutbox();
+      requestBackgroundSync();
+      syncOutbox();
   };
 
-  const handleBulkLog = async (logs: { type: TransactionType, itemId: string, quantity: number, notes: string }[]) => {
-      if (!currentUser || !selectedLocation || selectedLocation === 'all') return;
-      
-      try {
-          const newTransactions: Transaction[] = [];
-          const updatedLocationInventory = [...(inventory[selectedLocation] || [])];
-          
-          // Calculate final quantities first to avoid race conditions
-          const quantityChanges: Record<string, number> = {};
-          
-          logs.forEach(log => {
-              const idx = updatedLocationInventory.findIndex(i => i.id === log.itemId);
-              if (idx !== -1) {
-                  const item = updatedLocationInventory[idx];
-                  const change = log.type === 'usage' ? -log.quantity : log.quantity;
-                  
-                  // Update local inventory state optimistically
-                  updatedLocationInventory[idx] = {
-                      ...item,
-                      quantity: item.quantity + change,
-                      lastUpdated: new Date().toISOString()
-                  };
-                  
-                  // Track cumulative change for backend update
-                  quantityChanges[log.itemId] = (quantityChanges[log.itemId] || 0) + change;
-
-                  newTransactions.push({
-                      id: generateId(),
-                      date: new Date().toISOString(),
-                      type: log.type,
-                      status: 'completed',
-                      fromLocation: log.type === 'usage' ? selectedLocation : 'External Supplier',
-                      toLocation: log.type === 'usage' ? 'Consumed' : selectedLocation,
-                      itemNameEn: item.nameEn,
-                      itemNameAr: item.nameAr,
-                      quantity: log.quantity,
-                      unit: item.unit,
-                      performedBy: currentUser.name,
-                      notes: log.notes
-                  });
-              }
-          });
+  const handleDailyLog = (type: TransactionType, itemId: string, quantity: number, notes: string) =>
+      queueStockLogs([{ type, itemId, quantity, notes }]);
 
-          setInventory(prev => ({ ...prev, [selectedLocation]: updatedLocationInventory }));
-          setTransactions(prev => [...newTransactions, ...prev]);
-          
-          // Backend - Sequential to avoid rate limits
-          for (const [itemId, change] of Object.entries(quantityChanges)) {
-              const item = (inventory[selectedLocation] || []).find(i => i.id === itemId);
-              if (item) {
-                   await supabase.from('inventory_items').update({ 
-                       quantity: item.quantity + change 
-                   }).eq('id', itemId);
-              }
-          }
-          
-          const dbTxs = newTransactions.map(t => ({
-              date: t.date,
-              type: t.type,
-              status: 'completed',
-              from_location: t.fromLocation,
-              to_location: t.toLocation,
-              item_name_en: t.itemNameEn,
-              item_name_ar: t.itemNameAr,
-              quantity: t.quantity,
-              unit: t.unit,
-              performed_by: t.performedBy,
-              notes: t.notes
-          }));
-          
-          if (dbTxs.length > 0) {
-              await supabase.from('transactions').insert(dbTxs);
+  const handleBulkLog = (logs: { type: TransactionType, itemId: string, quantity: number, notes: string, unitCost?: number, recipeId?: string }[]) =>
+      queueStockLogs(logs);
+
+  // A conflict is logged again with the quantity the user settled on, or discarded (null). A retry
+  // is checked against the stock the user was shown next to the conflict.
+  const handleResolveOutboxConflict = async (entry: OutboxEntry, quantity: number | null) => {
+      const stockNow = (inventory[entry.locationId] || []).find(i => i.id === entry.itemId)?.quantity ?? 0;
+      try {
+          await resolveOutboxConflict(entry, quantity, stockNow);
+          await refreshOutbox();
+          if (quantity !== null && quantity > 0) {
+              // Queued again: shown as waiting to sync until it is logged
+              setTransactions(prev => patchTransactions(prev, [outboxToTransaction({ ...entry, quantity })]));
+              refreshAfterChange([entry.productId]);
+              requestBackgroundSync();
+              syncOutbox();
           }
       } catch (error) {
-          console.error("Error in handleBulkLog:", error);
+          console.error("Failed to resolve outbox conflict", error);
+          alert(`${language === 'ar' ? 'تعذر تحديث الحركة' : 'Could not update the entry'}: ${describeError(error, language)}`);
       }
   };
 
@@ -1072,7 +1478,7 @@ const App: React.FC = () => {
     return (
       <div className={`font-sans antialiased text-gray-900 bg-gray-50 dark:bg-gray-900 min-h-screen overflow-x-hidden transition-colors ${language === 'ar' ? 'font-arabic' : ''}`}>
         <ThemeLanguageControls language={language} theme={theme} onToggleLanguage={toggleLanguage} onToggleTheme={toggleTheme} />
-        <Login onLogin={handleLogin} language={language} users={users} />
+        <Login onLogin={handleLogin} language={language} />
       </div>
     );
   }
@@ -1085,16 +1491,42 @@ const App: React.FC = () => {
                 users={users}
                 transactions={transactions}
                 inventory={inventory}
+                products={products}
                 onCreateUser={handleCreateUser}
                 onEditUser={handleEditUser}
                 onDeleteUser={handleDeleteUser}
                 onDeleteItem={handleDeleteItem}
+                onAddProduct={handleAddProduct}
+                onEditProduct={handleEditProduct}
+                onDeleteProduct={handleDeleteProduct}
+                suppliers={suppliers}
+                purchaseOrders={purchaseOrders}
+                goodsReceivedNotes={goodsReceivedNotes}
+                onAddSupplier={handleAddSupplier}
+                onEditSupplier={handleEditSupplier}
+                onDeleteSupplier={handleDeleteSupplier}
+                onSavePurchaseOrder={handleSavePurchaseOrder}
+                onSetPurchaseOrderStatus={handleSetPurchaseOrderStatus}
+                onDeletePurchaseOrder={handleDeletePurchaseOrder}
+                onReceivePurchaseOrder={handleReceivePurchaseOrder}
+                recipes={recipes}
+                onSaveRecipe={handleSaveRecipe}
+                onDeleteRecipe={handleDeleteRecipe}
+                onWriteOff={handleWriteOff}
                 onLogout={handleLogout}
                 language={language}
                 availableLocations={availableLocations}
                 onManageLocation={setSelectedLocation}
                 onCleanUpTransactions={handleCleanUpTransactions}
                 getUserName={getUserName}
+                notifications={notifications}
+                mutedEvents={mutedEvents}
+                onMarkNotificationsRead={handleMarkNotificationsRead}
+                onSaveNotificationPreferences={handleSaveNotificationPreferences}
+                transactionsSince={transactionsSince}
+                hasOlderTransactions={hasOlderTransactions}
+                onLoadOlderTransactions={handleLoadOlderTransactions}
+                onLoadTransactionsSince={handleLoadTransactionsSince}
             />
         </div>
      );
@@ -1110,8 +1542,18 @@ const App: React.FC = () => {
                   language={language}
                   onLogTransaction={handleDailyLog}
                   onBulkLogTransaction={handleBulkLog}
+                  recipes={recipes}
                   userName={language === 'ar' ? (currentUser.nameAr || currentUser.name) : currentUser.name}
                   transactions={transactions}
+                  stockTakes={stockTakes.filter(st => st.locationId === 'mammal')}
+                  onStartStockTake={(notes) => handleStartStockTake('mammal', notes)}
+                  onSaveStockCounts={handleSaveStockCounts}
+                  onSubmitStockTake={handleSubmitStockTake}
+                  onCancelStockTake={handleCancelStockTake}
+                  outbox={outbox.filter(e => e.locationId === 'mammal')}
+                  isOnline={isOnline}
+                  onSyncOutbox={syncOutbox}
+                  onResolveOutboxConflict={handleResolveOutboxConflict}
               />
           </div>
       );
@@ -1157,7 +1599,10 @@ const App: React.FC = () => {
       <InventoryDashboard 
         locationId={selectedLocation} 
         inventory={displayInventory}
+        products={products}
         transactions={transactions}
+        stockByLocation={inventory}
+        purchaseOrders={purchaseOrders}
         onBack={() => setSelectedLocation(null)}
         onLogout={handleLogout}
         language={language}
@@ -1170,14 +1615,36 @@ const App: React.FC = () => {
         onRecordUsage={(itemId, qty, notes) => handleDailyLog('usage', itemId, qty, notes)}
         userRole={currentUser.role}
         userBranchCode={currentUser.branchCode}
+        userName={language === 'ar' ? (currentUser.nameAr || currentUser.name) : currentUser.name}
         incomingTransfers={incomingTransfers}
         outgoingTransfers={outgoingTransfers}
         outgoingApprovals={outgoingApprovals}
         onReceiveTransfer={handleReceiveTransfer}
         onRejectTransfer={handleRejectTransfer}
+        onCancelTransfer={handleCancelTransfer}
         onConfirmOutbound={handleConfirmSourceTransfer}
+        onSignTransferDocument={handleSignTransferDocument}
+        onVerifyTransferDocument={handleVerifyTransferDocument}
+        onRecordTransferSignature={handleRecordTransferSignature}
+        onLoadTransferSignatures={handleLoadTransferSignatures}
         availableLocations={availableLocations}
         getUserName={getUserName}
+        stockTakes={stockTakes.filter(st => st.locationId === selectedLocation)}
+        onStartStockTake={(notes) => handleStartStockTake(selectedLocation, notes)}
+        onSaveStockCounts={handleSaveStockCounts}
+        onSubmitStockTake={handleSubmitStockTake}
+        onApproveStockTake={handleApproveStockTake}
+        onCancelStockTake={handleCancelStockTake}
+        onWriteOff={handleWriteOff}
+        outbox={outbox.filter(e => e.locationId === selectedLocation)}
+        isOnline={isOnline}
+        onSyncOutbox={syncOutbox}
+        onResolveOutboxConflict={handleResolveOutboxConflict}
+        notifications={notifications}
+        mutedEvents={mutedEvents}
+        onMarkNotificationsRead={handleMarkNotificationsRead}
+        onSaveNotificationPreferences={handleSaveNotificationPreferences}
+        onLoadTransactionsSince={handleLoadTransactionsSince}
       />
     </div>
   );
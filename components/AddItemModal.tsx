@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { InventoryItem, Language } from '../types';
+import { InventoryItem, Product, Language } from '../types';
 import { TRANSLATIONS } from '../constants';
-import { Package, Plus, X, Save, AlignLeft, AlertCircle } from 'lucide-react';
+import { findProductByCode } from '../services/scanService';
+import { Package, Plus, X, Save, AlignLeft, AlertCircle, BookOpen } from 'lucide-react';
 
 interface AddItemModalProps {
     isOpen: boolean;
@@ -9,13 +10,17 @@ interface AddItemModalProps {
     onSubmit: (item: Omit<InventoryItem, 'id' | 'lastUpdated'>) => void;
     language: Language;
     initialData?: InventoryItem | null;
+    initialBarcode?: string; // A scanned code no item here carries
     existingItems: InventoryItem[];
+    products: Product[];
+    canEditCatalog: boolean;
 }
 
-const AddItemModal: React.FC<AddItemModalProps> = ({ isOpen, onClose, onSubmit, language, initialData, existingItems }) => {
+const AddItemModal: React.FC<AddItemModalProps> = ({ isOpen, onClose, onSubmit, language, initialData, initialBarcode, existingItems, products, canEditCatalog }) => {
     const t = TRANSLATIONS[language];
     
     const [newItem, setNewItem] = useState({
+        productId: '',
         nameEn: '',
         nameAr: '',
         description: '',
@@ -33,6 +38,7 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ isOpen, onClose, onSubmit,
     useEffect(() => {
         if (isOpen && initialData) {
             setNewItem({
+                productId: initialData.productId || '',
                 nameEn: initialData.nameEn,
                 nameAr: initialData.nameAr,
                 description: initialData.description || '',
@@ -46,10 +52,29 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ isOpen, onClose, onSubmit,
             setError('');
         } else if (isOpen && !initialData) {
             // Reset if opening in Add mode
-            setNewItem({ nameEn: '', nameAr: '', description: '', category: '', quantity: '', unit: '', minThreshold: '', expirationDate: '', barcode: '' });
+            setNewItem({ productId: '', nameEn: '', nameAr: '', description: '', category: '', quantity: '', unit: '', minThreshold: '', expirationDate: '', barcode: initialBarcode || '' });
             setError('');
+            // The code may belong to a catalog product that is just not stocked here yet
+            const product = initialBarcode ? findProductByCode(products, initialBarcode) : undefined;
+            if (product) handleSelectProduct(product.id);
         }
-    }, [isOpen, initialData]);
+    }, [isOpen, initialData, initialBarcode]);
+
+    // Picking a catalog product fills in (and locks) its shared details
+    const handleSelectProduct = (productId: string) => {
+        const product = products.find(p => p.id === productId);
+        setNewItem(prev => product ? {
+            ...prev,
+            productId: product.id,
+            nameEn: product.nameEn,
+            nameAr: product.nameAr,
+            description: product.description || '',
+            category: product.category,
+            unit: product.unit,
+            barcode: product.barcode || ''
+        } : { ...prev, productId: '', nameEn: '', nameAr: '', description: '', category: '', unit: '', barcode: '' });
+        setError('');
+    };
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
@@ -67,6 +92,7 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ isOpen, onClose, onSubmit,
         // Duplicate Check
         const isDuplicate = existingItems.some(item => {
             if (initialData && item.id === initialData.id) return false;
+            if (newItem.productId && item.productId === newItem.productId) return true;
             return item.nameEn.toLowerCase() === newItem.nameEn.toLowerCase() || 
                    item.nameAr === newItem.nameAr;
         });
@@ -76,7 +102,21 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ isOpen, onClose, onSubmit,
             return;
         }
 
+        // New or renamed products must not duplicate another catalog entry
+        const inCatalog = (!isEditMode || canEditCatalog) && products.some(p =>
+            p.id !== newItem.productId && (
+                p.nameEn.toLowerCase() === newItem.nameEn.toLowerCase() ||
+                p.nameAr === newItem.nameAr
+            )
+        );
+
+        if (inCatalog) {
+            setError(t.productInCatalog);
+            return;
+        }
+
         onSubmit({
+            productId: newItem.productId || undefined,
             nameEn: newItem.nameEn,
             nameAr: newItem.nameAr,
             description: newItem.description,
@@ -90,9 +130,12 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ isOpen, onClose, onSubmit,
         onClose();
     };
 
-    if (!isOpen) return null;
-
     const isEditMode = !!initialData;
+    const productLocked = isEditMode ? !canEditCatalog : !!newItem.productId;
+    // Products already stocked here cannot be added twice
+    const catalogOptions = products.filter(p => !existingItems.some(i => i.productId === p.id));
+
+    if (!isOpen) return null;
 
     return (
         <div className={`fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 ${language === 'ar' ? 'font-arabic' : ''}`}>
@@ -112,18 +155,46 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ isOpen, onClose, onSubmit,
                 </div>
 
                 <form onSubmit={handleSubmit} className="space-y-4">
+                    {!isEditMode && catalogOptions.length > 0 && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 flex items-center gap-1">
+                                <BookOpen className="w-3.5 h-3.5" />
+                                {t.catalogProduct}
+                            </label>
+                            <select
+                                value={newItem.productId}
+                                onChange={e => handleSelectProduct(e.target.value)}
+                                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none"
+                            >
+                                <option value="">{t.newProduct}</option>
+                                {catalogOptions.map(p => (
+                                    <option key={p.id} value={p.id}>
+                                        {p.sku} • {language === 'ar' ? p.nameAr : p.nameEn}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    {(productLocked || (isEditMode && newItem.productId)) && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-900/50 p-2 rounded-lg">
+                            {productLocked ? t.catalogFieldsLocked : t.catalogEditWarning}
+                        </p>
+                    )}
+
                     <div>
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t.itemNameEn}</label>
                         <input
                             required
                             type="text"
                             value={newItem.nameEn}
+                            disabled={productLocked}
                             onChange={e => {
                                 setNewItem({...newItem, nameEn: e.target.value});
                                 setError('');
                             }}
                             placeholder={t.itemNameEnPlaceholder}
-                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none"
+                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none disabled:opacity-60"
                         />
                     </div>
 
@@ -133,12 +204,13 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ isOpen, onClose, onSubmit,
                             required
                             type="text"
                             value={newItem.nameAr}
+                            disabled={productLocked}
                             onChange={e => {
                                 setNewItem({...newItem, nameAr: e.target.value});
                                 setError('');
                             }}
                             placeholder={t.itemNameArPlaceholder}
-                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none font-arabic"
+                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none font-arabic disabled:opacity-60"
                             dir="rtl"
                         />
                     </div>
@@ -150,12 +222,13 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ isOpen, onClose, onSubmit,
                         </label>
                         <textarea
                             value={newItem.description}
+                            disabled={productLocked}
                             onChange={e => {
                                 setNewItem({...newItem, description: e.target.value});
                                 setError('');
                             }}
                             placeholder={t.descriptionPlaceholder}
-                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none resize-none h-20 text-sm"
+                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none resize-none h-20 text-sm disabled:opacity-60"
                         />
                     </div>
 
@@ -166,11 +239,12 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ isOpen, onClose, onSubmit,
                             type="text"
                             list="category-suggestions"
                             value={newItem.category}
+                            disabled={productLocked}
                             onChange={e => {
                                 setNewItem({...newItem, category: e.target.value});
                                 setError('');
                             }}
-                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none"
+                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none disabled:opacity-60"
                         />
                         <datalist id="category-suggestions">
                             {Array.from(new Set(existingItems.map(i => i.category))).sort().map(cat => (
@@ -201,12 +275,13 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ isOpen, onClose, onSubmit,
                                 required
                                 type="text"
                                 value={newItem.unit}
+                                disabled={productLocked}
                                 onChange={e => {
                                     setNewItem({...newItem, unit: e.target.value});
                                     setError('');
                                 }}
                                 placeholder={t.unitPlaceholder}
-                                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none"
+                                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none disabled:opacity-60"
                             />
                         </div>
                     </div>
@@ -246,12 +321,13 @@ const AddItemModal: React.FC<AddItemModalProps> = ({ isOpen, onClose, onSubmit,
                         <input
                             type="text"
                             value={newItem.barcode}
+                            disabled={productLocked}
                             onChange={e => {
                                 setNewItem({...newItem, barcode: e.target.value});
                                 setError('');
                             }}
                             placeholder="Scan or enter barcode"
-                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none"
+                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none disabled:opacity-60"
                         />
                     </div>
 
@@ -1,11 +1,17 @@
-import React, { useState } from 'react';
-import { User, Transaction, Language, UserRole, InventoryItem, LocationData, LocationId } from '../types';
+import React, { useEffect, useState } from 'react';
+import { User, Transaction, Language, UserRole, InventoryItem, Product, LocationData, LocationId, Supplier, PurchaseOrder, GoodsReceivedNote, GoodsReceiptLine, Recipe, WasteReasonCode, WriteOffTarget, AppNotification, NotificationEvent } from '../types';
 import { TRANSLATIONS } from '../constants';
 import ConfirmationModal from './ConfirmationModal';
-import { jsPDF } from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import * as XLSX from 'xlsx';
-import { exportDailyReportPDF, exportDailyReportExcel } from '../services/exportService';
+import ProductModal from './ProductModal';
+import PurchasingPanel from './PurchasingPanel';
+import RecipePanel from './RecipePanel';
+import AuditLogPanel from './AuditLogPanel';
+import ExpiryPanel from './ExpiryPanel';
+import NotificationBell from './NotificationBell';
+import { exportDailyReportPDF, exportDailyReportExcel, exportInventoryExcel, exportInventoryPDF } from '../services/exportService';
+import { costOfGoodsUsed, formatMoney, stockValue, valueStockByLocation } from '../services/valuationService';
+import { PurchaseOrderDraft } from '../services/purchasingService';
+import { RecipeDraft } from '../services/recipeService';
 import { 
     Users, 
     History, 
@@ -32,7 +38,14 @@ import {
     Save,
     Menu,
     Calendar,
-    Settings
+    Settings,
+    BookOpen,
+    ShoppingCart,
+    ScrollText,
+    CalendarX,
+    Loader2,
+    Coins,
+    ChefHat
 } from 'lucide-react';
 
 import {
@@ -55,41 +68,112 @@ interface AdminDashboardProps {
     users: User[];
     transactions: Transaction[];
     inventory: Record<string, InventoryItem[]>;
+    products: Product[];
     onCreateUser: (user: Omit<User, 'id'>) => void;
     onEditUser: (user: User) => void;
     onDeleteUser: (id: string) => void;
     onDeleteItem: (locationId: string, itemId: string) => void;
+    onAddProduct: (product: Omit<Product, 'id' | 'sku'>) => void;
+    onEditProduct: (product: Product) => void;
+    onDeleteProduct: (productId: string) => void;
+    suppliers: Supplier[];
+    purchaseOrders: PurchaseOrder[];
+    goodsReceivedNotes: GoodsReceivedNote[];
+    onAddSupplier: (supplier: Omit<Supplier, 'id'>) => void;
+    onEditSupplier: (supplier: Supplier) => void;
+    onDeleteSupplier: (supplierId: string) => void;
+    onSavePurchaseOrder: (draft: PurchaseOrderDraft, purchaseOrderId?: string) => void;
+    onSetPurchaseOrderStatus: (purchaseOrderId: string, status: 'ordered' | 'cancelled') => void;
+    onDeletePurchaseOrder: (purchaseOrderId: string) => void;
+    onReceivePurchaseOrder: (purchaseOrderId: string, lines: GoodsReceiptLine[], notes?: string) => void;
+    recipes: Recipe[];
+    onSaveRecipe: (draft: RecipeDraft, recipeId?: string) => void;
+    onDeleteRecipe: (recipeId: string) => void;
+    onWriteOff: (target: WriteOffTarget, quantity: number, reasonCode: WasteReasonCode, notes: string) => Promise<void>;
     onLogout: () => void;
     language: Language;
     availableLocations: LocationData[];
     onManageLocation: (locationId: LocationId) => void;
     onCleanUpTransactions?: (months: number) => Promise<void>;
     getUserName: (name: string) => string;
+    notifications: AppNotification[];
+    mutedEvents: NotificationEvent[];
+    onMarkNotificationsRead: (notificationIds: string[]) => void;
+    onSaveNotificationPreferences: (mutedEvents: NotificationEvent[]) => Promise<void>;
+    transactionsSince: string; // Oldest date the loaded history covers
+    hasOlderTransactions: boolean;
+    onLoadOlderTransactions: () => Promise<void>;
+    onLoadTransactionsSince: (since: string) => void;
 }
 
 const AdminDashboard: React.FC<AdminDashboardProps> = ({ 
     users, 
     transactions, 
     inventory,
+    products,
     onCreateUser, 
     onEditUser,
     onDeleteUser, 
     onDeleteItem,
+    onAddProduct,
+    onEditProduct,
+    onDeleteProduct,
+    suppliers,
+    purchaseOrders,
+    goodsReceivedNotes,
+    onAddSupplier,
+    onEditSupplier,
+    onDeleteSupplier,
+    onSavePurchaseOrder,
+    onSetPurchaseOrderStatus,
+    onDeletePurchaseOrder,
+    onReceivePurchaseOrder,
+    recipes,
+    onSaveRecipe,
+    onDeleteRecipe,
+    onWriteOff,
     onLogout, 
     language,
     availableLocations,
     onManageLocation,
     onCleanUpTransactions,
-    getUserName
+    getUserName,
+    notifications,
+    mutedEvents,
+    onMarkNotificationsRead,
+    onSaveNotificationPreferences,
+    transactionsSince,
+    hasOlderTransactions,
+    onLoadOlderTransactions,
+    onLoadTransactionsSince
 }) => {
-    const [activeTab, setActiveTab] = useState<'users' | 'transactions' | 'inventory' | 'reports' | 'settings'>('users');
+    const [activeTab, setActiveTab] = useState<'users' | 'transactions' | 'inventory' | 'catalog' | 'reports' | 'expiry' | 'purchasing' | 'recipes' | 'audit' | 'settings'>('users');
     const [selectedInventoryLocation, setSelectedInventoryLocation] = useState<string>('warehouse');
     const [showUserModal, setShowUserModal] = useState(false);
+    const [showProductModal, setShowProductModal] = useState(false);
+    const [productToEdit, setProductToEdit] = useState<Product | null>(null);
     
     // Reports State
     const [reportDate, setReportDate] = useState(new Date().toISOString().split('T')[0]);
     const [reportLocation, setReportLocation] = useState('mammal');
     const [reportFilter, setReportFilter] = useState<'all' | 'received' | 'used'>('all');
+    const [cogsPeriod, setCogsPeriod] = useState<'day' | 'month'>('day');
+    const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+
+    // A report for a day before the loaded history needs that day's transactions
+    useEffect(() => {
+        const [year, month, day] = reportDate.split('-').map(Number);
+        if (year && month && day) onLoadTransactionsSince(new Date(year, month - 1, cogsPeriod === 'month' ? 1 : day).toISOString());
+    }, [reportDate, cogsPeriod]);
+
+    const handleLoadOlder = async () => {
+        setIsLoadingOlder(true);
+        try {
+            await onLoadOlderTransactions();
+        } finally {
+            setIsLoadingOlder(false);
+        }
+    };
 
     const [retentionMonths, setRetentionMonths] = useState<number>(() => {
         const saved = localStorage.getItem('dawar_retention_months');
@@ -112,7 +196,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
 
     const [confirmDelete, setConfirmDelete] = useState<{
         isOpen: boolean;
-        type: 'user' | 'item';
+        type: 'user' | 'item' | 'product';
         id: string;
         name: string;
         locationId?: string;
@@ -149,6 +233,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
 
     const t = TRANSLATIONS[language];
     const currentInventory = inventory[selectedInventoryLocation] || [];
+    const currentInventoryValue = currentInventory.reduce((sum, item) => sum + (stockValue(item) ?? 0), 0);
 
     const openCreateModal = () => {
         setEditingUserId(null);
@@ -209,9 +294,28 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         });
     };
 
+    const handleDeleteProductRequest = (product: Product) => {
+        setConfirmDelete({
+            isOpen: true,
+            type: 'product',
+            id: product.id,
+            name: language === 'ar' ? product.nameAr : product.nameEn
+        });
+    };
+
+    // Locations currently holding stock of each product
+    const stockedLocationsByProduct = Object.keys(inventory).reduce((acc, locId) => {
+        inventory[locId].forEach(item => {
+            if (item.productId) acc[item.productId] = [...(acc[item.productId] || []), locId];
+        });
+        return acc;
+    }, {} as Record<string, string[]>);
+
     const executeDeletion = () => {
         if (confirmDelete.type === 'user') {
             onDeleteUser(confirmDelete.id);
+        } else if (confirmDelete.type === 'product') {
+            onDeleteProduct(confirmDelete.id);
         } else if (confirmDelete.type === 'item' && confirmDelete.locationId) {
             onDeleteItem(confirmDelete.locationId, confirmDelete.id);
         }
@@ -219,30 +323,15 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
 
     const exportToExcel = () => {
         const locName = selectedInventoryLocation === 'warehouse' ? t.warehouse : selectedInventoryLocation === 'mammal' ? t.mammal : (language === 'ar' ? (availableLocations.find(l => l.id === selectedInventoryLocation)?.nameAr || availableLocations.find(l => l.id === selectedInventoryLocation)?.name) : availableLocations.find(l => l.id === selectedInventoryLocation)?.name) || selectedInventoryLocation;
-        const data = currentInventory.map(item => ({
-            [t.itemNameEn]: item.nameEn,
-            [t.itemNameAr]: item.nameAr,
-            [t.category]: item.category,
-            [t.quantity]: item.quantity,
-            [t.unit]: item.unit,
-            [t.lastUpdated]: item.lastUpdated
-        }));
-        const ws = XLSX.utils.json_to_sheet(data);
-        const wb = XLSX.utils.book_new();
-        XLSX.utils.book_append_sheet(wb, ws, "Inventory");
-        XLSX.writeFile(wb, `Inventory_${locName}.xlsx`);
+        exportInventoryExcel(currentInventory, locName, language);
     };
 
     const exportToPDF = () => {
         const locName = selectedInventoryLocation === 'warehouse' ? t.warehouse : selectedInventoryLocation === 'mammal' ? t.mammal : (language === 'ar' ? (availableLocations.find(l => l.id === selectedInventoryLocation)?.nameAr || availableLocations.find(l => l.id === selectedInventoryLocation)?.name) : availableLocations.find(l => l.id === selectedInventoryLocation)?.name) || selectedInventoryLocation;
-        const doc = new jsPDF();
-        doc.text(`${t.inventory} - ${locName}`, 14, 15);
-        autoTable(doc, {
-            startY: 20,
-            head: [[t.itemNameEn, t.itemNameAr, t.category, t.quantity, t.unit, t.lastUpdated]],
-            body: currentInventory.map(item => [item.nameEn, item.nameAr, item.category, item.quantity, item.unit, item.lastUpdated]),
+        exportInventoryPDF(currentInventory, locName, language).catch(error => {
+            console.error('Error exporting PDF:', error);
+            alert(t.pdfExportFailed);
         });
-        doc.save(`Inventory_${locName}.pdf`);
     };
 
     // Filter transactions for Reports tab (Base: Date & Location)
@@ -291,6 +380,27 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         };
     }).filter(d => d.value > 0);
 
+    // 4. Valuation: stock value per location and cost of goods used at the report location
+    const locationName = (id: string) => {
+        const loc = availableLocations.find(l => l.id === id);
+        if (id === 'warehouse') return t.warehouse;
+        if (id === 'mammal') return t.mammal;
+        return (language === 'ar' ? (loc?.nameAr || loc?.name) : loc?.name) || id;
+    };
+
+    const stockValuation = valueStockByLocation(
+        Object.fromEntries(availableLocations.map(loc => [loc.id, inventory[loc.id] || []]))
+    );
+    const totalStockValue = stockValuation.reduce((sum, v) => sum + v.value, 0);
+
+    const cogsRange = (() => {
+        const [year, month, day] = reportDate.split('-').map(Number);
+        return cogsPeriod === 'month'
+            ? { from: new Date(year, month - 1, 1), to: new Date(year, month, 1) }
+            : { from: new Date(year, month - 1, day), to: new Date(year, month - 1, day + 1) };
+    })();
+    const cogs = costOfGoodsUsed(transactions, reportLocation, cogsRange.from, cogsRange.to);
+
     const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D'];
 
     // 3. Top Used Items
@@ -323,9 +433,18 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                         </div>
                     </div>
                 </div>
-                <button onClick={onLogout} className="p-2 text-red-500 rounded-lg">
-                    <LogOut className="w-5 h-5 rtl:rotate-180" />
-                </button>
+                <div className="flex items-center gap-1">
+                    <NotificationBell
+                        notifications={notifications}
+                        mutedEvents={mutedEvents}
+                        language={language}
+                        onMarkRead={onMarkNotificationsRead}
+                        onSavePreferences={onSaveNotificationPreferences}
+                    />
+                    <button onClick={onLogout} className="p-2 text-red-500 rounded-lg">
+                        <LogOut className="w-5 h-5 rtl:rotate-180" />
+                    </button>
+                </div>
             </div>
 
             <div className="flex flex-col lg:flex-row flex-1 overflow-hidden">
@@ -343,6 +462,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                     <span className="text-[10px] font-bold text-green-600 dark:text-green-400 uppercase tracking-widest">Real-time Connected</span>
                                 </div>
                             </div>
+                            <NotificationBell
+                                notifications={notifications}
+                                mutedEvents={mutedEvents}
+                                language={language}
+                                onMarkRead={onMarkNotificationsRead}
+                                onSavePreferences={onSaveNotificationPreferences}
+                                className="ml-auto rtl:ml-0 rtl:mr-auto"
+                            />
                         </div>
                     </div>
 
@@ -350,8 +477,13 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                         {[
                             { id: 'users', label: t.users, icon: Users },
                             { id: 'inventory', label: t.inventory, icon: Package },
+                            { id: 'catalog', label: t.catalog, icon: BookOpen },
                             { id: 'reports', label: t.reports, icon: FileText },
+                            { id: 'expiry', label: t.expiryWaste, icon: CalendarX },
+                            { id: 'purchasing', label: t.purchasing, icon: ShoppingCart },
+                            { id: 'recipes', label: t.recipes, icon: ChefHat },
                             { id: 'transactions', label: t.viewLogs, icon: History },
+                            { id: 'audit', label: t.auditLog, icon: ScrollText },
                             { id: 'settings', label: language === 'ar' ? 'الإعدادات' : 'Settings', icon: Settings }
                         ].map(item => (
                             <button
@@ -433,6 +565,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                     <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">{t.selectLocationSub}</p>
                                 </div>
                                 <div className="flex gap-2 w-full xl:w-auto overflow-x-auto scrollbar-hide pb-2 sm:pb-0">
+                                    <div className="flex items-center gap-2 px-3 py-2 bg-brand-50 dark:bg-brand-900/20 text-brand-700 dark:text-brand-400 rounded-xl text-xs sm:text-sm font-bold whitespace-nowrap">
+                                        <Coins className="w-4 h-4" /> {t.stockValue}: {formatMoney(currentInventoryValue, language)}
+                                    </div>
                                     <button onClick={exportToExcel} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-xl hover:bg-gray-50 transition-colors text-xs sm:text-sm whitespace-nowrap">
                                         <FileSpreadsheet className="w-4 h-4" /> {t.exportExcel}
                                     </button>
@@ -461,6 +596,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                                 <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase tracking-tighter sm:tracking-normal">{t.itemName}</th>
                                                 <th className="hidden sm:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.category}</th>
                                                 <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase">{t.stockLevel}</th>
+                                                <th className="hidden lg:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.stockValue}</th>
                                                 <th className="hidden md:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.status}</th>
                                                 <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase text-right rtl:text-left">{t.actions}</th>
                                             </tr>
@@ -476,6 +612,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                                     </td>
                                                     <td className="hidden sm:table-cell px-6 py-4 text-gray-500">{item.category}</td>
                                                     <td className="px-4 sm:px-6 py-3 sm:py-4 font-bold">{item.quantity} <span className="text-[10px] font-medium text-gray-400">{item.unit}</span></td>
+                                                    <td className="hidden lg:table-cell px-6 py-4 font-mono text-gray-600 dark:text-gray-400">
+                                                        {item.averageCost === undefined ? '-' : (
+                                                            <>
+                                                                {formatMoney(stockValue(item)!, language)}
+                                                                <div className="text-[10px] text-gray-400">@ {formatMoney(item.averageCost, language)}</div>
+                                                            </>
+                                                        )}
+                                                    </td>
                                                     <td className="hidden md:table-cell px-6 py-4">
                                                         {item.quantity <= item.minThreshold ? (
                                                             <span className="text-red-600 flex items-center gap-1 text-xs font-bold"><AlertTriangle className="w-3 h-3" /> {t.lowStock}</span>
@@ -502,7 +646,86 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                                 </tr>
                                             ))}
                                             {currentInventory.length === 0 && (
-                                                <tr><td colSpan={5} className="px-6 py-12 text-center text-gray-400 italic">{t.noInventoryData}</td></tr>
+                                                <tr><td colSpan={6} className="px-6 py-12 text-center text-gray-400 italic">{t.noInventoryData}</td></tr>
+                                            )}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {activeTab === 'catalog' && (
+                        <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
+                            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+                                <div>
+                                    <h2 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">{t.catalog}</h2>
+                                    <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">{t.catalogSub}</p>
+                                </div>
+                                <button
+                                    onClick={() => { setProductToEdit(null); setShowProductModal(true); }}
+                                    className="w-full sm:w-auto flex items-center justify-center gap-2 px-4 py-2.5 bg-brand-600 hover:bg-brand-700 text-white rounded-xl font-medium transition-colors shadow-lg"
+                                >
+                                    <Plus className="w-5 h-5" />
+                                    {t.addProduct}
+                                </button>
+                            </div>
+
+                            <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm mb-8 overflow-hidden">
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-left rtl:text-right text-xs sm:text-sm">
+                                        <thead>
+                                            <tr className="bg-gray-50/30 dark:bg-gray-900/30 border-b border-gray-100 dark:border-gray-700">
+                                                <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase">{t.sku}</th>
+                                                <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase">{t.itemName}</th>
+                                                <th className="hidden sm:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.category}</th>
+                                                <th className="hidden md:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.unit}</th>
+                                                <th className="hidden lg:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.barcode}</th>
+                                                <th className="hidden md:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.stockedAt}</th>
+                                                <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase text-right rtl:text-left">{t.actions}</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                                            {products.map(product => {
+                                                const stockedAt = stockedLocationsByProduct[product.id] || [];
+                                                return (
+                                                    <tr key={product.id} className="hover:bg-gray-50/50 dark:hover:bg-gray-700/50">
+                                                        <td className="px-4 sm:px-6 py-3 sm:py-4 font-mono text-gray-500 whitespace-nowrap">{product.sku}</td>
+                                                        <td className="px-4 sm:px-6 py-3 sm:py-4 font-medium text-gray-900 dark:text-white">
+                                                            {language === 'ar' ? product.nameAr : product.nameEn}
+                                                            <div className="text-[10px] text-gray-400 font-normal mt-1">{language === 'ar' ? product.nameEn : product.nameAr}</div>
+                                                        </td>
+                                                        <td className="hidden sm:table-cell px-6 py-4 text-gray-500">{product.category}</td>
+                                                        <td className="hidden md:table-cell px-6 py-4 text-gray-500">{product.unit}</td>
+                                                        <td className="hidden lg:table-cell px-6 py-4 text-gray-500 font-mono">{product.barcode || '-'}</td>
+                                                        <td className="hidden md:table-cell px-6 py-4 text-gray-500">
+                                                            {stockedAt.length === 0 ? '-' : stockedAt.map(locId => {
+                                                                const loc = availableLocations.find(l => l.id === locId);
+                                                                return locId === 'warehouse' ? t.warehouse : locId === 'mammal' ? t.mammal : (language === 'ar' ? (loc?.nameAr || loc?.name) : loc?.name) || locId;
+                                                            }).join(', ')}
+                                                        </td>
+                                                        <td className="px-4 sm:px-6 py-3 sm:py-4 text-right rtl:text-left">
+                                                            <div className="flex items-center gap-1 justify-end">
+                                                                <button
+                                                                    onClick={() => { setProductToEdit(product); setShowProductModal(true); }}
+                                                                    className="p-2 text-gray-400 hover:text-brand-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                                                                >
+                                                                    <Pencil className="w-4 h-4" />
+                                                                </button>
+                                                                <button
+                                                                    onClick={() => handleDeleteProductRequest(product)}
+                                                                    disabled={stockedAt.length > 0}
+                                                                    className="p-2 text-red-400 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                                                                >
+                                                                    <Trash2 className="w-4 h-4" />
+                                                                </button>
+                                                            </div>
+                                                        </td>
+                                                    </tr>
+                                                );
+                                            })}
+                                            {products.length === 0 && (
+                                                <tr><td colSpan={7} className="px-6 py-12 text-center text-gray-400 italic">{t.noProducts}</td></tr>
                                             )}
                                         </tbody>
                                     </table>
@@ -578,7 +801,10 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                                     ...tx,
                                                     performedBy: getUserName(tx.performedBy)
                                                 }));
-                                                exportDailyReportPDF(translatedReports, reportLocation, reportLocation === 'warehouse' ? t.warehouse : reportLocation === 'mammal' ? t.mammal : (language === 'ar' ? (availableLocations.find(l => l.id === reportLocation)?.nameAr || availableLocations.find(l => l.id === reportLocation)?.name) : availableLocations.find(l => l.id === reportLocation)?.name) || reportLocation, language, undefined, reportDate, getLocationName);
+                                                exportDailyReportPDF(translatedReports, reportLocation, reportLocation === 'warehouse' ? t.warehouse : reportLocation === 'mammal' ? t.mammal : (language === 'ar' ? (availableLocations.find(l => l.id === reportLocation)?.nameAr || availableLocations.find(l => l.id === reportLocation)?.name) : availableLocations.find(l => l.id === reportLocation)?.name) || reportLocation, language, undefined, reportDate, getLocationName).catch(error => {
+                                                    console.error('Error exporting PDF:', error);
+                                                    alert(t.pdfExportFailed);
+                                                });
                                             }}
                                             disabled={filteredReports.length === 0}
                                             className="p-2.5 bg-red-100 hover:bg-red-200 text-red-700 rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
@@ -650,6 +876,59 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                 </div>
                             </div>
 
+                            {/* Valuation Section */}
+                            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+                                <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 lg:col-span-2">
+                                    <div className="flex justify-between items-center mb-4">
+                                        <h3 className="text-lg font-bold text-gray-900 dark:text-white">{t.stockValueByLocation}</h3>
+                                        <span className="text-sm font-bold text-brand-600">{t.totalValue}: {formatMoney(totalStockValue, language)}</span>
+                                    </div>
+                                    <div className="space-y-2">
+                                        {stockValuation.map(v => (
+                                            <div key={v.locationId} className="flex items-center gap-3">
+                                                <span className="w-32 truncate text-sm text-gray-600 dark:text-gray-300">{locationName(v.locationId)}</span>
+                                                <div className="flex-1 h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                                                    <div className="h-full bg-brand-500 rounded-full" style={{ width: `${totalStockValue > 0 ? (v.value / totalStockValue) * 100 : 0}%` }} />
+                                                </div>
+                                                <span className="w-28 text-right rtl:text-left font-mono text-sm font-bold text-gray-900 dark:text-white">{formatMoney(v.value, language)}</span>
+                                                {v.uncostedItems > 0 && (
+                                                    <span className="text-[10px] font-bold text-amber-600 bg-amber-50 dark:bg-amber-900/20 px-1.5 py-0.5 rounded" title={t.uncostedItemsHint}>
+                                                        {v.uncostedItems} {t.uncosted}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+                                    <div className="flex justify-between items-center mb-4 gap-2">
+                                        <h3 className="text-lg font-bold text-gray-900 dark:text-white">{t.costOfGoodsUsed}</h3>
+                                        <select
+                                            value={cogsPeriod}
+                                            onChange={(e) => setCogsPeriod(e.target.value as 'day' | 'month')}
+                                            className="px-2 py-1 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-600 text-xs outline-none text-gray-900 dark:text-white"
+                                        >
+                                            <option value="day">{t.selectedDay}</option>
+                                            <option value="month">{t.selectedMonth}</option>
+                                        </select>
+                                    </div>
+                                    <p className="text-3xl font-bold text-gray-900 dark:text-white">{formatMoney(cogs.cost, language)}</p>
+                                    <p className="text-xs text-gray-500 mb-4">{locationName(reportLocation)}</p>
+                                    <div className="space-y-1 max-h-40 overflow-y-auto">
+                                        {cogs.rows.map(row => (
+                                            <div key={row.productId || row.itemNameEn} className="flex justify-between text-xs">
+                                                <span className="text-gray-600 dark:text-gray-300 truncate">{language === 'ar' ? row.itemNameAr : row.itemNameEn} ({row.quantity} {row.unit})</span>
+                                                <span className="font-mono text-gray-900 dark:text-white">{formatMoney(row.cost, language)}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    {cogs.uncostedEntries > 0 && (
+                                        <p className="mt-3 text-[10px] text-amber-600">{cogs.uncostedEntries} {t.uncostedUsage}</p>
+                                    )}
+                                </div>
+                            </div>
+
                             <div className="grid grid-cols-2 gap-4 mb-6">
                                 <button 
                                     onClick={() => setReportFilter(prev => prev === 'received' ? 'all' : 'received')}
@@ -716,11 +995,50 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                         </div>
                     )}
 
+                    {activeTab === 'expiry' && (
+                        <ExpiryPanel
+                            stockByLocation={inventory}
+                            transactions={transactions}
+                            availableLocations={availableLocations}
+                            language={language}
+                            onWriteOff={onWriteOff}
+                            onLoadTransactionsSince={onLoadTransactionsSince}
+                        />
+                    )}
+
+                    {activeTab === 'purchasing' && (
+                        <PurchasingPanel
+                            suppliers={suppliers}
+                            purchaseOrders={purchaseOrders}
+                            goodsReceivedNotes={goodsReceivedNotes}
+                            products={products}
+                            language={language}
+                            onAddSupplier={onAddSupplier}
+                            onEditSupplier={onEditSupplier}
+                            onDeleteSupplier={onDeleteSupplier}
+                            onSavePurchaseOrder={onSavePurchaseOrder}
+                            onSetPurchaseOrderStatus={onSetPurchaseOrderStatus}
+                            onDeletePurchaseOrder={onDeletePurchaseOrder}
+                            onReceivePurchaseOrder={onReceivePurchaseOrder}
+                        />
+                    )}
+
+                    {activeTab === 'recipes' && (
+                        <RecipePanel
+                            recipes={recipes}
+                            products={products}
+                            language={language}
+                            onSaveRecipe={onSaveRecipe}
+                            onDeleteRecipe={onDeleteRecipe}
+                        />
+                    )}
+
                     {activeTab === 'transactions' && (
                         <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
                             <div className="mb-8">
                                 <h2 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">{t.transactions}</h2>
                                 <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">{t.viewLogs}</p>
+                                <p className="text-xs text-gray-400 mt-1">{t.showingSince} {new Date(transactionsSince).toLocaleDateString()}</p>
                             </div>
 
                             <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm overflow-hidden">
@@ -736,11 +1054,11 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                             </tr>
                                         </thead>
                                         <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
-                                            {transactions.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map(tx => (
+                                            {transactions.map(tx => (
                                                 <tr key={tx.id} className="hover:bg-gray-50/50 dark:hover:bg-gray-700/50">
                                                     <td className="px-4 sm:px-6 py-4 text-gray-500 whitespace-nowrap">{new Date(tx.date).toLocaleDateString()}</td>
                                                     <td className="px-4 sm:px-6 py-4 uppercase font-bold text-[9px] sm:text-[10px]">
-                                                        {tx.type === 'transfer' ? <span className="text-blue-600">{t.transfer}</span> : tx.type === 'usage' ? <span className="text-red-600">{t.usage}</span> : <span className="text-green-600">{t.receive}</span>}
+                                                        {tx.type === 'transfer' ? <span className="text-blue-600">{t.transfer}</span> : tx.type === 'usage' ? <span className="text-red-600">{t.usage}</span> : tx.type === 'adjustment' ? <span className="text-purple-600">{t.adjustment}</span> : tx.type === 'waste' ? <span className="text-red-800 dark:text-red-400">{t.waste}</span> : <span className="text-green-600">{t.receive}</span>}
                                                     </td>
                                                     <td className="px-4 sm:px-6 py-4 font-medium truncate max-w-[100px] sm:max-w-none">{language === 'ar' ? tx.itemNameAr : tx.itemNameEn}</td>
                                                     <td className="hidden sm:table-cell px-6 py-4 text-gray-500 truncate max-w-[120px]">{getUserName(tx.performedBy)}</td>
@@ -755,10 +1073,31 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                                         </tbody>
                                     </table>
                                 </div>
+                                {hasOlderTransactions && (
+                                    <div className="p-4 border-t border-gray-100 dark:border-gray-700 flex justify-center">
+                                        <button
+                                            onClick={handleLoadOlder}
+                                            disabled={isLoadingOlder}
+                                            className="flex items-center gap-2 px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg text-sm font-medium hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+                                        >
+                                            {isLoadingOlder ? <Loader2 className="w-4 h-4 animate-spin" /> : <History className="w-4 h-4" />}
+                                            {t.loadOlder}
+                                        </button>
+                                    </div>
+                                )}
                             </div>
                         </div>
                     )}
 
+                    {activeTab === 'audit' && (
+                        <AuditLogPanel
+                            users={users}
+                            products={products}
+                            availableLocations={availableLocations}
+                            language={language}
+                        />
+                    )}
+
                     {activeTab === 'settings' && (
                         <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
                             <div className="mb-8">
@@ -931,12 +1270,21 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                 </div>
             )}
 
+            <ProductModal
+                isOpen={showProductModal}
+                onClose={() => setShowProductModal(false)}
+                onSubmit={(product) => productToEdit ? onEditProduct({ ...product, id: productToEdit.id, sku: productToEdit.sku }) : onAddProduct(product)}
+                language={language}
+                initialData={productToEdit}
+                products={products}
+            />
+
             <ConfirmationModal
                 isOpen={confirmDelete.isOpen}
                 onClose={() => setConfirmDelete({...confirmDelete, isOpen: false})}
                 onConfirm={executeDeletion}
                 title={t.confirmDeleteTitle}
-                message={`${confirmDelete.type === 'user' ? t.confirmDeleteUser : t.confirmDeleteItem}: "${confirmDelete.name}"?`}
+                message={`${confirmDelete.type === 'user' ? t.confirmDeleteUser : confirmDelete.type === 'product' ? t.confirmDeleteProduct : t.confirmDeleteItem}: "${confirmDelete.name}"?`}
                 language={language}
                 danger={true}
             />
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { AuditEntry, AuditAction, User, Product, LocationData, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { fetchAuditLog, getAuditChanges, AUDITED_TABLES } from '../services/auditService';
+import { ChevronDown, History, Loader2, RefreshCw } from 'lucide-react';
+
+interface AuditLogPanelProps {
+    users: User[];
+    products: Product[];
+    availableLocations: LocationData[];
+    language: Language;
+}
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+    INSERT: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+    UPDATE: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+    DELETE: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+};
+
+const formatValue = (value: any) => {
+    if (value === null || value === undefined || value === '') return '-';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ users, products, availableLocations, language }) => {
+    const t = TRANSLATIONS[language];
+    const [actorId, setActorId] = useState('');
+    const [tableName, setTableName] = useState('');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [expandedId, setExpandedId] = useState<number | null>(null);
+    const [refreshKey, setRefreshKey] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        fetchAuditLog({ actorId: actorId || undefined, tableName: tableName || undefined, from: fromDate || undefined, to: toDate || undefined })
+            .then(result => { if (!cancelled) setEntries(result); })
+            .catch(error => {
+                console.error("Error loading audit log:", error);
+                if (!cancelled) setEntries([]);
+            })
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [actorId, tableName, fromDate, toDate, refreshKey]);
+
+    const tableLabels: Record<string, string> = {
+        stock: t.inventory,
+        products: t.catalog,
+        locations: t.auditTableLocations,
+        app_users: t.users
+    };
+
+    const actionLabels: Record<AuditAction, string> = {
+        INSERT: t.auditInsert,
+        UPDATE: t.auditUpdate,
+        DELETE: t.auditDelete
+    };
+
+    const getLocationName = (id?: string) => {
+        if (!id) return '';
+        const loc = availableLocations.find(l => l.id === id);
+        if (!loc) return id;
+        return language === 'ar' ? (loc.nameAr || loc.name) : loc.name;
+    };
+
+    // A readable name for the changed record, taken from the row itself where it carries one
+    const describeRecord = (entry: AuditEntry) => {
+        const row = entry.newData || entry.oldData || {};
+        if (entry.tableName === 'stock') {
+            const product = products.find(p => p.id === row.product_id);
+            const name = product ? (language === 'ar' ? product.nameAr : product.nameEn) : entry.recordId;
+            return `${name} • ${getLocationName(entry.locationId || row.location_id)}`;
+        }
+        if (entry.tableName === 'products') return language === 'ar' ? (row.name_ar || row.name_en) : row.name_en;
+        if (entry.tableName === 'locations') return language === 'ar' ? (row.name_ar || row.name) : row.name;
+        if (entry.tableName === 'app_users') return row.name ? `${row.name} (${row.username})` : row.username;
+        return entry.recordId;
+    };
+
+    const formatDateTime = (date: string) => new Date(date).toLocaleString(language === 'ar' ? 'ar-SA' : 'en-US');
+    const inputClass = "px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none";
+
+    return (
+        <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+                <div>
+                    <h2 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">{t.auditLog}</h2>
+                    <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">{t.auditLogSub}</p>
+                </div>
+                <button
+                    onClick={() => setRefreshKey(k => k + 1)}
+                    className="flex items-center gap-2 px-4 py-2.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-xl font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                    <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                    {t.refresh}
+                </button>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 mb-6">
+                <select value={actorId} onChange={e => setActorId(e.target.value)} className={inputClass}>
+                    <option value="">{t.allUsers}</option>
+                    {users.map(u => (
+                        <option key={u.id} value={u.id}>{language === 'ar' ? (u.nameAr || u.name) : u.name}</option>
+                    ))}
+                </select>
+                <select value={tableName} onChange={e => setTableName(e.target.value)} className={inputClass}>
+                    <option value="">{t.allTables}</option>
+                    {AUDITED_TABLES.map(table => (
+                        <option key={table} value={table}>{tableLabels[table]}</option>
+                    ))}
+                </select>
+                <label className="flex items-center gap-2 text-xs text-gray-500">
+                    <span className="shrink-0">{t.fromDate}</span>
+                    <input type="date" value={fromDate} max={toDate || undefined} onChange={e => setFromDate(e.target.value)} className={`${inputClass} flex-1`} />
+                </label>
+                <label className="flex items-center gap-2 text-xs text-gray-500">
+                    <span className="shrink-0">{t.toDate}</span>
+                    <input type="date" value={toDate} min={fromDate || undefined} onChange={e => setToDate(e.target.value)} className={`${inputClass} flex-1`} />
+                </label>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left rtl:text-right text-xs sm:text-sm">
+                        <thead>
+                            <tr className="bg-gray-50/30 dark:bg-gray-900/30 border-b border-gray-100 dark:border-gray-700">
+                                <th className="px-4 sm:px-6 py-4 font-bold text-gray-400 uppercase whitespace-nowrap">{t.date}</th>
+                                <th className="px-4 sm:px-6 py-4 font-bold text-gray-400 uppercase">{t.auditAction}</th>
+                                <th className="px-4 sm:px-6 py-4 font-bold text-gray-400 uppercase">{t.auditRecord}</th>
+                                <th className="hidden sm:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.performedBy}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                            {entries.map(entry => {
+                                const isExpanded = expandedId === entry.id;
+                                const changes = getAuditChanges(entry);
+                                return (
+                                    <React.Fragment key={entry.id}>
+                                        <tr className="hover:bg-gray-50/50 dark:hover:bg-gray-700/50">
+                                            <td className="px-4 sm:px-6 py-4 text-gray-500 whitespace-nowrap">
+                                                <button onClick={() => setExpandedId(isExpanded ? null : entry.id)} className="flex items-center gap-1">
+                                                    <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform ${isExpanded ? '' : 'ltr:-rotate-90 rtl:rotate-90'}`} />
+                                                    {formatDateTime(entry.changedAt)}
+                                                </button>
+                                            </td>
+                                            <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
+                                                <span className={`px-2 py-0.5 rounded-full text-xs ${ACTION_STYLES[entry.action]}`}>{actionLabels[entry.action]}</span>
+                                                <span className="ms-2 text-gray-400">{tableLabels[entry.tableName] || entry.tableName}</span>
+                                            </td>
+                                            <td className="px-4 sm:px-6 py-4 font-medium text-gray-900 dark:text-white">
+                                                {describeRecord(entry)}
+                                                {entry.action === 'UPDATE' && (
+                                                    <div className="text-[10px] text-gray-400 font-normal mt-1 truncate max-w-[240px]">
+                                                        {changes.map(c => c.field).join(', ')}
+                                                    </div>
+                                                )}
+                                            </td>
+                                            <td className="hidden sm:table-cell px-6 py-4 text-gray-500">{entry.actorName || '-'}</td>
+                                        </tr>
+                                        {isExpanded && (
+                                            <tr className="bg-gray-50/50 dark:bg-gray-900/30">
+                                                <td colSpan={4} className="px-4 sm:px-6 py-4">
+                                                    <p className="text-xs font-bold text-gray-400 uppercase mb-2">{t.changedFields}</p>
+                                                    {changes.length === 0 ? (
+                                                        <p className="text-xs text-gray-500 italic">-</p>
+                                                    ) : (
+                                                        <div className="space-y-1 font-mono text-xs">
+                                                            {changes.map(change => (
+                                                                <div key={change.field} className="flex flex-wrap gap-2">
+                                                                    <span className="text-gray-500">{change.field}:</span>
+                                                                    {change.field === 'password_changed'
+                                                                        ? <span className="text-amber-600">{t.passwordChanged}</span>
+                                                                        : <>
+                                                                            {entry.action !== 'INSERT' && <span className="text-red-600 line-through">{formatValue(change.before)}</span>}
+                                                                            {entry.action === 'UPDATE' && <span className="text-gray-400">→</span>}
+                                                                            {entry.action !== 'DELETE' && <span className="text-green-600">{formatValue(change.after)}</span>}
+                                                                        </>}
+                                                                </div>
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                            {!isLoading && entries.length === 0 && (
+                                <tr>
+                                    <td colSpan={4} className="px-6 py-12 text-center text-gray-400 italic">
+                                        <History className="w-10 h-10 mx-auto mb-2 opacity-20" />
+                                        {t.noAuditEntries}
+                                    </td>
+                                </tr>
+                            )}
+                            {isLoading && entries.length === 0 && (
+                                <tr>
+                                    <td colSpan={4} className="px-6 py-12 text-center text-gray-400">
+                                        <Loader2 className="w-6 h-6 mx-auto animate-spin" />
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AuditLogPanel;
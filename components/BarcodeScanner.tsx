@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { createFrameDecoder } from '../services/scanService';
+import { ScanLine, X, AlertCircle, Loader2 } from 'lucide-react';
+
+interface BarcodeScannerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onDetected: (code: string) => void; // Called once per opening, then the scanner closes
+    language: Language;
+}
+
+const SCAN_INTERVAL_MS = 250;
+
+// Reads a barcode or QR code with the back camera. A code can also be typed in, or sent by a
+// handheld scanner that acts as a keyboard.
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ isOpen, onClose, onDetected, language }) => {
+    const t = TRANSLATIONS[language];
+    const videoRef = useRef<HTMLVideoElement>(null);
+    // The scan loop outlives renders; it always reports to the latest handlers
+    const handlersRef = useRef({ onDetected, onClose });
+    handlersRef.current = { onDetected, onClose };
+    const [manualCode, setManualCode] = useState('');
+    const [cameraError, setCameraError] = useState('');
+    const [isStarting, setIsStarting] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setManualCode('');
+        setCameraError('');
+
+        let stream: MediaStream | null = null;
+        let timer: number | undefined;
+        let stopped = false;
+        const canvas = document.createElement('canvas');
+
+        const stopCamera = () => stream?.getTracks().forEach(track => track.stop());
+
+        const start = async () => {
+            if (!navigator.mediaDevices?.getUserMedia) {
+                setCameraError(t.cameraUnavailable);
+                return;
+            }
+            setIsStarting(true);
+            try {
+                const decode = await createFrameDecoder();
+                stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+                // Closed while the camera was starting: the cleanup below found no stream to stop
+                if (stopped) {
+                    stopCamera();
+                    return;
+                }
+                const video = videoRef.current!;
+                video.srcObject = stream;
+                await video.play();
+
+                const scan = async () => {
+                    if (stopped) {
+                        stopCamera();
+                        return;
+                    }
+                    if (video.videoWidth > 0) {
+                        canvas.width = video.videoWidth;
+                        canvas.height = video.videoHeight;
+                        canvas.getContext('2d')!.drawImage(video, 0, 0);
+                        let code: string | null = null;
+                        try {
+                            code = await decode(canvas);
+                        } catch (error) {
+                            // One unreadable frame, e.g. one not ready yet, must not end the scan loop
+                            console.warn("Could not decode a camera frame", error);
+                        }
+                        if (code && !stopped) {
+                            stopped = true;
+                            navigator.vibrate?.(80);
+                            handlersRef.current.onDetected(code.trim());
+                            handlersRef.current.onClose();
+                            return;
+                        }
+                    }
+                    if (!stopped) timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+                };
+                scan();
+            } catch (error) {
+                console.warn("Could not start the camera", error);
+                if (!stopped) setCameraError(t.cameraUnavailable);
+            } finally {
+                setIsStarting(false);
+            }
+        };
+        start();
+
+        return () => {
+            stopped = true;
+            window.clearTimeout(timer);
+            stopCamera();
+        };
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const handleManualSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!manualCode.trim()) return;
+        onDetected(manualCode.trim());
+        onClose();
+    };
+
+    return (
+        <div className={`fixed inset-0 bg-black/70 backdrop-blur-sm z-[110] flex items-center justify-center p-4 ${language === 'ar' ? 'font-arabic' : ''}`}>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-md p-6 shadow-2xl">
+                <div className="flex justify-between items-center mb-4">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 dark:bg-brand-900/30 rounded-lg">
+                            <ScanLine className="w-6 h-6 text-brand-600 dark:text-brand-500" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t.scanBarcode}</h2>
+                            <p className="text-xs text-gray-500">{t.scanBarcodeHint}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                {cameraError ? (
+                    <div className="flex items-center gap-2 p-3 mb-4 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 text-sm rounded-lg">
+                        <AlertCircle className="w-4 h-4 shrink-0" />
+                        {cameraError}
+                    </div>
+                ) : (
+                    <div className="relative mb-4 aspect-[4/3] bg-black rounded-xl overflow-hidden">
+                        <video ref={videoRef} muted playsInline className="w-full h-full object-cover" />
+                        <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/80 shadow-[0_0_8px_rgba(239,68,68,0.8)]"></div>
+                        {isStarting && (
+                            <div className="absolute inset-0 flex items-center justify-center">
+                                <Loader2 className="w-8 h-8 text-white animate-spin" />
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <form onSubmit={handleManualSubmit} className="flex gap-2">
+                    <input
+                        type="text"
+                        autoFocus={!!cameraError}
+                        value={manualCode}
+                        onChange={e => setManualCode(e.target.value)}
+                        placeholder={t.enterCodeManually}
+                        className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none font-mono text-sm"
+                    />
+                    <button type="submit" className="px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg font-medium transition-colors">
+                        {t.confirm}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default BarcodeScanner;
@@ -9,6 +9,7 @@ interface BulkEditModalProps {
     selectedCount: number;
     onSave: (updates: Partial<InventoryItem>) => void;
     language: Language;
+    canEditCatalog: boolean; // Category and unit belong to the shared product catalog
 }
 
 const BulkEditModal: React.FC<BulkEditModalProps> = ({
@@ -16,7 +17,8 @@ const BulkEditModal: React.FC<BulkEditModalProps> = ({
     onClose,
     selectedCount,
     onSave,
-    language
+    language,
+    canEditCatalog
 }) => {
     const t = TRANSLATIONS[language];
     const [category, setCategory] = useState('');
@@ -63,45 +65,49 @@ const BulkEditModal: React.FC<BulkEditModalProps> = ({
 
                 <div className="p-6 space-y-6">
                     <div className="space-y-4">
-                        <div className="flex items-start gap-3">
-                            <input 
-                                type="checkbox" 
-                                checked={applyCategory} 
-                                onChange={(e) => setApplyCategory(e.target.checked)}
-                                className="mt-1 w-4 h-4 text-brand-600 border-gray-300 rounded focus:ring-brand-500"
-                            />
-                            <div className="flex-1">
-                                <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">{t.category}</label>
+                        {canEditCatalog && (
+                            <>
+                            <div className="flex items-start gap-3">
                                 <input 
-                                    type="text" 
-                                    value={category} 
-                                    onChange={(e) => setCategory(e.target.value)}
-                                    disabled={!applyCategory}
-                                    className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm outline-none focus:ring-2 focus:ring-brand-500 disabled:opacity-50"
-                                    placeholder={t.category}
+                                    type="checkbox" 
+                                    checked={applyCategory} 
+                                    onChange={(e) => setApplyCategory(e.target.checked)}
+                                    className="mt-1 w-4 h-4 text-brand-600 border-gray-300 rounded focus:ring-brand-500"
                                 />
+                                <div className="flex-1">
+                                    <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">{t.category}</label>
+                                    <input 
+                                        type="text" 
+                                        value={category} 
+                                        onChange={(e) => setCategory(e.target.value)}
+                                        disabled={!applyCategory}
+                                        className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm outline-none focus:ring-2 focus:ring-brand-500 disabled:opacity-50"
+                                        placeholder={t.category}
+                                    />
+                                </div>
                             </div>
-                        </div>
 
-                        <div className="flex items-start gap-3">
-                            <input 
-                                type="checkbox" 
-                                checked={applyUnit} 
-                                onChange={(e) => setApplyUnit(e.target.checked)}
-                                className="mt-1 w-4 h-4 text-brand-600 border-gray-300 rounded focus:ring-brand-500"
-                            />
-                            <div className="flex-1">
-                                <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">{t.unit}</label>
+                            <div className="flex items-start gap-3">
                                 <input 
-                                    type="text" 
-                                    value={unit} 
-                                    onChange={(e) => setUnit(e.target.value)}
-                                    disabled={!applyUnit}
-                                    className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm outline-none focus:ring-2 focus:ring-brand-500 disabled:opacity-50"
-                                    placeholder={t.unit}
+                                    type="checkbox" 
+                                    checked={applyUnit} 
+                                    onChange={(e) => setApplyUnit(e.target.checked)}
+                                    className="mt-1 w-4 h-4 text-brand-600 border-gray-300 rounded focus:ring-brand-500"
                                 />
+                                <div className="flex-1">
+                                    <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">{t.unit}</label>
+                                    <input 
+                                        type="text" 
+                                        value={unit} 
+                                        onChange={(e) => setUnit(e.target.value)}
+                                        disabled={!applyUnit}
+                                        className="w-full px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm outline-none focus:ring-2 focus:ring-brand-500 disabled:opacity-50"
+                                        placeholder={t.unit}
+                                    />
+                                </div>
                             </div>
-                        </div>
+                            </>
+                        )}
 
                         <div className="flex items-start gap-3">
                             <input 
@@ -0,0 +1,179 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ExpiringStock, ExpiryBucket, InventoryItem, Transaction, LocationData, Language, WasteReasonCode, WriteOffTarget } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { EXPIRY_BUCKETS, buildExpiryReport, buildWasteSummary, getMonthKey } from '../services/expiryService';
+import { exportWasteReportPDF, exportWasteReportExcel } from '../services/exportService';
+import WasteWriteOffModal from './WasteWriteOffModal';
+import { CalendarX, FileSpreadsheet, FileText, MapPin, PackageX } from 'lucide-react';
+
+interface ExpiryPanelProps {
+    stockByLocation: Record<string, InventoryItem[]>; // Only the locations to show
+    transactions: Transaction[];
+    availableLocations: LocationData[];
+    language: Language;
+    onWriteOff?: (target: WriteOffTarget, quantity: number, reasonCode: WasteReasonCode, notes: string) => Promise<void>;
+    onLoadTransactionsSince?: (since: string) => void; // Loads history for an older report month
+}
+
+const BUCKET_STYLES: Record<ExpiryBucket, { card: string, badge: string }> = {
+    expired: { card: 'border-red-200 dark:border-red-900/40', badge: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400' },
+    within3: { card: 'border-orange-200 dark:border-orange-900/40', badge: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400' },
+    within7: { card: 'border-yellow-200 dark:border-yellow-900/40', badge: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400' },
+    within30: { card: 'border-gray-200 dark:border-gray-700', badge: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' }
+};
+
+const ExpiryPanel: React.FC<ExpiryPanelProps> = ({ stockByLocation, transactions, availableLocations, language, onWriteOff, onLoadTransactionsSince }) => {
+    const t = TRANSLATIONS[language];
+    const [locationFilter, setLocationFilter] = useState('');
+    const [reportMonth, setReportMonth] = useState(() => getMonthKey(new Date()));
+    const [writeOffTarget, setWriteOffTarget] = useState<WriteOffTarget | null>(null);
+
+    useEffect(() => {
+        const [year, month] = reportMonth.split('-').map(Number);
+        onLoadTransactionsSince?.(new Date(year, month - 1, 1).toISOString());
+    }, [reportMonth]);
+
+    const locationIds = Object.keys(stockByLocation);
+    const report = useMemo(() => buildExpiryReport(
+        locationFilter ? { [locationFilter]: stockByLocation[locationFilter] || [] } : stockByLocation
+    ), [stockByLocation, locationFilter]);
+
+    // The waste report covers the same locations as the expiry view
+    const wasteRows = useMemo(
+        () => buildWasteSummary(transactions, reportMonth).filter(row => locationFilter ? row.locationId === locationFilter : locationIds.includes(row.locationId)),
+        [transactions, reportMonth, locationFilter, stockByLocation]
+    );
+
+    const bucketLabels: Record<ExpiryBucket, string> = {
+        expired: t.expired,
+        within3: t.expiresWithin3,
+        within7: t.expiresWithin7,
+        within30: t.expiresWithin30
+    };
+
+    const getLocationName = (id: string) => {
+        if (id === 'warehouse') return t.warehouse;
+        if (id === 'mammal') return t.mammal;
+        const loc = availableLocations.find(l => l.id === id);
+        if (!loc) return id;
+        return language === 'ar' ? (loc.nameAr || loc.name) : loc.name;
+    };
+
+    const formatDaysLeft = (entry: ExpiringStock) => {
+        if (entry.daysLeft < 0) return `${t.daysOverdue}: ${-entry.daysLeft}`;
+        if (entry.daysLeft === 0) return t.expiresToday;
+        return `${t.daysLeft}: ${entry.daysLeft}`;
+    };
+
+    const handleConfirmWriteOff = async (quantity: number, reasonCode: WasteReasonCode, notes: string) => {
+        if (writeOffTarget && onWriteOff) await onWriteOff(writeOffTarget, quantity, reasonCode, notes);
+    };
+
+    const total = EXPIRY_BUCKETS.reduce((sum, bucket) => sum + report[bucket].length, 0);
+    const inputClass = "px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none";
+
+    return (
+        <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
+            <div className="flex flex-col xl:flex-row justify-between items-start gap-4 mb-6">
+                <div>
+                    <h2 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">{t.expiryWaste}</h2>
+                    <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">{t.expiryWasteSub}</p>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-3 w-full xl:w-auto">
+                    {locationIds.length > 1 && (
+                        <select value={locationFilter} onChange={e => setLocationFilter(e.target.value)} className={inputClass}>
+                            <option value="">{t.allLocations}</option>
+                            {locationIds.map(id => (
+                                <option key={id} value={id}>{getLocationName(id)}</option>
+                            ))}
+                        </select>
+                    )}
+                    <div className="flex items-center gap-2 bg-white dark:bg-gray-800 p-2 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+                        <label className="text-[10px] font-bold text-gray-400 uppercase px-2">{t.wasteReport}</label>
+                        <input type="month" value={reportMonth} onChange={e => e.target.value && setReportMonth(e.target.value)} className={inputClass} />
+                        <button
+                            onClick={() => exportWasteReportExcel(wasteRows, reportMonth, language, getLocationName)}
+                            className="p-2.5 bg-green-100 hover:bg-green-200 text-green-700 rounded-xl transition-colors"
+                            title={t.exportExcel}
+                        >
+                            <FileSpreadsheet className="w-5 h-5" />
+                        </button>
+                        <button
+                            onClick={() => exportWasteReportPDF(wasteRows, reportMonth, language, getLocationName).catch(error => {
+                                console.error('Error exporting PDF:', error);
+                                alert(t.pdfExportFailed);
+                            })}
+                            className="p-2.5 bg-red-100 hover:bg-red-200 text-red-700 rounded-xl transition-colors"
+                            title={t.exportPDF}
+                        >
+                            <FileText className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-6">
+                {EXPIRY_BUCKETS.map(bucket => (
+                    <div key={bucket} className={`bg-white dark:bg-gray-800 p-4 rounded-xl shadow-sm border ${BUCKET_STYLES[bucket].card}`}>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{bucketLabels[bucket]}</p>
+                        <p className="text-2xl font-bold text-gray-900 dark:text-white">{report[bucket].length}</p>
+                    </div>
+                ))}
+            </div>
+
+            {total === 0 ? (
+                <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 px-6 py-12 text-center text-gray-400 italic">
+                    <CalendarX className="w-10 h-10 mx-auto mb-2 opacity-20" />
+                    {t.noExpiringStock}
+                </div>
+            ) : (
+                <div className="space-y-6">
+                    {EXPIRY_BUCKETS.filter(bucket => report[bucket].length > 0).map(bucket => (
+                        <div key={bucket} className={`bg-white dark:bg-gray-800 rounded-2xl border shadow-sm overflow-hidden ${BUCKET_STYLES[bucket].card}`}>
+                            <div className="px-4 sm:px-6 py-3 border-b border-gray-100 dark:border-gray-700 flex items-center gap-2">
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${BUCKET_STYLES[bucket].badge}`}>{bucketLabels[bucket]}</span>
+                                <span className="text-xs text-gray-400">({report[bucket].length})</span>
+                            </div>
+                            <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                                {report[bucket].map(entry => (
+                                    <div key={`${entry.itemId}-${entry.lotId || 'item'}`} className="flex justify-between items-center gap-3 px-4 sm:px-6 py-3">
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{language === 'ar' ? entry.itemNameAr : entry.itemNameEn}</p>
+                                            <p className="text-xs text-gray-500 flex flex-wrap items-center gap-x-2">
+                                                <span className="flex items-center gap-1"><MapPin className="w-3 h-3" /> {getLocationName(entry.locationId)}</span>
+                                                {entry.lotId && <span>{t.lotNumber}: {entry.lotNumber || t.unlabelledLot}</span>}
+                                                <span>{t.expiryDate}: {entry.expirationDate}</span>
+                                                <span className={entry.daysLeft < 0 ? 'text-red-600 font-bold' : ''}>{formatDaysLeft(entry)}</span>
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-3 shrink-0">
+                                            <span className="text-sm font-bold text-gray-900 dark:text-white">{entry.quantity} {entry.unit}</span>
+                                            {onWriteOff && (
+                                                <button
+                                                    onClick={() => setWriteOffTarget(entry)}
+                                                    className="flex items-center gap-1 px-3 py-1.5 bg-red-50 dark:bg-red-900/20 text-red-600 rounded-lg text-xs font-bold hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+                                                >
+                                                    <PackageX className="w-3 h-3" /> {t.writeOff}
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <WasteWriteOffModal
+                isOpen={!!writeOffTarget}
+                onClose={() => setWriteOffTarget(null)}
+                target={writeOffTarget}
+                onConfirm={handleConfirmWriteOff}
+                language={language}
+            />
+        </div>
+    );
+};
+
+export default ExpiryPanel;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { PurchaseOrder, GoodsReceiptLine, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { PackagePlus, X, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface GoodsReceiptModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    order: PurchaseOrder | null;
+    onConfirm: (lines: GoodsReceiptLine[], notes?: string) => void;
+    language: Language;
+}
+
+const GoodsReceiptModal: React.FC<GoodsReceiptModalProps> = ({ isOpen, onClose, order, onConfirm, language }) => {
+    const t = TRANSLATIONS[language];
+    const [quantities, setQuantities] = useState<Record<string, string>>({});
+    const [lots, setLots] = useState<Record<string, { lotNumber: string, expirationDate: string, unitCost: string }>>({});
+    const [notes, setNotes] = useState('');
+    const [error, setError] = useState('');
+
+    // Every line starts out with whatever is still outstanding
+    useEffect(() => {
+        if (isOpen && order) {
+            const initial: Record<string, string> = {};
+            order.lines.forEach(l => {
+                initial[l.id] = Math.max(l.quantity - l.receivedQuantity, 0).toString();
+            });
+            setQuantities(initial);
+            setLots({});
+            setNotes('');
+            setError('');
+        }
+    }, [isOpen, order]);
+
+    if (!isOpen || !order) return null;
+
+    const setLotField = (lineId: string, field: 'lotNumber' | 'expirationDate' | 'unitCost', value: string) => {
+        setLots(prev => ({
+            ...prev,
+            [lineId]: { lotNumber: '', expirationDate: '', unitCost: '', ...prev[lineId], [field]: value }
+        }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const lines: GoodsReceiptLine[] = [];
+        for (const line of order.lines) {
+            const value = quantities[line.id];
+            if (!value) continue;
+            const qty = Number(value);
+            const outstanding = line.quantity - line.receivedQuantity;
+            if (isNaN(qty) || qty < 0 || qty > outstanding) {
+                setError(`${language === 'ar' ? line.itemNameAr : line.itemNameEn}: ${t.invalidNumber} (Max: ${outstanding})`);
+                return;
+            }
+            const cost = lots[line.id]?.unitCost ? Number(lots[line.id].unitCost) : undefined;
+            if (cost !== undefined && (isNaN(cost) || cost < 0)) {
+                setError(`${language === 'ar' ? line.itemNameAr : line.itemNameEn}: ${t.invalidUnitCost}`);
+                return;
+            }
+            if (qty > 0) {
+                lines.push({
+                    lineId: line.id,
+                    quantity: qty,
+                    lotNumber: lots[line.id]?.lotNumber.trim() || undefined,
+                    expirationDate: lots[line.id]?.expirationDate || undefined,
+                    unitCost: cost
+                });
+            }
+        }
+
+        if (lines.length === 0) {
+            setError(t.receiveQuantityRequired);
+            return;
+        }
+
+        onConfirm(lines, notes.trim() || undefined);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-lg p-6 shadow-2xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-green-100 dark:bg-green-900/30 rounded-lg">
+                            <PackagePlus className="w-6 h-6 text-green-600 dark:text-green-500" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t.receiveGoods} <span className="font-mono text-base text-gray-500">{order.poNumber}</span></h2>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">{t.receiveGoodsDesc}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-3">
+                    {order.lines.map(line => {
+                        const outstanding = line.quantity - line.receivedQuantity;
+                        return (
+                            <div key={line.id} className={`p-3 rounded-xl border border-gray-100 bg-gray-50 dark:border-gray-700 dark:bg-gray-700/50 ${outstanding <= 0 ? 'opacity-50' : ''}`}>
+                                <div className="flex justify-between items-center gap-3">
+                                    <div className="min-w-0">
+                                        <p className="font-medium text-gray-900 dark:text-white truncate">{language === 'ar' ? line.itemNameAr : line.itemNameEn}</p>
+                                        <p className="text-xs text-gray-500">
+                                            {t.ordered}: {line.quantity} {line.unit} • {t.outstanding}: {outstanding} {line.unit}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        <label className="text-xs text-gray-500">{t.received}</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            max={outstanding}
+                                            step="any"
+                                            disabled={outstanding <= 0}
+                                            value={quantities[line.id] ?? ''}
+                                            onChange={e => { setQuantities(prev => ({ ...prev, [line.id]: e.target.value })); setError(''); }}
+                                            className="w-20 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+                                        />
+                                    </div>
+                                </div>
+                                {outstanding > 0 && (
+                                    <div className="grid grid-cols-3 gap-2 mt-2">
+                                        <input
+                                            type="text"
+                                            value={lots[line.id]?.lotNumber ?? ''}
+                                            onChange={e => setLotField(line.id, 'lotNumber', e.target.value)}
+                                            placeholder={t.lotNumber}
+                                            className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+                                        />
+                                        <input
+                                            type="date"
+                                            value={lots[line.id]?.expirationDate ?? ''}
+                                            onChange={e => setLotField(line.id, 'expirationDate', e.target.value)}
+                                            title={t.expiryDate}
+                                            className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+                                        />
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="any"
+                                            value={lots[line.id]?.unitCost ?? ''}
+                                            onChange={e => { setLotField(line.id, 'unitCost', e.target.value); setError(''); }}
+                                            placeholder={t.unitCost}
+                                            className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    <textarea
+                        value={notes}
+                        onChange={e => setNotes(e.target.value)}
+                        placeholder={t.deliveryNotesPlaceholder}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none text-sm resize-none h-20"
+                    />
+
+                    {error && (
+                        <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm rounded-lg">
+                            <AlertCircle className="w-4 h-4 shrink-0" />
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex gap-3 pt-4">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 py-3 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl font-medium transition-colors"
+                        >
+                            {t.cancel}
+                        </button>
+                        <button
+                            type="submit"
+                            className="flex-1 py-3 bg-green-600 text-white rounded-xl font-bold hover:bg-green-700 transition-colors flex items-center justify-center gap-2"
+                        >
+                            <CheckCircle className="w-4 h-4" />
+                            {t.confirmReceipt}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default GoodsReceiptModal;
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { InventoryItem, LocationId, Language, Transaction, LocationData } from '../types';
+import { InventoryItem, Product, LocationId, Language, Transaction, TransferReceipt, TransferDocumentStatus, TransferSignature, TransferSignatureRole, LocationData, PurchaseOrder, ReorderSuggestion, StockTake, WasteReasonCode, WriteOffTarget, OutboxEntry, AppNotification, NotificationEvent } from '../types';
 import { LOCATIONS, TRANSLATIONS } from '../constants';
 import SmartAssistant from './SmartAssistant';
 import TransferModal from './TransferModal';
@@ -7,8 +7,23 @@ import AddItemModal from './AddItemModal';
 import UsageModal from './UsageModal';
 import BulkEditModal from './BulkEditModal';
 import ItemHistoryModal from './ItemHistoryModal';
+import ReceiveTransferModal from './ReceiveTransferModal';
+import SignatureModal from './SignatureModal';
+import ReorderSuggestions from './ReorderSuggestions';
+import StockTakeModal from './StockTakeModal';
+import ExpiryPanel from './ExpiryPanel';
+import WasteWriteOffModal from './WasteWriteOffModal';
+import OutboxStatus from './OutboxStatus';
+import NotificationBell from './NotificationBell';
+import VirtualGrid from './VirtualGrid';
+import BarcodeScanner from './BarcodeScanner';
+import LabelPrintModal from './LabelPrintModal';
 import { extractTextFromPDF, parseTransferDocument } from '../services/pdfService';
 import { exportTransferPDF } from '../services/exportService';
+import { buildReorderPlan } from '../services/replenishmentService';
+import { buildExpiryReport } from '../services/expiryService';
+import { findItemByCode } from '../services/scanService';
+import { formatTransferDocumentCode, parseTransferDocumentCode } from '../services/transferService';
 import { 
   ArrowLeft, 
   Search, 
@@ -41,17 +56,25 @@ import {
   ArrowUpDown,
   LayoutGrid,
   List as ListIcon,
-  Grid3X3
+  Grid3X3,
+  ClipboardCheck,
+  CalendarX,
+  PackageX,
+  Tag,
+  QrCode
 } from 'lucide-react';
 
 interface InventoryDashboardProps {
   locationId: LocationId;
   inventory: InventoryItem[];
+  products: Product[];
   transactions: Transaction[];
+  stockByLocation: Record<string, InventoryItem[]>;
+  purchaseOrders: PurchaseOrder[];
   onBack: () => void;
   onLogout: () => void;
   language: Language;
-  onTransfer: (items: { itemId: string, quantity: number }[], toLocation: LocationId, sourceOverride?: LocationId) => void;
+  onTransfer: (items: { itemId: string, quantity: number }[], toLocation: LocationId, sourceOverride?: LocationId) => Promise<Transaction[]>; // The lines created, none when it failed
   onAddItem: (locationId: string, item: Omit<InventoryItem, 'id' | 'lastUpdated'>) => void;
   onEditItem: (locationId: string, item: InventoryItem) => void;
   onDeleteItem: (locationId: string, itemId: string) => void;
@@ -60,20 +83,45 @@ interface InventoryDashboardProps {
   onRecordUsage: (itemId: string, quantity: number, notes: string) => void;
   userRole: string;
   userBranchCode?: string;
+  userName: string; // Suggested as the signer's name on transfers
   incomingTransfers: Transaction[];
   outgoingTransfers: Transaction[];
   outgoingApprovals: Transaction[];
-  onReceiveTransfer: (transaction: Transaction) => void;
+  onReceiveTransfer: (transaction: Transaction, receipt?: TransferReceipt) => void;
   onRejectTransfer: (transaction: Transaction, reason: string) => void;
+  onCancelTransfer: (transaction: Transaction) => void; // The sender withdraws it; dispatched stock returns
   onConfirmOutbound: (transaction: Transaction) => void;
+  onSignTransferDocument: (transferGroupId: string) => Promise<string>;
+  onVerifyTransferDocument: (transferGroupId: string, signature: string) => Promise<TransferDocumentStatus | null>; // Null when the check failed
+  onRecordTransferSignature: (transferGroupId: string, role: TransferSignatureRole, signerName: string, image: string) => Promise<boolean>; // False when it was not recorded
+  onLoadTransferSignatures: (transferGroupId: string) => Promise<TransferSignature[]>;
   availableLocations: LocationData[];
   getUserName: (name: string) => string;
+  stockTakes: StockTake[];
+  onStartStockTake: (notes?: string) => Promise<void>;
+  onSaveStockCounts: (stockTakeId: string, counts: { lineId: string, countedQuantity: number | null }[]) => Promise<void>;
+  onSubmitStockTake: (stockTakeId: string, counts: { lineId: string, countedQuantity: number | null }[]) => Promise<void>;
+  onApproveStockTake: (stockTakeId: string) => Promise<void>;
+  onCancelStockTake: (stockTakeId: string) => Promise<void>;
+  onWriteOff: (target: WriteOffTarget, quantity: number, reasonCode: WasteReasonCode, notes: string) => Promise<void>;
+  outbox: OutboxEntry[];
+  isOnline: boolean;
+  onSyncOutbox: () => void;
+  onResolveOutboxConflict: (entry: OutboxEntry, quantity: number | null) => Promise<void>;
+  notifications: AppNotification[];
+  mutedEvents: NotificationEvent[];
+  onMarkNotificationsRead: (notificationIds: string[]) => void;
+  onSaveNotificationPreferences: (mutedEvents: NotificationEvent[]) => Promise<void>;
+  onLoadTransactionsSince: (since: string) => void;
 }
 
 const InventoryDashboard: React.FC<InventoryDashboardProps> = ({ 
   locationId, 
   inventory, 
+  products,
   transactions,
+  stockByLocation,
+  purchaseOrders,
   onBack, 
   onLogout, 
   language,
@@ -86,14 +134,36 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
   onRecordUsage,
   userRole,
   userBranchCode,
+  userName,
   incomingTransfers,
   outgoingTransfers,
   outgoingApprovals,
   onReceiveTransfer,
   onRejectTransfer,
+  onCancelTransfer,
   onConfirmOutbound,
+  onSignTransferDocument,
+  onVerifyTransferDocument,
+  onRecordTransferSignature,
+  onLoadTransferSignatures,
   availableLocations,
-  getUserName
+  getUserName,
+  stockTakes,
+  onStartStockTake,
+  onSaveStockCounts,
+  onSubmitStockTake,
+  onApproveStockTake,
+  onCancelStockTake,
+  onWriteOff,
+  outbox,
+  isOnline,
+  onSyncOutbox,
+  onResolveOutboxConflict,
+  notifications,
+  mutedEvents,
+  onMarkNotificationsRead,
+  onSaveNotificationPreferences,
+  onLoadTransactionsSince
 }) => {
   const [search, setSearch] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
@@ -107,8 +177,15 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
   const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
   const [isAddItemModalOpen, setIsAddItemModalOpen] = useState(false);
   const [isBulkEditModalOpen, setIsBulkEditModalOpen] = useState(false);
+  const [isStockTakeModalOpen, setIsStockTakeModalOpen] = useState(false);
+  const [isExpiryPanelOpen, setIsExpiryPanelOpen] = useState(false);
+  const [writeOffTarget, setWriteOffTarget] = useState<WriteOffTarget | null>(null);
   
   const [itemToEdit, setItemToEdit] = useState<InventoryItem | null>(null);
+  const [newItemBarcode, setNewItemBarcode] = useState<string | undefined>(undefined); // From scanning an unknown code
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isDocumentScannerOpen, setIsDocumentScannerOpen] = useState(false);
+  const [isLabelModalOpen, setIsLabelModalOpen] = useState(false);
   const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
   const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
   const [activeActionId, setActiveActionId] = useState<string | null>(null);
@@ -123,14 +200,33 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
   const [selectedTransferGroup, setSelectedTransferGroup] = useState<string | null>(null);
   const [rejectionTarget, setRejectionTarget] = useState<Transaction[] | null>(null);
   const [rejectionReason, setRejectionReason] = useState('');
+  const [receivingTarget, setReceivingTarget] = useState<Transaction[] | null>(null);
+  // A confirmation or receipt waiting for its signature before it goes ahead
+  const [signingTarget, setSigningTarget] = useState<
+    | { role: 'sender', transactions: Transaction[] }
+    | { role: 'receiver', transactions: Transaction[], receipts: { transaction: Transaction; receipt: TransferReceipt }[] }
+    | null
+  >(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isProcessingPdf, setIsProcessingPdf] = useState(false);
   const [pdfTransferData, setPdfTransferData] = useState<{
       targetLocationId: string | null;
       items: { itemId: string; quantity: number }[];
+      sourceLocationId?: LocationId;
   } | null>(null);
 
+  const reorderPlan = useMemo(
+    () => buildReorderPlan(stockByLocation, transactions, purchaseOrders),
+    [stockByLocation, transactions, purchaseOrders]
+  );
+
+  // Stock here that has expired or expires within 3 days flags the expiry button
+  const hasUrgentExpiry = useMemo(() => {
+    const report = buildExpiryReport({ [locationId]: inventory });
+    return report.expired.length > 0 || report.within3.length > 0;
+  }, [locationId, inventory]);
+
   useEffect(() => {
     const handleClickOutside = () => {
         setActiveActionId(null);
@@ -157,6 +253,37 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                          (userRole === 'warehouse_manager' && locationId === 'warehouse') ||
                          (userRole === 'mammal_employee' && locationId === 'mammal');
 
+  // A code nothing here carries can become a new item, with the code filled in
+  const handleUnknownCode = (code: string) => {
+    if (!canEditItem || isGlobalView) {
+      alert(`${t.unknownCode}: ${code}`);
+      return;
+    }
+    if (window.confirm(`${t.unknownCode}: ${code}\n${t.createItemForCode}`)) {
+      setItemToEdit(null);
+      setNewItemBarcode(code);
+      setIsAddItemModalOpen(true);
+    }
+  };
+
+  // Scanning narrows the list down to the item carrying the code
+  const handleSearchScan = (code: string) => {
+    if (findItemByCode(inventory, code)) {
+      setSearch(code);
+    } else {
+      handleUnknownCode(code);
+    }
+  };
+
+  // Writing off a whole item takes its first-expiring lots, like usage
+  const openWriteOff = (item: InventoryItem) => setWriteOffTarget({
+    itemId: item.id,
+    itemNameEn: item.nameEn,
+    itemNameAr: item.nameAr,
+    unit: item.unit,
+    quantity: item.quantity
+  });
+
   const categories = useMemo(() => {
     const cats = new Set(inventory.map(item => item.category));
     return Array.from(cats).sort();
@@ -171,7 +298,8 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
         item.category.toLowerCase().includes(searchLower) ||
         (item.description && item.description.toLowerCase().includes(searchLower)) ||
         (item.locationId && item.locationId.toLowerCase().includes(searchLower)) ||
-        (item.barcode && item.barcode.toLowerCase().includes(searchLower));
+        (item.barcode && item.barcode.toLowerCase().includes(searchLower)) ||
+        (item.sku && item.sku.toLowerCase().includes(searchLower));
       
       const matchesCategory = selectedCategory === 'all' || item.category === selectedCategory;
       const isLowStock = item.quantity <= item.minThreshold;
@@ -247,6 +375,16 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
     return Object.entries(groups).sort((a,b) => new Date(b[1][0].date).getTime() - new Date(a[1][0].date).getTime());
   }, [outgoingApprovals]);
 
+  // Sent from here and waiting for the receiver
+  const groupedDispatched = useMemo(
+      () => groupedOutgoing.filter(([groupId]) => !groupedApprovals.some(g => g[0] === groupId)),
+      [groupedOutgoing, groupedApprovals]
+  );
+
+  const handleCancelTransfer = (items: Transaction[]) => {
+      if (window.confirm(t.confirmCancelTransfer)) items.forEach(tx => onCancelTransfer(tx));
+  };
+
   const handleReject = () => {
       if (rejectionTarget && rejectionReason.trim()) {
           if (Array.isArray(rejectionTarget)) {
@@ -259,30 +397,108 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
       }
   };
 
-  const handleBulkAccept = async (groupId: string) => {
+  // Accepting opens the receipt form so short deliveries can be recorded per line
+  const handleBulkAccept = (groupId: string) => {
       const group = groupedIncoming.find(g => g[0] === groupId);
-      if (group) {
-          for (const tx of group[1]) {
-              await onReceiveTransfer(tx);
-          }
+      if (group) setReceivingTarget(group[1]);
+  };
+
+  // Scanning a printed transfer opens that transfer for receipt, once the server has checked the
+  // code's signature against the transfer's lines
+  const handleDocumentScan = async (code: string) => {
+      const scanned = parseTransferDocumentCode(code);
+      if (!scanned) {
+          alert(t.notTransferDocument);
+          return;
+      }
+      const status = await onVerifyTransferDocument(scanned.transferGroupId, scanned.signature);
+      if (status === 'tampered') {
+          alert(`${t.transferDocumentTampered}: ${scanned.transferGroupId}`);
+      } else if (status === 'completed') {
+          alert(`${t.transferDocumentCompleted}: ${scanned.transferGroupId}`);
+      } else if (status === 'valid') {
+          const group = groupedIncoming.find(g => g[0] === scanned.transferGroupId);
+          if (group) setReceivingTarget(group[1]);
+          else alert(`${t.transferDocumentNotIncoming}: ${scanned.transferGroupId}`);
+      }
+  };
+
+  const receiveAll = async (receipts: { transaction: Transaction; receipt: TransferReceipt }[]) => {
+      for (const { transaction, receipt } of receipts) {
+          await onReceiveTransfer(transaction, receipt);
       }
   };
 
-  const handleDownloadTransfer = (groupId: string, type: 'incoming' | 'outgoing') => {
-    const group = (type === 'incoming' ? groupedIncoming : groupedOutgoing).find(g => g[0] === groupId);
-    if (group) {
-      const tx = group[1][0];
+  // Grouped transfers are signed for by whoever physically hands the goods over or takes them;
+  // transfers from before groups existed have nothing to hold a signature and go ahead at once
+  const handleConfirmReceipt = async (receipts: { transaction: Transaction; receipt: TransferReceipt }[]) => {
+      if (receipts.length > 0 && receipts[0].transaction.transferGroupId) {
+          setSigningTarget({ role: 'receiver', transactions: receipts.map(r => r.transaction), receipts });
+      } else {
+          await receiveAll(receipts);
+      }
+  };
+
+  const handleConfirmOutbound = (items: Transaction[]) => {
+      if (items.length > 0 && items[0].transferGroupId) setSigningTarget({ role: 'sender', transactions: items });
+      else items.forEach(tx => onConfirmOutbound(tx));
+  };
+
+  // A transfer the source sends itself leaves at once; the sender signs for it straight after
+  const requestDispatchSignature = (created: Transaction[]) => {
+      const dispatched = created.filter(tx => tx.status === 'pending_target');
+      if (dispatched.length > 0 && dispatched[0].transferGroupId) setSigningTarget({ role: 'sender', transactions: dispatched });
+  };
+
+  const handleSigned = async (signerName: string, image: string) => {
+      if (!signingTarget) return;
+      const recorded = await onRecordTransferSignature(signingTarget.transactions[0].transferGroupId!, signingTarget.role, signerName, image);
+      if (!recorded) return;
+      const target = signingTarget;
+      setSigningTarget(null);
+      // Only requests still waiting on the source are confirmed; a direct dispatch has already left
+      if (target.role === 'sender') target.transactions.filter(tx => tx.status === 'pending_source').forEach(tx => onConfirmOutbound(tx));
+      else await receiveAll(target.receipts);
+  };
+
+  // Pending groups come from the notification center; received ones are looked up in the history.
+  // The copy carries a signed code for the receiver to scan, when the server can be reached.
+  const handleDownloadTransfer = async (groupId: string) => {
+    const pendingGroup = [...groupedIncoming, ...groupedOutgoing].find(g => g[0] === groupId);
+    const lines = pendingGroup ? pendingGroup[1] : transactions.filter(tx => tx.type === 'transfer' && tx.transferGroupId === groupId);
+    if (lines.length > 0) {
+      const tx = lines[0];
       const fromLoc = availableLocations.find(l => l.id === tx.fromLocation);
       const toLoc = availableLocations.find(l => l.id === tx.toLocation);
       const fromLocationName = fromLoc ? (fromLoc.id === 'warehouse' ? t.warehouse : fromLoc.id === 'mammal' ? t.mammal : (language === 'ar' ? (fromLoc.nameAr || fromLoc.name) : fromLoc.name)) : (tx.fromLocation || '');
       const toLocationName = toLoc ? (toLoc.id === 'warehouse' ? t.warehouse : toLoc.id === 'mammal' ? t.mammal : (language === 'ar' ? (toLoc.nameAr || toLoc.name) : toLoc.name)) : (tx.toLocation || '');
       
-      const translatedTransactions = group[1].map(t => ({
+      const translatedTransactions = lines.map(t => ({
         ...t,
         performedBy: getUserName ? getUserName(t.performedBy) : t.performedBy
       }));
       
-      exportTransferPDF(translatedTransactions, language, fromLocationName, toLocationName);
+      let documentCode: string | undefined;
+      let signatures: TransferSignature[] = [];
+      if (tx.transferGroupId) {
+        try {
+          documentCode = formatTransferDocumentCode(tx.transferGroupId, await onSignTransferDocument(tx.transferGroupId));
+        } catch (error) {
+          console.error("Could not sign the transfer document", error);
+        }
+        try {
+          signatures = await onLoadTransferSignatures(tx.transferGroupId);
+        } catch (error) {
+          console.error("Could not load the transfer signatures", error);
+        }
+      }
+      
+      try {
+        await exportTransferPDF(translatedTransactions, language, fromLocationName, toLocationName, documentCode, signatures);
+      } catch (error) {
+        console.error("Error exporting PDF:", error);
+        alert(t.pdfExportFailed);
+      }
     }
   };
 
@@ -325,6 +541,17 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
     setIsTransferModalOpen(true);
   };
 
+  const handleCreateReorderTransfer = (targetLocationId: LocationId, suggestions: ReorderSuggestion[]) => {
+    setPdfTransferData({
+      targetLocationId,
+      items: suggestions
+        .filter(s => s.sourceItemId)
+        .map(s => ({ itemId: s.sourceItemId!, quantity: s.suggestedQuantity })),
+      sourceLocationId: 'warehouse'
+    });
+    setIsTransferModalOpen(true);
+  };
+
   const handleBulkEdit = () => {
     setIsBulkEditModalOpen(true);
   };
@@ -335,9 +562,10 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
   };
 
   const handleTransferSubmit = async (transferItems: { itemId: string, quantity: number }[], toLocation: LocationId, sourceOverride?: LocationId) => {
-    await onTransfer(transferItems, toLocation, sourceOverride);
+    const created = await onTransfer(transferItems, toLocation, sourceOverride);
     setSelectedItemIds(new Set());
     setPdfTransferData(null);
+    requestDispatchSignature(created);
   };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -386,6 +614,13 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                 <Sparkles className="w-4 h-4 text-brand-500 sm:mr-2 sm:rtl:ml-2 sm:rtl:mr-0 inline" />
                 <span className="hidden sm:inline">{t.askAI}</span>
               </button>
+              <NotificationBell
+                notifications={notifications}
+                mutedEvents={mutedEvents}
+                language={language}
+                onMarkRead={onMarkNotificationsRead}
+                onSavePreferences={onSaveNotificationPreferences}
+              />
               <div className="h-6 w-px bg-gray-200 dark:bg-gray-700 mx-1"></div>
                <button onClick={onLogout} className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 text-gray-400 hover:text-red-600 dark:text-gray-500 rounded-lg transition-colors">
                 <LogOut className="w-5 h-5 rtl:rotate-180" />
@@ -396,6 +631,16 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
 
         <main className="p-4 sm:p-6 max-w-7xl mx-auto w-full">
 
+          {/* Usage waiting in the offline outbox */}
+          <OutboxStatus
+            outbox={outbox}
+            items={inventory}
+            isOnline={isOnline}
+            language={language}
+            onSyncNow={onSyncOutbox}
+            onResolveConflict={onResolveOutboxConflict}
+          />
+
           {/* Enhanced Notification Center */}
           {(groupedIncoming.length > 0 || outgoingTransfers.length > 0 || outgoingApprovals.length > 0) && (
             <div className="mb-8 space-y-6">
@@ -407,9 +652,14 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
                   {/* Incoming Section */}
                   <div className="space-y-4">
-                     <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
-                        <ArrowDownCircle className="w-4 h-4 text-blue-500" /> {t.incomingRequests}
-                     </h3>
+                     <div className="flex items-center justify-between gap-2">
+                        <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+                           <ArrowDownCircle className="w-4 h-4 text-blue-500" /> {t.incomingRequests}
+                        </h3>
+                        <button onClick={() => setIsDocumentScannerOpen(true)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-blue-600 bg-blue-50 dark:bg-blue-900/20 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/40 transition-colors">
+                           <QrCode className="w-4 h-4" /> {t.scanTransferDocument}
+                        </button>
+                     </div>
                      <div className="space-y-3">
                         {groupedIncoming.map(([groupId, items]) => (
                            <div key={groupId} className="bg-white dark:bg-gray-800 rounded-xl border border-blue-100 dark:border-blue-900/30 p-4 sm:p-5 shadow-sm">
@@ -418,7 +668,7 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                                     <p className="text-xs text-gray-400 mb-1">{t.from}: <span className="text-gray-900 dark:text-white font-bold">{items[0].fromLocation}</span></p>
                                     <p className="text-sm font-semibold text-gray-900 dark:text-white">{items.length} {t.items} • {items.reduce((acc, curr) => acc + curr.quantity, 0)} {items[0].unit}</p>
                                  </div>
-                                 <button onClick={() => handleDownloadTransfer(groupId, 'incoming')} className="p-2 text-gray-400 hover:text-brand-600 transition-colors" title={t.exportPDF}>
+                                 <button onClick={() => handleDownloadTransfer(groupId)} className="p-2 text-gray-400 hover:text-brand-600 transition-colors" title={t.exportPDF}>
                                     <Download className="w-5 h-5" />
                                  </button>
                               </div>
@@ -452,7 +702,7 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                                     <p className="text-xs text-gray-400 mb-1">{t.to}: <span className="text-gray-900 dark:text-white font-bold">{items[0].toLocation}</span></p>
                                     <p className="text-sm font-semibold text-gray-900 dark:text-white">{items.length} {t.items} • {items.reduce((acc, curr) => acc + curr.quantity, 0)} {items[0].unit}</p>
                                  </div>
-                                 <button onClick={() => handleDownloadTransfer(groupId, 'outgoing')} className="p-2 text-gray-400 hover:text-orange-600 transition-colors">
+                                 <button onClick={() => handleDownloadTransfer(groupId)} className="p-2 text-gray-400 hover:text-orange-600 transition-colors">
                                     <Download className="w-5 h-5" />
                                  </button>
                               </div>
@@ -464,7 +714,7 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                                     <Eye className="w-3 h-3" /> {t.viewItems}
                                  </button>
                                  <button 
-                                    onClick={() => items.forEach(tx => onConfirmOutbound(tx))} 
+                                    onClick={() => handleConfirmOutbound(items)} 
                                     className="flex-1 flex items-center justify-center gap-2 py-2 bg-orange-600 text-white rounded-lg text-xs font-bold hover:bg-orange-700 transition-colors"
                                  >
                                     <CheckCircle className="w-3 h-3" /> {t.confirmOutbound}
@@ -474,11 +724,53 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                         ))}
                         {groupedApprovals.length === 0 && <p className="text-sm text-gray-400 italic">{t.noTransactionsFound}</p>}
                      </div>
+
+                     {groupedDispatched.length > 0 && (
+                        <>
+                           <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2 pt-2">
+                              <Truck className="w-4 h-4 text-orange-500" /> {t.awaitingReceipt}
+                           </h3>
+                           <div className="space-y-3">
+                              {groupedDispatched.map(([groupId, items]) => (
+                                 <div key={groupId} className="bg-white dark:bg-gray-800 rounded-xl border border-gray-100 dark:border-gray-700 p-4 sm:p-5 shadow-sm">
+                                    <div className="flex justify-between items-start mb-4">
+                                       <div>
+                                          <p className="text-xs text-gray-400 mb-1">{t.to}: <span className="text-gray-900 dark:text-white font-bold">{items[0].toLocation}</span></p>
+                                          <p className="text-sm font-semibold text-gray-900 dark:text-white">{items.length} {t.items} • {items.reduce((acc, curr) => acc + curr.quantity, 0)} {items[0].unit}</p>
+                                       </div>
+                                       <button onClick={() => handleDownloadTransfer(groupId)} className="p-2 text-gray-400 hover:text-orange-600 transition-colors" title={t.exportPDF}>
+                                          <Download className="w-5 h-5" />
+                                       </button>
+                                    </div>
+                                    <div className="flex gap-2">
+                                       <button 
+                                          onClick={() => setSelectedTransferGroup(groupId)} 
+                                          className="flex-1 flex items-center justify-center gap-2 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg text-xs font-bold hover:bg-gray-200 transition-colors"
+                                       >
+                                          <Eye className="w-3 h-3" /> {t.viewItems}
+                                       </button>
+                                       <button onClick={() => handleCancelTransfer(items)} className="flex items-center justify-center p-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors" title={t.cancelTransfer}>
+                                          <XCircle className="w-5 h-5" />
+                                       </button>
+                                    </div>
+                                 </div>
+                              ))}
+                           </div>
+                        </>
+                     )}
                   </div>
                </div>
             </div>
           )}
 
+          <ReorderSuggestions
+            plan={reorderPlan}
+            locationId={locationId}
+            availableLocations={availableLocations}
+            language={language}
+            onCreateTransfer={handleCreateReorderTransfer}
+          />
+
           {/* Action & Filter Bar */}
           <div className="flex flex-col lg:flex-row justify-between gap-4 mb-6 relative z-40">
             {/* Search & Filter */}
@@ -492,9 +784,9 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                   className="w-full pl-10 pr-10 rtl:pr-10 rtl:pl-10 py-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-sm focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none text-gray-900 dark:text-white transition-all text-sm"
                 />
                 <Search className="w-4 h-4 text-gray-400 absolute left-3 rtl:right-3 rtl:left-auto top-3.5" />
-                <div className="absolute right-3 rtl:left-3 rtl:right-auto top-3 text-gray-400 hover:text-brand-500 cursor-pointer" title="Scan Barcode">
+                <button type="button" onClick={() => setIsScannerOpen(true)} className="absolute right-3 rtl:left-3 rtl:right-auto top-3 text-gray-400 hover:text-brand-500 cursor-pointer" title={t.scanBarcode}>
                    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 5v14"/><path d="M8 5v14"/><path d="M12 5v14"/><path d="M17 5v14"/><path d="M21 5v14"/></svg>
-                </div>
+                </button>
               </div>
 
               <div className="flex items-center gap-2 pb-1 sm:pb-0">
@@ -602,7 +894,23 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                     <span className="hidden sm:inline">{t.transfer}</span>
                  </button>
                  {canEditItem && (
-                    <button onClick={() => { setItemToEdit(null); setIsAddItemModalOpen(true); }} className="flex-1 lg:flex-none flex items-center justify-center gap-2 px-3 sm:px-4 py-2.5 sm:py-3 bg-brand-600 hover:bg-brand-700 text-white rounded-xl font-medium transition-colors shadow-lg shadow-brand-200 dark:shadow-none text-sm">
+                    <button onClick={() => setIsStockTakeModalOpen(true)} className="relative flex-1 lg:flex-none flex items-center justify-center gap-2 px-3 sm:px-4 py-2.5 sm:py-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 rounded-xl font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors shadow-sm text-sm">
+                        <ClipboardCheck className="w-4 h-4" />
+                        <span className="hidden sm:inline">{t.stockTake}</span>
+                        {stockTakes.some(st => st.status === 'submitted') && (
+                            <span className="absolute -top-1 -right-1 rtl:-left-1 rtl:right-auto w-3 h-3 bg-yellow-500 rounded-full border-2 border-white dark:border-gray-800" />
+                        )}
+                    </button>
+                 )}
+                 <button onClick={() => setIsExpiryPanelOpen(true)} className="relative flex-1 lg:flex-none flex items-center justify-center gap-2 px-3 sm:px-4 py-2.5 sm:py-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 rounded-xl font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors shadow-sm text-sm">
+                    <CalendarX className="w-4 h-4" />
+                    <span className="hidden sm:inline">{t.expiryWaste}</span>
+                    {hasUrgentExpiry && (
+                        <span className="absolute -top-1 -right-1 rtl:-left-1 rtl:right-auto w-3 h-3 bg-red-500 rounded-full border-2 border-white dark:border-gray-800" />
+                    )}
+                 </button>
+                 {canEditItem && (
+                    <button onClick={() => { setItemToEdit(null); setNewItemBarcode(undefined); setIsAddItemModalOpen(true); }} className="flex-1 lg:flex-none flex items-center justify-center gap-2 px-3 sm:px-4 py-2.5 sm:py-3 bg-brand-600 hover:bg-brand-700 text-white rounded-xl font-medium transition-colors shadow-lg shadow-brand-200 dark:shadow-none text-sm">
                         <Plus className="w-4 h-4" />
                         <span className="hidden sm:inline">{t.addItem}</span>
                     </button>
@@ -623,13 +931,12 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
               </div>
           </div>
 
-          {/* Inventory Container */}
-          <div className={
-              viewMode === 'list' ? 'flex flex-col gap-3' : 
-              viewMode === 'compact' ? 'grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3' : 
-              'grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4'
-          }>
-            {filteredItems.map(item => {
+          {/* Inventory Container - only the cards near the viewport are rendered */}
+          <VirtualGrid<InventoryItem>
+            items={filteredItems}
+            layout={viewMode}
+            getKey={item => item.id}
+            renderItem={item => {
               const isLowStock = item.quantity <= item.minThreshold;
               const isSelected = selectedItemIds.has(item.id);
 
@@ -730,6 +1037,7 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                                            <>
                                               <button onClick={() => { setItemToEdit(item); setIsAddItemModalOpen(true); setActiveActionId(null); }} className="w-full text-left rtl:text-right px-4 py-2.5 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 flex items-center gap-2"><Pencil className="w-4 h-4" /> {t.edit}</button>
                                               <button onClick={() => { setUsageItem(item); setIsUsageModalOpen(true); setActiveActionId(null); }} className="w-full text-left rtl:text-right px-4 py-2.5 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 flex items-center gap-2"><ArrowDownCircle className="w-4 h-4 text-red-500" /> {t.recordUsage}</button>
+                                              <button onClick={() => { openWriteOff(item); setActiveActionId(null); }} className="w-full text-left rtl:text-right px-4 py-2.5 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 flex items-center gap-2"><PackageX className="w-4 h-4 text-red-700" /> {t.writeOff}</button>
                                               <button onClick={() => { setHistoryItem(item); setIsHistoryModalOpen(true); setActiveActionId(null); }} className="w-full text-left rtl:text-right px-4 py-2.5 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 flex items-center gap-2"><Clock className="w-4 h-4 text-blue-500" /> History</button>
                                               <button onClick={() => { onDeleteItem(locationId, item.id); setActiveActionId(null); }} className="w-full text-left rtl:text-right px-4 py-2.5 text-sm hover:bg-red-50 dark:hover:bg-red-900/20 text-red-600 flex items-center gap-2"><Trash2 className="w-4 h-4" /> {t.delete}</button>
                                            </>
@@ -803,6 +1111,9 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                                         <button onClick={() => { setUsageItem(item); setIsUsageModalOpen(true); setActiveActionId(null); }} className="w-full text-left rtl:text-right px-4 py-2.5 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 flex items-center gap-2">
                                             <ArrowDownCircle className="w-4 h-4 text-red-500" /> {t.recordUsage}
                                         </button>
+                                        <button onClick={() => { openWriteOff(item); setActiveActionId(null); }} className="w-full text-left rtl:text-right px-4 py-2.5 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 flex items-center gap-2">
+                                            <PackageX className="w-4 h-4 text-red-700" /> {t.writeOff}
+                                        </button>
                                         <button onClick={() => { setHistoryItem(item); setIsHistoryModalOpen(true); setActiveActionId(null); }} className="w-full text-left rtl:text-right px-4 py-2.5 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 flex items-center gap-2">
                                             <Clock className="w-4 h-4 text-blue-500" /> History
                                         </button>
@@ -855,8 +1166,8 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                   </div>
                 </div>
               );
-            })}
-          </div>
+            }}
+          />
           
           {filteredItems.length === 0 && (
              <div className="text-center py-20">
@@ -910,6 +1221,14 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                 <ArrowRightLeft className="w-4 h-4 text-blue-400" />
                 {t.transfer}
               </button>
+
+              <button 
+                onClick={() => setIsLabelModalOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 hover:bg-gray-800 rounded-xl transition-colors text-sm font-bold"
+              >
+                <Tag className="w-4 h-4 text-green-400" />
+                {t.printLabels}
+              </button>
               
               <button 
                 onClick={() => setSelectedItemIds(new Set())}
@@ -931,6 +1250,46 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
         language={language}
       />
 
+      {isExpiryPanelOpen && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-gray-50 dark:bg-gray-900 rounded-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-4 sm:p-6 shadow-2xl relative">
+            <button onClick={() => setIsExpiryPanelOpen(false)} className="absolute top-4 right-4 rtl:right-auto rtl:left-4 p-2 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full transition-colors">
+              <XCircle className="w-5 h-5 text-gray-500" />
+            </button>
+            <ExpiryPanel
+              stockByLocation={{ [locationId]: inventory }}
+              transactions={transactions}
+              availableLocations={availableLocations}
+              language={language}
+              onWriteOff={canEditItem ? onWriteOff : undefined}
+              onLoadTransactionsSince={onLoadTransactionsSince}
+            />
+          </div>
+        </div>
+      )}
+
+      <WasteWriteOffModal
+        isOpen={!!writeOffTarget}
+        onClose={() => setWriteOffTarget(null)}
+        target={writeOffTarget}
+        onConfirm={(quantity, reasonCode, notes) => onWriteOff(writeOffTarget!, quantity, reasonCode, notes)}
+        language={language}
+      />
+
+      <StockTakeModal
+        isOpen={isStockTakeModalOpen}
+        onClose={() => setIsStockTakeModalOpen(false)}
+        locationName={locationName}
+        stockTakes={stockTakes}
+        canApprove={canEditItem}
+        language={language}
+        onStart={onStartStockTake}
+        onSaveCounts={onSaveStockCounts}
+        onSubmit={onSubmitStockTake}
+        onApprove={onApproveStockTake}
+        onCancel={onCancelStockTake}
+      />
+
       <TransferModal
         isOpen={isTransferModalOpen}
         onClose={() => { setIsTransferModalOpen(false); setPdfTransferData(null); }}
@@ -940,6 +1299,7 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
         language={language}
         availableLocations={availableLocations}
         initialData={pdfTransferData}
+        onUnknownCode={handleUnknownCode}
       />
 
       <AddItemModal 
@@ -954,7 +1314,10 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
         }}
         language={language}
         initialData={itemToEdit}
+        initialBarcode={newItemBarcode}
         existingItems={inventory}
+        products={products}
+        canEditCatalog={userRole === 'admin'}
       />
 
       <BulkEditModal 
@@ -963,6 +1326,7 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
         selectedCount={selectedItemIds.size}
         onSave={handleBulkEditSave}
         language={language}
+        canEditCatalog={userRole === 'admin'}
       />
 
       <ItemHistoryModal
@@ -972,13 +1336,54 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
         transactions={transactions}
         language={language}
         getUserName={getUserName}
+        onDownloadTransfer={handleDownloadTransfer}
+      />
+
+      <ReceiveTransferModal
+        isOpen={!!receivingTarget}
+        onClose={() => setReceivingTarget(null)}
+        transactions={receivingTarget || []}
+        onConfirm={handleConfirmReceipt}
+        language={language}
+      />
+
+      <SignatureModal
+        isOpen={!!signingTarget}
+        onClose={() => setSigningTarget(null)}
+        role={signingTarget?.role || 'sender'}
+        defaultSignerName={userName}
+        onConfirm={handleSigned}
+        language={language}
       />
 
       <UsageModal
         isOpen={isUsageModalOpen}
         onClose={() => setIsUsageModalOpen(false)}
         item={usageItem}
-        onConfirm={(qty, notes) => onRecordUsage(usageItem!.id, qty, notes)}
+        items={inventory}
+        onConfirm={(itemId, qty, notes) => onRecordUsage(itemId, qty, notes)}
+        onUnknownCode={handleUnknownCode}
+        language={language}
+      />
+
+      <LabelPrintModal
+        isOpen={isLabelModalOpen}
+        onClose={() => setIsLabelModalOpen(false)}
+        items={inventory.filter(i => selectedItemIds.has(i.id))}
+        language={language}
+      />
+
+      <BarcodeScanner
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onDetected={handleSearchScan}
+        language={language}
+      />
+
+      <BarcodeScanner
+        isOpen={isDocumentScannerOpen}
+        onClose={() => setIsDocumentScannerOpen(false)}
+        onDetected={handleDocumentScan}
         language={language}
       />
 
@@ -1051,7 +1456,7 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                           <button 
                             onClick={() => {
                                 const group = groupedApprovals.find(g => g[0] === selectedTransferGroup);
-                                if (group) group[1].forEach(tx => onConfirmOutbound(tx));
+                                if (group) handleConfirmOutbound(group[1]);
                                 setSelectedTransferGroup(null);
                             }} 
                             className="flex-1 py-3 bg-orange-600 text-white rounded-xl font-bold hover:bg-orange-700 transition-colors"
@@ -1059,6 +1464,18 @@ const InventoryDashboard: React.FC<InventoryDashboardProps> = ({
                             {t.confirmOutbound}
                           </button>
                       )}
+                      {groupedOutgoing.some(g => g[0] === selectedTransferGroup) && (
+                          <button 
+                            onClick={() => {
+                                const group = groupedOutgoing.find(g => g[0] === selectedTransferGroup);
+                                if (group) handleCancelTransfer(group[1]);
+                                setSelectedTransferGroup(null);
+                            }} 
+                            className="flex-1 py-3 bg-red-50 text-red-600 rounded-xl font-bold hover:bg-red-100 transition-colors"
+                          >
+                            {t.cancelTransfer}
+                          </button>
+                      )}
                       {!groupedIncoming.some(g => g[0] === selectedTransferGroup) && !groupedApprovals.some(g => g[0] === selectedTransferGroup) && (
                           <button 
                             onClick={() => setSelectedTransferGroup(null)} 
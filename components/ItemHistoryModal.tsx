@@ -1,7 +1,8 @@
-import React, { useMemo } from 'react';
-import { InventoryItem, Transaction, Language } from '../types';
-import { X, Clock, ArrowRightLeft, ArrowDownCircle, Plus, AlertTriangle } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { InventoryItem, Transaction, Language, AuditEntry, LotAllocation } from '../types';
+import { X, Clock, ArrowRightLeft, ArrowDownCircle, Plus, AlertTriangle, Download, ClipboardCheck, Pencil, Layers, PackageX } from 'lucide-react';
 import { TRANSLATIONS, LOCATIONS } from '../constants';
+import { fetchAuditLog, getAuditChanges } from '../services/auditService';
 
 interface ItemHistoryModalProps {
   isOpen: boolean;
@@ -10,6 +11,7 @@ interface ItemHistoryModalProps {
   transactions: Transaction[];
   language: Language;
   getUserName?: (name: string) => string;
+  onDownloadTransfer?: (transferGroupId: string) => void;
 }
 
 const ItemHistoryModal: React.FC<ItemHistoryModalProps> = ({
@@ -18,17 +20,40 @@ const ItemHistoryModal: React.FC<ItemHistoryModalProps> = ({
   item,
   transactions,
   language,
-  getUserName
+  getUserName,
+  onDownloadTransfer
 }) => {
   const t = TRANSLATIONS[language];
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+
+  // Direct edits of this stock row; quantity moves made by transactions are not in the audit log
+  useEffect(() => {
+    if (!isOpen || !item) return;
+    let cancelled = false;
+    fetchAuditLog({ tableName: 'stock', recordId: item.id })
+      .then(entries => { if (!cancelled) setAuditEntries(entries); })
+      .catch(error => console.error("Error loading audit history:", error));
+    return () => {
+      cancelled = true;
+      setAuditEntries([]);
+    };
+  }, [isOpen, item?.id]);
 
   const itemTransactions = useMemo(() => {
     if (!item) return [];
     return transactions
-      .filter(tx => tx.itemNameEn === item.nameEn || tx.itemNameAr === item.nameAr)
+      // Match on the shared product id; names are only a fallback for rows not yet synced
+      .filter(tx => item.productId && tx.productId
+        ? tx.productId === item.productId
+        : tx.itemNameEn === item.nameEn || tx.itemNameAr === item.nameAr)
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
   }, [item, transactions]);
 
+  const timeline = useMemo(() => [
+    ...itemTransactions.map(tx => ({ kind: 'transaction' as const, date: tx.date, tx })),
+    ...auditEntries.map(entry => ({ kind: 'audit' as const, date: entry.changedAt, entry }))
+  ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()), [itemTransactions, auditEntries]);
+
   if (!isOpen || !item) return null;
 
   const getLocationName = (locId: string) => {
@@ -39,11 +64,30 @@ const ItemHistoryModal: React.FC<ItemHistoryModalProps> = ({
     return language === 'ar' ? (loc.nameAr || loc.name) : loc.name;
   };
 
+  const formatLot = (lot: LotAllocation) =>
+    `${lot.lotNumber || t.unlabelledLot}${lot.expirationDate ? ` (${t.expiryDate}: ${lot.expirationDate})` : ''}`;
+
+  const fieldLabels: Record<string, string> = {
+    quantity: t.quantity,
+    min_threshold: t.minThreshold
+  };
+
+  const getAuditDescription = (entry: AuditEntry) => {
+    if (entry.action === 'INSERT') return `${t.auditInsert}: ${entry.newData?.quantity ?? 0} @ ${getLocationName(entry.locationId || '')}`;
+    if (entry.action === 'DELETE') return `${t.auditDelete} @ ${getLocationName(entry.locationId || '')}`;
+    return `${t.manualEdit}: ` + getAuditChanges(entry)
+      .map(c => `${fieldLabels[c.field] || c.field} ${c.before ?? '-'} → ${c.after ?? '-'}`)
+      .join(', ');
+  };
+
   const getTransactionIcon = (type: string) => {
     switch (type) {
       case 'transfer': return <ArrowRightLeft className="w-4 h-4 text-blue-500" />;
       case 'usage': return <ArrowDownCircle className="w-4 h-4 text-red-500" />;
       case 'receive': return <Plus className="w-4 h-4 text-green-500" />;
+      case 'loss': return <AlertTriangle className="w-4 h-4 text-amber-500" />;
+      case 'adjustment': return <ClipboardCheck className="w-4 h-4 text-purple-500" />;
+      case 'waste': return <PackageX className="w-4 h-4 text-red-700" />;
       default: return <Clock className="w-4 h-4 text-gray-500" />;
     }
   };
@@ -63,6 +107,21 @@ const ItemHistoryModal: React.FC<ItemHistoryModalProps> = ({
         return isAr
             ? `تم استلام ${tx.quantity} في ${getLocationName(tx.toLocation || '')}`
             : `Received ${tx.quantity} to ${getLocationName(tx.toLocation || '')}`;
+      case 'loss':
+        return isAr
+            ? `فقد ${tx.quantity} أثناء النقل من ${getLocationName(tx.fromLocation || '')} إلى ${getLocationName(tx.toLocation || '')}`
+            : `Lost ${tx.quantity} in transit from ${getLocationName(tx.fromLocation || '')} to ${getLocationName(tx.toLocation || '')}`;
+      case 'adjustment':
+        // Stock found by a count is booked into the location, stock missing is booked out of it
+        return tx.toLocation
+            ? (isAr ? `تمت إضافة ${tx.quantity} في ${getLocationName(tx.toLocation)} بعد الجرد` : `Stock-take found ${tx.quantity} extra at ${getLocationName(tx.toLocation)}`)
+            : (isAr ? `تم خصم ${tx.quantity} من ${getLocationName(tx.fromLocation || '')} بعد الجرد` : `Stock-take found ${tx.quantity} missing at ${getLocationName(tx.fromLocation || '')}`);
+      case 'waste': {
+        const reason = { expired: t.reasonExpired, damaged: t.reasonDamaged, spoiled: t.reasonSpoiled, other: t.reasonOther }[tx.reasonCode || 'other'];
+        return isAr
+            ? `تم شطب ${tx.quantity} في ${getLocationName(tx.fromLocation || '')} (${reason})`
+            : `Wrote off ${tx.quantity} at ${getLocationName(tx.fromLocation || '')} (${reason})`;
+      }
       default:
         return isAr
             ? `معاملة غير معروفة بكمية ${tx.quantity}`
@@ -70,6 +129,82 @@ const ItemHistoryModal: React.FC<ItemHistoryModalProps> = ({
     }
   };
 
+  const renderAuditEntry = (entry: AuditEntry) => (
+    <div key={`audit-${entry.id}`} className="flex gap-4 p-4 rounded-xl bg-amber-50/50 dark:bg-amber-900/10 border border-amber-100 dark:border-amber-900/30">
+      <div className="mt-1">
+        <Pencil className="w-4 h-4 text-amber-600" />
+      </div>
+      <div className="flex-1">
+        <div className="flex justify-between items-start mb-1">
+          <p className="font-medium text-gray-900 dark:text-white text-sm">
+            {getAuditDescription(entry)}
+          </p>
+          <span className="text-xs text-gray-500 whitespace-nowrap ml-4 shrink-0">
+            {new Date(entry.changedAt).toLocaleString(language === 'ar' ? 'ar-SA' : 'en-US')}
+          </span>
+        </div>
+        <div className="text-xs text-gray-500">
+          {t.performedBy}: {entry.actorName || '-'}
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderTransaction = (tx: Transaction) => (
+    <div key={tx.id} className="flex gap-4 p-4 rounded-xl bg-gray-50 dark:bg-gray-900/50 border border-gray-100 dark:border-gray-800">
+      <div className="mt-1">
+        {getTransactionIcon(tx.type)}
+      </div>
+      <div className="flex-1">
+        <div className="flex justify-between items-start mb-1">
+          <p className="font-medium text-gray-900 dark:text-white text-sm">
+            {getTransactionDescription(tx)}
+          </p>
+          <div className="flex items-center gap-1 ml-4 shrink-0">
+            <span className="text-xs text-gray-500 whitespace-nowrap">
+              {new Date(tx.date).toLocaleString(language === 'ar' ? 'ar-SA' : 'en-US')}
+            </span>
+            {tx.type === 'transfer' && tx.transferGroupId && onDownloadTransfer && (
+              <button onClick={() => onDownloadTransfer(tx.transferGroupId!)} className="p-1 text-gray-400 hover:text-brand-600 transition-colors" title={t.exportPDF}>
+                <Download className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-4 text-xs text-gray-500">
+          <span>{t.performedBy}: {getUserName ? getUserName(tx.performedBy) : tx.performedBy}</span>
+          {tx.status && (
+            <span className={`px-2 py-0.5 rounded-full ${
+              tx.status === 'completed' ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' :
+              tx.status === 'pending_source' || tx.status === 'pending_target' ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400' :
+              'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+            }`}>
+              {tx.status}
+            </span>
+          )}
+        </div>
+        {tx.receivedQuantity !== undefined && tx.receivedQuantity < tx.quantity && (
+          <p className="mt-2 text-xs text-amber-700 dark:text-amber-400">
+            {t.received}: {tx.receivedQuantity} / {tx.quantity} {tx.unit}
+            {' • '}{tx.quantity - tx.receivedQuantity} {tx.shortfallAction === 'loss' ? t.shortfallLost : t.shortfallReturned}
+            {tx.discrepancyReason && ` • ${tx.discrepancyReason}`}
+          </p>
+        )}
+        {tx.lots && tx.lots.length > 0 && (
+          <p className="mt-2 text-xs text-gray-500 flex items-start gap-1">
+            <Layers className="w-3.5 h-3.5 shrink-0 mt-px" />
+            <span>{tx.lots.map(lot => `${formatLot(lot)}: ${lot.quantity} ${tx.unit}`).join(' • ')}</span>
+          </p>
+        )}
+        {tx.notes && (
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400 bg-white dark:bg-gray-800 p-2 rounded border border-gray-100 dark:border-gray-700">
+            {tx.notes}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
       <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
@@ -82,7 +217,7 @@ const ItemHistoryModal: React.FC<ItemHistoryModalProps> = ({
               <h2 className="text-xl font-bold text-gray-900 dark:text-white">
                 {language === 'ar' ? item.nameAr : item.nameEn}
               </h2>
-              <p className="text-sm text-gray-500">History & Audit Trail</p>
+              <p className="text-sm text-gray-500">History & Audit Trail{item.sku && <span className="font-mono"> • {item.sku}</span>}</p>
             </div>
           </div>
           <button onClick={onClose} className="p-2 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full transition-colors">
@@ -91,47 +226,33 @@ const ItemHistoryModal: React.FC<ItemHistoryModalProps> = ({
         </div>
 
         <div className="p-6 overflow-y-auto flex-1">
-          {itemTransactions.length === 0 ? (
+          {item.lots && item.lots.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2 mb-2">
+                <Layers className="w-4 h-4" /> {t.lots}
+              </h3>
+              <div className="rounded-xl border border-gray-100 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+                {item.lots.map(lot => (
+                  <div key={lot.id} className="flex justify-between items-center gap-3 px-4 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-white truncate">{formatLot(lot)}</p>
+                      <p className="text-xs text-gray-500">{t.receivedOn}: {new Date(lot.receivedAt).toLocaleDateString(language === 'ar' ? 'ar-SA' : 'en-US')}</p>
+                    </div>
+                    <span className="shrink-0 font-bold text-gray-900 dark:text-white">{lot.quantity} {item.unit}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {timeline.length === 0 ? (
             <div className="text-center py-12 text-gray-500">
               <Clock className="w-12 h-12 mx-auto mb-3 opacity-20" />
               <p>No history found for this item.</p>
             </div>
           ) : (
             <div className="space-y-4">
-              {itemTransactions.map((tx) => (
-                <div key={tx.id} className="flex gap-4 p-4 rounded-xl bg-gray-50 dark:bg-gray-900/50 border border-gray-100 dark:border-gray-800">
-                  <div className="mt-1">
-                    {getTransactionIcon(tx.type)}
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex justify-between items-start mb-1">
-                      <p className="font-medium text-gray-900 dark:text-white text-sm">
-                        {getTransactionDescription(tx)}
-                      </p>
-                      <span className="text-xs text-gray-500 whitespace-nowrap ml-4">
-                        {new Date(tx.date).toLocaleString(language === 'ar' ? 'ar-SA' : 'en-US')}
-                      </span>
-                    </div>
-                    <div className="flex items-center gap-4 text-xs text-gray-500">
-                      <span>{t.performedBy}: {getUserName ? getUserName(tx.performedBy) : tx.performedBy}</span>
-                      {tx.status && (
-                        <span className={`px-2 py-0.5 rounded-full ${
-                          tx.status === 'completed' ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' :
-                          tx.status === 'pending' ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400' :
-                          'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
-                        }`}>
-                          {tx.status}
-                        </span>
-                      )}
-                    </div>
-                    {tx.notes && (
-                      <p className="mt-2 text-sm text-gray-600 dark:text-gray-400 bg-white dark:bg-gray-800 p-2 rounded border border-gray-100 dark:border-gray-700">
-                        {tx.notes}
-                      </p>
-                    )}
-                  </div>
-                </div>
-              ))}
+              {timeline.map(row => row.kind === 'audit' ? renderAuditEntry(row.entry) : renderTransaction(row.tx))}
             </div>
           )}
         </div>
@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { InventoryItem, Language, LabelSymbology } from '../types';
+import { TRANSLATIONS, LABEL_LAYOUTS } from '../constants';
+import { exportLabelsPDF, getPrintedLabelCode } from '../services/exportService';
+import { Tag, X, Download, Barcode, QrCode } from 'lucide-react';
+
+interface LabelPrintModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    items: InventoryItem[];
+    language: Language;
+}
+
+const SETTINGS_KEY = 'dawar_label_settings';
+
+// Prints labels for the selected items on the chosen label paper. The paper and code type are
+// remembered on this device, since a printer usually keeps the same stock loaded.
+const LabelPrintModal: React.FC<LabelPrintModalProps> = ({ isOpen, onClose, items, language }) => {
+    const t = TRANSLATIONS[language];
+    const [layoutId, setLayoutId] = useState(LABEL_LAYOUTS[0].id);
+    const [symbology, setSymbology] = useState<LabelSymbology>('code128');
+    const [copies, setCopies] = useState('1');
+    const [skip, setSkip] = useState('0');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        try {
+            const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+            if (LABEL_LAYOUTS.some(l => l.id === saved.layoutId)) setLayoutId(saved.layoutId);
+            if (saved.symbology === 'code128' || saved.symbology === 'qr') setSymbology(saved.symbology);
+        } catch {
+            // Unreadable settings: keep the defaults
+        }
+        setCopies('1');
+        setSkip('0');
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const layout = LABEL_LAYOUTS.find(l => l.id === layoutId) || LABEL_LAYOUTS[0];
+    const perSheet = layout.columns * layout.rows;
+    const copyCount = Math.max(1, Math.floor(Number(copies) || 1));
+    const skipCount = Math.min(perSheet - 1, Math.max(0, Math.floor(Number(skip) || 0)));
+    const sheets = Math.ceil((skipCount + items.length * copyCount) / perSheet);
+    const internalCodes = items.filter(i => !i.barcode).length;
+    const unprintable = items.filter(i => i.barcode && getPrintedLabelCode(i, symbology) !== i.barcode);
+
+    const handlePrint = () => {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify({ layoutId, symbology }));
+        exportLabelsPDF(items, { layout, symbology, copies: copyCount, skip: skipCount }).catch(error => {
+            console.error('Error exporting PDF:', error);
+            alert(t.pdfExportFailed);
+        });
+        onClose();
+    };
+
+    const inputClass = "w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none";
+    const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+    return (
+        <div className={`fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 ${language === 'ar' ? 'font-arabic' : ''}`}>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-lg p-6 shadow-2xl overflow-y-auto max-h-[90vh]">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 dark:bg-brand-900/30 rounded-lg">
+                            <Tag className="w-6 h-6 text-brand-600 dark:text-brand-500" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t.printLabels}</h2>
+                            <p className="text-xs text-gray-500">{items.length} {t.items}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <div className="space-y-4">
+                    <div>
+                        <label className={labelClass}>{t.labelPaper}</label>
+                        <select value={layoutId} onChange={e => setLayoutId(e.target.value)} className={inputClass}>
+                            {LABEL_LAYOUTS.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>{t.codeType}</label>
+                        <div className="flex p-1 bg-gray-100 dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-700">
+                            {([
+                                { id: 'code128', label: 'Code 128', icon: Barcode },
+                                { id: 'qr', label: 'QR', icon: QrCode }
+                            ] as const).map(option => (
+                                <button
+                                    key={option.id}
+                                    type="button"
+                                    onClick={() => setSymbology(option.id)}
+                                    className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-all ${symbology === option.id ? 'bg-white dark:bg-gray-700 text-brand-600 dark:text-brand-400 shadow-sm' : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'}`}
+                                >
+                                    <option.icon className="w-4 h-4" />
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClass}>{t.labelsPerItem}</label>
+                            <input type="number" min="1" value={copies} onChange={e => setCopies(e.target.value)} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>{t.skipUsedLabels}</label>
+                            <input type="number" min="0" max={perSheet - 1} value={skip} onChange={e => setSkip(e.target.value)} className={inputClass} />
+                        </div>
+                    </div>
+
+                    <div className="rounded-xl border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700 max-h-48 overflow-y-auto">
+                        {items.map(item => {
+                            const code = getPrintedLabelCode(item, symbology);
+                            return (
+                                <div key={item.id} className="px-4 py-2 flex justify-between gap-4 text-sm">
+                                    <span className="text-gray-700 dark:text-gray-300 truncate">{language === 'ar' ? item.nameAr : item.nameEn}</span>
+                                    <span className={`font-mono text-xs whitespace-nowrap ${code === item.barcode ? 'text-gray-900 dark:text-white' : 'text-amber-600'}`}>{code}</span>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <p className="text-xs text-gray-500">
+                        {sheets} {t.sheets}
+                        {internalCodes > 0 && <> • <span className="text-amber-600">{internalCodes} {t.internalCodeHint}</span></>}
+                    </p>
+                    {unprintable.length > 0 && (
+                        <p className="text-xs text-amber-600">
+                            {t.unprintableBarcodeHint}: {unprintable.map(i => language === 'ar' ? i.nameAr : i.nameEn).join(', ')}
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex gap-3 mt-6 pt-4 border-t border-gray-100 dark:border-gray-700">
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="flex-1 px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg font-medium transition-colors"
+                    >
+                        {t.cancel}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handlePrint}
+                        disabled={items.length === 0}
+                        className="flex-1 px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                        <Download className="w-4 h-4" />
+                        {t.exportPDF}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LabelPrintModal;
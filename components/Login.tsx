@@ -1,30 +1,39 @@
 import React, { useState } from 'react';
 import { User as UserIcon, Lock, ArrowRight, Check } from 'lucide-react';
 import { TRANSLATIONS } from '../constants';
-import { Language, User } from '../types';
+import { Language, AuthSession } from '../types';
+import { authenticateUser } from '../services/authService';
 
 interface LoginProps {
-  onLogin: (user: User, rememberMe: boolean) => void;
+  onLogin: (session: AuthSession, rememberMe: boolean) => void;
   language: Language;
-  users: User[];
 }
 
-const Login: React.FC<LoginProps> = ({ onLogin, language, users }) => {
+const Login: React.FC<LoginProps> = ({ onLogin, language }) => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [rememberMe, setRememberMe] = useState(false);
   const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
   
   const t = TRANSLATIONS[language];
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const user = users.find(u => u.username === username && u.password === password);
-    
-    if (user) {
-      onLogin(user, rememberMe);
-    } else {
-      setError(t.invalidCredentials);
+    setError('');
+    setIsSubmitting(true);
+    try {
+      const session = await authenticateUser(username.trim(), password, rememberMe);
+      if (session) {
+        onLogin(session, rememberMe);
+      } else {
+        setError(t.invalidCredentials);
+      }
+    } catch (err) {
+      console.error("Login failed", err);
+      setError(t.loginUnavailable);
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -90,7 +99,8 @@ const Login: React.FC<LoginProps> = ({ onLogin, language, users }) => {
 
             <button
               type="submit"
-              className="w-full bg-brand-600 hover:bg-brand-700 dark:bg-brand-600 dark:hover:bg-brand-500 text-white font-semibold py-3 px-6 rounded-lg transition-colors flex items-center justify-center gap-2 group"
+              disabled={isSubmitting}
+              className="w-full bg-brand-600 hover:bg-brand-700 dark:bg-brand-600 dark:hover:bg-brand-500 text-white font-semibold py-3 px-6 rounded-lg transition-colors flex items-center justify-center gap-2 group disabled:opacity-70 disabled:cursor-wait"
             >
               {t.login}
               <ArrowRight className="w-5 h-5 group-hover:translate-x-1 rtl:group-hover:-translate-x-1 transition-transform" />
@@ -1,7 +1,12 @@
 import React, { useState, useMemo } from 'react';
-import { InventoryItem, Language, Transaction, TransactionType } from '../types';
+import { InventoryItem, Language, Transaction, TransactionType, StockTake, OutboxEntry, Recipe } from '../types';
 import { TRANSLATIONS } from '../constants';
 import { exportDailyReportPDF } from '../services/exportService';
+import StockTakeModal from './StockTakeModal';
+import ProductionModal from './ProductionModal';
+import BarcodeScanner from './BarcodeScanner';
+import { findItemByCode } from '../services/scanService';
+import OutboxStatus from './OutboxStatus';
 import { 
     LogOut, 
     ClipboardList, 
@@ -15,7 +20,11 @@ import {
     X, 
     Save, 
     RotateCcw, 
-    Edit2 
+    Edit2,
+    ClipboardCheck,
+    Coins,
+    ChefHat,
+    ScanLine
 } from 'lucide-react';
 
 interface MammalEmployeeDashboardProps {
@@ -23,13 +32,24 @@ interface MammalEmployeeDashboardProps {
     onLogout: () => void;
     language: Language;
     onLogTransaction: (type: TransactionType, itemId: string, quantity: number, notes: string) => void;
-    onBulkLogTransaction: (logs: { type: TransactionType, itemId: string, quantity: number, notes: string }[]) => void;
+    onBulkLogTransaction: (logs: { type: TransactionType, itemId: string, quantity: number, notes: string, unitCost?: number, recipeId?: string }[]) => void;
+    recipes: Recipe[];
     userName: string;
     transactions: Transaction[];
+    stockTakes: StockTake[];
+    onStartStockTake: (notes?: string) => Promise<void>;
+    onSaveStockCounts: (stockTakeId: string, counts: { lineId: string, countedQuantity: number | null }[]) => Promise<void>;
+    onSubmitStockTake: (stockTakeId: string, counts: { lineId: string, countedQuantity: number | null }[]) => Promise<void>;
+    onCancelStockTake: (stockTakeId: string) => Promise<void>;
+    outbox: OutboxEntry[];
+    isOnline: boolean;
+    onSyncOutbox: () => void;
+    onResolveOutboxConflict: (entry: OutboxEntry, quantity: number | null) => Promise<void>;
 }
 
 type LogEntry = {
     received: string;
+    unitCost: string;
     used: string;
     notes: string;
 }
@@ -40,12 +60,26 @@ const MammalEmployeeDashboard: React.FC<MammalEmployeeDashboardProps> = ({
     language, 
     onLogTransaction,
     onBulkLogTransaction,
+    recipes,
     userName,
-    transactions
+    transactions,
+    stockTakes,
+    onStartStockTake,
+    onSaveStockCounts,
+    onSubmitStockTake,
+    onCancelStockTake,
+    outbox,
+    isOnline,
+    onSyncOutbox,
+    onResolveOutboxConflict
 }) => {
     const t = TRANSLATIONS[language];
     const [search, setSearch] = useState('');
     const [showReportModal, setShowReportModal] = useState(false);
+    const [showStockTakeModal, setShowStockTakeModal] = useState(false);
+    const [showProductionModal, setShowProductionModal] = useState(false);
+    const [isScannerOpen, setIsScannerOpen] = useState(false);
+    const [scannedItemId, setScannedItemId] = useState<string | null>(null);
     
     // Bulk Entry State
     const [logEntries, setLogEntries] = useState<Record<string, LogEntry>>({});
@@ -62,7 +96,7 @@ const MammalEmployeeDashboard: React.FC<MammalEmployeeDashboardProps> = ({
         setLogEntries(prev => ({
             ...prev,
             [id]: {
-                ...prev[id] || { received: '', used: '', notes: '' },
+                ...prev[id] || { received: '', unitCost: '', used: '', notes: '' },
                 [field]: value
             }
         }));
@@ -90,6 +124,11 @@ const MammalEmployeeDashboard: React.FC<MammalEmployeeDashboardProps> = ({
                 return;
             }
 
+            if (entry.unitCost && !(Number(entry.unitCost) >= 0)) {
+                setError(`${language === 'ar' ? item.nameAr : item.nameEn}: ${t.invalidUnitCost}`);
+                return;
+            }
+
             if (used > (item.quantity + received)) {
                  setError(`${t.insufficientStock} for ${language === 'ar' ? item.nameAr : item.nameEn} (Max: ${item.quantity + received})`);
                  return;
@@ -97,14 +136,14 @@ const MammalEmployeeDashboard: React.FC<MammalEmployeeDashboardProps> = ({
         }
 
         setIsSubmitting(true);
-        const logs: { type: TransactionType, itemId: string, quantity: number, notes: string }[] = [];
+        const logs: { type: TransactionType, itemId: string, quantity: number, notes: string, unitCost?: number }[] = [];
 
         // Prepare Receives
         Object.keys(logEntries).forEach(itemId => {
             const entry = logEntries[itemId];
             const received = Number(entry.received || 0);
             if (received > 0) {
-                logs.push({ type: 'receive', itemId, quantity: received, notes: entry.notes });
+                logs.push({ type: 'receive', itemId, quantity: received, notes: entry.notes, unitCost: entry.unitCost ? Number(entry.unitCost) : undefined });
             }
         });
 
@@ -128,6 +167,23 @@ const MammalEmployeeDashboard: React.FC<MammalEmployeeDashboardProps> = ({
         setIsSubmitting(false);
     };
 
+    // Scanning brings the item's card into view, ready to log
+    const handleScan = (code: string) => {
+        const item = findItemByCode(items, code);
+        if (!item) {
+            setError(`${t.unknownCode}: ${code}`);
+            return;
+        }
+        setError('');
+        setSearch('');
+        setScannedItemId(item.id);
+        setTimeout(() => {
+            const card = document.getElementById(`log-item-${item.id}`);
+            card?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+            card?.querySelector('input')?.focus({ preventScroll: true });
+        }, 0);
+    };
+
     const handleClear = () => {
         setLogEntries({});
         setError('');
@@ -161,13 +217,36 @@ const MammalEmployeeDashboard: React.FC<MammalEmployeeDashboardProps> = ({
                                 {t.logSheet}
                             </h1>
                             <div className="flex items-center gap-1.5">
-                                <div className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></div>
-                                <span className="text-[10px] font-bold text-green-600 dark:text-green-400 uppercase tracking-tighter">Live</span>
+                                {isOnline ? (
+                                    <>
+                                        <div className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></div>
+                                        <span className="text-[10px] font-bold text-green-600 dark:text-green-400 uppercase tracking-tighter">Live</span>
+                                    </>
+                                ) : (
+                                    <>
+                                        <div className="w-1.5 h-1.5 bg-amber-500 rounded-full"></div>
+                                        <span className="text-[10px] font-bold text-amber-600 dark:text-amber-400 uppercase tracking-tighter">Offline</span>
+                                    </>
+                                )}
                                 <span className="text-[10px] text-gray-400 ml-1 truncate">• {t.mammal}</span>
                             </div>
                         </div>
                     </div>
                     <div className="flex items-center gap-2">
+                        <button 
+                            onClick={() => setShowProductionModal(true)}
+                            className="flex items-center gap-2 px-3 py-2 bg-brand-50 dark:bg-brand-900/30 text-brand-600 dark:text-brand-300 rounded-lg text-sm font-bold hover:bg-brand-100 transition-colors"
+                        >
+                            <ChefHat className="w-4 h-4" />
+                            <span className="hidden sm:inline">{t.logProduction}</span>
+                        </button>
+                        <button 
+                            onClick={() => setShowStockTakeModal(true)}
+                            className="flex items-center gap-2 px-3 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg text-sm font-bold hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                        >
+                            <ClipboardCheck className="w-4 h-4" />
+                            <span className="hidden sm:inline">{t.stockTake}</span>
+                        </button>
                         <button 
                             onClick={() => setShowReportModal(true)}
                             className="flex items-center gap-2 px-3 py-2 bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-300 rounded-lg text-sm font-bold hover:bg-blue-100 transition-colors"
@@ -193,11 +272,29 @@ const MammalEmployeeDashboard: React.FC<MammalEmployeeDashboardProps> = ({
                         placeholder={t.searchPlaceholder}
                         value={search}
                         onChange={(e) => setSearch(e.target.value)}
-                        className="w-full pl-10 pr-4 rtl:pr-10 rtl:pl-4 py-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-sm focus:ring-2 focus:ring-brand-500 outline-none text-gray-900 dark:text-white"
+                        className="w-full pl-10 pr-12 rtl:pr-10 rtl:pl-12 py-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-sm focus:ring-2 focus:ring-brand-500 outline-none text-gray-900 dark:text-white"
                     />
                     <Search className="w-5 h-5 text-gray-400 absolute left-3 rtl:right-3 rtl:left-auto top-3.5" />
+                    <button
+                        type="button"
+                        onClick={() => setIsScannerOpen(true)}
+                        className="absolute right-2 rtl:left-2 rtl:right-auto top-2 p-1.5 text-gray-400 hover:text-brand-500 rounded-lg transition-colors"
+                        title={t.scanBarcode}
+                    >
+                        <ScanLine className="w-5 h-5" />
+                    </button>
                 </div>
 
+                {/* Offline queue */}
+                <OutboxStatus
+                    outbox={outbox}
+                    items={items}
+                    isOnline={isOnline}
+                    language={language}
+                    onSyncNow={onSyncOutbox}
+                    onResolveConflict={onResolveOutboxConflict}
+                />
+
                 {/* Messages */}
                 {error && (
                     <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-xl flex items-center gap-3 animate-in slide-in-from-top-2">
@@ -215,13 +312,13 @@ const MammalEmployeeDashboard: React.FC<MammalEmployeeDashboardProps> = ({
                 {/* Bulk Entry List */}
                 <div className="space-y-4">
                     {filteredItems.map(item => {
-                        const entry = logEntries[item.id] || { received: '', used: '', notes: '' };
+                        const entry = logEntries[item.id] || { received: '', unitCost: '', used: '', notes: '' };
                         const hasEntry = entry.received || entry.used;
                         const projectedStock = item.quantity + Number(entry.received || 0) - Number(entry.used || 0);
                         const isLow = projectedStock <= item.minThreshold;
 
                         return (
-                            <div key={item.id} className={`bg-white dark:bg-gray-800 rounded-xl p-4 sm:p-5 border shadow-sm transition-all ${hasEntry ? 'border-brand-300 dark:border-brand-700 ring-1 ring-brand-100 dark:ring-brand-900/30' : 'border-gray-200 dark:border-gray-700'}`}>
+                            <div key={item.id} id={`log-item-${item.id}`} className={`bg-white dark:bg-gray-800 rounded-xl p-4 sm:p-5 border shadow-sm transition-all ${hasEntry || scannedItemId === item.id ? 'border-brand-300 dark:border-brand-700 ring-1 ring-brand-100 dark:ring-brand-900/30' : 'border-gray-200 dark:border-gray-700'}`}>
                                 <div className="flex justify-between items-start mb-4">
                                     <div>
                                         <h3 className="font-bold text-gray-900 dark:text-white">{language === 'ar' ? item.nameAr : item.nameEn}</h3>
@@ -237,7 +334,7 @@ const MammalEmployeeDashboard: React.FC<MammalEmployeeDashboardProps> = ({
                                     )}
                                 </div>
 
-                                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
                                     {/* Received Input */}
                                     <div className="relative">
                                         <label className="block text-xs font-bold text-gray-400 uppercase mb-1 flex items-center gap-1">
@@ -253,6 +350,23 @@ const MammalEmployeeDashboard: React.FC<MammalEmployeeDashboardProps> = ({
                                         />
                                     </div>
 
+                                    {/* Unit Cost Input, for what was received */}
+                                    <div className="relative">
+                                        <label className="block text-xs font-bold text-gray-400 uppercase mb-1 flex items-center gap-1">
+                                            <Coins className="w-3 h-3 text-green-500" /> {t.unitCost}
+                                        </label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="any"
+                                            value={entry.unitCost}
+                                            disabled={!entry.received}
+                                            onChange={(e) => handleInputChange(item.id, 'unitCost', e.target.value)}
+                                            className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg text-sm outline-none focus:ring-2 focus:ring-brand-500 text-gray-900 dark:text-white placeholder-gray-400 disabled:opacity-50"
+                                            placeholder="0.00"
+                                        />
+                                    </div>
+
                                     {/* Used Input */}
                                     <div className="relative">
                                         <label className="block text-xs font-bold text-gray-400 uppercase mb-1 flex items-center gap-1">
@@ -343,7 +457,10 @@ const MammalEmployeeDashboard: React.FC<MammalEmployeeDashboardProps> = ({
                             </div>
 
                             <button 
-                                onClick={() => exportDailyReportPDF(todayTransactions, 'mammal', t.mammal, language, userName)}
+                                onClick={() => exportDailyReportPDF(todayTransactions, 'mammal', t.mammal, language, userName).catch(error => {
+                                    console.error('Error exporting PDF:', error);
+                                    alert(t.pdfExportFailed);
+                                })}
                                 className="w-full py-4 bg-gray-900 dark:bg-gray-700 text-white rounded-xl font-bold hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors flex items-center justify-center gap-2"
                             >
                                 <Download className="w-5 h-5" />
@@ -357,6 +474,41 @@ const MammalEmployeeDashboard: React.FC<MammalEmployeeDashboardProps> = ({
                     </div>
                 </div>
             )}
+
+            <BarcodeScanner
+                isOpen={isScannerOpen}
+                onClose={() => setIsScannerOpen(false)}
+                onDetected={handleScan}
+                language={language}
+            />
+
+            {/* Production posts the usage of every ingredient of a recipe */}
+            <ProductionModal
+                isOpen={showProductionModal}
+                onClose={() => setShowProductionModal(false)}
+                recipes={recipes}
+                items={items}
+                language={language}
+                onSubmit={async (logs) => {
+                    await onBulkLogTransaction(logs);
+                    setSuccessMsg(t.productionLogged);
+                    setTimeout(() => setSuccessMsg(''), 3000);
+                }}
+            />
+
+            {/* Stock-take: staff count, a manager approves */}
+            <StockTakeModal
+                isOpen={showStockTakeModal}
+                onClose={() => setShowStockTakeModal(false)}
+                locationName={t.mammal}
+                stockTakes={stockTakes}
+                canApprove={false}
+                language={language}
+                onStart={onStartStockTake}
+                onSaveCounts={onSaveStockCounts}
+                onSubmit={onSubmitStockTake}
+                onCancel={onCancelStockTake}
+            />
         </div>
     );
 };
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { AppNotification, Language, NotificationEvent } from '../types';
+import { TRANSLATIONS } from '../constants';
+import NotificationPreferences from './NotificationPreferences';
+import {
+    AlertTriangle,
+    ArrowDownCircle,
+    Bell,
+    CalendarX,
+    CheckCheck,
+    ClipboardCheck,
+    Settings,
+    Truck,
+    X,
+    XCircle
+} from 'lucide-react';
+
+interface NotificationBellProps {
+    notifications: AppNotification[];
+    mutedEvents: NotificationEvent[];
+    language: Language;
+    onMarkRead: (notificationIds: string[]) => void;
+    onSavePreferences: (mutedEvents: NotificationEvent[]) => Promise<void>;
+    className?: string;
+}
+
+const EVENT_ICONS: Record<NotificationEvent, { icon: React.ElementType, color: string }> = {
+    incoming_transfer: { icon: ArrowDownCircle, color: 'text-blue-500' },
+    transfer_rejected: { icon: XCircle, color: 'text-red-500' },
+    transfer_received: { icon: Truck, color: 'text-green-500' },
+    low_stock: { icon: AlertTriangle, color: 'text-amber-500' },
+    expiry: { icon: CalendarX, color: 'text-orange-500' },
+    stock_take_approval: { icon: ClipboardCheck, color: 'text-purple-500' }
+};
+
+// Bell with the unread count; opens the inbox as a side panel, with the preferences behind it
+const NotificationBell: React.FC<NotificationBellProps> = ({ notifications, mutedEvents, language, onMarkRead, onSavePreferences, className = '' }) => {
+    const t = TRANSLATIONS[language];
+    const [isOpen, setIsOpen] = useState(false);
+    const [showPreferences, setShowPreferences] = useState(false);
+
+    const unread = notifications.filter(n => !n.readAt);
+
+    return (
+        <>
+            <button
+                onClick={() => setIsOpen(true)}
+                className={`relative p-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 rounded-lg transition-colors ${className}`}
+                title={t.notifications}
+            >
+                <Bell className="w-5 h-5" />
+                {unread.length > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 rtl:right-auto rtl:-left-0.5 min-w-[18px] h-[18px] px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+                        {unread.length > 99 ? '99+' : unread.length}
+                    </span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div className="fixed inset-0 z-[60] flex justify-end" onClick={() => setIsOpen(false)}>
+                    <div className="absolute inset-0 bg-black/30" />
+                    <div
+                        className="relative w-full sm:w-96 h-full bg-white dark:bg-gray-800 shadow-2xl flex flex-col animate-in slide-in-from-right rtl:slide-in-from-left duration-200"
+                        onClick={e => e.stopPropagation()}
+                    >
+                        <div className="px-4 py-4 border-b border-gray-100 dark:border-gray-700 flex items-center justify-between gap-2">
+                            <div className="flex items-center gap-2">
+                                <Bell className="w-5 h-5 text-brand-600" />
+                                <h2 className="text-lg font-bold text-gray-900 dark:text-white">{t.notifications}</h2>
+                                {unread.length > 0 && (
+                                    <span className="px-2 py-0.5 bg-red-50 dark:bg-red-900/20 text-red-600 rounded-full text-xs font-bold">{unread.length}</span>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <button
+                                    onClick={() => onMarkRead(unread.map(n => n.id))}
+                                    disabled={unread.length === 0}
+                                    className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 rounded-lg transition-colors disabled:opacity-40"
+                                    title={t.markAllRead}
+                                >
+                                    <CheckCheck className="w-5 h-5" />
+                                </button>
+                                <button
+                                    onClick={() => setShowPreferences(true)}
+                                    className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 rounded-lg transition-colors"
+                                    title={t.notificationPreferences}
+                                >
+                                    <Settings className="w-5 h-5" />
+                                </button>
+                                <button onClick={() => setIsOpen(false)} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 rounded-lg transition-colors">
+                                    <X className="w-5 h-5" />
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                            {notifications.length === 0 ? (
+                                <div className="p-10 text-center text-gray-400">
+                                    <Bell className="w-10 h-10 mx-auto mb-3 opacity-30" />
+                                    <p className="text-sm">{t.noNotifications}</p>
+                                </div>
+                            ) : notifications.map(notification => {
+                                const { icon: Icon, color } = EVENT_ICONS[notification.event];
+                                return (
+                                    <button
+                                        key={notification.id}
+                                        onClick={() => !notification.readAt && onMarkRead([notification.id])}
+                                        className={`w-full text-start px-4 py-3 flex gap-3 transition-colors hover:bg-gray-50 dark:hover:bg-gray-700/50 ${notification.readAt ? '' : 'bg-brand-50/50 dark:bg-brand-900/10'}`}
+                                    >
+                                        <Icon className={`w-5 h-5 mt-0.5 shrink-0 ${color}`} />
+                                        <div className="min-w-0 flex-1">
+                                            <p className={`text-sm text-gray-900 dark:text-white ${notification.readAt ? 'font-medium' : 'font-bold'}`}>
+                                                {language === 'ar' ? notification.titleAr : notification.titleEn}
+                                            </p>
+                                            <p className="text-xs text-gray-600 dark:text-gray-300 break-words">
+                                                {language === 'ar' ? notification.bodyAr : notification.bodyEn}
+                                            </p>
+                                            <p className="text-[10px] text-gray-400 mt-1">{new Date(notification.createdAt).toLocaleString()}</p>
+                                        </div>
+                                        {!notification.readAt && <span className="w-2 h-2 mt-1.5 bg-brand-600 rounded-full shrink-0" />}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            <NotificationPreferences
+                isOpen={showPreferences}
+                onClose={() => setShowPreferences(false)}
+                mutedEvents={mutedEvents}
+                onSave={onSavePreferences}
+                language={language}
+            />
+        </>
+    );
+};
+
+export default NotificationBell;
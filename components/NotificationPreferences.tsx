@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { Language, NotificationEvent } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { NOTIFICATION_EVENTS } from '../services/notificationService';
+import { BellRing, X, Loader2 } from 'lucide-react';
+
+interface NotificationPreferencesProps {
+    isOpen: boolean;
+    onClose: () => void;
+    mutedEvents: NotificationEvent[];
+    onSave: (mutedEvents: NotificationEvent[]) => Promise<void>;
+    language: Language;
+}
+
+// One switch per event; events switched off are neither added to the inbox nor pushed
+const NotificationPreferences: React.FC<NotificationPreferencesProps> = ({ isOpen, onClose, mutedEvents, onSave, language }) => {
+    const [muted, setMuted] = useState<NotificationEvent[]>(mutedEvents);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const t = TRANSLATIONS[language];
+
+    useEffect(() => {
+        if (isOpen) {
+            setMuted(mutedEvents);
+            setIsSaving(false);
+        }
+    }, [isOpen, mutedEvents]);
+
+    if (!isOpen) return null;
+
+    const eventLabels: Record<NotificationEvent, { label: string, description: string }> = {
+        incoming_transfer: { label: t.eventIncomingTransfer, description: t.eventIncomingTransferSub },
+        transfer_rejected: { label: t.eventTransferRejected, description: t.eventTransferRejectedSub },
+        transfer_received: { label: t.eventTransferReceived, description: t.eventTransferReceivedSub },
+        low_stock: { label: t.eventLowStock, description: t.eventLowStockSub },
+        expiry: { label: t.eventExpiry, description: t.eventExpirySub },
+        stock_take_approval: { label: t.eventStockTakeApproval, description: t.eventStockTakeApprovalSub }
+    };
+
+    const toggle = (event: NotificationEvent) => {
+        setMuted(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event]);
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await onSave(muted);
+            onClose();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-md p-6 shadow-2xl">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 dark:bg-brand-900/30 rounded-lg">
+                            <BellRing className="w-6 h-6 text-brand-600 dark:text-brand-400" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white font-arabic">{t.notificationPreferences}</h2>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">{t.notificationPreferencesSub}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <div className="divide-y divide-gray-100 dark:divide-gray-700 mb-6">
+                    {NOTIFICATION_EVENTS.map(event => {
+                        const enabled = !muted.includes(event);
+                        return (
+                            <label key={event} className="flex items-center justify-between gap-4 py-3 cursor-pointer">
+                                <div>
+                                    <p className="text-sm font-medium text-gray-900 dark:text-white">{eventLabels[event].label}</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">{eventLabels[event].description}</p>
+                                </div>
+                                <input
+                                    type="checkbox"
+                                    checked={enabled}
+                                    onChange={() => toggle(event)}
+                                    className="w-5 h-5 rounded border-gray-300 text-brand-600 focus:ring-brand-500 shrink-0"
+                                />
+                            </label>
+                        );
+                    })}
+                </div>
+
+                <div className="flex gap-3">
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 font-medium transition-colors"
+                    >
+                        {t.cancel}
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 font-medium transition-colors disabled:opacity-50"
+                    >
+                        {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {t.saveChanges}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default NotificationPreferences;
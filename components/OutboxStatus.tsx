@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { InventoryItem, Language, OutboxEntry } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { AlertTriangle, CloudOff, Loader2, RefreshCw, Trash2, UploadCloud } from 'lucide-react';
+
+interface OutboxStatusProps {
+    outbox: OutboxEntry[];
+    items: InventoryItem[]; // Current stock at the location, for comparing against conflicts
+    isOnline: boolean;
+    language: Language;
+    onSyncNow: () => void;
+    onResolveConflict: (entry: OutboxEntry, quantity: number | null) => Promise<void>;
+}
+
+// Offline and pending-sync banner plus the entries the server refused, each with a way out:
+// log what is on hand now, retry as logged, or discard
+const OutboxStatus: React.FC<OutboxStatusProps> = ({ outbox, items, isOnline, language, onSyncNow, onResolveConflict }) => {
+    const t = TRANSLATIONS[language];
+    const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+    const pending = outbox.filter(entry => entry.status === 'pending');
+    const conflicts = outbox.filter(entry => entry.status === 'conflict');
+
+    if (isOnline && pending.length === 0 && conflicts.length === 0) return null;
+
+    const resolve = async (entry: OutboxEntry, quantity: number | null) => {
+        setResolvingId(entry.id);
+        try {
+            await onResolveConflict(entry, quantity);
+        } finally {
+            setResolvingId(null);
+        }
+    };
+
+    return (
+        <div className="mb-6 space-y-3">
+            {(!isOnline || pending.length > 0) && (
+                <div className={`p-4 rounded-xl flex items-center justify-between gap-3 ${isOnline ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300' : 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400'}`}>
+                    <div className="flex items-center gap-3 min-w-0">
+                        {isOnline ? <UploadCloud className="w-5 h-5 shrink-0" /> : <CloudOff className="w-5 h-5 shrink-0" />}
+                        <div className="min-w-0">
+                            <p className="font-bold text-sm">{isOnline ? t.pendingSync : t.offlineMode}</p>
+                            <p className="text-xs opacity-80">
+                                {!isOnline && t.offlineModeSub}
+                                {!isOnline && pending.length > 0 && ' • '}
+                                {pending.length > 0 && `${t.pendingSync}: ${pending.length}`}
+                            </p>
+                        </div>
+                    </div>
+                    {isOnline && pending.length > 0 && (
+                        <button
+                            onClick={onSyncNow}
+                            className="flex items-center gap-2 px-3 py-2 bg-white dark:bg-gray-800 rounded-lg text-xs font-bold shadow-sm hover:bg-blue-100 dark:hover:bg-gray-700 transition-colors shrink-0"
+                        >
+                            <RefreshCw className="w-4 h-4" />
+                            {t.syncNow}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {conflicts.length > 0 && (
+                <div className="bg-white dark:bg-gray-800 rounded-xl border border-red-200 dark:border-red-900/40 shadow-sm overflow-hidden">
+                    <div className="px-4 py-3 bg-red-50 dark:bg-red-900/20 flex items-center gap-3">
+                        <AlertTriangle className="w-5 h-5 text-red-600 shrink-0" />
+                        <div>
+                            <p className="font-bold text-sm text-red-700 dark:text-red-400">{t.syncConflicts} ({conflicts.length})</p>
+                            <p className="text-xs text-red-600/80 dark:text-red-400/80">{t.syncConflictsSub}</p>
+                        </div>
+                    </div>
+                    <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                        {conflicts.map(entry => {
+                            const item = items.find(i => i.id === entry.itemId);
+                            const stockNow = item ? item.quantity : 0;
+                            // Usage can still be logged up to what is on hand now
+                            const available = entry.type === 'usage' ? Math.min(entry.quantity, stockNow) : 0;
+                            const isResolving = resolvingId === entry.id;
+
+                            return (
+                                <div key={entry.id} className="px-4 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                                            {entry.type === 'usage' ? t.usage : t.receive}: {language === 'ar' ? entry.itemNameAr : entry.itemNameEn} • {entry.quantity} {entry.unit}
+                                        </p>
+                                        <p className="text-xs text-gray-500 flex flex-wrap gap-x-3">
+                                            <span>{t.stockWhenLogged}: {entry.expectedQuantity}</span>
+                                            <span>{t.stockNow}: {item ? stockNow : '-'}</span>
+                                            <span>{new Date(entry.loggedAt).toLocaleString()}</span>
+                                        </p>
+                                        {entry.error && <p className="text-xs text-red-500 mt-0.5">{entry.error}</p>}
+                                    </div>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        {isResolving && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+                                        {available > 0 && available < entry.quantity && (
+                                            <button
+                                                onClick={() => resolve(entry, available)}
+                                                disabled={isResolving}
+                                                className="px-3 py-1.5 bg-brand-50 dark:bg-brand-900/20 text-brand-600 rounded-lg text-xs font-bold hover:bg-brand-100 transition-colors disabled:opacity-50"
+                                            >
+                                                {t.logAvailable} ({available})
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => resolve(entry, entry.quantity)}
+                                            disabled={isResolving || !isOnline}
+                                            className="px-3 py-1.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg text-xs font-bold hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+                                        >
+                                            {t.retry}
+                                        </button>
+                                        <button
+                                            onClick={() => resolve(entry, null)}
+                                            disabled={isResolving}
+                                            className="flex items-center gap-1 px-3 py-1.5 bg-red-50 dark:bg-red-900/20 text-red-600 rounded-lg text-xs font-bold hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors disabled:opacity-50"
+                                        >
+                                            <Trash2 className="w-3 h-3" /> {t.discard}
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OutboxStatus;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { Product, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { BookOpen, Plus, X, Save, AlignLeft, AlertCircle } from 'lucide-react';
+
+interface ProductModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSubmit: (product: Omit<Product, 'id' | 'sku'>) => void;
+    language: Language;
+    initialData?: Product | null;
+    products: Product[];
+}
+
+const emptyForm = { nameEn: '', nameAr: '', description: '', category: '', unit: '', barcode: '' };
+
+const ProductModal: React.FC<ProductModalProps> = ({ isOpen, onClose, onSubmit, language, initialData, products }) => {
+    const t = TRANSLATIONS[language];
+
+    const [form, setForm] = useState(emptyForm);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (isOpen && initialData) {
+            setForm({
+                nameEn: initialData.nameEn,
+                nameAr: initialData.nameAr,
+                description: initialData.description || '',
+                category: initialData.category,
+                unit: initialData.unit,
+                barcode: initialData.barcode || ''
+            });
+        } else if (isOpen) {
+            setForm(emptyForm);
+        }
+        setError('');
+    }, [isOpen, initialData]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const isDuplicate = products.some(p =>
+            p.id !== initialData?.id && (
+                p.nameEn.toLowerCase() === form.nameEn.trim().toLowerCase() ||
+                p.nameAr === form.nameAr.trim()
+            )
+        );
+
+        if (isDuplicate) {
+            setError(language === 'ar' ? 'هذا المنتج موجود بالفعل' : 'This item already exists');
+            return;
+        }
+
+        onSubmit({
+            nameEn: form.nameEn.trim(),
+            nameAr: form.nameAr.trim(),
+            description: form.description || undefined,
+            category: form.category,
+            unit: form.unit,
+            barcode: form.barcode || undefined
+        });
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    const isEditMode = !!initialData;
+    const inputClass = "w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none";
+
+    return (
+        <div className={`fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 ${language === 'ar' ? 'font-arabic' : ''}`}>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-md p-6 shadow-2xl overflow-y-auto max-h-[90vh]">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 dark:bg-brand-900/30 rounded-lg">
+                            <BookOpen className="w-6 h-6 text-brand-600 dark:text-brand-500" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                                {isEditMode ? t.editProduct : t.addProduct}
+                            </h2>
+                            {initialData && <p className="text-xs text-gray-500 font-mono">{initialData.sku}</p>}
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t.itemNameEn}</label>
+                        <input
+                            required
+                            type="text"
+                            value={form.nameEn}
+                            onChange={e => { setForm({...form, nameEn: e.target.value}); setError(''); }}
+                            placeholder={t.itemNameEnPlaceholder}
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t.itemNameAr}</label>
+                        <input
+                            required
+                            type="text"
+                            value={form.nameAr}
+                            onChange={e => { setForm({...form, nameAr: e.target.value}); setError(''); }}
+                            placeholder={t.itemNameArPlaceholder}
+                            className={`${inputClass} font-arabic`}
+                            dir="rtl"
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 flex items-center gap-1">
+                            <AlignLeft className="w-3.5 h-3.5" />
+                            {t.description}
+                        </label>
+                        <textarea
+                            value={form.description}
+                            onChange={e => setForm({...form, description: e.target.value})}
+                            placeholder={t.descriptionPlaceholder}
+                            className={`${inputClass} resize-none h-20 text-sm`}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t.category}</label>
+                            <input
+                                required
+                                type="text"
+                                list="catalog-category-suggestions"
+                                value={form.category}
+                                onChange={e => setForm({...form, category: e.target.value})}
+                                className={inputClass}
+                            />
+                            <datalist id="catalog-category-suggestions">
+                                {Array.from(new Set(products.map(p => p.category).filter(Boolean))).sort().map(cat => (
+                                    <option key={cat} value={cat} />
+                                ))}
+                            </datalist>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t.unit}</label>
+                            <input
+                                required
+                                type="text"
+                                value={form.unit}
+                                onChange={e => setForm({...form, unit: e.target.value})}
+                                placeholder={t.unitPlaceholder}
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t.barcode}</label>
+                        <input
+                            type="text"
+                            value={form.barcode}
+                            onChange={e => setForm({...form, barcode: e.target.value})}
+                            placeholder="Scan or enter barcode"
+                            className={inputClass}
+                        />
+                    </div>
+
+                    {isEditMode && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{t.catalogEditWarning}</p>
+                    )}
+
+                    {error && (
+                        <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm rounded-lg animate-in fade-in slide-in-from-top-1">
+                            <AlertCircle className="w-4 h-4 shrink-0" />
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex gap-3 mt-6 pt-4 border-t border-gray-100 dark:border-gray-700">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg font-medium transition-colors"
+                        >
+                            {t.cancel}
+                        </button>
+                        <button
+                            type="submit"
+                            className="flex-1 px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+                        >
+                            {isEditMode ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                            {isEditMode ? t.saveChanges : t.addProduct}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default ProductModal;
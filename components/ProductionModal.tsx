@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { InventoryItem, Language, Recipe, TransactionType } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { planProduction, canProduce } from '../services/recipeService';
+import { ChefHat, X, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface ProductionModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    recipes: Recipe[];
+    items: InventoryItem[]; // Stock at the producing location
+    language: Language;
+    onSubmit: (logs: { type: TransactionType, itemId: string, quantity: number, notes: string, recipeId?: string }[]) => Promise<void> | void;
+}
+
+// Logs a batch of finished products: every ingredient of the recipe is posted as usage, in one go
+const ProductionModal: React.FC<ProductionModalProps> = ({ isOpen, onClose, recipes, items, language, onSubmit }) => {
+    const t = TRANSLATIONS[language];
+    const [recipeId, setRecipeId] = useState('');
+    const [produced, setProduced] = useState('');
+    const [notes, setNotes] = useState('');
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setRecipeId(recipes[0]?.id || '');
+        setProduced('');
+        setNotes('');
+        setError('');
+    }, [isOpen]);
+
+    const recipe = recipes.find(r => r.id === recipeId);
+    const producedQty = Number(produced);
+    const lines = useMemo(
+        () => recipe && producedQty > 0 ? planProduction(recipe, producedQty, items) : [],
+        [recipe, producedQty, items]
+    );
+
+    if (!isOpen) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!recipe) return;
+        if (isNaN(producedQty) || producedQty <= 0) {
+            setError(t.qtyGreaterZero);
+            return;
+        }
+        if (!canProduce(lines)) {
+            setError(t.productionShortage);
+            return;
+        }
+
+        const recipeName = language === 'ar' ? recipe.nameAr : recipe.nameEn;
+        const note = `${t.production}: ${producedQty} ${recipe.yieldUnit} ${recipeName}${notes.trim() ? ` • ${notes.trim()}` : ''}`;
+        setIsSubmitting(true);
+        await onSubmit(lines.map(line => ({
+            type: 'usage' as TransactionType,
+            itemId: line.item!.id,
+            quantity: line.quantity,
+            notes: note,
+            recipeId: recipe.id
+        })));
+        setIsSubmitting(false);
+        onClose();
+    };
+
+    const inputClass = "w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none";
+    const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+    return (
+        <div className={`fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 ${language === 'ar' ? 'font-arabic' : ''}`}>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-lg p-6 shadow-2xl overflow-y-auto max-h-[90vh]">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 dark:bg-brand-900/30 rounded-lg">
+                            <ChefHat className="w-6 h-6 text-brand-600 dark:text-brand-500" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t.logProduction}</h2>
+                            <p className="text-xs text-gray-500">{t.logProductionDesc}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                {recipes.length === 0 ? (
+                    <p className="py-8 text-center text-gray-400 italic">{t.noRecipes}</p>
+                ) : (
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className={labelClass}>{t.recipe}</label>
+                                <select value={recipeId} onChange={e => { setRecipeId(e.target.value); setError(''); }} className={inputClass}>
+                                    {recipes.map(r => (
+                                        <option key={r.id} value={r.id}>{language === 'ar' ? r.nameAr : r.nameEn}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={labelClass}>{t.quantityProduced}{recipe ? ` (${recipe.yieldUnit})` : ''}</label>
+                                <input
+                                    required
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    value={produced}
+                                    onChange={e => { setProduced(e.target.value); setError(''); }}
+                                    placeholder="0"
+                                    className={inputClass}
+                                />
+                            </div>
+                        </div>
+
+                        {lines.length > 0 && (
+                            <div className="rounded-xl border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+                                <p className="px-4 py-2 text-xs font-bold text-gray-400 uppercase">{t.ingredientsUsed}</p>
+                                {lines.map(line => {
+                                    const short = !line.item || line.item.quantity < line.quantity;
+                                    return (
+                                        <div key={line.ingredient.productId} className="px-4 py-2 flex justify-between gap-4 text-sm">
+                                            <span className="text-gray-700 dark:text-gray-300">
+                                                {language === 'ar' ? line.ingredient.itemNameAr : line.ingredient.itemNameEn}
+                                            </span>
+                                            <span className={`whitespace-nowrap font-medium flex items-center gap-1 ${short ? 'text-red-600' : 'text-gray-900 dark:text-white'}`}>
+                                                {short ? <AlertCircle className="w-3 h-3" /> : <CheckCircle className="w-3 h-3 text-green-500" />}
+                                                {line.quantity} / {line.item ? line.item.quantity : 0} {line.ingredient.unit}
+                                            </span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        <div>
+                            <label className={labelClass}>{t.notes}</label>
+                            <input type="text" value={notes} onChange={e => setNotes(e.target.value)} placeholder={t.addNote} className={inputClass} />
+                        </div>
+
+                        {error && (
+                            <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm rounded-lg animate-in fade-in slide-in-from-top-1">
+                                <AlertCircle className="w-4 h-4 shrink-0" />
+                                {error}
+                            </div>
+                        )}
+
+                        <div className="flex gap-3 mt-6 pt-4 border-t border-gray-100 dark:border-gray-700">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="flex-1 px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg font-medium transition-colors"
+                            >
+                                {t.cancel}
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSubmitting || lines.length === 0}
+                                className="flex-1 px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                            >
+                                <ChefHat className="w-4 h-4" />
+                                {t.logProduction}
+                            </button>
+                        </div>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ProductionModal;
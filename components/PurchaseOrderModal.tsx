@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { PurchaseOrder, Product, Supplier, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { PurchaseOrderDraft } from '../services/purchasingService';
+import { ClipboardList, Plus, X, Save, Trash2, AlertCircle } from 'lucide-react';
+
+interface PurchaseOrderModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSubmit: (draft: PurchaseOrderDraft) => void;
+    language: Language;
+    initialData?: PurchaseOrder | null;
+    suppliers: Supplier[];
+    products: Product[];
+}
+
+interface LineForm {
+    productId: string;
+    quantity: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const PurchaseOrderModal: React.FC<PurchaseOrderModalProps> = ({ isOpen, onClose, onSubmit, language, initialData, suppliers, products }) => {
+    const t = TRANSLATIONS[language];
+
+    const [supplierId, setSupplierId] = useState('');
+    const [orderDate, setOrderDate] = useState(today());
+    const [expectedDate, setExpectedDate] = useState('');
+    const [notes, setNotes] = useState('');
+    const [lines, setLines] = useState<LineForm[]>([]);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        if (initialData) {
+            setSupplierId(initialData.supplierId);
+            setOrderDate(initialData.orderDate);
+            setExpectedDate(initialData.expectedDate || '');
+            setNotes(initialData.notes || '');
+            setLines(initialData.lines.map(l => ({ productId: l.productId, quantity: l.quantity.toString() })));
+        } else {
+            setSupplierId(suppliers[0]?.id || '');
+            setOrderDate(today());
+            setExpectedDate('');
+            setNotes('');
+            setLines([{ productId: '', quantity: '' }]);
+        }
+        setError('');
+    }, [isOpen, initialData]);
+
+    if (!isOpen) return null;
+
+    const updateLine = (index: number, changes: Partial<LineForm>) => {
+        setLines(prev => prev.map((l, i) => i === index ? { ...l, ...changes } : l));
+        setError('');
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const filled = lines.filter(l => l.productId);
+        if (filled.length === 0) {
+            setError(t.purchaseOrderNeedsLines);
+            return;
+        }
+        for (const line of filled) {
+            const qty = Number(line.quantity);
+            if (isNaN(qty) || qty <= 0) {
+                setError(t.qtyGreaterZero);
+                return;
+            }
+        }
+        const productIds = filled.map(l => l.productId);
+        if (new Set(productIds).size !== productIds.length) {
+            setError(language === 'ar' ? 'كل منتج يظهر مرة واحدة فقط في الطلب' : 'Each product can only appear once on an order');
+            return;
+        }
+
+        onSubmit({
+            supplierId,
+            orderDate,
+            expectedDate: expectedDate || undefined,
+            notes: notes.trim() || undefined,
+            lines: filled.map(l => ({ productId: l.productId, quantity: Number(l.quantity) }))
+        });
+        onClose();
+    };
+
+    const isEditMode = !!initialData;
+    const inputClass = "w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none";
+    const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+    return (
+        <div className={`fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 ${language === 'ar' ? 'font-arabic' : ''}`}>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-2xl p-6 shadow-2xl overflow-y-auto max-h-[90vh]">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 dark:bg-brand-900/30 rounded-lg">
+                            <ClipboardList className="w-6 h-6 text-brand-600 dark:text-brand-500" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                                {isEditMode ? t.editPurchaseOrder : t.newPurchaseOrder}
+                            </h2>
+                            {initialData && <p className="text-xs text-gray-500 font-mono">{initialData.poNumber}</p>}
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className={labelClass}>{t.supplier}</label>
+                        <select required value={supplierId} onChange={e => setSupplierId(e.target.value)} className={inputClass}>
+                            <option value="" disabled>{t.supplier}</option>
+                            {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClass}>{t.orderDate}</label>
+                            <input required type="date" value={orderDate} onChange={e => setOrderDate(e.target.value)} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>{t.expectedDate}</label>
+                            <input type="date" min={orderDate} value={expectedDate} onChange={e => setExpectedDate(e.target.value)} className={inputClass} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>{t.items}</label>
+                        <div className="space-y-2">
+                            {lines.map((line, index) => {
+                                const product = products.find(p => p.id === line.productId);
+                                return (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <select
+                                            value={line.productId}
+                                            onChange={e => updateLine(index, { productId: e.target.value })}
+                                            className={`${inputClass} flex-1 min-w-0`}
+                                        >
+                                            <option value="">{t.selectItem}</option>
+                                            {products.map(p => (
+                                                <option key={p.id} value={p.id}>{p.sku} • {language === 'ar' ? p.nameAr : p.nameEn}</option>
+                                            ))}
+                                        </select>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="any"
+                                            value={line.quantity}
+                                            onChange={e => updateLine(index, { quantity: e.target.value })}
+                                            placeholder={t.quantity}
+                                            className={`${inputClass} w-28`}
+                                        />
+                                        <span className="w-12 text-xs text-gray-500 truncate">{product?.unit}</span>
+                                        <button
+                                            type="button"
+                                            onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                                            className="p-2 text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => setLines(prev => [...prev, { productId: '', quantity: '' }])}
+                            className="mt-2 flex items-center gap-1 text-sm font-medium text-brand-600 hover:text-brand-700"
+                        >
+                            <Plus className="w-4 h-4" />
+                            {t.addLine}
+                        </button>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>{t.notes}</label>
+                        <textarea
+                            value={notes}
+                            onChange={e => setNotes(e.target.value)}
+                            placeholder={t.notesPlaceholder}
+                            className={`${inputClass} resize-none h-20 text-sm`}
+                        />
+                    </div>
+
+                    {error && (
+                        <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm rounded-lg animate-in fade-in slide-in-from-top-1">
+                            <AlertCircle className="w-4 h-4 shrink-0" />
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex gap-3 mt-6 pt-4 border-t border-gray-100 dark:border-gray-700">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg font-medium transition-colors"
+                        >
+                            {t.cancel}
+                        </button>
+                        <button
+                            type="submit"
+                            className="flex-1 px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+                        >
+                            {isEditMode ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                            {isEditMode ? t.saveChanges : t.newPurchaseOrder}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default PurchaseOrderModal;
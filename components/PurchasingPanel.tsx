@@ -0,0 +1,355 @@
+import React, { useState } from 'react';
+import { Supplier, PurchaseOrder, PurchaseOrderStatus, GoodsReceivedNote, GoodsReceiptLine, Product, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { PurchaseOrderDraft } from '../services/purchasingService';
+import { exportPurchaseOrderPDF } from '../services/exportService';
+import ConfirmationModal from './ConfirmationModal';
+import SupplierModal from './SupplierModal';
+import PurchaseOrderModal from './PurchaseOrderModal';
+import GoodsReceiptModal from './GoodsReceiptModal';
+import { Plus, Pencil, Trash2, Send, PackagePlus, XCircle, Download, ChevronDown, Truck, ClipboardList } from 'lucide-react';
+
+interface PurchasingPanelProps {
+    suppliers: Supplier[];
+    purchaseOrders: PurchaseOrder[];
+    goodsReceivedNotes: GoodsReceivedNote[];
+    products: Product[];
+    language: Language;
+    onAddSupplier: (supplier: Omit<Supplier, 'id'>) => void;
+    onEditSupplier: (supplier: Supplier) => void;
+    onDeleteSupplier: (supplierId: string) => void;
+    onSavePurchaseOrder: (draft: PurchaseOrderDraft, purchaseOrderId?: string) => void;
+    onSetPurchaseOrderStatus: (purchaseOrderId: string, status: 'ordered' | 'cancelled') => void;
+    onDeletePurchaseOrder: (purchaseOrderId: string) => void;
+    onReceivePurchaseOrder: (purchaseOrderId: string, lines: GoodsReceiptLine[], notes?: string) => void;
+}
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+    draft: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+    ordered: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+    partially_received: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+    received: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+    cancelled: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+};
+
+const PurchasingPanel: React.FC<PurchasingPanelProps> = ({
+    suppliers,
+    purchaseOrders,
+    goodsReceivedNotes,
+    products,
+    language,
+    onAddSupplier,
+    onEditSupplier,
+    onDeleteSupplier,
+    onSavePurchaseOrder,
+    onSetPurchaseOrderStatus,
+    onDeletePurchaseOrder,
+    onReceivePurchaseOrder
+}) => {
+    const t = TRANSLATIONS[language];
+    const [view, setView] = useState<'orders' | 'suppliers'>('orders');
+    const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+    const [showSupplierModal, setShowSupplierModal] = useState(false);
+    const [supplierToEdit, setSupplierToEdit] = useState<Supplier | null>(null);
+    const [showOrderModal, setShowOrderModal] = useState(false);
+    const [orderToEdit, setOrderToEdit] = useState<PurchaseOrder | null>(null);
+    const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+    const [confirmDelete, setConfirmDelete] = useState<{ isOpen: boolean; type: 'supplier' | 'order'; id: string; name: string }>({
+        isOpen: false,
+        type: 'supplier',
+        id: '',
+        name: ''
+    });
+
+    const statusLabels: Record<PurchaseOrderStatus, string> = {
+        draft: t.poStatusDraft,
+        ordered: t.poStatusOrdered,
+        partially_received: t.poStatusPartiallyReceived,
+        received: t.poStatusReceived,
+        cancelled: t.poStatusCancelled
+    };
+
+    const formatDate = (date: string) => new Date(date).toLocaleDateString(language === 'ar' ? 'ar-SA' : 'en-US');
+
+    const executeDeletion = () => {
+        if (confirmDelete.type === 'supplier') {
+            onDeleteSupplier(confirmDelete.id);
+        } else {
+            onDeletePurchaseOrder(confirmDelete.id);
+        }
+    };
+
+    const iconButton = "p-2 text-gray-400 hover:text-brand-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors";
+
+    return (
+        <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+                <div>
+                    <h2 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">{t.purchasing}</h2>
+                    <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">{t.purchasingSub}</p>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+                    <div className="flex p-1 bg-gray-100 dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+                        {([
+                            { id: 'orders', label: t.purchaseOrders, icon: ClipboardList },
+                            { id: 'suppliers', label: t.suppliers, icon: Truck }
+                        ] as const).map(tab => (
+                            <button
+                                key={tab.id}
+                                onClick={() => setView(tab.id)}
+                                className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-all ${view === tab.id ? 'bg-white dark:bg-gray-700 text-brand-600 dark:text-brand-400 shadow-sm' : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'}`}
+                            >
+                                <tab.icon className="w-4 h-4" />
+                                {tab.label}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={() => {
+                            if (view === 'orders') { setOrderToEdit(null); setShowOrderModal(true); }
+                            else { setSupplierToEdit(null); setShowSupplierModal(true); }
+                        }}
+                        disabled={view === 'orders' && suppliers.length === 0}
+                        className="w-full sm:w-auto flex items-center justify-center gap-2 px-4 py-2.5 bg-brand-600 hover:bg-brand-700 text-white rounded-xl font-medium transition-colors shadow-lg disabled:opacity-50"
+                    >
+                        <Plus className="w-5 h-5" />
+                        {view === 'orders' ? t.newPurchaseOrder : t.addSupplier}
+                    </button>
+                </div>
+            </div>
+
+            {view === 'orders' && (
+                <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm mb-8 overflow-hidden">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left rtl:text-right text-xs sm:text-sm">
+                            <thead>
+                                <tr className="bg-gray-50/30 dark:bg-gray-900/30 border-b border-gray-100 dark:border-gray-700">
+                                    <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase">{t.poNumber}</th>
+                                    <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase">{t.supplier}</th>
+                                    <th className="hidden md:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.orderDate}</th>
+                                    <th className="hidden md:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.expectedDate}</th>
+                                    <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase">{t.status}</th>
+                                    <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase text-right rtl:text-left">{t.actions}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                                {purchaseOrders.map(order => {
+                                    const isExpanded = expandedOrderId === order.id;
+                                    const deliveries = goodsReceivedNotes.filter(g => g.purchaseOrderId === order.id);
+                                    const canReceive = order.status === 'ordered' || order.status === 'partially_received';
+                                    const isOverdue = canReceive && !!order.expectedDate && order.expectedDate < new Date().toISOString().split('T')[0];
+                                    return (
+                                        <React.Fragment key={order.id}>
+                                            <tr className="hover:bg-gray-50/50 dark:hover:bg-gray-700/50">
+                                                <td className="px-4 sm:px-6 py-3 sm:py-4 font-mono text-gray-900 dark:text-white whitespace-nowrap">
+                                                    <button onClick={() => setExpandedOrderId(isExpanded ? null : order.id)} className="flex items-center gap-1">
+                                                        <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform ${isExpanded ? '' : 'ltr:-rotate-90 rtl:rotate-90'}`} />
+                                                        {order.poNumber}
+                                                    </button>
+                                                </td>
+                                                <td className="px-4 sm:px-6 py-3 sm:py-4 font-medium text-gray-900 dark:text-white">
+                                                    {order.supplierName}
+                                                    <div className="text-[10px] text-gray-400 font-normal mt-1">{order.lines.length} {t.items}</div>
+                                                </td>
+                                                <td className="hidden md:table-cell px-6 py-4 text-gray-500">{formatDate(order.orderDate)}</td>
+                                                <td className={`hidden md:table-cell px-6 py-4 ${isOverdue ? 'text-red-600 font-bold' : 'text-gray-500'}`}>
+                                                    {order.expectedDate ? formatDate(order.expectedDate) : '-'}
+                                                </td>
+                                                <td className="px-4 sm:px-6 py-3 sm:py-4">
+                                                    <span className={`px-2 py-0.5 rounded-full text-xs whitespace-nowrap ${STATUS_STYLES[order.status]}`}>
+                                                        {statusLabels[order.status]}
+                                                    </span>
+                                                </td>
+                                                <td className="px-4 sm:px-6 py-3 sm:py-4 text-right rtl:text-left">
+                                                    <div className="flex items-center gap-1 justify-end">
+                                                        {order.status === 'draft' && (
+                                                            <>
+                                                                <button onClick={() => onSetPurchaseOrderStatus(order.id, 'ordered')} className={iconButton} title={t.placeOrder}>
+                                                                    <Send className="w-4 h-4 rtl:-scale-x-100" />
+                                                                </button>
+                                                                <button onClick={() => { setOrderToEdit(order); setShowOrderModal(true); }} className={iconButton} title={t.edit}>
+                                                                    <Pencil className="w-4 h-4" />
+                                                                </button>
+                                                            </>
+                                                        )}
+                                                        {canReceive && (
+                                                            <button onClick={() => setReceivingOrder(order)} className="p-2 text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20 rounded-lg transition-colors" title={t.receiveGoods}>
+                                                                <PackagePlus className="w-4 h-4" />
+                                                            </button>
+                                                        )}
+                                                        <button
+                                                            onClick={() => exportPurchaseOrderPDF(order, suppliers.find(s => s.id === order.supplierId), language).catch(error => {
+                                                                console.error('Error exporting PDF:', error);
+                                                                alert(t.pdfExportFailed);
+                                                            })}
+                                                            className={iconButton}
+                                                            title={t.exportPDF}
+                                                        >
+                                                            <Download className="w-4 h-4" />
+                                                        </button>
+                                                        {order.status === 'ordered' && (
+                                                            <button onClick={() => onSetPurchaseOrderStatus(order.id, 'cancelled')} className="p-2 text-red-400 hover:bg-red-50 rounded-lg transition-colors" title={t.cancelOrder}>
+                                                                <XCircle className="w-4 h-4" />
+                                                            </button>
+                                                        )}
+                                                        {order.status === 'draft' && (
+                                                            <button
+                                                                onClick={() => setConfirmDelete({ isOpen: true, type: 'order', id: order.id, name: order.poNumber })}
+                                                                className="p-2 text-red-400 hover:bg-red-50 rounded-lg transition-colors"
+                                                                title={t.delete}
+                                                            >
+                                                                <Trash2 className="w-4 h-4" />
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                            {isExpanded && (
+                                                <tr className="bg-gray-50/50 dark:bg-gray-900/30">
+                                                    <td colSpan={6} className="px-4 sm:px-6 py-4">
+                                                        <div className="grid md:grid-cols-2 gap-6">
+                                                            <div>
+                                                                <h4 className="text-xs font-bold text-gray-400 uppercase mb-2">{t.items}</h4>
+                                                                <div className="space-y-1">
+                                                                    {order.lines.map(line => (
+                                                                        <div key={line.id} className="flex justify-between gap-4 text-gray-700 dark:text-gray-300">
+                                                                            <span>{language === 'ar' ? line.itemNameAr : line.itemNameEn}</span>
+                                                                            <span className="whitespace-nowrap">{line.receivedQuantity} / {line.quantity} {line.unit}</span>
+                                                                        </div>
+                                                                    ))}
+                                                                </div>
+                                                                {order.notes && <p className="mt-3 text-xs text-gray-500">{order.notes}</p>}
+                                                            </div>
+                                                            <div>
+                                                                <h4 className="text-xs font-bold text-gray-400 uppercase mb-2">{t.goodsReceived}</h4>
+                                                                {deliveries.length === 0 ? (
+                                                                    <p className="text-gray-400 italic">-</p>
+                                                                ) : (
+                                                                    <div className="space-y-2">
+                                                                        {deliveries.map(grn => (
+                                                                            <div key={grn.id} className="text-gray-700 dark:text-gray-300">
+                                                                                <div className="flex justify-between gap-4">
+                                                                                    <span className="font-mono">{grn.grnNumber}</span>
+                                                                                    <span className="text-xs text-gray-500">{new Date(grn.receivedAt).toLocaleString(language === 'ar' ? 'ar-SA' : 'en-US')}</span>
+                                                                                </div>
+                                                                                <div className="text-xs text-gray-500">
+                                                                                    {grn.lines.map(gl => {
+                                                                                        const line = order.lines.find(l => l.id === gl.purchaseOrderLineId);
+                                                                                        return `${line ? (language === 'ar' ? line.itemNameAr : line.itemNameEn) : ''} ${gl.quantity} ${line?.unit || ''}`;
+                                                                                    }).join(', ')}
+                                                                                    {' • '}{grn.receivedBy}
+                                                                                    {grn.notes && ` • ${grn.notes}`}
+                                                                                </div>
+                                                                            </div>
+                                                                        ))}
+                                                                    </div>
+                                                                )}
+                                                            </div>
+                                                        </div>
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </React.Fragment>
+                                    );
+                                })}
+                                {purchaseOrders.length === 0 && (
+                                    <tr><td colSpan={6} className="px-6 py-12 text-center text-gray-400 italic">{t.noPurchaseOrders}</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {view === 'suppliers' && (
+                <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm mb-8 overflow-hidden">
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left rtl:text-right text-xs sm:text-sm">
+                            <thead>
+                                <tr className="bg-gray-50/30 dark:bg-gray-900/30 border-b border-gray-100 dark:border-gray-700">
+                                    <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase">{t.supplierName}</th>
+                                    <th className="hidden sm:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.contactName}</th>
+                                    <th className="hidden md:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.phone}</th>
+                                    <th className="hidden lg:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.email}</th>
+                                    <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase text-right rtl:text-left">{t.actions}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                                {suppliers.map(supplier => {
+                                    const hasOrders = purchaseOrders.some(po => po.supplierId === supplier.id);
+                                    return (
+                                        <tr key={supplier.id} className="hover:bg-gray-50/50 dark:hover:bg-gray-700/50">
+                                            <td className="px-4 sm:px-6 py-3 sm:py-4 font-medium text-gray-900 dark:text-white">
+                                                {supplier.name}
+                                                {supplier.address && <div className="text-[10px] text-gray-400 font-normal mt-1">{supplier.address}</div>}
+                                            </td>
+                                            <td className="hidden sm:table-cell px-6 py-4 text-gray-500">{supplier.contactName || '-'}</td>
+                                            <td className="hidden md:table-cell px-6 py-4 text-gray-500 font-mono">{supplier.phone || '-'}</td>
+                                            <td className="hidden lg:table-cell px-6 py-4 text-gray-500">{supplier.email || '-'}</td>
+                                            <td className="px-4 sm:px-6 py-3 sm:py-4 text-right rtl:text-left">
+                                                <div className="flex items-center gap-1 justify-end">
+                                                    <button onClick={() => { setSupplierToEdit(supplier); setShowSupplierModal(true); }} className={iconButton}>
+                                                        <Pencil className="w-4 h-4" />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => setConfirmDelete({ isOpen: true, type: 'supplier', id: supplier.id, name: supplier.name })}
+                                                        disabled={hasOrders}
+                                                        className="p-2 text-red-400 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                                {suppliers.length === 0 && (
+                                    <tr><td colSpan={5} className="px-6 py-12 text-center text-gray-400 italic">{t.noSuppliers}</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            <SupplierModal
+                isOpen={showSupplierModal}
+                onClose={() => setShowSupplierModal(false)}
+                onSubmit={(supplier) => supplierToEdit ? onEditSupplier({ ...supplier, id: supplierToEdit.id }) : onAddSupplier(supplier)}
+                language={language}
+                initialData={supplierToEdit}
+                suppliers={suppliers}
+            />
+
+            <PurchaseOrderModal
+                isOpen={showOrderModal}
+                onClose={() => setShowOrderModal(false)}
+                onSubmit={(draft) => onSavePurchaseOrder(draft, orderToEdit?.id)}
+                language={language}
+                initialData={orderToEdit}
+                suppliers={suppliers}
+                products={products}
+            />
+
+            <GoodsReceiptModal
+                isOpen={!!receivingOrder}
+                onClose={() => setReceivingOrder(null)}
+                order={receivingOrder}
+                onConfirm={(lines, notes) => receivingOrder && onReceivePurchaseOrder(receivingOrder.id, lines, notes)}
+                language={language}
+            />
+
+            <ConfirmationModal
+                isOpen={confirmDelete.isOpen}
+                onClose={() => setConfirmDelete({ ...confirmDelete, isOpen: false })}
+                onConfirm={executeDeletion}
+                title={t.confirmDeleteTitle}
+                message={`${confirmDelete.type === 'supplier' ? t.confirmDeleteSupplier : t.confirmDeletePurchaseOrder}: "${confirmDelete.name}"?`}
+                language={language}
+                danger={true}
+            />
+        </div>
+    );
+};
+
+export default PurchasingPanel;
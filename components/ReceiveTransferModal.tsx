@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { Transaction, TransferReceipt, ShortfallAction, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { PackageCheck, X, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface ReceiveTransferModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    transactions: Transaction[];
+    onConfirm: (receipts: { transaction: Transaction; receipt: TransferReceipt }[]) => void;
+    language: Language;
+}
+
+interface LineState {
+    received: string;
+    reason: string;
+    shortfallAction: ShortfallAction;
+}
+
+const ReceiveTransferModal: React.FC<ReceiveTransferModalProps> = ({ isOpen, onClose, transactions, onConfirm, language }) => {
+    const t = TRANSLATIONS[language];
+    const [lines, setLines] = useState<Record<string, LineState>>({});
+    const [error, setError] = useState('');
+
+    // Every line starts out as fully received
+    useEffect(() => {
+        if (isOpen) {
+            const initial: Record<string, LineState> = {};
+            transactions.forEach(tx => {
+                initial[tx.id] = { received: tx.quantity.toString(), reason: '', shortfallAction: 'return' };
+            });
+            setLines(initial);
+            setError('');
+        }
+    }, [isOpen, transactions]);
+
+    if (!isOpen || transactions.length === 0) return null;
+
+    const updateLine = (id: string, changes: Partial<LineState>) => {
+        setLines(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+        setError('');
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const receipts: { transaction: Transaction; receipt: TransferReceipt }[] = [];
+        for (const tx of transactions) {
+            const line = lines[tx.id];
+            const received = Number(line?.received);
+            if (!line || line.received === '' || isNaN(received) || received < 0 || received > tx.quantity) {
+                setError(`${language === 'ar' ? tx.itemNameAr : tx.itemNameEn}: ${t.invalidNumber} (Max: ${tx.quantity})`);
+                return;
+            }
+            if (received < tx.quantity && !line.reason.trim()) {
+                setError(`${language === 'ar' ? tx.itemNameAr : tx.itemNameEn}: ${t.shortfallReasonRequired}`);
+                return;
+            }
+            receipts.push({
+                transaction: tx,
+                receipt: {
+                    receivedQuantity: received,
+                    reason: received < tx.quantity ? line.reason.trim() : undefined,
+                    shortfallAction: line.shortfallAction
+                }
+            });
+        }
+
+        onConfirm(receipts);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-lg p-6 shadow-2xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-green-100 dark:bg-green-900/30 rounded-lg">
+                            <PackageCheck className="w-6 h-6 text-green-600 dark:text-green-500" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t.receiveTransfer}</h2>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">{t.receiveTransferDesc}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-3">
+                    {transactions.map(tx => {
+                        const line = lines[tx.id];
+                        if (!line) return null;
+                        const isShort = line.received !== '' && Number(line.received) < tx.quantity;
+                        return (
+                            <div key={tx.id} className={`p-3 rounded-xl border ${isShort ? 'border-amber-200 bg-amber-50/50 dark:border-amber-900/40 dark:bg-amber-900/10' : 'border-gray-100 bg-gray-50 dark:border-gray-700 dark:bg-gray-700/50'}`}>
+                                <div className="flex justify-between items-center gap-3">
+                                    <div className="min-w-0">
+                                        <p className="font-medium text-gray-900 dark:text-white truncate">{language === 'ar' ? tx.itemNameAr : tx.itemNameEn}</p>
+                                        <p className="text-xs text-gray-500">{t.sent}: {tx.quantity} {tx.unit}</p>
+                                    </div>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        <label className="text-xs text-gray-500">{t.received}</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            max={tx.quantity}
+                                            step="any"
+                                            value={line.received}
+                                            onChange={e => updateLine(tx.id, { received: e.target.value })}
+                                            className="w-20 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+                                        />
+                                    </div>
+                                </div>
+
+                                {isShort && (
+                                    <div className="mt-3 space-y-2">
+                                        <input
+                                            type="text"
+                                            value={line.reason}
+                                            onChange={e => updateLine(tx.id, { reason: e.target.value })}
+                                            placeholder={t.discrepancyReasonPlaceholder}
+                                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+                                        />
+                                        <div className="flex p-1 bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700">
+                                            {(['return', 'loss'] as ShortfallAction[]).map(action => (
+                                                <button
+                                                    key={action}
+                                                    type="button"
+                                                    onClick={() => updateLine(tx.id, { shortfallAction: action })}
+                                                    className={`flex-1 py-1.5 text-xs font-bold rounded-md transition-all ${line.shortfallAction === action ? 'bg-brand-600 text-white' : 'text-gray-500 hover:text-gray-700'}`}
+                                                >
+                                                    {action === 'return' ? t.returnShortfall : t.writeOffShortfall}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    {error && (
+                        <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm rounded-lg">
+                            <AlertCircle className="w-4 h-4 shrink-0" />
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex gap-3 pt-4">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 py-3 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl font-medium transition-colors"
+                        >
+                            {t.cancel}
+                        </button>
+                        <button
+                            type="submit"
+                            className="flex-1 py-3 bg-green-600 text-white rounded-xl font-bold hover:bg-green-700 transition-colors flex items-center justify-center gap-2"
+                        >
+                            <CheckCircle className="w-4 h-4" />
+                            {t.confirmReceipt}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default ReceiveTransferModal;
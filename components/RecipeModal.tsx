@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { Recipe, Product, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { RecipeDraft } from '../services/recipeService';
+import { ChefHat, Plus, X, Save, Trash2, AlertCircle } from 'lucide-react';
+
+interface RecipeModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSubmit: (draft: RecipeDraft) => void;
+    language: Language;
+    initialData?: Recipe | null;
+    recipes: Recipe[];
+    products: Product[];
+}
+
+interface IngredientForm {
+    productId: string;
+    quantity: string;
+}
+
+const RecipeModal: React.FC<RecipeModalProps> = ({ isOpen, onClose, onSubmit, language, initialData, recipes, products }) => {
+    const t = TRANSLATIONS[language];
+
+    const [nameEn, setNameEn] = useState('');
+    const [nameAr, setNameAr] = useState('');
+    const [yieldUnit, setYieldUnit] = useState('');
+    const [notes, setNotes] = useState('');
+    const [ingredients, setIngredients] = useState<IngredientForm[]>([]);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        if (initialData) {
+            setNameEn(initialData.nameEn);
+            setNameAr(initialData.nameAr === initialData.nameEn ? '' : initialData.nameAr);
+            setYieldUnit(initialData.yieldUnit);
+            setNotes(initialData.notes || '');
+            setIngredients(initialData.ingredients.map(i => ({ productId: i.productId, quantity: i.quantity.toString() })));
+        } else {
+            setNameEn('');
+            setNameAr('');
+            setYieldUnit('pcs');
+            setNotes('');
+            setIngredients([{ productId: '', quantity: '' }]);
+        }
+        setError('');
+    }, [isOpen, initialData]);
+
+    if (!isOpen) return null;
+
+    const updateIngredient = (index: number, changes: Partial<IngredientForm>) => {
+        setIngredients(prev => prev.map((l, i) => i === index ? { ...l, ...changes } : l));
+        setError('');
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const name = nameEn.trim();
+        if (recipes.some(r => r.id !== initialData?.id && r.nameEn.toLowerCase() === name.toLowerCase())) {
+            setError(t.recipeExists);
+            return;
+        }
+        const filled = ingredients.filter(l => l.productId);
+        if (filled.length === 0) {
+            setError(t.recipeNeedsIngredients);
+            return;
+        }
+        for (const line of filled) {
+            const qty = Number(line.quantity);
+            if (isNaN(qty) || qty <= 0) {
+                setError(t.qtyGreaterZero);
+                return;
+            }
+        }
+        const productIds = filled.map(l => l.productId);
+        if (new Set(productIds).size !== productIds.length) {
+            setError(t.duplicateIngredient);
+            return;
+        }
+
+        onSubmit({
+            nameEn: name,
+            nameAr: nameAr.trim() || undefined,
+            yieldUnit: yieldUnit.trim() || 'pcs',
+            notes: notes.trim() || undefined,
+            ingredients: filled.map(l => ({ productId: l.productId, quantity: Number(l.quantity) }))
+        });
+        onClose();
+    };
+
+    const isEditMode = !!initialData;
+    const inputClass = "w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none";
+    const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+    return (
+        <div className={`fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 ${language === 'ar' ? 'font-arabic' : ''}`}>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-2xl p-6 shadow-2xl overflow-y-auto max-h-[90vh]">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 dark:bg-brand-900/30 rounded-lg">
+                            <ChefHat className="w-6 h-6 text-brand-600 dark:text-brand-500" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                                {isEditMode ? t.editRecipe : t.newRecipe}
+                            </h2>
+                            <p className="text-xs text-gray-500">{t.recipeDesc}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClass}>{t.itemNameEn}</label>
+                            <input required type="text" value={nameEn} onChange={e => { setNameEn(e.target.value); setError(''); }} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>{t.itemNameAr}</label>
+                            <input type="text" dir="rtl" value={nameAr} onChange={e => setNameAr(e.target.value)} className={inputClass} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>{t.yieldUnit}</label>
+                        <input required type="text" value={yieldUnit} onChange={e => setYieldUnit(e.target.value)} placeholder="cups" className={inputClass} />
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>{t.ingredientsPerUnit}</label>
+                        <div className="space-y-2">
+                            {ingredients.map((line, index) => {
+                                const product = products.find(p => p.id === line.productId);
+                                return (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <select
+                                            value={line.productId}
+                                            onChange={e => updateIngredient(index, { productId: e.target.value })}
+                                            className={`${inputClass} flex-1 min-w-0`}
+                                        >
+                                            <option value="">{t.selectItem}</option>
+                                            {products.map(p => (
+                                                <option key={p.id} value={p.id}>{p.sku} • {language === 'ar' ? p.nameAr : p.nameEn}</option>
+                                            ))}
+                                        </select>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="any"
+                                            value={line.quantity}
+                                            onChange={e => updateIngredient(index, { quantity: e.target.value })}
+                                            placeholder={t.quantity}
+                                            className={`${inputClass} w-28`}
+                                        />
+                                        <span className="w-12 text-xs text-gray-500 truncate">{product?.unit}</span>
+                                        <button
+                                            type="button"
+                                            onClick={() => setIngredients(prev => prev.filter((_, i) => i !== index))}
+                                            className="p-2 text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => setIngredients(prev => [...prev, { productId: '', quantity: '' }])}
+                            className="mt-2 flex items-center gap-1 text-sm font-medium text-brand-600 hover:text-brand-700"
+                        >
+                            <Plus className="w-4 h-4" />
+                            {t.addIngredient}
+                        </button>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>{t.notes}</label>
+                        <textarea
+                            value={notes}
+                            onChange={e => setNotes(e.target.value)}
+                            placeholder={t.notesPlaceholder}
+                            className={`${inputClass} resize-none h-20 text-sm`}
+                        />
+                    </div>
+
+                    {error && (
+                        <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm rounded-lg animate-in fade-in slide-in-from-top-1">
+                            <AlertCircle className="w-4 h-4 shrink-0" />
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex gap-3 mt-6 pt-4 border-t border-gray-100 dark:border-gray-700">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg font-medium transition-colors"
+                        >
+                            {t.cancel}
+                        </button>
+                        <button
+                            type="submit"
+                            className="flex-1 px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+                        >
+                            {isEditMode ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                            {isEditMode ? t.saveChanges : t.newRecipe}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default RecipeModal;
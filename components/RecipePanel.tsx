@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Recipe, Product, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { RecipeDraft } from '../services/recipeService';
+import ConfirmationModal from './ConfirmationModal';
+import RecipeModal from './RecipeModal';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
+
+interface RecipePanelProps {
+    recipes: Recipe[];
+    products: Product[];
+    language: Language;
+    onSaveRecipe: (draft: RecipeDraft, recipeId?: string) => void;
+    onDeleteRecipe: (recipeId: string) => void;
+}
+
+const RecipePanel: React.FC<RecipePanelProps> = ({ recipes, products, language, onSaveRecipe, onDeleteRecipe }) => {
+    const t = TRANSLATIONS[language];
+    const [showRecipeModal, setShowRecipeModal] = useState(false);
+    const [recipeToEdit, setRecipeToEdit] = useState<Recipe | null>(null);
+    const [recipeToDelete, setRecipeToDelete] = useState<Recipe | null>(null);
+
+    const iconButton = "p-2 text-gray-400 hover:text-brand-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors";
+
+    return (
+        <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+                <div>
+                    <h2 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">{t.recipes}</h2>
+                    <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">{t.recipesSub}</p>
+                </div>
+                <button
+                    onClick={() => { setRecipeToEdit(null); setShowRecipeModal(true); }}
+                    disabled={products.length === 0}
+                    className="w-full sm:w-auto flex items-center justify-center gap-2 px-4 py-2.5 bg-brand-600 hover:bg-brand-700 text-white rounded-xl font-medium transition-colors shadow-lg disabled:opacity-50"
+                >
+                    <Plus className="w-5 h-5" />
+                    {t.newRecipe}
+                </button>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm mb-8 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left rtl:text-right text-xs sm:text-sm">
+                        <thead>
+                            <tr className="bg-gray-50/30 dark:bg-gray-900/30 border-b border-gray-100 dark:border-gray-700">
+                                <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase">{t.recipe}</th>
+                                <th className="hidden sm:table-cell px-6 py-4 font-bold text-gray-400 uppercase">{t.yieldUnit}</th>
+                                <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase">{t.ingredientsPerUnit}</th>
+                                <th className="px-4 sm:px-6 py-3 sm:py-4 font-bold text-gray-400 uppercase text-right rtl:text-left">{t.actions}</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                            {recipes.map(recipe => (
+                                <tr key={recipe.id} className="hover:bg-gray-50/50 dark:hover:bg-gray-700/50">
+                                    <td className="px-4 sm:px-6 py-3 sm:py-4 font-medium text-gray-900 dark:text-white">
+                                        {language === 'ar' ? recipe.nameAr : recipe.nameEn}
+                                        {recipe.notes && <div className="text-[10px] text-gray-400 font-normal mt-1">{recipe.notes}</div>}
+                                    </td>
+                                    <td className="hidden sm:table-cell px-6 py-4 text-gray-500">{recipe.yieldUnit}</td>
+                                    <td className="px-4 sm:px-6 py-3 sm:py-4 text-gray-600 dark:text-gray-300">
+                                        {recipe.ingredients.map(i => `${language === 'ar' ? i.itemNameAr : i.itemNameEn} ${i.quantity} ${i.unit}`).join(', ')}
+                                    </td>
+                                    <td className="px-4 sm:px-6 py-3 sm:py-4 text-right rtl:text-left">
+                                        <div className="flex items-center gap-1 justify-end">
+                                            <button onClick={() => { setRecipeToEdit(recipe); setShowRecipeModal(true); }} className={iconButton} title={t.edit}>
+                                                <Pencil className="w-4 h-4" />
+                                            </button>
+                                            <button onClick={() => setRecipeToDelete(recipe)} className="p-2 text-red-400 hover:bg-red-50 rounded-lg transition-colors" title={t.delete}>
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                            {recipes.length === 0 && (
+                                <tr><td colSpan={4} className="px-6 py-12 text-center text-gray-400 italic">{t.noRecipes}</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <RecipeModal
+                isOpen={showRecipeModal}
+                onClose={() => setShowRecipeModal(false)}
+                onSubmit={(draft) => onSaveRecipe(draft, recipeToEdit?.id)}
+                language={language}
+                initialData={recipeToEdit}
+                recipes={recipes}
+                products={products}
+            />
+
+            <ConfirmationModal
+                isOpen={!!recipeToDelete}
+                onClose={() => setRecipeToDelete(null)}
+                onConfirm={() => recipeToDelete && onDeleteRecipe(recipeToDelete.id)}
+                title={t.confirmDeleteTitle}
+                message={`${t.confirmDeleteRecipe}: "${recipeToDelete ? (language === 'ar' ? recipeToDelete.nameAr : recipeToDelete.nameEn) : ''}"?`}
+                language={language}
+                danger={true}
+            />
+        </div>
+    );
+};
+
+export default RecipePanel;
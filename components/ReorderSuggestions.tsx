@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { ReorderPlan, ReorderSuggestion, LocationId, LocationData, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { TrendingDown, ChevronDown, ArrowRightLeft, ShoppingCart } from 'lucide-react';
+
+interface ReorderSuggestionsProps {
+    plan: ReorderPlan;
+    locationId: LocationId;
+    availableLocations: LocationData[];
+    language: Language;
+    onCreateTransfer?: (targetLocationId: LocationId, suggestions: ReorderSuggestion[]) => void;
+}
+
+const ReorderSuggestions: React.FC<ReorderSuggestionsProps> = ({ plan, locationId, availableLocations, language, onCreateTransfer }) => {
+    const t = TRANSLATIONS[language];
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    // Branches only see what is proposed for them; the warehouse and the global view see the whole plan
+    const isPlanner = locationId === 'warehouse' || locationId === 'all';
+    const transfers = isPlanner ? plan.transfers : plan.transfers.filter(s => s.locationId === locationId);
+    const purchases = isPlanner ? plan.purchases : [];
+
+    const transfersByLocation: Record<string, ReorderSuggestion[]> = {};
+    transfers.forEach(s => {
+        if (!transfersByLocation[s.locationId]) transfersByLocation[s.locationId] = [];
+        transfersByLocation[s.locationId].push(s);
+    });
+
+    const total = transfers.length + purchases.length;
+    if (total === 0) return null;
+
+    const getLocationName = (id: string) => {
+        const loc = availableLocations.find(l => l.id === id);
+        if (!loc) return id;
+        return language === 'ar' ? (loc.nameAr || loc.name) : loc.name;
+    };
+
+    const formatNumber = (value: number) => Number.isInteger(value) ? value.toString() : value.toFixed(1);
+
+    const renderRow = (s: ReorderSuggestion) => (
+        <div key={`${s.locationId}-${s.productId}`} className="flex justify-between items-center gap-3 py-2 border-b border-gray-100 dark:border-gray-700 last:border-0">
+            <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{language === 'ar' ? s.itemNameAr : s.itemNameEn}</p>
+                <p className="text-xs text-gray-500">
+                    {s.quantity} {s.unit} • {t.daysOfCover}: {s.daysOfCover === null ? t.noRecentUsage : formatNumber(s.daysOfCover)}
+                    {s.avgDailyUsage > 0 && <> • {t.avgDailyUsage}: {formatNumber(s.avgDailyUsage)}</>}
+                    {s.inbound > 0 && <> • {t.onOrder}: {s.inbound}</>}
+                </p>
+            </div>
+            <span className="shrink-0 text-sm font-bold text-brand-600 dark:text-brand-400">+{s.suggestedQuantity} {s.unit}</span>
+        </div>
+    );
+
+    return (
+        <div className="mb-8 bg-white dark:bg-gray-800 rounded-xl border border-amber-100 dark:border-amber-900/30 shadow-sm">
+            <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex justify-between items-center p-4 sm:p-5 text-start">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 bg-amber-100 dark:bg-amber-900/30 rounded-lg">
+                        <TrendingDown className="w-5 h-5 text-amber-600 dark:text-amber-500" />
+                    </div>
+                    <div>
+                        <h2 className="text-base sm:text-lg font-bold text-gray-900 dark:text-white">{t.reorderSuggestions} <span className="text-sm text-gray-400">({total})</span></h2>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{t.reorderSuggestionsDesc}</p>
+                    </div>
+                </div>
+                <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+            </button>
+
+            {isExpanded && (
+                <div className="px-4 sm:px-5 pb-5 grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+                    {transfers.length > 0 && (
+                        <div className="space-y-3">
+                            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+                                <ArrowRightLeft className="w-4 h-4 text-blue-500" /> {t.suggestedTransfers}
+                            </h3>
+                            {Object.keys(transfersByLocation).map(targetId => (
+                                <div key={targetId} className="p-3 rounded-xl border border-gray-100 bg-gray-50 dark:border-gray-700 dark:bg-gray-700/50">
+                                    <div className="flex justify-between items-center mb-1">
+                                        <p className="text-xs text-gray-400">{t.to}: <span className="text-gray-900 dark:text-white font-bold">{getLocationName(targetId)}</span></p>
+                                        {isPlanner && onCreateTransfer && (
+                                            <button
+                                                onClick={() => onCreateTransfer(targetId, transfersByLocation[targetId])}
+                                                className="flex items-center gap-1 px-3 py-1.5 bg-brand-600 text-white rounded-lg text-xs font-bold hover:bg-brand-700 transition-colors"
+                                            >
+                                                <ArrowRightLeft className="w-3 h-3" /> {t.createTransfer}
+                                            </button>
+                                        )}
+                                    </div>
+                                    {transfersByLocation[targetId].map(renderRow)}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {purchases.length > 0 && (
+                        <div className="space-y-3">
+                            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+                                <ShoppingCart className="w-4 h-4 text-orange-500" /> {t.suggestedPurchases}
+                            </h3>
+                            <div className="p-3 rounded-xl border border-gray-100 bg-gray-50 dark:border-gray-700 dark:bg-gray-700/50">
+                                {purchases.map(renderRow)}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReorderSuggestions;
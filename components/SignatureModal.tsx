@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Language, TransferSignatureRole } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { PenLine, X, AlertCircle, CheckCircle, Eraser } from 'lucide-react';
+
+interface SignatureModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    role: TransferSignatureRole;
+    defaultSignerName: string;
+    onConfirm: (signerName: string, image: string) => Promise<void>; // The parent closes the pad once the signature is recorded
+    language: Language;
+}
+
+// The pad is drawn at up to twice its on-screen size so the PNG stays sharp on paper
+const MAX_PIXEL_RATIO = 2;
+
+const SignatureModal: React.FC<SignatureModalProps> = ({ isOpen, onClose, role, defaultSignerName, onConfirm, language }) => {
+    const t = TRANSLATIONS[language];
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPoint = useRef<{ x: number; y: number } | null>(null);
+    const [signerName, setSignerName] = useState('');
+    const [hasSignature, setHasSignature] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (isOpen) {
+            setSignerName(defaultSignerName);
+            setHasSignature(false);
+            setIsSaving(false);
+            setError('');
+        }
+    }, [isOpen, defaultSignerName]);
+
+    // Sizes the canvas to its box on every open, which also clears it
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!isOpen || !canvas) return;
+        const ratio = Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO);
+        const { width, height } = canvas.getBoundingClientRect();
+        canvas.width = Math.round(width * ratio);
+        canvas.height = Math.round(height * ratio);
+        const context = canvas.getContext('2d')!;
+        context.scale(ratio, ratio);
+        context.lineWidth = 2.5;
+        context.lineCap = 'round';
+        context.lineJoin = 'round';
+        context.strokeStyle = '#111827';
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const pointFrom = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = pointFrom(e);
+        lastPoint.current = point;
+        // A tap leaves a dot
+        const context = e.currentTarget.getContext('2d')!;
+        context.beginPath();
+        context.arc(point.x, point.y, context.lineWidth / 2, 0, Math.PI * 2);
+        context.fillStyle = context.strokeStyle;
+        context.fill();
+        setHasSignature(true);
+        setError('');
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!lastPoint.current) return;
+        const point = pointFrom(e);
+        const context = e.currentTarget.getContext('2d')!;
+        context.beginPath();
+        context.moveTo(lastPoint.current.x, lastPoint.current.y);
+        context.lineTo(point.x, point.y);
+        context.stroke();
+        lastPoint.current = point;
+    };
+
+    const handlePointerUp = () => {
+        lastPoint.current = null;
+    };
+
+    const handleClear = () => {
+        const canvas = canvasRef.current;
+        if (canvas) canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+        setHasSignature(false);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!signerName.trim()) {
+            setError(t.signerNameRequired);
+            return;
+        }
+        if (!hasSignature || !canvasRef.current) {
+            setError(t.signatureRequired);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await onConfirm(signerName.trim(), canvasRef.current.toDataURL('image/png'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-lg p-6 shadow-2xl max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 dark:bg-brand-900/30 rounded-lg">
+                            <PenLine className="w-6 h-6 text-brand-600 dark:text-brand-500" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                                {role === 'sender' ? t.senderSignature : t.receiverSignature}
+                            </h2>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                {role === 'sender' ? t.senderSignatureDesc : t.receiverSignatureDesc}
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t.signerName}</label>
+                        <input
+                            type="text"
+                            value={signerName}
+                            onChange={e => { setSignerName(e.target.value); setError(''); }}
+                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+                        />
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{t.signHere}</span>
+                            <button
+                                type="button"
+                                onClick={handleClear}
+                                className="flex items-center gap-1 text-xs font-bold text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 transition-colors"
+                            >
+                                <Eraser className="w-3 h-3" /> {t.clear}
+                            </button>
+                        </div>
+                        {/* Always white, so the ink reads the same on screen and on the printed transfer */}
+                        <canvas
+                            ref={canvasRef}
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onPointerCancel={handlePointerUp}
+                            className="w-full h-40 bg-white rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-600 touch-none cursor-crosshair"
+                        />
+                    </div>
+
+                    {error && (
+                        <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm rounded-lg">
+                            <AlertCircle className="w-4 h-4 shrink-0" />
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex gap-3 pt-2">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 py-3 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl font-medium transition-colors"
+                        >
+                            {t.cancel}
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isSaving}
+                            className="flex-1 py-3 bg-brand-600 text-white rounded-xl font-bold hover:bg-brand-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                            <CheckCircle className="w-4 h-4" />
+                            {t.confirm}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default SignatureModal;
@@ -0,0 +1,304 @@
+import React, { useState, useEffect } from 'react';
+import { StockTake, StockTakeStatus, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { getStockTakeVariance, getActualUsage } from '../services/stockTakeService';
+import { exportStockTakeVariancePDF } from '../services/exportService';
+import ConfirmationModal from './ConfirmationModal';
+import { ClipboardCheck, X, Search, Save, Send, CheckCircle, XCircle, Download, Play, Loader2 } from 'lucide-react';
+
+interface StockTakeModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    locationName: string;
+    stockTakes: StockTake[]; // This location's stock-takes, newest first
+    canApprove: boolean;
+    language: Language;
+    onStart: (notes?: string) => Promise<void>;
+    onSaveCounts: (stockTakeId: string, counts: { lineId: string, countedQuantity: number | null }[]) => Promise<void>;
+    onSubmit: (stockTakeId: string, counts: { lineId: string, countedQuantity: number | null }[]) => Promise<void>;
+    onApprove?: (stockTakeId: string) => Promise<void>; // Only used when canApprove
+    onCancel: (stockTakeId: string) => Promise<void>;
+}
+
+const STATUS_STYLES: Record<StockTakeStatus, string> = {
+    counting: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+    submitted: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+    approved: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+    cancelled: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+};
+
+const StockTakeModal: React.FC<StockTakeModalProps> = ({
+    isOpen,
+    onClose,
+    locationName,
+    stockTakes,
+    canApprove,
+    language,
+    onStart,
+    onSaveCounts,
+    onSubmit,
+    onApprove,
+    onCancel
+}) => {
+    const t = TRANSLATIONS[language];
+    const openStockTake = stockTakes.find(st => st.status === 'counting' || st.status === 'submitted');
+    const history = stockTakes.filter(st => st !== openStockTake);
+
+    const [counts, setCounts] = useState<Record<string, string>>({});
+    const [search, setSearch] = useState('');
+    const [notes, setNotes] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+    const [confirmAction, setConfirmAction] = useState<'approve' | 'cancel' | null>(null);
+
+    // Inputs start from what has been saved so far
+    useEffect(() => {
+        if (!isOpen) return;
+        const initial: Record<string, string> = {};
+        openStockTake?.lines.forEach(l => {
+            initial[l.id] = l.countedQuantity === undefined ? '' : l.countedQuantity.toString();
+        });
+        setCounts(initial);
+        setSearch('');
+        setNotes('');
+    }, [isOpen, openStockTake?.id]);
+
+    if (!isOpen) return null;
+
+    const statusLabels: Record<StockTakeStatus, string> = {
+        counting: t.stockTakeStatusCounting,
+        submitted: t.stockTakeStatusSubmitted,
+        approved: t.stockTakeStatusApproved,
+        cancelled: t.stockTakeStatusCancelled
+    };
+
+    const formatDate = (date: string) => new Date(date).toLocaleString(language === 'ar' ? 'ar-SA' : 'en-US');
+    const isCounting = openStockTake?.status === 'counting';
+
+    // Lines whose input differs from the saved count
+    const changedCounts = () => (openStockTake?.lines || [])
+        .filter(l => (counts[l.id] ?? '') !== (l.countedQuantity === undefined ? '' : l.countedQuantity.toString()))
+        .map(l => ({ lineId: l.id, countedQuantity: counts[l.id] === '' ? null : Number(counts[l.id]) }));
+
+    const run = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        try {
+            await action();
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const exportVarianceReport = (stockTake: StockTake) => {
+        exportStockTakeVariancePDF(stockTake, locationName, language).catch(error => {
+            console.error('Error exporting PDF:', error);
+            alert(t.pdfExportFailed);
+        });
+    };
+
+    const invalidCount = Object.values(counts).some(value => value !== '' && (isNaN(Number(value)) || Number(value) < 0));
+    const countedLines = openStockTake ? openStockTake.lines.filter(l => (counts[l.id] ?? '') !== '').length : 0;
+
+    const visibleLines = (openStockTake?.lines || []).filter(l => {
+        const name = language === 'ar' ? l.itemNameAr : l.itemNameEn;
+        return name.toLowerCase().includes(search.toLowerCase());
+    });
+
+    return (
+        <div className={`fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-0 sm:p-4 ${language === 'ar' ? 'font-arabic' : ''}`}>
+            <div className="bg-white dark:bg-gray-800 sm:rounded-2xl w-full max-w-2xl shadow-2xl flex flex-col h-full sm:h-auto sm:max-h-[90vh]">
+                <div className="p-4 sm:p-6 border-b border-gray-100 dark:border-gray-700 flex justify-between items-center">
+                    <div className="flex items-center gap-3 min-w-0">
+                        <div className="p-2 bg-brand-100 dark:bg-brand-900/30 rounded-lg">
+                            <ClipboardCheck className="w-6 h-6 text-brand-600 dark:text-brand-500" />
+                        </div>
+                        <div className="min-w-0">
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white truncate">{t.stockTake} - {locationName}</h2>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">{t.stockTakeDesc}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <div className="p-4 sm:p-6 overflow-y-auto flex-1 space-y-4">
+                    {openStockTake ? (
+                        <>
+                            <div className="flex flex-wrap justify-between items-center gap-2">
+                                <div>
+                                    <p className="font-mono font-bold text-gray-900 dark:text-white">{openStockTake.stockTakeNumber}</p>
+                                    <p className="text-xs text-gray-500">{t.countStarted}: {formatDate(openStockTake.startedAt)} • {openStockTake.startedBy}</p>
+                                    {openStockTake.submittedAt && (
+                                        <p className="text-xs text-gray-500">{t.countSubmitted}: {formatDate(openStockTake.submittedAt)} • {openStockTake.submittedBy}</p>
+                                    )}
+                                </div>
+                                <span className={`px-2.5 py-1 rounded-full text-xs font-bold ${STATUS_STYLES[openStockTake.status]}`}>
+                                    {statusLabels[openStockTake.status]} • {countedLines}/{openStockTake.lines.length}
+                                </span>
+                            </div>
+
+                            <div className="relative">
+                                <input
+                                    type="text"
+                                    placeholder={t.searchPlaceholder}
+                                    value={search}
+                                    onChange={e => setSearch(e.target.value)}
+                                    className="w-full pl-10 pr-4 rtl:pr-10 rtl:pl-4 py-2.5 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-brand-500 outline-none text-gray-900 dark:text-white text-sm"
+                                />
+                                <Search className="w-4 h-4 text-gray-400 absolute left-3 rtl:right-3 rtl:left-auto top-3" />
+                            </div>
+
+                            <div className="space-y-2">
+                                {visibleLines.map(line => {
+                                    const value = counts[line.id] ?? '';
+                                    const variance = value === '' || isNaN(Number(value)) ? undefined : getStockTakeVariance({ ...line, countedQuantity: Number(value) });
+                                    const actualUsage = variance === undefined ? undefined : getActualUsage({ ...line, countedQuantity: Number(value) });
+                                    return (
+                                        <div key={line.id} className="p-3 rounded-xl border border-gray-100 bg-gray-50 dark:border-gray-700 dark:bg-gray-700/50 flex justify-between items-center gap-3">
+                                            <div className="min-w-0">
+                                                <p className="font-medium text-gray-900 dark:text-white truncate">{language === 'ar' ? line.itemNameAr : line.itemNameEn}</p>
+                                                <p className="text-xs text-gray-500">
+                                                    {t.expected}: {line.expectedQuantity} {line.unit}
+                                                    {variance !== undefined && (
+                                                        <> • {t.variance}: <span className={`font-bold ${variance < 0 ? 'text-red-600' : variance > 0 ? 'text-green-600' : 'text-gray-500'}`}>{variance > 0 ? '+' : ''}{variance}</span></>
+                                                    )}
+                                                </p>
+                                                {line.productionUsage > 0 && (
+                                                    <p className="text-xs text-gray-500">
+                                                        {t.theoreticalUsage}: {line.productionUsage} {line.unit}
+                                                        {actualUsage !== undefined && <> • {t.actualUsage}: <span className="font-bold">{actualUsage} {line.unit}</span></>}
+                                                    </p>
+                                                )}
+                                            </div>
+                                            <input
+                                                type="number"
+                                                inputMode="decimal"
+                                                min="0"
+                                                step="any"
+                                                disabled={!isCounting}
+                                                value={value}
+                                                placeholder={t.counted}
+                                                onChange={e => setCounts(prev => ({ ...prev, [line.id]: e.target.value }))}
+                                                className="w-24 shrink-0 px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none text-sm disabled:opacity-60"
+                                            />
+                                        </div>
+                                    );
+                                })}
+                                {openStockTake.lines.length === 0 && <p className="text-sm text-gray-400 italic">{t.stockTakeEmpty}</p>}
+                            </div>
+                        </>
+                    ) : (
+                        <div className="space-y-3">
+                            <textarea
+                                value={notes}
+                                onChange={e => setNotes(e.target.value)}
+                                placeholder={t.notesPlaceholder}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none text-sm resize-none h-20"
+                            />
+                            <button
+                                onClick={() => run(() => onStart(notes.trim() || undefined))}
+                                disabled={isBusy}
+                                className="w-full py-3 bg-brand-600 text-white rounded-xl font-bold hover:bg-brand-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                            >
+                                {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                                {t.startStockTake}
+                            </button>
+                        </div>
+                    )}
+
+                    {history.length > 0 && (
+                        <div className="pt-4 border-t border-gray-100 dark:border-gray-700 space-y-2">
+                            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest">{t.previousStockTakes}</h3>
+                            {history.map(st => (
+                                <div key={st.id} className="flex justify-between items-center gap-3 py-2">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-mono font-bold text-gray-900 dark:text-white">{st.stockTakeNumber}</p>
+                                        <p className="text-xs text-gray-500">{formatDate(st.approvedAt || st.startedAt)}{st.approvedBy ? ` • ${st.approvedBy}` : ''}</p>
+                                    </div>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${STATUS_STYLES[st.status]}`}>{statusLabels[st.status]}</span>
+                                        <button onClick={() => exportVarianceReport(st)} className="p-2 text-gray-400 hover:text-brand-600 transition-colors" title={t.varianceReport}>
+                                            <Download className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {openStockTake && (
+                    <div className="p-4 sm:p-6 border-t border-gray-100 dark:border-gray-700 flex flex-wrap gap-2">
+                        {invalidCount && <p className="w-full text-sm text-red-600 dark:text-red-400">{t.invalidNumber}</p>}
+                        <button
+                            onClick={() => setConfirmAction('cancel')}
+                            disabled={isBusy}
+                            className="flex items-center justify-center gap-2 px-3 py-2.5 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-xl text-sm font-medium transition-colors disabled:opacity-50"
+                        >
+                            <XCircle className="w-4 h-4" />
+                            <span className="hidden sm:inline">{t.cancelStockTake}</span>
+                        </button>
+                        <button
+                            onClick={() => exportVarianceReport(openStockTake)}
+                            className="flex items-center justify-center gap-2 px-3 py-2.5 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl text-sm font-medium transition-colors"
+                        >
+                            <Download className="w-4 h-4" />
+                            <span className="hidden sm:inline">{t.varianceReport}</span>
+                        </button>
+                        <div className="flex-1" />
+                        {isCounting && (
+                            <>
+                                <button
+                                    onClick={() => run(() => onSaveCounts(openStockTake.id, changedCounts()))}
+                                    disabled={isBusy || invalidCount || changedCounts().length === 0}
+                                    className="flex items-center justify-center gap-2 px-4 py-2.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 rounded-xl text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                                >
+                                    <Save className="w-4 h-4" />
+                                    {t.saveCounts}
+                                </button>
+                                <button
+                                    onClick={() => run(() => onSubmit(openStockTake.id, changedCounts()))}
+                                    disabled={isBusy || invalidCount || countedLines === 0}
+                                    className="flex items-center justify-center gap-2 px-4 py-2.5 bg-brand-600 hover:bg-brand-700 text-white rounded-xl text-sm font-bold transition-colors disabled:opacity-50"
+                                >
+                                    {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                                    {t.submitCount}
+                                </button>
+                            </>
+                        )}
+                        {openStockTake.status === 'submitted' && (canApprove && onApprove ? (
+                            <button
+                                onClick={() => setConfirmAction('approve')}
+                                disabled={isBusy}
+                                className="flex items-center justify-center gap-2 px-4 py-2.5 bg-green-600 hover:bg-green-700 text-white rounded-xl text-sm font-bold transition-colors disabled:opacity-50"
+                            >
+                                {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                                {t.approveCount}
+                            </button>
+                        ) : (
+                            <p className="text-sm text-gray-500 self-center">{t.awaitingApproval}</p>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <ConfirmationModal
+                isOpen={confirmAction !== null}
+                onClose={() => setConfirmAction(null)}
+                onConfirm={() => {
+                    if (!openStockTake) return;
+                    const id = openStockTake.id;
+                    if (confirmAction === 'cancel') run(() => onCancel(id));
+                    else if (onApprove) run(() => onApprove(id));
+                }}
+                title={confirmAction === 'approve' ? t.approveCount : t.cancelStockTake}
+                message={confirmAction === 'approve' ? t.confirmApproveStockTake : t.confirmCancelStockTake}
+                confirmText={confirmAction === 'approve' ? t.approveCount : t.cancelStockTake}
+                language={language}
+                danger={confirmAction === 'cancel'}
+            />
+        </div>
+    );
+};
+
+export default StockTakeModal;
@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { Supplier, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { Truck, Plus, X, Save, AlertCircle } from 'lucide-react';
+
+interface SupplierModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSubmit: (supplier: Omit<Supplier, 'id'>) => void;
+    language: Language;
+    initialData?: Supplier | null;
+    suppliers: Supplier[];
+}
+
+const emptyForm = { name: '', contactName: '', phone: '', email: '', address: '', notes: '' };
+
+const SupplierModal: React.FC<SupplierModalProps> = ({ isOpen, onClose, onSubmit, language, initialData, suppliers }) => {
+    const t = TRANSLATIONS[language];
+
+    const [form, setForm] = useState(emptyForm);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (isOpen && initialData) {
+            setForm({
+                name: initialData.name,
+                contactName: initialData.contactName || '',
+                phone: initialData.phone || '',
+                email: initialData.email || '',
+                address: initialData.address || '',
+                notes: initialData.notes || ''
+            });
+        } else if (isOpen) {
+            setForm(emptyForm);
+        }
+        setError('');
+    }, [isOpen, initialData]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const isDuplicate = suppliers.some(s =>
+            s.id !== initialData?.id && s.name.toLowerCase() === form.name.trim().toLowerCase()
+        );
+        if (isDuplicate) {
+            setError(language === 'ar' ? 'هذا المورد موجود بالفعل' : 'This supplier already exists');
+            return;
+        }
+
+        onSubmit({
+            name: form.name.trim(),
+            contactName: form.contactName.trim() || undefined,
+            phone: form.phone.trim() || undefined,
+            email: form.email.trim() || undefined,
+            address: form.address.trim() || undefined,
+            notes: form.notes.trim() || undefined
+        });
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    const isEditMode = !!initialData;
+    const inputClass = "w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500 outline-none";
+    const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+    return (
+        <div className={`fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 ${language === 'ar' ? 'font-arabic' : ''}`}>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-md p-6 shadow-2xl overflow-y-auto max-h-[90vh]">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-brand-100 dark:bg-brand-900/30 rounded-lg">
+                            <Truck className="w-6 h-6 text-brand-600 dark:text-brand-500" />
+                        </div>
+                        <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                            {isEditMode ? t.editSupplier : t.addSupplier}
+                        </h2>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className={labelClass}>{t.supplierName}</label>
+                        <input
+                            required
+                            type="text"
+                            value={form.name}
+                            onChange={e => { setForm({...form, name: e.target.value}); setError(''); }}
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>{t.contactName}</label>
+                        <input
+                            type="text"
+                            value={form.contactName}
+                            onChange={e => setForm({...form, contactName: e.target.value})}
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClass}>{t.phone}</label>
+                            <input
+                                type="tel"
+                                value={form.phone}
+                                onChange={e => setForm({...form, phone: e.target.value})}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>{t.email}</label>
+                            <input
+                                type="email"
+                                value={form.email}
+                                onChange={e => setForm({...form, email: e.target.value})}
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>{t.address}</label>
+                        <input
+                            type="text"
+                            value={form.address}
+                            onChange={e => setForm({...form, address: e.target.value})}
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>{t.notes}</label>
+                        <textarea
+                            value={form.notes}
+                            onChange={e => setForm({...form, notes: e.target.value})}
+                            placeholder={t.notesPlaceholder}
+                            className={`${inputClass} resize-none h-20 text-sm`}
+                        />
+                    </div>
+
+                    {error && (
+                        <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm rounded-lg animate-in fade-in slide-in-from-top-1">
+                            <AlertCircle className="w-4 h-4 shrink-0" />
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex gap-3 mt-6 pt-4 border-t border-gray-100 dark:border-gray-700">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg font-medium transition-colors"
+                        >
+                            {t.cancel}
+                        </button>
+                        <button
+                            type="submit"
+                            className="flex-1 px-4 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+                        >
+                            {isEditMode ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                            {isEditMode ? t.saveChanges : t.addSupplier}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default SupplierModal;
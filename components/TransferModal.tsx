@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { InventoryItem, LocationId, Language, LocationData } from '../types';
 import { TRANSLATIONS } from '../constants';
-import { ArrowRightLeft, AlertCircle, Plus, Trash2, List, MapPin, Search, X } from 'lucide-react';
+import { findItemByCode } from '../services/scanService';
+import BarcodeScanner from './BarcodeScanner';
+import { ArrowRightLeft, AlertCircle, Plus, Trash2, List, MapPin, Search, X, ScanLine } from 'lucide-react';
 
 interface TransferItem {
     itemId: string;
@@ -22,7 +24,9 @@ interface TransferModalProps {
     initialData?: {
         targetLocationId: string | null;
         items: { itemId: string; quantity: number }[];
+        sourceLocationId?: LocationId;
     } | null;
+    onUnknownCode?: (code: string) => void;
 }
 
 const TransferModal: React.FC<TransferModalProps> = ({ 
@@ -33,7 +37,8 @@ const TransferModal: React.FC<TransferModalProps> = ({
     onTransfer, 
     language,
     availableLocations,
-    initialData
+    initialData,
+    onUnknownCode
 }) => {
     const t = TRANSLATIONS[language];
     const isGlobal = currentLocation === 'all';
@@ -46,6 +51,7 @@ const TransferModal: React.FC<TransferModalProps> = ({
     const [bulkQuantity, setBulkQuantity] = useState('');
     const [error, setError] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isScannerOpen, setIsScannerOpen] = useState(false);
 
     const sources = availableLocations;
     const destinations = availableLocations.filter(l => l.id !== sourceLocation);
@@ -56,6 +62,7 @@ const TransferModal: React.FC<TransferModalProps> = ({
             if (!isGlobal) setSourceLocation(currentLocation);
             
             if (initialData) {
+                if (isGlobal && initialData.sourceLocationId) setSourceLocation(initialData.sourceLocationId);
                 setTargetLocation(initialData.targetLocationId || '');
                 const list: TransferItem[] = initialData.items.map(di => {
                     const item = items.find(i => i.id === di.itemId);
@@ -105,6 +112,32 @@ const TransferModal: React.FC<TransferModalProps> = ({
         setQuantity('');
     };
 
+    // A scanned item goes on the list with the quantity entered, or one more unit when none is
+    const handleScan = (code: string) => {
+        setError('');
+        const item = findItemByCode(availableItemsForSource, code);
+        if (!item) {
+            if (onUnknownCode) {
+                onClose();
+                onUnknownCode(code);
+            } else {
+                setError(`${t.unknownCode}: ${code}`);
+            }
+            return;
+        }
+        const qty = Number(quantity) > 0 ? Number(quantity) : 1;
+        const listed = transferList.find(i => i.itemId === item.id)?.quantity || 0;
+        if (listed + qty > item.quantity) {
+            setError(`${t.insufficientStock} (${language === 'ar' ? item.nameAr : item.nameEn}: Max ${item.quantity})`);
+            return;
+        }
+        setTransferList(prev => listed > 0
+            ? prev.map(i => i.itemId === item.id ? { ...i, quantity: i.quantity + qty } : i)
+            : [...prev, { itemId: item.id, itemNameEn: item.nameEn, itemNameAr: item.nameAr, quantity: qty, unit: item.unit }]);
+        setSelectedItemId('');
+        setQuantity('');
+    };
+
     const handleSetAllToMax = () => {
         setTransferList(prev => prev.map(item => {
             const sourceItem = items.find(i => i.id === item.itemId);
@@ -190,10 +223,15 @@ const TransferModal: React.FC<TransferModalProps> = ({
                         <div className="p-4 bg-brand-50 dark:bg-brand-900/10 rounded-2xl border border-brand-100 dark:border-brand-900/30">
                             <div className="space-y-3">
                                 <label className="block text-xs font-bold text-brand-700 dark:text-brand-300 uppercase">{t.selectItem}</label>
-                                <select value={selectedItemId} onChange={(e) => { setSelectedItemId(e.target.value); setError(''); }} className="w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm outline-none focus:ring-2 focus:ring-brand-500">
-                                    <option value="">{t.selectItem}...</option>
-                                    {availableItemsForSource.map(item => <option key={item.id} value={item.id}>{(language === 'ar' ? item.nameAr : item.nameEn)} ({item.quantity} {item.unit})</option>)}
-                                </select>
+                                <div className="flex gap-2">
+                                    <select value={selectedItemId} onChange={(e) => { setSelectedItemId(e.target.value); setError(''); }} className="flex-1 min-w-0 px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm outline-none focus:ring-2 focus:ring-brand-500">
+                                        <option value="">{t.selectItem}...</option>
+                                        {availableItemsForSource.map(item => <option key={item.id} value={item.id}>{(language === 'ar' ? item.nameAr : item.nameEn)} ({item.quantity} {item.unit})</option>)}
+                                    </select>
+                                    <button type="button" onClick={() => setIsScannerOpen(true)} className="px-3 py-2 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-700 text-brand-600 rounded-xl shadow-sm" title={t.scanBarcode}>
+                                        <ScanLine className="w-4 h-4" />
+                                    </button>
+                                </div>
                                 <div className="flex gap-2">
                                     <input type="number" value={quantity} onChange={(e) => { setQuantity(e.target.value); setError(''); }} className="flex-1 px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm outline-none focus:ring-2 focus:ring-brand-500" placeholder={t.quantity} />
                                     <button type="button" onClick={handleAddItem} className="px-4 py-2 bg-brand-600 text-white rounded-xl text-sm font-bold shadow-sm active:scale-95 transition-transform">{t.addToTransfer}</button>
@@ -292,6 +330,13 @@ const TransferModal: React.FC<TransferModalProps> = ({
                     </button>
                 </div>
             </div>
+
+            <BarcodeScanner
+                isOpen={isScannerOpen}
+                onClose={() => setIsScannerOpen(false)}
+                onDetected={handleScan}
+                language={language}
+            />
         </div>
     );
 };
@@ -1,17 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { InventoryItem, Language } from '../types';
 import { TRANSLATIONS } from '../constants';
-import { ArrowDownCircle, X } from 'lucide-react';
+import { findItemByCode } from '../services/scanService';
+import BarcodeScanner from './BarcodeScanner';
+import { ArrowDownCircle, ScanLine, X } from 'lucide-react';
 
 interface UsageModalProps {
     isOpen: boolean;
     onClose: () => void;
     item: InventoryItem | null;
-    onConfirm: (quantity: number, notes: string) => void;
+    items: InventoryItem[]; // Stock at the location, for switching item by scanning its code
+    onConfirm: (itemId: string, quantity: number, notes: string) => void;
+    onUnknownCode?: (code: string) => void;
     language: Language;
 }
 
-const UsageModal: React.FC<UsageModalProps> = ({ isOpen, onClose, item, onConfirm, language }) => {
+const UsageModal: React.FC<UsageModalProps> = ({ isOpen, onClose, item: openedItem, items, onConfirm, onUnknownCode, language }) => {
+    const [item, setItem] = useState<InventoryItem | null>(openedItem);
+    const [isScannerOpen, setIsScannerOpen] = useState(false);
     const [quantity, setQuantity] = useState('');
     const [notes, setNotes] = useState('');
     const [error, setError] = useState('');
@@ -20,14 +26,28 @@ const UsageModal: React.FC<UsageModalProps> = ({ isOpen, onClose, item, onConfir
 
     useEffect(() => {
         if (isOpen) {
+            setItem(openedItem);
             setQuantity('');
             setNotes('');
             setError('');
         }
-    }, [isOpen]);
+    }, [isOpen, openedItem]);
 
     if (!isOpen || !item) return null;
 
+    const handleScan = (code: string) => {
+        const scanned = findItemByCode(items, code);
+        if (scanned) {
+            setItem(scanned);
+            setError('');
+        } else if (onUnknownCode) {
+            onClose();
+            onUnknownCode(code);
+        } else {
+            setError(`${t.unknownCode}: ${code}`);
+        }
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         const qty = Number(quantity);
@@ -42,7 +62,7 @@ const UsageModal: React.FC<UsageModalProps> = ({ isOpen, onClose, item, onConfir
             return;
         }
 
-        onConfirm(qty, notes);
+        onConfirm(item.id, qty, notes);
         onClose();
     };
 
@@ -61,9 +81,14 @@ const UsageModal: React.FC<UsageModalProps> = ({ isOpen, onClose, item, onConfir
                             <p className="text-sm text-gray-500 dark:text-gray-400">{language === 'ar' ? item.nameAr : item.nameEn}</p>
                         </div>
                     </div>
-                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
-                        <X className="w-5 h-5 text-gray-500" />
-                    </button>
+                    <div className="flex items-center gap-1">
+                        <button onClick={() => setIsScannerOpen(true)} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors" title={t.scanBarcode}>
+                            <ScanLine className="w-5 h-5 text-gray-500" />
+                        </button>
+                        <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                            <X className="w-5 h-5 text-gray-500" />
+                        </button>
+                    </div>
                 </div>
 
                 <form onSubmit={handleSubmit} className="space-y-4">
@@ -118,6 +143,13 @@ const UsageModal: React.FC<UsageModalProps> = ({ isOpen, onClose, item, onConfir
                     </div>
                 </form>
             </div>
+
+            <BarcodeScanner
+                isOpen={isScannerOpen}
+                onClose={() => setIsScannerOpen(false)}
+                onDetected={handleScan}
+                language={language}
+            />
         </div>
     );
 };
@@ -0,0 +1,166 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+type Layout = 'grid' | 'compact' | 'list';
+
+interface VirtualGridProps<T> {
+    items: T[];
+    layout: Layout;
+    getKey: (item: T) => string;
+    renderItem: (item: T) => React.ReactNode;
+}
+
+// Columns per breakpoint, matching the Tailwind classes of each layout (sm 640, md 768, lg 1024, xl 1280)
+const COLUMNS: Record<Layout, { minWidth: number, columns: number }[]> = {
+    grid: [{ minWidth: 1280, columns: 3 }, { minWidth: 768, columns: 2 }],
+    compact: [{ minWidth: 1024, columns: 5 }, { minWidth: 768, columns: 4 }, { minWidth: 640, columns: 3 }, { minWidth: 0, columns: 2 }],
+    list: []
+};
+
+const GAP_PX: Record<Layout, number> = { grid: 16, compact: 12, list: 12 };
+
+// Below this many items every card is rendered, as before
+const VIRTUALIZE_FROM = 60;
+
+// Rows kept rendered above and below the viewport so fast scrolling does not show blanks
+const OVERSCAN_ROWS = 4;
+
+// Height assumed for rows before any has been measured
+const ESTIMATED_ROW_HEIGHT: Record<Layout, number> = { grid: 220, compact: 160, list: 96 };
+
+const columnsFor = (layout: Layout) =>
+    COLUMNS[layout].find(c => window.innerWidth >= c.minWidth)?.columns || 1;
+
+// Records the heights of rendered rows under their data-row keys; true when any of them changed
+const measureRows = (heights: Map<string, number>, rows: HTMLElement[]) => {
+    let changed = false;
+    rows.forEach(row => {
+        const key = row.dataset.row;
+        const height = row.offsetHeight;
+        if (!key || !height || Math.abs((heights.get(key) ?? 0) - height) <= 1) return;
+        heights.set(key, height);
+        changed = true;
+    });
+    return changed;
+};
+
+// The row at the given distance from the top of the grid, given the top of each row
+const rowAt = (offsets: number[], y: number) => {
+    let low = 0;
+    let high = offsets.length - 1;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (offsets[middle] <= y) low = middle;
+        else high = middle - 1;
+    }
+    return low;
+};
+
+// Renders a long item list in rows, keeping only the rows near the viewport in the DOM. The page
+// itself scrolls, and the rows off screen are replaced by spacers. Cards differ in height (long
+// names, descriptions, expiry badges), so every row is measured as it renders; rows not rendered
+// yet are taken to be as tall as the average of those measured.
+function VirtualGrid<T>({ items, layout, getKey, renderItem }: VirtualGridProps<T>) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    // Heights of rows once rendered, keyed by the layout and the items in the row
+    const heightsRef = useRef(new Map<string, number>());
+    const observerRef = useRef<ResizeObserver>();
+    const [columns, setColumns] = useState(() => columnsFor(layout));
+    const [measured, setMeasured] = useState(0); // Bumped whenever a row's height changes
+    const [range, setRange] = useState({ start: 0, end: 20 });
+
+    const gap = GAP_PX[layout];
+    const rowCount = Math.ceil(items.length / columns);
+    const virtualize = items.length >= VIRTUALIZE_FROM;
+
+    const rowKeys = Array.from({ length: virtualize ? rowCount : 0 }, (_, row) =>
+        `${layout}:${items.slice(row * columns, (row + 1) * columns).map(getKey).join('|')}`);
+    const heights = heightsRef.current;
+    const known = rowKeys.flatMap(key => heights.get(key) ?? []);
+    const estimate = known.length ? known.reduce((sum, height) => sum + height, 0) / known.length : ESTIMATED_ROW_HEIGHT[layout];
+    // Where each row starts, counting each row above it and the gap after it; the last entry is the
+    // height of the whole grid plus one gap
+    const offsets = [0];
+    rowKeys.forEach((key, row) => offsets.push(offsets[row] + (heights.get(key) ?? estimate) + gap));
+    const offsetsRef = useRef(offsets);
+    offsetsRef.current = offsets;
+
+    useEffect(() => {
+        if (!virtualize) return;
+
+        const update = () => {
+            const nextColumns = columnsFor(layout);
+            setColumns(nextColumns);
+            const container = containerRef.current;
+            if (!container) return;
+            const top = container.getBoundingClientRect().top;
+            const start = Math.max(0, rowAt(offsetsRef.current, -top) - OVERSCAN_ROWS);
+            const end = rowAt(offsetsRef.current, window.innerHeight - top) + 1 + OVERSCAN_ROWS;
+            setRange(prev => prev.start === start && prev.end === end ? prev : { start, end });
+        };
+
+        update();
+        window.addEventListener('scroll', update, { passive: true });
+        window.addEventListener('resize', update);
+        return () => {
+            window.removeEventListener('scroll', update);
+            window.removeEventListener('resize', update);
+        };
+    }, [virtualize, layout, gap, measured, rowCount]);
+
+    // Measure the rows just rendered before they are painted, then watch them: a card also changes
+    // height after rendering, as fonts and images load or the width changes within a breakpoint
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const rendered: HTMLElement[] = Array.from(container.querySelectorAll<HTMLElement>(':scope > [data-row]'));
+        if (measureRows(heightsRef.current, rendered)) setMeasured(m => m + 1);
+
+        if (typeof ResizeObserver === 'undefined') return;
+        observerRef.current ??= new ResizeObserver(entries => {
+            if (measureRows(heightsRef.current, entries.map(entry => entry.target as HTMLElement))) setMeasured(m => m + 1);
+        });
+        observerRef.current.disconnect();
+        rendered.forEach(row => observerRef.current!.observe(row));
+    });
+
+    useEffect(() => () => observerRef.current?.disconnect(), []);
+
+    const className =
+        layout === 'list' ? 'flex flex-col gap-3' :
+        layout === 'compact' ? 'grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3' :
+        'grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4';
+
+    if (!virtualize) {
+        return (
+            <div className={className}>
+                {items.map(item => <React.Fragment key={getKey(item)}>{renderItem(item)}</React.Fragment>)}
+            </div>
+        );
+    }
+
+    const start = Math.min(range.start, rowCount);
+    const end = Math.min(Math.max(range.end, start), rowCount);
+    const rows: T[][] = [];
+    for (let row = start; row < end; row++) {
+        rows.push(items.slice(row * columns, (row + 1) * columns));
+    }
+
+    return (
+        <div ref={containerRef} className="flex flex-col" style={{ gap }}>
+            {start > 0 && <div style={{ height: offsets[start] - gap }} />}
+            {rows.map((row, index) => (
+                <div
+                    key={start + index}
+                    data-row={rowKeys[start + index]}
+                    className="grid"
+                    style={{ gap, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+                >
+                    {row.map(item => <React.Fragment key={getKey(item)}>{renderItem(item)}</React.Fragment>)}
+                </div>
+            ))}
+            {end < rowCount && <div style={{ height: offsets[rowCount] - offsets[end] - gap }} />}
+        </div>
+    );
+}
+
+export default VirtualGrid;
@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { Language, WasteReasonCode, WriteOffTarget } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { WASTE_REASON_CODES, getDaysUntilExpiry } from '../services/expiryService';
+import { PackageX, X, Loader2 } from 'lucide-react';
+
+interface WasteWriteOffModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    target: WriteOffTarget | null;
+    onConfirm: (quantity: number, reasonCode: WasteReasonCode, notes: string) => Promise<void>;
+    language: Language;
+}
+
+const WasteWriteOffModal: React.FC<WasteWriteOffModalProps> = ({ isOpen, onClose, target, onConfirm, language }) => {
+    const [quantity, setQuantity] = useState('');
+    const [reasonCode, setReasonCode] = useState<WasteReasonCode>('expired');
+    const [notes, setNotes] = useState('');
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const t = TRANSLATIONS[language];
+
+    // Expired stock defaults to writing off all of it as expired
+    useEffect(() => {
+        if (isOpen && target) {
+            const isExpired = !!target.expirationDate && getDaysUntilExpiry(target.expirationDate) < 0;
+            setQuantity(isExpired ? String(target.quantity) : '');
+            setReasonCode(isExpired ? 'expired' : 'damaged');
+            setNotes('');
+            setError('');
+            setIsSaving(false);
+        }
+    }, [isOpen, target]);
+
+    if (!isOpen || !target) return null;
+
+    const reasonLabels: Record<WasteReasonCode, string> = {
+        expired: t.reasonExpired,
+        damaged: t.reasonDamaged,
+        spoiled: t.reasonSpoiled,
+        other: t.reasonOther
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const qty = Number(quantity);
+
+        if (qty <= 0) {
+            setError(t.quantity + ' must be greater than 0');
+            return;
+        }
+        if (qty > target.quantity) {
+            setError(`${t.insufficientStock} (Max: ${target.quantity})`);
+            return;
+        }
+        if (reasonCode === 'other' && !notes.trim()) {
+            setError(t.writeOffNotesRequired);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await onConfirm(qty, reasonCode, notes);
+            onClose();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl w-full max-w-md p-6 shadow-2xl">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-red-100 dark:bg-red-900/30 rounded-lg">
+                            <PackageX className="w-6 h-6 text-red-600 dark:text-red-500" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-gray-900 dark:text-white font-arabic">
+                                {t.writeOff}
+                            </h2>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                                {language === 'ar' ? target.itemNameAr : target.itemNameEn}
+                                {target.lotId && <> • {target.lotNumber || t.unlabelledLot}</>}
+                                {target.expirationDate && <> • {t.expiryDate}: {target.expirationDate}</>}
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t.quantity}</label>
+                        <div className="flex items-center gap-2">
+                            <input
+                                required
+                                type="number"
+                                min="0"
+                                step="any"
+                                max={target.quantity}
+                                value={quantity}
+                                onChange={e => {
+                                    setQuantity(e.target.value);
+                                    setError('');
+                                }}
+                                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 outline-none"
+                            />
+                            <span className="text-gray-500 dark:text-gray-400 font-medium">{target.unit}</span>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">Available: {target.quantity} {target.unit}</p>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t.writeOffReason}</label>
+                        <select
+                            value={reasonCode}
+                            onChange={e => {
+                                setReasonCode(e.target.value as WasteReasonCode);
+                                setError('');
+                            }}
+                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 outline-none"
+                        >
+                            {WASTE_REASON_CODES.map(code => (
+                                <option key={code} value={code}>{reasonLabels[code]}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t.notes}</label>
+                        <textarea
+                            value={notes}
+                            onChange={e => {
+                                setNotes(e.target.value);
+                                setError('');
+                            }}
+                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 outline-none resize-none h-20"
+                            placeholder={t.notesPlaceholder}
+                        />
+                    </div>
+
+                    {error && (
+                        <div className="text-red-500 text-sm">{error}</div>
+                    )}
+
+                    <div className="flex gap-3 mt-6 pt-4 border-t border-gray-100 dark:border-gray-700">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg font-medium transition-colors"
+                        >
+                            {t.cancel}
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isSaving}
+                            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                        >
+                            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                            {t.writeOff}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default WasteWriteOffModal;
@@ -1,4 +1,4 @@
-import { InventoryItem, LocationData, User } from './types';
+import { InventoryItem, LabelLayout, LocationData, User } from './types';
 
 export const LOCATIONS: LocationData[] = [
   {
@@ -39,9 +39,19 @@ export const INITIAL_INVENTORY: Record<string, InventoryItem[]> = {
 };
 
 export const INITIAL_USERS: User[] = [
-  { id: '1', username: 'admin', password: '123', name: 'System Administrator', role: 'admin' },
-  { id: '2', username: 'warehouse', password: '123', name: 'Main Supervisor', role: 'warehouse_manager' },
-  { id: '3', username: 'employee', password: '123', name: 'Mammal Staff', role: 'mammal_employee' },
+  { id: '1', username: 'admin', name: 'System Administrator', role: 'admin' },
+  { id: '2', username: 'warehouse', name: 'Main Supervisor', role: 'warehouse_manager' },
+  { id: '3', username: 'employee', name: 'Mammal Staff', role: 'mammal_employee' },
+];
+
+// Common label papers; the first is the default
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  { id: 'l7160', name: 'A4 · 21 labels (63.5 × 38.1 mm, Avery L7160)', pageFormat: 'a4', columns: 3, rows: 7, labelWidth: 63.5, labelHeight: 38.1, marginTop: 15.15, marginLeft: 7.25, gapX: 2.5, gapY: 0 },
+  { id: 'l7159', name: 'A4 · 24 labels (63.5 × 33.9 mm, Avery L7159)', pageFormat: 'a4', columns: 3, rows: 8, labelWidth: 63.5, labelHeight: 33.9, marginTop: 12.9, marginLeft: 7.25, gapX: 2.5, gapY: 0 },
+  { id: 'l7163', name: 'A4 · 14 labels (99.1 × 38.1 mm, Avery L7163)', pageFormat: 'a4', columns: 2, rows: 7, labelWidth: 99.1, labelHeight: 38.1, marginTop: 15.15, marginLeft: 4.65, gapX: 2.5, gapY: 0 },
+  { id: 'l7165', name: 'A4 · 8 labels (99.1 × 67.7 mm, Avery L7165)', pageFormat: 'a4', columns: 2, rows: 4, labelWidth: 99.1, labelHeight: 67.7, marginTop: 13.1, marginLeft: 4.65, gapX: 2.5, gapY: 0 },
+  { id: 'l7651', name: 'A4 · 65 labels (38.1 × 21.2 mm, Avery L7651)', pageFormat: 'a4', columns: 5, rows: 13, labelWidth: 38.1, labelHeight: 21.2, marginTop: 10.7, marginLeft: 4.65, gapX: 2.5, gapY: 0 },
+  { id: '5160', name: 'Letter · 30 labels (66.7 × 25.4 mm, Avery 5160)', pageFormat: 'letter', columns: 3, rows: 10, labelWidth: 66.7, labelHeight: 25.4, marginTop: 12.7, marginLeft: 4.8, gapX: 3.2, gapY: 0 }
 ];
 
 export const TRANSLATIONS = {
@@ -54,6 +64,7 @@ export const TRANSLATIONS = {
     passwordPlaceholder: "Enter password",
     login: "Sign In",
     invalidCredentials: "Invalid username or password",
+    loginUnavailable: "Unable to reach the server. Please try again.",
     copyright: "© 2024 Dawar Saada. All rights reserved.",
     selectLocation: "Select Location",
     selectLocationSub: "Select a location to manage inventory",
@@ -254,7 +265,248 @@ export const TRANSLATIONS = {
     available: "available",
     setAllToMax: "Set All to Max Stock",
     setAllToQty: "Set All to Quantity",
-    applyToAll: "Apply to All"
+    applyToAll: "Apply to All",
+    catalog: "Product Catalog",
+    catalogSub: "Products shared by every location's stock",
+    catalogProduct: "Catalog Product",
+    newProduct: "New product",
+    addProduct: "Add Product",
+    editProduct: "Edit Product",
+    sku: "SKU",
+    barcode: "Barcode",
+    stockedAt: "Stocked At",
+    noProducts: "No products in the catalog yet.",
+    catalogFieldsLocked: "Name, category, unit and barcode come from the product catalog.",
+    catalogEditWarning: "Changes to these details apply at every location.",
+    productInCatalog: "This product is already in the catalog. Select it from the list above.",
+    confirmDeleteProduct: "Are you sure you want to remove from the catalog",
+    receiveTransfer: "Receive Transfer",
+    receiveTransferDesc: "Enter the quantity that actually arrived for each item.",
+    sent: "Sent",
+    received: "Received",
+    confirmReceipt: "Confirm Receipt",
+    discrepancyReasonPlaceholder: "Reason for the difference (e.g., damaged, missing)",
+    shortfallReasonRequired: "Enter a reason for the missing quantity",
+    returnShortfall: "Return to sender",
+    writeOffShortfall: "Write off as loss",
+    shortfallReturned: "returned to sender",
+    shortfallLost: "written off",
+    loss: "Loss",
+    purchasing: "Purchasing",
+    purchasingSub: "Suppliers, purchase orders and goods received at the warehouse",
+    suppliers: "Suppliers",
+    supplier: "Supplier",
+    addSupplier: "Add Supplier",
+    editSupplier: "Edit Supplier",
+    supplierName: "Supplier Name",
+    contactName: "Contact Person",
+    phone: "Phone",
+    email: "Email",
+    address: "Address",
+    noSuppliers: "No suppliers yet",
+    purchaseOrders: "Purchase Orders",
+    purchaseOrder: "Purchase Order",
+    newPurchaseOrder: "New Purchase Order",
+    editPurchaseOrder: "Edit Purchase Order",
+    poNumber: "PO Number",
+    orderDate: "Order Date",
+    expectedDate: "Expected Date",
+    ordered: "Ordered",
+    outstanding: "Outstanding",
+    addLine: "Add Line",
+    noPurchaseOrders: "No purchase orders yet",
+    poStatusDraft: "Draft",
+    poStatusOrdered: "Ordered",
+    poStatusPartiallyReceived: "Partially Received",
+    poStatusReceived: "Received",
+    poStatusCancelled: "Cancelled",
+    placeOrder: "Place Order",
+    cancelOrder: "Cancel Order",
+    receiveGoods: "Receive Goods",
+    receiveGoodsDesc: "Record what arrived from the supplier. Stock is added to the warehouse.",
+    goodsReceived: "Goods Received",
+    deliveryNotesPlaceholder: "Delivery note number, condition, etc.",
+    purchaseOrderNeedsLines: "Add at least one product",
+    receiveQuantityRequired: "Enter a received quantity for at least one line",
+    confirmDeleteSupplier: "Are you sure you want to delete this supplier",
+    confirmDeletePurchaseOrder: "Are you sure you want to delete this purchase order",
+    reorderSuggestions: "Reorder Suggestions",
+    reorderSuggestionsDesc: "Based on the last 30 days of usage",
+    daysOfCover: "Days of cover",
+    avgDailyUsage: "Avg/day",
+    suggestedTransfers: "Suggested Transfers",
+    suggestedPurchases: "Suggested Purchases",
+    createTransfer: "Create Transfer",
+    onOrder: "On order",
+    noRecentUsage: "No recent usage",
+    stockTake: "Stock-take",
+    stockTakeDesc: "Count what is on the shelf; approved differences adjust stock",
+    startStockTake: "Start Stock-take",
+    previousStockTakes: "Previous Stock-takes",
+    stockTakeEmpty: "This location has no stock to count.",
+    expected: "Expected",
+    counted: "Counted",
+    notCounted: "Not counted",
+    variance: "Variance",
+    varianceReport: "Variance Report",
+    adjustment: "Adjustment",
+    countStarted: "Started",
+    countSubmitted: "Counted by",
+    countApproved: "Approved by",
+    saveCounts: "Save Counts",
+    submitCount: "Submit for Approval",
+    approveCount: "Approve & Adjust Stock",
+    awaitingApproval: "Waiting for a manager to approve",
+    cancelStockTake: "Cancel Stock-take",
+    confirmApproveStockTake: "Stock will be adjusted by every counted difference. This cannot be undone.",
+    confirmCancelStockTake: "The counts entered so far will be discarded and stock stays as it is.",
+    stockTakeStatusCounting: "Counting",
+    stockTakeStatusSubmitted: "Awaiting approval",
+    stockTakeStatusApproved: "Approved",
+    stockTakeStatusCancelled: "Cancelled",
+    auditLog: "Audit Log",
+    auditLogSub: "Every direct change to stock, products, locations and users",
+    auditTableLocations: "Locations",
+    auditAction: "Action",
+    auditRecord: "Record",
+    auditInsert: "Created",
+    auditUpdate: "Edited",
+    auditDelete: "Deleted",
+    allUsers: "All users",
+    allTables: "All tables",
+    fromDate: "From",
+    toDate: "To",
+    changedFields: "Changed fields",
+    passwordChanged: "Password changed",
+    noAuditEntries: "No audit entries match these filters",
+    refresh: "Refresh",
+    manualEdit: "Manual edit",
+    lots: "Lots",
+    lotNumber: "Lot number",
+    unlabelledLot: "No lot number",
+    expiryDate: "Expiry",
+    receivedOn: "Received",
+    waste: "Waste",
+    writeOff: "Write Off",
+    writeOffs: "Write-offs",
+    writeOffReason: "Reason",
+    writeOffNotesRequired: "Describe why the stock is written off",
+    reasonExpired: "Expired",
+    reasonDamaged: "Damaged",
+    reasonSpoiled: "Spoiled",
+    reasonOther: "Other",
+    expiryWaste: "Expiry & Waste",
+    expiryWasteSub: "Stock expiring in the next 30 days and monthly write-offs",
+    expired: "Expired",
+    expiresWithin3: "Within 3 days",
+    expiresWithin7: "Within 7 days",
+    expiresWithin30: "Within 30 days",
+    expiresToday: "Expires today",
+    daysLeft: "Days left",
+    daysOverdue: "Days overdue",
+    noExpiringStock: "Nothing expires in the next 30 days",
+    allLocations: "All locations",
+    wasteReport: "Waste Report",
+    noWasteThisMonth: "No stock was written off this month",
+    offlineMode: "You are offline",
+    offlineModeSub: "Entries are saved on this device and uploaded when the connection is back.",
+    pendingSync: "Waiting to sync",
+    syncNow: "Sync now",
+    syncConflicts: "Entries that could not be logged",
+    syncConflictsSub: "The stock changed before these entries reached the server.",
+    stockWhenLogged: "Stock when logged",
+    stockNow: "Stock now",
+    logAvailable: "Log available",
+    retry: "Retry",
+    discard: "Discard",
+    notifications: "Notifications",
+    noNotifications: "You're all caught up",
+    markAllRead: "Mark all as read",
+    notificationPreferences: "Notification preferences",
+    notificationPreferencesSub: "Choose which events notify you",
+    eventIncomingTransfer: "Incoming transfers",
+    eventIncomingTransferSub: "A transfer is requested from, or sent to, your location",
+    eventTransferRejected: "Rejected transfers",
+    eventTransferRejectedSub: "The other side rejected one of your transfers",
+    eventTransferReceived: "Received transfers",
+    eventTransferReceivedSub: "The destination accepted a transfer you sent",
+    eventLowStock: "Low stock",
+    eventLowStockSub: "An item drops to its minimum level",
+    eventExpiry: "Expiring stock",
+    eventExpirySub: "Daily summary of lots expired or expiring within 3 days",
+    eventStockTakeApproval: "Stock-take approval",
+    eventStockTakeApprovalSub: "A count awaits approval, or your count was approved",
+    loadOlder: "Load older",
+    showingSince: "Showing transactions since",
+    unitCost: "Unit Cost",
+    averageCost: "Average Cost",
+    stockValue: "Stock Value",
+    value: "Value",
+    totalValue: "Total Value",
+    costOfGoodsUsed: "Cost of Goods Used",
+    stockValueByLocation: "Stock Value by Location",
+    selectedDay: "Selected day",
+    selectedMonth: "Selected month",
+    uncosted: "uncosted",
+    uncostedItemsHint: "Items received without a cost are not included in the value",
+    uncostedUsage: "usage entries have no recorded cost and are not included",
+    invalidUnitCost: "Unit cost must be zero or more",
+    recipes: "Recipes",
+    recipesSub: "What each finished product made at Mammal uses up",
+    recipe: "Recipe",
+    newRecipe: "New Recipe",
+    editRecipe: "Edit Recipe",
+    recipeDesc: "Ingredients are entered for one unit of the finished product",
+    yieldUnit: "Finished Product Unit",
+    ingredientsPerUnit: "Ingredients per Unit",
+    addIngredient: "Add Ingredient",
+    noRecipes: "No recipes yet",
+    recipeExists: "A recipe with this name already exists",
+    recipeNeedsIngredients: "Add at least one ingredient",
+    duplicateIngredient: "Each ingredient can only appear once in a recipe",
+    confirmDeleteRecipe: "Are you sure you want to delete the recipe",
+    production: "Production",
+    logProduction: "Log Production",
+    logProductionDesc: "Posts the usage of every ingredient in the recipe",
+    quantityProduced: "Quantity Produced",
+    ingredientsUsed: "Ingredients Used / In Stock",
+    productionShortage: "Not enough stock of every ingredient for this batch",
+    productionLogged: "Production logged",
+    theoreticalUsage: "Theoretical usage (recipes)",
+    actualUsage: "Actual usage",
+    scanBarcode: "Scan Barcode",
+    scanBarcodeHint: "Point the camera at a barcode or QR code",
+    enterCodeManually: "Or enter the code",
+    cameraUnavailable: "The camera is not available. Allow camera access, or enter the code instead.",
+    unknownCode: "No item here carries this code",
+    createItemForCode: "Create a new item with this code?",
+    printLabels: "Print Labels",
+    labelPaper: "Label Paper",
+    codeType: "Code Type",
+    labelsPerItem: "Labels per Item",
+    skipUsedLabels: "Skip Used Labels",
+    sheets: "sheet(s)",
+    internalCodeHint: "item(s) have no barcode and get an internal code",
+    unprintableBarcodeHint: "Code 128 cannot print the barcode of these items; their labels get an internal code",
+    scanTransferDocument: "Scan Document",
+    scanToReceive: "Scan to verify and receive",
+    notTransferDocument: "This code is not a transfer document",
+    transferDocumentTampered: "This document does not match the transfer on record and may have been altered",
+    transferDocumentCompleted: "This transfer has already been completed or closed",
+    transferDocumentNotIncoming: "This transfer is not waiting to be received here",
+    pdfExportFailed: "Could not create the PDF",
+    senderSignature: "Sender's Signature",
+    receiverSignature: "Receiver's Signature",
+    senderSignatureDesc: "Whoever hands the goods over signs for the shipment",
+    receiverSignatureDesc: "Whoever takes the goods signs for their receipt",
+    signerName: "Signer's Name",
+    signHere: "Sign here",
+    signatureRequired: "Please sign before confirming",
+    signerNameRequired: "Enter the name of the person signing",
+    signedAt: "Signed",
+    awaitingReceipt: "Sent, Awaiting Receipt",
+    cancelTransfer: "Cancel Transfer",
+    confirmCancelTransfer: "Cancel this transfer? Stock already sent returns to this location."
   },
   ar: {
     title: "دوار السعادة",
@@ -265,6 +517,7 @@ export const TRANSLATIONS = {
     passwordPlaceholder: "أدخل كلمة المرور",
     login: "تسجيل الدخول",
     invalidCredentials: "اسم المستخدم أو كلمة المرور غير صالحة",
+    loginUnavailable: "تعذر الاتصال بالخادم. يرجى المحاولة مرة أخرى.",
     copyright: "© 2024 دوار السعادة. جميع الحقوق محفوظة.",
     selectLocation: "اختر الموقع",
     selectLocationSub: "اختر موقعاً لإدارة المخزون",
@@ -465,6 +718,247 @@ export const TRANSLATIONS = {
     available: "متاح",
     setAllToMax: "تعيين الكل للحد الأقصى",
     setAllToQty: "تعيين الكل لكمية محددة",
-    applyToAll: "تطبيق على الكل"
+    applyToAll: "تطبيق على الكل",
+    catalog: "دليل المنتجات",
+    catalogSub: "المنتجات المشتركة بين مخزون جميع المواقع",
+    catalogProduct: "منتج من الدليل",
+    newProduct: "منتج جديد",
+    addProduct: "إضافة منتج",
+    editProduct: "تعديل المنتج",
+    sku: "رمز المنتج",
+    barcode: "الباركود",
+    stockedAt: "متوفر في",
+    noProducts: "لا توجد منتجات في الدليل بعد.",
+    catalogFieldsLocked: "الاسم والفئة والوحدة والباركود مأخوذة من دليل المنتجات.",
+    catalogEditWarning: "ستطبق التغييرات على هذه التفاصيل في جميع المواقع.",
+    productInCatalog: "هذا المنتج موجود بالفعل في الدليل. اختره من القائمة أعلاه.",
+    confirmDeleteProduct: "هل أنت متأكد من حذف المنتج من الدليل",
+    receiveTransfer: "استلام التحويل",
+    receiveTransferDesc: "أدخل الكمية التي وصلت فعلاً لكل عنصر.",
+    sent: "المرسل",
+    received: "المستلم",
+    confirmReceipt: "تأكيد الاستلام",
+    discrepancyReasonPlaceholder: "سبب الفرق (مثال: تالف، مفقود)",
+    shortfallReasonRequired: "أدخل سبب الكمية الناقصة",
+    returnShortfall: "إعادة إلى المرسل",
+    writeOffShortfall: "شطب كخسارة",
+    shortfallReturned: "أعيد إلى المرسل",
+    shortfallLost: "تم شطبه",
+    loss: "خسارة",
+    purchasing: "المشتريات",
+    purchasingSub: "الموردون وأوامر الشراء والبضائع المستلمة في المستودع",
+    suppliers: "الموردون",
+    supplier: "المورد",
+    addSupplier: "إضافة مورد",
+    editSupplier: "تعديل المورد",
+    supplierName: "اسم المورد",
+    contactName: "الشخص المسؤول",
+    phone: "الهاتف",
+    email: "البريد الإلكتروني",
+    address: "العنوان",
+    noSuppliers: "لا يوجد موردون بعد",
+    purchaseOrders: "أوامر الشراء",
+    purchaseOrder: "أمر شراء",
+    newPurchaseOrder: "أمر شراء جديد",
+    editPurchaseOrder: "تعديل أمر الشراء",
+    poNumber: "رقم أمر الشراء",
+    orderDate: "تاريخ الطلب",
+    expectedDate: "تاريخ التوريد المتوقع",
+    ordered: "المطلوب",
+    outstanding: "المتبقي",
+    addLine: "إضافة بند",
+    noPurchaseOrders: "لا توجد أوامر شراء بعد",
+    poStatusDraft: "مسودة",
+    poStatusOrdered: "تم الطلب",
+    poStatusPartiallyReceived: "مستلم جزئياً",
+    poStatusReceived: "مستلم",
+    poStatusCancelled: "ملغي",
+    placeOrder: "تأكيد الطلب",
+    cancelOrder: "إلغاء الطلب",
+    receiveGoods: "استلام البضائع",
+    receiveGoodsDesc: "سجل ما وصل من المورد. تتم إضافة المخزون إلى المستودع.",
+    goodsReceived: "البضائع المستلمة",
+    deliveryNotesPlaceholder: "رقم إشعار التسليم، الحالة، إلخ.",
+    purchaseOrderNeedsLines: "أضف منتجاً واحداً على الأقل",
+    receiveQuantityRequired: "أدخل الكمية المستلمة لبند واحد على الأقل",
+    confirmDeleteSupplier: "هل أنت متأكد من حذف هذا المورد",
+    confirmDeletePurchaseOrder: "هل أنت متأكد من حذف أمر الشراء هذا",
+    reorderSuggestions: "اقتراحات إعادة الطلب",
+    reorderSuggestionsDesc: "بناءً على الاستهلاك خلال آخر 30 يوماً",
+    daysOfCover: "أيام التغطية",
+    avgDailyUsage: "المتوسط/يوم",
+    suggestedTransfers: "تحويلات مقترحة",
+    suggestedPurchases: "مشتريات مقترحة",
+    createTransfer: "إنشاء تحويل",
+    onOrder: "قيد الطلب",
+    noRecentUsage: "لا يوجد استهلاك حديث",
+    stockTake: "الجرد",
+    stockTakeDesc: "عدّ ما هو موجود فعلياً؛ الفروقات المعتمدة تعدّل المخزون",
+    startStockTake: "بدء الجرد",
+    previousStockTakes: "عمليات الجرد السابقة",
+    stockTakeEmpty: "لا يوجد مخزون لجرده في هذا الموقع.",
+    expected: "المتوقع",
+    counted: "المعدود",
+    notCounted: "لم يُعد",
+    variance: "الفرق",
+    varianceReport: "تقرير الفروقات",
+    adjustment: "تسوية",
+    countStarted: "بدأ",
+    countSubmitted: "عدّه",
+    countApproved: "اعتمده",
+    saveCounts: "حفظ الكميات",
+    submitCount: "إرسال للاعتماد",
+    approveCount: "اعتماد وتعديل المخزون",
+    awaitingApproval: "بانتظار اعتماد المدير",
+    cancelStockTake: "إلغاء الجرد",
+    confirmApproveStockTake: "سيتم تعديل المخزون بكل فرق معدود. لا يمكن التراجع عن ذلك.",
+    confirmCancelStockTake: "سيتم تجاهل الكميات المدخلة ويبقى المخزون كما هو.",
+    stockTakeStatusCounting: "قيد العد",
+    stockTakeStatusSubmitted: "بانتظار الاعتماد",
+    stockTakeStatusApproved: "معتمد",
+    stockTakeStatusCancelled: "ملغي",
+    auditLog: "سجل التدقيق",
+    auditLogSub: "كل تعديل مباشر على المخزون والمنتجات والمواقع والمستخدمين",
+    auditTableLocations: "المواقع",
+    auditAction: "الإجراء",
+    auditRecord: "السجل",
+    auditInsert: "إنشاء",
+    auditUpdate: "تعديل",
+    auditDelete: "حذف",
+    allUsers: "كل المستخدمين",
+    allTables: "كل الجداول",
+    fromDate: "من",
+    toDate: "إلى",
+    changedFields: "الحقول المعدلة",
+    passwordChanged: "تم تغيير كلمة المرور",
+    noAuditEntries: "لا توجد سجلات تطابق هذه الفلاتر",
+    refresh: "تحديث",
+    manualEdit: "تعديل يدوي",
+    lots: "الدفعات",
+    lotNumber: "رقم الدفعة",
+    unlabelledLot: "بدون رقم دفعة",
+    expiryDate: "الانتهاء",
+    receivedOn: "تاريخ الاستلام",
+    waste: "هدر",
+    writeOff: "شطب",
+    writeOffs: "عمليات الشطب",
+    writeOffReason: "السبب",
+    writeOffNotesRequired: "اذكر سبب شطب المخزون",
+    reasonExpired: "منتهي الصلاحية",
+    reasonDamaged: "تالف",
+    reasonSpoiled: "فاسد",
+    reasonOther: "أخرى",
+    expiryWaste: "الصلاحية والهدر",
+    expiryWasteSub: "المخزون الذي تنتهي صلاحيته خلال 30 يوماً والشطب الشهري",
+    expired: "منتهي الصلاحية",
+    expiresWithin3: "خلال 3 أيام",
+    expiresWithin7: "خلال 7 أيام",
+    expiresWithin30: "خلال 30 يوماً",
+    expiresToday: "تنتهي اليوم",
+    daysLeft: "الأيام المتبقية",
+    daysOverdue: "أيام منذ الانتهاء",
+    noExpiringStock: "لا شيء تنتهي صلاحيته خلال 30 يوماً",
+    allLocations: "جميع المواقع",
+    wasteReport: "تقرير الهدر",
+    noWasteThisMonth: "لم يتم شطب أي مخزون هذا الشهر",
+    offlineMode: "أنت غير متصل",
+    offlineModeSub: "تُحفظ الحركات على هذا الجهاز وتُرفع عند عودة الاتصال.",
+    pendingSync: "بانتظار المزامنة",
+    syncNow: "مزامنة الآن",
+    syncConflicts: "حركات تعذر تسجيلها",
+    syncConflictsSub: "تغير المخزون قبل وصول هذه الحركات إلى الخادم.",
+    stockWhenLogged: "المخزون عند التسجيل",
+    stockNow: "المخزون الآن",
+    logAvailable: "تسجيل المتاح",
+    retry: "إعادة المحاولة",
+    discard: "تجاهل",
+    notifications: "الإشعارات",
+    noNotifications: "لا توجد إشعارات جديدة",
+    markAllRead: "تعليم الكل كمقروء",
+    notificationPreferences: "إعدادات الإشعارات",
+    notificationPreferencesSub: "اختر الأحداث التي تريد أن تصلك إشعاراتها",
+    eventIncomingTransfer: "التحويلات الواردة",
+    eventIncomingTransferSub: "طلب تحويل من موقعك أو إرسال تحويل إليه",
+    eventTransferRejected: "التحويلات المرفوضة",
+    eventTransferRejectedSub: "رفض الطرف الآخر أحد تحويلاتك",
+    eventTransferReceived: "التحويلات المستلمة",
+    eventTransferReceivedSub: "استلم الموقع المستهدف تحويلاً أرسلته",
+    eventLowStock: "مخزون منخفض",
+    eventLowStockSub: "وصول صنف إلى الحد الأدنى",
+    eventExpiry: "مخزون قارب على الانتهاء",
+    eventExpirySub: "ملخص يومي للدفعات المنتهية أو التي تنتهي خلال 3 أيام",
+    eventStockTakeApproval: "اعتماد الجرد",
+    eventStockTakeApprovalSub: "جرد بانتظار الاعتماد، أو تم اعتماد جردك",
+    loadOlder: "تحميل الأقدم",
+    showingSince: "عرض المعاملات منذ",
+    unitCost: "تكلفة الوحدة",
+    averageCost: "متوسط التكلفة",
+    stockValue: "قيمة المخزون",
+    value: "القيمة",
+    totalValue: "القيمة الإجمالية",
+    costOfGoodsUsed: "تكلفة المواد المستهلكة",
+    stockValueByLocation: "قيمة المخزون حسب الموقع",
+    selectedDay: "اليوم المحدد",
+    selectedMonth: "الشهر المحدد",
+    uncosted: "بدون تكلفة",
+    uncostedItemsHint: "الأصناف المستلمة بدون تكلفة غير مشمولة في القيمة",
+    uncostedUsage: "حركات استهلاك بدون تكلفة مسجلة وغير مشمولة",
+    invalidUnitCost: "يجب أن تكون تكلفة الوحدة صفراً أو أكثر",
+    recipes: "الوصفات",
+    recipesSub: "ما يستهلكه كل منتج نهائي يُصنع في مامل",
+    recipe: "الوصفة",
+    newRecipe: "وصفة جديدة",
+    editRecipe: "تعديل الوصفة",
+    recipeDesc: "تُدخل المكونات لوحدة واحدة من المنتج النهائي",
+    yieldUnit: "وحدة المنتج النهائي",
+    ingredientsPerUnit: "المكونات لكل وحدة",
+    addIngredient: "إضافة مكوّن",
+    noRecipes: "لا توجد وصفات بعد",
+    recipeExists: "توجد وصفة بهذا الاسم بالفعل",
+    recipeNeedsIngredients: "أضف مكوّناً واحداً على الأقل",
+    duplicateIngredient: "كل مكوّن يظهر مرة واحدة فقط في الوصفة",
+    confirmDeleteRecipe: "هل أنت متأكد من حذف الوصفة",
+    production: "الإنتاج",
+    logProduction: "تسجيل الإنتاج",
+    logProductionDesc: "يسجل استهلاك كل مكونات الوصفة",
+    quantityProduced: "الكمية المنتجة",
+    ingredientsUsed: "المكونات المستهلكة / المتوفرة",
+    productionShortage: "المخزون لا يكفي من كل المكونات لهذه الدفعة",
+    productionLogged: "تم تسجيل الإنتاج",
+    theoreticalUsage: "الاستهلاك النظري (الوصفات)",
+    actualUsage: "الاستهلاك الفعلي",
+    scanBarcode: "مسح الباركود",
+    scanBarcodeHint: "وجّه الكاميرا نحو الباركود أو رمز QR",
+    enterCodeManually: "أو أدخل الرمز",
+    cameraUnavailable: "الكاميرا غير متاحة. اسمح بالوصول إلى الكاميرا أو أدخل الرمز يدوياً.",
+    unknownCode: "لا يوجد صنف هنا بهذا الرمز",
+    createItemForCode: "هل تريد إنشاء صنف جديد بهذا الرمز؟",
+    printLabels: "طباعة الملصقات",
+    labelPaper: "ورق الملصقات",
+    codeType: "نوع الرمز",
+    labelsPerItem: "ملصقات لكل صنف",
+    skipUsedLabels: "تخطي الملصقات المستخدمة",
+    sheets: "ورقة",
+    internalCodeHint: "صنف بدون باركود وسيحصل على رمز داخلي",
+    unprintableBarcodeHint: "لا يمكن طباعة باركود هذه الأصناف بصيغة Code 128؛ ستحصل ملصقاتها على رمز داخلي",
+    scanTransferDocument: "مسح المستند",
+    scanToReceive: "امسح للتحقق والاستلام",
+    notTransferDocument: "هذا الرمز ليس مستند تحويل",
+    transferDocumentTampered: "هذا المستند لا يطابق التحويل المسجل وربما تم التلاعب به",
+    transferDocumentCompleted: "تم إكمال هذا التحويل أو إغلاقه مسبقاً",
+    transferDocumentNotIncoming: "هذا التحويل ليس بانتظار الاستلام هنا",
+    pdfExportFailed: "تعذر إنشاء ملف PDF",
+    senderSignature: "توقيع المرسل",
+    receiverSignature: "توقيع المستلم",
+    senderSignatureDesc: "يوقّع من يسلّم البضاعة على الشحنة",
+    receiverSignatureDesc: "يوقّع من يستلم البضاعة على استلامها",
+    signerName: "اسم الموقّع",
+    signHere: "وقّع هنا",
+    signatureRequired: "يرجى التوقيع قبل التأكيد",
+    signerNameRequired: "أدخل اسم الشخص الموقّع",
+    signedAt: "وُقّع في",
+    awaitingReceipt: "مرسلة بانتظار الاستلام",
+    cancelTransfer: "إلغاء التحويل",
+    confirmCancelTransfer: "هل تريد إلغاء هذا التحويل؟ يعود المخزون المرسل إلى هذا الموقع."
   }
 };
\ No newline at end of file
@@ -1,8 +1,11 @@
-const CACHE_NAME = 'dawar-saada-v2';
+const CACHE_NAME = 'dawar-saada-v3';
 const ASSETS_TO_CACHE = [
   '/',
   '/index.html',
-  '/manifest.json'
+  '/manifest.json',
+  // Embedded in PDF exports, so reports can be made offline
+  '/fonts/Cairo-Regular.ttf',
+  '/fonts/Cairo-Bold.ttf'
 ];
 
 self.addEventListener('install', (event) => {
@@ -58,12 +61,129 @@ self.addEventListener('fetch', (event) => {
   );
 });
 
-self.addEventListener('push', (event) => {
-  const data = event.data ? event.data.json() : { title: 'Dawar Saada', body: 'New update available.' };
+// Payloads are { title, body, tag?, url? }. The app posts the same payload as a 'notify' message
+// for notifications that arrive while it is open, so both paths look alike.
+const showAppNotification = (data) => {
   const options = {
     body: data.body,
     icon: 'https://cdn-icons-png.flaticon.com/512/3081/3081840.png',
-    badge: 'https://cdn-icons-png.flaticon.com/512/3081/3081840.png'
+    badge: 'https://cdn-icons-png.flaticon.com/512/3081/3081840.png',
+    tag: data.tag,
+    data: { url: data.url || '/' }
+  };
+  return self.registration.showNotification(data.title, options);
+};
+
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : { title: 'Dawar Saada', body: 'New update available.' };
+  event.waitUntil(showAppNotification(data));
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'notify') {
+    event.waitUntil(showAppNotification(event.data.payload));
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      return client ? client.focus() : self.clients.openWindow(url);
+    })
+  );
+});
+
+// Offline outbox (services/outboxService.ts): usage and receive logs queued in IndexedDB are
+// uploaded here when the browser fires background sync after the connection returns. Entries the
+// server refuses, e.g. because the stock changed since they were logged, are left for the app,
+// which retries them one by one and shows the conflicts.
+const OUTBOX_DB = 'dawar-outbox';
+const OUTBOX_SYNC_TAG = 'outbox-sync';
+
+const openOutbox = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(OUTBOX_DB, 1);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains('entries')) db.createObjectStore('entries', { keyPath: 'id' });
+    if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta', { keyPath: 'key' });
   };
-  event.waitUntil(self.registration.showNotification(data.title, options));
-});
\ No newline at end of file
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const outboxRequest = (db, storeName, mode, work) => new Promise((resolve, reject) => {
+  const tx = db.transaction(storeName, mode);
+  const request = work(tx.objectStore(storeName));
+  tx.oncomplete = () => resolve(request ? request.result : undefined);
+  tx.onerror = () => reject(tx.error);
+});
+
+const uploadOutbox = async () => {
+  const db = await openOutbox();
+  try {
+    const credentials = await outboxRequest(db, 'meta', 'readonly', (store) => store.get('credentials'));
+    if (!credentials) return;
+    const entries = (await outboxRequest(db, 'entries', 'readonly', (store) => store.getAll()))
+      .filter((entry) => entry.userId === credentials.userId && entry.status === 'pending')
+      .sort((a, b) => a.loggedAt.localeCompare(b.loggedAt));
+
+    const batches = [];
+    entries.forEach((entry) => {
+      const batch = batches.find((b) => b[0].batchId === entry.batchId);
+      if (batch) batch.push(entry); else batches.push([entry]);
+    });
+
+    let rejected = false;
+    const uploaded = []; // Outbox ids, products and the transactions logged, so open tabs patch just those
+    for (const batch of batches) {
+      // A network failure rejects here, and the browser retries the sync later
+      const response = await fetch(`${credentials.supabaseUrl}/rest/v1/rpc/log_stock_entries`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          apikey: credentials.supabaseKey,
+          Authorization: `Bearer ${credentials.accessToken}`
+        },
+        body: JSON.stringify({
+          p_location: batch[0].locationId,
+          p_entries: batch.map((entry) => ({
+            type: entry.type,
+            item_id: entry.itemId,
+            quantity: entry.quantity,
+            notes: entry.notes || null,
+            unit_cost: entry.unitCost ?? null,
+            recipe_id: entry.recipeId || null,
+            idempotency_key: entry.id,
+            logged_at: entry.loggedAt,
+            expected_quantity: entry.expectedQuantity ?? null
+          }))
+        })
+      });
+      if (!response.ok) {
+        rejected = true;
+        continue;
+      }
+      const logged = await response.json();
+      await outboxRequest(db, 'entries', 'readwrite', (store) => { batch.forEach((entry) => store.delete(entry.id)); });
+      uploaded.push(...batch.map((entry, index) => ({
+        entryId: entry.id,
+        productId: entry.productId,
+        transactionId: logged[index] && logged[index].id
+      })));
+    }
+
+    const clients = await self.clients.matchAll({ type: 'window' });
+    clients.forEach((client) => client.postMessage({ type: 'outbox-synced', rejected, uploaded }));
+  } finally {
+    db.close();
+  }
+};
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(uploadOutbox());
+  }
+});
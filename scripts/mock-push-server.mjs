@@ -0,0 +1,78 @@
+// A stand-in push service for testing the send-push function without a browser.
+//
+//   npm run mock-push -- <username>        (PORT=8787 by default)
+//
+// It prints SQL that subscribes <username> with this server's keys. Run it against the database,
+// move a transfer so a push is queued, invoke send-push, and the decrypted payload is printed here
+// together with the VAPID claims it was signed with. Set MOCK_PUSH_STATUS=410 to answer as if the
+// subscription had expired; send-push should then delete it.
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const port = Number(process.env.PORT || 8787);
+const status = Number(process.env.MOCK_PUSH_STATUS || 201);
+const username = process.argv[2] || 'warehouse';
+
+const ecdh = crypto.createECDH('prime256v1');
+const publicKey = ecdh.generateKeys();
+const authSecret = crypto.randomBytes(16);
+const endpoint = `http://localhost:${port}/push/${crypto.randomUUID()}`;
+
+const sqlString = (value) => `'${value.replace(/'/g, "''")}'`;
+
+const decrypt = (body) => {
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body[20];
+  const serverPublicKey = body.subarray(21, 21 + keyIdLength);
+  const ciphertext = body.subarray(21 + keyIdLength);
+
+  const sharedSecret = ecdh.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), publicKey, serverPublicKey]);
+  const ikm = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const record = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+
+  // Strip the padding and the 0x02 last-record delimiter
+  let end = record.length - 1;
+  while (end >= 0 && record[end] === 0) end--;
+  if (record[end] !== 2) throw new Error('Missing last-record delimiter');
+  return JSON.parse(record.subarray(0, end).toString('utf8'));
+};
+
+const vapidClaims = (authorization = '') => {
+  const token = /t=([^,\s]+)/.exec(authorization)?.[1];
+  if (!token) return null;
+  return JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+};
+
+const server = http.createServer((req, res) => {
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    if (req.method !== 'POST' || !req.url?.startsWith('/push/')) {
+      res.writeHead(404).end();
+      return;
+    }
+    try {
+      console.log(`\n${new Date().toISOString()} push for ${req.url} (TTL ${req.headers.ttl}, answering ${status})`);
+      console.log('  VAPID claims:', vapidClaims(req.headers.authorization));
+      console.log('  Payload:', decrypt(Buffer.concat(chunks)));
+      res.writeHead(status).end();
+    } catch (error) {
+      console.error('  Could not decrypt the push:', error.message);
+      res.writeHead(400).end();
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Mock push service on http://localhost:${port}\n`);
+  console.log(`Subscribe ${username} to it (run as the database owner):\n`);
+  console.log(`INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+SELECT id, ${sqlString(endpoint)}, ${sqlString(publicKey.toString('base64url'))}, ${sqlString(authSecret.toString('base64url'))}, 'mock-push-server'
+FROM public.app_users WHERE username = ${sqlString(username)};\n`);
+});
@@ -0,0 +1,177 @@
+// Arabic text for PDF output. jsPDF draws the characters of a string from left to right as they
+// come, so Arabic has to arrive shaped (each letter in the form it takes next to its neighbours)
+// and in display order. The Cairo font embedded in our PDFs maps the joined forms of Unicode's
+// Arabic Presentation Forms-B but not the isolated ones, so letters that join nothing keep their
+// plain code point, which Cairo draws in its isolated form.
+
+type Joining = 'dual' | 'right' | 'none';
+
+// Joining type of the letters U+0621..U+064A: D joins both sides, R only the letter before it,
+// N nothing; '-' are code points with no presentation forms (U+063B..U+0640)
+const JOINING = 'NRRRRDRDRDDDDDRRRRDDDDDDDD------DDDDDDDRRD';
+const FORM_COUNT = { D: 4, R: 2, N: 1 } as const;
+
+// Presentation forms of each letter, in Presentation Forms-B order: isolated, final, initial, medial
+const LETTERS = new Map<number, { joining: Joining, isolated: number }>();
+let nextForm = 0xfe80;
+Array.from(JOINING).forEach((type, i) => {
+  if (type === '-') return;
+  LETTERS.set(0x0621 + i, { joining: type === 'D' ? 'dual' : type === 'R' ? 'right' : 'none', isolated: nextForm });
+  nextForm += FORM_COUNT[type as keyof typeof FORM_COUNT];
+});
+
+const LAM = 0x0644;
+const TATWEEL = 0x0640; // Joins on both sides, and is drawn as it is
+// Lam followed by an alef becomes one ligature: isolated form here, final form + 1
+const LAM_ALEF: Record<number, number> = { 0x0622: 0xfef5, 0x0623: 0xfef7, 0x0625: 0xfef9, 0x0627: 0xfefb };
+
+// Vowel marks and other combining marks sit on a letter without breaking the join around it
+const isMark = (c: string) => /\p{Mn}/u.test(c);
+
+const joiningOf = (c: string | undefined): Joining => {
+  if (c === undefined) return 'none';
+  const code = c.codePointAt(0)!;
+  return code === TATWEEL ? 'dual' : LETTERS.get(code)?.joining ?? 'none';
+};
+
+export const shapeArabic = (text: string): string => {
+  const chars = Array.from(text);
+  const letterNear = (i: number, step: number) => {
+    for (let j = i + step; j >= 0 && j < chars.length; j += step) {
+      if (!isMark(chars[j])) return chars[j];
+    }
+    return undefined;
+  };
+
+  let shaped = '';
+  for (let i = 0; i < chars.length; i++) {
+    const code = chars[i].codePointAt(0)!;
+    const letter = LETTERS.get(code);
+    if (!letter) {
+      shaped += chars[i];
+      continue;
+    }
+
+    const joinsPrevious = letter.joining !== 'none' && joiningOf(letterNear(i, -1)) === 'dual';
+    const ligature = code === LAM ? LAM_ALEF[chars[i + 1]?.codePointAt(0) ?? 0] : undefined;
+    if (ligature) {
+      shaped += String.fromCodePoint(ligature + (joinsPrevious ? 1 : 0));
+      i++;
+      continue;
+    }
+
+    const joinsNext = letter.joining === 'dual' && joiningOf(letterNear(i, 1)) !== 'none';
+    const form = joinsPrevious && joinsNext ? 3 : joinsPrevious ? 1 : joinsNext ? 2 : -1;
+    shaped += form < 0 ? chars[i] : String.fromCodePoint(letter.isolated + form);
+  }
+  return shaped;
+};
+
+// Bidirectional character types (Unicode Standard Annex #9), for text without explicit embeddings
+type BidiType = 'L' | 'R' | 'EN' | 'AN' | 'ES' | 'ET' | 'CS' | 'NSM' | 'ON';
+
+// Hebrew, Arabic and their presentation forms
+const RTL_CHARS = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFC]/;
+
+// Direction marks steer the order but are not drawn (Cairo has no glyph for them), e.g. the
+// right-to-left marks in dates formatted for ar-EG
+const DIRECTION_MARKS: Record<string, BidiType> = { '\u200E': 'L', '\u200F': 'R', '\u061C': 'R' };
+
+const bidiTypeOf = (c: string): BidiType => {
+  if (DIRECTION_MARKS[c]) return DIRECTION_MARKS[c];
+  if (/[0-9\u06F0-\u06F9]/.test(c)) return 'EN';
+  if (/[\u0660-\u0669\u066B\u066C]/.test(c)) return 'AN';
+  if (/[+-]/.test(c)) return 'ES';
+  if (/[#$%\u00B0\u066A]|\p{Sc}/u.test(c)) return 'ET';
+  if (/[,./:\u00A0\u060C]/.test(c)) return 'CS';
+  if (isMark(c)) return 'NSM';
+  if (RTL_CHARS.test(c)) return 'R';
+  if (/\p{L}/u.test(c)) return 'L';
+  return 'ON';
+};
+
+const MIRRORED: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<', '«': '»', '»': '«' };
+
+// Reorders one line from the order it is typed in to the order it is displayed, left to right.
+// The line takes the direction of its first letter (rule P2), so English names in an Arabic
+// report, or Arabic names in an English one, each read the right way round.
+export const toVisualOrder = (text: string): string => {
+  const chars = Array.from(text);
+  const types = chars.map(bidiTypeOf);
+  const firstStrong = types.find(type => type === 'L' || type === 'R');
+  const base: BidiType = firstStrong === 'R' ? 'R' : 'L';
+
+  // W1-W3: marks take the type before them; European digits after Arabic letters are Arabic digits
+  let lastStrong: BidiType = base;
+  types.forEach((type, i) => {
+    if (type === 'NSM') types[i] = i > 0 ? types[i - 1] : base;
+    if (types[i] === 'L' || types[i] === 'R') lastStrong = types[i];
+    else if (types[i] === 'EN' && lastStrong === 'R') types[i] = 'AN';
+  });
+
+  // W4: one separator between two numbers of the same kind joins them
+  types.forEach((type, i) => {
+    const before = types[i - 1];
+    if (i === 0 || before !== types[i + 1]) return;
+    if ((type === 'ES' && before === 'EN') || (type === 'CS' && (before === 'EN' || before === 'AN'))) types[i] = before;
+  });
+
+  // W5-W6: currency and percent signs next to European numbers belong to them; other separators are neutral
+  types.forEach((type, i) => {
+    if (type !== 'ET') return;
+    let end = i;
+    while (types[end] === 'ET') end++;
+    const isNumber = types[i - 1] === 'EN' || types[end] === 'EN';
+    for (let j = i; j < end; j++) types[j] = isNumber ? 'EN' : 'ON';
+  });
+  types.forEach((type, i) => { if (type === 'ES' || type === 'CS') types[i] = 'ON'; });
+
+  // W7: European numbers in left-to-right context are left-to-right
+  lastStrong = base;
+  types.forEach((type, i) => {
+    if (type === 'L' || type === 'R') lastStrong = type;
+    else if (type === 'EN' && lastStrong === 'L') types[i] = 'L';
+  });
+
+  // N1-N2: neutrals between two runs of the same direction take it; others take the line's
+  const directionOf = (type: BidiType | undefined) => type === undefined ? base : type === 'L' ? 'L' : 'R';
+  types.forEach((type, i) => {
+    if (type !== 'ON') return;
+    let end = i;
+    while (types[end] === 'ON') end++;
+    const before = directionOf(i > 0 ? types[i - 1] : undefined);
+    const after = directionOf(types[end]);
+    for (let j = i; j < end; j++) types[j] = before === after ? before : base;
+  });
+
+  // I1-I2 and L1: embedding levels, with trailing spaces at the line's own level
+  const baseLevel = base === 'R' ? 1 : 0;
+  const levels = types.map(type => baseLevel === 0
+    ? (type === 'L' ? 0 : type === 'R' ? 1 : 2)
+    : (type === 'R' ? 1 : 2));
+  for (let i = chars.length - 1; i >= 0 && /\s/.test(chars[i]); i--) levels[i] = baseLevel;
+
+  // L2: reverse every run at or above each level, from the highest down to the lowest odd one
+  const order = chars.map((_, i) => i);
+  const maxLevel = Math.max(baseLevel, ...levels);
+  for (let level = maxLevel; level >= 1; level--) {
+    for (let i = 0; i < order.length; i++) {
+      if (levels[order[i]] < level) continue;
+      let end = i;
+      while (end < order.length && levels[order[end]] >= level) end++;
+      order.splice(i, end - i, ...order.slice(i, end).reverse());
+      i = end;
+    }
+  }
+
+  // L4: brackets inside right-to-left runs face the other way
+  return order
+    .filter(i => !DIRECTION_MARKS[chars[i]])
+    .map(i => levels[i] % 2 === 1 && MIRRORED[chars[i]] ? MIRRORED[chars[i]] : chars[i])
+    .join('');
+};
+
+export const hasRtlText = (text: string) => RTL_CHARS.test(text);
+
+// A line of text as it has to be handed to jsPDF
+export const toDisplayText = (text: string) => hasRtlText(text) ? toVisualOrder(shapeArabic(text)) : text;
@@ -0,0 +1,59 @@
+import { supabase } from './supabase';
+import { AuditAction, AuditEntry } from '../types';
+
+export const AUDITED_TABLES = ['stock', 'products', 'locations', 'app_users'] as const;
+
+// Columns that change on every write and say nothing about what was edited
+const IGNORED_COLUMNS = ['last_updated', 'created_at'];
+
+export const mapAuditEntry = (a: any): AuditEntry => ({
+  id: Number(a.id),
+  tableName: a.table_name,
+  recordId: a.record_id,
+  action: a.action as AuditAction,
+  actorId: a.actor_id || undefined,
+  actorName: a.actor_name || undefined,
+  locationId: a.location_id || undefined,
+  oldData: a.old_data || undefined,
+  newData: a.new_data || undefined,
+  changedAt: a.changed_at
+});
+
+export type AuditLogFilters = {
+  tableName?: string;
+  recordId?: string;
+  actorId?: string;
+  from?: string; // yyyy-mm-dd, inclusive
+  to?: string;   // yyyy-mm-dd, inclusive
+  limit?: number;
+};
+
+// Newest first. Row-level security limits non-admins to the stock history of their locations.
+export const fetchAuditLog = async (filters: AuditLogFilters = {}): Promise<AuditEntry[]> => {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('changed_at', { ascending: false })
+    .limit(filters.limit || 200);
+
+  if (filters.tableName) query = query.eq('table_name', filters.tableName);
+  if (filters.recordId) query = query.eq('record_id', filters.recordId);
+  if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.from) query = query.gte('changed_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lt('changed_at', new Date(new Date(`${filters.to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString());
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(mapAuditEntry);
+};
+
+// The columns an entry changed, with their values before and after. Inserts and deletes list
+// every column of the row.
+export const getAuditChanges = (entry: AuditEntry): { field: string, before: any, after: any }[] => {
+  const before = entry.oldData || {};
+  const after = entry.newData || {};
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => !IGNORED_COLUMNS.includes(field))
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+};
@@ -0,0 +1,39 @@
+import { supabase, setSessionToken } from './supabase';
+import { AuthSession, User, UserRole } from '../types';
+
+// Columns clients are allowed to read from app_users. The password hash is never selected.
+export const APP_USER_COLUMNS = 'id, username, name, name_ar, role, branch_code, branch_name, branch_name_ar, accessible_branches';
+
+export const mapAppUser = (u: any): User => ({
+  id: u.id,
+  username: u.username,
+  name: u.name,
+  nameAr: u.name_ar,
+  role: u.role as UserRole,
+  branchCode: u.branch_code,
+  branchName: u.branch_name,
+  branchNameAr: u.branch_name_ar,
+  accessibleBranches: u.accessible_branches || []
+});
+
+// Verifies credentials server-side via the authenticate_user RPC and activates the returned
+// access token on the Supabase client. Resolves to null when the credentials are rejected.
+export const authenticateUser = async (username: string, password: string, rememberMe: boolean): Promise<AuthSession | null> => {
+  const { data, error } = await supabase.rpc('authenticate_user', {
+    p_username: username,
+    p_password: password,
+    p_remember_me: rememberMe
+  });
+
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) return null;
+
+  setSessionToken(row.access_token);
+  return {
+    user: mapAppUser(row),
+    accessToken: row.access_token,
+    expiresAt: new Date(row.expires_at).getTime()
+  };
+};
@@ -0,0 +1,50 @@
+import { QRCodeEncoder, QRCodeDecoderErrorCorrectionLevel } from '@zxing/library';
+
+// Bar and space widths of each Code 128 symbol, in modules; 106 is the stop pattern
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+// Code set B covers printable ASCII, so Arabic text or a pasted tab cannot go on a Code 128 label
+export const canEncodeCode128 = (text: string) => /^[\x20-\x7e]+$/.test(text);
+
+// Set B carries any of those; all-digit codes (EAN/UPC numbers, our SKUs' digits) pack two digits
+// per symbol in set C, which keeps the barcode short enough for small labels
+export const encodeCode128 = (text: string): boolean[] => {
+  if (!canEncodeCode128(text)) throw new Error('Code 128 labels take printable ASCII only');
+
+  const useSetC = /^\d+$/.test(text) && text.length % 2 === 0;
+  const values = useSetC
+    ? [START_C, ...(text.match(/\d\d/g) || []).map(Number)]
+    : [START_B, ...Array.from(text).map(c => c.charCodeAt(0) - 32)];
+  const checksum = values.reduce((sum, value, i) => sum + value * Math.max(i, 1), 0) % 103;
+
+  const modules: boolean[] = [];
+  [...values, checksum, STOP].forEach(value => {
+    Array.from(CODE128_PATTERNS[value]).forEach((width, i) => {
+      for (let m = 0; m < Number(width); m++) modules.push(i % 2 === 0); // Bars on even positions
+    });
+  });
+  return modules;
+};
+
+// Dark modules of a QR code, row by row
+export const encodeQR = (text: string): boolean[][] => {
+  const matrix = QRCodeEncoder.encode(text, QRCodeDecoderErrorCorrectionLevel.M).getMatrix();
+  return Array.from({ length: matrix.getHeight() }, (_, y) =>
+    Array.from({ length: matrix.getWidth() }, (_, x) => matrix.get(x, y) === 1)
+  );
+};
@@ -0,0 +1,137 @@
+import { supabase } from './supabase';
+import { InventoryItem, LocationId, Product, StockLot } from '../types';
+
+// Stock rows are always read together with their catalog product and lots
+export const STOCK_COLUMNS = '*, product:products(*), lots:stock_lots(*)';
+
+export const mapProduct = (p: any): Product => ({
+  id: p.id,
+  sku: p.sku,
+  nameEn: p.name_en,
+  nameAr: p.name_ar,
+  description: p.description || undefined,
+  category: p.category || '',
+  unit: p.unit || '',
+  barcode: p.barcode || undefined
+});
+
+export const mapStockLot = (l: any): StockLot => ({
+  id: l.id,
+  lotNumber: l.lot_number || undefined,
+  quantity: Number(l.quantity),
+  expirationDate: l.expiration_date || undefined,
+  receivedAt: l.received_at
+});
+
+// The order the database uses them in: first-expiring first, lots without an expiry last
+export const compareLots = (a: { expirationDate?: string, receivedAt?: string }, b: { expirationDate?: string, receivedAt?: string }) =>
+  (a.expirationDate || '9999-12-31').localeCompare(b.expirationDate || '9999-12-31') ||
+  (a.receivedAt || '').localeCompare(b.receivedAt || '');
+
+export const mapStockItem = (s: any): InventoryItem => {
+  const product = mapProduct(s.product);
+  return {
+    id: s.id,
+    productId: product.id,
+    sku: product.sku,
+    nameEn: product.nameEn,
+    nameAr: product.nameAr,
+    description: product.description,
+    category: product.category,
+    quantity: Number(s.quantity),
+    unit: product.unit,
+    minThreshold: Number(s.min_threshold),
+    lastUpdated: s.last_updated,
+    locationId: s.location_id,
+    expirationDate: s.expiration_date || undefined,
+    barcode: product.barcode,
+    lots: (s.lots || []).map(mapStockLot).sort(compareLots),
+    averageCost: s.average_cost == null ? undefined : Number(s.average_cost)
+  };
+};
+
+const toProductRow = (product: Omit<Product, 'id' | 'sku'>) => ({
+  name_en: product.nameEn,
+  name_ar: product.nameAr,
+  description: product.description || null,
+  category: product.category,
+  unit: product.unit,
+  barcode: product.barcode || null
+});
+
+export const createProduct = async (product: Omit<Product, 'id' | 'sku'>): Promise<Product> => {
+  const { data, error } = await supabase.from('products').insert([toProductRow(product)]).select('*').single();
+  if (error) throw error;
+  return mapProduct(data);
+};
+
+// Catalog edits apply to the product's stock at every location. Only admins may make them.
+export const updateProduct = async (product: Product): Promise<Product> => {
+  const { data, error } = await supabase.from('products').update(toProductRow(product)).eq('id', product.id).select('*').single();
+  if (error) throw error;
+  return mapProduct(data);
+};
+
+// Fails while any location still stocks the product
+export const deleteProduct = async (productId: string): Promise<void> => {
+  const { error } = await supabase.from('products').delete().eq('id', productId);
+  if (error) throw error;
+};
+
+export const addStock = async (
+  locationId: LocationId,
+  productId: string,
+  stock: { quantity: number, minThreshold: number, expirationDate?: string }
+): Promise<InventoryItem> => {
+  const { data, error } = await supabase.from('stock').insert([{
+    location_id: locationId,
+    product_id: productId,
+    quantity: stock.quantity,
+    min_threshold: stock.minThreshold,
+    expiration_date: stock.expirationDate || null
+  }]).select(STOCK_COLUMNS).single();
+  if (error) throw error;
+  return mapStockItem(data);
+};
+
+// Re-reads the stock rows realtime reported as changed, plus every row of products whose catalog
+// entry changed (stock items carry the product's names and unit)
+export const fetchStockItems = async (stockIds: string[], productIds: string[] = []): Promise<InventoryItem[]> => {
+  const filters = [
+    stockIds.length > 0 ? `id.in.(${stockIds.join(',')})` : '',
+    productIds.length > 0 ? `product_id.in.(${productIds.join(',')})` : ''
+  ].filter(Boolean);
+  if (filters.length === 0) return [];
+
+  const { data, error } = await supabase.from('stock').select(STOCK_COLUMNS).or(filters.join(','));
+  if (error) throw error;
+  return (data || []).map(mapStockItem);
+};
+
+// Applies changed and deleted stock rows to the per-location inventory, keeping the order of
+// rows already on screen
+export const patchInventory = (
+  inventory: Record<string, InventoryItem[]>,
+  changed: InventoryItem[],
+  removedIds: string[] = []
+): Record<string, InventoryItem[]> => {
+  const updates = new Map(changed.map(item => [item.id, item]));
+  const removed = new Set(removedIds);
+  const next: Record<string, InventoryItem[]> = {};
+
+  Object.keys(inventory).forEach(locationId => {
+    next[locationId] = inventory[locationId]
+      .filter(item => !removed.has(item.id))
+      .map(item => {
+        const update = updates.get(item.id);
+        if (!update) return item;
+        updates.delete(item.id);
+        return update;
+      });
+  });
+  updates.forEach(item => {
+    const locationId = item.locationId as string;
+    next[locationId] = [...(next[locationId] || []), item];
+  });
+  return next;
+};
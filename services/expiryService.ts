@@ -0,0 +1,124 @@
+import { supabase } from './supabase';
+import { ExpiringStock, ExpiryBucket, InventoryItem, Transaction, WasteReasonCode, WasteSummaryRow } from '../types';
+import { mapTransaction } from './transferService';
+
+export const EXPIRY_BUCKETS: ExpiryBucket[] = ['expired', 'within3', 'within7', 'within30'];
+export const WASTE_REASON_CODES: WasteReasonCode[] = ['expired', 'damaged', 'spoiled', 'other'];
+
+// Stock expiring further out than this is not listed
+export const EXPIRY_WATCH_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days from today until a YYYY-MM-DD expiry date, counted in local time
+export const getDaysUntilExpiry = (expirationDate: string, now: Date = new Date()) => {
+  const [year, month, day] = expirationDate.slice(0, 10).split('-').map(Number);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((new Date(year, month - 1, day).getTime() - today.getTime()) / DAY_MS);
+};
+
+export const getExpiryBucket = (daysLeft: number): ExpiryBucket | null => {
+  if (daysLeft < 0) return 'expired';
+  if (daysLeft <= 3) return 'within3';
+  if (daysLeft <= 7) return 'within7';
+  if (daysLeft <= EXPIRY_WATCH_DAYS) return 'within30';
+  return null;
+};
+
+/**
+ * Groups every dated lot across `stockByLocation` by how soon it expires. Stock rows without lots
+ * fall back to the row's own expiry date. Within a bucket the soonest expiry comes first.
+ */
+export const buildExpiryReport = (
+  stockByLocation: Record<string, InventoryItem[]>,
+  now: Date = new Date()
+): Record<ExpiryBucket, ExpiringStock[]> => {
+  const report: Record<ExpiryBucket, ExpiringStock[]> = { expired: [], within3: [], within7: [], within30: [] };
+
+  const add = (locationId: string, item: InventoryItem, quantity: number, expirationDate?: string, lotId?: string, lotNumber?: string) => {
+    if (!expirationDate || quantity <= 0) return;
+    const daysLeft = getDaysUntilExpiry(expirationDate, now);
+    const bucket = getExpiryBucket(daysLeft);
+    if (!bucket) return;
+    report[bucket].push({
+      locationId,
+      itemId: item.id,
+      lotId,
+      productId: item.productId,
+      itemNameEn: item.nameEn,
+      itemNameAr: item.nameAr,
+      unit: item.unit,
+      lotNumber,
+      quantity,
+      expirationDate,
+      daysLeft,
+      bucket
+    });
+  };
+
+  Object.keys(stockByLocation).forEach(locationId => {
+    stockByLocation[locationId].forEach(item => {
+      if (item.lots && item.lots.length > 0) {
+        item.lots.forEach(lot => add(locationId, item, lot.quantity, lot.expirationDate, lot.id, lot.lotNumber));
+      } else {
+        add(locationId, item, item.quantity, item.expirationDate);
+      }
+    });
+  });
+
+  EXPIRY_BUCKETS.forEach(bucket => report[bucket].sort((a, b) => a.daysLeft - b.daysLeft));
+  return report;
+};
+
+// Local YYYY-MM of a timestamp, as used by the month picker
+export const getMonthKey = (date: string | Date) => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Waste written off in one month (YYYY-MM), totalled per product, location and reason
+export const buildWasteSummary = (transactions: Transaction[], month: string): WasteSummaryRow[] => {
+  const rows: Record<string, WasteSummaryRow> = {};
+  transactions
+    .filter(tx => tx.type === 'waste' && tx.fromLocation && getMonthKey(tx.date) === month)
+    .forEach(tx => {
+      const reasonCode = tx.reasonCode || 'other';
+      const key = `${tx.productId || tx.itemNameEn}|${tx.fromLocation}|${reasonCode}`;
+      if (!rows[key]) {
+        rows[key] = {
+          productId: tx.productId,
+          itemNameEn: tx.itemNameEn,
+          itemNameAr: tx.itemNameAr,
+          unit: tx.unit,
+          locationId: tx.fromLocation!,
+          reasonCode,
+          quantity: 0,
+          writeOffs: 0
+        };
+      }
+      rows[key].quantity += tx.quantity;
+      rows[key].writeOffs += 1;
+    });
+  return Object.keys(rows).map(key => rows[key]).sort((a, b) =>
+    a.itemNameEn.localeCompare(b.itemNameEn) || a.locationId.localeCompare(b.locationId) || a.reasonCode.localeCompare(b.reasonCode));
+};
+
+// Removes stock and posts the 'waste' transaction in one database transaction (see section 16 of
+// supabase_schema.sql). With a lot id only that lot is written off.
+export const writeOffStock = async (
+  itemId: string,
+  quantity: number,
+  reasonCode: WasteReasonCode,
+  notes?: string,
+  lotId?: string
+): Promise<Transaction> => {
+  const { data, error } = await supabase.rpc('write_off_stock', {
+    p_item_id: itemId,
+    p_quantity: quantity,
+    p_reason_code: reasonCode,
+    p_notes: notes || null,
+    p_lot_id: lotId || null
+  });
+  if (error) throw error;
+  return mapTransaction(data);
+};
@@ -1,17 +1,117 @@
 import { jsPDF } from 'jspdf';
-import autoTable from 'jspdf-autotable';
+import autoTable, { RowInput, UserOptions } from 'jspdf-autotable';
 import * as XLSX from 'xlsx';
-import { Transaction, InventoryItem, Language } from '../types';
+import { Transaction, InventoryItem, Language, LabelLayout, LabelSymbology, PurchaseOrder, Supplier, StockTake, StockTakeLine, TransferSignature, TransferSignatureRole, WasteReasonCode, WasteSummaryRow } from '../types';
 import { TRANSLATIONS } from '../constants';
+import { formatMoney, roundMoney, stockValue } from './valuationService';
+import { getActualUsage } from './stockTakeService';
+import { getLabelCode } from './scanService';
+import { canEncodeCode128, encodeCode128, encodeQR } from './barcodeService';
+import { hasRtlText, toDisplayText } from './arabicTextService';
 
-export const exportTransferPDF = (transactions: Transaction[], language: Language, fromLocationName: string, toLocationName: string) => {
-  const t = TRANSLATIONS[language];
+// Arabic is set in Cairo (public/fonts, SIL Open Font License), embedded in every PDF. The files
+// are fetched the first time a PDF is made; the service worker keeps them for offline use.
+const CAIRO_FILES = { normal: '/fonts/Cairo-Regular.ttf', bold: '/fonts/Cairo-Bold.ttf' };
+let cairoFiles: Promise<string[]> | undefined;
+
+// jsPDF reads TrueType files from its virtual file system as binary strings
+const fetchFont = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load ${url} (${response.status})`);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return binary;
+};
+
+const loadCairo = () => {
+  cairoFiles ??= Promise.all([fetchFont(CAIRO_FILES.normal), fetchFont(CAIRO_FILES.bold)])
+    .catch(error => {
+      cairoFiles = undefined; // Try again with the next PDF
+      throw error;
+    });
+  return cairoFiles;
+};
+
+// Every PDF starts here. Text handed to jsPDF is shaped and put in display order (see
+// arabicTextService.ts) before it is drawn or measured, instead of going through jsPDF's own
+// Arabic support, which uses letter forms Cairo does not have.
+const createPdf = async (language: Language, format: string | number[] = 'a4') => {
+  const [regular, bold] = await loadCairo();
   const doc = new jsPDF({
     orientation: 'portrait',
     unit: 'mm',
-    format: 'a4'
+    format
+  });
+  doc.addFileToVFS('Cairo-Regular.ttf', regular);
+  doc.addFont('Cairo-Regular.ttf', 'Cairo', 'normal');
+  doc.addFileToVFS('Cairo-Bold.ttf', bold);
+  doc.addFont('Cairo-Bold.ttf', 'Cairo', 'bold');
+  doc.setFont(language === 'ar' ? 'Cairo' : 'helvetica', 'normal');
+
+  const events = doc.internal.events;
+  Object.entries(events.getTopics().preProcessText || {}).forEach(([token, [callback]]) => {
+    if (callback === doc.processArabic) events.unsubscribe(token);
+  });
+
+  // Lines already in display order, as jsPDF measures them again to align them
+  const displayed = new Set<string>();
+  const toDisplay = (text: string) => {
+    if (displayed.has(text)) return text;
+    const line = toDisplayText(text);
+    displayed.add(line);
+    return line;
+  };
+  events.subscribe('preProcessText', (payload: { text: string | string[], options: { isOutputVisual?: boolean } }) => {
+    payload.text = Array.isArray(payload.text) ? payload.text.map(toDisplay) : toDisplay(payload.text);
+    payload.options.isOutputVisual = true; // Leaves jsPDF's own bidi reordering out
   });
 
+  // jspdf-autotable aligns cells by this width, before the text reaches the hook above
+  const getStringUnitWidth = doc.getStringUnitWidth.bind(doc);
+  doc.getStringUnitWidth = (text: string, options?: Parameters<jsPDF['getStringUnitWidth']>[1]) => {
+    const font = options?.font || doc.getFont();
+    if (typeof font.metadata.widthOfString !== 'function') return getStringUnitWidth(text, options);
+    const fontSize = options?.fontSize || doc.getFontSize();
+    return font.metadata.widthOfString(toDisplay(text), fontSize, options?.charSpace || doc.getCharSpace()) / fontSize;
+  };
+
+  return doc;
+};
+
+// The standard PDF fonts have no Arabic, so English reports set Arabic names in Cairo
+const fontFor = (text: string, language: Language) => language === 'ar' || hasRtlText(text) ? 'Cairo' : 'helvetica';
+
+// Report tables run their columns right to left in Arabic, and cells with Arabic text are set in Cairo
+const reportTable = (language: Language, options: UserOptions): UserOptions => {
+  const isRtl = language === 'ar';
+  const mirror = (rows?: RowInput[]) => isRtl && rows ? rows.map(row => Array.isArray(row) ? [...row].reverse() : row) : rows;
+  return {
+    theme: 'striped',
+    ...options,
+    head: mirror(options.head),
+    body: mirror(options.body),
+    foot: mirror(options.foot),
+    styles: { font: isRtl ? 'Cairo' : 'helvetica', halign: isRtl ? 'right' : 'left', ...options.styles },
+    didParseCell: data => {
+      if (hasRtlText(data.cell.text.join(' '))) data.cell.styles.font = 'Cairo';
+    }
+  };
+};
+
+// documentCode is the signed code from formatTransferDocumentCode(); copies printed without one
+// (e.g. offline) carry no QR code. Sides that have not signed in the app get a blank line to sign on paper.
+export const exportTransferPDF = async (
+  transactions: Transaction[],
+  language: Language,
+  fromLocationName: string,
+  toLocationName: string,
+  documentCode?: string,
+  signatures: TransferSignature[] = []
+) => {
+  const t = TRANSLATIONS[language];
+  const doc = await createPdf(language);
+
   const isRtl = language === 'ar';
   const group = transactions[0];
   const dateStr = new Date(group.date).toLocaleDateString(language === 'ar' ? 'ar-EG' : 'en-US');
@@ -32,24 +132,30 @@ export const exportTransferPDF = (transactions: Transaction[], language: Languag
   doc.text(`${t.from}: ${fromLocationName}`, isRtl ? 190 : 14, metadataY, { align: isRtl ? 'right' : 'left' });
   doc.text(`${t.to}: ${toLocationName}`, isRtl ? 190 : 14, metadataY + 5, { align: isRtl ? 'right' : 'left' });
   doc.text(`${t.date}: ${dateStr}`, isRtl ? 190 : 14, metadataY + 10, { align: isRtl ? 'right' : 'left' });
+  doc.setFont(fontFor(group.performedBy, language), 'normal');
   doc.text(`${t.performedBy}: ${group.performedBy}`, isRtl ? 190 : 14, metadataY + 15, { align: isRtl ? 'right' : 'left' });
 
-  // Table
-  const tableData = transactions.map(tx => [
-    language === 'ar' ? tx.itemNameAr : tx.itemNameEn,
-    `${tx.quantity} ${tx.unit}`
-  ]);
+  // Table - once received, show what was sent next to what arrived
+  const isReceived = transactions.some(tx => tx.receivedQuantity !== undefined);
+  const tableData = transactions.map(tx => {
+    const name = language === 'ar' ? tx.itemNameAr : tx.itemNameEn;
+    if (!isReceived) return [name, `${tx.quantity} ${tx.unit}`];
+    const received = tx.receivedQuantity ?? tx.quantity;
+    const shortfall = tx.quantity - received;
+    const note = shortfall > 0
+      ? `${shortfall} ${tx.shortfallAction === 'loss' ? t.shortfallLost : t.shortfallReturned}${tx.discrepancyReason ? ` - ${tx.discrepancyReason}` : ''}`
+      : '-';
+    return [name, `${tx.quantity} ${tx.unit}`, `${received} ${tx.unit}`, note];
+  });
 
-  autoTable(doc, {
+  autoTable(doc, reportTable(language, {
     startY: 65,
-    head: [[t.itemName, t.quantity]],
+    head: [isReceived ? [t.itemName, t.sent, t.received, t.notes] : [t.itemName, t.quantity]],
     body: tableData,
-    theme: 'striped',
-    headStyles: { fillColor: [234, 88, 12] },
-    styles: { font: isRtl ? 'Cairo' : 'helvetica', halign: isRtl ? 'right' : 'left' }
-  });
+    headStyles: { fillColor: [234, 88, 12] }
+  }));
 
-  // --- STAMP & SIGNATURE SECTION ---
+  // --- VERIFICATION CODE & SIGNATURE SECTION ---
   // Determine Y position after table
   let finalY = (doc as any).lastAutoTable.finalY || 100;
   
@@ -60,50 +166,260 @@ export const exportTransferPDF = (transactions: Transaction[], language: Languag
   }
 
   const sectionY = finalY + 15;
-  const stampX = isRtl ? 40 : 160; 
-  const stampY = sectionY + 15;
+  const codeSize = 40;
+  const codeX = isRtl ? 20 : 190 - codeSize;
+  const lineY = sectionY + 25;
 
-  // Draw Signature Line
+  // Signature lines, sender first in reading order: the drawn signature sits on the line, with
+  // the signer's name and the time below it
+  const sigWidth = 50;
+  const sigHeight = 18;
+  const signatureBlocks: { role: TransferSignatureRole, label: string, x: number }[] = [
+    { role: 'sender', label: t.senderSignature, x: isRtl ? 140 : 20 },
+    { role: 'receiver', label: t.receiverSignature, x: 80 }
+  ];
+  signatureBlocks.forEach(({ role, label, x }) => {
+    const signature = signatures.find(s => s.role === role);
+    const centerX = x + sigWidth / 2;
+    if (signature) {
+      const { width, height } = doc.getImageProperties(signature.image);
+      const scale = Math.min(sigWidth / width, sigHeight / height);
+      doc.addImage(signature.image, 'PNG', centerX - (width * scale) / 2, lineY - 1 - height * scale, width * scale, height * scale);
+    }
+
+    doc.setDrawColor(100, 100, 100);
+    doc.setLineWidth(0.5);
+    doc.line(x, lineY, x + sigWidth, lineY);
+
+    doc.setTextColor(50, 50, 50);
+    doc.setFontSize(8);
+    doc.setFont(fontFor(label, language), 'normal');
+    doc.text(label, centerX, lineY + 5, { align: 'center' });
+    if (signature) {
+      doc.setFontSize(10);
+      doc.setFont(fontFor(signature.signerName, language), 'bold');
+      doc.text(signature.signerName, centerX, lineY + 10, { align: 'center' });
+      const signedAt = `${t.signedAt}: ${new Date(signature.signedAt).toLocaleString(isRtl ? 'ar-EG' : 'en-US')}`;
+      doc.setFontSize(7);
+      doc.setFont(fontFor(signedAt, language), 'normal');
+      doc.setTextColor(100, 100, 100);
+      doc.text(signedAt, centerX, lineY + 14, { align: 'center' });
+    }
+  });
+
+  // The receiving branch scans this to open the transfer; the code is signed by the server, so
+  // a copy with other lines or another transfer's code is flagged (see verify_transfer_document)
+  if (documentCode) {
+      drawQR(doc, documentCode, codeX, sectionY, codeSize);
+      doc.setFont(fontFor(t.scanToReceive, language), 'normal');
+      doc.setFontSize(7);
+      doc.setTextColor(100, 100, 100);
+      doc.text(t.scanToReceive, codeX + codeSize / 2, sectionY + codeSize + 3, { align: 'center' });
+      doc.text(group.transferGroupId || '', codeX + codeSize / 2, sectionY + codeSize + 7, { align: 'center' });
+  }
+
+  doc.save(`Transfer_${group.transferGroupId || group.id}.pdf`);
+};
+
+export const exportPurchaseOrderPDF = async (order: PurchaseOrder, supplier: Supplier | undefined, language: Language) => {
+  const t = TRANSLATIONS[language];
+  const doc = await createPdf(language);
+
+  const isRtl = language === 'ar';
+  const x = isRtl ? 190 : 14;
+  const align = isRtl ? 'right' : 'left';
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(language === 'ar' ? 'ar-EG' : 'en-US');
+
+  // Header
+  doc.setFontSize(22);
+  doc.setTextColor(234, 88, 12); // Brand color
+  doc.text(t.title, x, 20, { align });
+
+  doc.setFontSize(16);
+  doc.setTextColor(0, 0, 0);
+  doc.text(`${t.purchaseOrder} ${order.poNumber}`, x, 30, { align });
+
+  // Supplier & order details
+  doc.setFontSize(10);
+  doc.setTextColor(100, 100, 100);
+  const details = [
+    `${t.supplier}: ${supplier?.name || order.supplierName}`,
+    supplier?.contactName ? `${t.contactName}: ${supplier.contactName}` : '',
+    supplier?.phone ? `${t.phone}: ${supplier.phone}` : '',
+    supplier?.email ? `${t.email}: ${supplier.email}` : '',
+    supplier?.address ? `${t.address}: ${supplier.address}` : '',
+    `${t.orderDate}: ${formatDate(order.orderDate)}`,
+    order.expectedDate ? `${t.expectedDate}: ${formatDate(order.expectedDate)}` : '',
+    `${t.to}: ${t.warehouse}`
+  ].filter(Boolean);
+  details.forEach((line, i) => {
+    doc.setFont(fontFor(line, language), 'normal');
+    doc.text(line, x, 40 + i * 5, { align });
+  });
+
+  let startY = 40 + details.length * 5 + 5;
+  if (order.notes) {
+    doc.setFont(fontFor(order.notes, language), 'normal');
+    doc.text(order.notes, x, startY, { align, maxWidth: 176 });
+    startY += 10;
+  }
+
+  // Lines - received quantities are shown once deliveries have started
+  const showReceived = order.lines.some(l => l.receivedQuantity > 0);
+  autoTable(doc, reportTable(language, {
+    startY,
+    head: [showReceived ? [t.itemName, t.ordered, t.received, t.outstanding] : [t.itemName, t.quantity]],
+    body: order.lines.map(l => {
+      const name = language === 'ar' ? l.itemNameAr : l.itemNameEn;
+      return showReceived
+        ? [name, `${l.quantity} ${l.unit}`, `${l.receivedQuantity} ${l.unit}`, `${l.quantity - l.receivedQuantity} ${l.unit}`]
+        : [name, `${l.quantity} ${l.unit}`];
+    }),
+    headStyles: { fillColor: [234, 88, 12] }
+  }));
+
+  // Authorisation line
+  let finalY = (doc as any).lastAutoTable.finalY || 100;
+  if (finalY > 250) {
+    doc.addPage();
+    finalY = 20;
+  }
   const sigX = isRtl ? 140 : 20;
   doc.setDrawColor(100, 100, 100);
   doc.setLineWidth(0.5);
-  doc.line(sigX, stampY + 10, sigX + 50, stampY + 10);
-  
+  doc.line(sigX, finalY + 30, sigX + 50, finalY + 30);
   doc.setTextColor(50, 50, 50);
   doc.setFontSize(8);
-  doc.text(t.performedBy, sigX + 25, stampY + 15, { align: 'center' });
+  doc.setFont(fontFor(t.performedBy, language), 'normal');
+  doc.text(t.performedBy, sigX + 25, finalY + 35, { align: 'center' });
+  if (order.createdBy) {
+    doc.setFontSize(10);
+    doc.setFont(fontFor(order.createdBy, language), 'bold');
+    doc.text(order.createdBy, sigX + 25, finalY + 28, { align: 'center' });
+  }
+
+  doc.save(`${order.poNumber}.pdf`);
+};
+
+export const exportStockTakeVariancePDF = async (stockTake: StockTake, locationName: string, language: Language) => {
+  const t = TRANSLATIONS[language];
+  const doc = await createPdf(language);
+
+  const isRtl = language === 'ar';
+  const x = isRtl ? 190 : 14;
+  const align = isRtl ? 'right' : 'left';
+  const formatDate = (date: string) => new Date(date).toLocaleString(language === 'ar' ? 'ar-EG' : 'en-US');
+  const statusLabels = {
+    counting: t.stockTakeStatusCounting,
+    submitted: t.stockTakeStatusSubmitted,
+    approved: t.stockTakeStatusApproved,
+    cancelled: t.stockTakeStatusCancelled
+  };
+
+  // Header
+  doc.setFontSize(22);
+  doc.setTextColor(234, 88, 12); // Brand color
+  doc.text(t.title, x, 20, { align });
+
+  doc.setFontSize(16);
+  doc.setTextColor(0, 0, 0);
+  doc.setFont(fontFor(locationName, language), 'normal');
+  doc.text(`${t.varianceReport} ${stockTake.stockTakeNumber} - ${locationName}`, x, 30, { align });
+
   doc.setFontSize(10);
-  doc.setFont("helvetica", "bold");
-  doc.text(group.performedBy, sigX + 25, stampY + 8, { align: 'center' });
-
-  // Draw Official Stamp
-  const locationLabel = (fromLocationName || 'WAREHOUSE').toUpperCase();
-  const stampColor = [0, 51, 102]; // Navy Blue Ink
-
-  doc.setDrawColor(stampColor[0], stampColor[1], stampColor[2]);
-  doc.setTextColor(stampColor[0], stampColor[1], stampColor[2]);
-  doc.setLineWidth(1.2);
-  doc.circle(stampX, stampY, 20); // Outer ring
-  doc.setLineWidth(0.4);
-  doc.circle(stampX, stampY, 18); // Inner ring
-
-  // Stamp Text
-  doc.setFontSize(7);
-  doc.setFont("helvetica", "bold");
-  // Top
-  doc.text("DAWAR SAADA INVENTORY", stampX, stampY - 12, { align: 'center' });
-  // Center
-  doc.setFontSize(11);
-  doc.text("SENT / DISPATCHED", stampX, stampY, { align: 'center' });
-  // Bottom Location
-  doc.setFontSize(7);
-  doc.text(locationLabel, stampX, stampY + 10, { align: 'center' });
-  // Bottom Date
-  doc.setFontSize(6);
-  doc.setFont("helvetica", "normal");
-  doc.text(dateStr, stampX, stampY + 14, { align: 'center' });
+  doc.setTextColor(100, 100, 100);
+  const details = [
+    `${t.status}: ${statusLabels[stockTake.status]}`,
+    `${t.countStarted}: ${formatDate(stockTake.startedAt)} (${stockTake.startedBy})`,
+    stockTake.submittedAt ? `${t.countSubmitted}: ${formatDate(stockTake.submittedAt)} (${stockTake.submittedBy})` : '',
+    stockTake.approvedAt ? `${t.countApproved}: ${formatDate(stockTake.approvedAt)} (${stockTake.approvedBy})` : '',
+    stockTake.notes || ''
+  ].filter(Boolean);
+  details.forEach((line, i) => {
+    doc.setFont(fontFor(line, language), 'normal');
+    doc.text(line, x, 40 + i * 5, { align });
+  });
 
-  doc.save(`Transfer_${group.transferGroupId || group.id}.pdf`);
+  // Lines that differ come first (largest shortfall at the top), then matching lines, then uncounted ones
+  const varianceOf = (l: StockTakeLine) => l.countedQuantity === undefined ? 0 : l.countedQuantity - l.expectedQuantity;
+  const groupOf = (l: StockTakeLine) => l.countedQuantity === undefined ? 2 : varianceOf(l) === 0 ? 1 : 0;
+  const lines = [...stockTake.lines].sort((a, b) => groupOf(a) - groupOf(b) || varianceOf(a) - varianceOf(b));
+
+  // Locations that produce from recipes also compare what the recipes say was used with what was
+  const hasProduction = stockTake.lines.some(l => l.productionUsage > 0);
+  const usageColumns = (l: StockTakeLine) => {
+    if (!hasProduction) return [];
+    const actual = getActualUsage(l);
+    return [`${l.productionUsage} ${l.unit}`, actual === undefined ? '-' : `${actual} ${l.unit}`];
+  };
+
+  autoTable(doc, reportTable(language, {
+    startY: 40 + details.length * 5 + 5,
+    head: [[t.itemName, t.expected, t.counted, t.variance, ...(hasProduction ? [t.theoreticalUsage, t.actualUsage] : [])]],
+    body: lines.map(l => {
+      const name = language === 'ar' ? l.itemNameAr : l.itemNameEn;
+      if (l.countedQuantity === undefined) return [name, `${l.expectedQuantity} ${l.unit}`, t.notCounted, '-', ...usageColumns(l)];
+      const variance = l.countedQuantity - l.expectedQuantity;
+      return [name, `${l.expectedQuantity} ${l.unit}`, `${l.countedQuantity} ${l.unit}`, `${variance > 0 ? '+' : ''}${variance} ${l.unit}`, ...usageColumns(l)];
+    }),
+    headStyles: { fillColor: [234, 88, 12] }
+  }));
+
+  // Summary
+  let finalY = (doc as any).lastAutoTable.finalY || 100;
+  const counted = stockTake.lines.filter(l => l.countedQuantity !== undefined);
+  const differing = counted.filter(l => l.countedQuantity !== l.expectedQuantity);
+  doc.setFontSize(10);
+  doc.setTextColor(50, 50, 50);
+  doc.setFont(language === 'ar' ? 'Cairo' : 'helvetica', 'normal');
+  doc.text(`${t.counted}: ${counted.length}/${stockTake.lines.length} • ${t.variance}: ${differing.length}`, x, finalY + 10, { align });
+
+  // Counted by / approved by
+  if (finalY > 240) {
+    doc.addPage();
+    finalY = 20;
+  }
+  [
+    { label: t.countSubmitted, name: stockTake.submittedBy, sigX: isRtl ? 140 : 20 },
+    { label: t.countApproved, name: stockTake.approvedBy, sigX: isRtl ? 20 : 140 }
+  ].forEach(({ label, name, sigX }) => {
+    doc.setDrawColor(100, 100, 100);
+    doc.setLineWidth(0.5);
+    doc.line(sigX, finalY + 35, sigX + 50, finalY + 35);
+    doc.setTextColor(50, 50, 50);
+    doc.setFontSize(8);
+    doc.setFont(fontFor(label, language), 'normal');
+    doc.text(label, sigX + 25, finalY + 40, { align: 'center' });
+    if (name) {
+      doc.setFontSize(10);
+      doc.setFont(fontFor(name, language), 'bold');
+      doc.text(name, sigX + 25, finalY + 33, { align: 'center' });
+    }
+  });
+
+  doc.save(`${stockTake.stockTakeNumber}_${locationName}.pdf`);
+};
+
+export const exportInventoryPDF = async (items: InventoryItem[], locationName: string, language: Language) => {
+  const t = TRANSLATIONS[language];
+  const doc = await createPdf(language);
+  const isRtl = language === 'ar';
+  const totalValue = items.reduce((sum, item) => sum + (stockValue(item) ?? 0), 0);
+
+  doc.setFont(fontFor(locationName, language), 'normal');
+  doc.text(`${t.inventory} - ${locationName}`, isRtl ? 190 : 14, 15, { align: isRtl ? 'right' : 'left' });
+  autoTable(doc, reportTable(language, {
+    startY: 20,
+    head: [[t.itemNameEn, t.itemNameAr, t.category, t.quantity, t.unit, t.averageCost, t.stockValue, t.lastUpdated]],
+    body: items.map(item => [
+      item.nameEn, item.nameAr, item.category, item.quantity, item.unit,
+      item.averageCost === undefined ? '-' : formatMoney(item.averageCost, language),
+      stockValue(item) === undefined ? '-' : formatMoney(stockValue(item)!, language),
+      item.lastUpdated
+    ]),
+    foot: [['', '', '', '', '', t.totalValue, formatMoney(totalValue, language), '']]
+  }));
+  doc.save(`Inventory_${locationName}.pdf`);
 };
 
 export const exportInventoryExcel = (items: InventoryItem[], locationName: string, language: Language) => {
@@ -114,22 +430,21 @@ export const exportInventoryExcel = (items: InventoryItem[], locationName: strin
     [t.category]: item.category,
     [t.stockLevel]: item.quantity,
     [t.unit]: item.unit,
+    [t.averageCost]: item.averageCost === undefined ? '' : roundMoney(item.averageCost),
+    [t.stockValue]: stockValue(item) === undefined ? '' : roundMoney(stockValue(item)!),
     [t.lastUpdated]: item.lastUpdated
   }));
+  const totalValue = items.reduce((sum, item) => sum + (stockValue(item) ?? 0), 0);
 
-  const ws = XLSX.utils.json_to_sheet(data);
+  const ws = XLSX.utils.json_to_sheet([...data, { [t.itemNameEn]: t.totalValue, [t.stockValue]: roundMoney(totalValue) }]);
   const wb = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(wb, ws, "Inventory");
   XLSX.writeFile(wb, `Inventory_${locationName}.xlsx`);
 };
 
-export const exportDailyReportPDF = (transactions: Transaction[], locationId: string, locationName: string, language: Language, userName: string | undefined, date?: string, getLocationName?: (id: string) => string) => {
+export const exportDailyReportPDF = async (transactions: Transaction[], locationId: string, locationName: string, language: Language, userName: string | undefined, date?: string, getLocationName?: (id: string) => string) => {
   const t = TRANSLATIONS[language];
-  const doc = new jsPDF({
-    orientation: 'portrait',
-    unit: 'mm',
-    format: 'a4'
-  });
+  const doc = await createPdf(language);
 
   const isRtl = language === 'ar';
   
@@ -141,6 +456,11 @@ export const exportDailyReportPDF = (transactions: Transaction[], locationId: st
   const received = transactions.filter(t => t.type === 'receive' || (t.type === 'transfer' && t.toLocation === locationId));
   const used = transactions.filter(t => t.type === 'usage');
 
+  // Value of what moved, at the unit cost recorded on each transaction
+  const valueOf = (tx: Transaction) => tx.unitCost === undefined ? undefined : (tx.receivedQuantity ?? tx.quantity) * tx.unitCost;
+  const money = (value: number | undefined) => value === undefined ? '-' : formatMoney(value, language);
+  const total = (txs: Transaction[]) => txs.reduce((sum, tx) => sum + (valueOf(tx) ?? 0), 0);
+
   // Header
   doc.setFontSize(22);
   doc.setTextColor(234, 88, 12); 
@@ -148,12 +468,15 @@ export const exportDailyReportPDF = (transactions: Transaction[], locationId: st
   
   doc.setFontSize(16);
   doc.setTextColor(0, 0, 0);
+  doc.setFont(fontFor(locationName, language), 'normal');
   doc.text(`${t.dailyReport} - ${locationName}`, isRtl ? 190 : 14, 30, { align: isRtl ? 'right' : 'left' });
 
   doc.setFontSize(10);
   doc.setTextColor(100, 100, 100);
+  doc.setFont(fontFor(dateStr, language), 'normal');
   doc.text(`${t.date}: ${dateStr}`, isRtl ? 190 : 14, 40, { align: isRtl ? 'right' : 'left' });
   if (userName) {
+    doc.setFont(fontFor(userName, language), 'normal');
     doc.text(`${t.performedBy}: ${userName}`, isRtl ? 190 : 14, 45, { align: isRtl ? 'right' : 'left' });
   }
 
@@ -163,16 +486,17 @@ export const exportDailyReportPDF = (transactions: Transaction[], locationId: st
   if (received.length > 0) {
     doc.setFontSize(12);
     doc.setTextColor(0, 100, 0); // Green title
+    doc.setFont(fontFor(t.receivedToday, language), 'normal');
     doc.text(t.receivedToday, isRtl ? 190 : 14, finalY, { align: isRtl ? 'right' : 'left' });
     
-    autoTable(doc, {
+    autoTable(doc, reportTable(language, {
       startY: finalY + 5,
-      head: [[t.itemName, t.quantity, t.from]],
-      body: received.map(tx => [language === 'ar' ? tx.itemNameAr : tx.itemNameEn, `${tx.quantity} ${tx.unit}`, getLocationName ? getLocationName(tx.fromLocation || '') : (tx.fromLocation || '-')]),
-      theme: 'striped',
+      head: [[t.itemName, t.quantity, t.from, t.unitCost, t.value]],
+      body: received.map(tx => [language === 'ar' ? tx.itemNameAr : tx.itemNameEn, `${tx.receivedQuantity ?? tx.quantity} ${tx.unit}`, getLocationName ? getLocationName(tx.fromLocation || '') : (tx.fromLocation || '-'), money(tx.unitCost), money(valueOf(tx))]),
+      foot: [['', '', '', t.totalValue, money(total(received))]],
       headStyles: { fillColor: [34, 197, 94] }, // Green-500
-      styles: { font: isRtl ? 'Cairo' : 'helvetica', halign: isRtl ? 'right' : 'left' }
-    });
+      footStyles: { fillColor: [240, 253, 244], textColor: [0, 100, 0] }
+    }));
     finalY = (doc as any).lastAutoTable.finalY + 15;
   }
 
@@ -180,22 +504,24 @@ export const exportDailyReportPDF = (transactions: Transaction[], locationId: st
   if (used.length > 0) {
     doc.setFontSize(12);
     doc.setTextColor(220, 38, 38); // Red title
+    doc.setFont(fontFor(t.usedToday, language), 'normal');
     doc.text(t.usedToday, isRtl ? 190 : 14, finalY, { align: isRtl ? 'right' : 'left' });
     
-    autoTable(doc, {
+    autoTable(doc, reportTable(language, {
       startY: finalY + 5,
-      head: [[t.itemName, t.quantity, t.notes]],
-      body: used.map(tx => [language === 'ar' ? tx.itemNameAr : tx.itemNameEn, `${tx.quantity} ${tx.unit}`, tx.notes || '-']),
-      theme: 'striped',
+      head: [[t.itemName, t.quantity, t.notes, t.unitCost, t.value]],
+      body: used.map(tx => [language === 'ar' ? tx.itemNameAr : tx.itemNameEn, `${tx.quantity} ${tx.unit}`, tx.notes || '-', money(tx.unitCost), money(valueOf(tx))]),
+      foot: [['', '', '', t.costOfGoodsUsed, money(total(used))]],
       headStyles: { fillColor: [239, 68, 68] }, // Red-500
-      styles: { font: isRtl ? 'Cairo' : 'helvetica', halign: isRtl ? 'right' : 'left' }
-    });
+      footStyles: { fillColor: [254, 242, 242], textColor: [185, 28, 28] }
+    }));
     finalY = (doc as any).lastAutoTable.finalY + 15;
   }
 
   if (received.length === 0 && used.length === 0) {
     doc.setFontSize(10);
     doc.setTextColor(150, 150, 150);
+    doc.setFont(fontFor(t.noTransactionsToday, language), 'normal');
     doc.text(t.noTransactionsToday, 105, finalY, { align: 'center' });
     finalY += 20;
   }
@@ -217,9 +543,10 @@ export const exportDailyReportPDF = (transactions: Transaction[], locationId: st
     
     doc.setTextColor(50, 50, 50);
     doc.setFontSize(8);
+    doc.setFont(fontFor(t.performedBy, language), 'normal');
     doc.text(t.performedBy, sigX + 25, sectionY + 20, { align: 'center' });
     doc.setFontSize(10);
-    doc.setFont("helvetica", "bold");
+    doc.setFont(fontFor(userName, language), 'bold');
     doc.text(userName, sigX + 25, sectionY + 13, { align: 'center' });
   }
 
@@ -232,6 +559,9 @@ export const exportDailyReportExcel = (transactions: Transaction[], locationId:
     // Separating transactions
     const received = transactions.filter(t => t.type === 'receive' || (t.type === 'transfer' && t.toLocation === locationId));
     const used = transactions.filter(t => t.type === 'usage');
+
+    const valueOf = (tx: Transaction) => tx.unitCost === undefined ? undefined : roundMoney((tx.receivedQuantity ?? tx.quantity) * tx.unitCost);
+    const total = (txs: Transaction[]) => roundMoney(txs.reduce((sum, tx) => sum + (valueOf(tx) ?? 0), 0));
   
     const wb = XLSX.utils.book_new();
   
@@ -240,12 +570,14 @@ export const exportDailyReportExcel = (transactions: Transaction[], locationId:
       const receivedData = received.map(tx => ({
         [t.date]: new Date(tx.date).toLocaleDateString(),
         [t.itemName]: language === 'ar' ? tx.itemNameAr : tx.itemNameEn,
-        [t.quantity]: tx.quantity,
+        [t.quantity]: tx.receivedQuantity ?? tx.quantity,
         [t.unit]: tx.unit,
         [t.from]: getLocationName ? getLocationName(tx.fromLocation || '') : (tx.fromLocation || '-'),
-        [t.performedBy]: tx.performedBy
+        [t.performedBy]: tx.performedBy,
+        [t.unitCost]: tx.unitCost ?? '',
+        [t.value]: valueOf(tx) ?? ''
       }));
-      const wsReceived = XLSX.utils.json_to_sheet(receivedData);
+      const wsReceived = XLSX.utils.json_to_sheet([...receivedData, { [t.itemName]: t.totalValue, [t.value]: total(received) }]);
       XLSX.utils.book_append_sheet(wb, wsReceived, "Received");
     }
   
@@ -257,9 +589,11 @@ export const exportDailyReportExcel = (transactions: Transaction[], locationId:
         [t.quantity]: tx.quantity,
         [t.unit]: tx.unit,
         [t.notes]: tx.notes,
-        [t.performedBy]: tx.performedBy
+        [t.performedBy]: tx.performedBy,
+        [t.unitCost]: tx.unitCost ?? '',
+        [t.value]: valueOf(tx) ?? ''
       }));
-      const wsUsed = XLSX.utils.json_to_sheet(usedData);
+      const wsUsed = XLSX.utils.json_to_sheet([...usedData, { [t.itemName]: t.costOfGoodsUsed, [t.value]: total(used) }]);
       XLSX.utils.book_append_sheet(wb, wsUsed, "Used");
     }
   
@@ -270,4 +604,185 @@ export const exportDailyReportExcel = (transactions: Transaction[], locationId:
     }
   
     XLSX.writeFile(wb, `DailyReport_${locationName}_${date}.xlsx`);
-  };
\ No newline at end of file
+  };
+const formatMonth = (month: string, language: Language) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(language === 'ar' ? 'ar-EG' : 'en-US', { month: 'long', year: 'numeric' });
+};
+
+const wasteReasonLabels = (language: Language): Record<WasteReasonCode, string> => {
+  const t = TRANSLATIONS[language];
+  return { expired: t.reasonExpired, damaged: t.reasonDamaged, spoiled: t.reasonSpoiled, other: t.reasonOther };
+};
+
+// Monthly waste report, from buildWasteSummary(): one line per product, location and reason
+export const exportWasteReportPDF = async (rows: WasteSummaryRow[], month: string, language: Language, getLocationName: (id: string) => string) => {
+  const t = TRANSLATIONS[language];
+  const doc = await createPdf(language);
+
+  const isRtl = language === 'ar';
+  const x = isRtl ? 190 : 14;
+  const align = isRtl ? 'right' : 'left';
+  const reasonLabels = wasteReasonLabels(language);
+
+  // Header
+  doc.setFontSize(22);
+  doc.setTextColor(234, 88, 12); // Brand color
+  doc.text(t.title, x, 20, { align });
+
+  doc.setFontSize(16);
+  doc.setTextColor(0, 0, 0);
+  doc.text(`${t.wasteReport} - ${formatMonth(month, language)}`, x, 30, { align });
+
+  if (rows.length === 0) {
+    doc.setFontSize(10);
+    doc.setTextColor(150, 150, 150);
+    doc.text(t.noWasteThisMonth, 105, 45, { align: 'center' });
+  } else {
+    autoTable(doc, reportTable(language, {
+      startY: 40,
+      head: [[t.itemName, t.location, t.writeOffReason, t.quantity, t.writeOffs]],
+      body: rows.map(row => [
+        language === 'ar' ? row.itemNameAr : row.itemNameEn,
+        getLocationName(row.locationId),
+        reasonLabels[row.reasonCode],
+        `${row.quantity} ${row.unit}`,
+        row.writeOffs
+      ]),
+      headStyles: { fillColor: [239, 68, 68] } // Red-500
+    }));
+
+    // Totals per reason
+    const finalY = (doc as any).lastAutoTable.finalY || 100;
+    const writeOffsByReason: Record<string, number> = {};
+    rows.forEach(row => { writeOffsByReason[row.reasonCode] = (writeOffsByReason[row.reasonCode] || 0) + row.writeOffs; });
+    doc.setFontSize(10);
+    doc.setTextColor(50, 50, 50);
+    doc.text(Object.keys(writeOffsByReason).map(code => `${reasonLabels[code as WasteReasonCode]}: ${writeOffsByReason[code]}`).join(' • '), x, finalY + 10, { align });
+  }
+
+  doc.save(`WasteReport_${month}.pdf`);
+};
+
+export const exportWasteReportExcel = (rows: WasteSummaryRow[], month: string, language: Language, getLocationName: (id: string) => string) => {
+  const t = TRANSLATIONS[language];
+  const reasonLabels = wasteReasonLabels(language);
+  const data = rows.length > 0
+    ? rows.map(row => ({
+        [t.itemNameEn]: row.itemNameEn,
+        [t.itemNameAr]: row.itemNameAr,
+        [t.location]: getLocationName(row.locationId),
+        [t.writeOffReason]: reasonLabels[row.reasonCode],
+        [t.quantity]: row.quantity,
+        [t.unit]: row.unit,
+        [t.writeOffs]: row.writeOffs
+      }))
+    : [{ Note: t.noWasteThisMonth }];
+
+  const ws = XLSX.utils.json_to_sheet(data);
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, "Waste");
+  XLSX.writeFile(wb, `WasteReport_${month}.xlsx`);
+};
+
+// Code 128 across the given width, with the quiet zone of 10 modules each side inside it
+const drawCode128 = (doc: jsPDF, code: string, x: number, y: number, width: number, height: number) => {
+  const modules = encodeCode128(code);
+  const moduleWidth = width / (modules.length + 20);
+  doc.setFillColor(0, 0, 0);
+  let start = -1;
+  modules.forEach((dark, i) => {
+    if (dark && start < 0) start = i;
+    if (start >= 0 && (!dark || i === modules.length - 1)) {
+      const end = dark ? i + 1 : i;
+      doc.rect(x + (10 + start) * moduleWidth, y, (end - start) * moduleWidth, height, 'F');
+      start = -1;
+    }
+  });
+};
+
+// A QR code of the given size, its 4-module quiet zone included
+const drawQR = (doc: jsPDF, text: string, x: number, y: number, size: number) => {
+  const matrix = encodeQR(text);
+  const moduleSize = size / (matrix.length + 8);
+  doc.setFillColor(0, 0, 0);
+  matrix.forEach((row, r) => row.forEach((dark, c) => {
+    if (dark) doc.rect(x + (4 + c) * moduleSize, y + (4 + r) * moduleSize, moduleSize, moduleSize, 'F');
+  }));
+};
+
+// The code an item's labels carry. A barcode Code 128 cannot carry leaves that item's labels on the
+// SKU, or the internal code, rather than failing the sheet; the scanner finds the item by either
+export const getPrintedLabelCode = (item: InventoryItem, symbology: LabelSymbology) => {
+  if (symbology === 'qr') return getLabelCode(item);
+  return [item.barcode, item.sku].find(code => !!code && canEncodeCode128(code))
+    || getLabelCode({ id: item.id, productId: item.productId });
+};
+
+export interface LabelSheetOptions {
+  layout: LabelLayout;
+  symbology: LabelSymbology;
+  copies: number; // Labels per item
+  skip: number; // Labels already used at the start of the first sheet
+}
+
+// Shelf and bin labels: both names, the unit and a code the scanner reads back to the item
+export const exportLabelsPDF = async (items: InventoryItem[], options: LabelSheetOptions) => {
+  const { layout, symbology, copies, skip } = options;
+  const doc = await createPdf('en', layout.pageFormat);
+
+  const perPage = layout.columns * layout.rows;
+  const padding = Math.min(2.5, layout.labelHeight * 0.08);
+  const fontSize = Math.max(6, Math.min(11, layout.labelHeight / 4)); // pt
+  const lineHeight = fontSize * 0.42; // mm
+
+  const labels = items.flatMap(item => Array.from({ length: copies }, () => item));
+  labels.forEach((item, n) => {
+    const slot = skip + n;
+    if (slot > 0 && slot % perPage === 0) doc.addPage(layout.pageFormat, 'portrait');
+    const position = slot % perPage;
+    const x = layout.marginLeft + (position % layout.columns) * (layout.labelWidth + layout.gapX);
+    const y = layout.marginTop + Math.floor(position / layout.columns) * (layout.labelHeight + layout.gapY);
+    const code = getPrintedLabelCode(item, symbology);
+
+    const innerWidth = layout.labelWidth - padding * 2;
+    const innerHeight = layout.labelHeight - padding * 2;
+    let textX = x + padding;
+    let textWidth = innerWidth;
+    if (symbology === 'qr') {
+      const size = Math.min(innerHeight, innerWidth * 0.45);
+      drawQR(doc, code, x + padding, y + padding + (innerHeight - size) / 2, size);
+      textX += size + padding;
+      textWidth -= size + padding;
+    }
+
+    const fit = (text: string) => doc.splitTextToSize(text, textWidth)[0] || '';
+    let textY = y + padding;
+    doc.setTextColor(0, 0, 0);
+    doc.setFont(fontFor(item.nameEn, 'en'), 'bold');
+    doc.setFontSize(fontSize);
+    doc.text(fit(item.nameEn), textX, textY, { baseline: 'top' });
+    textY += lineHeight * 1.15;
+    doc.setFont('Cairo', 'normal');
+    doc.text(fit(item.nameAr), textX, textY, { baseline: 'top' });
+    textY += lineHeight * 1.15;
+    doc.setFont(fontFor(item.unit, 'en'), 'normal');
+    doc.setFontSize(fontSize * 0.75);
+    doc.setTextColor(90, 90, 90);
+    doc.text(fit(item.unit), textX, textY, { baseline: 'top' });
+
+    // The code in plain text, under the bars or the text
+    doc.setFont('courier', 'normal');
+    doc.setTextColor(0, 0, 0);
+    if (symbology === 'code128') {
+      const codeTextY = y + layout.labelHeight - padding - lineHeight * 0.75;
+      const barsY = textY + lineHeight;
+      drawCode128(doc, code, x + padding, barsY, innerWidth, Math.max(4, codeTextY - barsY - 0.8));
+      doc.text(code, x + layout.labelWidth / 2, codeTextY, { baseline: 'top', align: 'center' });
+    } else {
+      doc.text(fit(code), textX, y + layout.labelHeight - padding, { baseline: 'bottom' });
+    }
+  });
+
+  doc.save(`Labels_${new Date().toISOString().split('T')[0]}.pdf`);
+};
@@ -0,0 +1,861 @@
+import {
+  GoodsReceivedNote, InventoryItem, LocationData, LocationId, Product, PurchaseOrder, PurchaseOrderLine, Recipe, StockTake,
+  StockTakeStatus, Supplier, Transaction, TransactionStatus, TransferSignature, User
+} from '../types';
+import { Repository, RepositoryError, RepositoryErrorKind, TransactionPage } from './repository';
+import { compareLots } from './catalogService';
+import { TRANSACTION_PAGE_SIZE, TransactionCursor, matchesTransactionQuery, TransactionQuery } from './transferService';
+import { PurchaseOrderDraft } from './purchasingService';
+import { RecipeDraft } from './recipeService';
+
+// A Repository held in memory, for tests and demos without a network. It follows the rules the
+// database enforces for the transfer workflow, purchasing, stock-takes, usage and receipts,
+// write-offs, lots and recipes (sections 11 to 13, 15, 16 and 19 of supabase_schema.sql) and fails
+// with the same error kinds. Row-level security is not modelled: every record is visible, and only
+// the checks the RPCs and constraints make are applied.
+
+export interface MemorySeed {
+  user: User; // Signed in: decides what may be changed, and is recorded as performedBy
+  locations?: LocationData[];
+  users?: User[];
+  products?: Product[];
+  items?: InventoryItem[]; // Stock without lots is held in one unlabelled lot
+  transactions?: Transaction[];
+  suppliers?: Supplier[];
+  purchaseOrders?: PurchaseOrder[];
+  goodsReceivedNotes?: GoodsReceivedNote[];
+  stockTakes?: StockTake[];
+  recipes?: Recipe[];
+}
+
+export interface MemoryRepository extends Repository {
+  signIn(user: User): void; // Continue as another user, e.g. the receiving branch
+}
+
+// A lot as moved by a transaction; received dates travel with transferred stock
+type LotMove = { lotNumber?: string, expirationDate?: string, receivedAt?: string, quantity: number };
+
+type State = {
+  user: User;
+  locations: LocationData[];
+  users: User[];
+  products: Product[];
+  items: InventoryItem[];
+  transactions: Transaction[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  goodsReceivedNotes: GoodsReceivedNote[];
+  stockTakes: StockTake[];
+  recipes: Recipe[];
+  movedLots: Record<string, LotMove[]>; // By transaction id
+  idempotencyKeys: Record<string, string>; // Key -> transaction id
+  signatures: TransferSignature[];
+  skuCounter: number;
+  purchaseOrderCounter: number;
+  goodsReceivedCounter: number;
+  stockTakeCounter: number;
+};
+
+const SQLSTATES: Partial<Record<RepositoryErrorKind, string>> = {
+  not_found: 'P0002',
+  forbidden: '42501',
+  invalid: '23514',
+  conflict: '23505',
+  in_use: '23503'
+};
+
+const fail = (kind: RepositoryErrorKind, message: string): never => {
+  throw new RepositoryError(kind, message, SQLSTATES[kind]);
+};
+
+const copy = <T>(value: T): T => structuredClone(value);
+
+const newId = () => crypto.randomUUID();
+
+// The numbers the database's sequences hand out, e.g. PO-00001
+const serial = (prefix: string, counter: number) => `${prefix}-${String(counter).padStart(5, '0')}`;
+
+const lotKey = (lot: { lotNumber?: string, expirationDate?: string }) => `${lot.lotNumber || ''}|${lot.expirationDate || 'infinity'}`;
+
+const toAllocations = (moves: LotMove[]) => moves
+  .map(({ lotNumber, expirationDate, quantity }) => ({ lotNumber, expirationDate, quantity }))
+  .sort(compareLots);
+
+// Newest first, ties broken by id, as the database pages them
+const compareNewestFirst = (a: Transaction, b: Transaction) =>
+  b.date.localeCompare(a.date) || b.id.localeCompare(a.id);
+
+const managedLocations = (user: User): LocationId[] => {
+  switch (user.role) {
+    case 'warehouse_manager': return ['warehouse', 'mammal'];
+    case 'mammal_employee': return ['mammal'];
+    case 'branch_manager': return [user.branchCode, ...(user.accessibleBranches || [])].filter((l): l is string => !!l);
+    default: return [];
+  }
+};
+
+export const createMemoryRepository = (seed: MemorySeed): MemoryRepository => {
+  const now = () => new Date().toISOString();
+
+  let state: State = {
+    user: seed.user,
+    locations: copy(seed.locations || []),
+    users: copy(seed.users || [seed.user]),
+    products: copy(seed.products || []),
+    items: copy(seed.items || []).map(item => ({
+      ...item,
+      lots: item.lots && item.lots.length > 0
+        ? item.lots
+        : item.quantity > 0 ? [{ id: newId(), quantity: item.quantity, expirationDate: item.expirationDate, receivedAt: item.lastUpdated }] : []
+    })),
+    transactions: copy(seed.transactions || []),
+    suppliers: copy(seed.suppliers || []),
+    purchaseOrders: copy(seed.purchaseOrders || []),
+    goodsReceivedNotes: copy(seed.goodsReceivedNotes || []),
+    stockTakes: copy(seed.stockTakes || []),
+    recipes: copy(seed.recipes || []),
+    movedLots: {},
+    idempotencyKeys: {},
+    signatures: [],
+    skuCounter: (seed.products || []).length,
+    purchaseOrderCounter: (seed.purchaseOrders || []).length,
+    goodsReceivedCounter: (seed.goodsReceivedNotes || []).length,
+    stockTakeCounter: (seed.stockTakes || []).length
+  };
+
+  // Every change applies completely or not at all, like the database transaction it stands for
+  const atomic = async <T>(change: () => T): Promise<T> => {
+    const before = copy(state);
+    try {
+      return copy(change());
+    } catch (error) {
+      state = before;
+      throw error;
+    }
+  };
+
+  const read = async <T>(value: () => T): Promise<T> => copy(value());
+
+  const canManage = (locationId?: string) =>
+    state.user.role === 'admin' || (!!locationId && managedLocations(state.user).includes(locationId));
+
+  const findProduct = (productId?: string) =>
+    state.products.find(p => p.id === productId) || fail('not_found', `Product ${productId} not found`);
+
+  const stockedAt = (itemId: string, locationId: LocationId) =>
+    state.items.find(i => i.id === itemId && i.locationId === locationId) || fail('not_found', `Item ${itemId} is not stocked at ${locationId}`);
+
+  // private.adjust_stock: outgoing stock leaves the first-expiring lots (or only lotId), incoming
+  // stock goes into the given lots or one unlabelled lot, and its unitCost is averaged into the
+  // item's cost. Returns the lots that moved.
+  const adjustStock = (locationId: LocationId, productId: string, delta: number, lots?: LotMove[], lotId?: string, unitCost?: number): LotMove[] => {
+    const product = findProduct(productId);
+    let item = state.items.find(i => i.locationId === locationId && i.productId === productId);
+    if (!item) {
+      if (delta < 0) fail('invalid', `${product.nameEn} is not stocked at ${locationId}`);
+      item = { ...product, id: newId(), productId, quantity: 0, minThreshold: 0, lastUpdated: now(), locationId, lots: [] };
+      state.items.push(item);
+    } else if (item.quantity + delta < 0) {
+      fail('invalid', `Insufficient stock of ${product.nameEn} at ${locationId}: ${item.quantity} ${product.unit} available, ${-delta} requested`);
+    }
+    if (unitCost !== undefined && unitCost < 0) fail('invalid', `Unit cost of ${product.nameEn} cannot be negative`);
+    if (delta > 0 && unitCost !== undefined) {
+      item.averageCost = item.averageCost === undefined || item.quantity <= 0
+        ? unitCost
+        : (item.quantity * item.averageCost + delta * unitCost) / (item.quantity + delta);
+    }
+
+    const held = item.lots || [];
+    let moved: LotMove[] = [];
+    if (delta < 0) {
+      let left = -delta;
+      if (lotId) {
+        const lot = held.find(l => l.id === lotId) || fail('not_found', `Lot ${lotId} is not part of this stock`);
+        if (lot.quantity < left) fail('invalid', `Lot ${lot.lotNumber || '-'} only holds ${lot.quantity}`);
+      }
+      held.filter(l => !lotId || l.id === lotId).sort(compareLots).forEach(lot => {
+        if (left <= 0) return;
+        const take = Math.min(lot.quantity, left);
+        lot.quantity -= take;
+        left -= take;
+        moved.push({ lotNumber: lot.lotNumber, expirationDate: lot.expirationDate, receivedAt: lot.receivedAt, quantity: take });
+      });
+      item.lots = held.filter(l => l.quantity > 0);
+    } else if (delta > 0) {
+      moved = lots && lots.length > 0 ? lots : [{ quantity: delta }];
+      if (Math.abs(moved.reduce((sum, l) => sum + l.quantity, 0) - delta) > 1e-9) fail('invalid', `Lot quantities do not add up to ${delta}`);
+      moved.filter(l => l.quantity > 0).forEach(move => {
+        const lot = held.find(l => lotKey(l) === lotKey(move));
+        const receivedAt = move.receivedAt || now();
+        if (lot) {
+          lot.quantity += move.quantity;
+          if (receivedAt < lot.receivedAt) lot.receivedAt = receivedAt;
+        } else {
+          held.push({ id: newId(), lotNumber: move.lotNumber, expirationDate: move.expirationDate, receivedAt, quantity: move.quantity });
+        }
+      });
+      item.lots = held;
+    }
+
+    item.quantity += delta;
+    item.lots = (item.lots || []).sort(compareLots);
+    item.expirationDate = item.lots.map(l => l.expirationDate).filter((d): d is string => !!d).sort()[0];
+    item.lastUpdated = now();
+    return moved;
+  };
+
+  const performedBy = () =>
+    state.users.find(u => u.id === state.user.id)?.name || fail('forbidden', 'Not signed in');
+
+  const addTransaction = (tx: Omit<Transaction, 'id' | 'date' | 'performedBy'> & { date?: string }, lots: LotMove[] = []) => {
+    const created: Transaction = { id: newId(), date: now(), performedBy: performedBy(), ...tx, lots: toAllocations(lots) };
+    state.transactions.push(created);
+    state.movedLots[created.id] = lots.filter(l => l.quantity > 0);
+    return created;
+  };
+
+  const lockTransfer = (transactionId: string, expected: TransactionStatus[]) => {
+    const tx = state.transactions.find(t => t.id === transactionId && t.type === 'transfer')
+      || fail('not_found', `Transfer ${transactionId} not found`);
+    if (!expected.includes(tx.status)) fail('invalid', `Transfer of ${tx.itemNameEn} is already ${tx.status}`);
+    return tx;
+  };
+
+  // private.transfer_document_signature: an HMAC of the group's lines, keyed with a secret of this
+  // repository's own in place of the JWT secret. Either side of the transfer may ask for it.
+  const documentKey = crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const documentSignature = async (transferGroupId: string) => {
+    const lines = state.transactions.filter(tx => tx.type === 'transfer' && tx.transferGroupId === transferGroupId);
+    if (!lines.some(tx => canManage(tx.fromLocation) || canManage(tx.toLocation))) fail('not_found', `Transfer ${transferGroupId} not found`);
+    const signed = lines.map(tx => [tx.fromLocation, tx.toLocation, tx.productId, tx.quantity].join(':')).sort().join(';');
+    const mac = await crypto.subtle.sign('HMAC', await documentKey, new TextEncoder().encode(`transfer-document.${transferGroupId}.${signed}`));
+    return btoa(String.fromCharCode(...new Uint8Array(mac))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  };
+
+  // private.split_lots: the first `quantity` of the lots (first-expiring first), and the rest
+  const splitLots = (lots: LotMove[], quantity: number) => {
+    const head: LotMove[] = [];
+    const tail: LotMove[] = [];
+    let left = quantity;
+    [...lots].sort(compareLots).forEach(lot => {
+      const take = Math.max(Math.min(lot.quantity, left), 0);
+      if (take > 0) head.push({ ...lot, quantity: take });
+      if (lot.quantity > take) tail.push({ ...lot, quantity: lot.quantity - take });
+      left -= take;
+    });
+    return { head, tail };
+  };
+
+  const findOrder = (purchaseOrderId: string) =>
+    state.purchaseOrders.find(po => po.id === purchaseOrderId) || fail('not_found', `Purchase order ${purchaseOrderId} not found`);
+
+  const toOrderLines = (lines: PurchaseOrderDraft['lines']): PurchaseOrderLine[] => lines.map(line => {
+    if (!(line.quantity > 0)) fail('invalid', 'Ordered quantities must be positive');
+    const product = findProduct(line.productId);
+    return { id: newId(), productId: product.id, itemNameEn: product.nameEn, itemNameAr: product.nameAr, unit: product.unit, quantity: line.quantity, receivedQuantity: 0 };
+  });
+
+  const orderDetails = (draft: PurchaseOrderDraft) => {
+    const supplier = state.suppliers.find(s => s.id === draft.supplierId) || fail('not_found', `Supplier ${draft.supplierId} not found`);
+    return {
+      supplierId: supplier.id,
+      supplierName: supplier.name,
+      orderDate: draft.orderDate,
+      expectedDate: draft.expectedDate || undefined,
+      notes: draft.notes || undefined,
+      lines: toOrderLines(draft.lines)
+    };
+  };
+
+  // private.lock_stock_take: a count the user may work on, in one of the expected states
+  const lockStockTake = (stockTakeId: string, expected: StockTakeStatus[]) => {
+    const stockTake = state.stockTakes.find(st => st.id === stockTakeId) || fail('not_found', `Stock-take ${stockTakeId} not found`);
+    if (!canManage(stockTake.locationId)) fail('forbidden', `Not allowed to count stock at ${stockTake.locationId}`);
+    if (!expected.includes(stockTake.status)) fail('invalid', `Stock-take ${stockTake.stockTakeNumber} is ${stockTake.status}`);
+    return stockTake;
+  };
+
+  const toRecipe = (draft: RecipeDraft, id: string): Recipe => {
+    if (state.recipes.some(r => r.id !== id && r.nameEn.toLowerCase() === draft.nameEn.toLowerCase())) {
+      fail('conflict', `A recipe named ${draft.nameEn} already exists`);
+    }
+    return {
+      id,
+      nameEn: draft.nameEn,
+      nameAr: draft.nameAr || draft.nameEn,
+      yieldUnit: draft.yieldUnit,
+      notes: draft.notes || undefined,
+      ingredients: draft.ingredients.map(ingredient => {
+        if (!(ingredient.quantity > 0)) fail('invalid', 'Ingredient quantities must be positive');
+        const product = findProduct(ingredient.productId);
+        return { productId: product.id, itemNameEn: product.nameEn, itemNameAr: product.nameAr, unit: product.unit, quantity: ingredient.quantity };
+      }).sort((a, b) => a.itemNameEn.localeCompare(b.itemNameEn))
+    };
+  };
+
+  const page = (query: TransactionQuery, cursor?: TransactionCursor, pageSize = TRANSACTION_PAGE_SIZE): TransactionPage => {
+    const matching = state.transactions
+      .filter(tx => !query.locationId || tx.fromLocation === query.locationId || tx.toLocation === query.locationId)
+      .filter(tx => !query.since || tx.date >= query.since)
+      .filter(tx => cursor
+        ? tx.date < cursor.date || (tx.date === cursor.date && tx.id < cursor.id)
+        : !query.before || tx.date < query.before)
+      .sort(compareNewestFirst);
+    const transactions = matching.slice(0, pageSize);
+    const last = transactions[transactions.length - 1];
+    return { transactions, nextCursor: transactions.length === pageSize ? { date: last.date, id: last.id } : undefined };
+  };
+
+  return {
+    signIn: user => {
+      state.user = user;
+      if (!state.users.some(u => u.id === user.id)) state.users.push(copy(user));
+    },
+
+    locations: {
+      list: () => read(() => state.locations)
+    },
+
+    users: {
+      list: () => read(() => state.users.map(({ password: _password, ...user }) => user)),
+      create: user => atomic(() => {
+        if (state.users.some(u => u.username === user.username)) fail('conflict', `Username ${user.username} is taken`);
+        const { password: _password, ...profile } = user;
+        const created: User = { ...profile, id: newId() };
+        state.users.push(created);
+        if (created.role === 'branch_manager' && created.branchCode && !state.locations.some(l => l.id === created.branchCode)) {
+          state.locations.push({ id: created.branchCode, name: created.branchName || created.branchCode, nameAr: created.branchNameAr, description: 'Branch Inventory', icon: 'store', type: 'branch' });
+        }
+        return created;
+      }),
+      update: user => atomic(() => {
+        const index = state.users.findIndex(u => u.id === user.id);
+        if (index < 0) fail('not_found', `User ${user.id} not found`);
+        const { password: _password, ...profile } = user;
+        state.users[index] = profile;
+      }),
+      remove: userId => atomic(() => {
+        state.users = state.users.filter(u => u.id !== userId);
+      })
+    },
+
+    items: {
+      listProducts: () => read(() => [...state.products].sort((a, b) => a.nameEn.localeCompare(b.nameEn))),
+      createProduct: product => atomic(() => {
+        state.skuCounter++;
+        const created: Product = { ...product, id: newId(), sku: serial('SKU', state.skuCounter) };
+        state.products.push(created);
+        return created;
+      }),
+      updateProduct: product => atomic(() => {
+        const index = state.products.findIndex(p => p.id === product.id);
+        if (index < 0) fail('not_found', `Product ${product.id} not found`);
+        state.products[index] = { ...product, sku: state.products[index].sku };
+        const { id: _id, ...details } = state.products[index];
+        state.items = state.items.map(i => i.productId === product.id ? { ...i, ...details } : i);
+        return state.products[index];
+      }),
+      updateProducts: (productIds, updates) => atomic(() => {
+        state.products = state.products.map(p => productIds.includes(p.id) ? { ...p, ...updates } : p);
+        state.items = state.items.map(i => i.productId && productIds.includes(i.productId) ? { ...i, ...updates } : i);
+      }),
+      deleteProduct: productId => atomic(() => {
+        if (state.items.some(i => i.productId === productId)) {
+          fail('in_use', 'A product cannot be deleted while any location still stocks it');
+        }
+        state.products = state.products.filter(p => p.id !== productId);
+      }),
+      list: () => read(() => state.items),
+      fetch: (stockIds, productIds = []) => read(() =>
+        state.items.filter(i => stockIds.includes(i.id) || (!!i.productId && productIds.includes(i.productId)))),
+      add: (locationId, productId, stock) => atomic(() => {
+        const product = findProduct(productId);
+        if (state.items.some(i => i.locationId === locationId && i.productId === productId)) {
+          fail('conflict', `${product.nameEn} is already stocked at ${locationId}`);
+        }
+        const item: InventoryItem = {
+          ...product,
+          id: newId(),
+          productId,
+          quantity: 0,
+          minThreshold: stock.minThreshold,
+          lastUpdated: now(),
+          locationId,
+          lots: []
+        };
+        state.items.push(item);
+        if (stock.quantity > 0) adjustStock(locationId, productId, stock.quantity, [{ quantity: stock.quantity, expirationDate: stock.expirationDate }]);
+        return item;
+      }),
+      // A direct quantity edit keeps the lots in step, as private.sync_stock_lots() does
+      update: updated => atomic(() => {
+        const item = state.items.find(i => i.id === updated.id) || fail('not_found', `Item ${updated.id} not found`);
+        item.minThreshold = updated.minThreshold;
+        const delta = updated.quantity - item.quantity;
+        if (delta !== 0) {
+          adjustStock(item.locationId!, item.productId!, delta, delta > 0 ? [{ quantity: delta, expirationDate: updated.expirationDate }] : undefined);
+        }
+      }),
+      setMinThreshold: (itemIds, minThreshold) => atomic(() => {
+        state.items.forEach(i => { if (itemIds.includes(i.id)) i.minThreshold = minThreshold; });
+      }),
+      remove: itemIds => atomic(() => {
+        state.items = state.items.filter(i => !itemIds.includes(i.id));
+      })
+    },
+
+    transactions: {
+      page: (query, cursor, pageSize) => read(() => page(query, cursor, pageSize)),
+      history: (query, cursor) => read(() => {
+        const transactions: Transaction[] = [];
+        let next = cursor;
+        while (true) {
+          const result = page(query, next);
+          transactions.push(...result.transactions);
+          if (!result.nextCursor) break;
+          next = result.nextCursor;
+        }
+        const last = transactions[transactions.length - 1];
+        return { transactions, oldest: last ? { date: last.date, id: last.id } : cursor };
+      }),
+      pending: locationId => read(() => state.transactions
+        .filter(tx => tx.type === 'transfer' && (tx.status === 'pending_source' || tx.status === 'pending_target'))
+        .filter(tx => matchesTransactionQuery(tx, { locationId }))
+        .sort(compareNewestFirst)),
+      byIds: transactionIds => read(() => state.transactions.filter(tx => transactionIds.includes(tx.id))),
+
+      createTransfer: (fromLocation, toLocation, items) => atomic(() => {
+        performedBy();
+        if (fromLocation === toLocation) fail('invalid', 'Source and destination must differ');
+        if (items.length === 0) fail('invalid', 'A transfer needs at least one item');
+        const managesSource = canManage(fromLocation);
+        if (!managesSource && !canManage(toLocation) && state.user.role !== 'warehouse_manager') {
+          fail('forbidden', `You cannot request transfers between ${fromLocation} and ${toLocation}`);
+        }
+
+        const transferGroupId = `GRP-${newId()}`;
+        return items.map(line => {
+          if (!(line.quantity > 0)) fail('invalid', 'Transfer quantities must be positive');
+          const item = stockedAt(line.itemId, fromLocation);
+          const lots = managesSource ? adjustStock(fromLocation, item.productId!, -line.quantity) : [];
+          return addTransaction({
+            unitCost: managesSource ? item.averageCost : undefined,
+            transferGroupId,
+            type: 'transfer',
+            status: managesSource ? 'pending_target' : 'pending_source',
+            fromLocation,
+            toLocation,
+            productId: item.productId,
+            itemNameEn: item.nameEn,
+            itemNameAr: item.nameAr,
+            quantity: line.quantity,
+            unit: item.unit
+          }, lots);
+        });
+      }),
+
+      confirmTransfer: transactionId => atomic(() => {
+        const tx = lockTransfer(transactionId, ['pending_source']);
+        if (!canManage(tx.fromLocation)) fail('forbidden', `Only ${tx.fromLocation} can confirm this transfer`);
+        const lots = adjustStock(tx.fromLocation!, tx.productId!, -tx.quantity);
+        state.movedLots[tx.id] = lots;
+        tx.lots = toAllocations(lots);
+        tx.status = 'pending_target';
+        tx.unitCost = state.items.find(i => i.locationId === tx.fromLocation && i.productId === tx.productId)?.averageCost;
+        return tx;
+      }),
+
+      receiveTransfer: (transactionId, receipt) => atomic(() => {
+        const tx = lockTransfer(transactionId, ['pending_target']);
+        if (!canManage(tx.toLocation)) fail('forbidden', `Only ${tx.toLocation} can receive this transfer`);
+
+        const received = receipt?.receivedQuantity ?? tx.quantity;
+        if (received < 0 || received > tx.quantity) {
+          fail('invalid', `Received quantity of ${tx.itemNameEn} must be between 0 and ${tx.quantity}`);
+        }
+        const shortfall = tx.quantity - received;
+        const reason = receipt?.reason?.trim() || undefined;
+        const action = receipt?.shortfallAction ?? 'return';
+        if (shortfall > 0 && !reason) fail('invalid', `A reason is required when less ${tx.itemNameEn} arrives than was sent`);
+
+        const { head, tail } = splitLots(state.movedLots[tx.id] || [], received);
+        if (received > 0) adjustStock(tx.toLocation!, tx.productId!, received, head, undefined, tx.unitCost);
+        if (shortfall > 0) {
+          if (action === 'return') {
+            adjustStock(tx.fromLocation!, tx.productId!, shortfall, tail, undefined, tx.unitCost);
+          } else {
+            addTransaction({
+              transferGroupId: tx.transferGroupId,
+              type: 'loss',
+              status: 'completed',
+              fromLocation: tx.fromLocation,
+              toLocation: tx.toLocation,
+              productId: tx.productId,
+              itemNameEn: tx.itemNameEn,
+              itemNameAr: tx.itemNameAr,
+              quantity: shortfall,
+              unit: tx.unit,
+              notes: reason,
+              unitCost: tx.unitCost
+            }, tail);
+          }
+        }
+
+        tx.status = 'completed';
+        tx.receivedQuantity = received;
+        tx.discrepancyReason = shortfall > 0 ? reason : undefined;
+        tx.shortfallAction = shortfall > 0 ? action : undefined;
+        return tx;
+      }),
+
+      rejectTransfer: (transactionId, reason) => atomic(() => {
+        if (!reason.trim()) fail('invalid', 'A rejection reason is required');
+        const tx = lockTransfer(transactionId, ['pending_source', 'pending_target']);
+        if (!canManage(tx.status === 'pending_target' ? tx.toLocation : tx.fromLocation)) {
+          fail('forbidden', 'You cannot reject this transfer');
+        }
+        if (tx.status === 'pending_target') adjustStock(tx.fromLocation!, tx.productId!, tx.quantity, state.movedLots[tx.id], undefined, tx.unitCost);
+        tx.status = 'rejected';
+        tx.rejectionReason = reason.trim();
+        return tx;
+      }),
+
+      cancelTransfer: transactionId => atomic(() => {
+        const tx = lockTransfer(transactionId, ['pending_source', 'pending_target']);
+        if (!(canManage(tx.fromLocation) || (tx.status === 'pending_source' && canManage(tx.toLocation)))) {
+          fail('forbidden', 'You cannot cancel this transfer');
+        }
+        if (tx.status === 'pending_target') adjustStock(tx.fromLocation!, tx.productId!, tx.quantity, state.movedLots[tx.id], undefined, tx.unitCost);
+        tx.status = 'cancelled';
+        return tx;
+      }),
+
+      signTransferDocument: transferGroupId => documentSignature(transferGroupId),
+
+      verifyTransferDocument: async (transferGroupId, signature) => {
+        if (signature !== await documentSignature(transferGroupId)) return 'tampered';
+        const pending = state.transactions.some(tx => tx.type === 'transfer' && tx.transferGroupId === transferGroupId &&
+          (tx.status === 'pending_source' || tx.status === 'pending_target'));
+        return pending ? 'valid' : 'completed';
+      },
+
+      // public.record_transfer_signature: the sender signs until the goods are received, the receiver until it accepts them
+      recordTransferSignature: (transferGroupId, role, signerName, image) => atomic(() => {
+        const signedBy = performedBy();
+        if (role !== 'sender' && role !== 'receiver') fail('invalid', `Unknown signature role ${role}`);
+        if (!signerName.trim()) fail('invalid', "The signer's name is required");
+        if (!image.startsWith('data:image/png;base64,')) fail('invalid', 'A signature must be a PNG image');
+        const lines = state.transactions.filter(tx => tx.type === 'transfer' && tx.transferGroupId === transferGroupId);
+        if (!lines.some(tx => canManage(role === 'sender' ? tx.fromLocation : tx.toLocation))) {
+          fail('not_found', `Transfer ${transferGroupId} not found`);
+        }
+        // A direct dispatch is already pending_target when its sender signs
+        const statuses: TransactionStatus[] = role === 'sender' ? ['pending_source', 'pending_target'] : ['pending_target'];
+        if (!lines.some(tx => statuses.includes(tx.status))) {
+          fail('invalid', `Transfer ${transferGroupId} has nothing waiting for the ${role} to sign`);
+        }
+
+        const signature: TransferSignature = { transferGroupId, role, signerName: signerName.trim(), image, signedBy, signedAt: now() };
+        state.signatures = [...state.signatures.filter(s => s.transferGroupId !== transferGroupId || s.role !== role), signature];
+        return signature;
+      }),
+
+      transferSignatures: transferGroupId => read(() => state.signatures.filter(s => s.transferGroupId === transferGroupId)),
+
+      logEntries: (locationId, entries) => atomic(() => {
+        const name = performedBy();
+        if (!canManage(locationId)) fail('forbidden', `You cannot log stock at ${locationId}`);
+        if (entries.length === 0) fail('invalid', 'Nothing to log');
+
+        return entries.map(entry => {
+          const loggedId = entry.idempotencyKey && state.idempotencyKeys[entry.idempotencyKey];
+          if (loggedId) {
+            const logged = state.transactions.find(t => t.id === loggedId)!;
+            if (logged.performedBy !== name || (logged.fromLocation !== locationId && logged.toLocation !== locationId)) {
+              fail('conflict', `Idempotency key ${entry.idempotencyKey} belongs to another entry`);
+            }
+            return logged;
+          }
+
+          if (entry.type !== 'usage' && entry.type !== 'receive') fail('invalid', 'Only usage and receipts can be logged here');
+          if (!(entry.quantity > 0)) fail('invalid', 'Logged quantities must be positive');
+          if (entry.recipeId && entry.type !== 'usage') fail('invalid', 'Only usage can be posted from a recipe');
+          if (entry.recipeId && !state.recipes.some(r => r.id === entry.recipeId)) fail('not_found', `Recipe ${entry.recipeId} not found`);
+          const item = stockedAt(entry.itemId, locationId);
+          if (entry.expectedQuantity !== undefined && entry.expectedQuantity !== item.quantity) {
+            fail('conflict', `Stock of ${item.nameEn} is now ${item.quantity}, not the ${entry.expectedQuantity} it was when the entry was logged`);
+          }
+          const averageCost = item.averageCost;
+          const unitCost = entry.type === 'receive' ? entry.unitCost : undefined;
+          const lots = entry.type === 'usage'
+            ? adjustStock(locationId, item.productId!, -entry.quantity)
+            : adjustStock(locationId, item.productId!, entry.quantity, [{
+                lotNumber: entry.lotNumber?.trim() || undefined,
+                expirationDate: entry.expirationDate || undefined,
+                quantity: entry.quantity
+              }], undefined, unitCost);
+
+          const loggedAt = entry.loggedAt && entry.loggedAt < now() ? entry.loggedAt : now();
+          const tx = addTransaction({
+            type: entry.type,
+            status: 'completed',
+            date: loggedAt,
+            fromLocation: entry.type === 'usage' ? locationId : 'External Supplier',
+            toLocation: entry.type === 'usage' ? 'Consumed' : locationId,
+            productId: item.productId,
+            itemNameEn: item.nameEn,
+            itemNameAr: item.nameAr,
+            quantity: entry.quantity,
+            unit: item.unit,
+            notes: entry.notes?.trim() || undefined,
+            unitCost: unitCost ?? averageCost,
+            recipeId: entry.recipeId || undefined
+          }, lots);
+          if (entry.idempotencyKey) state.idempotencyKeys[entry.idempotencyKey] = tx.id;
+          return tx;
+        });
+      }),
+
+      writeOff: (itemId, quantity, reasonCode, notes, lotId) => atomic(() => {
+        performedBy();
+        if (!['expired', 'damaged', 'spoiled', 'other'].includes(reasonCode)) fail('invalid', `Unknown write-off reason ${reasonCode}`);
+        if (reasonCode === 'other' && !notes?.trim()) fail('invalid', 'Describe why the stock is written off');
+        if (!(quantity > 0)) fail('invalid', 'Write-off quantities must be positive');
+        const item = state.items.find(i => i.id === itemId) || fail('not_found', `Item ${itemId} not found`);
+        if (!canManage(item.locationId)) fail('forbidden', `You cannot write off stock at ${item.locationId}`);
+
+        const lots = adjustStock(item.locationId!, item.productId!, -quantity, undefined, lotId);
+        return addTransaction({
+          type: 'waste',
+          status: 'completed',
+          fromLocation: item.locationId,
+          productId: item.productId,
+          itemNameEn: item.nameEn,
+          itemNameAr: item.nameAr,
+          quantity,
+          unit: item.unit,
+          notes: notes?.trim() || undefined,
+          reasonCode,
+          unitCost: item.averageCost
+        }, lots);
+      }),
+
+      deleteBefore: date => atomic(() => {
+        state.transactions = state.transactions.filter(tx => tx.date >= date);
+      })
+    },
+
+    purchasing: {
+      listSuppliers: () => read(() => [...state.suppliers].sort((a, b) => a.name.localeCompare(b.name))),
+      listOrders: () => read(() => [...state.purchaseOrders].sort((a, b) => b.orderDate.localeCompare(a.orderDate) || b.poNumber.localeCompare(a.poNumber))),
+      listReceipts: () => read(() => [...state.goodsReceivedNotes].sort((a, b) => b.receivedAt.localeCompare(a.receivedAt))),
+      fetchOrders: purchaseOrderIds => read(() => state.purchaseOrders.filter(po => purchaseOrderIds.includes(po.id))),
+      fetchReceipts: goodsReceivedNoteIds => read(() => state.goodsReceivedNotes.filter(grn => goodsReceivedNoteIds.includes(grn.id))),
+      createSupplier: supplier => atomic(() => {
+        const created: Supplier = { ...supplier, id: newId() };
+        state.suppliers.push(created);
+        return created;
+      }),
+      updateSupplier: supplier => atomic(() => {
+        const index = state.suppliers.findIndex(s => s.id === supplier.id);
+        if (index < 0) fail('not_found', `Supplier ${supplier.id} not found`);
+        state.suppliers[index] = supplier;
+        state.purchaseOrders.forEach(po => { if (po.supplierId === supplier.id) po.supplierName = supplier.name; });
+        return supplier;
+      }),
+      deleteSupplier: supplierId => atomic(() => {
+        if (state.purchaseOrders.some(po => po.supplierId === supplierId)) fail('in_use', 'A supplier cannot be deleted while purchase orders refer to it');
+        state.suppliers = state.suppliers.filter(s => s.id !== supplierId);
+      }),
+      createOrder: (draft, createdBy) => atomic(() => {
+        state.purchaseOrderCounter++;
+        const created: PurchaseOrder = { id: newId(), poNumber: serial('PO', state.purchaseOrderCounter), status: 'draft', createdBy, ...orderDetails(draft) };
+        state.purchaseOrders.push(created);
+        return created;
+      }),
+      updateOrder: (purchaseOrderId, draft) => atomic(() => {
+        const po = findOrder(purchaseOrderId);
+        if (po.status !== 'draft') fail('invalid', `Purchase order ${po.poNumber} is ${po.status}`);
+        Object.assign(po, orderDetails(draft));
+        return po;
+      }),
+      setOrderStatus: (purchaseOrderId, status) => atomic(() => {
+        const po = findOrder(purchaseOrderId);
+        po.status = status;
+        return po;
+      }),
+      deleteOrder: purchaseOrderId => atomic(() => {
+        state.purchaseOrders = state.purchaseOrders.filter(po => po.id !== purchaseOrderId || po.status !== 'draft');
+      }),
+
+      // public.receive_purchase_order: each line becomes a lot of its own in the warehouse
+      receiveOrder: (purchaseOrderId, lines, notes) => atomic(() => {
+        const receivedBy = performedBy();
+        if (!canManage('warehouse')) fail('forbidden', 'Only the warehouse can receive purchase orders');
+        if (lines.length === 0) fail('invalid', 'A goods-received note needs at least one line');
+        const po = findOrder(purchaseOrderId);
+        if (po.status !== 'ordered' && po.status !== 'partially_received') fail('invalid', `Purchase order ${po.poNumber} is ${po.status}`);
+
+        state.goodsReceivedCounter++;
+        const grn: GoodsReceivedNote = {
+          id: newId(),
+          grnNumber: serial('GRN', state.goodsReceivedCounter),
+          purchaseOrderId: po.id,
+          receivedAt: now(),
+          receivedBy,
+          notes: notes?.trim() || undefined,
+          lines: []
+        };
+        lines.forEach(line => {
+          if (!(line.quantity > 0)) fail('invalid', 'Received quantities must be positive');
+          const poLine = po.lines.find(l => l.id === line.lineId) || fail('not_found', `Line ${line.lineId} is not on ${po.poNumber}`);
+          if (poLine.receivedQuantity + line.quantity > poLine.quantity) {
+            fail('invalid', `Only ${poLine.quantity - poLine.receivedQuantity} ${poLine.unit} of ${poLine.itemNameEn} are outstanding on ${po.poNumber}`);
+          }
+          const lots = adjustStock('warehouse', poLine.productId, line.quantity, [{
+            lotNumber: line.lotNumber?.trim() || undefined,
+            expirationDate: line.expirationDate || undefined,
+            quantity: line.quantity
+          }], undefined, line.unitCost);
+          const tx = addTransaction({
+            type: 'receive',
+            status: 'completed',
+            fromLocation: po.supplierName || 'External Supplier',
+            toLocation: 'warehouse',
+            productId: poLine.productId,
+            itemNameEn: poLine.itemNameEn,
+            itemNameAr: poLine.itemNameAr,
+            quantity: line.quantity,
+            unit: poLine.unit,
+            notes: `${grn.grnNumber} / ${po.poNumber}`,
+            unitCost: line.unitCost ?? state.items.find(i => i.locationId === 'warehouse' && i.productId === poLine.productId)?.averageCost
+          }, lots);
+          grn.lines.push({ purchaseOrderLineId: poLine.id, quantity: line.quantity, transactionId: tx.id });
+          poLine.receivedQuantity += line.quantity;
+        });
+        po.status = po.lines.some(l => l.receivedQuantity < l.quantity) ? 'partially_received' : 'received';
+        state.goodsReceivedNotes.push(grn);
+        return grn;
+      })
+    },
+
+    stockTakes: {
+      list: () => read(() => [...state.stockTakes].sort((a, b) => b.startedAt.localeCompare(a.startedAt))),
+      fetch: stockTakeIds => read(() => state.stockTakes.filter(st => stockTakeIds.includes(st.id))),
+
+      // public.start_stock_take: a snapshot of the stock, and of the usage logged since the last approved count
+      start: (locationId, notes) => atomic(() => {
+        const startedBy = performedBy();
+        if (!canManage(locationId)) fail('forbidden', `Not allowed to count stock at ${locationId}`);
+        if (state.stockTakes.some(st => st.locationId === locationId && (st.status === 'counting' || st.status === 'submitted'))) {
+          fail('invalid', `A stock-take is already open at ${locationId}`);
+        }
+        const since = state.stockTakes
+          .filter(st => st.locationId === locationId && st.status === 'approved')
+          .map(st => st.startedAt)
+          .sort()
+          .pop() || '';
+        const usage = state.transactions.filter(tx => tx.type === 'usage' && tx.fromLocation === locationId && tx.date >= since);
+
+        state.stockTakeCounter++;
+        const stockTake: StockTake = {
+          id: newId(),
+          stockTakeNumber: serial('ST', state.stockTakeCounter),
+          locationId,
+          status: 'counting',
+          notes: notes?.trim() || undefined,
+          startedBy,
+          startedAt: now(),
+          lines: state.items
+            .filter(i => i.locationId === locationId && i.productId)
+            .map(i => {
+              const used = usage.filter(tx => tx.productId === i.productId);
+              return {
+                id: newId(),
+                productId: i.productId!,
+                itemNameEn: i.nameEn,
+                itemNameAr: i.nameAr,
+                unit: i.unit,
+                expectedQuantity: i.quantity,
+                loggedUsage: used.reduce((sum, tx) => sum + tx.quantity, 0),
+                productionUsage: used.filter(tx => tx.recipeId).reduce((sum, tx) => sum + tx.quantity, 0)
+              };
+            })
+            .sort((a, b) => a.itemNameEn.localeCompare(b.itemNameEn))
+        };
+        state.stockTakes.push(stockTake);
+        return stockTake;
+      }),
+      recordCounts: (stockTakeId, counts) => atomic(() => {
+        const stockTake = lockStockTake(stockTakeId, ['counting']);
+        counts.forEach(count => {
+          if (count.countedQuantity !== null && count.countedQuantity < 0) fail('invalid', 'Counted quantities cannot be negative');
+          const line = stockTake.lines.find(l => l.id === count.lineId) || fail('not_found', `Line ${count.lineId} is not on ${stockTake.stockTakeNumber}`);
+          line.countedQuantity = count.countedQuantity ?? undefined;
+        });
+        return stockTake;
+      }),
+      submit: stockTakeId => atomic(() => {
+        const stockTake = lockStockTake(stockTakeId, ['counting']);
+        if (!stockTake.lines.some(l => l.countedQuantity !== undefined)) fail('invalid', `Nothing has been counted on ${stockTake.stockTakeNumber}`);
+        stockTake.status = 'submitted';
+        stockTake.submittedBy = performedBy();
+        stockTake.submittedAt = now();
+        return stockTake;
+      }),
+
+      // public.approve_stock_take: every counted line that differs moves the stock by the variance
+      approve: stockTakeId => atomic(() => {
+        const stockTake = lockStockTake(stockTakeId, ['submitted']);
+        if (state.user.role === 'mammal_employee') fail('forbidden', 'Stock-takes are approved by a manager');
+        stockTake.lines.forEach(line => {
+          if (line.countedQuantity === undefined || line.countedQuantity === line.expectedQuantity) return;
+          const variance = line.countedQuantity - line.expectedQuantity;
+          const averageCost = state.items.find(i => i.locationId === stockTake.locationId && i.productId === line.productId)?.averageCost;
+          const lots = adjustStock(stockTake.locationId, line.productId, variance);
+          line.transactionId = addTransaction({
+            type: 'adjustment',
+            status: 'completed',
+            fromLocation: variance < 0 ? stockTake.locationId : undefined,
+            toLocation: variance > 0 ? stockTake.locationId : undefined,
+            productId: line.productId,
+            itemNameEn: line.itemNameEn,
+            itemNameAr: line.itemNameAr,
+            quantity: Math.abs(variance),
+            unit: line.unit,
+            notes: stockTake.stockTakeNumber,
+            unitCost: averageCost
+          }, lots).id;
+        });
+        stockTake.status = 'approved';
+        stockTake.approvedBy = performedBy();
+        stockTake.approvedAt = now();
+        return stockTake;
+      }),
+      cancel: stockTakeId => atomic(() => {
+        const stockTake = lockStockTake(stockTakeId, ['counting', 'submitted']);
+        stockTake.status = 'cancelled';
+        return stockTake;
+      })
+    },
+
+    recipes: {
+      list: () => read(() => [...state.recipes].sort((a, b) => a.nameEn.localeCompare(b.nameEn))),
+      create: draft => atomic(() => {
+        const created = toRecipe(draft, newId());
+        state.recipes.push(created);
+        return created;
+      }),
+      update: (recipeId, draft) => atomic(() => {
+        const index = state.recipes.findIndex(r => r.id === recipeId);
+        if (index < 0) fail('not_found', `Recipe ${recipeId} not found`);
+        state.recipes[index] = toRecipe(draft, recipeId);
+        return state.recipes[index];
+      }),
+      remove: recipeId => atomic(() => {
+        state.recipes = state.recipes.filter(r => r.id !== recipeId);
+        state.transactions.forEach(tx => { if (tx.recipeId === recipeId) tx.recipeId = undefined; });
+      })
+    }
+  };
+};
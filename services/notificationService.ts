@@ -0,0 +1,88 @@
+import { supabase } from './supabase';
+import { AppNotification, Language, NotificationEvent } from '../types';
+
+// In the order the preferences list them
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  'incoming_transfer',
+  'transfer_rejected',
+  'transfer_received',
+  'low_stock',
+  'expiry',
+  'stock_take_approval'
+];
+
+// The inbox shows the latest notifications; older ones stay in the table
+const INBOX_SIZE = 50;
+
+export const mapNotification = (n: any): AppNotification => ({
+  id: n.id,
+  event: n.event as NotificationEvent,
+  dedupeKey: n.dedupe_key,
+  locationId: n.location_id || undefined,
+  reference: n.reference || undefined,
+  titleEn: n.title_en,
+  bodyEn: n.body_en,
+  titleAr: n.title_ar,
+  bodyAr: n.body_ar,
+  createdAt: n.created_at,
+  readAt: n.read_at || undefined
+});
+
+// Row-level security limits both tables to the signed-in user
+export const fetchNotifications = async (): Promise<AppNotification[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(INBOX_SIZE);
+  if (error) throw error;
+  return (data || []).map(mapNotification);
+};
+
+export const markNotificationsRead = async (notificationIds: string[]) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', notificationIds);
+  if (error) throw error;
+};
+
+export const fetchMutedEvents = async (): Promise<NotificationEvent[]> => {
+  const { data, error } = await supabase.from('notification_preferences').select('muted_events').maybeSingle();
+  if (error) throw error;
+  return (data?.muted_events || []) as NotificationEvent[];
+};
+
+export const saveMutedEvents = async (userId: string, mutedEvents: NotificationEvent[]) => {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, muted_events: mutedEvents, updated_at: new Date().toISOString() });
+  if (error) throw error;
+};
+
+// Raises today's expiry digest for any location nobody has been told about yet. A daily schedule
+// in the database does the same; calling it on sign-in covers setups without one.
+export const notifyExpiringStock = async () => {
+  const { error } = await supabase.rpc('notify_expiring_stock');
+  if (error) throw error;
+};
+
+// Shows a notification that arrived while the app is open through the service worker, so it looks
+// like (and, sharing its tag, replaces) the Web Push for the same event
+export const showSystemNotification = async (notification: AppNotification, language: Language) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const payload = {
+    title: language === 'ar' ? notification.titleAr : notification.titleEn,
+    body: language === 'ar' ? notification.bodyAr : notification.bodyEn,
+    tag: notification.dedupeKey
+  };
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.ready : undefined;
+    if (!registration?.active) throw new Error('No active service worker');
+    registration.active.postMessage({ type: 'notify', payload });
+  } catch (error) {
+    console.warn("Service worker notification failed, falling back to standard", error);
+    new Notification(payload.title, { body: payload.body, tag: payload.tag });
+  }
+};
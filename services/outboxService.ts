@@ -0,0 +1,207 @@
+import { InventoryItem, OutboxEntry, Transaction } from '../types';
+import { supabaseUrl, supabaseKey } from './supabase';
+import { logStockEntries } from './transferService';
+
+// Usage and receive logs are written to this IndexedDB outbox before they are uploaded, so they
+// survive a lost connection or a closed tab. public/sw.js reads the same database to upload them
+// on background sync; keep the names and the credentials record in step with it.
+const DB_NAME = 'dawar-outbox';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const META_STORE = 'meta';
+export const OUTBOX_SYNC_TAG = 'outbox-sync';
+
+const openOutbox = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(ENTRIES_STORE)) db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'key' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs `work` in one IndexedDB transaction and resolves once it has committed
+const withStore = async <T>(storeName: string, mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> => {
+  const db = await openOutbox();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = work(tx.objectStore(storeName));
+    tx.oncomplete = () => { db.close(); resolve(request ? request.result : (undefined as T)); };
+    tx.onerror = () => { db.close(); reject(tx.error); };
+    tx.onabort = () => { db.close(); reject(tx.error); };
+  });
+};
+
+export const newOutboxId = () => crypto.randomUUID();
+
+// Oldest first, the order they are uploaded in
+export const listOutbox = async (): Promise<OutboxEntry[]> => {
+  const entries = await withStore<OutboxEntry[]>(ENTRIES_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => a.loggedAt.localeCompare(b.loggedAt));
+};
+
+export const queueOutboxEntries = (entries: OutboxEntry[]) =>
+  withStore<void>(ENTRIES_STORE, 'readwrite', store => { entries.forEach(entry => store.put(entry)); });
+
+export const removeOutboxEntries = (ids: string[]) =>
+  withStore<void>(ENTRIES_STORE, 'readwrite', store => { ids.forEach(id => store.delete(id)); });
+
+// The service worker cannot read the session from localStorage, so the signed-in user's token is
+// kept here for background uploads
+export const saveSyncCredentials = (userId: string, accessToken: string) =>
+  withStore<void>(META_STORE, 'readwrite', store => {
+    store.put({ key: 'credentials', supabaseUrl, supabaseKey, userId, accessToken });
+  });
+
+// Last stock read from the server, so the app can still be used when it is opened offline
+export const saveStockSnapshot = (userId: string, inventory: Record<string, InventoryItem[]>) =>
+  withStore<void>(META_STORE, 'readwrite', store => {
+    store.put({ key: 'stock', userId, inventory });
+  });
+
+export const loadStockSnapshot = async (userId: string): Promise<Record<string, InventoryItem[]> | null> => {
+  const snapshot = await withStore<any>(META_STORE, 'readonly', store => store.get('stock'));
+  return snapshot && snapshot.userId === userId ? snapshot.inventory : null;
+};
+
+// On logout. Queued entries are kept: they upload the next time their user signs in.
+export const clearOfflineSession = () =>
+  withStore<void>(META_STORE, 'readwrite', store => {
+    store.delete('credentials');
+    store.delete('stock');
+  });
+
+// Asks the service worker to upload the outbox once the device is back online, even if the app
+// has been closed by then. Browsers without background sync rely on flushOutbox() instead.
+export const requestBackgroundSync = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration: any = await navigator.serviceWorker.ready;
+    if (registration.sync) await registration.sync.register(OUTBOX_SYNC_TAG);
+  } catch (error) {
+    console.warn("Background sync unavailable", error);
+  }
+};
+
+// Database errors carry a five-character SQLSTATE. Anything else (no code, or a PGRST gateway
+// code such as an expired token) means the upload did not reach the database and can be retried.
+const isServerRejection = (error: any) => /^[0-9A-Z]{5}$/.test(error?.code || '');
+
+// Entries of one batch share a location. Also used directly when IndexedDB is unavailable.
+// logEntries is the repository's (see repository.ts); it defaults to the Supabase RPC.
+export const uploadOutboxEntries = (entries: OutboxEntry[], logEntries = logStockEntries) => logEntries(entries[0].locationId, entries.map(entry => ({
+  type: entry.type,
+  itemId: entry.itemId,
+  quantity: entry.quantity,
+  notes: entry.notes,
+  unitCost: entry.unitCost,
+  recipeId: entry.recipeId,
+  idempotencyKey: entry.id,
+  loggedAt: entry.loggedAt,
+  expectedQuantity: entry.expectedQuantity
+})));
+
+export type OutboxFlushResult = {
+  synced: Transaction[];
+  uploaded: OutboxEntry[]; // The entries logged, now gone from the outbox
+  conflicts: OutboxEntry[];
+  offline: boolean; // Stopped early because the server could not be reached
+};
+
+/**
+ * Uploads the user's pending entries, one batch at a time in the order they were logged.
+ *
+ * - A batch is logged in one database transaction. Retrying one that already reached the server
+ *   returns the transactions logged the first time (see log_stock_entries()).
+ * - When the server refuses a batch, e.g. because the stock of an item is no longer what it was
+ *   when the entry was logged, its entries are retried one by one so only the entries that cannot
+ *   apply become conflicts for the user to resolve. The rest are logged.
+ * - A network failure stops the flush and leaves everything queued.
+ */
+export const flushOutbox = async (userId: string, logEntries = logStockEntries): Promise<OutboxFlushResult> => {
+  const result: OutboxFlushResult = { synced: [], uploaded: [], conflicts: [], offline: false };
+  const pending = (await listOutbox()).filter(entry => entry.userId === userId && entry.status === 'pending');
+
+  const batches: OutboxEntry[][] = [];
+  pending.forEach(entry => {
+    const batch = batches.find(b => b[0].batchId === entry.batchId);
+    if (batch) batch.push(entry); else batches.push([entry]);
+  });
+
+  for (const batch of batches) {
+    try {
+      result.synced.push(...await uploadOutboxEntries(batch, logEntries));
+      await removeOutboxEntries(batch.map(entry => entry.id));
+      result.uploaded.push(...batch);
+    } catch (error) {
+      if (!isServerRejection(error)) {
+        result.offline = true;
+        break;
+      }
+      for (const entry of batch) {
+        try {
+          result.synced.push(...await uploadOutboxEntries([entry], logEntries));
+          await removeOutboxEntries([entry.id]);
+          result.uploaded.push(entry);
+        } catch (entryError) {
+          if (!isServerRejection(entryError)) {
+            result.offline = true;
+            return result;
+          }
+          const conflict: OutboxEntry = { ...entry, batchId: entry.id, status: 'conflict', error: entryError.message };
+          await queueOutboxEntries([conflict]);
+          result.conflicts.push(conflict);
+        }
+      }
+    }
+  }
+  return result;
+};
+
+// A conflicting entry is either dropped or queued again, on its own, with the quantity the user
+// settled on against the stock they have now seen. It keeps its idempotency key: the server never
+// logged it.
+export const resolveOutboxConflict = async (entry: OutboxEntry, quantity: number | null, expectedQuantity: number) => {
+  if (quantity === null || quantity <= 0) {
+    await removeOutboxEntries([entry.id]);
+  } else {
+    await queueOutboxEntries([{ ...entry, quantity, expectedQuantity, batchId: entry.id, status: 'pending', error: undefined }]);
+  }
+};
+
+// Pending entries applied on top of stock read from the server, so queued work stays visible
+// after a refresh. Conflicts are left out until the user resolves them.
+export const applyPendingEntries = (inventory: Record<string, InventoryItem[]>, outbox: OutboxEntry[]) => {
+  const pending = outbox.filter(entry => entry.status === 'pending');
+  if (pending.length === 0) return inventory;
+  const next = { ...inventory };
+  pending.forEach(entry => {
+    if (!next[entry.locationId]) return;
+    next[entry.locationId] = next[entry.locationId].map(item => item.id === entry.itemId
+      ? { ...item, quantity: item.quantity + (entry.type === 'usage' ? -entry.quantity : entry.quantity) }
+      : item);
+  });
+  return next;
+};
+
+// Queued entries shown in the transaction history until the server has logged them; the id is
+// the outbox id so the UI can mark them as waiting to sync
+export const outboxToTransaction = (entry: OutboxEntry): Transaction => ({
+  id: entry.id,
+  date: entry.loggedAt,
+  type: entry.type,
+  status: 'completed',
+  fromLocation: entry.type === 'usage' ? entry.locationId : 'External Supplier',
+  toLocation: entry.type === 'usage' ? 'Consumed' : entry.locationId,
+  productId: entry.productId,
+  itemNameEn: entry.itemNameEn,
+  itemNameAr: entry.itemNameAr,
+  quantity: entry.quantity,
+  unit: entry.unit,
+  performedBy: entry.performedBy,
+  notes: entry.notes,
+  unitCost: entry.unitCost,
+  recipeId: entry.recipeId
+});
@@ -0,0 +1,175 @@
+import { supabase } from './supabase';
+import { GoodsReceivedNote, GoodsReceiptLine, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, Supplier } from '../types';
+
+// Orders are always read with their supplier and lines (with catalog details)
+export const PURCHASE_ORDER_COLUMNS = '*, supplier:suppliers(name), lines:purchase_order_lines(*, product:products(name_en, name_ar, unit))';
+export const GOODS_RECEIVED_COLUMNS = '*, lines:goods_received_lines(purchase_order_line_id, quantity, transaction_id)';
+
+export const mapSupplier = (s: any): Supplier => ({
+  id: s.id,
+  name: s.name,
+  contactName: s.contact_name || undefined,
+  phone: s.phone || undefined,
+  email: s.email || undefined,
+  address: s.address || undefined,
+  notes: s.notes || undefined
+});
+
+const mapPurchaseOrderLine = (l: any): PurchaseOrderLine => ({
+  id: l.id,
+  productId: l.product_id,
+  itemNameEn: l.product?.name_en || '',
+  itemNameAr: l.product?.name_ar || '',
+  unit: l.product?.unit || '',
+  quantity: Number(l.quantity),
+  receivedQuantity: Number(l.received_quantity)
+});
+
+export const mapPurchaseOrder = (po: any): PurchaseOrder => ({
+  id: po.id,
+  poNumber: po.po_number,
+  supplierId: po.supplier_id,
+  supplierName: po.supplier?.name || '',
+  status: po.status as PurchaseOrderStatus,
+  orderDate: po.order_date,
+  expectedDate: po.expected_date || undefined,
+  notes: po.notes || undefined,
+  createdBy: po.created_by || undefined,
+  lines: (po.lines || []).map(mapPurchaseOrderLine)
+});
+
+export const mapGoodsReceivedNote = (g: any): GoodsReceivedNote => ({
+  id: g.id,
+  grnNumber: g.grn_number,
+  purchaseOrderId: g.purchase_order_id,
+  receivedAt: g.received_at,
+  receivedBy: g.received_by,
+  notes: g.notes || undefined,
+  lines: (g.lines || []).map((l: any) => ({
+    purchaseOrderLineId: l.purchase_order_line_id,
+    quantity: Number(l.quantity),
+    transactionId: l.transaction_id || undefined
+  }))
+});
+
+const toSupplierRow = (supplier: Omit<Supplier, 'id'>) => ({
+  name: supplier.name,
+  contact_name: supplier.contactName || null,
+  phone: supplier.phone || null,
+  email: supplier.email || null,
+  address: supplier.address || null,
+  notes: supplier.notes || null
+});
+
+export const createSupplier = async (supplier: Omit<Supplier, 'id'>): Promise<Supplier> => {
+  const { data, error } = await supabase.from('suppliers').insert([toSupplierRow(supplier)]).select('*').single();
+  if (error) throw error;
+  return mapSupplier(data);
+};
+
+export const updateSupplier = async (supplier: Supplier): Promise<Supplier> => {
+  const { data, error } = await supabase.from('suppliers').update(toSupplierRow(supplier)).eq('id', supplier.id).select('*').single();
+  if (error) throw error;
+  return mapSupplier(data);
+};
+
+// Fails while any purchase order still refers to the supplier
+export const deleteSupplier = async (supplierId: string): Promise<void> => {
+  const { error } = await supabase.from('suppliers').delete().eq('id', supplierId);
+  if (error) throw error;
+};
+
+// What the admin enters for a draft order
+export type PurchaseOrderDraft = {
+  supplierId: string;
+  orderDate: string;
+  expectedDate?: string;
+  notes?: string;
+  lines: { productId: string; quantity: number }[];
+};
+
+const fetchPurchaseOrder = async (purchaseOrderId: string): Promise<PurchaseOrder> => {
+  const { data, error } = await supabase.from('purchase_orders').select(PURCHASE_ORDER_COLUMNS).eq('id', purchaseOrderId).single();
+  if (error) throw error;
+  return mapPurchaseOrder(data);
+};
+
+const insertLines = async (purchaseOrderId: string, lines: PurchaseOrderDraft['lines']) => {
+  const { error } = await supabase.from('purchase_order_lines').insert(
+    lines.map(l => ({ purchase_order_id: purchaseOrderId, product_id: l.productId, quantity: l.quantity }))
+  );
+  if (error) throw error;
+};
+
+export const createPurchaseOrder = async (draft: PurchaseOrderDraft, createdBy: string): Promise<PurchaseOrder> => {
+  const { data, error } = await supabase.from('purchase_orders').insert([{
+    supplier_id: draft.supplierId,
+    order_date: draft.orderDate,
+    expected_date: draft.expectedDate || null,
+    notes: draft.notes || null,
+    created_by: createdBy
+  }]).select('id').single();
+  if (error) throw error;
+
+  try {
+    await insertLines(data.id, draft.lines);
+  } catch (lineError) {
+    // Don't leave an empty order behind
+    await supabase.from('purchase_orders').delete().eq('id', data.id);
+    throw lineError;
+  }
+  return fetchPurchaseOrder(data.id);
+};
+
+// Only drafts are edited; their lines are replaced as a whole
+export const updatePurchaseOrder = async (purchaseOrderId: string, draft: PurchaseOrderDraft): Promise<PurchaseOrder> => {
+  const { error } = await supabase.from('purchase_orders').update({
+    supplier_id: draft.supplierId,
+    order_date: draft.orderDate,
+    expected_date: draft.expectedDate || null,
+    notes: draft.notes || null
+  }).eq('id', purchaseOrderId).eq('status', 'draft');
+  if (error) throw error;
+
+  const { error: deleteError } = await supabase.from('purchase_order_lines').delete().eq('purchase_order_id', purchaseOrderId);
+  if (deleteError) throw deleteError;
+  await insertLines(purchaseOrderId, draft.lines);
+  return fetchPurchaseOrder(purchaseOrderId);
+};
+
+export const setPurchaseOrderStatus = async (purchaseOrderId: string, status: 'ordered' | 'cancelled'): Promise<PurchaseOrder> => {
+  const { error } = await supabase.from('purchase_orders').update({ status }).eq('id', purchaseOrderId);
+  if (error) throw error;
+  return fetchPurchaseOrder(purchaseOrderId);
+};
+
+// Only drafts can be deleted; anything ordered keeps its history and is cancelled instead
+export const deletePurchaseOrder = async (purchaseOrderId: string): Promise<void> => {
+  const { error } = await supabase.from('purchase_orders').delete().eq('id', purchaseOrderId).eq('status', 'draft');
+  if (error) throw error;
+};
+
+// Books a delivery into the warehouse as one database transaction (see "Purchasing" in
+// supabase_schema.sql), logging a 'receive' transaction per line
+export const receivePurchaseOrder = async (
+  purchaseOrderId: string,
+  lines: GoodsReceiptLine[],
+  notes?: string
+): Promise<GoodsReceivedNote> => {
+  const { data, error } = await supabase.rpc('receive_purchase_order', {
+    p_purchase_order_id: purchaseOrderId,
+    p_lines: lines.map(l => ({
+      line_id: l.lineId,
+      quantity: l.quantity,
+      lot_number: l.lotNumber || null,
+      expiration_date: l.expirationDate || null,
+      unit_cost: l.unitCost ?? null
+    })),
+    p_notes: notes || null
+  });
+  if (error) throw error;
+
+  const { data: grn, error: grnError } = await supabase.from('goods_received_notes').select(GOODS_RECEIVED_COLUMNS).eq('id', data.id).single();
+  if (grnError) throw grnError;
+  return mapGoodsReceivedNote(grn);
+};
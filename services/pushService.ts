@@ -0,0 +1,50 @@
+import { supabase } from './supabase';
+import { Language } from '../types';
+
+// Public half of the VAPID key pair the send-push function signs with (VAPID_PUBLIC_KEY in
+// .env.local). Without it the app keeps to in-tab notifications.
+const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY;
+
+export const isPushSupported = () =>
+  !!VAPID_PUBLIC_KEY && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+const base64UrlToBytes = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), c => c.charCodeAt(0));
+};
+
+// Subscribes this browser once notifications are allowed and stores the subscription for the
+// signed-in user, in the language alerts should arrive in. Safe to call on every start: an
+// existing subscription is reused.
+export const registerPushSubscription = async (language: Language) => {
+  if (!isPushSupported() || Notification.permission !== 'granted') return;
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    || await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: base64UrlToBytes(VAPID_PUBLIC_KEY!) });
+  const keys = subscription.toJSON().keys || {};
+
+  const { error } = await supabase.rpc('save_push_subscription', {
+    p_endpoint: subscription.endpoint,
+    p_p256dh: keys.p256dh,
+    p_auth: keys.auth,
+    p_language: language,
+    p_user_agent: navigator.userAgent
+  });
+  if (error) throw error;
+};
+
+// Detaches this browser from the user signing out. Called with their token, as the session is
+// cleared before the request goes out.
+export const unregisterPushSubscription = async (accessToken: string) => {
+  if (!isPushSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .rpc('delete_push_subscription', { p_endpoint: subscription.endpoint })
+    .setHeader('Authorization', `Bearer ${accessToken}`);
+  if (error) throw error;
+};
@@ -0,0 +1,105 @@
+import { supabase } from './supabase';
+import { InventoryItem, Recipe, RecipeIngredient } from '../types';
+
+// Recipes are always read with their ingredients (with catalog details)
+export const RECIPE_COLUMNS = '*, ingredients:recipe_ingredients(product_id, quantity, product:products(name_en, name_ar, unit))';
+
+const mapRecipeIngredient = (i: any): RecipeIngredient => ({
+  productId: i.product_id,
+  itemNameEn: i.product?.name_en || '',
+  itemNameAr: i.product?.name_ar || '',
+  unit: i.product?.unit || '',
+  quantity: Number(i.quantity)
+});
+
+export const mapRecipe = (r: any): Recipe => ({
+  id: r.id,
+  nameEn: r.name_en,
+  nameAr: r.name_ar || r.name_en,
+  yieldUnit: r.yield_unit || 'pcs',
+  notes: r.notes || undefined,
+  ingredients: (r.ingredients || [])
+    .map(mapRecipeIngredient)
+    .sort((a: RecipeIngredient, b: RecipeIngredient) => a.itemNameEn.localeCompare(b.itemNameEn))
+});
+
+// What the admin enters for a recipe
+export type RecipeDraft = {
+  nameEn: string;
+  nameAr?: string;
+  yieldUnit: string;
+  notes?: string;
+  ingredients: { productId: string; quantity: number }[];
+};
+
+const toRecipeRow = (draft: RecipeDraft) => ({
+  name_en: draft.nameEn,
+  name_ar: draft.nameAr || null,
+  yield_unit: draft.yieldUnit,
+  notes: draft.notes || null
+});
+
+const fetchRecipe = async (recipeId: string): Promise<Recipe> => {
+  const { data, error } = await supabase.from('recipes').select(RECIPE_COLUMNS).eq('id', recipeId).single();
+  if (error) throw error;
+  return mapRecipe(data);
+};
+
+const insertIngredients = async (recipeId: string, ingredients: RecipeDraft['ingredients']) => {
+  const { error } = await supabase.from('recipe_ingredients').insert(
+    ingredients.map(i => ({ recipe_id: recipeId, product_id: i.productId, quantity: i.quantity }))
+  );
+  if (error) throw error;
+};
+
+export const createRecipe = async (draft: RecipeDraft): Promise<Recipe> => {
+  const { data, error } = await supabase.from('recipes').insert([toRecipeRow(draft)]).select('id').single();
+  if (error) throw error;
+
+  try {
+    await insertIngredients(data.id, draft.ingredients);
+  } catch (ingredientError) {
+    // Don't leave a recipe without ingredients behind
+    await supabase.from('recipes').delete().eq('id', data.id);
+    throw ingredientError;
+  }
+  return fetchRecipe(data.id);
+};
+
+// Ingredients are replaced as a whole; production already logged keeps the quantities it used
+export const updateRecipe = async (recipeId: string, draft: RecipeDraft): Promise<Recipe> => {
+  const { error } = await supabase.from('recipes').update(toRecipeRow(draft)).eq('id', recipeId);
+  if (error) throw error;
+
+  const { error: deleteError } = await supabase.from('recipe_ingredients').delete().eq('recipe_id', recipeId);
+  if (deleteError) throw deleteError;
+  await insertIngredients(recipeId, draft.ingredients);
+  return fetchRecipe(recipeId);
+};
+
+// Usage already posted from the recipe stays, without its link to the recipe
+export const deleteRecipe = async (recipeId: string): Promise<void> => {
+  const { error } = await supabase.from('recipes').delete().eq('id', recipeId);
+  if (error) throw error;
+};
+
+export interface ProductionLine {
+  ingredient: RecipeIngredient;
+  item?: InventoryItem; // The ingredient's stock at the producing location, if it carries it
+  quantity: number; // Used by the whole batch
+}
+
+// Rounds away the float noise of e.g. 0.018 kg × 120
+const roundQuantity = (qty: number) => Math.round(qty * 1e6) / 1e6;
+
+// The ingredients a batch of `produced` units uses up, matched to the location's stock
+export const planProduction = (recipe: Recipe, produced: number, items: InventoryItem[]): ProductionLine[] =>
+  recipe.ingredients.map(ingredient => ({
+    ingredient,
+    item: items.find(i => i.productId === ingredient.productId),
+    quantity: roundQuantity(ingredient.quantity * produced)
+  }));
+
+// A batch can only be logged when every ingredient is stocked and on hand
+export const canProduce = (lines: ProductionLine[]) =>
+  lines.length > 0 && lines.every(l => l.item && l.item.quantity >= l.quantity);
@@ -0,0 +1,157 @@
+import { InventoryItem, PurchaseOrder, ReorderPlan, ReorderSuggestion, Transaction } from '../types';
+
+// Usage older than this is ignored when averaging consumption
+export const REORDER_LOOKBACK_DAYS = 30;
+// How many days of usage a replenishment should cover on top of minThreshold
+export const REORDER_COVER_DAYS = 14;
+// Expected time for stock to arrive: a transfer from the warehouse, or a supplier delivery
+export const TRANSFER_LEAD_TIME_DAYS = 2;
+export const SUPPLIER_LEAD_TIME_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const keyOf = (locationId: string, productId: string) => `${locationId}|${productId}`;
+
+// Rounds quantities up so suggestions never leave a location short
+const roundUp = (qty: number) => Math.ceil(qty - 1e-9);
+
+// Stock is reordered once the projected level (on hand + inbound) drops to the reorder point,
+// minThreshold plus the usage expected before it arrives, and topped up to minThreshold plus
+// REORDER_COVER_DAYS of usage. Without recent usage the top-up is another minThreshold.
+const plan = (projected: number, minThreshold: number, avgDailyUsage: number, leadTimeDays: number, coverDays: number) => {
+  const reorderPoint = minThreshold + avgDailyUsage * leadTimeDays;
+  if (projected > reorderPoint) return 0;
+  const orderUpTo = minThreshold + Math.max(avgDailyUsage * coverDays, minThreshold);
+  return Math.max(roundUp(orderUpTo - projected), 0);
+};
+
+/**
+ * Builds warehouse→location transfer proposals and supplier purchase quantities from current
+ * stock and the consumption recorded in `transactions`.
+ *
+ * - Location demand is its `usage` over the last REORDER_LOOKBACK_DAYS. The warehouse's demand
+ *   also includes what it transferred out, since that is what it has to restock.
+ * - Pending transfers count as inbound for their destination; outstanding purchase order
+ *   lines count as inbound for the warehouse.
+ * - Warehouse stock is shared out to the most urgent locations first. Whatever it cannot
+ *   cover is added to the purchase suggestion for that product.
+ */
+export const buildReorderPlan = (
+  stockByLocation: Record<string, InventoryItem[]>,
+  transactions: Transaction[],
+  purchaseOrders: PurchaseOrder[] = [],
+  now: Date = new Date()
+): ReorderPlan => {
+  const since = now.getTime() - REORDER_LOOKBACK_DAYS * DAY_MS;
+
+  const demand: Record<string, number> = {};
+  const inbound: Record<string, number> = {};
+  const requested: Record<string, number> = {}; // Requests the warehouse has not dispatched yet
+  const addTo = (map: Record<string, number>, key: string, qty: number) => { map[key] = (map[key] || 0) + qty; };
+
+  transactions.forEach(tx => {
+    if (!tx.productId) return;
+    if (tx.type === 'transfer' && (tx.status === 'pending_source' || tx.status === 'pending_target') && tx.toLocation) {
+      addTo(inbound, keyOf(tx.toLocation, tx.productId), tx.quantity);
+      if (tx.status === 'pending_source' && tx.fromLocation === 'warehouse') addTo(requested, tx.productId, tx.quantity);
+    }
+    if (new Date(tx.date).getTime() < since) return;
+    if (tx.type === 'usage' && tx.fromLocation) {
+      addTo(demand, keyOf(tx.fromLocation, tx.productId), tx.quantity);
+    } else if (tx.type === 'transfer' && tx.fromLocation === 'warehouse' && tx.status !== 'rejected' && tx.status !== 'cancelled') {
+      addTo(demand, keyOf('warehouse', tx.productId), tx.quantity);
+    }
+  });
+
+  purchaseOrders
+    .filter(po => po.status === 'ordered' || po.status === 'partially_received')
+    .forEach(po => po.lines.forEach(line => {
+      addTo(inbound, keyOf('warehouse', line.productId), Math.max(line.quantity - line.receivedQuantity, 0));
+    }));
+
+  // Current position of one stock row; suggestedQuantity is what it needs to get back to cover
+  const assess = (locationId: string, item: InventoryItem, productId: string, leadTimeDays: number): ReorderSuggestion => {
+    const key = keyOf(locationId, productId);
+    const avgDailyUsage = (demand[key] || 0) / REORDER_LOOKBACK_DAYS;
+    const itemInbound = inbound[key] || 0;
+    return {
+      locationId,
+      productId,
+      itemId: item.id,
+      itemNameEn: item.nameEn,
+      itemNameAr: item.nameAr,
+      unit: item.unit,
+      quantity: item.quantity,
+      inbound: itemInbound,
+      minThreshold: item.minThreshold,
+      avgDailyUsage,
+      daysOfCover: avgDailyUsage > 0 ? item.quantity / avgDailyUsage : null,
+      suggestedQuantity: plan(item.quantity + itemInbound, item.minThreshold, avgDailyUsage, leadTimeDays, REORDER_COVER_DAYS),
+      source: locationId === 'warehouse' ? 'supplier' : 'warehouse'
+    };
+  };
+
+  // Location needs, most urgent (fewest days of cover, then furthest below threshold) first
+  const needs = Object.keys(stockByLocation)
+    .filter(locId => locId !== 'warehouse')
+    .flatMap(locId => stockByLocation[locId]
+      .filter(item => item.productId)
+      .map(item => assess(locId, item, item.productId!, TRANSFER_LEAD_TIME_DAYS)))
+    .filter(s => s.suggestedQuantity > 0)
+    .sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) || (a.quantity - a.minThreshold) - (b.quantity - b.minThreshold));
+
+  const warehouseItems = (stockByLocation['warehouse'] || []).filter(item => item.productId);
+  const warehouseLeft: Record<string, number> = {};
+  warehouseItems.forEach(item => { warehouseLeft[item.productId!] = Math.max(item.quantity - (requested[item.productId!] || 0), 0); });
+
+  const transfers: ReorderSuggestion[] = [];
+  const unmet: Record<string, number> = {};
+  needs.forEach(need => {
+    const available = warehouseLeft[need.productId] || 0;
+    const sendable = Math.min(need.suggestedQuantity, available);
+    if (sendable > 0) {
+      warehouseLeft[need.productId] = available - sendable;
+      const sourceItem = warehouseItems.find(i => i.productId === need.productId);
+      transfers.push({ ...need, suggestedQuantity: sendable, sourceItemId: sourceItem?.id });
+    }
+    if (sendable < need.suggestedQuantity) addTo(unmet, need.productId, need.suggestedQuantity - sendable);
+  });
+
+  // Warehouse purchases: its own reorder need, measured after the proposed transfers leave,
+  // plus whatever the locations asked for that it could not send
+  const purchases: ReorderSuggestion[] = warehouseItems.map(item => {
+    const productId = item.productId!;
+    const afterTransfers = assess('warehouse', { ...item, quantity: warehouseLeft[productId] }, productId, SUPPLIER_LEAD_TIME_DAYS);
+    return {
+      ...assess('warehouse', item, productId, SUPPLIER_LEAD_TIME_DAYS),
+      suggestedQuantity: afterTransfers.suggestedQuantity + (unmet[productId] || 0)
+    };
+  });
+
+  // Products the warehouse does not carry at all are bought for what the locations need
+  Object.keys(unmet)
+    .filter(productId => warehouseLeft[productId] === undefined)
+    .forEach(productId => {
+      const sample = needs.find(n => n.productId === productId)!;
+      const onOrder = inbound[keyOf('warehouse', productId)] || 0;
+      purchases.push({
+        ...sample,
+        locationId: 'warehouse',
+        itemId: undefined,
+        quantity: 0,
+        inbound: onOrder,
+        minThreshold: 0,
+        avgDailyUsage: 0,
+        daysOfCover: null,
+        suggestedQuantity: Math.max(roundUp(unmet[productId] - onOrder), 0),
+        source: 'supplier'
+      });
+    });
+
+  return {
+    transfers,
+    purchases: purchases
+      .filter(p => p.suggestedQuantity > 0)
+      .sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity))
+  };
+};
@@ -0,0 +1,167 @@
+import {
+  GoodsReceivedNote, GoodsReceiptLine, InventoryItem, Language, LocationData, LocationId, Product, PurchaseOrder, Recipe, StockTake,
+  Supplier, Transaction, TransferDocumentStatus, TransferReceipt, TransferSignature, TransferSignatureRole, User, WasteReasonCode
+} from '../types';
+import { StockEntry, TransactionCursor, TransactionQuery } from './transferService';
+import { PurchaseOrderDraft } from './purchasingService';
+import { RecipeDraft } from './recipeService';
+
+// Data access for the core records: locations, users, stock items (with the catalog) and
+// transactions, purchasing, stock-takes and recipes. App.tsx talks to a Repository only, so it can run against Supabase
+// (supabaseRepository) or against memory (createMemoryRepository) in tests. Every method rejects
+// with a RepositoryError.
+
+export interface LocationRepository {
+  list(): Promise<LocationData[]>;
+}
+
+export interface UserRepository {
+  list(): Promise<User[]>;
+  create(user: Omit<User, 'id'>): Promise<User>;
+  update(user: User): Promise<void>; // The password only changes when one is given
+  remove(userId: string): Promise<void>;
+}
+
+export interface ItemRepository {
+  listProducts(): Promise<Product[]>;
+  createProduct(product: Omit<Product, 'id' | 'sku'>): Promise<Product>;
+  updateProduct(product: Product): Promise<Product>; // Applies to the product at every location
+  updateProducts(productIds: string[], updates: Partial<Pick<Product, 'category' | 'unit'>>): Promise<void>;
+  deleteProduct(productId: string): Promise<void>; // 'in_use' while any location stocks it
+  list(): Promise<InventoryItem[]>; // Every stock row the user can see
+  fetch(stockIds: string[], productIds?: string[]): Promise<InventoryItem[]>; // Rows by id, plus every row of the products
+  add(locationId: LocationId, productId: string, stock: { quantity: number, minThreshold: number, expirationDate?: string }): Promise<InventoryItem>;
+  update(item: InventoryItem): Promise<void>; // Quantity, threshold and expiry of one stock row
+  setMinThreshold(itemIds: string[], minThreshold: number): Promise<void>;
+  remove(itemIds: string[]): Promise<void>; // The products stay in the catalog
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor?: TransactionCursor;
+}
+
+export interface TransactionRepository {
+  page(query: TransactionQuery, cursor?: TransactionCursor, pageSize?: number): Promise<TransactionPage>;
+  history(query: TransactionQuery, cursor?: TransactionCursor): Promise<{ transactions: Transaction[], oldest?: TransactionCursor }>;
+  pending(locationId?: LocationId): Promise<Transaction[]>; // Transfers waiting on either side
+  byIds(transactionIds: string[]): Promise<Transaction[]>;
+  createTransfer(fromLocation: LocationId, toLocation: LocationId, items: { itemId: string, quantity: number }[]): Promise<Transaction[]>;
+  confirmTransfer(transactionId: string): Promise<Transaction>;
+  receiveTransfer(transactionId: string, receipt?: TransferReceipt): Promise<Transaction>;
+  rejectTransfer(transactionId: string, reason: string): Promise<Transaction>;
+  cancelTransfer(transactionId: string): Promise<Transaction>;
+  signTransferDocument(transferGroupId: string): Promise<string>; // For either side of the transfer
+  verifyTransferDocument(transferGroupId: string, signature: string): Promise<TransferDocumentStatus>;
+  recordTransferSignature(transferGroupId: string, role: TransferSignatureRole, signerName: string, image: string): Promise<TransferSignature>;
+  transferSignatures(transferGroupId: string): Promise<TransferSignature[]>;
+  logEntries(locationId: LocationId, entries: StockEntry[]): Promise<Transaction[]>;
+  writeOff(itemId: string, quantity: number, reasonCode: WasteReasonCode, notes?: string, lotId?: string): Promise<Transaction>;
+  deleteBefore(date: string): Promise<void>;
+}
+
+// Row-level security decides what comes back: only admins and the warehouse manager see purchasing
+export interface PurchasingRepository {
+  listSuppliers(): Promise<Supplier[]>; // By name
+  listOrders(): Promise<PurchaseOrder[]>; // Newest first, with their supplier and lines
+  listReceipts(): Promise<GoodsReceivedNote[]>; // Newest first
+  fetchOrders(purchaseOrderIds: string[]): Promise<PurchaseOrder[]>;
+  fetchReceipts(goodsReceivedNoteIds: string[]): Promise<GoodsReceivedNote[]>;
+  createSupplier(supplier: Omit<Supplier, 'id'>): Promise<Supplier>;
+  updateSupplier(supplier: Supplier): Promise<Supplier>;
+  deleteSupplier(supplierId: string): Promise<void>; // 'in_use' while any purchase order refers to it
+  createOrder(draft: PurchaseOrderDraft, createdBy: string): Promise<PurchaseOrder>; // As a draft
+  updateOrder(purchaseOrderId: string, draft: PurchaseOrderDraft): Promise<PurchaseOrder>; // Drafts only; the lines are replaced
+  setOrderStatus(purchaseOrderId: string, status: 'ordered' | 'cancelled'): Promise<PurchaseOrder>;
+  deleteOrder(purchaseOrderId: string): Promise<void>; // Drafts only
+  receiveOrder(purchaseOrderId: string, lines: GoodsReceiptLine[], notes?: string): Promise<GoodsReceivedNote>; // Into the warehouse
+}
+
+export interface StockTakeRepository {
+  list(): Promise<StockTake[]>; // Newest first, at the locations the user can see
+  fetch(stockTakeIds: string[]): Promise<StockTake[]>;
+  start(locationId: LocationId, notes?: string): Promise<StockTake>; // Snapshots the location's stock
+  recordCounts(stockTakeId: string, counts: { lineId: string, countedQuantity: number | null }[]): Promise<StockTake>; // Null clears a count
+  submit(stockTakeId: string): Promise<StockTake>;
+  approve(stockTakeId: string): Promise<StockTake>; // Posts the variances as adjustments
+  cancel(stockTakeId: string): Promise<StockTake>;
+}
+
+export interface RecipeRepository {
+  list(): Promise<Recipe[]>; // By name, with their ingredients
+  create(draft: RecipeDraft): Promise<Recipe>;
+  update(recipeId: string, draft: RecipeDraft): Promise<Recipe>; // The ingredients are replaced
+  remove(recipeId: string): Promise<void>; // Usage posted from it stays, without the link
+}
+
+export interface Repository {
+  locations: LocationRepository;
+  users: UserRepository;
+  items: ItemRepository;
+  transactions: TransactionRepository;
+  purchasing: PurchasingRepository;
+  stockTakes: StockTakeRepository;
+  recipes: RecipeRepository;
+}
+
+// - not_found: the record is gone, or not visible to the user
+// - forbidden: the user may not do this (or the session expired)
+// - invalid: the request breaks a rule, e.g. more stock than is on hand or a missing reason
+// - conflict: it clashes with another record, e.g. a duplicate username, or the stock changed
+//   since an offline entry was logged
+// - in_use: other records still refer to it
+// - offline: the server could not be reached
+export type RepositoryErrorKind = 'not_found' | 'forbidden' | 'invalid' | 'conflict' | 'in_use' | 'offline' | 'unknown';
+
+export class RepositoryError extends Error {
+  readonly kind: RepositoryErrorKind;
+  readonly code?: string; // SQLSTATE or PostgREST code, when the server answered
+
+  constructor(kind: RepositoryErrorKind, message: string, code?: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'RepositoryError';
+    this.kind = kind;
+    this.code = code;
+  }
+}
+
+const SQLSTATE_KINDS: Record<string, RepositoryErrorKind> = {
+  P0002: 'not_found', // no_data_found, raised by the RPCs
+  PGRST116: 'not_found', // .single() matched no row
+  '42501': 'forbidden', // insufficient_privilege, and row-level security
+  PGRST301: 'forbidden', // Expired or invalid session token
+  PGRST302: 'forbidden',
+  '23514': 'invalid', // check_violation
+  '23502': 'invalid', // not_null_violation
+  '23505': 'conflict', // unique_violation
+  '40001': 'conflict', // serialization_failure, an outbox entry whose stock has moved on
+  '23503': 'in_use' // foreign_key_violation
+};
+
+// Errors from supabase-js carry a code; a fetch that never reached the server is a TypeError
+export const toRepositoryError = (error: unknown): RepositoryError => {
+  if (error instanceof RepositoryError) return error;
+  const e = error as { code?: string, message?: string } | undefined;
+  const code = e?.code || undefined;
+  const message = e?.message || String(error);
+
+  if (code && SQLSTATE_KINDS[code]) return new RepositoryError(SQLSTATE_KINDS[code], message, code, { cause: error });
+  if (code?.startsWith('22')) return new RepositoryError('invalid', message, code, { cause: error }); // Bad input data
+  if (!code && (error instanceof TypeError || /fetch|network/i.test(message))) {
+    return new RepositoryError('offline', message, undefined, { cause: error });
+  }
+  return new RepositoryError('unknown', message, code, { cause: error });
+};
+
+// The text shown to the user. Server messages already name the item and the rule that failed;
+// the failures that carry no useful message are described here.
+export const describeError = (error: unknown, language: Language): string => {
+  const e = toRepositoryError(error);
+  if (e.kind === 'offline') {
+    return language === 'ar' ? 'تعذر الاتصال بالخادم، تحقق من الاتصال وحاول مرة أخرى' : 'The server could not be reached; check the connection and try again';
+  }
+  if (e.kind === 'forbidden' && e.code !== '42501') {
+    return language === 'ar' ? 'انتهت الجلسة، يرجى تسجيل الدخول مرة أخرى' : 'Your session has expired; please sign in again';
+  }
+  return e.message;
+};
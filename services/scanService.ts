@@ -0,0 +1,57 @@
+import { InventoryItem, Product } from '../types';
+
+// Codes printed on our labels and on supplier packaging: retail barcodes, Code128 and QR
+const FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'code_39', 'qr_code'];
+
+// The Shape Detection API is not in TypeScript's DOM types yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+declare class BarcodeDetector {
+  constructor(options?: { formats: string[] });
+  static getSupportedFormats(): Promise<string[]>;
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+// Reads the first code in a video frame, or null when there is none
+export type FrameDecoder = (frame: HTMLCanvasElement) => Promise<string | null>;
+
+// Uses the browser's native detector where there is one (Chrome on Android, Safari 17+) and the
+// ZXing decoder elsewhere, loaded only when it is needed
+export const createFrameDecoder = async (): Promise<FrameDecoder> => {
+  if ('BarcodeDetector' in window) {
+    const supported = await BarcodeDetector.getSupportedFormats().catch(() => [] as string[]);
+    const formats = FORMATS.filter(f => supported.includes(f));
+    if (formats.length > 0) {
+      const detector = new BarcodeDetector({ formats });
+      return async frame => (await detector.detect(frame))[0]?.rawValue || null;
+    }
+  }
+
+  const { BrowserMultiFormatReader } = await import('@zxing/browser');
+  const reader = new BrowserMultiFormatReader();
+  return async frame => {
+    try {
+      return reader.decodeFromCanvas(frame).getText();
+    } catch {
+      return null; // Nothing readable in this frame
+    }
+  };
+};
+
+export const normalizeCode = (code: string) => code.trim().toLowerCase();
+
+// What a label prints for an item: the product barcode, else the catalog SKU (assigned to every
+// product when it is created), else a code made from the product id for items that predate the catalog
+export const getLabelCode = (entry: { id: string, productId?: string, barcode?: string, sku?: string }) =>
+  entry.barcode || entry.sku || `INT-${(entry.productId || entry.id).replace(/[^a-zA-Z0-9]/g, '').slice(0, 12).toUpperCase()}`;
+
+// Labels carry the product barcode, or an internal code when it has none (see getLabelCode())
+export const matchesCode = (entry: { id: string, productId?: string, barcode?: string, sku?: string }, code: string) => {
+  const wanted = normalizeCode(code);
+  return !!wanted && [entry.barcode, entry.sku, getLabelCode(entry)].some(c => !!c && normalizeCode(c) === wanted);
+};
+
+export const findItemByCode = (items: InventoryItem[], code: string) => items.find(i => matchesCode(i, code));
+
+export const findProductByCode = (products: Product[], code: string) => products.find(p => matchesCode(p, code));
@@ -0,0 +1,91 @@
+import { supabase } from './supabase';
+import { StockTake, StockTakeLine, StockTakeStatus } from '../types';
+
+// Stock-takes are always read with their lines (with catalog details)
+export const STOCK_TAKE_COLUMNS = '*, lines:stock_take_lines(*, product:products(name_en, name_ar, unit))';
+
+const mapStockTakeLine = (l: any): StockTakeLine => ({
+  id: l.id,
+  productId: l.product_id,
+  itemNameEn: l.product?.name_en || '',
+  itemNameAr: l.product?.name_ar || '',
+  unit: l.product?.unit || '',
+  expectedQuantity: Number(l.expected_quantity),
+  countedQuantity: l.counted_quantity === null || l.counted_quantity === undefined ? undefined : Number(l.counted_quantity),
+  transactionId: l.transaction_id || undefined,
+  loggedUsage: Number(l.logged_usage || 0),
+  productionUsage: Number(l.production_usage || 0)
+});
+
+export const mapStockTake = (st: any): StockTake => ({
+  id: st.id,
+  stockTakeNumber: st.stock_take_number,
+  locationId: st.location_id,
+  status: st.status as StockTakeStatus,
+  notes: st.notes || undefined,
+  startedBy: st.started_by,
+  startedAt: st.started_at,
+  submittedBy: st.submitted_by || undefined,
+  submittedAt: st.submitted_at || undefined,
+  approvedBy: st.approved_by || undefined,
+  approvedAt: st.approved_at || undefined,
+  lines: (st.lines || [])
+    .map(mapStockTakeLine)
+    .sort((a: StockTakeLine, b: StockTakeLine) => a.itemNameEn.localeCompare(b.itemNameEn))
+});
+
+// Counted minus expected; undefined until the line has been counted
+export const getStockTakeVariance = (line: StockTakeLine): number | undefined =>
+  line.countedQuantity === undefined ? undefined : line.countedQuantity - line.expectedQuantity;
+
+// What actually left the shelves since the previous count: the usage logged, plus any stock found
+// missing (minus any found extra). Compared with productionUsage, the consumption the recipes
+// account for; undefined until the line has been counted.
+export const getActualUsage = (line: StockTakeLine): number | undefined => {
+  const variance = getStockTakeVariance(line);
+  return variance === undefined ? undefined : line.loggedUsage - variance;
+};
+
+const fetchStockTake = async (stockTakeId: string): Promise<StockTake> => {
+  const { data, error } = await supabase.from('stock_takes').select(STOCK_TAKE_COLUMNS).eq('id', stockTakeId).single();
+  if (error) throw error;
+  return mapStockTake(data);
+};
+
+// Every status change runs in the database (see "Stock-takes" in supabase_schema.sql)
+export const startStockTake = async (locationId: string, notes?: string): Promise<StockTake> => {
+  const { data, error } = await supabase.rpc('start_stock_take', { p_location_id: locationId, p_notes: notes || null });
+  if (error) throw error;
+  return fetchStockTake(data.id);
+};
+
+export const recordStockCounts = async (
+  stockTakeId: string,
+  counts: { lineId: string, countedQuantity: number | null }[]
+): Promise<StockTake> => {
+  const { error } = await supabase.rpc('record_stock_counts', {
+    p_stock_take_id: stockTakeId,
+    p_counts: counts.map(c => ({ line_id: c.lineId, counted_quantity: c.countedQuantity }))
+  });
+  if (error) throw error;
+  return fetchStockTake(stockTakeId);
+};
+
+export const submitStockTake = async (stockTakeId: string): Promise<StockTake> => {
+  const { error } = await supabase.rpc('submit_stock_take', { p_stock_take_id: stockTakeId });
+  if (error) throw error;
+  return fetchStockTake(stockTakeId);
+};
+
+// Posts an 'adjustment' transaction for every counted line that differs from the snapshot
+export const approveStockTake = async (stockTakeId: string): Promise<StockTake> => {
+  const { error } = await supabase.rpc('approve_stock_take', { p_stock_take_id: stockTakeId });
+  if (error) throw error;
+  return fetchStockTake(stockTakeId);
+};
+
+export const cancelStockTake = async (stockTakeId: string): Promise<StockTake> => {
+  const { error } = await supabase.rpc('cancel_stock_take', { p_stock_take_id: stockTakeId });
+  if (error) throw error;
+  return fetchStockTake(stockTakeId);
+};
@@ -1,6 +1,18 @@
 import { createClient } from '@supabase/supabase-js';
 
-const supabaseUrl = 'https://wmopyqckfwlfeepsappe.supabase.co';
-const supabaseKey = 'sb_publishable_kvWaDNub2GJKx45xv0ol_Q_VbP4FfZF';
+export const supabaseUrl = 'https://wmopyqckfwlfeepsappe.supabase.co';
+export const supabaseKey = 'sb_publishable_kvWaDNub2GJKx45xv0ol_Q_VbP4FfZF';
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
\ No newline at end of file
+// JWT issued by the authenticate_user RPC. Row-level security policies read the
+// caller's identity from it; requests fall back to the anon key while it is null.
+let sessionToken: string | null = null;
+
+export const supabase = createClient(supabaseUrl, supabaseKey, {
+  accessToken: async () => sessionToken
+});
+
+export const setSessionToken = (token: string | null) => {
+  sessionToken = token;
+  // Re-read the token through the accessToken callback so realtime filters use the new identity
+  supabase.realtime.setAuth().catch(err => console.warn("Failed to refresh realtime auth", err));
+};
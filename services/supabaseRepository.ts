@@ -0,0 +1,206 @@
+import { supabase } from './supabase';
+import { LocationData, User } from '../types';
+import { Repository, toRepositoryError } from './repository';
+import { APP_USER_COLUMNS, mapAppUser } from './authService';
+import {
+  STOCK_COLUMNS, mapProduct, mapStockItem, createProduct, updateProduct, deleteProduct, addStock, fetchStockItems
+} from './catalogService';
+import {
+  fetchTransactionPage, fetchTransactionHistory, fetchPendingTransfers, fetchTransactionsById, createTransfer,
+  confirmTransfer, receiveTransfer, rejectTransfer, cancelTransfer, signTransferDocument, verifyTransferDocument,
+  recordTransferSignature, fetchTransferSignatures, logStockEntries
+} from './transferService';
+import { writeOffStock } from './expiryService';
+import {
+  PURCHASE_ORDER_COLUMNS, GOODS_RECEIVED_COLUMNS, mapSupplier, mapPurchaseOrder, mapGoodsReceivedNote, createSupplier, updateSupplier,
+  deleteSupplier, createPurchaseOrder, updatePurchaseOrder, setPurchaseOrderStatus, deletePurchaseOrder, receivePurchaseOrder
+} from './purchasingService';
+import {
+  STOCK_TAKE_COLUMNS, mapStockTake, startStockTake, recordStockCounts, submitStockTake, approveStockTake, cancelStockTake
+} from './stockTakeService';
+import { RECIPE_COLUMNS, mapRecipe, createRecipe, updateRecipe, deleteRecipe } from './recipeService';
+
+const mapLocation = (l: any): LocationData => ({
+  id: l.id,
+  name: l.name,
+  nameAr: l.name_ar || l.name,
+  description: l.description || '',
+  descriptionAr: l.description_ar || l.description || '',
+  icon: l.icon || 'store',
+  type: l.type as 'central' | 'branch'
+});
+
+// A plain-text password is hashed by a trigger on write (section 7 of supabase_schema.sql)
+const toUserRow = (user: Omit<User, 'id'>) => ({
+  username: user.username,
+  name: user.name,
+  name_ar: user.nameAr,
+  role: user.role,
+  branch_code: user.branchCode,
+  branch_name: user.branchName,
+  branch_name_ar: user.branchNameAr,
+  accessible_branches: user.accessibleBranches || [],
+  ...(user.password && user.password.trim() !== '' ? { password: user.password } : {})
+});
+
+// Supabase errors, and fetches that never reached it, become RepositoryErrors
+const run = async <T>(operation: () => PromiseLike<T>): Promise<T> => {
+  try {
+    return await operation();
+  } catch (error) {
+    throw toRepositoryError(error);
+  }
+};
+
+const check = async (request: PromiseLike<{ error: unknown }>) => {
+  const { error } = await request;
+  if (error) throw error;
+};
+
+export const supabaseRepository: Repository = {
+  locations: {
+    list: () => run(async () => {
+      const { data, error } = await supabase.from('locations').select('*');
+      if (error) throw error;
+      return (data || []).map(mapLocation);
+    })
+  },
+
+  users: {
+    list: () => run(async () => {
+      const { data, error } = await supabase.from('app_users').select(APP_USER_COLUMNS);
+      if (error) throw error;
+      return (data || []).map(mapAppUser);
+    }),
+    create: user => run(async () => {
+      const { data, error } = await supabase.from('app_users').insert([toUserRow(user)]).select(APP_USER_COLUMNS).single();
+      if (error) throw error;
+      return mapAppUser(data);
+    }),
+    update: user => run(() => check(supabase.from('app_users').update(toUserRow(user)).eq('id', user.id))),
+    remove: userId => run(() => check(supabase.from('app_users').delete().eq('id', userId)))
+  },
+
+  items: {
+    listProducts: () => run(async () => {
+      const { data, error } = await supabase.from('products').select('*').order('name_en');
+      if (error) throw error;
+      return (data || []).map(mapProduct);
+    }),
+    createProduct: product => run(() => createProduct(product)),
+    updateProduct: product => run(() => updateProduct(product)),
+    updateProducts: (productIds, updates) => run(() => check(
+      supabase.from('products').update({
+        ...(updates.category ? { category: updates.category } : {}),
+        ...(updates.unit ? { unit: updates.unit } : {})
+      }).in('id', productIds)
+    )),
+    deleteProduct: productId => run(() => deleteProduct(productId)),
+    list: () => run(async () => {
+      const { data, error } = await supabase.from('stock').select(STOCK_COLUMNS);
+      if (error) throw error;
+      return (data || []).map(mapStockItem);
+    }),
+    fetch: (stockIds, productIds) => run(() => fetchStockItems(stockIds, productIds)),
+    add: (locationId, productId, stock) => run(() => addStock(locationId, productId, stock)),
+    update: item => run(() => check(
+      supabase.from('stock').update({
+        quantity: item.quantity,
+        min_threshold: item.minThreshold,
+        expiration_date: item.expirationDate || null
+      }).eq('id', item.id)
+    )),
+    setMinThreshold: (itemIds, minThreshold) => run(() => check(
+      supabase.from('stock').update({ min_threshold: minThreshold }).in('id', itemIds)
+    )),
+    remove: itemIds => run(() => check(supabase.from('stock').delete().in('id', itemIds)))
+  },
+
+  transactions: {
+    page: (query, cursor, pageSize) => run(() => fetchTransactionPage(query, cursor, pageSize)),
+    history: (query, cursor) => run(() => fetchTransactionHistory(query, cursor)),
+    pending: locationId => run(() => fetchPendingTransfers(locationId)),
+    byIds: transactionIds => run(() => fetchTransactionsById(transactionIds)),
+    createTransfer: (fromLocation, toLocation, items) => run(() => createTransfer(fromLocation, toLocation, items)),
+    confirmTransfer: transactionId => run(() => confirmTransfer(transactionId)),
+    receiveTransfer: (transactionId, receipt) => run(() => receiveTransfer(transactionId, receipt)),
+    rejectTransfer: (transactionId, reason) => run(() => rejectTransfer(transactionId, reason)),
+    cancelTransfer: transactionId => run(() => cancelTransfer(transactionId)),
+    signTransferDocument: transferGroupId => run(() => signTransferDocument(transferGroupId)),
+    verifyTransferDocument: (transferGroupId, signature) => run(() => verifyTransferDocument(transferGroupId, signature)),
+    recordTransferSignature: (transferGroupId, role, signerName, image) =>
+      run(() => recordTransferSignature(transferGroupId, role, signerName, image)),
+    transferSignatures: transferGroupId => run(() => fetchTransferSignatures(transferGroupId)),
+    logEntries: (locationId, entries) => run(() => logStockEntries(locationId, entries)),
+    writeOff: (itemId, quantity, reasonCode, notes, lotId) => run(() => writeOffStock(itemId, quantity, reasonCode, notes, lotId)),
+    deleteBefore: date => run(() => check(supabase.from('transactions').delete().lt('date', date)))
+  },
+
+  purchasing: {
+    listSuppliers: () => run(async () => {
+      const { data, error } = await supabase.from('suppliers').select('*').order('name');
+      if (error) throw error;
+      return (data || []).map(mapSupplier);
+    }),
+    listOrders: () => run(async () => {
+      const { data, error } = await supabase.from('purchase_orders').select(PURCHASE_ORDER_COLUMNS).order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapPurchaseOrder);
+    }),
+    listReceipts: () => run(async () => {
+      const { data, error } = await supabase.from('goods_received_notes').select(GOODS_RECEIVED_COLUMNS).order('received_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapGoodsReceivedNote);
+    }),
+    fetchOrders: purchaseOrderIds => run(async () => {
+      if (purchaseOrderIds.length === 0) return [];
+      const { data, error } = await supabase.from('purchase_orders').select(PURCHASE_ORDER_COLUMNS).in('id', purchaseOrderIds);
+      if (error) throw error;
+      return (data || []).map(mapPurchaseOrder);
+    }),
+    fetchReceipts: goodsReceivedNoteIds => run(async () => {
+      if (goodsReceivedNoteIds.length === 0) return [];
+      const { data, error } = await supabase.from('goods_received_notes').select(GOODS_RECEIVED_COLUMNS).in('id', goodsReceivedNoteIds);
+      if (error) throw error;
+      return (data || []).map(mapGoodsReceivedNote);
+    }),
+    createSupplier: supplier => run(() => createSupplier(supplier)),
+    updateSupplier: supplier => run(() => updateSupplier(supplier)),
+    deleteSupplier: supplierId => run(() => deleteSupplier(supplierId)),
+    createOrder: (draft, createdBy) => run(() => createPurchaseOrder(draft, createdBy)),
+    updateOrder: (purchaseOrderId, draft) => run(() => updatePurchaseOrder(purchaseOrderId, draft)),
+    setOrderStatus: (purchaseOrderId, status) => run(() => setPurchaseOrderStatus(purchaseOrderId, status)),
+    deleteOrder: purchaseOrderId => run(() => deletePurchaseOrder(purchaseOrderId)),
+    receiveOrder: (purchaseOrderId, lines, notes) => run(() => receivePurchaseOrder(purchaseOrderId, lines, notes))
+  },
+
+  stockTakes: {
+    list: () => run(async () => {
+      const { data, error } = await supabase.from('stock_takes').select(STOCK_TAKE_COLUMNS).order('started_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapStockTake);
+    }),
+    fetch: stockTakeIds => run(async () => {
+      if (stockTakeIds.length === 0) return [];
+      const { data, error } = await supabase.from('stock_takes').select(STOCK_TAKE_COLUMNS).in('id', stockTakeIds);
+      if (error) throw error;
+      return (data || []).map(mapStockTake);
+    }),
+    start: (locationId, notes) => run(() => startStockTake(locationId, notes)),
+    recordCounts: (stockTakeId, counts) => run(() => recordStockCounts(stockTakeId, counts)),
+    submit: stockTakeId => run(() => submitStockTake(stockTakeId)),
+    approve: stockTakeId => run(() => approveStockTake(stockTakeId)),
+    cancel: stockTakeId => run(() => cancelStockTake(stockTakeId))
+  },
+
+  recipes: {
+    list: () => run(async () => {
+      const { data, error } = await supabase.from('recipes').select(RECIPE_COLUMNS).order('name_en');
+      if (error) throw error;
+      return (data || []).map(mapRecipe);
+    }),
+    create: draft => run(() => createRecipe(draft)),
+    update: (recipeId, draft) => run(() => updateRecipe(recipeId, draft)),
+    remove: recipeId => run(() => deleteRecipe(recipeId))
+  }
+};
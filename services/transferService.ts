@@ -0,0 +1,297 @@
+import { supabase } from './supabase';
+import { LocationId, LotAllocation, ShortfallAction, Transaction, TransactionStatus, TransactionType, TransferDocumentStatus, TransferReceipt, TransferSignature, TransferSignatureRole, WasteReasonCode } from '../types';
+import { compareLots } from './catalogService';
+
+// Transactions are read with the lots they moved
+export const TRANSACTION_COLUMNS = '*, lots:transaction_lots(lot_number, expiration_date, quantity)';
+
+const mapLotAllocation = (l: any): LotAllocation => ({
+  lotNumber: l.lot_number || undefined,
+  expirationDate: l.expiration_date || undefined,
+  quantity: Number(l.quantity)
+});
+
+export const mapTransaction = (t: any): Transaction => ({
+  id: t.id,
+  transferGroupId: t.transfer_group_id,
+  date: t.date,
+  type: t.type as TransactionType,
+  status: t.status as TransactionStatus,
+  fromLocation: t.from_location,
+  toLocation: t.to_location,
+  productId: t.product_id,
+  itemNameEn: t.item_name_en,
+  itemNameAr: t.item_name_ar,
+  quantity: Number(t.quantity),
+  unit: t.unit,
+  performedBy: t.performed_by,
+  notes: t.notes,
+  rejectionReason: t.rejection_reason,
+  receivedQuantity: t.received_quantity == null ? undefined : Number(t.received_quantity),
+  discrepancyReason: t.discrepancy_reason || undefined,
+  shortfallAction: (t.shortfall_action || undefined) as ShortfallAction | undefined,
+  reasonCode: (t.reason_code || undefined) as WasteReasonCode | undefined,
+  lots: t.lots ? t.lots.map(mapLotAllocation).sort(compareLots) : undefined,
+  unitCost: t.unit_cost == null ? undefined : Number(t.unit_cost),
+  recipeId: t.recipe_id || undefined
+});
+
+// History is read newest first, a page at a time, ordered by (date, id) so rows logged at the same
+// moment are neither skipped nor repeated between pages
+export const TRANSACTION_PAGE_SIZE = 500;
+
+export interface TransactionQuery {
+  locationId?: LocationId; // Only transactions from or to this location; all in scope otherwise
+  since?: string; // Inclusive lower bound (ISO timestamp)
+  before?: string; // Exclusive upper bound, where paging starts when there is no cursor yet
+}
+
+// The last row of the previous page
+export interface TransactionCursor {
+  date: string;
+  id: string;
+}
+
+// Filter values in a PostgREST or() list are quoted, as dates and branch codes may contain , . : ( )
+const quoteFilterValue = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+export const fetchTransactionPage = async (
+  query: TransactionQuery,
+  cursor?: TransactionCursor,
+  pageSize = TRANSACTION_PAGE_SIZE
+): Promise<{ transactions: Transaction[], nextCursor?: TransactionCursor }> => {
+  let request = supabase
+    .from('transactions')
+    .select(TRANSACTION_COLUMNS)
+    .order('date', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(pageSize);
+
+  if (query.locationId) {
+    const location = quoteFilterValue(query.locationId);
+    request = request.or(`from_location.eq.${location},to_location.eq.${location}`);
+  }
+  if (query.since) request = request.gte('date', query.since);
+  if (cursor) {
+    const date = quoteFilterValue(cursor.date);
+    request = request.or(`date.lt.${date},and(date.eq.${date},id.lt.${cursor.id})`);
+  } else if (query.before) {
+    request = request.lt('date', query.before);
+  }
+
+  const { data, error } = await request;
+  if (error) throw error;
+  const transactions = (data || []).map(mapTransaction);
+  const last = transactions[transactions.length - 1];
+  return {
+    transactions,
+    nextCursor: transactions.length === pageSize ? { date: last.date, id: last.id } : undefined
+  };
+};
+
+// Every page of a query, following the cursor until a short page. Returns the cursor of the
+// oldest row so older history can be paged in later.
+export const fetchTransactionHistory = async (
+  query: TransactionQuery,
+  cursor?: TransactionCursor
+): Promise<{ transactions: Transaction[], oldest?: TransactionCursor }> => {
+  const transactions: Transaction[] = [];
+  let next = cursor;
+  while (true) {
+    const page = await fetchTransactionPage(query, next);
+    transactions.push(...page.transactions);
+    if (!page.nextCursor) break;
+    next = page.nextCursor;
+  }
+  const last = transactions[transactions.length - 1];
+  return { transactions, oldest: last ? { date: last.date, id: last.id } : cursor };
+};
+
+// Transfers waiting on someone, however old: they drive the approval queues
+export const fetchPendingTransfers = async (locationId?: LocationId): Promise<Transaction[]> => {
+  let request = supabase
+    .from('transactions')
+    .select(TRANSACTION_COLUMNS)
+    .eq('type', 'transfer')
+    .in('status', ['pending_source', 'pending_target'])
+    .order('date', { ascending: false });
+  if (locationId) {
+    const location = quoteFilterValue(locationId);
+    request = request.or(`from_location.eq.${location},to_location.eq.${location}`);
+  }
+  const { data, error } = await request;
+  if (error) throw error;
+  return (data || []).map(mapTransaction);
+};
+
+// Re-reads transactions realtime reported as changed, with their lots
+export const fetchTransactionsById = async (transactionIds: string[]): Promise<Transaction[]> => {
+  if (transactionIds.length === 0) return [];
+  const { data, error } = await supabase.from('transactions').select(TRANSACTION_COLUMNS).in('id', transactionIds);
+  if (error) throw error;
+  return (data || []).map(mapTransaction);
+};
+
+// Whether a transaction belongs in a loaded slice of history (see fetchTransactionHistory)
+export const matchesTransactionQuery = (tx: Transaction, query: TransactionQuery) =>
+  (!query.locationId || tx.fromLocation === query.locationId || tx.toLocation === query.locationId) &&
+  ((tx.type === 'transfer' && (tx.status === 'pending_source' || tx.status === 'pending_target')) ||
+    !query.since || new Date(tx.date).getTime() >= new Date(query.since).getTime());
+
+// Applies changed and deleted transactions to a loaded list, newest first
+export const patchTransactions = (transactions: Transaction[], changed: Transaction[], removedIds: string[] = []): Transaction[] => {
+  const replaced = new Set([...removedIds, ...changed.map(tx => tx.id)]);
+  return [...changed, ...transactions.filter(tx => !replaced.has(tx.id))]
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
+
+// Each call below is a single database transaction (see "Transfer workflow" in
+// supabase_schema.sql) that checks the transfer status and available stock before
+// moving anything. Errors carry the database message, e.g. insufficient stock.
+
+export const createTransfer = async (
+  fromLocation: LocationId,
+  toLocation: LocationId,
+  items: { itemId: string, quantity: number }[]
+): Promise<Transaction[]> => {
+  const { data, error } = await supabase.rpc('create_transfer', {
+    p_from_location: fromLocation,
+    p_to_location: toLocation,
+    p_items: items.map(i => ({ item_id: i.itemId, quantity: i.quantity }))
+  });
+
+  if (error) throw error;
+  return (data || []).map(mapTransaction);
+};
+
+export const confirmTransfer = async (transactionId: string): Promise<Transaction> => {
+  const { data, error } = await supabase.rpc('confirm_transfer', { p_transaction_id: transactionId });
+  if (error) throw error;
+  return mapTransaction(data);
+};
+
+// Without a receipt the full sent quantity is received
+export const receiveTransfer = async (transactionId: string, receipt?: TransferReceipt): Promise<Transaction> => {
+  const { data, error } = await supabase.rpc('receive_transfer', {
+    p_transaction_id: transactionId,
+    p_received_quantity: receipt?.receivedQuantity ?? null,
+    p_reason: receipt?.reason || null,
+    p_shortfall_action: receipt?.shortfallAction ?? 'return'
+  });
+  if (error) throw error;
+  return mapTransaction(data);
+};
+
+export const rejectTransfer = async (transactionId: string, reason: string): Promise<Transaction> => {
+  const { data, error } = await supabase.rpc('reject_transfer', { p_transaction_id: transactionId, p_reason: reason });
+  if (error) throw error;
+  return mapTransaction(data);
+};
+
+// The source withdraws a transfer before it is received; dispatched stock returns to it
+export const cancelTransfer = async (transactionId: string): Promise<Transaction> => {
+  const { data, error } = await supabase.rpc('cancel_transfer', { p_transaction_id: transactionId });
+  if (error) throw error;
+  return mapTransaction(data);
+};
+
+// Printed transfers carry a QR code with the group id and the server's signature of its lines
+// (section 20 of supabase_schema.sql), e.g. "DAWAR-TRANSFER:GRP-6f1c2a9e-...:3q2-7w..."
+const DOCUMENT_CODE_PREFIX = 'DAWAR-TRANSFER:';
+
+export const formatTransferDocumentCode = (transferGroupId: string, signature: string) =>
+  `${DOCUMENT_CODE_PREFIX}${transferGroupId}:${signature}`;
+
+// Null for codes that are not transfer documents, e.g. a product barcode
+export const parseTransferDocumentCode = (code: string): { transferGroupId: string, signature: string } | null => {
+  const value = code.trim();
+  if (!value.startsWith(DOCUMENT_CODE_PREFIX)) return null;
+  const rest = value.slice(DOCUMENT_CODE_PREFIX.length);
+  const separator = rest.lastIndexOf(':');
+  if (separator <= 0 || separator === rest.length - 1) return null;
+  return { transferGroupId: rest.slice(0, separator), signature: rest.slice(separator + 1) };
+};
+
+export const signTransferDocument = async (transferGroupId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('sign_transfer_document', { p_group_id: transferGroupId });
+  if (error) throw error;
+  return data as string;
+};
+
+export const verifyTransferDocument = async (transferGroupId: string, signature: string): Promise<TransferDocumentStatus> => {
+  const { data, error } = await supabase.rpc('verify_transfer_document', { p_group_id: transferGroupId, p_signature: signature });
+  if (error) throw error;
+  return data as TransferDocumentStatus;
+};
+
+const mapTransferSignature = (s: any): TransferSignature => ({
+  transferGroupId: s.transfer_group_id,
+  role: s.role as TransferSignatureRole,
+  signerName: s.signer_name,
+  image: s.image,
+  signedBy: s.signed_by,
+  signedAt: s.signed_at
+});
+
+// Recorded before the sender confirms or the receiver accepts; signing again replaces the signature
+export const recordTransferSignature = async (
+  transferGroupId: string,
+  role: TransferSignatureRole,
+  signerName: string,
+  image: string
+): Promise<TransferSignature> => {
+  const { data, error } = await supabase.rpc('record_transfer_signature', {
+    p_group_id: transferGroupId,
+    p_role: role,
+    p_signer_name: signerName,
+    p_image: image
+  });
+  if (error) throw error;
+  return mapTransferSignature(data);
+};
+
+export const fetchTransferSignatures = async (transferGroupId: string): Promise<TransferSignature[]> => {
+  const { data, error } = await supabase.from('transfer_signatures').select('*').eq('transfer_group_id', transferGroupId);
+  if (error) throw error;
+  return (data || []).map(mapTransferSignature);
+};
+
+// Daily usage and direct receipts at one location, logged in one database transaction that also
+// moves the stock. Usage comes out of the first-expiring lots; a receipt's unit cost is averaged
+// into the item's cost at the location. Entries replayed from the offline
+// outbox carry an idempotency key, so an upload that is retried is only logged once, and the
+// stock seen when they were logged, so they are refused if it has changed since.
+export type StockEntry = {
+  type: 'usage' | 'receive';
+  itemId: string;
+  quantity: number;
+  notes?: string;
+  lotNumber?: string;
+  expirationDate?: string;
+  unitCost?: number;
+  recipeId?: string; // Usage posted for production
+  idempotencyKey?: string;
+  loggedAt?: string;
+  expectedQuantity?: number; // Refused as a conflict when the stock now differs
+};
+
+export const logStockEntries = async (locationId: LocationId, entries: StockEntry[]): Promise<Transaction[]> => {
+  const { data, error } = await supabase.rpc('log_stock_entries', {
+    p_location: locationId,
+    p_entries: entries.map(e => ({
+      type: e.type,
+      item_id: e.itemId,
+      quantity: e.quantity,
+      notes: e.notes || null,
+      lot_number: e.lotNumber || null,
+      expiration_date: e.expirationDate || null,
+      unit_cost: e.unitCost ?? null,
+      recipe_id: e.recipeId || null,
+      idempotency_key: e.idempotencyKey || null,
+      logged_at: e.loggedAt || null,
+      expected_quantity: e.expectedQuantity ?? null
+    }))
+  });
+  if (error) throw error;
+  return (data || []).map(mapTransaction);
+};
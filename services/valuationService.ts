@@ -0,0 +1,63 @@
+import { CostOfGoodsUsed, CostOfGoodsUsedRow, InventoryItem, Language, LocationId, StockValuation, Transaction } from '../types';
+
+// Value of one stock row, or undefined while it has no average cost
+export const stockValue = (item: InventoryItem): number | undefined =>
+  item.averageCost === undefined ? undefined : item.quantity * item.averageCost;
+
+export const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export const formatMoney = (value: number, language: Language) =>
+  value.toLocaleString(language === 'ar' ? 'ar-EG' : 'en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Stock value per location, most valuable first. Rows with stock but no average cost are
+ * counted in `uncostedItems` so the total can be shown as incomplete.
+ */
+export const valueStockByLocation = (stockByLocation: Record<string, InventoryItem[]>): StockValuation[] =>
+  Object.entries(stockByLocation)
+    .map(([locationId, items]) => items.reduce<StockValuation>((valuation, item) => {
+      const value = stockValue(item);
+      if (value === undefined) {
+        if (item.quantity > 0) valuation.uncostedItems += 1;
+      } else {
+        valuation.value += value;
+      }
+      return valuation;
+    }, { locationId: locationId as LocationId, value: 0, uncostedItems: 0 }))
+    .sort((a, b) => b.value - a.value);
+
+/**
+ * Cost of goods used at `locationId` between `from` (inclusive) and `to` (exclusive), from its
+ * `usage` transactions. Usage is valued at the unit cost recorded when it was logged; entries
+ * logged before the item had a cost are counted in `uncostedEntries`.
+ */
+export const costOfGoodsUsed = (transactions: Transaction[], locationId: LocationId, from: Date, to: Date): CostOfGoodsUsed => {
+  const rows: Record<string, CostOfGoodsUsedRow> = {};
+  let cost = 0;
+  let uncostedEntries = 0;
+
+  transactions.forEach(tx => {
+    if (tx.type !== 'usage' || tx.fromLocation !== locationId) return;
+    const date = new Date(tx.date).getTime();
+    if (date < from.getTime() || date >= to.getTime()) return;
+
+    const key = tx.productId || tx.itemNameEn;
+    if (!rows[key]) {
+      rows[key] = { productId: tx.productId, itemNameEn: tx.itemNameEn, itemNameAr: tx.itemNameAr, unit: tx.unit, quantity: 0, cost: 0 };
+    }
+    const row = rows[key];
+    row.quantity += tx.quantity;
+    if (tx.unitCost === undefined) {
+      uncostedEntries += 1;
+    } else {
+      row.cost += tx.quantity * tx.unitCost;
+      cost += tx.quantity * tx.unitCost;
+    }
+  });
+
+  return {
+    rows: Object.values(rows).sort((a, b) => b.cost - a.cost),
+    cost,
+    uncostedEntries
+  };
+};
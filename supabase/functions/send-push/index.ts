@@ -0,0 +1,76 @@
+// Delivers the push queue (section 17 of supabase_schema.sql). Every run drains whatever is
+// queued, so it can be invoked by a database webhook on push_queue inserts and by a schedule that
+// picks up retries.
+//
+//   supabase secrets set VAPID_PUBLIC_KEY=... VAPID_PRIVATE_KEY=... VAPID_SUBJECT=mailto:ops@example.com
+//   supabase functions deploy send-push
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { sendPush, PushTarget } from './webPush.ts';
+
+type PushText = { title: string; body: string };
+
+type QueuedPush = {
+  id: number;
+  payload: { tag: string; url: string; en: PushText; ar: PushText };
+  subscriptions: (PushTarget & { language: 'en' | 'ar' })[];
+};
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+const vapid = {
+  subject: Deno.env.get('VAPID_SUBJECT') || 'mailto:admin@localhost',
+  publicKey: Deno.env.get('VAPID_PUBLIC_KEY')!,
+  privateKey: Deno.env.get('VAPID_PRIVATE_KEY')!
+};
+
+// A push counts as delivered once any of the user's devices accepted it. It is retried (see
+// claim_push_queue) only when every device failed for a reason other than being unsubscribed.
+const deliver = async (push: QueuedPush) => {
+  const expired: string[] = [];
+  const errors: string[] = [];
+  let delivered = 0;
+
+  await Promise.all(push.subscriptions.map(async subscription => {
+    const text = push.payload[subscription.language] || push.payload.en;
+    try {
+      const result = await sendPush(subscription, { title: text.title, body: text.body, tag: push.payload.tag, url: push.payload.url }, vapid);
+      if (result.ok) delivered++;
+      else if (result.gone) expired.push(subscription.endpoint);
+      else errors.push(`${new URL(subscription.endpoint).host}: HTTP ${result.status}`);
+    } catch (error) {
+      errors.push(`${new URL(subscription.endpoint).host}: ${error instanceof Error ? error.message : error}`);
+    }
+  }));
+
+  const { error } = await supabase.rpc('finish_push', {
+    p_id: push.id,
+    p_error: delivered === 0 && errors.length > 0 ? errors.join('; ') : null,
+    p_expired_endpoints: expired
+  });
+  if (error) throw error;
+  return { delivered, expired: expired.length, failed: errors.length };
+};
+
+Deno.serve(async () => {
+  const totals = { pushes: 0, delivered: 0, expired: 0, failed: 0 };
+  try {
+    while (true) {
+      const { data, error } = await supabase.rpc('claim_push_queue', { p_limit: 50 });
+      if (error) throw error;
+      const queued = (data || []) as QueuedPush[];
+      if (queued.length === 0) break;
+
+      for (const push of queued) {
+        const result = await deliver(push);
+        totals.pushes++;
+        totals.delivered += result.delivered;
+        totals.expired += result.expired;
+        totals.failed += result.failed;
+      }
+    }
+    return Response.json(totals);
+  } catch (error) {
+    console.error('send-push failed', error);
+    return Response.json({ ...totals, error: error instanceof Error ? error.message : String(error) }, { status: 500 });
+  }
+});
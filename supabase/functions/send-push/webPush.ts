@@ -0,0 +1,129 @@
+// Web Push (RFC 8030) with VAPID authentication (RFC 8292) and aes128gcm payload encryption
+// (RFC 8291). Written against WebCrypto only, so it runs unchanged in the edge runtime and in
+// Node, and it also talks to plain-http endpoints such as scripts/mock-push-server.mjs.
+
+export type PushTarget = {
+  endpoint: string;
+  p256dh: string; // The browser's P-256 public key, base64url
+  auth: string; // The browser's 16-byte auth secret, base64url
+};
+
+// As printed by `npx web-push generate-vapid-keys`: base64url public point and private scalar
+export type VapidKeys = {
+  subject: string; // mailto: or https: contact for the push service
+  publicKey: string;
+  privateKey: string;
+};
+
+export type PushResult = {
+  ok: boolean;
+  status: number;
+  gone: boolean; // The subscription no longer exists and should be deleted
+};
+
+// The push service limit is 4096 bytes of body; the header and tag use 103 of them
+const MAX_PAYLOAD_BYTES = 3993;
+
+const encoder = new TextEncoder();
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), c => c.charCodeAt(0));
+};
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const concat = (...parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const hmac = async (key: Uint8Array, data: Uint8Array) => {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, data));
+};
+
+// HKDF-SHA256 with a single output block, enough for every key derived here (32 bytes at most)
+const hkdf = async (salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number) =>
+  (await hmac(await hmac(salt, ikm), concat(info, new Uint8Array([1])))).slice(0, length);
+
+// An ES256 JWT for the push service's origin, signed with the application server key
+const vapidAuthorization = async (endpoint: string, vapid: VapidKeys) => {
+  const publicKey = fromBase64Url(vapid.publicKey);
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      x: toBase64Url(publicKey.slice(1, 33)),
+      y: toBase64Url(publicKey.slice(33, 65)),
+      d: vapid.privateKey
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+  const header = toBase64Url(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = toBase64Url(encoder.encode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: vapid.subject
+  })));
+  const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, encoder.encode(`${header}.${claims}`));
+  return `vapid t=${header}.${claims}.${toBase64Url(new Uint8Array(signature))}, k=${vapid.publicKey}`;
+};
+
+// Encrypts the payload as a single aes128gcm record for one subscription
+const encryptPayload = async (target: PushTarget, payload: Uint8Array) => {
+  const clientPublicKey = fromBase64Url(target.p256dh);
+  const authSecret = fromBase64Url(target.auth);
+
+  const serverKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const serverPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', serverKeys.publicKey));
+  const clientKey = await crypto.subtle.importKey('raw', clientPublicKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const sharedSecret = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: clientKey }, serverKeys.privateKey, 256));
+
+  const ikm = await hkdf(authSecret, sharedSecret, concat(encoder.encode('WebPush: info\0'), clientPublicKey, serverPublicKey), 32);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const contentKey = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  const aesKey = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt']);
+  // 0x02 marks the last (and only) record
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, concat(payload, new Uint8Array([2]))));
+
+  // Header: salt, record size, key id length, key id (the server's public key)
+  const header = new Uint8Array(21 + serverPublicKey.length);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, 4096);
+  header[20] = serverPublicKey.length;
+  header.set(serverPublicKey, 21);
+  return concat(header, ciphertext);
+};
+
+export const sendPush = async (target: PushTarget, payload: unknown, vapid: VapidKeys, ttlSeconds = 24 * 60 * 60): Promise<PushResult> => {
+  const plaintext = encoder.encode(JSON.stringify(payload));
+  if (plaintext.length > MAX_PAYLOAD_BYTES) {
+    throw new Error(`Push payload is ${plaintext.length} bytes, over the ${MAX_PAYLOAD_BYTES} byte limit`);
+  }
+
+  const response = await fetch(target.endpoint, {
+    method: 'POST',
+    headers: {
+      'Authorization': await vapidAuthorization(target.endpoint, vapid),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      'TTL': String(ttlSeconds),
+      'Urgency': 'high'
+    },
+    body: await encryptPayload(target, plaintext)
+  });
+  await response.body?.cancel();
+  return { ok: response.ok, status: response.status, gone: response.status === 404 || response.status === 410 };
+};
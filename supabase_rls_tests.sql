@@ -0,0 +1,1364 @@
+-- Row-level security and transfer workflow checks for supabase_schema.sql
+--
+-- Run against a database where the schema has been applied, as the owner (postgres), e.g.
+--   psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f supabase_schema.sql -f supabase_rls_tests.sql
+-- On a plain local Postgres create the Supabase roles first:
+--   create role anon nologin; create role authenticated nologin; create role service_role nologin;
+--
+-- Everything runs in one transaction that is rolled back, so fixtures never persist.
+-- Each check raises an exception on failure; a clean run ends with "RLS checks passed".
+
+BEGIN;
+
+-- Fixtures ---------------------------------------------------------------------------------
+INSERT INTO private.app_config (key, value) VALUES ('jwt_secret', 'rls-test-secret')
+ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value;
+
+INSERT INTO public.locations (id, name, type, icon) VALUES
+('rls_b3', 'RLS Branch 3', 'branch', 'store');
+
+INSERT INTO public.app_users (id, username, password, name, role, branch_code, branch_name, accessible_branches) VALUES
+('00000000-0000-0000-0000-0000000000a1', 'rls_admin', 'secret', 'RLS Admin', 'admin', NULL, NULL, NULL),
+('00000000-0000-0000-0000-0000000000a2', 'rls_warehouse', 'secret', 'RLS Warehouse', 'warehouse_manager', NULL, NULL, NULL),
+('00000000-0000-0000-0000-0000000000a3', 'rls_branch1', 'secret', 'RLS Branch 1', 'branch_manager', 'rls_b1', 'RLS Branch 1', ARRAY['rls_b3']),
+('00000000-0000-0000-0000-0000000000a4', 'rls_branch2', 'secret', 'RLS Branch 2', 'branch_manager', 'rls_b2', 'RLS Branch 2', NULL),
+('00000000-0000-0000-0000-0000000000a5', 'rls_mammal', 'secret', 'RLS Mammal', 'mammal_employee', NULL, NULL, NULL);
+
+INSERT INTO public.products (id, name_en, name_ar, category, unit) VALUES
+('00000000-0000-0000-0000-0000000000c1', 'RLS Cups', 'أكواب', 'Packaging', 'pcs'),
+('00000000-0000-0000-0000-0000000000c2', 'RLS Lids', 'أغطية', 'Packaging', 'pcs');
+
+INSERT INTO public.stock (location_id, product_id, quantity) VALUES
+('rls_b1', '00000000-0000-0000-0000-0000000000c1', 10),
+('rls_b2', '00000000-0000-0000-0000-0000000000c1', 20),
+('rls_b3', '00000000-0000-0000-0000-0000000000c1', 30),
+('mammal', '00000000-0000-0000-0000-0000000000c1', 40),
+('warehouse', '00000000-0000-0000-0000-0000000000c1', 50);
+
+INSERT INTO public.transactions (transfer_group_id, type, status, from_location, to_location, item_name_en, item_name_ar, quantity, unit, performed_by) VALUES
+('GRP-RLS-1', 'transfer', 'pending_target', 'rls_b2', 'rls_b1', 'RLS Cups', 'أكواب', 5, 'pcs', 'RLS Branch 2'),
+('GRP-RLS-2', 'transfer', 'completed', 'warehouse', 'rls_b2', 'RLS Cups', 'أكواب', 5, 'pcs', 'RLS Warehouse');
+
+-- Anonymous clients: login only -----------------------------------------------------------
+SET LOCAL ROLE anon;
+
+DO $$
+DECLARE
+  v_session record;
+  v_claims jsonb;
+BEGIN
+  SELECT * INTO v_session FROM public.authenticate_user('rls_branch1', 'secret', false);
+  IF v_session.id IS DISTINCT FROM '00000000-0000-0000-0000-0000000000a3'::uuid THEN
+    RAISE EXCEPTION 'valid credentials were rejected';
+  END IF;
+  IF v_session.access_token !~ '^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$' THEN
+    RAISE EXCEPTION 'access token is not a JWT: %', v_session.access_token;
+  END IF;
+  IF v_session.expires_at > now() + interval '61 minutes' THEN
+    RAISE EXCEPTION 'session without remember me lasts longer than an hour';
+  END IF;
+
+  -- Decode the payload (base64url, unpadded) and check the claims PostgREST relies on
+  v_claims := convert_from(decode(
+    rpad(translate(split_part(v_session.access_token, '.', 2), '-_', '+/'),
+         ((length(split_part(v_session.access_token, '.', 2)) + 3) / 4) * 4, '='),
+    'base64'), 'utf8')::jsonb;
+  IF v_claims ->> 'role' <> 'authenticated' OR v_claims ->> 'sub' <> '00000000-0000-0000-0000-0000000000a3' THEN
+    RAISE EXCEPTION 'unexpected token claims: %', v_claims;
+  END IF;
+
+  SELECT * INTO v_session FROM public.authenticate_user('rls_branch1', 'secret', true);
+  IF v_session.expires_at < now() + interval '29 days' THEN
+    RAISE EXCEPTION 'remember me session expires too early';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.authenticate_user('rls_branch1', 'wrong', false)) THEN
+    RAISE EXCEPTION 'wrong password was accepted';
+  END IF;
+
+  BEGIN
+    PERFORM 1 FROM public.stock;
+    RAISE EXCEPTION 'anon can read stock';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  BEGIN
+    PERFORM 1 FROM public.transactions;
+    RAISE EXCEPTION 'anon can read transactions';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+END $$;
+
+RESET ROLE;
+
+-- The token signature verifies with the configured secret
+DO $$
+DECLARE
+  v_token text;
+BEGIN
+  SELECT access_token INTO v_token FROM public.authenticate_user('rls_admin', 'secret', false);
+  IF split_part(v_token, '.', 3) <> private.base64url(hmac(
+       split_part(v_token, '.', 1) || '.' || split_part(v_token, '.', 2), 'rls-test-secret', 'sha256')) THEN
+    RAISE EXCEPTION 'access token signature does not verify';
+  END IF;
+END $$;
+
+-- A password that looks like a bcrypt hash is hashed like any other; the stored hash written back
+-- unchanged is kept as it is
+DO $$
+DECLARE
+  v_hash text;
+BEGIN
+  UPDATE public.app_users SET password = '$2a$10$typedbytheadmin' WHERE username = 'rls_branch1'
+  RETURNING password INTO v_hash;
+  IF v_hash = '$2a$10$typedbytheadmin'
+     OR NOT EXISTS (SELECT 1 FROM public.authenticate_user('rls_branch1', '$2a$10$typedbytheadmin', false)) THEN
+    RAISE EXCEPTION 'a password that looks like a hash was stored as typed';
+  END IF;
+
+  UPDATE public.app_users SET password = v_hash WHERE username = 'rls_branch1';
+  IF NOT EXISTS (SELECT 1 FROM public.authenticate_user('rls_branch1', '$2a$10$typedbytheadmin', false)) THEN
+    RAISE EXCEPTION 'writing the stored hash back hashed it again';
+  END IF;
+
+  UPDATE public.app_users SET password = 'secret' WHERE username = 'rls_branch1';
+END $$;
+
+-- Signed-in users never see password hashes ------------------------------------------------
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a1"}', true);
+
+DO $$
+BEGIN
+  BEGIN
+    PERFORM password FROM public.app_users;
+    RAISE EXCEPTION 'password column is readable';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+END $$;
+
+-- Branch manager: own branch plus shared branches ------------------------------------------
+SELECT set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+
+DO $$
+DECLARE
+  v_rows int;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.stock WHERE location_id NOT IN ('rls_b1', 'rls_b3')) THEN
+    RAISE EXCEPTION 'branch manager can read stock of other locations';
+  END IF;
+  IF (SELECT count(*) FROM public.stock) <> 2 THEN
+    RAISE EXCEPTION 'branch manager cannot read own and shared branch stock';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.transactions WHERE transfer_group_id = 'GRP-RLS-2') THEN
+    RAISE EXCEPTION 'branch manager can read transactions of other branches';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.transactions WHERE transfer_group_id = 'GRP-RLS-1') THEN
+    RAISE EXCEPTION 'branch manager cannot read incoming transfers';
+  END IF;
+
+  UPDATE public.stock SET quantity = 11 WHERE location_id = 'rls_b1';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 1 THEN
+    RAISE EXCEPTION 'branch manager cannot update own stock';
+  END IF;
+
+  UPDATE public.stock SET quantity = 0 WHERE location_id = 'warehouse';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 0 THEN
+    RAISE EXCEPTION 'branch manager can update warehouse stock';
+  END IF;
+
+  -- The catalog is shared: managers add products, only admins edit them
+  INSERT INTO public.products (name_en, name_ar) VALUES ('RLS Straws', 'مصاصات');
+  UPDATE public.products SET name_en = 'Renamed' WHERE id = '00000000-0000-0000-0000-0000000000c1';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 0 THEN
+    RAISE EXCEPTION 'branch manager can edit catalog products';
+  END IF;
+
+  -- Transfers only change through the workflow functions
+  UPDATE public.stock SET quantity = quantity + 5 WHERE location_id = 'rls_b2';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 0 THEN
+    RAISE EXCEPTION 'branch manager can update another branch';
+  END IF;
+  BEGIN
+    UPDATE public.transactions SET status = 'completed' WHERE transfer_group_id = 'GRP-RLS-1';
+    RAISE EXCEPTION 'branch manager can change transfer status directly';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  BEGIN
+    INSERT INTO public.transactions (transfer_group_id, type, status, from_location, to_location, item_name_en, item_name_ar, quantity, unit, performed_by)
+    VALUES ('GRP-RLS-X', 'transfer', 'pending_target', 'rls_b1', 'warehouse', 'RLS Cups', 'أكواب', 1, 'pcs', 'RLS Branch 1');
+    RAISE EXCEPTION 'branch manager can insert transfers directly';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  BEGIN
+    INSERT INTO public.stock (location_id, product_id, quantity)
+    VALUES ('rls_b2', '00000000-0000-0000-0000-0000000000c2', 1);
+    RAISE EXCEPTION 'branch manager can add items to another branch';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  BEGIN
+    INSERT INTO public.transactions (type, status, from_location, to_location, item_name_en, item_name_ar, quantity, unit, performed_by)
+    VALUES ('usage', 'completed', 'rls_b2', 'Consumed', 'RLS Cups', 'أكواب', 1, 'pcs', 'RLS Branch 1');
+    RAISE EXCEPTION 'branch manager can log usage for another branch';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  -- Even at its own branch, nothing enters the ledger without the stock it moves
+  BEGIN
+    INSERT INTO public.transactions (type, status, from_location, to_location, item_name_en, item_name_ar, quantity, unit, performed_by)
+    VALUES ('receive', 'completed', 'Supplier', 'rls_b1', 'RLS Cups', 'أكواب', 1, 'pcs', 'RLS Branch 1');
+    RAISE EXCEPTION 'branch manager can insert receipts without moving stock';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+  BEGIN
+    UPDATE public.stock SET average_cost = 0 WHERE location_id = 'rls_b1';
+    RAISE EXCEPTION 'branch manager can set the average cost directly';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  DELETE FROM public.transactions WHERE transfer_group_id = 'GRP-RLS-1';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 0 THEN
+    RAISE EXCEPTION 'branch manager can delete transactions';
+  END IF;
+
+  UPDATE public.app_users SET role = 'admin' WHERE id = '00000000-0000-0000-0000-0000000000a3';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 0 THEN
+    RAISE EXCEPTION 'branch manager can change user roles';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.locations (id, name, type) VALUES ('rls_rogue', 'Rogue', 'branch');
+    RAISE EXCEPTION 'branch manager can create locations';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+END $$;
+
+-- Mammal employee: mammal only ---------------------------------------------------------------
+SELECT set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a5"}', true);
+
+DO $$
+DECLARE
+  v_rows int;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.stock WHERE location_id <> 'mammal') THEN
+    RAISE EXCEPTION 'mammal employee can read stock outside mammal';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.transactions WHERE 'mammal' NOT IN (coalesce(from_location, ''), coalesce(to_location, ''))) THEN
+    RAISE EXCEPTION 'mammal employee can read transactions outside mammal';
+  END IF;
+
+  -- Mammal stock only moves through log_stock_entries(), which keeps its lots and history
+  UPDATE public.stock SET quantity = quantity - 1 WHERE location_id = 'mammal' AND product_id = '00000000-0000-0000-0000-0000000000c1';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 0 THEN
+    RAISE EXCEPTION 'mammal employee can edit mammal stock directly';
+  END IF;
+  DELETE FROM public.stock WHERE location_id = 'mammal';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 0 THEN
+    RAISE EXCEPTION 'mammal employee can delete mammal stock';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.transactions (type, status, from_location, to_location, item_name_en, item_name_ar, quantity, unit, performed_by)
+    VALUES ('usage', 'completed', 'mammal', 'Consumed', 'RLS Cups', 'أكواب', 1, 'pcs', 'RLS Mammal');
+    RAISE EXCEPTION 'mammal employee can insert usage without moving stock';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  UPDATE public.stock SET quantity = 0 WHERE location_id = 'warehouse';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 0 THEN
+    RAISE EXCEPTION 'mammal employee can update warehouse stock';
+  END IF;
+END $$;
+
+-- Warehouse manager: reads everywhere, writes warehouse and mammal ---------------------------
+SELECT set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a2"}', true);
+
+DO $$
+DECLARE
+  v_rows int;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.stock WHERE location_id = 'rls_b2') THEN
+    RAISE EXCEPTION 'warehouse manager cannot read branch stock';
+  END IF;
+  IF (SELECT count(*) FROM public.transactions WHERE transfer_group_id LIKE 'GRP-RLS-%') <> 2 THEN
+    RAISE EXCEPTION 'warehouse manager cannot read all transfers';
+  END IF;
+
+  UPDATE public.stock SET quantity = quantity - 1 WHERE location_id IN ('warehouse', 'mammal') AND product_id = '00000000-0000-0000-0000-0000000000c1';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 2 THEN
+    RAISE EXCEPTION 'warehouse manager cannot update warehouse and mammal stock';
+  END IF;
+
+  UPDATE public.stock SET quantity = 0 WHERE location_id = 'rls_b1';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 0 THEN
+    RAISE EXCEPTION 'warehouse manager can update branch stock';
+  END IF;
+
+  DELETE FROM public.products WHERE id = '00000000-0000-0000-0000-0000000000c2';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 0 THEN
+    RAISE EXCEPTION 'warehouse manager can delete catalog products';
+  END IF;
+
+  DELETE FROM public.app_users WHERE id = '00000000-0000-0000-0000-0000000000a4';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 0 THEN
+    RAISE EXCEPTION 'warehouse manager can delete users';
+  END IF;
+END $$;
+
+-- Admin: everything ---------------------------------------------------------------------------
+SELECT set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a1"}', true);
+
+DO $$
+DECLARE
+  v_rows int;
+BEGIN
+  UPDATE public.app_users SET accessible_branches = ARRAY['rls_b1'] WHERE id = '00000000-0000-0000-0000-0000000000a4';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 1 THEN
+    RAISE EXCEPTION 'admin cannot edit users';
+  END IF;
+
+  UPDATE public.stock SET quantity = quantity + 1 WHERE product_id = '00000000-0000-0000-0000-0000000000c1';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 5 THEN
+    RAISE EXCEPTION 'admin cannot edit stock everywhere';
+  END IF;
+  BEGIN
+    UPDATE public.stock SET average_cost = 1 WHERE product_id = '00000000-0000-0000-0000-0000000000c1';
+    RAISE EXCEPTION 'admin can set the average cost directly';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  UPDATE public.products SET category = 'Disposables' WHERE id = '00000000-0000-0000-0000-0000000000c1';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 1 THEN
+    RAISE EXCEPTION 'admin cannot edit catalog products';
+  END IF;
+
+  DELETE FROM public.transactions WHERE transfer_group_id = 'GRP-RLS-2';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 1 THEN
+    RAISE EXCEPTION 'admin cannot delete transactions';
+  END IF;
+END $$;
+
+-- Transfer workflow ---------------------------------------------------------------------------
+DO $$
+DECLARE
+  v_b3_item uuid;
+  v_tx public.transactions%ROWTYPE;
+  v_tx2 public.transactions%ROWTYPE;
+  v_qty numeric;
+  v_b3_qty numeric;
+  v_wh_item uuid;
+  v_wh_qty numeric;
+BEGIN
+  -- The warehouse manager asks rls_b3 to send stock to rls_b1: nothing moves until rls_b3 confirms
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a2"}', true);
+  SELECT id, quantity INTO v_b3_item, v_b3_qty FROM public.stock WHERE location_id = 'rls_b3' AND product_id = '00000000-0000-0000-0000-0000000000c1';
+
+  BEGIN
+    PERFORM public.create_transfer('rls_b3', 'rls_b1', jsonb_build_array(jsonb_build_object('item_id', v_b3_item, 'quantity', -1)));
+    RAISE EXCEPTION 'negative transfer quantity was accepted';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  SELECT * INTO v_tx FROM public.create_transfer('rls_b3', 'rls_b1', jsonb_build_array(jsonb_build_object('item_id', v_b3_item, 'quantity', 4)));
+  IF v_tx.status <> 'pending_source' OR v_tx.performed_by <> 'RLS Warehouse' THEN
+    RAISE EXCEPTION 'request for another location should await the source, got % by %', v_tx.status, v_tx.performed_by;
+  END IF;
+  IF (SELECT quantity FROM public.stock WHERE id = v_b3_item) <> v_b3_qty THEN
+    RAISE EXCEPTION 'requested transfer moved stock before confirmation';
+  END IF;
+
+  BEGIN
+    PERFORM public.confirm_transfer(v_tx.id);
+    RAISE EXCEPTION 'warehouse manager confirmed a branch transfer';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  -- rls_b1 manages rls_b3 (shared branch), so it dispatches and then receives
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  SELECT quantity INTO v_qty FROM public.stock WHERE location_id = 'rls_b1' AND product_id = '00000000-0000-0000-0000-0000000000c1';
+
+  v_tx := public.confirm_transfer(v_tx.id);
+  IF v_tx.status <> 'pending_target' OR (SELECT quantity FROM public.stock WHERE id = v_b3_item) <> v_b3_qty - 4 THEN
+    RAISE EXCEPTION 'confirming did not dispatch the stock';
+  END IF;
+
+  v_tx := public.receive_transfer(v_tx.id);
+  IF v_tx.status <> 'completed'
+     OR (SELECT quantity FROM public.stock WHERE location_id = 'rls_b1' AND product_id = '00000000-0000-0000-0000-0000000000c1') <> v_qty + 4 THEN
+    RAISE EXCEPTION 'receiving did not add the stock at the destination';
+  END IF;
+
+  BEGIN
+    PERFORM public.receive_transfer(v_tx.id);
+    RAISE EXCEPTION 'a completed transfer was received twice';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  -- Dispatching more than is in stock fails without side effects
+  BEGIN
+    PERFORM public.create_transfer('rls_b3', 'warehouse', jsonb_build_array(jsonb_build_object('item_id', v_b3_item, 'quantity', 1000)));
+    RAISE EXCEPTION 'transfer larger than the stock was accepted';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  -- Rejected and cancelled dispatches return the stock to the source
+  SELECT * INTO v_tx FROM public.create_transfer('rls_b3', 'warehouse', jsonb_build_array(jsonb_build_object('item_id', v_b3_item, 'quantity', 6)));
+  IF v_tx.status <> 'pending_target' OR (SELECT quantity FROM public.stock WHERE id = v_b3_item) <> v_b3_qty - 10 THEN
+    RAISE EXCEPTION 'a manager''s own transfer should be dispatched immediately';
+  END IF;
+
+  BEGIN
+    PERFORM public.reject_transfer(v_tx.id, 'Not ours to reject');
+    RAISE EXCEPTION 'the source rejected its own dispatched transfer';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  v_tx := public.cancel_transfer(v_tx.id);
+  IF v_tx.status <> 'cancelled' OR (SELECT quantity FROM public.stock WHERE id = v_b3_item) <> v_b3_qty - 4 THEN
+    RAISE EXCEPTION 'cancelling did not return the stock';
+  END IF;
+
+  SELECT * INTO v_tx FROM public.create_transfer('rls_b3', 'warehouse', jsonb_build_array(jsonb_build_object('item_id', v_b3_item, 'quantity', 6)));
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a2"}', true);
+  BEGIN
+    PERFORM public.reject_transfer(v_tx.id, '  ');
+    RAISE EXCEPTION 'a rejection without a reason was accepted';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  v_tx := public.reject_transfer(v_tx.id, 'Damaged');
+  IF v_tx.status <> 'rejected' OR v_tx.rejection_reason <> 'Damaged'
+     OR (SELECT quantity FROM public.stock WHERE id = v_b3_item) <> v_b3_qty - 4 THEN
+    RAISE EXCEPTION 'rejecting did not return the stock';
+  END IF;
+
+  BEGIN
+    PERFORM public.cancel_transfer(v_tx.id);
+    RAISE EXCEPTION 'a rejected transfer was cancelled';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  -- Short deliveries: the receiver records what arrived, the rest returns or is written off
+  SELECT id, quantity INTO v_wh_item, v_wh_qty FROM public.stock WHERE location_id = 'warehouse' AND product_id = '00000000-0000-0000-0000-0000000000c1';
+  SELECT * INTO v_tx FROM public.create_transfer('warehouse', 'rls_b1', jsonb_build_array(jsonb_build_object('item_id', v_wh_item, 'quantity', 5)));
+  SELECT * INTO v_tx2 FROM public.create_transfer('warehouse', 'rls_b1', jsonb_build_array(jsonb_build_object('item_id', v_wh_item, 'quantity', 5)));
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  SELECT quantity INTO v_qty FROM public.stock WHERE location_id = 'rls_b1' AND product_id = '00000000-0000-0000-0000-0000000000c1';
+
+  BEGIN
+    PERFORM public.receive_transfer(v_tx.id, 3, ' ', 'return');
+    RAISE EXCEPTION 'a short delivery without a reason was accepted';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+  BEGIN
+    PERFORM public.receive_transfer(v_tx.id, 6, NULL, 'return');
+    RAISE EXCEPTION 'more than was sent was received';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  v_tx := public.receive_transfer(v_tx.id, 3, 'Two cartons missing', 'return');
+  IF v_tx.status <> 'completed' OR v_tx.received_quantity <> 3 OR v_tx.shortfall_action <> 'return'
+     OR (SELECT quantity FROM public.stock WHERE location_id = 'rls_b1' AND product_id = '00000000-0000-0000-0000-0000000000c1') <> v_qty + 3
+     OR (SELECT quantity FROM public.stock WHERE id = v_wh_item) <> v_wh_qty - 5 + 2 THEN
+    RAISE EXCEPTION 'returned shortfall did not go back to the source';
+  END IF;
+
+  v_tx2 := public.receive_transfer(v_tx2.id, 4, 'Crushed in transit', 'loss');
+  IF v_tx2.received_quantity <> 4 OR v_tx2.discrepancy_reason <> 'Crushed in transit'
+     OR (SELECT quantity FROM public.stock WHERE id = v_wh_item) <> v_wh_qty - 8
+     OR NOT EXISTS (SELECT 1 FROM public.transactions
+                    WHERE type = 'loss' AND transfer_group_id = v_tx2.transfer_group_id AND quantity = 1 AND performed_by = 'RLS Branch 1') THEN
+    RAISE EXCEPTION 'written-off shortfall was not recorded as a loss';
+  END IF;
+END $$;
+
+-- Purchasing ----------------------------------------------------------------------------------
+DO $$
+DECLARE
+  v_rows int;
+  v_supplier uuid;
+  v_po public.purchase_orders%ROWTYPE;
+  v_line uuid;
+  v_grn public.goods_received_notes%ROWTYPE;
+  v_wh_qty numeric;
+BEGIN
+  -- Branch managers cannot see or raise purchase orders
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  BEGIN
+    INSERT INTO public.suppliers (name) VALUES ('Rogue Supplier');
+    RAISE EXCEPTION 'branch manager can add suppliers';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  -- The admin raises an order for 10 cups
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a1"}', true);
+  INSERT INTO public.suppliers (name) VALUES ('RLS Supplier') RETURNING id INTO v_supplier;
+  INSERT INTO public.purchase_orders (supplier_id, created_by) VALUES (v_supplier, 'RLS Admin') RETURNING * INTO v_po;
+  INSERT INTO public.purchase_order_lines (purchase_order_id, product_id, quantity)
+  VALUES (v_po.id, '00000000-0000-0000-0000-0000000000c1', 10) RETURNING id INTO v_line;
+
+  -- The warehouse manager sees it but cannot receive a draft or change it
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a2"}', true);
+  IF NOT EXISTS (SELECT 1 FROM public.purchase_orders WHERE id = v_po.id) THEN
+    RAISE EXCEPTION 'warehouse manager cannot read purchase orders';
+  END IF;
+  UPDATE public.purchase_orders SET status = 'ordered' WHERE id = v_po.id;
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 0 THEN
+    RAISE EXCEPTION 'warehouse manager can edit purchase orders';
+  END IF;
+  BEGIN
+    PERFORM public.receive_purchase_order(v_po.id, jsonb_build_array(jsonb_build_object('line_id', v_line, 'quantity', 1)));
+    RAISE EXCEPTION 'a draft purchase order was received';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a1"}', true);
+  UPDATE public.purchase_orders SET status = 'ordered' WHERE id = v_po.id;
+
+  -- Two deliveries: 6 then 4. Over-delivery is refused.
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a2"}', true);
+  SELECT quantity INTO v_wh_qty FROM public.stock WHERE location_id = 'warehouse' AND product_id = '00000000-0000-0000-0000-0000000000c1';
+
+  v_grn := public.receive_purchase_order(v_po.id, jsonb_build_array(jsonb_build_object('line_id', v_line, 'quantity', 6)), 'First pallet');
+  IF (SELECT status FROM public.purchase_orders WHERE id = v_po.id) <> 'partially_received'
+     OR (SELECT quantity FROM public.stock WHERE location_id = 'warehouse' AND product_id = '00000000-0000-0000-0000-0000000000c1') <> v_wh_qty + 6
+     OR NOT EXISTS (SELECT 1 FROM public.transactions t JOIN public.goods_received_lines l ON l.transaction_id = t.id
+                    WHERE l.goods_received_note_id = v_grn.id AND t.type = 'receive' AND t.to_location = 'warehouse'
+                      AND t.from_location = 'RLS Supplier' AND t.quantity = 6) THEN
+    RAISE EXCEPTION 'partial delivery was not booked into the warehouse';
+  END IF;
+
+  BEGIN
+    PERFORM public.receive_purchase_order(v_po.id, jsonb_build_array(jsonb_build_object('line_id', v_line, 'quantity', 5)));
+    RAISE EXCEPTION 'more than was ordered was received';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  PERFORM public.receive_purchase_order(v_po.id, jsonb_build_array(jsonb_build_object('line_id', v_line, 'quantity', 4)));
+  IF (SELECT status FROM public.purchase_orders WHERE id = v_po.id) <> 'received'
+     OR (SELECT count(*) FROM public.goods_received_notes WHERE purchase_order_id = v_po.id) <> 2 THEN
+    RAISE EXCEPTION 'fully delivered purchase order was not marked received';
+  END IF;
+
+  -- Branch managers cannot book deliveries
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  IF EXISTS (SELECT 1 FROM public.purchase_orders) THEN
+    RAISE EXCEPTION 'branch manager can read purchase orders';
+  END IF;
+  BEGIN
+    PERFORM public.receive_purchase_order(v_po.id, jsonb_build_array(jsonb_build_object('line_id', v_line, 'quantity', 1)));
+    RAISE EXCEPTION 'branch manager received a purchase order';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+END $$;
+
+-- Stock-takes ---------------------------------------------------------------------------------
+DO $$
+DECLARE
+  v_take public.stock_takes%ROWTYPE;
+  v_line public.stock_take_lines%ROWTYPE;
+  v_expected numeric;
+BEGIN
+  -- Only managers of the location can count it
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  BEGIN
+    PERFORM public.start_stock_take('mammal');
+    RAISE EXCEPTION 'branch manager started a stock-take at mammal';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  -- Mammal staff open a count; it snapshots the current stock and blocks a second open count
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a5"}', true);
+  SELECT quantity INTO v_expected FROM public.stock WHERE location_id = 'mammal' AND product_id = '00000000-0000-0000-0000-0000000000c1';
+  v_take := public.start_stock_take('mammal', 'Month end');
+  SELECT * INTO v_line FROM public.stock_take_lines
+  WHERE stock_take_id = v_take.id AND product_id = '00000000-0000-0000-0000-0000000000c1';
+  IF v_take.status <> 'counting' OR v_line.expected_quantity IS DISTINCT FROM v_expected THEN
+    RAISE EXCEPTION 'stock-take did not snapshot mammal stock';
+  END IF;
+  BEGIN
+    PERFORM public.start_stock_take('mammal');
+    RAISE EXCEPTION 'two stock-takes were opened at mammal';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  -- Three cups are missing
+  PERFORM public.record_stock_counts(v_take.id, jsonb_build_array(jsonb_build_object('line_id', v_line.id, 'counted_quantity', v_expected - 3)));
+  PERFORM public.submit_stock_take(v_take.id);
+  BEGIN
+    PERFORM public.record_stock_counts(v_take.id, jsonb_build_array(jsonb_build_object('line_id', v_line.id, 'counted_quantity', 0)));
+    RAISE EXCEPTION 'a submitted stock-take was recounted';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+  BEGIN
+    PERFORM public.approve_stock_take(v_take.id);
+    RAISE EXCEPTION 'mammal staff approved their own stock-take';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  -- Other branches cannot see it
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  IF EXISTS (SELECT 1 FROM public.stock_takes WHERE id = v_take.id) OR EXISTS (SELECT 1 FROM public.stock_take_lines WHERE id = v_line.id) THEN
+    RAISE EXCEPTION 'branch manager can read mammal stock-takes';
+  END IF;
+
+  -- The warehouse manager approves: stock drops by the variance and an adjustment is logged
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a2"}', true);
+  v_take := public.approve_stock_take(v_take.id);
+  IF v_take.status <> 'approved' OR v_take.approved_by <> 'RLS Warehouse'
+     OR (SELECT quantity FROM public.stock WHERE location_id = 'mammal' AND product_id = '00000000-0000-0000-0000-0000000000c1') <> v_expected - 3
+     OR NOT EXISTS (SELECT 1 FROM public.transactions t JOIN public.stock_take_lines l ON l.transaction_id = t.id
+                    WHERE l.id = v_line.id AND t.type = 'adjustment' AND t.from_location = 'mammal'
+                      AND t.to_location IS NULL AND t.quantity = 3 AND t.notes = v_take.stock_take_number) THEN
+    RAISE EXCEPTION 'approved stock-take did not post its variance';
+  END IF;
+
+  -- Adjustments cannot be logged directly
+  BEGIN
+    INSERT INTO public.transactions (type, status, to_location, item_name_en, item_name_ar, quantity, unit, performed_by)
+    VALUES ('adjustment', 'completed', 'warehouse', 'RLS Cups', 'أكواب', 100, 'pcs', 'RLS Warehouse');
+    RAISE EXCEPTION 'adjustment was logged without a stock-take';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  -- A new count can start once the last one is closed, and cancelling it leaves stock alone
+  v_take := public.start_stock_take('mammal');
+  v_take := public.cancel_stock_take(v_take.id);
+  IF v_take.status <> 'cancelled'
+     OR (SELECT quantity FROM public.stock WHERE location_id = 'mammal' AND product_id = '00000000-0000-0000-0000-0000000000c1') <> v_expected - 3 THEN
+    RAISE EXCEPTION 'cancelled stock-take changed stock';
+  END IF;
+END $$;
+
+-- Audit log -----------------------------------------------------------------------------------
+DO $$
+DECLARE
+  v_entry public.audit_log%ROWTYPE;
+  v_stock_id uuid;
+BEGIN
+  -- A direct stock edit is logged with its actor and the row before and after
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  UPDATE public.stock SET quantity = quantity + 100 WHERE location_id = 'rls_b1' AND product_id = '00000000-0000-0000-0000-0000000000c1'
+  RETURNING id INTO v_stock_id;
+  SELECT * INTO v_entry FROM public.audit_log WHERE table_name = 'stock' AND record_id = v_stock_id::text ORDER BY id DESC LIMIT 1;
+  IF v_entry.id IS NULL OR v_entry.action <> 'UPDATE' OR v_entry.actor_name <> 'RLS Branch 1' OR v_entry.location_id <> 'rls_b1'
+     OR (v_entry.new_data ->> 'quantity')::numeric - (v_entry.old_data ->> 'quantity')::numeric <> 100 THEN
+    RAISE EXCEPTION 'stock edit was not audited';
+  END IF;
+
+  -- Entries cannot be written, changed or removed by anyone signed in
+  BEGIN
+    INSERT INTO public.audit_log (table_name, record_id, action) VALUES ('stock', 'forged', 'DELETE');
+    RAISE EXCEPTION 'audit log accepted a forged entry';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+  BEGIN
+    DELETE FROM public.audit_log WHERE id = v_entry.id;
+    RAISE EXCEPTION 'audit entry was deleted';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  -- Staff of other locations do not see it
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a5"}', true);
+  IF EXISTS (SELECT 1 FROM public.audit_log WHERE id = v_entry.id) THEN
+    RAISE EXCEPTION 'mammal staff can read a branch''s audit log';
+  END IF;
+
+  -- Stock moved by a transfer is left to the transaction, not the audit log
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  PERFORM public.create_transfer('rls_b1', 'rls_b3', jsonb_build_array(jsonb_build_object('item_id', v_stock_id, 'quantity', 1)));
+  IF EXISTS (SELECT 1 FROM public.audit_log WHERE table_name = 'stock' AND record_id = v_stock_id::text AND id > v_entry.id) THEN
+    RAISE EXCEPTION 'transfer stock movement was audited';
+  END IF;
+
+  -- User changes are logged without the password hash, and only admins can read them
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a1"}', true);
+  UPDATE public.app_users SET password = 'changed', name = 'RLS Branch Two' WHERE id = '00000000-0000-0000-0000-0000000000a4';
+  SELECT * INTO v_entry FROM public.audit_log
+  WHERE table_name = 'app_users' AND record_id = '00000000-0000-0000-0000-0000000000a4' ORDER BY id DESC LIMIT 1;
+  IF v_entry.id IS NULL OR v_entry.actor_name <> 'RLS Admin' OR v_entry.new_data ->> 'name' <> 'RLS Branch Two'
+     OR v_entry.old_data ? 'password' OR v_entry.new_data ? 'password' OR v_entry.new_data ->> 'password_changed' <> 'true' THEN
+    RAISE EXCEPTION 'user change was not audited safely';
+  END IF;
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a2"}', true);
+  IF EXISTS (SELECT 1 FROM public.audit_log WHERE table_name = 'app_users') THEN
+    RAISE EXCEPTION 'warehouse manager can read the user audit log';
+  END IF;
+END $$;
+
+-- Lots and first-expiry-first-out ------------------------------------------------------------
+DO $$
+DECLARE
+  v_wh_lids uuid;
+  v_b1_lids uuid;
+  v_usage public.transactions%ROWTYPE;
+  v_tx public.transactions%ROWTYPE;
+BEGIN
+  -- Adding an item opens an unlabelled lot; receipts add numbered lots
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a2"}', true);
+  INSERT INTO public.stock (location_id, product_id, quantity, expiration_date)
+  VALUES ('warehouse', '00000000-0000-0000-0000-0000000000c2', 5, '2030-03-01')
+  RETURNING id INTO v_wh_lids;
+  PERFORM public.log_stock_entries('warehouse', jsonb_build_array(
+    jsonb_build_object('item_id', v_wh_lids, 'type', 'receive', 'quantity', 10, 'lot_number', 'L-LATE', 'expiration_date', '2030-06-01'),
+    jsonb_build_object('item_id', v_wh_lids, 'type', 'receive', 'quantity', 10, 'lot_number', 'L-EARLY', 'expiration_date', '2030-01-01')
+  ));
+  IF (SELECT count(*) FROM public.stock_lots WHERE stock_id = v_wh_lids) <> 3
+     OR (SELECT quantity FROM public.stock WHERE id = v_wh_lids) <> 25
+     OR (SELECT expiration_date FROM public.stock WHERE id = v_wh_lids) <> '2030-01-01' THEN
+    RAISE EXCEPTION 'receipts were not booked as lots';
+  END IF;
+
+  -- Usage empties the first-expiring lot before touching the next
+  SELECT * INTO v_usage FROM public.log_stock_entries('warehouse', jsonb_build_array(
+    jsonb_build_object('item_id', v_wh_lids, 'type', 'usage', 'quantity', 12, 'notes', 'Morning shift')));
+  IF v_usage.type <> 'usage' OR v_usage.from_location <> 'warehouse' OR v_usage.performed_by <> 'RLS Warehouse'
+     OR EXISTS (SELECT 1 FROM public.stock_lots WHERE stock_id = v_wh_lids AND lot_number = 'L-EARLY')
+     OR (SELECT quantity FROM public.stock_lots WHERE stock_id = v_wh_lids AND lot_number IS NULL) <> 3
+     OR (SELECT sum(quantity) FROM public.transaction_lots WHERE transaction_id = v_usage.id) <> 12
+     OR (SELECT quantity FROM public.transaction_lots WHERE transaction_id = v_usage.id AND lot_number = 'L-EARLY') <> 10 THEN
+    RAISE EXCEPTION 'usage was not taken first-expiring first';
+  END IF;
+
+  BEGIN
+    PERFORM public.log_stock_entries('warehouse', jsonb_build_array(
+      jsonb_build_object('item_id', v_wh_lids, 'type', 'usage', 'quantity', 1000)));
+    RAISE EXCEPTION 'usage larger than the stock was logged';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  -- A transfer carries its lots; a short receipt returns the later lot to the source
+  SELECT * INTO v_tx FROM public.create_transfer('warehouse', 'rls_b1',
+    jsonb_build_array(jsonb_build_object('item_id', v_wh_lids, 'quantity', 5)));
+  IF (SELECT count(*) FROM public.transaction_lots WHERE transaction_id = v_tx.id) <> 2 THEN
+    RAISE EXCEPTION 'dispatched transfer did not record its lots';
+  END IF;
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  PERFORM public.receive_transfer(v_tx.id, 4, 'Crushed box', 'return');
+  SELECT id INTO v_b1_lids FROM public.stock WHERE location_id = 'rls_b1' AND product_id = '00000000-0000-0000-0000-0000000000c2';
+  IF (SELECT quantity FROM public.stock WHERE id = v_b1_lids) <> 4
+     OR (SELECT quantity FROM public.stock_lots WHERE stock_id = v_b1_lids AND lot_number IS NULL AND expiration_date = '2030-03-01') <> 3
+     OR (SELECT quantity FROM public.stock_lots WHERE stock_id = v_b1_lids AND lot_number = 'L-LATE') <> 1 THEN
+    RAISE EXCEPTION 'received transfer did not keep its lots';
+  END IF;
+
+  -- Only the shortfall of the later lot went back; manual edits keep lots and stock in step
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a2"}', true);
+  IF (SELECT quantity FROM public.stock_lots WHERE stock_id = v_wh_lids AND lot_number = 'L-LATE') <> 9
+     OR EXISTS (SELECT 1 FROM public.stock_lots WHERE stock_id = v_wh_lids AND lot_number IS NULL) THEN
+    RAISE EXCEPTION 'transfer shortfall did not return to its lot';
+  END IF;
+  UPDATE public.stock SET quantity = quantity - 4 WHERE id = v_wh_lids;
+  IF (SELECT quantity FROM public.stock WHERE id = v_wh_lids) <> 5
+     OR (SELECT sum(quantity) FROM public.stock_lots WHERE stock_id = v_wh_lids) <> 5
+     OR (SELECT expiration_date FROM public.stock WHERE id = v_wh_lids) <> '2030-06-01' THEN
+    RAISE EXCEPTION 'manual stock edit left the lots out of step';
+  END IF;
+
+  -- Lots are only visible with their stock and transactions, and only move through the functions
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a5"}', true);
+  IF EXISTS (SELECT 1 FROM public.stock_lots WHERE stock_id = v_wh_lids)
+     OR EXISTS (SELECT 1 FROM public.transaction_lots WHERE transaction_id = v_usage.id) THEN
+    RAISE EXCEPTION 'mammal staff can read warehouse lots';
+  END IF;
+  BEGIN
+    PERFORM public.log_stock_entries('warehouse', jsonb_build_array(
+      jsonb_build_object('item_id', v_wh_lids, 'type', 'usage', 'quantity', 1)));
+    RAISE EXCEPTION 'mammal staff logged warehouse usage';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+  BEGIN
+    UPDATE public.stock_lots SET quantity = 100;
+    RAISE EXCEPTION 'lots were edited directly';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+END $$;
+
+-- Waste write-offs -------------------------------------------------------------------------------
+DO $$
+DECLARE
+  v_b1_lids uuid;
+  v_late_lot uuid;
+  v_tx public.transactions%ROWTYPE;
+BEGIN
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  SELECT id INTO v_b1_lids FROM public.stock WHERE location_id = 'rls_b1' AND product_id = '00000000-0000-0000-0000-0000000000c2';
+  SELECT id INTO v_late_lot FROM public.stock_lots WHERE stock_id = v_b1_lids AND lot_number = 'L-LATE';
+
+  -- Writing off a lot takes exactly that lot, even though another expires first
+  SELECT * INTO v_tx FROM public.write_off_stock(v_b1_lids, 1, 'damaged', 'Dropped', v_late_lot);
+  IF v_tx.type <> 'waste' OR v_tx.status <> 'completed' OR v_tx.from_location <> 'rls_b1' OR v_tx.to_location IS NOT NULL
+     OR v_tx.reason_code <> 'damaged' OR v_tx.performed_by <> 'RLS Branch 1'
+     OR (SELECT quantity FROM public.stock WHERE id = v_b1_lids) <> 3
+     OR EXISTS (SELECT 1 FROM public.stock_lots WHERE id = v_late_lot)
+     OR (SELECT lot_number FROM public.transaction_lots WHERE transaction_id = v_tx.id) <> 'L-LATE' THEN
+    RAISE EXCEPTION 'lot write-off was not posted as waste';
+  END IF;
+
+  BEGIN
+    PERFORM public.write_off_stock(v_b1_lids, 10, 'expired');
+    RAISE EXCEPTION 'wrote off more than the stock holds';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+  BEGIN
+    PERFORM public.write_off_stock(v_b1_lids, 1, 'other', '  ');
+    RAISE EXCEPTION 'wrote off for another reason without notes';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+  BEGIN
+    PERFORM public.write_off_stock(v_b1_lids, 1, 'lost');
+    RAISE EXCEPTION 'wrote off with an unknown reason';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  -- Waste only enters the ledger through write_off_stock(), and only where the user manages stock
+  BEGIN
+    INSERT INTO public.transactions (type, status, from_location, item_name_en, item_name_ar, quantity, unit, performed_by, reason_code)
+    VALUES ('waste', 'completed', 'rls_b1', 'Lids', 'Lids', 1, 'pcs', 'RLS Branch 1', 'expired');
+    RAISE EXCEPTION 'waste was inserted directly';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a5"}', true);
+  BEGIN
+    PERFORM public.write_off_stock(v_b1_lids, 1, 'expired');
+    RAISE EXCEPTION 'mammal staff wrote off branch stock';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+END $$;
+
+-- Offline uploads with idempotency keys ---------------------------------------------------------
+DO $$
+DECLARE
+  v_b1_cups uuid;
+  v_before numeric;
+  v_first public.transactions%ROWTYPE;
+  v_retry public.transactions%ROWTYPE;
+BEGIN
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  SELECT id, quantity INTO v_b1_cups, v_before FROM public.stock
+  WHERE location_id = 'rls_b1' AND product_id = '00000000-0000-0000-0000-0000000000c1';
+
+  -- A queued entry keeps the time it was logged
+  SELECT * INTO v_first FROM public.log_stock_entries('rls_b1', jsonb_build_array(jsonb_build_object(
+    'item_id', v_b1_cups, 'type', 'usage', 'quantity', 1,
+    'idempotency_key', '00000000-0000-0000-0000-0000000000e1', 'logged_at', now() - interval '2 hours')));
+  IF v_first.date > now() - interval '1 hour'
+     OR (SELECT quantity FROM public.stock WHERE id = v_b1_cups) <> v_before - 1 THEN
+    RAISE EXCEPTION 'queued usage was not logged at its own time';
+  END IF;
+
+  -- Uploading it again, alone or with new entries, does not move the stock twice
+  SELECT * INTO v_retry FROM public.log_stock_entries('rls_b1', jsonb_build_array(jsonb_build_object(
+    'item_id', v_b1_cups, 'type', 'usage', 'quantity', 1, 'idempotency_key', '00000000-0000-0000-0000-0000000000e1')));
+  IF v_retry.id <> v_first.id OR (SELECT quantity FROM public.stock WHERE id = v_b1_cups) <> v_before - 1 THEN
+    RAISE EXCEPTION 'a retried upload was logged twice';
+  END IF;
+  PERFORM public.log_stock_entries('rls_b1', jsonb_build_array(
+    jsonb_build_object('item_id', v_b1_cups, 'type', 'usage', 'quantity', 1, 'idempotency_key', '00000000-0000-0000-0000-0000000000e1'),
+    jsonb_build_object('item_id', v_b1_cups, 'type', 'receive', 'quantity', 3, 'idempotency_key', '00000000-0000-0000-0000-0000000000e2',
+                       'logged_at', now() + interval '1 day')));
+  IF (SELECT quantity FROM public.stock WHERE id = v_b1_cups) <> v_before + 2
+     OR (SELECT count(*) FROM public.transactions WHERE idempotency_key IN ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000e2')) <> 2
+     OR (SELECT date FROM public.transactions WHERE idempotency_key = '00000000-0000-0000-0000-0000000000e2') > now() THEN
+    RAISE EXCEPTION 'a mixed retry was not applied exactly once';
+  END IF;
+
+  -- An entry logged against stock that has since changed is refused and moves nothing; entries of
+  -- one batch are checked against the stock the earlier ones left
+  BEGIN
+    PERFORM public.log_stock_entries('rls_b1', jsonb_build_array(jsonb_build_object(
+      'item_id', v_b1_cups, 'type', 'usage', 'quantity', 1, 'expected_quantity', v_before,
+      'idempotency_key', '00000000-0000-0000-0000-0000000000e3')));
+    RAISE EXCEPTION 'an entry against stale stock was applied';
+  EXCEPTION WHEN serialization_failure THEN NULL;
+  END;
+  PERFORM public.log_stock_entries('rls_b1', jsonb_build_array(
+    jsonb_build_object('item_id', v_b1_cups, 'type', 'receive', 'quantity', 1, 'expected_quantity', v_before + 2),
+    jsonb_build_object('item_id', v_b1_cups, 'type', 'usage', 'quantity', 2, 'expected_quantity', v_before + 3)));
+  IF (SELECT quantity FROM public.stock WHERE id = v_b1_cups) <> v_before + 1
+     OR EXISTS (SELECT 1 FROM public.transactions WHERE idempotency_key = '00000000-0000-0000-0000-0000000000e3') THEN
+    RAISE EXCEPTION 'entries checked against their expected stock were not applied';
+  END IF;
+
+  -- A key is bound to the user and location that first used it
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a1"}', true);
+  BEGIN
+    PERFORM public.log_stock_entries('rls_b1', jsonb_build_array(jsonb_build_object(
+      'item_id', v_b1_cups, 'type', 'usage', 'quantity', 1, 'idempotency_key', '00000000-0000-0000-0000-0000000000e1')));
+    RAISE EXCEPTION 'another user replayed an idempotency key';
+  EXCEPTION WHEN unique_violation THEN NULL;
+  END;
+END $$;
+
+-- Valuation: moving weighted-average cost ----------------------------------------------------
+DO $$
+DECLARE
+  v_wh_sugar uuid;
+  v_b1_sugar uuid;
+  v_tx public.transactions%ROWTYPE;
+BEGIN
+  INSERT INTO public.products (id, name_en, name_ar, category, unit)
+  VALUES ('00000000-0000-0000-0000-0000000000c3', 'RLS Sugar', 'سكر', 'Dry', 'kg');
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a2"}', true);
+  INSERT INTO public.stock (location_id, product_id, quantity) VALUES ('warehouse', '00000000-0000-0000-0000-0000000000c3', 0)
+  RETURNING id INTO v_wh_sugar;
+
+  -- Receipts average their unit cost in; a receipt without a cost leaves the average alone
+  PERFORM public.log_stock_entries('warehouse', jsonb_build_array(
+    jsonb_build_object('item_id', v_wh_sugar, 'type', 'receive', 'quantity', 10, 'unit_cost', 2),
+    jsonb_build_object('item_id', v_wh_sugar, 'type', 'receive', 'quantity', 10, 'unit_cost', 3)));
+  SELECT * INTO v_tx FROM public.log_stock_entries('warehouse', jsonb_build_array(
+    jsonb_build_object('item_id', v_wh_sugar, 'type', 'receive', 'quantity', 4)));
+  IF (SELECT average_cost FROM public.stock WHERE id = v_wh_sugar) <> 2.5 OR v_tx.unit_cost <> 2.5 THEN
+    RAISE EXCEPTION 'receipts were not averaged into the cost';
+  END IF;
+
+  -- Usage is valued at the average, which it does not change
+  SELECT * INTO v_tx FROM public.log_stock_entries('warehouse', jsonb_build_array(
+    jsonb_build_object('item_id', v_wh_sugar, 'type', 'usage', 'quantity', 4)));
+  IF v_tx.unit_cost <> 2.5 OR (SELECT average_cost FROM public.stock WHERE id = v_wh_sugar) <> 2.5 THEN
+    RAISE EXCEPTION 'usage was not valued at the average cost';
+  END IF;
+
+  BEGIN
+    PERFORM public.log_stock_entries('warehouse', jsonb_build_array(
+      jsonb_build_object('item_id', v_wh_sugar, 'type', 'receive', 'quantity', 1, 'unit_cost', -1)));
+    RAISE EXCEPTION 'a negative unit cost was accepted';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  -- Transferred stock takes the source's cost along; a branch new to the item starts at that cost
+  SELECT * INTO v_tx FROM public.create_transfer('warehouse', 'rls_b1',
+    jsonb_build_array(jsonb_build_object('item_id', v_wh_sugar, 'quantity', 8)));
+  IF v_tx.unit_cost <> 2.5 THEN
+    RAISE EXCEPTION 'dispatched transfer was not valued at the source cost';
+  END IF;
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  PERFORM public.receive_transfer(v_tx.id, 6, 'Torn bags', 'return');
+  SELECT id INTO v_b1_sugar FROM public.stock WHERE location_id = 'rls_b1' AND product_id = '00000000-0000-0000-0000-0000000000c3';
+  IF (SELECT average_cost FROM public.stock WHERE id = v_b1_sugar) <> 2.5
+     OR (SELECT average_cost FROM public.stock WHERE id = v_wh_sugar) <> 2.5 THEN
+    RAISE EXCEPTION 'received transfer did not carry its cost';
+  END IF;
+
+  PERFORM public.log_stock_entries('rls_b1', jsonb_build_array(
+    jsonb_build_object('item_id', v_b1_sugar, 'type', 'receive', 'quantity', 6, 'unit_cost', 4)));
+  SELECT * INTO v_tx FROM public.write_off_stock(v_b1_sugar, 2, 'spoiled');
+  IF (SELECT average_cost FROM public.stock WHERE id = v_b1_sugar) <> 3.25 OR v_tx.unit_cost <> 3.25 THEN
+    RAISE EXCEPTION 'branch receipts were not averaged with transferred stock';
+  END IF;
+END $$;
+
+-- Recipes and production --------------------------------------------------------------------
+DO $$
+DECLARE
+  v_recipe uuid;
+  v_cups uuid;
+  v_tx public.transactions%ROWTYPE;
+  v_take public.stock_takes%ROWTYPE;
+  v_line public.stock_take_lines%ROWTYPE;
+BEGIN
+  -- Only admins write recipes; everyone signed in reads them
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a5"}', true);
+  BEGIN
+    INSERT INTO public.recipes (name_en) VALUES ('RLS Mocha');
+    RAISE EXCEPTION 'mammal staff created a recipe';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a1"}', true);
+  INSERT INTO public.recipes (name_en, name_ar, yield_unit) VALUES ('RLS Latte', 'لاتيه', 'cups') RETURNING id INTO v_recipe;
+  INSERT INTO public.recipe_ingredients (recipe_id, product_id, quantity)
+  VALUES (v_recipe, '00000000-0000-0000-0000-0000000000c1', 1);
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a5"}', true);
+  IF NOT EXISTS (SELECT 1 FROM public.recipe_ingredients WHERE recipe_id = v_recipe) THEN
+    RAISE EXCEPTION 'mammal staff cannot read recipes';
+  END IF;
+
+  -- Production is posted as usage that names the recipe
+  SELECT id INTO v_cups FROM public.stock WHERE location_id = 'mammal' AND product_id = '00000000-0000-0000-0000-0000000000c1';
+  SELECT * INTO v_tx FROM public.log_stock_entries('mammal', jsonb_build_array(
+    jsonb_build_object('item_id', v_cups, 'type', 'usage', 'quantity', 5, 'recipe_id', v_recipe)));
+  IF v_tx.recipe_id IS DISTINCT FROM v_recipe THEN
+    RAISE EXCEPTION 'production usage did not record its recipe';
+  END IF;
+  PERFORM public.log_stock_entries('mammal', jsonb_build_array(
+    jsonb_build_object('item_id', v_cups, 'type', 'usage', 'quantity', 2, 'notes', 'Spilt')));
+
+  BEGIN
+    PERFORM public.log_stock_entries('mammal', jsonb_build_array(
+      jsonb_build_object('item_id', v_cups, 'type', 'receive', 'quantity', 5, 'recipe_id', v_recipe)));
+    RAISE EXCEPTION 'a receipt was posted from a recipe';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+  BEGIN
+    PERFORM public.log_stock_entries('mammal', jsonb_build_array(
+      jsonb_build_object('item_id', v_cups, 'type', 'usage', 'quantity', 1, 'recipe_id', '00000000-0000-0000-0000-0000000000ff')));
+    RAISE EXCEPTION 'usage was posted from a missing recipe';
+  EXCEPTION WHEN no_data_found THEN NULL;
+  END;
+
+  -- A count snapshots the usage since the last approved one, and how much of it recipes explain
+  v_take := public.start_stock_take('mammal');
+  SELECT * INTO v_line FROM public.stock_take_lines
+  WHERE stock_take_id = v_take.id AND product_id = '00000000-0000-0000-0000-0000000000c1';
+  IF v_line.production_usage <> 5
+     OR v_line.logged_usage <> (SELECT sum(quantity) FROM public.transactions
+                                WHERE type = 'usage' AND from_location = 'mammal'
+                                  AND product_id = '00000000-0000-0000-0000-0000000000c1') THEN
+    RAISE EXCEPTION 'stock-take did not snapshot logged and production usage';
+  END IF;
+  PERFORM public.cancel_stock_take(v_take.id);
+END $$;
+
+-- Signed transfer documents ---------------------------------------------------------------------
+DO $$
+DECLARE
+  v_b3_item uuid;
+  v_tx public.transactions%ROWTYPE;
+  v_other public.transactions%ROWTYPE;
+  v_signature text;
+BEGIN
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  SELECT id INTO v_b3_item FROM public.stock WHERE location_id = 'rls_b3' AND product_id = '00000000-0000-0000-0000-0000000000c1';
+  SELECT * INTO v_tx FROM public.create_transfer('rls_b3', 'rls_b2', jsonb_build_array(jsonb_build_object('item_id', v_b3_item, 'quantity', 1)));
+  v_signature := public.sign_transfer_document(v_tx.transfer_group_id);
+  SELECT * INTO v_other FROM public.create_transfer('rls_b3', 'rls_b2', jsonb_build_array(jsonb_build_object('item_id', v_b3_item, 'quantity', 1)));
+  IF v_other.transfer_group_id = v_tx.transfer_group_id THEN
+    RAISE EXCEPTION 'two transfers created back to back share a group';
+  END IF;
+
+  -- Only the two sides of the transfer can sign or check its document
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a5"}', true);
+  BEGIN
+    PERFORM public.sign_transfer_document(v_tx.transfer_group_id);
+    RAISE EXCEPTION 'mammal staff signed another location''s transfer';
+  EXCEPTION WHEN no_data_found THEN NULL;
+  END;
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a4"}', true);
+  IF public.verify_transfer_document(v_tx.transfer_group_id, v_signature) <> 'valid' THEN
+    RAISE EXCEPTION 'the receiver could not verify a genuine document';
+  END IF;
+  IF public.verify_transfer_document(v_tx.transfer_group_id, 'forged') <> 'tampered' THEN
+    RAISE EXCEPTION 'a forged signature was accepted';
+  END IF;
+
+  -- A signature only covers the group it was issued for, even one with the same lines
+  IF public.verify_transfer_document(v_other.transfer_group_id, v_signature) <> 'tampered' THEN
+    RAISE EXCEPTION 'a document verified for another transfer';
+  END IF;
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a4"}', true);
+  PERFORM public.receive_transfer(v_tx.id);
+  IF public.verify_transfer_document(v_tx.transfer_group_id, v_signature) <> 'completed' THEN
+    RAISE EXCEPTION 'a received transfer''s document was not flagged as completed';
+  END IF;
+END $$;
+
+-- Transfer signatures ---------------------------------------------------------------------------
+DO $$
+DECLARE
+  v_b3_item uuid;
+  v_tx public.transactions%ROWTYPE;
+  v_image text := 'data:image/png;base64,iVBORw0KGgo=';
+  v_signature public.transfer_signatures%ROWTYPE;
+BEGIN
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  SELECT id INTO v_b3_item FROM public.stock WHERE location_id = 'rls_b3' AND product_id = '00000000-0000-0000-0000-0000000000c1';
+
+  -- rls_b2 requests from rls_b3, so rls_b3 still has to confirm and sign for what it sends
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a4"}', true);
+  SELECT * INTO v_tx FROM public.create_transfer('rls_b3', 'rls_b2', jsonb_build_array(jsonb_build_object('item_id', v_b3_item, 'quantity', 1)));
+  BEGIN
+    PERFORM public.record_transfer_signature(v_tx.transfer_group_id, 'sender', 'Driver', v_image);
+    RAISE EXCEPTION 'the receiver signed for the sender';
+  EXCEPTION WHEN no_data_found THEN NULL;
+  END;
+  BEGIN
+    PERFORM public.record_transfer_signature(v_tx.transfer_group_id, 'receiver', 'Storekeeper', v_image);
+    RAISE EXCEPTION 'the receiver signed before the transfer was dispatched';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a5"}', true);
+  BEGIN
+    PERFORM public.record_transfer_signature(v_tx.transfer_group_id, 'sender', 'Driver', v_image);
+    RAISE EXCEPTION 'mammal staff signed another location''s transfer';
+  EXCEPTION WHEN no_data_found THEN NULL;
+  END;
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  BEGIN
+    PERFORM public.record_transfer_signature(v_tx.transfer_group_id, 'sender', '  ', v_image);
+    RAISE EXCEPTION 'a signature without a name was recorded';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+  BEGIN
+    PERFORM public.record_transfer_signature(v_tx.transfer_group_id, 'sender', 'Driver', 'javascript:alert(1)');
+    RAISE EXCEPTION 'a signature that is not a PNG was recorded';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+  BEGIN
+    INSERT INTO public.transfer_signatures (transfer_group_id, role, signer_name, image, signed_by)
+    VALUES (v_tx.transfer_group_id, 'sender', 'Forged', v_image, 'RLS Branch 1');
+    RAISE EXCEPTION 'a signature was written directly';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  -- Signing again before confirming replaces the signature
+  PERFORM public.record_transfer_signature(v_tx.transfer_group_id, 'sender', 'Driver', v_image);
+  v_signature := public.record_transfer_signature(v_tx.transfer_group_id, 'sender', ' Sami ', v_image);
+  IF v_signature.signer_name <> 'Sami' OR v_signature.signed_by <> 'RLS Branch 1'
+     OR (SELECT count(*) FROM public.transfer_signatures WHERE transfer_group_id = v_tx.transfer_group_id) <> 1 THEN
+    RAISE EXCEPTION 'the sender''s signature was not replaced';
+  END IF;
+  -- The sender can still sign once dispatched, as on a direct dispatch, until the goods are received
+  PERFORM public.confirm_transfer(v_tx.id);
+  v_signature := public.record_transfer_signature(v_tx.transfer_group_id, 'sender', 'Driver', v_image);
+  IF v_signature.signer_name <> 'Driver' THEN
+    RAISE EXCEPTION 'the sender could not sign a dispatched transfer';
+  END IF;
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a4"}', true);
+  PERFORM public.record_transfer_signature(v_tx.transfer_group_id, 'receiver', 'Storekeeper', v_image);
+  PERFORM public.receive_transfer(v_tx.id);
+  IF (SELECT count(*) FROM public.transfer_signatures WHERE transfer_group_id = v_tx.transfer_group_id) <> 2 THEN
+    RAISE EXCEPTION 'the receiver could not read both signatures';
+  END IF;
+  BEGIN
+    PERFORM public.record_transfer_signature(v_tx.transfer_group_id, 'receiver', 'Someone else', v_image);
+    RAISE EXCEPTION 'the receiver signed again after receiving';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  BEGIN
+    PERFORM public.record_transfer_signature(v_tx.transfer_group_id, 'sender', 'Someone else', v_image);
+    RAISE EXCEPTION 'the sender signed again after the goods were received';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a5"}', true);
+  IF EXISTS (SELECT 1 FROM public.transfer_signatures WHERE transfer_group_id = v_tx.transfer_group_id) THEN
+    RAISE EXCEPTION 'mammal staff can read signatures of transfers they cannot see';
+  END IF;
+END $$;
+
+-- Web Push subscriptions and the transfer push queue ------------------------------------------
+DO $$
+DECLARE
+  v_b1_cups uuid;
+  v_b1_lids uuid;
+  v_tx public.transactions%ROWTYPE;
+BEGIN
+  -- rls_branch2 follows rls_b2 in Arabic; rls_branch1 takes over a browser rls_admin used before
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a4"}', true);
+  PERFORM public.save_push_subscription('http://localhost:8787/push/rls-b2', 'b2-key', 'b2-auth', 'ar');
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a1"}', true);
+  PERFORM public.save_push_subscription('https://push.example/shared', 'admin-key', 'admin-auth');
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  PERFORM public.save_push_subscription('https://push.example/rls-b1', 'b1-key', 'b1-auth');
+  PERFORM public.save_push_subscription('https://push.example/shared', 'b1-key-2', 'b1-auth-2');
+
+  BEGIN
+    PERFORM public.save_push_subscription('ftp://push.example/rls-b1', 'b1-key', 'b1-auth');
+    RAISE EXCEPTION 'a subscription without an http(s) endpoint was saved';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+  BEGIN
+    PERFORM 1 FROM public.push_subscriptions;
+    RAISE EXCEPTION 'push subscriptions are readable directly';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+  BEGIN
+    PERFORM public.claim_push_queue(10);
+    RAISE EXCEPTION 'a signed-in user claimed the push queue';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  -- rls_b1 sends two items to rls_b2, which rejects them
+  SELECT id INTO v_b1_cups FROM public.stock WHERE location_id = 'rls_b1' AND product_id = '00000000-0000-0000-0000-0000000000c1';
+  SELECT id INTO v_b1_lids FROM public.stock WHERE location_id = 'rls_b1' AND product_id = '00000000-0000-0000-0000-0000000000c2';
+  FOR v_tx IN SELECT * FROM public.create_transfer('rls_b1', 'rls_b2', jsonb_build_array(
+    jsonb_build_object('item_id', v_b1_cups, 'quantity', 1),
+    jsonb_build_object('item_id', v_b1_lids, 'quantity', 1))) LOOP
+    PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a4"}', true);
+    PERFORM public.reject_transfer(v_tx.id, 'Not ordered');
+    PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  END LOOP;
+END $$;
+
+RESET ROLE;
+
+DO $$
+DECLARE
+  v_claimed record;
+  v_count integer := 0;
+BEGIN
+  -- One push per user and event for the whole group, never to the user who acted
+  IF (SELECT count(*) FROM public.push_queue) <> 2
+     OR (SELECT payload -> 'ar' ->> 'body' FROM public.push_queue
+         WHERE user_id = '00000000-0000-0000-0000-0000000000a4' AND dedupe_key LIKE 'transfer-%-incoming') <> 'RLS Branch 1 أرسل 2 صنف'
+     OR (SELECT payload -> 'en' ->> 'body' FROM public.push_queue
+         WHERE user_id = '00000000-0000-0000-0000-0000000000a3' AND dedupe_key LIKE 'transfer-%-rejected') <> 'RLS Branch 2 rejected 2 items: Not ordered' THEN
+    RAISE EXCEPTION 'transfer pushes were not queued once per recipient and event';
+  END IF;
+
+  FOR v_claimed IN SELECT * FROM public.claim_push_queue(10) LOOP
+    v_count := v_count + 1;
+    IF v_claimed.payload ->> 'tag' LIKE '%-rejected' AND jsonb_array_length(v_claimed.subscriptions) <> 2 THEN
+      RAISE EXCEPTION 'a subscription taken over from another user was not moved';
+    END IF;
+    PERFORM public.finish_push(v_claimed.id, NULL, ARRAY['https://push.example/rls-b1']);
+  END LOOP;
+  IF v_count <> 2 OR EXISTS (SELECT 1 FROM public.claim_push_queue(10)) THEN
+    RAISE EXCEPTION 'the push queue was not claimed exactly once';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.push_queue WHERE sent_at IS NULL)
+     OR EXISTS (SELECT 1 FROM public.push_subscriptions WHERE endpoint = 'https://push.example/rls-b1') THEN
+    RAISE EXCEPTION 'delivered pushes or expired subscriptions were not cleaned up';
+  END IF;
+END $$;
+
+SET LOCAL ROLE authenticated;
+
+-- Notifications and preferences ----------------------------------------------------------------
+DO $$
+DECLARE
+  v_id uuid;
+  v_b1_cups uuid;
+  v_b1_lids uuid;
+  v_incoming integer;
+  v_digests integer;
+  v_tx public.transactions%ROWTYPE;
+BEGIN
+  -- Transfers notified rls_branch2 once for the whole group; each user sees only their own inbox
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a4"}', true);
+  SELECT id INTO v_id FROM public.notifications
+  WHERE event = 'incoming_transfer' AND body_en = 'RLS Branch 1 sent 2 items' AND read_at IS NULL;
+  IF v_id IS NULL OR EXISTS (SELECT 1 FROM public.notifications WHERE user_id <> '00000000-0000-0000-0000-0000000000a4') THEN
+    RAISE EXCEPTION 'incoming transfer notification missing or inbox not scoped to its user';
+  END IF;
+  UPDATE public.notifications SET read_at = now() WHERE id = v_id;
+  IF (SELECT read_at FROM public.notifications WHERE id = v_id) IS NULL THEN
+    RAISE EXCEPTION 'notification was not marked read';
+  END IF;
+  BEGIN
+    UPDATE public.notifications SET body_en = 'Edited' WHERE id = v_id;
+    RAISE EXCEPTION 'notification text was edited';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+  BEGIN
+    INSERT INTO public.notifications (user_id, event, dedupe_key, title_en, body_en, title_ar, body_ar)
+    VALUES ('00000000-0000-0000-0000-0000000000a3', 'low_stock', 'forged', 'x', 'x', 'x', 'x');
+    RAISE EXCEPTION 'a notification was written directly';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  IF NOT EXISTS (SELECT 1 FROM public.notifications WHERE event = 'transfer_rejected' AND body_en = 'RLS Branch 2 rejected 2 items: Not ordered') THEN
+    RAISE EXCEPTION 'rejection notification missing';
+  END IF;
+
+  -- Stock-take approval: the warehouse manager was asked to approve, mammal staff heard it was approved
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a2"}', true);
+  IF NOT EXISTS (SELECT 1 FROM public.notifications WHERE event = 'stock_take_approval' AND title_en = 'Stock-take awaiting approval') THEN
+    RAISE EXCEPTION 'approvers were not notified of a submitted stock-take';
+  END IF;
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a5"}', true);
+  IF NOT EXISTS (SELECT 1 FROM public.notifications WHERE event = 'stock_take_approval' AND title_en = 'Stock-take approved')
+     OR EXISTS (SELECT 1 FROM public.notifications WHERE title_en = 'Stock-take awaiting approval') THEN
+    RAISE EXCEPTION 'stock-take approval notified the wrong users';
+  END IF;
+
+  -- rls_branch2 mutes incoming transfers; unknown events are refused
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a4"}', true);
+  BEGIN
+    INSERT INTO public.notification_preferences (user_id, muted_events) VALUES ('00000000-0000-0000-0000-0000000000a4', ARRAY['birthdays']);
+    RAISE EXCEPTION 'an unknown event was muted';
+  EXCEPTION WHEN check_violation THEN NULL;
+  END;
+  BEGIN
+    INSERT INTO public.notification_preferences (user_id, muted_events) VALUES ('00000000-0000-0000-0000-0000000000a3', ARRAY['expiry']);
+    RAISE EXCEPTION 'preferences were saved for another user';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+  INSERT INTO public.notification_preferences (user_id, muted_events) VALUES ('00000000-0000-0000-0000-0000000000a4', ARRAY['incoming_transfer']);
+  SELECT count(*) INTO v_incoming FROM public.notifications WHERE event = 'incoming_transfer';
+
+  PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  SELECT id INTO v_b1_cups FROM public.stock WHERE location_id = 'rls_b1' AND product_id = '00000000-0000-0000-0000-0000000000c1';
+  SELECT id INTO v_b1_lids FROM public.stock WHERE location_id = 'rls_b1' AND product_id = '00000000-0000-0000-0000-0000000000c2';
+  FOR v_tx IN SELECT * FROM public.create_transfer('rls_b1', 'rls_b2', jsonb_build_array(jsonb_build_object('item_id', v_b1_cups, 'quantity', 1))) LOOP
+    PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a4"}', true);
+    IF (SELECT count(*) FROM public.notifications WHERE event = 'incoming_transfer') <> v_incoming THEN
+      RAISE EXCEPTION 'a muted event was notified';
+    END IF;
+    PERFORM public.reject_transfer(v_tx.id, 'Muted test');
+    PERFORM set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000a3"}', true);
+  END LOOP;
+
+  -- Low stock fires once on the way down, including for the user who used the stock
+  UPDATE public.stock SET min_threshold = quantity - 1 WHERE id = v_b1_cups;
+  PERFORM public.log_stock_entries('rls_b1', jsonb_build_array(jsonb_build_object('item_id', v_b1_cups, 'type', 'usage', 'quantity', 1)));
+  PERFORM public.log_stock_entries('rls_b1', jsonb_build_array(jsonb_build_object('item_id', v_b1_cups, 'type', 'usage', 'quantity', 1)));
+  IF (SELECT count(*) FROM public.notifications WHERE event = 'low_stock' AND reference = v_b1_cups::text) <> 1
+     OR NOT EXISTS (SELECT 1 FROM public.notifications WHERE event = 'low_stock' AND body_en LIKE 'RLS Branch 1: RLS Cups %') THEN
+    RAISE EXCEPTION 'low stock was not notified exactly once';
+  END IF;
+
+  -- The expiry digest covers lots expiring within three days, once a day per location
+  PERFORM public.log_stock_entries('rls_b1', jsonb_build_array(jsonb_build_object(
+    'item_id', v_b1_lids, 'type', 'receive', 'quantity', 2, 'lot_number', 'L-SOON', 'expiration_date', current_date + 1)));
+  v_digests := public.notify_expiring_stock();
+  IF v_digests < 1
+     OR NOT EXISTS (SELECT 1 FROM public.notifications WHERE event = 'expiry' AND dedupe_key = 'expiry-rls_b1-' || current_date) THEN
+    RAISE EXCEPTION 'expiry digest was not sent';
+  END IF;
+  IF public.notify_expiring_stock() <> 0 THEN
+    RAISE EXCEPTION 'expiry digest was sent twice in a day';
+  END IF;
+END $$;
+
+-- A token for a deleted user grants nothing ---------------------------------------------------
+SELECT set_config('request.jwt.claims', '{"role":"authenticated","sub":"00000000-0000-0000-0000-0000000000ff"}', true);
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.stock) OR EXISTS (SELECT 1 FROM public.transactions)
+     OR EXISTS (SELECT 1 FROM public.stock_lots) OR EXISTS (SELECT 1 FROM public.transaction_lots) THEN
+    RAISE EXCEPTION 'unknown user can read data';
+  END IF;
+  RAISE NOTICE 'RLS checks passed';
+END $$;
+
+RESET ROLE;
+ROLLBACK;
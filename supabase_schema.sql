@@ -1,5 +1,7 @@
 -- Enable UUID extension
 create extension if not exists "uuid-ossp";
+-- Enable pgcrypto for bcrypt password hashing (crypt / gen_salt)
+create extension if not exists pgcrypto;
 
 -- 1. Locations Table
 create table if not exists public.locations (
@@ -26,7 +28,7 @@ end $$;
 create table if not exists public.app_users (
   id uuid primary key default uuid_generate_v4(),
   username text unique not null,
-  password text not null, -- Note: Storing plain text for demo parity. Use Auth in production.
+  password text not null, -- bcrypt hash, maintained by the hash_app_user_password trigger below
   name text not null,
   name_ar text,
   role text not null,
@@ -50,44 +52,131 @@ begin
   end if;
 end $$;
 
--- 3. Inventory Items Table
-create table if not exists public.inventory_items (
+-- 3. Products Catalog: names, category, unit and barcode are kept once per product and
+-- shared by its stock at every location and by every transaction
+create sequence if not exists public.products_sku_seq;
+
+create table if not exists public.products (
   id uuid primary key default uuid_generate_v4(),
-  location_id text references public.locations(id) on delete cascade,
+  sku text unique not null default ('SKU-' || lpad(nextval('public.products_sku_seq')::text, 5, '0')),
   name_en text not null,
   name_ar text not null,
   description text,
-  category text not null,
-  quantity numeric not null default 0,
-  unit text not null,
-  min_threshold numeric not null default 0,
-  last_updated timestamp with time zone default now(),
-  -- Prevent duplicate item names in the same location
-  unique(location_id, name_en),
-  unique(location_id, name_ar)
+  category text,
+  unit text,
+  barcode text,
+  created_at timestamp with time zone default now()
 );
 
--- Add missing columns for inventory_items if they don't exist
+-- Add catalog columns if they don't exist
 do $$
 begin
-  if not exists (select 1 from information_schema.columns where table_name='inventory_items' and column_name='name_en') then
-    alter table public.inventory_items add column name_en text;
+  if not exists (select 1 from information_schema.columns where table_name='products' and column_name='description') then
+    alter table public.products add column description text;
   end if;
-  if not exists (select 1 from information_schema.columns where table_name='inventory_items' and column_name='name_ar') then
-    alter table public.inventory_items add column name_ar text;
+  if not exists (select 1 from information_schema.columns where table_name='products' and column_name='category') then
+    alter table public.products add column category text;
   end if;
-  if not exists (select 1 from information_schema.columns where table_name='inventory_items' and column_name='description') then
-    alter table public.inventory_items add column description text;
+  if not exists (select 1 from information_schema.columns where table_name='products' and column_name='unit') then
+    alter table public.products add column unit text;
   end if;
-  if not exists (select 1 from information_schema.columns where table_name='inventory_items' and column_name='category') then
-    alter table public.inventory_items add column category text;
+  if not exists (select 1 from information_schema.columns where table_name='products' and column_name='barcode') then
+    alter table public.products add column barcode text;
   end if;
-  if not exists (select 1 from information_schema.columns where table_name='inventory_items' and column_name='min_threshold') then
-    alter table public.inventory_items add column min_threshold numeric default 0;
+end $$;
+
+-- Resolves a product by name (English case-insensitively, or Arabic), creating it when unknown.
+-- Only used by the transaction trigger below and the one-off migrations of existing rows.
+CREATE OR REPLACE FUNCTION public.find_or_create_product(p_name_en text, p_name_ar text)
+RETURNS uuid AS $$
+DECLARE
+  v_product_id uuid;
+BEGIN
+  SELECT p.id INTO v_product_id
+  FROM public.products p
+  WHERE lower(p.name_en) = lower(p_name_en) OR p.name_ar = p_name_ar
+  ORDER BY (lower(p.name_en) = lower(p_name_en)) DESC, p.created_at
+  LIMIT 1;
+
+  IF v_product_id IS NULL THEN
+    INSERT INTO public.products (name_en, name_ar) VALUES (p_name_en, p_name_ar)
+    RETURNING id INTO v_product_id;
+  END IF;
+
+  RETURN v_product_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.find_or_create_product(text, text) FROM public;
+
+-- 4. Stock Table: how much of a product each location holds
+-- Older installs kept a full copy of the product in every inventory_items row. Move those
+-- details into the catalog (latest edit wins), then keep only the per-location columns.
+do $$
+begin
+  if to_regclass('public.inventory_items') is not null and to_regclass('public.stock') is null then
+    alter table public.inventory_items add column if not exists product_id uuid references public.products(id);
+    update public.inventory_items set product_id = public.find_or_create_product(name_en, name_ar) where product_id is null;
+
+    update public.products p set
+      description = coalesce(p.description, i.description),
+      category = coalesce(p.category, i.category),
+      unit = coalesce(p.unit, i.unit)
+    from (
+      select distinct on (product_id) product_id, description, category, unit
+      from public.inventory_items
+      order by product_id, last_updated desc nulls last
+    ) i
+    where i.product_id = p.id;
+
+    if exists (select 1 from information_schema.columns where table_name='inventory_items' and column_name='barcode') then
+      update public.products p set barcode = coalesce(p.barcode, i.barcode)
+      from public.inventory_items i
+      where i.product_id = p.id and i.barcode is not null;
+      alter table public.inventory_items drop column barcode;
+    end if;
+
+    drop trigger if exists on_inventory_item_product on public.inventory_items;
+    alter table public.inventory_items rename to stock;
+    alter table public.stock
+      drop column name_en,
+      drop column name_ar,
+      drop column description,
+      drop column category,
+      drop column unit,
+      alter column product_id set not null;
+    alter index if exists public.inventory_items_location_product_key rename to stock_location_product_key;
   end if;
 end $$;
 
--- 4. Transactions Table
+DROP FUNCTION IF EXISTS public.assign_item_product();
+
+create table if not exists public.stock (
+  id uuid primary key default uuid_generate_v4(),
+  location_id text references public.locations(id) on delete cascade,
+  product_id uuid not null references public.products(id),
+  quantity numeric not null default 0,
+  min_threshold numeric not null default 0,
+  expiration_date date,
+  average_cost numeric check (average_cost >= 0), -- Weighted-average unit cost; null until a cost is known
+  last_updated timestamp with time zone default now()
+);
+
+-- Add missing columns for stock if they don't exist
+do $$
+begin
+  if not exists (select 1 from information_schema.columns where table_name='stock' and column_name='expiration_date') then
+    alter table public.stock add column expiration_date date;
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='stock' and column_name='average_cost') then
+    alter table public.stock add column average_cost numeric check (average_cost >= 0);
+  end if;
+end $$;
+
+-- One stock row per product and location
+create unique index if not exists stock_location_product_key on public.stock (location_id, product_id);
+
+-- 5. Transactions Table
 create table if not exists public.transactions (
   id uuid primary key default uuid_generate_v4(),
   transfer_group_id text,
@@ -96,13 +185,20 @@ create table if not exists public.transactions (
   status text not null check (status in ('pending_source', 'pending_target', 'completed', 'rejected', 'cancelled')),
   from_location text,
   to_location text,
+  product_id uuid references public.products(id) on delete set null,
   item_name_en text not null,
   item_name_ar text not null,
   quantity numeric not null,
   unit text not null,
   performed_by text not null,
   notes text,
-  rejection_reason text
+  rejection_reason text,
+  received_quantity numeric,
+  discrepancy_reason text,
+  shortfall_action text check (shortfall_action in ('return', 'loss')),
+  reason_code text check (reason_code in ('expired', 'damaged', 'spoiled', 'other')),
+  idempotency_key uuid,
+  unit_cost numeric check (unit_cost >= 0) -- Cost of one unit of the stock moved, see adjust_stock()
 );
 
 -- Add missing columns for transactions if they don't exist
@@ -120,9 +216,58 @@ begin
   if not exists (select 1 from information_schema.columns where table_name='transactions' and column_name='rejection_reason') then
     alter table public.transactions add column rejection_reason text;
   end if;
+  if not exists (select 1 from information_schema.columns where table_name='transactions' and column_name='product_id') then
+    alter table public.transactions add column product_id uuid references public.products(id) on delete set null;
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='transactions' and column_name='received_quantity') then
+    alter table public.transactions add column received_quantity numeric;
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='transactions' and column_name='discrepancy_reason') then
+    alter table public.transactions add column discrepancy_reason text;
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='transactions' and column_name='shortfall_action') then
+    alter table public.transactions add column shortfall_action text check (shortfall_action in ('return', 'loss'));
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='transactions' and column_name='reason_code') then
+    alter table public.transactions add column reason_code text check (reason_code in ('expired', 'damaged', 'spoiled', 'other'));
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='transactions' and column_name='idempotency_key') then
+    alter table public.transactions add column idempotency_key uuid;
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='transactions' and column_name='unit_cost') then
+    alter table public.transactions add column unit_cost numeric check (unit_cost >= 0);
+  end if;
 end $$;
 
--- 5. Trigger to automatically create a location when a user is assigned to a new branch
+create index if not exists transactions_product_id_idx on public.transactions (product_id);
+-- Set by clients that queue entries offline, so a retried upload is only logged once
+create unique index if not exists transactions_idempotency_key_key on public.transactions (idempotency_key);
+-- History is read newest first in pages (date, id), overall or for one location
+create index if not exists transactions_date_idx on public.transactions (date desc, id desc);
+create index if not exists transactions_from_location_date_idx on public.transactions (from_location, date desc);
+create index if not exists transactions_to_location_date_idx on public.transactions (to_location, date desc);
+
+-- Transactions keep the item names as they were at the time; rows logged without a product id
+-- are linked to the catalog by name
+CREATE OR REPLACE FUNCTION public.assign_transaction_product()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.product_id IS NULL THEN
+    NEW.product_id := public.find_or_create_product(NEW.item_name_en, NEW.item_name_ar);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_transaction_product ON public.transactions;
+CREATE TRIGGER on_transaction_product
+  BEFORE INSERT ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.assign_transaction_product();
+
+-- Link existing transactions (including those whose item has since been deleted)
+UPDATE public.transactions SET product_id = public.find_or_create_product(item_name_en, item_name_ar) WHERE product_id IS NULL;
+
+-- 6. Trigger to automatically create a location when a user is assigned to a new branch
 CREATE OR REPLACE FUNCTION public.handle_new_user_branch()
 RETURNS TRIGGER AS $$
 BEGIN
@@ -140,6 +285,1973 @@ CREATE TRIGGER on_user_branch_created
   AFTER INSERT OR UPDATE OF branch_code, branch_name ON public.app_users
   FOR EACH ROW EXECUTE FUNCTION public.handle_new_user_branch();
 
+-- 7. Password hashing: every password written to app_users.password is replaced by a bcrypt hash,
+-- even one that looks like a hash already, since that is what was typed. Only an update that writes
+-- the stored hash back unchanged keeps it.
+CREATE OR REPLACE FUNCTION public.hash_app_user_password()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.password IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.password IS DISTINCT FROM OLD.password) THEN
+    NEW.password := crypt(NEW.password, gen_salt('bf'));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, extensions;
+
+DROP TRIGGER IF EXISTS on_app_user_password_change ON public.app_users;
+
+-- Migrate any passwords still stored in plain text, while the trigger is off so they are hashed once
+UPDATE public.app_users SET password = crypt(password, gen_salt('bf')) WHERE password !~ '^\$2[abxy]\$';
+
+CREATE TRIGGER on_app_user_password_change
+  BEFORE INSERT OR UPDATE OF password ON public.app_users
+  FOR EACH ROW EXECUTE FUNCTION public.hash_app_user_password();
+
+-- 8. Session tokens: the login RPC signs a Supabase-compatible JWT so PostgREST and realtime
+-- run every request as the "authenticated" role, with the app user's id in the "sub" claim.
+-- Store the project's legacy JWT secret (Project Settings > API > JWT Settings) once:
+--   INSERT INTO private.app_config (key, value) VALUES ('jwt_secret', '<secret>')
+--   ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value;
+CREATE SCHEMA IF NOT EXISTS private;
+REVOKE ALL ON SCHEMA private FROM public;
+
+create table if not exists private.app_config (
+  key text primary key,
+  value text not null
+);
+
+CREATE OR REPLACE FUNCTION private.base64url(p_data bytea)
+RETURNS text AS $$
+  SELECT translate(encode(p_data, 'base64'), E'+/=\n', '-_');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION private.sign_jwt(p_claims jsonb)
+RETURNS text AS $$
+DECLARE
+  v_secret text;
+  v_signing_input text;
+BEGIN
+  SELECT value INTO v_secret FROM private.app_config WHERE key = 'jwt_secret';
+  IF v_secret IS NULL THEN
+    RAISE EXCEPTION 'jwt_secret is not configured in private.app_config';
+  END IF;
+
+  v_signing_input := private.base64url(convert_to('{"alg":"HS256","typ":"JWT"}', 'utf8'))
+    || '.' || private.base64url(convert_to(p_claims::text, 'utf8'));
+  RETURN v_signing_input || '.' || private.base64url(hmac(v_signing_input, v_secret, 'sha256'));
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+-- 9. Login RPC: verifies credentials server-side and returns the user (without the password hash)
+-- together with a signed access token. "Remember me" sessions last 30 days, others one hour.
+DROP FUNCTION IF EXISTS public.authenticate_user(text, text);
+CREATE OR REPLACE FUNCTION public.authenticate_user(p_username text, p_password text, p_remember_me boolean DEFAULT false)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  name text,
+  name_ar text,
+  role text,
+  branch_code text,
+  branch_name text,
+  branch_name_ar text,
+  accessible_branches text[],
+  access_token text,
+  expires_at timestamp with time zone
+) AS $$
+DECLARE
+  v_user public.app_users%ROWTYPE;
+  v_expires_at timestamp with time zone;
+BEGIN
+  SELECT * INTO v_user
+  FROM public.app_users u
+  WHERE u.username = p_username
+    AND u.password = crypt(p_password, u.password);
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_expires_at := now() + CASE WHEN p_remember_me THEN interval '30 days' ELSE interval '1 hour' END;
+
+  RETURN QUERY SELECT
+    v_user.id, v_user.username, v_user.name, v_user.name_ar, v_user.role,
+    v_user.branch_code, v_user.branch_name, v_user.branch_name_ar, v_user.accessible_branches,
+    private.sign_jwt(jsonb_build_object(
+      'role', 'authenticated',
+      'aud', 'authenticated',
+      'sub', v_user.id,
+      'app_role', v_user.role,
+      'iat', extract(epoch from now())::bigint,
+      'exp', extract(epoch from v_expires_at)::bigint
+    )),
+    v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE ALL ON FUNCTION public.authenticate_user(text, text, boolean) FROM public;
+GRANT EXECUTE ON FUNCTION public.authenticate_user(text, text, boolean) TO anon, authenticated;
+
+-- Clients may write passwords (they are hashed on the way in) but can never read the column back
+REVOKE SELECT ON public.app_users FROM anon, authenticated;
+GRANT SELECT (id, username, name, name_ar, role, branch_code, branch_name, branch_name_ar, accessible_branches)
+  ON public.app_users TO authenticated;
+
+-- 10. Session helpers used by the row-level security policies below. They look the caller up
+-- by the token's "sub" claim on every request, so role and branch changes apply immediately.
+CREATE OR REPLACE FUNCTION public.current_app_user_id()
+RETURNS uuid AS $$
+  SELECT (nullif(current_setting('request.jwt.claims', true), '')::jsonb ->> 'sub')::uuid;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.current_app_role()
+RETURNS text AS $$
+  SELECT u.role FROM public.app_users u WHERE u.id = public.current_app_user_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Locations whose stock the caller manages: their own branch plus any branches shared with them
+CREATE OR REPLACE FUNCTION public.current_app_locations()
+RETURNS text[] AS $$
+  SELECT CASE u.role
+    WHEN 'warehouse_manager' THEN ARRAY['warehouse', 'mammal']
+    WHEN 'mammal_employee' THEN ARRAY['mammal']
+    WHEN 'branch_manager' THEN array_remove(array_prepend(u.branch_code, coalesce(u.accessible_branches, '{}'::text[])), NULL)
+    ELSE '{}'::text[]
+  END
+  FROM public.app_users u
+  WHERE u.id = public.current_app_user_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Superseded by the transfer functions below, which move stock on the receiver's behalf
+DROP FUNCTION IF EXISTS public.awaiting_transfer_from(text) CASCADE;
+
+REVOKE ALL ON FUNCTION public.current_app_user_id() FROM public;
+REVOKE ALL ON FUNCTION public.current_app_role() FROM public;
+REVOKE ALL ON FUNCTION public.current_app_locations() FROM public;
+GRANT EXECUTE ON FUNCTION public.current_app_user_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.current_app_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.current_app_locations() TO authenticated;
+
+-- 11. Transfer workflow: every status change runs as one transaction that locks the transfer row
+-- and the stock rows it touches, so concurrent clicks or stale tabs cannot move stock twice.
+--   pending_source --confirm--> pending_target --receive--> completed
+--   pending_*      --reject/cancel--> rejected / cancelled (dispatched stock returns to the source)
+CREATE OR REPLACE FUNCTION private.can_manage_location(p_location text)
+RETURNS boolean AS $$
+  SELECT public.current_app_role() = 'admin' OR p_location = ANY (public.current_app_locations());
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Adds p_delta to the product's stock at p_location and returns the lots that moved, as
+-- [{ "lot_number", "expiration_date", "received_at", "quantity" }, ...]. Outgoing stock is taken
+-- from the first-expiring lots (section 15); incoming stock goes into p_lots, typically lots an
+-- earlier call returned, or into one unlabelled lot; p_lot_id takes outgoing stock from that lot
+-- only. Incoming stock for a product the location does not carry yet creates its stock row. The
+-- change is flagged as a stock movement so the audit log (section 14) leaves it to the transaction
+-- that explains it.
+-- Stock is valued at a moving weighted-average cost per stock row. Incoming stock with a
+-- p_unit_cost is averaged in (or sets the cost while none is known); incoming stock without one,
+-- and outgoing stock, leave the average as it is. Transactions record the unit cost of the stock
+-- they moved: the cost paid on receipts, the source's average on everything else.
+DROP FUNCTION IF EXISTS private.adjust_stock(text, text, text, text, numeric, text);
+DROP FUNCTION IF EXISTS private.adjust_stock(text, uuid, text, text, text, numeric, text);
+DROP FUNCTION IF EXISTS private.adjust_stock(text, uuid, numeric);
+DROP FUNCTION IF EXISTS private.adjust_stock(text, uuid, numeric, jsonb);
+DROP FUNCTION IF EXISTS private.adjust_stock(text, uuid, numeric, jsonb, uuid);
+CREATE OR REPLACE FUNCTION private.adjust_stock(
+  p_location text,
+  p_product_id uuid,
+  p_delta numeric,
+  p_lots jsonb DEFAULT NULL,
+  p_lot_id uuid DEFAULT NULL,
+  p_unit_cost numeric DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_stock public.stock%ROWTYPE;
+  v_product public.products%ROWTYPE;
+  v_lots jsonb;
+BEGIN
+  SELECT * INTO v_product FROM public.products WHERE id = p_product_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO v_stock
+  FROM public.stock s
+  WHERE s.location_id = p_location AND s.product_id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    IF p_delta < 0 THEN
+      RAISE EXCEPTION '% is not stocked at %', v_product.name_en, p_location USING ERRCODE = 'check_violation';
+    END IF;
+    PERFORM set_config('app.stock_movement', 'on', true);
+    INSERT INTO public.stock (location_id, product_id, quantity) VALUES (p_location, p_product_id, 0)
+    RETURNING * INTO v_stock;
+  ELSIF v_stock.quantity + p_delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock of % at %: % % available, % requested',
+      v_product.name_en, p_location, v_stock.quantity, v_product.unit, -p_delta
+      USING ERRCODE = 'check_violation';
+  ELSE
+    PERFORM set_config('app.stock_movement', 'on', true);
+  END IF;
+
+  IF p_unit_cost < 0 THEN
+    RAISE EXCEPTION 'Unit cost of % cannot be negative', v_product.name_en USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_delta < 0 THEN
+    v_lots := private.take_from_lots(v_stock.id, -p_delta, p_lot_id);
+  ELSE
+    v_lots := private.put_into_lots(v_stock.id, p_delta, p_lots);
+  END IF;
+
+  -- The row's expiration date is that of its first-expiring lot
+  UPDATE public.stock
+  SET quantity = quantity + p_delta,
+      expiration_date = (SELECT min(l.expiration_date) FROM public.stock_lots l WHERE l.stock_id = v_stock.id),
+      average_cost = CASE
+        WHEN p_delta <= 0 OR p_unit_cost IS NULL THEN average_cost
+        WHEN average_cost IS NULL OR quantity <= 0 THEN p_unit_cost
+        ELSE (quantity * average_cost + p_delta * p_unit_cost) / (quantity + p_delta)
+      END,
+      last_updated = now()
+  WHERE id = v_stock.id;
+  PERFORM set_config('app.stock_movement', '', true);
+  RETURN v_lots;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Locks a transfer row and checks it is in one of the expected states
+CREATE OR REPLACE FUNCTION private.lock_transfer(p_transaction_id uuid, p_expected_statuses text[])
+RETURNS public.transactions AS $$
+DECLARE
+  v_tx public.transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tx FROM public.transactions WHERE id = p_transaction_id AND type = 'transfer' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer % not found', p_transaction_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF NOT v_tx.status = ANY (p_expected_statuses) THEN
+    RAISE EXCEPTION 'Transfer of % is already %', v_tx.item_name_en, v_tx.status USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN v_tx;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Creates one transfer row per item. When the caller manages the source the stock is deducted
+-- immediately (pending_target); otherwise the source still has to confirm (pending_source).
+-- The rows share a random group id, so transfers created at the same moment never merge.
+-- p_items: [{ "item_id": uuid, "quantity": number }, ...]
+CREATE OR REPLACE FUNCTION public.create_transfer(p_from_location text, p_to_location text, p_items jsonb)
+RETURNS SETOF public.transactions AS $$
+DECLARE
+  v_performed_by text;
+  v_manages_source boolean;
+  v_group_id text := 'GRP-' || gen_random_uuid();
+  v_line jsonb;
+  v_quantity numeric;
+  v_item record;
+  v_lots jsonb;
+  v_tx public.transactions%ROWTYPE;
+BEGIN
+  SELECT u.name INTO v_performed_by FROM public.app_users u WHERE u.id = public.current_app_user_id();
+  IF v_performed_by IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF p_from_location = p_to_location THEN
+    RAISE EXCEPTION 'Source and destination must differ' USING ERRCODE = 'check_violation';
+  END IF;
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A transfer needs at least one item' USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_manages_source := private.can_manage_location(p_from_location);
+  IF NOT (v_manages_source
+          OR private.can_manage_location(p_to_location)
+          OR public.current_app_role() = 'warehouse_manager') THEN
+    RAISE EXCEPTION 'You cannot request transfers between % and %', p_from_location, p_to_location
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    v_quantity := (v_line ->> 'quantity')::numeric;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Transfer quantities must be positive' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT s.product_id, s.average_cost, p.name_en, p.name_ar, p.unit INTO v_item
+    FROM public.stock s
+    JOIN public.products p ON p.id = s.product_id
+    WHERE s.id = (v_line ->> 'item_id')::uuid AND s.location_id = p_from_location;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not stocked at %', v_line ->> 'item_id', p_from_location USING ERRCODE = 'no_data_found';
+    END IF;
+
+    v_lots := NULL;
+    IF v_manages_source THEN
+      v_lots := private.adjust_stock(p_from_location, v_item.product_id, -v_quantity);
+    END IF;
+
+    INSERT INTO public.transactions (transfer_group_id, type, status, from_location, to_location,
+                                     product_id, item_name_en, item_name_ar, quantity, unit, performed_by, unit_cost)
+    VALUES (v_group_id, 'transfer', CASE WHEN v_manages_source THEN 'pending_target' ELSE 'pending_source' END,
+            p_from_location, p_to_location, v_item.product_id, v_item.name_en, v_item.name_ar, v_quantity, v_item.unit, v_performed_by,
+            CASE WHEN v_manages_source THEN v_item.average_cost END)
+    RETURNING * INTO v_tx;
+    PERFORM private.record_transaction_lots(v_tx.id, v_lots);
+
+    RETURN NEXT v_tx;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The source dispatches a requested transfer
+CREATE OR REPLACE FUNCTION public.confirm_transfer(p_transaction_id uuid)
+RETURNS public.transactions AS $$
+DECLARE
+  v_tx public.transactions%ROWTYPE;
+BEGIN
+  v_tx := private.lock_transfer(p_transaction_id, ARRAY['pending_source']);
+  IF NOT private.can_manage_location(v_tx.from_location) THEN
+    RAISE EXCEPTION 'Only % can confirm this transfer', v_tx.from_location USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM private.record_transaction_lots(v_tx.id, private.adjust_stock(v_tx.from_location, v_tx.product_id, -v_tx.quantity));
+
+  -- Dispatched stock is valued at the source's average cost
+  UPDATE public.transactions
+  SET status = 'pending_target',
+      unit_cost = (SELECT s.average_cost FROM public.stock s WHERE s.location_id = v_tx.from_location AND s.product_id = v_tx.product_id)
+  WHERE id = v_tx.id
+  RETURNING * INTO v_tx;
+  RETURN v_tx;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The destination accepts dispatched stock. When less arrives than was sent, the receiver records
+-- the quantity received and a reason; the shortfall either returns to the source ('return') or is
+-- written off as a 'loss' transaction in the same transfer group. The received quantity is booked
+-- into the dispatched lots first-expiring first; the shortfall comes out of the rest.
+DROP FUNCTION IF EXISTS public.receive_transfer(uuid);
+CREATE OR REPLACE FUNCTION public.receive_transfer(
+  p_transaction_id uuid,
+  p_received_quantity numeric DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_shortfall_action text DEFAULT 'return'
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_tx public.transactions%ROWTYPE;
+  v_received numeric;
+  v_shortfall numeric;
+  v_reason text := nullif(trim(p_reason), '');
+  v_received_lots jsonb;
+  v_shortfall_lots jsonb;
+  v_loss_id uuid;
+BEGIN
+  v_tx := private.lock_transfer(p_transaction_id, ARRAY['pending_target']);
+  IF NOT private.can_manage_location(v_tx.to_location) THEN
+    RAISE EXCEPTION 'Only % can receive this transfer', v_tx.to_location USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_received := coalesce(p_received_quantity, v_tx.quantity);
+  IF v_received < 0 OR v_received > v_tx.quantity THEN
+    RAISE EXCEPTION 'Received quantity of % must be between 0 and %', v_tx.item_name_en, v_tx.quantity
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_shortfall := v_tx.quantity - v_received;
+  IF v_shortfall > 0 THEN
+    IF v_reason IS NULL THEN
+      RAISE EXCEPTION 'A reason is required when less % arrives than was sent', v_tx.item_name_en
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF p_shortfall_action IS NULL OR p_shortfall_action NOT IN ('return', 'loss') THEN
+      RAISE EXCEPTION 'Shortfall must be returned to the source or written off as a loss' USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_received_lots, v_shortfall_lots
+  FROM private.split_lots(private.transaction_lots_json(v_tx.id), v_received);
+
+  IF v_received > 0 THEN
+    PERFORM private.adjust_stock(v_tx.to_location, v_tx.product_id, v_received, v_received_lots, NULL, v_tx.unit_cost);
+  END IF;
+
+  IF v_shortfall > 0 THEN
+    IF p_shortfall_action = 'return' THEN
+      PERFORM private.adjust_stock(v_tx.from_location, v_tx.product_id, v_shortfall, v_shortfall_lots, NULL, v_tx.unit_cost);
+    ELSE
+      INSERT INTO public.transactions (transfer_group_id, type, status, from_location, to_location,
+                                       product_id, item_name_en, item_name_ar, quantity, unit, performed_by, notes, unit_cost)
+      SELECT v_tx.transfer_group_id, 'loss', 'completed', v_tx.from_location, v_tx.to_location,
+             v_tx.product_id, v_tx.item_name_en, v_tx.item_name_ar, v_shortfall, v_tx.unit, u.name, v_reason, v_tx.unit_cost
+      FROM public.app_users u
+      WHERE u.id = public.current_app_user_id()
+      RETURNING id INTO v_loss_id;
+      PERFORM private.record_transaction_lots(v_loss_id, v_shortfall_lots);
+    END IF;
+  END IF;
+
+  UPDATE public.transactions
+  SET status = 'completed',
+      received_quantity = v_received,
+      discrepancy_reason = CASE WHEN v_shortfall > 0 THEN v_reason END,
+      shortfall_action = CASE WHEN v_shortfall > 0 THEN p_shortfall_action END
+  WHERE id = v_tx.id
+  RETURNING * INTO v_tx;
+  RETURN v_tx;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The destination refuses dispatched stock, or the source declines a request
+CREATE OR REPLACE FUNCTION public.reject_transfer(p_transaction_id uuid, p_reason text)
+RETURNS public.transactions AS $$
+DECLARE
+  v_tx public.transactions%ROWTYPE;
+BEGIN
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_tx := private.lock_transfer(p_transaction_id, ARRAY['pending_source', 'pending_target']);
+  IF NOT private.can_manage_location(
+       CASE WHEN v_tx.status = 'pending_target' THEN v_tx.to_location ELSE v_tx.from_location END) THEN
+    RAISE EXCEPTION 'You cannot reject this transfer' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_tx.status = 'pending_target' THEN
+    PERFORM private.adjust_stock(v_tx.from_location, v_tx.product_id, v_tx.quantity, private.transaction_lots_json(v_tx.id), NULL, v_tx.unit_cost);
+  END IF;
+
+  UPDATE public.transactions SET status = 'rejected', rejection_reason = trim(p_reason)
+  WHERE id = v_tx.id RETURNING * INTO v_tx;
+  RETURN v_tx;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The sender withdraws a transfer that has not been received yet. A request can also be
+-- withdrawn by the destination that asked for it.
+CREATE OR REPLACE FUNCTION public.cancel_transfer(p_transaction_id uuid)
+RETURNS public.transactions AS $$
+DECLARE
+  v_tx public.transactions%ROWTYPE;
+BEGIN
+  v_tx := private.lock_transfer(p_transaction_id, ARRAY['pending_source', 'pending_target']);
+  IF NOT (private.can_manage_location(v_tx.from_location)
+          OR (v_tx.status = 'pending_source' AND private.can_manage_location(v_tx.to_location))) THEN
+    RAISE EXCEPTION 'You cannot cancel this transfer' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_tx.status = 'pending_target' THEN
+    PERFORM private.adjust_stock(v_tx.from_location, v_tx.product_id, v_tx.quantity, private.transaction_lots_json(v_tx.id), NULL, v_tx.unit_cost);
+  END IF;
+
+  UPDATE public.transactions SET status = 'cancelled' WHERE id = v_tx.id RETURNING * INTO v_tx;
+  RETURN v_tx;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.create_transfer(text, text, jsonb) FROM public;
+REVOKE ALL ON FUNCTION public.confirm_transfer(uuid) FROM public;
+REVOKE ALL ON FUNCTION public.receive_transfer(uuid, numeric, text, text) FROM public;
+REVOKE ALL ON FUNCTION public.reject_transfer(uuid, text) FROM public;
+REVOKE ALL ON FUNCTION public.cancel_transfer(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.create_transfer(text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_transfer(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.receive_transfer(uuid, numeric, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reject_transfer(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_transfer(uuid) TO authenticated;
+
+-- 12. Purchasing: suppliers, purchase orders and goods-received notes (GRNs). Admins raise
+-- orders; every GRN posts 'receive' transactions against the warehouse in one transaction.
+--   draft --order--> ordered --receive--> partially_received --receive--> received
+--   draft / ordered --cancel--> cancelled
+create table if not exists public.suppliers (
+  id uuid primary key default uuid_generate_v4(),
+  name text not null,
+  contact_name text,
+  phone text,
+  email text,
+  address text,
+  notes text,
+  created_at timestamp with time zone default now()
+);
+
+create sequence if not exists public.purchase_orders_number_seq;
+create sequence if not exists public.goods_received_notes_number_seq;
+
+create table if not exists public.purchase_orders (
+  id uuid primary key default uuid_generate_v4(),
+  po_number text not null unique default ('PO-' || lpad(nextval('public.purchase_orders_number_seq')::text, 5, '0')),
+  supplier_id uuid not null references public.suppliers(id),
+  status text not null default 'draft' check (status in ('draft', 'ordered', 'partially_received', 'received', 'cancelled')),
+  order_date date not null default current_date,
+  expected_date date,
+  notes text,
+  created_by text,
+  created_at timestamp with time zone default now()
+);
+
+create table if not exists public.purchase_order_lines (
+  id uuid primary key default uuid_generate_v4(),
+  purchase_order_id uuid not null references public.purchase_orders(id) on delete cascade,
+  product_id uuid not null references public.products(id),
+  quantity numeric not null check (quantity > 0),
+  received_quantity numeric not null default 0
+);
+
+create index if not exists purchase_order_lines_order_idx on public.purchase_order_lines (purchase_order_id);
+
+create table if not exists public.goods_received_notes (
+  id uuid primary key default uuid_generate_v4(),
+  grn_number text not null unique default ('GRN-' || lpad(nextval('public.goods_received_notes_number_seq')::text, 5, '0')),
+  purchase_order_id uuid not null references public.purchase_orders(id),
+  received_at timestamp with time zone default now(),
+  received_by text not null,
+  notes text
+);
+
+create table if not exists public.goods_received_lines (
+  id uuid primary key default uuid_generate_v4(),
+  goods_received_note_id uuid not null references public.goods_received_notes(id) on delete cascade,
+  purchase_order_line_id uuid not null references public.purchase_order_lines(id),
+  quantity numeric not null check (quantity > 0),
+  transaction_id uuid references public.transactions(id) on delete set null
+);
+
+create index if not exists goods_received_notes_order_idx on public.goods_received_notes (purchase_order_id);
+
+-- Books goods against an ordered purchase order: adds them to warehouse stock, logs one 'receive'
+-- transaction per line and records the GRN. Lines may arrive over several deliveries but never
+-- exceed what is still outstanding. Each line becomes a lot of its own in the warehouse, and its
+-- unit cost (what the supplier charged) is averaged into the warehouse's cost of the product.
+-- p_lines: [{ "line_id": uuid, "quantity": number, "lot_number": text, "expiration_date": date,
+--             "unit_cost": number }, ...]
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_purchase_order_id uuid, p_lines jsonb, p_notes text DEFAULT NULL)
+RETURNS public.goods_received_notes AS $$
+DECLARE
+  v_performed_by text;
+  v_po public.purchase_orders%ROWTYPE;
+  v_supplier_name text;
+  v_grn public.goods_received_notes%ROWTYPE;
+  v_line jsonb;
+  v_quantity numeric;
+  v_unit_cost numeric;
+  v_po_line public.purchase_order_lines%ROWTYPE;
+  v_product public.products%ROWTYPE;
+  v_lots jsonb;
+  v_tx_id uuid;
+BEGIN
+  SELECT u.name INTO v_performed_by FROM public.app_users u WHERE u.id = public.current_app_user_id();
+  IF v_performed_by IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF NOT private.can_manage_location('warehouse') THEN
+    RAISE EXCEPTION 'Only the warehouse can receive purchase orders' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'A goods-received note needs at least one line' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_po FROM public.purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found', p_purchase_order_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_po.status NOT IN ('ordered', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order % is %', v_po.po_number, v_po.status USING ERRCODE = 'check_violation';
+  END IF;
+  SELECT s.name INTO v_supplier_name FROM public.suppliers s WHERE s.id = v_po.supplier_id;
+
+  INSERT INTO public.goods_received_notes (purchase_order_id, received_by, notes)
+  VALUES (v_po.id, v_performed_by, nullif(trim(p_notes), ''))
+  RETURNING * INTO v_grn;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_quantity := (v_line ->> 'quantity')::numeric;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Received quantities must be positive' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO v_po_line FROM public.purchase_order_lines
+    WHERE id = (v_line ->> 'line_id')::uuid AND purchase_order_id = v_po.id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % is not on %', v_line ->> 'line_id', v_po.po_number USING ERRCODE = 'no_data_found';
+    END IF;
+
+    SELECT * INTO v_product FROM public.products WHERE id = v_po_line.product_id;
+    IF v_po_line.received_quantity + v_quantity > v_po_line.quantity THEN
+      RAISE EXCEPTION 'Only % % of % are outstanding on %',
+        v_po_line.quantity - v_po_line.received_quantity, v_product.unit, v_product.name_en, v_po.po_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_unit_cost := nullif(v_line ->> 'unit_cost', '')::numeric;
+    v_lots := private.adjust_stock('warehouse', v_po_line.product_id, v_quantity, jsonb_build_array(jsonb_build_object(
+      'lot_number', nullif(trim(v_line ->> 'lot_number'), ''),
+      'expiration_date', nullif(v_line ->> 'expiration_date', ''),
+      'quantity', v_quantity
+    )), NULL, v_unit_cost);
+
+    INSERT INTO public.transactions (type, status, from_location, to_location, product_id,
+                                     item_name_en, item_name_ar, quantity, unit, performed_by, notes, unit_cost)
+    VALUES ('receive', 'completed', coalesce(v_supplier_name, 'External Supplier'), 'warehouse', v_product.id,
+            v_product.name_en, v_product.name_ar, v_quantity, v_product.unit, v_performed_by,
+            v_grn.grn_number || ' / ' || v_po.po_number,
+            coalesce(v_unit_cost, (SELECT s.average_cost FROM public.stock s WHERE s.location_id = 'warehouse' AND s.product_id = v_product.id)))
+    RETURNING id INTO v_tx_id;
+    PERFORM private.record_transaction_lots(v_tx_id, v_lots);
+
+    INSERT INTO public.goods_received_lines (goods_received_note_id, purchase_order_line_id, quantity, transaction_id)
+    VALUES (v_grn.id, v_po_line.id, v_quantity, v_tx_id);
+
+    UPDATE public.purchase_order_lines SET received_quantity = received_quantity + v_quantity WHERE id = v_po_line.id;
+  END LOOP;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN EXISTS (SELECT 1 FROM public.purchase_order_lines l
+                 WHERE l.purchase_order_id = v_po.id AND l.received_quantity < l.quantity)
+      THEN 'partially_received'
+    ELSE 'received'
+  END
+  WHERE id = v_po.id;
+
+  RETURN v_grn;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.receive_purchase_order(uuid, jsonb, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(uuid, jsonb, text) TO authenticated;
+
+-- 13. Stock-takes: a physical count of one location. Starting one freezes the expected quantity of
+-- every product stocked there; staff then enter what they counted, and approval posts the
+-- difference as 'adjustment' transactions (stock found goes to_location, stock missing leaves
+-- from_location). Movements made while counting are not affected: only the variance is applied.
+-- Each line also records the usage logged since the location's last approved count, and how much
+-- of it was posted from recipes (section 19), so theoretical and actual consumption can be compared.
+--   counting --submit--> submitted --approve--> approved
+--   counting / submitted --cancel--> cancelled
+create sequence if not exists public.stock_takes_number_seq;
+
+create table if not exists public.stock_takes (
+  id uuid primary key default uuid_generate_v4(),
+  stock_take_number text not null unique default ('ST-' || lpad(nextval('public.stock_takes_number_seq')::text, 5, '0')),
+  location_id text not null references public.locations(id) on delete cascade,
+  status text not null default 'counting' check (status in ('counting', 'submitted', 'approved', 'cancelled')),
+  notes text,
+  started_by text not null,
+  started_at timestamp with time zone default now(),
+  submitted_by text,
+  submitted_at timestamp with time zone,
+  approved_by text,
+  approved_at timestamp with time zone
+);
+
+-- Only one count per location can be open at a time
+create unique index if not exists stock_takes_open_location_idx
+  on public.stock_takes (location_id) where status in ('counting', 'submitted');
+
+create table if not exists public.stock_take_lines (
+  id uuid primary key default uuid_generate_v4(),
+  stock_take_id uuid not null references public.stock_takes(id) on delete cascade,
+  product_id uuid not null references public.products(id),
+  expected_quantity numeric not null,
+  counted_quantity numeric check (counted_quantity >= 0),
+  transaction_id uuid references public.transactions(id) on delete set null,
+  logged_usage numeric not null default 0, -- All usage since the previous approved count
+  production_usage numeric not null default 0, -- The part of logged_usage posted from recipes
+  unique (stock_take_id, product_id)
+);
+
+do $$
+begin
+  if not exists (select 1 from information_schema.columns where table_name='stock_take_lines' and column_name='logged_usage') then
+    alter table public.stock_take_lines add column logged_usage numeric not null default 0;
+  end if;
+  if not exists (select 1 from information_schema.columns where table_name='stock_take_lines' and column_name='production_usage') then
+    alter table public.stock_take_lines add column production_usage numeric not null default 0;
+  end if;
+end $$;
+
+-- Locks a stock-take the caller may work on and checks it is in one of the expected states
+CREATE OR REPLACE FUNCTION private.lock_stock_take(p_stock_take_id uuid, p_expected_statuses text[])
+RETURNS public.stock_takes AS $$
+DECLARE
+  v_stock_take public.stock_takes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_stock_take FROM public.stock_takes WHERE id = p_stock_take_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock-take % not found', p_stock_take_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF NOT private.can_manage_location(v_stock_take.location_id) THEN
+    RAISE EXCEPTION 'Not allowed to count stock at %', v_stock_take.location_id USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF NOT (v_stock_take.status = ANY (p_expected_statuses)) THEN
+    RAISE EXCEPTION 'Stock-take % is %', v_stock_take.stock_take_number, v_stock_take.status USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN v_stock_take;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Opens a count for p_location_id with a snapshot of its current stock and of the usage logged
+-- there since the previous approved count
+CREATE OR REPLACE FUNCTION public.start_stock_take(p_location_id text, p_notes text DEFAULT NULL)
+RETURNS public.stock_takes AS $$
+DECLARE
+  v_performed_by text;
+  v_since timestamp with time zone;
+  v_stock_take public.stock_takes%ROWTYPE;
+BEGIN
+  SELECT u.name INTO v_performed_by FROM public.app_users u WHERE u.id = public.current_app_user_id();
+  IF v_performed_by IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF NOT private.can_manage_location(p_location_id) THEN
+    RAISE EXCEPTION 'Not allowed to count stock at %', p_location_id USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.stock_takes WHERE location_id = p_location_id AND status IN ('counting', 'submitted')) THEN
+    RAISE EXCEPTION 'A stock-take is already open at %', p_location_id USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT max(started_at) INTO v_since
+  FROM public.stock_takes
+  WHERE location_id = p_location_id AND status = 'approved';
+
+  INSERT INTO public.stock_takes (location_id, notes, started_by)
+  VALUES (p_location_id, nullif(trim(p_notes), ''), v_performed_by)
+  RETURNING * INTO v_stock_take;
+
+  INSERT INTO public.stock_take_lines (stock_take_id, product_id, expected_quantity, logged_usage, production_usage)
+  SELECT v_stock_take.id, s.product_id, s.quantity, coalesce(u.logged, 0), coalesce(u.production, 0)
+  FROM public.stock s
+  LEFT JOIN (
+    SELECT t.product_id,
+           sum(t.quantity) AS logged,
+           sum(t.quantity) FILTER (WHERE t.recipe_id IS NOT NULL) AS production
+    FROM public.transactions t
+    WHERE t.type = 'usage' AND t.from_location = p_location_id
+      AND t.date >= coalesce(v_since, '-infinity'::timestamptz)
+    GROUP BY t.product_id
+  ) u ON u.product_id = s.product_id
+  WHERE s.location_id = p_location_id AND s.product_id IS NOT NULL;
+
+  RETURN v_stock_take;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Saves counted quantities while counting. A null quantity clears the count for that line.
+-- p_counts: [{ "line_id": uuid, "counted_quantity": number | null }, ...]
+CREATE OR REPLACE FUNCTION public.record_stock_counts(p_stock_take_id uuid, p_counts jsonb)
+RETURNS void AS $$
+DECLARE
+  v_stock_take public.stock_takes%ROWTYPE;
+  v_count jsonb;
+  v_quantity numeric;
+BEGIN
+  v_stock_take := private.lock_stock_take(p_stock_take_id, ARRAY['counting']);
+  IF jsonb_typeof(p_counts) <> 'array' THEN
+    RAISE EXCEPTION 'Counts must be a list' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_count IN SELECT * FROM jsonb_array_elements(p_counts) LOOP
+    v_quantity := (v_count ->> 'counted_quantity')::numeric;
+    IF v_quantity < 0 THEN
+      RAISE EXCEPTION 'Counted quantities cannot be negative' USING ERRCODE = 'check_violation';
+    END IF;
+    UPDATE public.stock_take_lines
+    SET counted_quantity = v_quantity
+    WHERE id = (v_count ->> 'line_id')::uuid AND stock_take_id = v_stock_take.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % is not on %', v_count ->> 'line_id', v_stock_take.stock_take_number USING ERRCODE = 'no_data_found';
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hands a finished count over for approval; further counts are refused
+CREATE OR REPLACE FUNCTION public.submit_stock_take(p_stock_take_id uuid)
+RETURNS public.stock_takes AS $$
+DECLARE
+  v_performed_by text;
+  v_stock_take public.stock_takes%ROWTYPE;
+BEGIN
+  v_stock_take := private.lock_stock_take(p_stock_take_id, ARRAY['counting']);
+  IF NOT EXISTS (SELECT 1 FROM public.stock_take_lines WHERE stock_take_id = v_stock_take.id AND counted_quantity IS NOT NULL) THEN
+    RAISE EXCEPTION 'Nothing has been counted on %', v_stock_take.stock_take_number USING ERRCODE = 'check_violation';
+  END IF;
+  SELECT u.name INTO v_performed_by FROM public.app_users u WHERE u.id = public.current_app_user_id();
+
+  UPDATE public.stock_takes
+  SET status = 'submitted', submitted_by = v_performed_by, submitted_at = now()
+  WHERE id = v_stock_take.id
+  RETURNING * INTO v_stock_take;
+  RETURN v_stock_take;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A manager of the location accepts the count: every counted line that differs from the snapshot
+-- moves stock by the variance and logs an 'adjustment' transaction. Uncounted lines are left alone.
+CREATE OR REPLACE FUNCTION public.approve_stock_take(p_stock_take_id uuid)
+RETURNS public.stock_takes AS $$
+DECLARE
+  v_performed_by text;
+  v_stock_take public.stock_takes%ROWTYPE;
+  v_line record;
+  v_variance numeric;
+  v_lots jsonb;
+  v_tx_id uuid;
+BEGIN
+  v_stock_take := private.lock_stock_take(p_stock_take_id, ARRAY['submitted']);
+  IF public.current_app_role() = 'mammal_employee' THEN
+    RAISE EXCEPTION 'Stock-takes are approved by a manager' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  SELECT u.name INTO v_performed_by FROM public.app_users u WHERE u.id = public.current_app_user_id();
+
+  FOR v_line IN
+    SELECT l.id, l.expected_quantity, l.counted_quantity, p.id AS product_id, p.name_en, p.name_ar, p.unit, s.average_cost
+    FROM public.stock_take_lines l
+    JOIN public.products p ON p.id = l.product_id
+    LEFT JOIN public.stock s ON s.location_id = v_stock_take.location_id AND s.product_id = p.id
+    WHERE l.stock_take_id = v_stock_take.id
+      AND l.counted_quantity IS NOT NULL
+      AND l.counted_quantity <> l.expected_quantity
+  LOOP
+    v_variance := v_line.counted_quantity - v_line.expected_quantity;
+    v_lots := private.adjust_stock(v_stock_take.location_id, v_line.product_id, v_variance);
+
+    INSERT INTO public.transactions (type, status, from_location, to_location, product_id,
+                                     item_name_en, item_name_ar, quantity, unit, performed_by, notes, unit_cost)
+    VALUES ('adjustment', 'completed',
+            CASE WHEN v_variance < 0 THEN v_stock_take.location_id END,
+            CASE WHEN v_variance > 0 THEN v_stock_take.location_id END,
+            v_line.product_id, v_line.name_en, v_line.name_ar, abs(v_variance), v_line.unit, v_performed_by,
+            v_stock_take.stock_take_number, v_line.average_cost)
+    RETURNING id INTO v_tx_id;
+    PERFORM private.record_transaction_lots(v_tx_id, v_lots);
+
+    UPDATE public.stock_take_lines SET transaction_id = v_tx_id WHERE id = v_line.id;
+  END LOOP;
+
+  UPDATE public.stock_takes
+  SET status = 'approved', approved_by = v_performed_by, approved_at = now()
+  WHERE id = v_stock_take.id
+  RETURNING * INTO v_stock_take;
+  RETURN v_stock_take;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Abandons an open count without touching stock
+CREATE OR REPLACE FUNCTION public.cancel_stock_take(p_stock_take_id uuid)
+RETURNS public.stock_takes AS $$
+DECLARE
+  v_stock_take public.stock_takes%ROWTYPE;
+BEGIN
+  v_stock_take := private.lock_stock_take(p_stock_take_id, ARRAY['counting', 'submitted']);
+  UPDATE public.stock_takes SET status = 'cancelled' WHERE id = v_stock_take.id
+  RETURNING * INTO v_stock_take;
+  RETURN v_stock_take;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.start_stock_take(text, text) FROM public;
+REVOKE ALL ON FUNCTION public.record_stock_counts(uuid, jsonb) FROM public;
+REVOKE ALL ON FUNCTION public.submit_stock_take(uuid) FROM public;
+REVOKE ALL ON FUNCTION public.approve_stock_take(uuid) FROM public;
+REVOKE ALL ON FUNCTION public.cancel_stock_take(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.start_stock_take(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_stock_counts(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_stock_take(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_stock_take(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_stock_take(uuid) TO authenticated;
+
+-- 14. Audit log: every insert, update and delete on stock, the catalog, locations and users is
+-- recorded with who made it and the row before and after. Stock movements made through
+-- private.adjust_stock() are skipped, as the transactions they log already explain them.
+-- The log is append-only: nobody can change or remove an entry.
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  table_name text not null,
+  record_id text not null,
+  action text not null check (action in ('INSERT', 'UPDATE', 'DELETE')),
+  actor_id uuid,
+  actor_name text,
+  location_id text, -- Set for stock rows, so managers can read the history of their own locations
+  old_data jsonb,
+  new_data jsonb,
+  changed_at timestamp with time zone not null default now()
+);
+
+create index if not exists audit_log_record_idx on public.audit_log (table_name, record_id);
+create index if not exists audit_log_changed_at_idx on public.audit_log (changed_at desc);
+create index if not exists audit_log_actor_idx on public.audit_log (actor_id);
+
+CREATE OR REPLACE FUNCTION private.log_audit()
+RETURNS trigger AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_actor_id uuid := public.current_app_user_id();
+BEGIN
+  IF current_setting('app.stock_movement', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Password hashes stay in app_users; the log only notes that one was changed
+  IF TG_TABLE_NAME = 'app_users' THEN
+    IF TG_OP = 'UPDATE' AND v_old ->> 'password' IS DISTINCT FROM v_new ->> 'password' THEN
+      v_new := v_new || '{"password_changed": true}'::jsonb;
+    END IF;
+    v_old := v_old - 'password';
+    v_new := v_new - 'password';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, actor_id, actor_name, location_id, old_data, new_data)
+  VALUES (
+    TG_TABLE_NAME,
+    coalesce(v_new ->> 'id', v_old ->> 'id'),
+    TG_OP,
+    v_actor_id,
+    (SELECT u.name FROM public.app_users u WHERE u.id = v_actor_id),
+    CASE WHEN TG_TABLE_NAME = 'stock' THEN coalesce(v_new ->> 'location_id', v_old ->> 'location_id') END,
+    v_old,
+    v_new
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION private.prevent_audit_log_changes()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only' USING ERRCODE = 'insufficient_privilege';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_stock ON public.stock;
+CREATE TRIGGER audit_stock
+AFTER INSERT OR UPDATE OR DELETE ON public.stock
+FOR EACH ROW EXECUTE FUNCTION private.log_audit();
+
+DROP TRIGGER IF EXISTS audit_products ON public.products;
+CREATE TRIGGER audit_products
+AFTER INSERT OR UPDATE OR DELETE ON public.products
+FOR EACH ROW EXECUTE FUNCTION private.log_audit();
+
+DROP TRIGGER IF EXISTS audit_locations ON public.locations;
+CREATE TRIGGER audit_locations
+AFTER INSERT OR UPDATE OR DELETE ON public.locations
+FOR EACH ROW EXECUTE FUNCTION private.log_audit();
+
+DROP TRIGGER IF EXISTS audit_app_users ON public.app_users;
+CREATE TRIGGER audit_app_users
+AFTER INSERT OR UPDATE OR DELETE ON public.app_users
+FOR EACH ROW EXECUTE FUNCTION private.log_audit();
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON public.audit_log;
+CREATE TRIGGER audit_log_append_only
+BEFORE UPDATE OR DELETE ON public.audit_log
+FOR EACH ROW EXECUTE FUNCTION private.prevent_audit_log_changes();
+
+-- 15. Lots: stock is held in lots (lot number, quantity, expiry, received date) that always add up
+-- to the stock row. Stock leaves a location first-expiring first (FEFO), and every transaction
+-- that moves stock records the lots it moved in transaction_lots, so transferred or returned
+-- stock keeps its lot. Lots are identified within a stock row by lot number and expiry; stock
+-- without either is held in an unlabelled lot.
+create table if not exists public.stock_lots (
+  id uuid primary key default uuid_generate_v4(),
+  stock_id uuid not null references public.stock(id) on delete cascade,
+  lot_number text,
+  quantity numeric not null check (quantity > 0),
+  expiration_date date,
+  received_at timestamp with time zone not null default now()
+);
+
+create unique index if not exists stock_lots_identity_key
+  on public.stock_lots (stock_id, coalesce(lot_number, ''), coalesce(expiration_date, 'infinity'::date));
+
+create table if not exists public.transaction_lots (
+  id uuid primary key default uuid_generate_v4(),
+  transaction_id uuid not null references public.transactions(id) on delete cascade,
+  lot_number text,
+  expiration_date date,
+  received_at timestamp with time zone,
+  quantity numeric not null check (quantity > 0)
+);
+
+create index if not exists transaction_lots_transaction_idx on public.transaction_lots (transaction_id);
+
+-- Removes p_quantity from a stock row's lots, first-expiring (then oldest) first, and returns what
+-- was taken from each. Lots that run out are deleted. With p_lot_id only that lot is used, and it
+-- must hold the whole quantity.
+DROP FUNCTION IF EXISTS private.take_from_lots(uuid, numeric);
+CREATE OR REPLACE FUNCTION private.take_from_lots(p_stock_id uuid, p_quantity numeric, p_lot_id uuid DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_left numeric := p_quantity;
+  v_lot public.stock_lots%ROWTYPE;
+  v_take numeric;
+  v_taken jsonb := '[]'::jsonb;
+BEGIN
+  IF p_lot_id IS NOT NULL THEN
+    SELECT * INTO v_lot FROM public.stock_lots WHERE id = p_lot_id AND stock_id = p_stock_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Lot % is not part of this stock', p_lot_id USING ERRCODE = 'no_data_found';
+    END IF;
+    IF v_lot.quantity < p_quantity THEN
+      RAISE EXCEPTION 'Lot % only holds %', coalesce(v_lot.lot_number, '-'), v_lot.quantity USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  FOR v_lot IN
+    SELECT * FROM public.stock_lots
+    WHERE stock_id = p_stock_id AND (p_lot_id IS NULL OR id = p_lot_id)
+    ORDER BY expiration_date NULLS LAST, received_at, id
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_take := least(v_lot.quantity, v_left);
+    IF v_take = v_lot.quantity THEN
+      DELETE FROM public.stock_lots WHERE id = v_lot.id;
+    ELSE
+      UPDATE public.stock_lots SET quantity = quantity - v_take WHERE id = v_lot.id;
+    END IF;
+    v_taken := v_taken || jsonb_build_array(jsonb_build_object(
+      'lot_number', v_lot.lot_number,
+      'expiration_date', v_lot.expiration_date,
+      'received_at', v_lot.received_at,
+      'quantity', v_take
+    ));
+    v_left := v_left - v_take;
+  END LOOP;
+  RETURN v_taken;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Adds p_quantity to a stock row in the given lots, merging into lots it already holds. Without
+-- lots the quantity goes into the unlabelled lot. Returns the lots as booked.
+CREATE OR REPLACE FUNCTION private.put_into_lots(p_stock_id uuid, p_quantity numeric, p_lots jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_lots jsonb := p_lots;
+BEGIN
+  IF p_quantity <= 0 THEN
+    RETURN '[]'::jsonb;
+  END IF;
+  IF v_lots IS NULL OR jsonb_array_length(v_lots) = 0 THEN
+    v_lots := jsonb_build_array(jsonb_build_object('quantity', p_quantity));
+  END IF;
+  IF (SELECT sum((l ->> 'quantity')::numeric) FROM jsonb_array_elements(v_lots) l) <> p_quantity THEN
+    RAISE EXCEPTION 'Lot quantities do not add up to %', p_quantity USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.stock_lots AS sl (stock_id, lot_number, expiration_date, received_at, quantity)
+  SELECT p_stock_id, x.lot_number, x.expiration_date, coalesce(x.received_at, now()), x.quantity
+  FROM jsonb_to_recordset(v_lots) AS x(lot_number text, expiration_date date, received_at timestamp with time zone, quantity numeric)
+  WHERE x.quantity > 0
+  ON CONFLICT (stock_id, coalesce(lot_number, ''), coalesce(expiration_date, 'infinity'::date))
+  DO UPDATE SET quantity = sl.quantity + EXCLUDED.quantity, received_at = least(sl.received_at, EXCLUDED.received_at);
+
+  RETURN v_lots;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Splits lot allocations into the first p_quantity (in the order given) and the rest
+CREATE OR REPLACE FUNCTION private.split_lots(p_lots jsonb, p_quantity numeric, OUT head jsonb, OUT tail jsonb)
+AS $$
+DECLARE
+  v_left numeric := p_quantity;
+  v_lot jsonb;
+  v_quantity numeric;
+  v_take numeric;
+BEGIN
+  head := '[]'::jsonb;
+  tail := '[]'::jsonb;
+  FOR v_lot IN SELECT * FROM jsonb_array_elements(coalesce(p_lots, '[]'::jsonb)) LOOP
+    v_quantity := (v_lot ->> 'quantity')::numeric;
+    v_take := greatest(least(v_quantity, v_left), 0);
+    IF v_take > 0 THEN
+      head := head || jsonb_build_array(jsonb_set(v_lot, '{quantity}', to_jsonb(v_take)));
+    END IF;
+    IF v_quantity > v_take THEN
+      tail := tail || jsonb_build_array(jsonb_set(v_lot, '{quantity}', to_jsonb(v_quantity - v_take)));
+    END IF;
+    v_left := v_left - v_take;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION private.record_transaction_lots(p_transaction_id uuid, p_lots jsonb)
+RETURNS void AS $$
+  INSERT INTO public.transaction_lots (transaction_id, lot_number, expiration_date, received_at, quantity)
+  SELECT p_transaction_id, x.lot_number, x.expiration_date, x.received_at, x.quantity
+  FROM jsonb_to_recordset(coalesce(p_lots, '[]'::jsonb))
+    AS x(lot_number text, expiration_date date, received_at timestamp with time zone, quantity numeric)
+  WHERE x.quantity > 0;
+$$ LANGUAGE sql SET search_path = public;
+
+-- The lots a transaction moved, first-expiring first, in the form adjust_stock() accepts
+CREATE OR REPLACE FUNCTION private.transaction_lots_json(p_transaction_id uuid)
+RETURNS jsonb AS $$
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'lot_number', l.lot_number,
+    'expiration_date', l.expiration_date,
+    'received_at', l.received_at,
+    'quantity', l.quantity
+  ) ORDER BY l.expiration_date NULLS LAST, l.received_at, l.id), '[]'::jsonb)
+  FROM public.transaction_lots l
+  WHERE l.transaction_id = p_transaction_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Direct quantity edits (adding an item, correcting it by hand) keep the lots in step: stock added
+-- goes into an unlabelled lot with the row's expiry, stock removed leaves the first-expiring lots.
+CREATE OR REPLACE FUNCTION private.sync_stock_lots()
+RETURNS trigger AS $$
+DECLARE
+  v_delta numeric := NEW.quantity - CASE WHEN TG_OP = 'UPDATE' THEN OLD.quantity ELSE 0 END;
+BEGIN
+  IF current_setting('app.stock_movement', true) = 'on' OR v_delta = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_delta > 0 THEN
+    PERFORM private.put_into_lots(NEW.id, v_delta,
+      jsonb_build_array(jsonb_build_object('expiration_date', NEW.expiration_date, 'quantity', v_delta)));
+  ELSE
+    PERFORM private.take_from_lots(NEW.id, -v_delta);
+  END IF;
+
+  PERFORM set_config('app.stock_movement', 'on', true);
+  UPDATE public.stock
+  SET expiration_date = (SELECT min(l.expiration_date) FROM public.stock_lots l WHERE l.stock_id = NEW.id)
+  WHERE id = NEW.id;
+  PERFORM set_config('app.stock_movement', '', true);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_stock_lots ON public.stock;
+CREATE TRIGGER sync_stock_lots
+AFTER INSERT OR UPDATE OF quantity ON public.stock
+FOR EACH ROW EXECUTE FUNCTION private.sync_stock_lots();
+
+-- Stock held before lots were tracked becomes an unlabelled lot with the row's expiry
+INSERT INTO public.stock_lots (stock_id, expiration_date, received_at, quantity)
+SELECT s.id, s.expiration_date, coalesce(s.last_updated, now()), s.quantity - coalesce(l.total, 0)
+FROM public.stock s
+LEFT JOIN (SELECT stock_id, sum(quantity) AS total FROM public.stock_lots GROUP BY stock_id) l ON l.stock_id = s.id
+WHERE s.quantity > coalesce(l.total, 0)
+ON CONFLICT (stock_id, coalesce(lot_number, ''), coalesce(expiration_date, 'infinity'::date))
+DO UPDATE SET quantity = stock_lots.quantity + EXCLUDED.quantity;
+
+-- Logs daily usage and direct receipts at one location in a single transaction. Usage is taken
+-- from the first-expiring lots; a receipt becomes a lot with the given number and expiry.
+-- p_entries: [{ "item_id": uuid, "type": "usage" | "receive", "quantity": number, "notes": text,
+--               "lot_number": text, "expiration_date": date, "unit_cost": number, "recipe_id": uuid,
+--               "idempotency_key": uuid, "logged_at": timestamptz, "expected_quantity": number }, ...]
+-- A receipt's unit cost is averaged into the location's cost of the item; usage is valued at that
+-- average, which makes it the cost of goods used. Usage posted for production names the recipe
+-- (section 19) it was made by.
+-- Entries queued offline carry an idempotency key and the time they were logged. An entry whose
+-- key is already in the ledger is not applied again; the transaction logged for it is returned.
+-- An entry that names the quantity the user saw is refused with serialization_failure when the
+-- stock now differs, e.g. because someone else logged it while the entry waited offline. Entries
+-- of one batch are checked in order, each against the stock the earlier ones left.
+CREATE OR REPLACE FUNCTION public.log_stock_entries(p_location text, p_entries jsonb)
+RETURNS SETOF public.transactions AS $$
+DECLARE
+  v_performed_by text;
+  v_entry jsonb;
+  v_type text;
+  v_quantity numeric;
+  v_unit_cost numeric;
+  v_recipe_id uuid;
+  v_expected numeric;
+  v_item record;
+  v_lots jsonb;
+  v_key uuid;
+  v_tx public.transactions%ROWTYPE;
+BEGIN
+  SELECT u.name INTO v_performed_by FROM public.app_users u WHERE u.id = public.current_app_user_id();
+  IF v_performed_by IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF NOT private.can_manage_location(p_location) THEN
+    RAISE EXCEPTION 'You cannot log stock at %', p_location USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF jsonb_typeof(p_entries) <> 'array' OR jsonb_array_length(p_entries) = 0 THEN
+    RAISE EXCEPTION 'Nothing to log' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_entries) LOOP
+    v_key := nullif(v_entry ->> 'idempotency_key', '')::uuid;
+    IF v_key IS NOT NULL THEN
+      -- Serialises concurrent uploads of the same entry, e.g. background sync and an open tab
+      PERFORM pg_advisory_xact_lock(hashtext(v_key::text));
+      SELECT * INTO v_tx FROM public.transactions WHERE idempotency_key = v_key;
+      IF FOUND THEN
+        IF v_tx.performed_by IS DISTINCT FROM v_performed_by
+           OR p_location NOT IN (coalesce(v_tx.from_location, ''), coalesce(v_tx.to_location, '')) THEN
+          RAISE EXCEPTION 'Idempotency key % belongs to another entry', v_key USING ERRCODE = 'unique_violation';
+        END IF;
+        RETURN NEXT v_tx;
+        CONTINUE;
+      END IF;
+    END IF;
+
+    v_type := v_entry ->> 'type';
+    v_quantity := (v_entry ->> 'quantity')::numeric;
+    IF v_type IS NULL OR v_type NOT IN ('usage', 'receive') THEN
+      RAISE EXCEPTION 'Only usage and receipts can be logged here' USING ERRCODE = 'check_violation';
+    END IF;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Logged quantities must be positive' USING ERRCODE = 'check_violation';
+    END IF;
+    v_recipe_id := nullif(v_entry ->> 'recipe_id', '')::uuid;
+    IF v_recipe_id IS NOT NULL THEN
+      IF v_type <> 'usage' THEN
+        RAISE EXCEPTION 'Only usage can be posted from a recipe' USING ERRCODE = 'check_violation';
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM public.recipes WHERE id = v_recipe_id) THEN
+        RAISE EXCEPTION 'Recipe % not found', v_recipe_id USING ERRCODE = 'no_data_found';
+      END IF;
+    END IF;
+
+    SELECT s.product_id, s.quantity, s.average_cost, p.name_en, p.name_ar, p.unit INTO v_item
+    FROM public.stock s
+    JOIN public.products p ON p.id = s.product_id
+    WHERE s.id = (v_entry ->> 'item_id')::uuid AND s.location_id = p_location
+    FOR UPDATE OF s;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not stocked at %', v_entry ->> 'item_id', p_location USING ERRCODE = 'no_data_found';
+    END IF;
+    v_expected := nullif(v_entry ->> 'expected_quantity', '')::numeric;
+    IF v_expected IS NOT NULL AND v_expected <> v_item.quantity THEN
+      RAISE EXCEPTION 'Stock of % is now %, not the % it was when the entry was logged',
+        v_item.name_en, v_item.quantity, v_expected USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    v_unit_cost := NULL;
+    IF v_type = 'usage' THEN
+      v_lots := private.adjust_stock(p_location, v_item.product_id, -v_quantity);
+    ELSE
+      v_unit_cost := nullif(v_entry ->> 'unit_cost', '')::numeric;
+      v_lots := private.adjust_stock(p_location, v_item.product_id, v_quantity, jsonb_build_array(jsonb_build_object(
+        'lot_number', nullif(trim(v_entry ->> 'lot_number'), ''),
+        'expiration_date', nullif(v_entry ->> 'expiration_date', ''),
+        'quantity', v_quantity
+      )), NULL, v_unit_cost);
+    END IF;
+
+    INSERT INTO public.transactions (type, status, date, from_location, to_location, product_id,
+                                     item_name_en, item_name_ar, quantity, unit, performed_by, notes, idempotency_key, unit_cost,
+                                     recipe_id)
+    VALUES (v_type, 'completed',
+            least(coalesce(nullif(v_entry ->> 'logged_at', '')::timestamptz, now()), now()),
+            CASE WHEN v_type = 'usage' THEN p_location ELSE 'External Supplier' END,
+            CASE WHEN v_type = 'usage' THEN 'Consumed' ELSE p_location END,
+            v_item.product_id, v_item.name_en, v_item.name_ar, v_quantity, v_item.unit, v_performed_by,
+            nullif(trim(v_entry ->> 'notes'), ''), v_key, coalesce(v_unit_cost, v_item.average_cost), v_recipe_id)
+    RETURNING * INTO v_tx;
+    PERFORM private.record_transaction_lots(v_tx.id, v_lots);
+
+    RETURN NEXT v_tx;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.log_stock_entries(text, jsonb) FROM public;
+GRANT EXECUTE ON FUNCTION public.log_stock_entries(text, jsonb) TO authenticated;
+
+-- 16. Waste: stock that is thrown away (expired, damaged, spoiled) leaves its location in one step
+-- as a 'waste' transaction with a reason code. Writing off a lot takes exactly that lot; otherwise
+-- the first-expiring lots go first, as with usage.
+CREATE OR REPLACE FUNCTION public.write_off_stock(
+  p_item_id uuid,
+  p_quantity numeric,
+  p_reason_code text,
+  p_notes text DEFAULT NULL,
+  p_lot_id uuid DEFAULT NULL
+)
+RETURNS public.transactions AS $$
+DECLARE
+  v_performed_by text;
+  v_item record;
+  v_lots jsonb;
+  v_tx public.transactions%ROWTYPE;
+BEGIN
+  SELECT u.name INTO v_performed_by FROM public.app_users u WHERE u.id = public.current_app_user_id();
+  IF v_performed_by IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF p_reason_code IS NULL OR p_reason_code NOT IN ('expired', 'damaged', 'spoiled', 'other') THEN
+    RAISE EXCEPTION 'Unknown write-off reason %', p_reason_code USING ERRCODE = 'check_violation';
+  END IF;
+  IF p_reason_code = 'other' AND coalesce(trim(p_notes), '') = '' THEN
+    RAISE EXCEPTION 'Describe why the stock is written off' USING ERRCODE = 'check_violation';
+  END IF;
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Write-off quantities must be positive' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT s.location_id, s.product_id, s.average_cost, p.name_en, p.name_ar, p.unit INTO v_item
+  FROM public.stock s
+  JOIN public.products p ON p.id = s.product_id
+  WHERE s.id = p_item_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item % not found', p_item_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF NOT private.can_manage_location(v_item.location_id) THEN
+    RAISE EXCEPTION 'You cannot write off stock at %', v_item.location_id USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_lots := private.adjust_stock(v_item.location_id, v_item.product_id, -p_quantity, NULL, p_lot_id);
+
+  INSERT INTO public.transactions (type, status, from_location, product_id, item_name_en, item_name_ar,
+                                   quantity, unit, performed_by, notes, reason_code, unit_cost)
+  VALUES ('waste', 'completed', v_item.location_id, v_item.product_id, v_item.name_en, v_item.name_ar,
+          p_quantity, v_item.unit, v_performed_by, nullif(trim(p_notes), ''), p_reason_code, v_item.average_cost)
+  RETURNING * INTO v_tx;
+  PERFORM private.record_transaction_lots(v_tx.id, v_lots);
+  RETURN v_tx;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.write_off_stock(uuid, numeric, text, text, uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.write_off_stock(uuid, numeric, text, text, uuid) TO authenticated;
+
+-- 17. Web Push: every browser that allowed notifications is subscribed with the app's VAPID
+-- public key and stored against the user signed in on it. Notifications (section 18) queue a push
+-- for each of their recipients with a subscription; the send-push edge function
+-- (supabase/functions/send-push) delivers the queue, in each subscription's language.
+create table if not exists public.push_subscriptions (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null references public.app_users(id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  language text not null default 'en' check (language in ('en', 'ar')),
+  user_agent text,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create index if not exists push_subscriptions_user_idx on public.push_subscriptions (user_id);
+
+-- payload: { "tag", "url", "en": { "title", "body" }, "ar": { "title", "body" } }. One row per
+-- user and event (dedupe_key), so a transfer group of several items raises a single push.
+create table if not exists public.push_queue (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references public.app_users(id) on delete cascade,
+  dedupe_key text not null,
+  payload jsonb not null,
+  created_at timestamp with time zone not null default now(),
+  claimed_until timestamp with time zone,
+  attempts integer not null default 0,
+  sent_at timestamp with time zone,
+  last_error text,
+  unique (user_id, dedupe_key)
+);
+
+create index if not exists push_queue_unsent_idx on public.push_queue (id) where sent_at is null;
+
+-- A browser's subscription belongs to whoever signed in on it last
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+  p_endpoint text,
+  p_p256dh text,
+  p_auth text,
+  p_language text DEFAULT 'en',
+  p_user_agent text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  SELECT u.id INTO v_user_id FROM public.app_users u WHERE u.id = public.current_app_user_id();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  -- Push services are https; plain http is accepted for a local mock endpoint
+  IF p_endpoint IS NULL OR p_endpoint !~ '^https?://' OR coalesce(p_p256dh, '') = '' OR coalesce(p_auth, '') = '' THEN
+    RAISE EXCEPTION 'Invalid push subscription' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, language, user_agent)
+  VALUES (v_user_id, p_endpoint, p_p256dh, p_auth, coalesce(p_language, 'en'), p_user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      language = EXCLUDED.language,
+      user_agent = EXCLUDED.user_agent,
+      updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- On logout: the browser stays subscribed, but pushes stop until someone signs in on it again
+CREATE OR REPLACE FUNCTION public.delete_push_subscription(p_endpoint text)
+RETURNS void AS $$
+  DELETE FROM public.push_subscriptions
+  WHERE endpoint = p_endpoint AND user_id = public.current_app_user_id();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- For the send-push function only. Claims up to p_limit undelivered pushes for two minutes, so
+-- overlapping runs do not send one twice, and returns each with its recipient's subscriptions as
+-- [{ "endpoint", "p256dh", "auth", "language" }, ...]. A push is given up after five attempts.
+CREATE OR REPLACE FUNCTION public.claim_push_queue(p_limit integer DEFAULT 50)
+RETURNS TABLE (id bigint, payload jsonb, subscriptions jsonb) AS $$
+  WITH claimed AS (
+    UPDATE public.push_queue q
+    SET claimed_until = now() + interval '2 minutes',
+        attempts = q.attempts + 1
+    WHERE q.id IN (
+      SELECT c.id FROM public.push_queue c
+      WHERE c.sent_at IS NULL AND c.attempts < 5 AND (c.claimed_until IS NULL OR c.claimed_until < now())
+      ORDER BY c.id
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING q.id, q.user_id, q.payload
+  )
+  SELECT c.id, c.payload, coalesce((
+    SELECT jsonb_agg(jsonb_build_object('endpoint', s.endpoint, 'p256dh', s.p256dh, 'auth', s.auth, 'language', s.language))
+    FROM public.push_subscriptions s
+    WHERE s.user_id = c.user_id
+  ), '[]'::jsonb)
+  FROM claimed c
+  ORDER BY c.id;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Records the outcome of a claimed push. Subscriptions the push service reported as gone (404 or
+-- 410) are removed; a push with p_error set is retried on a later run.
+CREATE OR REPLACE FUNCTION public.finish_push(p_id bigint, p_error text DEFAULT NULL, p_expired_endpoints text[] DEFAULT '{}')
+RETURNS void AS $$
+BEGIN
+  UPDATE public.push_queue
+  SET sent_at = CASE WHEN p_error IS NULL THEN now() END,
+      last_error = p_error,
+      claimed_until = NULL
+  WHERE id = p_id;
+
+  DELETE FROM public.push_subscriptions WHERE endpoint = ANY (coalesce(p_expired_endpoints, '{}'::text[]));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.save_push_subscription(text, text, text, text, text) FROM public;
+REVOKE ALL ON FUNCTION public.delete_push_subscription(text) FROM public;
+REVOKE ALL ON FUNCTION public.claim_push_queue(integer) FROM public;
+REVOKE ALL ON FUNCTION public.finish_push(bigint, text, text[]) FROM public;
+GRANT EXECUTE ON FUNCTION public.save_push_subscription(text, text, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_push_subscription(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_push_queue(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.finish_push(bigint, text, text[]) TO service_role;
+
+-- 18. Notifications: each user's inbox, with read/unread state, for the events below. Every
+-- notification is also queued for Web Push (section 17) when the user has a subscribed browser.
+-- Users mute events in notification_preferences; muted events are neither recorded nor pushed.
+--   incoming_transfer    a transfer is requested from, or on its way to, a location they manage
+--   transfer_rejected    the other side rejected one of their location's transfers
+--   transfer_received    the destination accepted a transfer their location sent
+--   low_stock            a product at their location dropped to its minimum
+--   expiry               once a day: lots at their location that expired or expire within 3 days
+--   stock_take_approval  a count waits for approval (approvers), or was approved (its location)
+create table if not exists public.notifications (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null references public.app_users(id) on delete cascade,
+  event text not null check (event in ('incoming_transfer', 'transfer_rejected', 'transfer_received', 'low_stock', 'expiry', 'stock_take_approval')),
+  dedupe_key text not null,
+  location_id text references public.locations(id) on delete set null,
+  reference text, -- Transfer group, stock row or stock-take number the notification is about
+  title_en text not null,
+  body_en text not null,
+  title_ar text not null,
+  body_ar text not null,
+  created_at timestamp with time zone not null default now(),
+  read_at timestamp with time zone,
+  unique (user_id, dedupe_key)
+);
+
+create index if not exists notifications_user_idx on public.notifications (user_id, created_at desc);
+
+create table if not exists public.notification_preferences (
+  user_id uuid primary key references public.app_users(id) on delete cascade,
+  muted_events text[] not null default '{}' check (
+    muted_events <@ ARRAY['incoming_transfer', 'transfer_rejected', 'transfer_received', 'low_stock', 'expiry', 'stock_take_approval']
+  ),
+  updated_at timestamp with time zone not null default now()
+);
+
+-- The inbox updates live where realtime is set up
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
+
+-- Replaced by private.notify_transfer_change() below
+DROP TRIGGER IF EXISTS queue_transfer_push ON public.transactions;
+DROP FUNCTION IF EXISTS private.queue_transfer_push();
+
+-- Users who manage p_location, the same scope current_app_locations() gives them. Admins see
+-- everything and are not alerted.
+CREATE OR REPLACE FUNCTION private.location_manager_ids(p_location text)
+RETURNS SETOF uuid AS $$
+  SELECT u.id
+  FROM public.app_users u
+  WHERE CASE u.role
+    WHEN 'warehouse_manager' THEN p_location IN ('warehouse', 'mammal')
+    WHEN 'mammal_employee' THEN p_location = 'mammal'
+    WHEN 'branch_manager' THEN p_location = u.branch_code OR p_location = ANY (coalesce(u.accessible_branches, '{}'::text[]))
+    ELSE false
+  END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Records one notification for each of p_user_ids that has not muted p_event. A notification
+-- with the same dedupe_key is rewritten, and marked unread again, only when its text changed,
+-- so the rows of a transfer group raise a single notification that counts them all.
+CREATE OR REPLACE FUNCTION private.notify(
+  p_user_ids uuid[],
+  p_event text,
+  p_dedupe_key text,
+  p_location_id text,
+  p_reference text,
+  p_title_en text,
+  p_body_en text,
+  p_title_ar text,
+  p_body_ar text
+)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, event, dedupe_key, location_id, reference, title_en, body_en, title_ar, body_ar)
+  SELECT r.id, p_event, p_dedupe_key, p_location_id, p_reference, p_title_en, p_body_en, p_title_ar, p_body_ar
+  FROM (SELECT DISTINCT unnest(p_user_ids) AS id) r
+  WHERE r.id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notification_preferences np
+      WHERE np.user_id = r.id AND p_event = ANY (np.muted_events)
+    )
+  ON CONFLICT (user_id, dedupe_key) DO UPDATE
+  SET title_en = EXCLUDED.title_en,
+      body_en = EXCLUDED.body_en,
+      title_ar = EXCLUDED.title_ar,
+      body_ar = EXCLUDED.body_ar,
+      read_at = NULL
+  WHERE (notifications.title_en, notifications.body_en, notifications.title_ar, notifications.body_ar)
+    IS DISTINCT FROM (EXCLUDED.title_en, EXCLUDED.body_en, EXCLUDED.title_ar, EXCLUDED.body_ar);
+
+  INSERT INTO public.push_queue (user_id, dedupe_key, payload)
+  SELECT n.user_id, n.dedupe_key, jsonb_build_object(
+    'tag', n.dedupe_key,
+    'url', '/',
+    'en', jsonb_build_object('title', n.title_en, 'body', n.body_en),
+    'ar', jsonb_build_object('title', n.title_ar, 'body', n.body_ar))
+  FROM public.notifications n
+  WHERE n.dedupe_key = p_dedupe_key
+    AND n.user_id = ANY (p_user_ids)
+    AND EXISTS (SELECT 1 FROM public.push_subscriptions s WHERE s.user_id = n.user_id)
+  ON CONFLICT (user_id, dedupe_key) DO UPDATE
+  SET payload = EXCLUDED.payload
+  WHERE push_queue.sent_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- English and Arabic display names of a location, falling back to its id
+CREATE OR REPLACE FUNCTION private.location_names(p_location text, OUT name_en text, OUT name_ar text) AS $$
+  SELECT coalesce(l.name, p_location), coalesce(nullif(l.name_ar, ''), l.name, p_location)
+  FROM (SELECT p_location AS id) a
+  LEFT JOIN public.locations l ON l.id = a.id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+--   pending_source  the source is asked to send  -> source managers       (incoming_transfer)
+--   pending_target  stock is on its way          -> destination managers  (incoming_transfer)
+--   rejected        the other side refused it    -> the side that did not reject
+--   completed       the destination accepted it  -> source managers
+-- The user who made the change is not notified.
+CREATE OR REPLACE FUNCTION private.notify_transfer_change()
+RETURNS trigger AS $$
+DECLARE
+  v_event text;
+  v_step text;
+  v_notify text;
+  v_actor text;
+  v_items integer;
+  v_actor_name record;
+  v_count_en text;
+  v_count_ar text;
+  v_reason text := coalesce(': ' || NEW.rejection_reason, '');
+BEGIN
+  IF NEW.type <> 'transfer' OR (TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status) THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'pending_source' THEN
+    v_event := 'incoming_transfer';
+    v_step := 'request';
+    v_notify := NEW.from_location;
+    v_actor := NEW.to_location;
+  ELSIF NEW.status = 'pending_target' THEN
+    v_event := 'incoming_transfer';
+    v_step := 'incoming';
+    v_notify := NEW.to_location;
+    v_actor := NEW.from_location;
+  ELSIF NEW.status = 'rejected' AND TG_OP = 'UPDATE' THEN
+    v_event := 'transfer_rejected';
+    v_step := 'rejected';
+    IF OLD.status = 'pending_target' THEN
+      v_notify := NEW.from_location;
+      v_actor := NEW.to_location;
+    ELSE
+      v_notify := NEW.to_location;
+      v_actor := NEW.from_location;
+    END IF;
+  ELSIF NEW.status = 'completed' AND TG_OP = 'UPDATE' THEN
+    v_event := 'transfer_received';
+    v_step := 'received';
+    v_notify := NEW.from_location;
+    v_actor := NEW.to_location;
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  -- Rows of a group change one by one in the same transaction; the last one counts them all
+  SELECT count(*) INTO v_items FROM public.transactions t
+  WHERE t.transfer_group_id = NEW.transfer_group_id AND t.status = NEW.status;
+  v_items := greatest(v_items, 1);
+  v_count_en := v_items || CASE WHEN v_items = 1 THEN ' item' ELSE ' items' END;
+  v_count_ar := v_items || ' صنف';
+  v_actor_name := private.location_names(v_actor);
+
+  PERFORM private.notify(
+    ARRAY(SELECT m.id FROM private.location_manager_ids(v_notify) AS m(id) WHERE m.id IS DISTINCT FROM public.current_app_user_id()),
+    v_event,
+    'transfer-' || coalesce(NEW.transfer_group_id, NEW.id::text) || '-' || v_step,
+    v_notify,
+    coalesce(NEW.transfer_group_id, NEW.id::text),
+    CASE v_step WHEN 'request' THEN 'Transfer request' WHEN 'incoming' THEN 'Incoming transfer'
+      WHEN 'rejected' THEN 'Transfer rejected' ELSE 'Transfer received' END,
+    CASE v_step
+      WHEN 'request' THEN v_actor_name.name_en || ' requested ' || v_count_en
+      WHEN 'incoming' THEN v_actor_name.name_en || ' sent ' || v_count_en
+      WHEN 'rejected' THEN v_actor_name.name_en || ' rejected ' || v_count_en || v_reason
+      ELSE v_actor_name.name_en || ' received ' || v_count_en END,
+    CASE v_step WHEN 'request' THEN 'طلب تحويل' WHEN 'incoming' THEN 'تحويل وارد'
+      WHEN 'rejected' THEN 'تم رفض التحويل' ELSE 'تم استلام التحويل' END,
+    CASE v_step
+      WHEN 'request' THEN v_actor_name.name_ar || ' طلب ' || v_count_ar
+      WHEN 'incoming' THEN v_actor_name.name_ar || ' أرسل ' || v_count_ar
+      WHEN 'rejected' THEN v_actor_name.name_ar || ' رفض ' || v_count_ar || v_reason
+      ELSE v_actor_name.name_ar || ' استلم ' || v_count_ar END
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_transfer_change ON public.transactions;
+CREATE TRIGGER notify_transfer_change
+AFTER INSERT OR UPDATE OF status ON public.transactions
+FOR EACH ROW EXECUTE FUNCTION private.notify_transfer_change();
+
+-- Once when a product crosses its minimum on the way down; it has to climb back above it before
+-- the next alert. The user whose change caused it is notified too.
+CREATE OR REPLACE FUNCTION private.notify_low_stock()
+RETURNS trigger AS $$
+DECLARE
+  v_product record;
+  v_location record;
+BEGIN
+  IF NEW.min_threshold <= 0 OR NEW.quantity > NEW.min_threshold OR OLD.quantity <= OLD.min_threshold THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT p.name_en, p.name_ar, p.unit INTO v_product FROM public.products p WHERE p.id = NEW.product_id;
+  v_location := private.location_names(NEW.location_id);
+
+  PERFORM private.notify(
+    ARRAY(SELECT private.location_manager_ids(NEW.location_id)),
+    'low_stock',
+    'low-stock-' || NEW.id || '-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint,
+    NEW.location_id,
+    NEW.id::text,
+    'Low stock',
+    v_location.name_en || ': ' || v_product.name_en || ' ' || NEW.quantity || ' ' || v_product.unit || ' (min ' || NEW.min_threshold || ')',
+    'مخزون منخفض',
+    v_location.name_ar || ': ' || v_product.name_ar || ' ' || NEW.quantity || ' ' || v_product.unit || ' (الحد الأدنى ' || NEW.min_threshold || ')'
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_low_stock ON public.stock;
+CREATE TRIGGER notify_low_stock
+AFTER UPDATE OF quantity, min_threshold ON public.stock
+FOR EACH ROW EXECUTE FUNCTION private.notify_low_stock();
+
+-- Submitted counts go to whoever may approve them (see approve_stock_take), approved ones to the
+-- location's managers
+CREATE OR REPLACE FUNCTION private.notify_stock_take_change()
+RETURNS trigger AS $$
+DECLARE
+  v_location record;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status NOT IN ('submitted', 'approved') THEN
+    RETURN NULL;
+  END IF;
+  v_location := private.location_names(NEW.location_id);
+
+  PERFORM private.notify(
+    ARRAY(
+      SELECT u.id FROM public.app_users u
+      WHERE u.id IS DISTINCT FROM public.current_app_user_id()
+        AND CASE NEW.status
+          WHEN 'submitted' THEN u.role = 'admin'
+            OR (u.role <> 'mammal_employee' AND u.id IN (SELECT private.location_manager_ids(NEW.location_id)))
+          ELSE u.id IN (SELECT private.location_manager_ids(NEW.location_id))
+        END
+    ),
+    'stock_take_approval',
+    'stock-take-' || NEW.id || '-' || NEW.status,
+    NEW.location_id,
+    NEW.stock_take_number,
+    CASE NEW.status WHEN 'submitted' THEN 'Stock-take awaiting approval' ELSE 'Stock-take approved' END,
+    v_location.name_en || ': ' || NEW.stock_take_number,
+    CASE NEW.status WHEN 'submitted' THEN 'جرد بانتظار الاعتماد' ELSE 'تم اعتماد الجرد' END,
+    v_location.name_ar || ': ' || NEW.stock_take_number
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_stock_take_change ON public.stock_takes;
+CREATE TRIGGER notify_stock_take_change
+AFTER UPDATE OF status ON public.stock_takes
+FOR EACH ROW EXECUTE FUNCTION private.notify_stock_take_change();
+
+-- Daily expiry digest: one notification per location with lots that expired or expire within
+-- three days. Meant for a daily schedule (pg_cron); the app also calls it when a session starts,
+-- and a location already notified today is skipped. Returns the number of locations notified.
+CREATE OR REPLACE FUNCTION public.notify_expiring_stock()
+RETURNS integer AS $$
+DECLARE
+  v_row record;
+  v_location record;
+  v_count integer := 0;
+BEGIN
+  FOR v_row IN
+    SELECT s.location_id,
+           count(*) FILTER (WHERE l.expiration_date < current_date) AS expired,
+           count(*) FILTER (WHERE l.expiration_date >= current_date) AS expiring
+    FROM public.stock_lots l
+    JOIN public.stock s ON s.id = l.stock_id
+    WHERE l.quantity > 0 AND l.expiration_date <= current_date + 3
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notifications n
+        WHERE n.dedupe_key = 'expiry-' || s.location_id || '-' || current_date
+      )
+    GROUP BY s.location_id
+  LOOP
+    v_location := private.location_names(v_row.location_id);
+    PERFORM private.notify(
+      ARRAY(SELECT private.location_manager_ids(v_row.location_id)),
+      'expiry',
+      'expiry-' || v_row.location_id || '-' || current_date,
+      v_row.location_id,
+      NULL,
+      'Expiring stock',
+      v_location.name_en || ': ' || v_row.expired || ' expired, ' || v_row.expiring || ' expiring within 3 days',
+      'مخزون قارب على الانتهاء',
+      v_location.name_ar || ': ' || v_row.expired || ' منتهي، ' || v_row.expiring || ' ينتهي خلال 3 أيام'
+    );
+    v_count := v_count + 1;
+  END LOOP;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.notify_expiring_stock() FROM public;
+GRANT EXECUTE ON FUNCTION public.notify_expiring_stock() TO authenticated, service_role;
+
+-- 19. Recipes (bills of materials): how much of each ingredient goes into one unit of a finished
+-- product, e.g. a latte. Production is logged as one 'usage' entry per ingredient through
+-- log_stock_entries(), tagged with the recipe, so stock-takes can tell what the recipes account
+-- for from what actually left the shelves (section 13). Only admins edit recipes.
+create table if not exists public.recipes (
+  id uuid primary key default uuid_generate_v4(),
+  name_en text not null,
+  name_ar text,
+  yield_unit text not null default 'pcs',
+  notes text,
+  created_at timestamp with time zone default now()
+);
+
+create unique index if not exists recipes_name_en_key on public.recipes (lower(name_en));
+
+create table if not exists public.recipe_ingredients (
+  id uuid primary key default uuid_generate_v4(),
+  recipe_id uuid not null references public.recipes(id) on delete cascade,
+  product_id uuid not null references public.products(id),
+  quantity numeric not null check (quantity > 0), -- Per unit produced
+  unique (recipe_id, product_id)
+);
+
+-- The recipe a usage transaction was posted from. Added here rather than with the other
+-- transaction columns (section 5) because it refers to recipes.
+do $$
+begin
+  if not exists (select 1 from information_schema.columns where table_name='transactions' and column_name='recipe_id') then
+    alter table public.transactions add column recipe_id uuid references public.recipes(id) on delete set null;
+  end if;
+end $$;
+
+-- 20. Transfer handover documents: the printed transfer carries a QR code with the group id and an
+-- HMAC of the group's lines (locations, products and quantities sent), keyed with the JWT secret
+-- (section 8). Scanning the paper checks the signature against the lines in the database, so a
+-- made-up or altered code is caught, and tells whether anything in the group is still pending.
+CREATE OR REPLACE FUNCTION private.transfer_document_signature(p_group_id text)
+RETURNS text AS $$
+DECLARE
+  v_secret text;
+  v_lines text;
+BEGIN
+  SELECT value INTO v_secret FROM private.app_config WHERE key = 'jwt_secret';
+  IF v_secret IS NULL THEN
+    RAISE EXCEPTION 'jwt_secret is not configured in private.app_config';
+  END IF;
+
+  SELECT string_agg(concat_ws(':', t.from_location, t.to_location, t.product_id, t.quantity), ';'
+                    ORDER BY t.product_id, t.quantity, t.id)
+  INTO v_lines
+  FROM public.transactions t
+  WHERE t.transfer_group_id = p_group_id AND t.type = 'transfer';
+
+  RETURN private.base64url(hmac('transfer-document.' || p_group_id || '.' || v_lines, v_secret, 'sha256'));
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+-- Either side of the transfer may print or scan its document
+CREATE OR REPLACE FUNCTION private.check_transfer_document_access(p_group_id text)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.transfer_group_id = p_group_id AND t.type = 'transfer'
+      AND (private.can_manage_location(t.from_location) OR private.can_manage_location(t.to_location))
+  ) THEN
+    RAISE EXCEPTION 'Transfer % not found', p_group_id USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sign_transfer_document(p_group_id text)
+RETURNS text AS $$
+BEGIN
+  PERFORM private.check_transfer_document_access(p_group_id);
+  RETURN private.transfer_document_signature(p_group_id);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 'tampered' when the signature does not match the lines, 'completed' when nothing in the group
+-- is pending any more, 'valid' otherwise
+CREATE OR REPLACE FUNCTION public.verify_transfer_document(p_group_id text, p_signature text)
+RETURNS text AS $$
+BEGIN
+  PERFORM private.check_transfer_document_access(p_group_id);
+  IF p_signature IS DISTINCT FROM private.transfer_document_signature(p_group_id) THEN
+    RETURN 'tampered';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.transfer_group_id = p_group_id AND t.type = 'transfer' AND t.status IN ('pending_source', 'pending_target')
+  ) THEN
+    RETURN 'completed';
+  END IF;
+  RETURN 'valid';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.sign_transfer_document(text) FROM public;
+REVOKE ALL ON FUNCTION public.verify_transfer_document(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.sign_transfer_document(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_transfer_document(text, text) TO authenticated;
+
+-- 21. Transfer signatures: whoever hands the goods over signs when the sender confirms a request
+-- or dispatches directly, and whoever takes them signs when the receiver accepts. One signature
+-- per side and group, drawn on the device as a PNG, with the name the signer gave and the app user
+-- who recorded it. The sender can sign, or sign again to replace its signature, until the goods
+-- are received; the receiver until it accepts them. The printed transfer shows both.
+create table if not exists public.transfer_signatures (
+  transfer_group_id text not null,
+  role text not null check (role in ('sender', 'receiver')),
+  signer_name text not null check (length(trim(signer_name)) > 0),
+  image text not null check (image like 'data:image/png;base64,%' and length(image) <= 500000),
+  signed_by text not null,
+  signed_at timestamp with time zone not null default now(),
+  primary key (transfer_group_id, role)
+);
+
+CREATE OR REPLACE FUNCTION public.record_transfer_signature(
+  p_group_id text,
+  p_role text,
+  p_signer_name text,
+  p_image text
+)
+RETURNS public.transfer_signatures AS $$
+DECLARE
+  v_performed_by text;
+  v_signer_name text := nullif(trim(p_signer_name), '');
+  -- A direct dispatch is already pending_target when its sender signs
+  v_statuses text[] := CASE p_role WHEN 'sender' THEN ARRAY['pending_source', 'pending_target'] WHEN 'receiver' THEN ARRAY['pending_target'] END;
+  v_signature public.transfer_signatures%ROWTYPE;
+BEGIN
+  SELECT u.name INTO v_performed_by FROM public.app_users u WHERE u.id = public.current_app_user_id();
+  IF v_performed_by IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF v_statuses IS NULL THEN
+    RAISE EXCEPTION 'Unknown signature role %', p_role USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_signer_name IS NULL THEN
+    RAISE EXCEPTION 'The signer''s name is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- The sender signs for the lines it sends, the receiver for the lines it receives
+  IF NOT EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.transfer_group_id = p_group_id AND t.type = 'transfer'
+      AND private.can_manage_location(CASE p_role WHEN 'sender' THEN t.from_location ELSE t.to_location END)
+  ) THEN
+    RAISE EXCEPTION 'Transfer % not found', p_group_id USING ERRCODE = 'no_data_found';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.transfer_group_id = p_group_id AND t.type = 'transfer' AND t.status = ANY (v_statuses)
+  ) THEN
+    RAISE EXCEPTION 'Transfer % has nothing waiting for the % to sign', p_group_id, p_role USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.transfer_signatures (transfer_group_id, role, signer_name, image, signed_by)
+  VALUES (p_group_id, p_role, v_signer_name, p_image, v_performed_by)
+  ON CONFLICT (transfer_group_id, role) DO UPDATE
+  SET signer_name = EXCLUDED.signer_name,
+      image = EXCLUDED.image,
+      signed_by = EXCLUDED.signed_by,
+      signed_at = now()
+  RETURNING * INTO v_signature;
+  RETURN v_signature;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_transfer_signature(text, text, text, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.record_transfer_signature(text, text, text, text) TO authenticated;
+
 -- Seed Data: Locations
 INSERT INTO public.locations (id, name, description, icon, type) VALUES
 ('warehouse', 'Warehouse', 'Main storage facility for bulk items and raw materials.', 'warehouse', 'central'),
@@ -153,62 +2265,295 @@ INSERT INTO public.app_users (username, password, name, role) VALUES
 ('employee', '123', 'Mammal Staff', 'mammal_employee')
 ON CONFLICT (username) DO NOTHING;
 
--- Seed Data: Warehouse Inventory (Only insert if table is empty to avoid duplicates on re-run)
-INSERT INTO public.inventory_items (location_id, name_en, name_ar, description, category, quantity, unit, min_threshold)
-SELECT 'warehouse', 'Arabica Coffee Beans', 'بن قهوة أرابيكا', 'High-quality roasted arabica beans from Ethiopia.', 'Raw Material', 500, 'kg', 100
-WHERE NOT EXISTS (SELECT 1 FROM public.inventory_items WHERE location_id = 'warehouse' AND name_en = 'Arabica Coffee Beans');
+-- Seed Data: Product Catalog (only insert products that don't exist yet, to avoid duplicates on re-run)
+INSERT INTO public.products (name_en, name_ar, description, category, unit)
+SELECT v.name_en, v.name_ar, v.description, v.category, v.unit
+FROM (VALUES
+  ('Arabica Coffee Beans', 'بن قهوة أرابيكا', 'High-quality roasted arabica beans from Ethiopia.', 'Raw Material', 'kg'),
+  ('Paper Cups (12oz)', 'أكواب ورقية (12 أونصة)', 'Disposable eco-friendly paper cups for hot beverages.', 'Packaging', 'pcs'),
+  ('Caramel Syrup', 'شراب الكراميل', 'Premium caramel flavoring for coffee and lattes.', 'Ingredients', 'bottles'),
+  ('Whole Milk (UHT)', 'حليب كامل الدسم (معقم)', 'Long-life full cream milk for steaming.', 'Ingredients', 'liters'),
+  ('Sugar Sticks', 'أصابع سكر', 'Individual 5g white sugar portions.', 'Ingredients', 'pcs'),
+  ('Vanilla Syrup', 'شراب الفانيليا', 'Sweet vanilla extract for signature drinks.', 'Ingredients', 'bottles'),
+  ('Fresh Milk', 'حليب طازج', 'Locally sourced fresh milk for latte art.', 'Ingredients', 'liters'),
+  ('Chocolate Sauce', 'صلصة الشوكولاتة', 'Rich dark chocolate syrup for mochas.', 'Ingredients', 'bottles')
+) AS v(name_en, name_ar, description, category, unit)
+WHERE NOT EXISTS (SELECT 1 FROM public.products p WHERE lower(p.name_en) = lower(v.name_en));
+
+-- Seed Data: Warehouse & Mammal Stock
+INSERT INTO public.stock (location_id, product_id, quantity, min_threshold)
+SELECT v.location_id, p.id, v.quantity, v.min_threshold
+FROM (VALUES
+  ('warehouse', 'Arabica Coffee Beans', 500, 100),
+  ('warehouse', 'Paper Cups (12oz)', 5000, 1000),
+  ('warehouse', 'Caramel Syrup', 45, 20),
+  ('warehouse', 'Whole Milk (UHT)', 200, 50),
+  ('warehouse', 'Sugar Sticks', 10000, 2000),
+  ('mammal', 'Arabica Coffee Beans', 20, 50),
+  ('mammal', 'Paper Cups (12oz)', 150, 200),
+  ('mammal', 'Vanilla Syrup', 5, 2),
+  ('mammal', 'Fresh Milk', 12, 10),
+  ('mammal', 'Chocolate Sauce', 8, 3)
+) AS v(location_id, name_en, quantity, min_threshold)
+JOIN public.products p ON lower(p.name_en) = lower(v.name_en)
+ON CONFLICT (location_id, product_id) DO NOTHING;
+
+-- Policies: every table requires a session token from authenticate_user.
+-- Admins see and change everything; other roles are scoped by current_app_locations().
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.app_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goods_received_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goods_received_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_take_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transaction_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_queue ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recipe_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transfer_signatures ENABLE ROW LEVEL SECURITY;
+
+-- The anon key can only reach the login RPC
+REVOKE ALL ON public.locations, public.app_users, public.products, public.stock, public.transactions,
+  public.suppliers, public.purchase_orders, public.purchase_order_lines,
+  public.goods_received_notes, public.goods_received_lines, public.stock_takes, public.stock_take_lines,
+  public.audit_log, public.stock_lots, public.transaction_lots, public.push_subscriptions, public.push_queue,
+  public.notifications, public.notification_preferences, public.recipes, public.recipe_ingredients,
+  public.transfer_signatures FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.locations, public.products,
+  public.suppliers, public.purchase_orders, public.purchase_order_lines, public.recipes, public.recipe_ingredients TO authenticated;
+-- The average cost is only maintained by the functions that move stock (section 11); managers
+-- edit the other columns of their stock rows
+REVOKE INSERT, UPDATE ON public.stock FROM authenticated;
+GRANT SELECT, DELETE ON public.stock TO authenticated;
+GRANT INSERT (location_id, product_id, quantity, min_threshold, expiration_date),
+  UPDATE (quantity, min_threshold, expiration_date) ON public.stock TO authenticated;
+-- Every transaction type is written by the function that also moves its stock (see the policies
+-- below); admins may still clear old history
+REVOKE INSERT, UPDATE ON public.transactions FROM authenticated;
+GRANT SELECT, DELETE ON public.transactions TO authenticated;
+GRANT INSERT, UPDATE, DELETE ON public.app_users TO authenticated;
+-- Goods-received notes are only written by receive_purchase_order()
+GRANT SELECT ON public.goods_received_notes, public.goods_received_lines TO authenticated;
+-- Stock-takes are only written by the functions in section 13
+GRANT SELECT ON public.stock_takes, public.stock_take_lines TO authenticated;
+-- The audit log is only written by its triggers (section 14)
+GRANT SELECT ON public.audit_log TO authenticated;
+-- Lots only change together with their stock (section 15)
+GRANT SELECT ON public.stock_lots, public.transaction_lots TO authenticated;
+-- Transfer signatures are only written by record_transfer_signature() (section 21)
+GRANT SELECT ON public.transfer_signatures TO authenticated;
+-- Push subscriptions and the push queue are only reached through the functions in section 17
+REVOKE ALL ON public.push_subscriptions, public.push_queue FROM authenticated;
+-- Notifications are written by the triggers in section 18; users only mark them read or delete them
+GRANT SELECT, DELETE ON public.notifications TO authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.notification_preferences TO authenticated;
+GRANT USAGE ON SEQUENCE public.products_sku_seq, public.purchase_orders_number_seq TO authenticated;
 
-INSERT INTO public.inventory_items (location_id, name_en, name_ar, description, category, quantity, unit, min_threshold)
-SELECT 'warehouse', 'Paper Cups (12oz)', 'أكواب ورقية (12 أونصة)', 'Disposable eco-friendly paper cups for hot beverages.', 'Packaging', 5000, 'pcs', 1000
-WHERE NOT EXISTS (SELECT 1 FROM public.inventory_items WHERE location_id = 'warehouse' AND name_en = 'Paper Cups (12oz)');
+-- Drop existing policies to avoid "already exists" errors on re-run
+DROP POLICY IF EXISTS "Public Access" ON public.locations;
+DROP POLICY IF EXISTS "Public Access" ON public.app_users;
+DROP POLICY IF EXISTS "Public Access" ON public.stock;
+DROP POLICY IF EXISTS "Public Access" ON public.transactions;
+DROP POLICY IF EXISTS "Signed-in users read locations" ON public.locations;
+DROP POLICY IF EXISTS "Admins manage locations" ON public.locations;
+DROP POLICY IF EXISTS "Signed-in users read profiles" ON public.app_users;
+DROP POLICY IF EXISTS "Admins manage users" ON public.app_users;
+DROP POLICY IF EXISTS "Read inventory in scope" ON public.stock;
+DROP POLICY IF EXISTS "Admins manage inventory" ON public.stock;
+DROP POLICY IF EXISTS "Managers manage their inventory" ON public.stock;
+DROP POLICY IF EXISTS "Managers add stock" ON public.stock;
+DROP POLICY IF EXISTS "Managers update their inventory" ON public.stock;
+DROP POLICY IF EXISTS "Managers remove their inventory" ON public.stock;
+DROP POLICY IF EXISTS "Read transactions in scope" ON public.transactions;
+DROP POLICY IF EXISTS "Record transactions in scope" ON public.transactions;
+DROP POLICY IF EXISTS "Update transactions in scope" ON public.transactions;
+DROP POLICY IF EXISTS "Admins delete transactions" ON public.transactions;
+DROP POLICY IF EXISTS "Signed-in users read products" ON public.products;
+DROP POLICY IF EXISTS "Managers add products" ON public.products;
+DROP POLICY IF EXISTS "Admins manage products" ON public.products;
+DROP POLICY IF EXISTS "Purchasing staff read suppliers" ON public.suppliers;
+DROP POLICY IF EXISTS "Admins manage suppliers" ON public.suppliers;
+DROP POLICY IF EXISTS "Purchasing staff read purchase orders" ON public.purchase_orders;
+DROP POLICY IF EXISTS "Admins manage purchase orders" ON public.purchase_orders;
+DROP POLICY IF EXISTS "Purchasing staff read purchase order lines" ON public.purchase_order_lines;
+DROP POLICY IF EXISTS "Admins manage purchase order lines" ON public.purchase_order_lines;
+DROP POLICY IF EXISTS "Purchasing staff read goods received" ON public.goods_received_notes;
+DROP POLICY IF EXISTS "Purchasing staff read goods received lines" ON public.goods_received_lines;
+DROP POLICY IF EXISTS "Read stock-takes in scope" ON public.stock_takes;
+DROP POLICY IF EXISTS "Read stock-take lines in scope" ON public.stock_take_lines;
+DROP POLICY IF EXISTS "Read audit log in scope" ON public.audit_log;
+DROP POLICY IF EXISTS "Read lots in scope" ON public.stock_lots;
+DROP POLICY IF EXISTS "Read transaction lots in scope" ON public.transaction_lots;
+DROP POLICY IF EXISTS "Read transfer signatures in scope" ON public.transfer_signatures;
+DROP POLICY IF EXISTS "Users read their notifications" ON public.notifications;
+DROP POLICY IF EXISTS "Users update their notifications" ON public.notifications;
+DROP POLICY IF EXISTS "Users delete their notifications" ON public.notifications;
+DROP POLICY IF EXISTS "Users manage their notification preferences" ON public.notification_preferences;
+DROP POLICY IF EXISTS "Signed-in users read recipes" ON public.recipes;
+DROP POLICY IF EXISTS "Admins manage recipes" ON public.recipes;
+DROP POLICY IF EXISTS "Signed-in users read recipe ingredients" ON public.recipe_ingredients;
+DROP POLICY IF EXISTS "Admins manage recipe ingredients" ON public.recipe_ingredients;
 
-INSERT INTO public.inventory_items (location_id, name_en, name_ar, description, category, quantity, unit, min_threshold)
-SELECT 'warehouse', 'Caramel Syrup', 'شراب الكراميل', 'Premium caramel flavoring for coffee and lattes.', 'Ingredients', 45, 'bottles', 20
-WHERE NOT EXISTS (SELECT 1 FROM public.inventory_items WHERE location_id = 'warehouse' AND name_en = 'Caramel Syrup');
+-- Locations: everyone signed in needs the full list (transfer targets), only admins edit it
+CREATE POLICY "Signed-in users read locations" ON public.locations
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins manage locations" ON public.locations
+  FOR ALL TO authenticated
+  USING (public.current_app_role() = 'admin')
+  WITH CHECK (public.current_app_role() = 'admin');
 
-INSERT INTO public.inventory_items (location_id, name_en, name_ar, description, category, quantity, unit, min_threshold)
-SELECT 'warehouse', 'Whole Milk (UHT)', 'حليب كامل الدسم (معقم)', 'Long-life full cream milk for steaming.', 'Ingredients', 200, 'liters', 50
-WHERE NOT EXISTS (SELECT 1 FROM public.inventory_items WHERE location_id = 'warehouse' AND name_en = 'Whole Milk (UHT)');
+-- Products: the catalog is readable by everyone signed in. Managers may add products while
+-- stocking their locations; only admins change or remove catalog entries.
+CREATE POLICY "Signed-in users read products" ON public.products
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Managers add products" ON public.products
+  FOR INSERT TO authenticated
+  WITH CHECK (public.current_app_role() IN ('admin', 'warehouse_manager', 'branch_manager'));
+CREATE POLICY "Admins manage products" ON public.products
+  FOR ALL TO authenticated
+  USING (public.current_app_role() = 'admin')
+  WITH CHECK (public.current_app_role() = 'admin');
 
-INSERT INTO public.inventory_items (location_id, name_en, name_ar, description, category, quantity, unit, min_threshold)
-SELECT 'warehouse', 'Sugar Sticks', 'أصابع سكر', 'Individual 5g white sugar portions.', 'Ingredients', 10000, 'pcs', 2000
-WHERE NOT EXISTS (SELECT 1 FROM public.inventory_items WHERE location_id = 'warehouse' AND name_en = 'Sugar Sticks');
+-- Users: profiles are readable (column grants above hide the password), only admins edit them
+CREATE POLICY "Signed-in users read profiles" ON public.app_users
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins manage users" ON public.app_users
+  FOR ALL TO authenticated
+  USING (public.current_app_role() = 'admin')
+  WITH CHECK (public.current_app_role() = 'admin');
 
--- Seed Data: Mammal Inventory
-INSERT INTO public.inventory_items (location_id, name_en, name_ar, description, category, quantity, unit, min_threshold)
-SELECT 'mammal', 'Arabica Coffee Beans', 'بن قهوة أرابيكا', 'Daily supply of roasted beans for production.', 'Raw Material', 20, 'kg', 50
-WHERE NOT EXISTS (SELECT 1 FROM public.inventory_items WHERE location_id = 'mammal' AND name_en = 'Arabica Coffee Beans');
+-- Stock: the warehouse manager oversees stock everywhere but only edits warehouse/mammal, branch
+-- managers only see and edit the locations they manage. Mammal staff only read mammal stock; their
+-- usage and receipts go through log_stock_entries() (section 15), which keeps lots and history.
+CREATE POLICY "Read inventory in scope" ON public.stock
+  FOR SELECT TO authenticated
+  USING (public.current_app_role() IN ('admin', 'warehouse_manager') OR location_id = ANY (public.current_app_locations()));
+CREATE POLICY "Admins manage inventory" ON public.stock
+  FOR ALL TO authenticated
+  USING (public.current_app_role() = 'admin')
+  WITH CHECK (public.current_app_role() = 'admin');
+CREATE POLICY "Managers add stock" ON public.stock
+  FOR INSERT TO authenticated
+  WITH CHECK (public.current_app_role() IN ('warehouse_manager', 'branch_manager')
+              AND location_id = ANY (public.current_app_locations()));
+CREATE POLICY "Managers update their inventory" ON public.stock
+  FOR UPDATE TO authenticated
+  USING (public.current_app_role() IN ('warehouse_manager', 'branch_manager')
+         AND location_id = ANY (public.current_app_locations()))
+  WITH CHECK (public.current_app_role() IN ('warehouse_manager', 'branch_manager')
+              AND location_id = ANY (public.current_app_locations()));
+CREATE POLICY "Managers remove their inventory" ON public.stock
+  FOR DELETE TO authenticated
+  USING (public.current_app_role() IN ('warehouse_manager', 'branch_manager')
+         AND location_id = ANY (public.current_app_locations()));
 
-INSERT INTO public.inventory_items (location_id, name_en, name_ar, description, category, quantity, unit, min_threshold)
-SELECT 'mammal', 'Paper Cups (12oz)', 'أكواب ورقية (12 أونصة)', 'Current batch of serving cups.', 'Packaging', 150, 'pcs', 200
-WHERE NOT EXISTS (SELECT 1 FROM public.inventory_items WHERE location_id = 'mammal' AND name_en = 'Paper Cups (12oz)');
+-- Transactions: visible when they touch one of the caller's locations. Nothing is inserted
+-- directly: usage and receipts are logged through log_stock_entries() (section 15), which also
+-- moves the stock; transfers and their losses only through the functions in section 11,
+-- adjustments by approve_stock_take() (section 13) and waste by write_off_stock() (section 16).
+CREATE POLICY "Read transactions in scope" ON public.transactions
+  FOR SELECT TO authenticated
+  USING (
+    public.current_app_role() IN ('admin', 'warehouse_manager')
+    OR from_location = ANY (public.current_app_locations())
+    OR to_location = ANY (public.current_app_locations())
+  );
+CREATE POLICY "Admins delete transactions" ON public.transactions
+  FOR DELETE TO authenticated
+  USING (public.current_app_role() = 'admin');
 
-INSERT INTO public.inventory_items (location_id, name_en, name_ar, description, category, quantity, unit, min_threshold)
-SELECT 'mammal', 'Vanilla Syrup', 'شراب الفانيليا', 'Sweet vanilla extract for signature drinks.', 'Ingredients', 5, 'bottles', 2
-WHERE NOT EXISTS (SELECT 1 FROM public.inventory_items WHERE location_id = 'mammal' AND name_en = 'Vanilla Syrup');
+-- Purchasing: admins and the warehouse manager see suppliers, orders and deliveries. Only admins
+-- raise and edit orders; goods are booked in through receive_purchase_order() (section 12).
+CREATE POLICY "Purchasing staff read suppliers" ON public.suppliers
+  FOR SELECT TO authenticated USING (public.current_app_role() IN ('admin', 'warehouse_manager'));
+CREATE POLICY "Admins manage suppliers" ON public.suppliers
+  FOR ALL TO authenticated
+  USING (public.current_app_role() = 'admin')
+  WITH CHECK (public.current_app_role() = 'admin');
+CREATE POLICY "Purchasing staff read purchase orders" ON public.purchase_orders
+  FOR SELECT TO authenticated USING (public.current_app_role() IN ('admin', 'warehouse_manager'));
+CREATE POLICY "Admins manage purchase orders" ON public.purchase_orders
+  FOR ALL TO authenticated
+  USING (public.current_app_role() = 'admin')
+  WITH CHECK (public.current_app_role() = 'admin');
+CREATE POLICY "Purchasing staff read purchase order lines" ON public.purchase_order_lines
+  FOR SELECT TO authenticated USING (public.current_app_role() IN ('admin', 'warehouse_manager'));
+CREATE POLICY "Admins manage purchase order lines" ON public.purchase_order_lines
+  FOR ALL TO authenticated
+  USING (public.current_app_role() = 'admin')
+  WITH CHECK (public.current_app_role() = 'admin');
+CREATE POLICY "Purchasing staff read goods received" ON public.goods_received_notes
+  FOR SELECT TO authenticated USING (public.current_app_role() IN ('admin', 'warehouse_manager'));
+CREATE POLICY "Purchasing staff read goods received lines" ON public.goods_received_lines
+  FOR SELECT TO authenticated USING (public.current_app_role() IN ('admin', 'warehouse_manager'));
 
-INSERT INTO public.inventory_items (location_id, name_en, name_ar, description, category, quantity, unit, min_threshold)
-SELECT 'mammal', 'Fresh Milk', 'حليب طازج', 'Locally sourced fresh milk for latte art.', 'Ingredients', 12, 'liters', 10
-WHERE NOT EXISTS (SELECT 1 FROM public.inventory_items WHERE location_id = 'mammal' AND name_en = 'Fresh Milk');
+-- Stock-takes: visible to whoever can see the location's stock
+CREATE POLICY "Read stock-takes in scope" ON public.stock_takes
+  FOR SELECT TO authenticated
+  USING (public.current_app_role() IN ('admin', 'warehouse_manager') OR location_id = ANY (public.current_app_locations()));
+CREATE POLICY "Read stock-take lines in scope" ON public.stock_take_lines
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.stock_takes st WHERE st.id = stock_take_id));
 
-INSERT INTO public.inventory_items (location_id, name_en, name_ar, description, category, quantity, unit, min_threshold)
-SELECT 'mammal', 'Chocolate Sauce', 'صلصة الشوكولاتة', 'Rich dark chocolate syrup for mochas.', 'Ingredients', 8, 'bottles', 3
-WHERE NOT EXISTS (SELECT 1 FROM public.inventory_items WHERE location_id = 'mammal' AND name_en = 'Chocolate Sauce');
+-- Audit log: admins see everything; managers see the stock history of locations they can see
+CREATE POLICY "Read audit log in scope" ON public.audit_log
+  FOR SELECT TO authenticated
+  USING (
+    public.current_app_role() = 'admin'
+    OR (table_name = 'stock' AND (
+      public.current_app_role() = 'warehouse_manager' OR location_id = ANY (public.current_app_locations())
+    ))
+  );
 
--- Policies (Optional: Enable RLS and run these if you need security policies)
-ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
-ALTER TABLE public.app_users ENABLE ROW LEVEL SECURITY;
-ALTER TABLE public.inventory_items ENABLE ROW LEVEL SECURITY;
-ALTER TABLE public.transactions ENABLE ROW LEVEL SECURITY;
+-- Lots: visible with the stock row or transaction they belong to
+CREATE POLICY "Read lots in scope" ON public.stock_lots
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.stock s WHERE s.id = stock_id));
+CREATE POLICY "Read transaction lots in scope" ON public.transaction_lots
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.transactions t WHERE t.id = transaction_id));
 
--- Drop existing policies to avoid "already exists" errors on re-run
-DROP POLICY IF EXISTS "Public Access" ON public.locations;
-DROP POLICY IF EXISTS "Public Access" ON public.app_users;
-DROP POLICY IF EXISTS "Public Access" ON public.inventory_items;
-DROP POLICY IF EXISTS "Public Access" ON public.transactions;
+-- Transfer signatures: visible to whoever can see the transfer they were given for
+CREATE POLICY "Read transfer signatures in scope" ON public.transfer_signatures
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.transactions t WHERE t.transfer_group_id = transfer_signatures.transfer_group_id));
+
+-- Notifications and their preferences: each user only sees their own
+CREATE POLICY "Users read their notifications" ON public.notifications
+  FOR SELECT TO authenticated USING (user_id = public.current_app_user_id());
+CREATE POLICY "Users update their notifications" ON public.notifications
+  FOR UPDATE TO authenticated
+  USING (user_id = public.current_app_user_id())
+  WITH CHECK (user_id = public.current_app_user_id());
+CREATE POLICY "Users delete their notifications" ON public.notifications
+  FOR DELETE TO authenticated USING (user_id = public.current_app_user_id());
+CREATE POLICY "Users manage their notification preferences" ON public.notification_preferences
+  FOR ALL TO authenticated
+  USING (user_id = public.current_app_user_id())
+  WITH CHECK (user_id = public.current_app_user_id());
 
--- Create policies
-CREATE POLICY "Public Access" ON public.locations FOR ALL USING (true);
-CREATE POLICY "Public Access" ON public.app_users FOR ALL USING (true);
-CREATE POLICY "Public Access" ON public.inventory_items FOR ALL USING (true);
-CREATE POLICY "Public Access" ON public.transactions FOR ALL USING (true);
\ No newline at end of file
+-- Recipes: readable by everyone signed in (production is logged wherever stock is used), edited by admins
+CREATE POLICY "Signed-in users read recipes" ON public.recipes
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins manage recipes" ON public.recipes
+  FOR ALL TO authenticated
+  USING (public.current_app_role() = 'admin')
+  WITH CHECK (public.current_app_role() = 'admin');
+CREATE POLICY "Signed-in users read recipe ingredients" ON public.recipe_ingredients
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins manage recipe ingredients" ON public.recipe_ingredients
+  FOR ALL TO authenticated
+  USING (public.current_app_role() = 'admin')
+  WITH CHECK (public.current_app_role() = 'admin');
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { shapeArabic, toDisplayText, toVisualOrder } from '../services/arabicTextService';
+
+// Text as exportService.ts hands it to jsPDF, compared as code points
+const codes = (text: string) => Array.from(text).map(c => c.codePointAt(0)!.toString(16));
+
+describe('Arabic PDF text', () => {
+  it('gives each letter the form it takes next to its neighbours', () => {
+    // Beh joins forward (initial), Ain both ways (medial), Noon back (final)
+    expect(codes(shapeArabic('بعن'))).toEqual(['fe91', 'fecc', 'fee6']);
+    // Alef and Dal do not join forward, so the letters after them stand alone, left as they are
+    expect(codes(shapeArabic('دار'))).toEqual(['62f', '627', '631']);
+    // Vowel marks do not break the join
+    expect(codes(shapeArabic('بَب'))).toEqual(['fe91', '64e', 'fe90']);
+    // Lam-alef is one ligature, final after a joining letter
+    expect(codes(shapeArabic('لا'))).toEqual(['fefb']);
+    expect(codes(shapeArabic('سلا'))).toEqual(['feb3', 'fefc']);
+  });
+
+  it('puts lines in display order, by the direction of their first letter', () => {
+    expect(toVisualOrder('من 12 إلى 30')).toBe('30 ىلإ 12 نم');
+    expect(toVisualOrder('Branch 1 - فرع 2')).toBe('Branch 1 - 2 عرف');
+    expect(toVisualOrder('الكمية (كغ)')).toBe('(غك) ةيمكلا');
+    expect(toVisualOrder('التاريخ: ١٩‏/١٠‏/٢٠٢٦')).toBe('٢٠٢٦/١٠/١٩ :خيراتلا');
+  });
+
+  it('leaves text without Arabic as it is', () => {
+    expect(toDisplayText('Cups (Paper) 12.5 kg')).toBe('Cups (Paper) 12.5 kg');
+    expect(toDisplayText('قهوة')).toBe(toVisualOrder(shapeArabic('قهوة')));
+  });
+});
@@ -0,0 +1,69 @@
+import { expect } from 'vitest';
+import { InventoryItem, LocationData, LocationId, Product, User } from '../types';
+import { createMemoryRepository, MemoryRepository, MemorySeed } from '../services/memoryRepository';
+import { ItemRepository, RepositoryErrorKind } from '../services/repository';
+
+// A warehouse feeding two branches, with cups held in two lots at the warehouse and lids in one.
+// Each test starts from a fresh copy.
+
+export const ADMIN: User = { id: 'u-admin', username: 'admin', name: 'Admin', role: 'admin' };
+export const WAREHOUSE: User = { id: 'u-warehouse', username: 'warehouse', name: 'Warehouse Manager', role: 'warehouse_manager' };
+export const BRANCH_1: User = { id: 'u-branch1', username: 'branch1', name: 'Branch 1 Manager', role: 'branch_manager', branchCode: 'branch1', branchName: 'Branch 1' };
+export const BRANCH_2: User = { id: 'u-branch2', username: 'branch2', name: 'Branch 2 Manager', role: 'branch_manager', branchCode: 'branch2', branchName: 'Branch 2' };
+
+const LOCATIONS: LocationData[] = [
+  { id: 'warehouse', name: 'Central Warehouse', description: 'Main storage', icon: 'warehouse', type: 'central' },
+  { id: 'branch1', name: 'Branch 1', description: 'Branch Inventory', icon: 'store', type: 'branch' },
+  { id: 'branch2', name: 'Branch 2', description: 'Branch Inventory', icon: 'store', type: 'branch' }
+];
+
+export const CUPS: Product = { id: 'p-cups', sku: 'SKU-00001', nameEn: 'Cups', nameAr: 'أكواب', category: 'Packaging', unit: 'pcs' };
+export const LIDS: Product = { id: 'p-lids', sku: 'SKU-00002', nameEn: 'Lids', nameAr: 'أغطية', category: 'Packaging', unit: 'pcs' };
+
+const stock = (id: string, product: Product, locationId: LocationId, lots: { lotNumber?: string, expirationDate?: string, quantity: number }[]): InventoryItem => ({
+  ...product,
+  id,
+  productId: product.id,
+  locationId,
+  quantity: lots.reduce((sum, lot) => sum + lot.quantity, 0),
+  minThreshold: 0,
+  lastUpdated: '2026-01-01T00:00:00.000Z',
+  lots: lots.map((lot, index) => ({ id: `${id}-lot${index + 1}`, receivedAt: '2026-01-01T00:00:00.000Z', ...lot }))
+});
+
+// Extra records, e.g. recipes, are added to the seed. schemaFixtures.ts loads the same seed into
+// the database.
+export const fixtureSeed = (user: User = WAREHOUSE, extra: Partial<MemorySeed> = {}): MemorySeed => ({
+  user,
+  locations: LOCATIONS,
+  users: [ADMIN, WAREHOUSE, BRANCH_1, BRANCH_2],
+  products: [CUPS, LIDS],
+  items: [
+    stock('s-wh-cups', CUPS, 'warehouse', [
+      { lotNumber: 'A', expirationDate: '2026-11-01', quantity: 6 },
+      { lotNumber: 'B', expirationDate: '2026-12-01', quantity: 4 }
+    ]),
+    stock('s-wh-lids', LIDS, 'warehouse', [{ quantity: 20 }]),
+    stock('s-b1-cups', CUPS, 'branch1', [{ lotNumber: 'A', expirationDate: '2026-11-01', quantity: 2 }])
+  ],
+  ...extra
+});
+
+export const createFixture = (user: User = WAREHOUSE, extra: Partial<MemorySeed> = {}): MemoryRepository =>
+  createMemoryRepository(fixtureSeed(user, extra));
+
+// What the helpers below read stock through, so they work against either repository
+type StockReader = { items: Pick<ItemRepository, 'list'> };
+
+export const itemAt = async (repository: StockReader, locationId: LocationId, product: Product) =>
+  (await repository.items.list()).find(i => i.locationId === locationId && i.productId === product.id);
+
+export const quantityAt = async (repository: StockReader, locationId: LocationId, product: Product) =>
+  (await itemAt(repository, locationId, product))?.quantity ?? 0;
+
+// Lot number and quantity, first-expiring first
+export const lotsAt = async (repository: StockReader, locationId: LocationId, product: Product) =>
+  ((await itemAt(repository, locationId, product))?.lots || []).map(lot => [lot.lotNumber, lot.quantity]);
+
+export const expectFailure = (promise: Promise<unknown>, kind: RepositoryErrorKind) =>
+  expect(promise).rejects.toMatchObject({ name: 'RepositoryError', kind });
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { BinaryBitmap, BitArray, Code128Reader, HybridBinarizer, QRCodeReader, RGBLuminanceSource } from '@zxing/library';
+import { encodeCode128, encodeQR } from '../services/barcodeService';
+import { getPrintedLabelCode } from '../services/exportService';
+import { findItemByCode, getLabelCode } from '../services/scanService';
+import { WAREHOUSE, createFixture } from './fixtures';
+
+// Codes printed on labels (exportLabelsPDF() in services/exportService.ts), read back with the
+// decoder the scanner falls back to
+
+const readCode128 = (modules: boolean[]) => {
+  const row = new BitArray(modules.length + 20);
+  modules.forEach((dark, i) => { if (dark) row.set(i + 10); });
+  return new Code128Reader().decodeRow(0, row, new Map()).getText();
+};
+
+const readQR = (matrix: boolean[][]) => {
+  const scale = 4;
+  const size = (matrix.length + 8) * scale;
+  const pixels = new Uint8ClampedArray(size * size).fill(255);
+  matrix.forEach((row, r) => row.forEach((dark, c) => {
+    if (!dark) return;
+    for (let dy = 0; dy < scale; dy++) {
+      pixels.fill(0, ((4 + r) * scale + dy) * size + (4 + c) * scale, ((4 + r) * scale + dy) * size + (5 + c) * scale);
+    }
+  }));
+  const bitmap = new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(pixels, size, size)));
+  return new QRCodeReader().decode(bitmap).getText();
+};
+
+describe('label codes', () => {
+  it('encodes Code 128 that reads back, packing all-digit codes two digits a symbol', () => {
+    expect(readCode128(encodeCode128('SKU-00042'))).toBe('SKU-00042');
+    expect(readCode128(encodeCode128('6281001234567'))).toBe('6281001234567');
+    // 2 start/stop/check symbols of 11 modules, a stop of 13 and 6 digit pairs
+    expect(encodeCode128('628100123456')).toHaveLength(11 * 2 + 13 + 6 * 11);
+    expect(() => encodeCode128('قهوة')).toThrow();
+  });
+
+  it('encodes QR codes that read back', () => {
+    expect(readQR(encodeQR('INT-3F2A9C'))).toBe('INT-3F2A9C');
+  });
+
+  it('gives items without a barcode an internal code the scanner finds them by', async () => {
+    const repository = createFixture(WAREHOUSE);
+    const cups = (await repository.items.list()).find(i => i.id === 's-wh-cups')!;
+
+    expect(getLabelCode({ ...cups, barcode: '6281001234567' })).toBe('6281001234567');
+    expect(getLabelCode(cups)).toBe('SKU-00001');
+
+    const legacy = { ...cups, sku: undefined };
+    expect(getLabelCode(legacy)).toBe('INT-PCUPS');
+    expect(findItemByCode([legacy], 'int-pcups')).toBe(legacy);
+  });
+
+  it('falls back to the SKU or the internal code on labels whose barcode Code 128 cannot carry', async () => {
+    const repository = createFixture(WAREHOUSE);
+    const cups = (await repository.items.list()).find(i => i.id === 's-wh-cups')!;
+
+    expect(getPrintedLabelCode({ ...cups, barcode: '6281001234567' }, 'code128')).toBe('6281001234567');
+    expect(getPrintedLabelCode({ ...cups, barcode: 'قهوة' }, 'code128')).toBe('SKU-00001');
+    expect(getPrintedLabelCode({ ...cups, barcode: '628100\t1234' }, 'code128')).toBe('SKU-00001');
+    expect(getPrintedLabelCode({ ...cups, barcode: 'قهوة', sku: 'كوب' }, 'code128')).toBe('INT-PCUPS');
+    expect(getPrintedLabelCode({ ...cups, barcode: 'قهوة' }, 'qr')).toBe('قهوة');
+  });
+});
@@ -0,0 +1,174 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Transaction, User } from '../types';
+import { RepositoryError } from '../services/repository';
+import { BRANCH_1, BRANCH_2, WAREHOUSE, createFixture } from './fixtures';
+import { StockRepository, createSchemaFixture, loadSchema, rollbackSchemaFixture } from './schemaFixtures';
+
+vi.mock('../services/supabase', () => import('./schemaClient'));
+
+// The other test files run against services/memoryRepository.ts, which repeats the stock logic of
+// supabase_schema.sql in TypeScript. Each scenario here runs against both, the schema under
+// PGlite, and must leave the same trace: what every call returned or why it failed, and the stock
+// and lots afterwards.
+
+type Trace = unknown[];
+
+// Columns the database leaves null come back as null, where the memory repository leaves them out
+const summary = (tx: Transaction) =>
+  [tx.type, tx.status, tx.fromLocation ?? undefined, tx.toLocation ?? undefined, tx.productId, tx.quantity, tx.receivedQuantity, tx.unitCost];
+
+const stockOf = async (repository: StockRepository) =>
+  (await repository.items.list())
+    .map(item => [item.locationId, item.productId, item.quantity, item.averageCost,
+      (item.lots || []).map(lot => [lot.lotNumber, lot.expirationDate, lot.quantity])])
+    .sort((a, b) => `${a[0]}/${a[1]}`.localeCompare(`${b[0]}/${b[1]}`));
+
+// Records a call's transactions, or the kind of failure it met
+const step = async (trace: Trace, call: Promise<Transaction | Transaction[]>) => {
+  try {
+    const result = await call;
+    trace.push((Array.isArray(result) ? result : [result]).map(summary));
+    return result;
+  } catch (error) {
+    if (!(error instanceof RepositoryError)) throw error;
+    trace.push({ failed: error.kind });
+    return undefined;
+  }
+};
+
+const run = async (repository: StockRepository, user: User, scenario: (repository: StockRepository, trace: Trace) => Promise<void>) => {
+  const trace: Trace = [];
+  repository.signIn(user);
+  await scenario(repository, trace);
+  trace.push(await stockOf(repository));
+  return trace;
+};
+
+const expectParity = async (user: User, scenario: (repository: StockRepository, trace: Trace) => Promise<void>) => {
+  const memory = await run(createFixture(user), user, scenario);
+  const database = await run(await createSchemaFixture(user), user, scenario);
+  expect(database).toEqual(memory);
+};
+
+const only = async (call: Promise<Transaction[]>) => (await call)[0];
+
+beforeAll(loadSchema, 120_000);
+afterEach(rollbackSchemaFixture);
+
+describe('the memory repository matches supabase_schema.sql', () => {
+  it('on a transfer dispatched by the source and received in full', () => expectParity(WAREHOUSE, async (repository, trace) => {
+    const sent = await repository.transactions.createTransfer('warehouse', 'branch1', [
+      { itemId: 's-wh-cups', quantity: 7 },
+      { itemId: 's-wh-lids', quantity: 5 }
+    ]);
+    trace.push(await stockOf(repository));
+
+    repository.signIn(BRANCH_1);
+    for (const tx of sent) await step(trace, repository.transactions.receiveTransfer(tx.id));
+  }));
+
+  it('on a requested transfer received short, returned or lost', () => expectParity(BRANCH_1, async (repository, trace) => {
+    const [returned, lost] = [
+      await only(repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-cups', quantity: 7 }])),
+      await only(repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-lids', quantity: 8 }]))
+    ];
+    trace.push([returned, lost].map(summary));
+
+    repository.signIn(WAREHOUSE);
+    await step(trace, repository.transactions.confirmTransfer(returned.id));
+    await step(trace, repository.transactions.confirmTransfer(lost.id));
+    trace.push(await stockOf(repository));
+
+    repository.signIn(BRANCH_1);
+    await step(trace, repository.transactions.receiveTransfer(returned.id, { receivedQuantity: 5, reason: 'Damaged', shortfallAction: 'return' }));
+    await step(trace, repository.transactions.receiveTransfer(lost.id, { receivedQuantity: 0, reason: 'Never arrived', shortfallAction: 'loss' }));
+  }));
+
+  it('on rejected and cancelled transfers', () => expectParity(WAREHOUSE, async (repository, trace) => {
+    const dispatched = await only(repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-cups', quantity: 7 }]));
+    const cancelled = await only(repository.transactions.createTransfer('warehouse', 'branch2', [{ itemId: 's-wh-lids', quantity: 4 }]));
+
+    repository.signIn(BRANCH_1);
+    const requested = await only(repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-lids', quantity: 3 }]));
+    await step(trace, repository.transactions.cancelTransfer(dispatched.id));
+    await step(trace, repository.transactions.rejectTransfer(requested.id, 'Changed my mind'));
+    await step(trace, repository.transactions.rejectTransfer(dispatched.id, ' Damaged '));
+
+    repository.signIn(BRANCH_2);
+    await step(trace, repository.transactions.cancelTransfer(cancelled.id));
+
+    repository.signIn(WAREHOUSE);
+    await step(trace, repository.transactions.cancelTransfer(cancelled.id));
+    await step(trace, repository.transactions.rejectTransfer(requested.id, '  '));
+    await step(trace, repository.transactions.rejectTransfer(requested.id, 'Not available'));
+    await step(trace, repository.transactions.confirmTransfer(requested.id));
+  }));
+
+  it('on transfers that are refused', () => expectParity(WAREHOUSE, async (repository, trace) => {
+    await step(trace, repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-cups', quantity: 11 }]));
+    await step(trace, repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-cups', quantity: 0 }]));
+    await step(trace, repository.transactions.createTransfer('warehouse', 'warehouse', [{ itemId: 's-wh-cups', quantity: 1 }]));
+    await step(trace, repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-b1-cups', quantity: 1 }]));
+
+    const sent = await step(trace, repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-cups', quantity: 7 }]));
+    const [tx] = sent as Transaction[];
+    await step(trace, repository.transactions.receiveTransfer(tx.id));
+
+    repository.signIn(BRANCH_2);
+    await step(trace, repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-lids', quantity: 1 }]));
+    await step(trace, repository.transactions.receiveTransfer(tx.id));
+
+    repository.signIn(BRANCH_1);
+    await step(trace, repository.transactions.receiveTransfer(tx.id, { receivedQuantity: 8, shortfallAction: 'return' }));
+    await step(trace, repository.transactions.receiveTransfer(tx.id, { receivedQuantity: 5, reason: '  ', shortfallAction: 'return' }));
+    await step(trace, repository.transactions.receiveTransfer(tx.id, { receivedQuantity: 6, reason: 'Crushed', shortfallAction: 'loss' }));
+    await step(trace, repository.transactions.receiveTransfer(tx.id));
+  }));
+
+  it('on logged usage and receipts', () => expectParity(BRANCH_1, async (repository, trace) => {
+    await step(trace, repository.transactions.logEntries('branch1', [
+      { type: 'receive', itemId: 's-b1-cups', quantity: 5, lotNumber: ' C ', expirationDate: '2026-10-25', unitCost: 2 },
+      { type: 'usage', itemId: 's-b1-cups', quantity: 3, notes: 'Morning shift' },
+      { type: 'receive', itemId: 's-b1-cups', quantity: 4 }
+    ]));
+    await step(trace, repository.transactions.logEntries('branch1', [
+      { type: 'receive', itemId: 's-b1-cups', quantity: 5 },
+      { type: 'usage', itemId: 's-b1-cups', quantity: 20 }
+    ]));
+    await step(trace, repository.transactions.logEntries('branch1', []));
+    await step(trace, repository.transactions.logEntries('branch1', [{ type: 'usage', itemId: 's-b1-cups', quantity: -1 }]));
+    await step(trace, repository.transactions.logEntries('branch1', [{ type: 'usage', itemId: 's-wh-cups', quantity: 1 }]));
+    await step(trace, repository.transactions.logEntries('warehouse', [{ type: 'usage', itemId: 's-wh-cups', quantity: 1 }]));
+    await step(trace, repository.transactions.logEntries('branch1', [{ type: 'usage', itemId: 's-b1-cups', quantity: 1, expectedQuantity: 2 }]));
+    await step(trace, repository.transactions.logEntries('branch1', [{ type: 'usage', itemId: 's-b1-cups', quantity: 1, expectedQuantity: 8 }]));
+
+    const entry = { type: 'usage' as const, itemId: 's-b1-cups', quantity: 1, idempotencyKey: crypto.randomUUID() };
+    await step(trace, repository.transactions.logEntries('branch1', [entry]));
+    await step(trace, repository.transactions.logEntries('branch1', [entry]));
+  }));
+
+  it('on write-offs', () => expectParity(WAREHOUSE, async (repository, trace) => {
+    await step(trace, repository.transactions.writeOff('s-wh-cups', 7, 'expired', 'Past date'));
+    await step(trace, repository.transactions.writeOff('s-wh-lids', 2, 'damaged', undefined, 's-wh-lids-lot1'));
+    await step(trace, repository.transactions.writeOff('s-wh-cups', 4, 'spoiled', undefined, 's-wh-cups-lot2'));
+    await step(trace, repository.transactions.writeOff('s-wh-cups', 0, 'other'));
+    await step(trace, repository.transactions.writeOff('s-wh-lids', 19, 'other'));
+    await step(trace, repository.transactions.writeOff('s-wh-lids', 1, 'stolen' as 'other'));
+    await step(trace, repository.transactions.writeOff('s-wh-lids', 1, 'other', undefined, 's-wh-cups-lot2'));
+    await step(trace, repository.transactions.writeOff('s-b1-cups', 1, 'damaged'));
+  }));
+
+  it('on average cost through receipts and a transfer', () => expectParity(WAREHOUSE, async (repository, trace) => {
+    await step(trace, repository.transactions.logEntries('warehouse', [
+      { type: 'receive', itemId: 's-wh-lids', quantity: 10, unitCost: 2 },
+      { type: 'receive', itemId: 's-wh-lids', quantity: 10, unitCost: 3 },
+      { type: 'receive', itemId: 's-wh-lids', quantity: 5 },
+      { type: 'usage', itemId: 's-wh-lids', quantity: 4 }
+    ]));
+    await step(trace, repository.transactions.logEntries('warehouse', [{ type: 'receive', itemId: 's-wh-lids', quantity: 1, unitCost: -1 }]));
+    const [tx] = (await step(trace, repository.transactions.createTransfer('warehouse', 'branch2', [{ itemId: 's-wh-lids', quantity: 8 }]))) as Transaction[];
+
+    repository.signIn(BRANCH_2);
+    await step(trace, repository.transactions.receiveTransfer(tx.id, { receivedQuantity: 6, reason: 'Damaged', shortfallAction: 'return' }));
+  }));
+});
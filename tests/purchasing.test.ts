@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { CUPS, LIDS, WAREHOUSE, BRANCH_1, createFixture, expectFailure, itemAt, lotsAt } from './fixtures';
+
+// Suppliers, purchase orders and goods-received notes (section 12 of supabase_schema.sql):
+//   draft --order--> ordered --receive--> partially_received --receive--> received
+
+const orderLids = async (quantity = 10) => {
+  const repository = createFixture(WAREHOUSE);
+  const supplier = await repository.purchasing.createSupplier({ name: 'Packaging Co' });
+  const po = await repository.purchasing.createOrder({
+    supplierId: supplier.id, orderDate: '2026-03-01', lines: [{ productId: LIDS.id, quantity }]
+  }, WAREHOUSE.name);
+  return { repository, supplier, po };
+};
+
+describe('purchase orders', () => {
+  it('are drafted with their supplier and lines, and edited only as drafts', async () => {
+    const { repository, supplier, po } = await orderLids();
+    expect(po).toMatchObject({ poNumber: 'PO-00001', status: 'draft', supplierName: 'Packaging Co', createdBy: WAREHOUSE.name });
+    expect(po.lines.map(l => [l.itemNameEn, l.quantity, l.receivedQuantity])).toEqual([['Lids', 10, 0]]);
+
+    const edited = await repository.purchasing.updateOrder(po.id, {
+      supplierId: supplier.id, orderDate: '2026-03-02', lines: [{ productId: CUPS.id, quantity: 5 }]
+    });
+    expect(edited.lines.map(l => [l.itemNameEn, l.quantity])).toEqual([['Cups', 5]]);
+
+    await repository.purchasing.setOrderStatus(po.id, 'ordered');
+    await expectFailure(repository.purchasing.updateOrder(po.id, {
+      supplierId: supplier.id, orderDate: '2026-03-02', lines: [{ productId: CUPS.id, quantity: 6 }]
+    }), 'invalid');
+    await repository.purchasing.deleteOrder(po.id);
+    expect(await repository.purchasing.fetchOrders([po.id])).toHaveLength(1);
+    await expectFailure(repository.purchasing.deleteSupplier(supplier.id), 'in_use');
+  });
+
+  it('are received over several deliveries, each line a lot of its own in the warehouse', async () => {
+    const { repository, po } = await orderLids();
+    const [line] = po.lines;
+    await expectFailure(repository.purchasing.receiveOrder(po.id, [{ lineId: line.id, quantity: 4 }]), 'invalid');
+    await repository.purchasing.setOrderStatus(po.id, 'ordered');
+
+    const grn = await repository.purchasing.receiveOrder(po.id, [
+      { lineId: line.id, quantity: 4, lotNumber: 'L1', expirationDate: '2027-01-01', unitCost: 2 }
+    ], ' First drop ');
+    expect(grn).toMatchObject({ grnNumber: 'GRN-00001', receivedBy: WAREHOUSE.name, notes: 'First drop' });
+    const [tx] = await repository.transactions.byIds([grn.lines[0].transactionId!]);
+    expect(tx).toMatchObject({ type: 'receive', fromLocation: 'Packaging Co', toLocation: 'warehouse', quantity: 4, notes: 'GRN-00001 / PO-00001' });
+    expect((await repository.purchasing.fetchOrders([po.id]))[0].status).toBe('partially_received');
+
+    await expectFailure(repository.purchasing.receiveOrder(po.id, [{ lineId: line.id, quantity: 7 }]), 'invalid');
+    await repository.purchasing.receiveOrder(po.id, [{ lineId: line.id, quantity: 6 }]);
+    expect((await repository.purchasing.fetchOrders([po.id]))[0].status).toBe('received');
+    expect(await lotsAt(repository, 'warehouse', LIDS)).toEqual([['L1', 4], [undefined, 26]]);
+    expect((await itemAt(repository, 'warehouse', LIDS))?.averageCost).toBe(2);
+  });
+
+  it('are received by the warehouse only', async () => {
+    const { repository, po } = await orderLids();
+    await repository.purchasing.setOrderStatus(po.id, 'ordered');
+    repository.signIn(BRANCH_1);
+    await expectFailure(repository.purchasing.receiveOrder(po.id, [{ lineId: po.lines[0].id, quantity: 1 }]), 'forbidden');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe, StockTakeLine } from '../types';
+import { canProduce, planProduction } from '../services/recipeService';
+import { getActualUsage } from '../services/stockTakeService';
+import { CUPS, LIDS, WAREHOUSE, createFixture, expectFailure, quantityAt } from './fixtures';
+
+// Production logged from recipes (recipe_id on log_stock_entries() in supabase_schema.sql), and the
+// theoretical vs actual usage a stock-take compares
+
+const COFFEE_TO_GO: Recipe = {
+  id: 'r-coffee',
+  nameEn: 'Coffee to go',
+  nameAr: 'قهوة سفري',
+  yieldUnit: 'cups',
+  ingredients: [
+    { productId: CUPS.id, itemNameEn: CUPS.nameEn, itemNameAr: CUPS.nameAr, unit: CUPS.unit, quantity: 1 },
+    { productId: LIDS.id, itemNameEn: LIDS.nameEn, itemNameAr: LIDS.nameAr, unit: LIDS.unit, quantity: 1.1 }
+  ]
+};
+
+describe('production', () => {
+  it('scales the recipe to the batch and checks it against the stock on hand', async () => {
+    const repository = createFixture(WAREHOUSE);
+    const items = (await repository.items.list()).filter(i => i.locationId === 'warehouse');
+
+    const batch = planProduction(COFFEE_TO_GO, 3, items);
+    expect(batch.map(l => [l.item?.id, l.quantity])).toEqual([['s-wh-cups', 3], ['s-wh-lids', 3.3]]);
+    expect(canProduce(batch)).toBe(true);
+
+    expect(canProduce(planProduction(COFFEE_TO_GO, 11, items))).toBe(false);
+    // Branch 1 does not stock lids
+    const branchItems = (await repository.items.list()).filter(i => i.locationId === 'branch1');
+    expect(planProduction(COFFEE_TO_GO, 1, branchItems)[1].item).toBeUndefined();
+    expect(canProduce(planProduction(COFFEE_TO_GO, 1, branchItems))).toBe(false);
+  });
+
+  it('posts a batch as usage linked to the recipe, and only usage', async () => {
+    const repository = createFixture(WAREHOUSE, { recipes: [COFFEE_TO_GO] });
+    const items = await repository.items.list();
+    const logged = await repository.transactions.logEntries('warehouse', planProduction(COFFEE_TO_GO, 5, items).map(line => ({
+      type: 'usage' as const, itemId: line.item!.id, quantity: line.quantity, recipeId: COFFEE_TO_GO.id
+    })));
+
+    expect(logged.map(tx => [tx.type, tx.productId, tx.quantity, tx.recipeId])).toEqual([
+      ['usage', CUPS.id, 5, COFFEE_TO_GO.id],
+      ['usage', LIDS.id, 5.5, COFFEE_TO_GO.id]
+    ]);
+    expect(await quantityAt(repository, 'warehouse', LIDS)).toBe(14.5);
+
+    await expectFailure(repository.transactions.logEntries('warehouse', [
+      { type: 'receive', itemId: 's-wh-cups', quantity: 5, recipeId: COFFEE_TO_GO.id }
+    ]), 'invalid');
+    await expectFailure(repository.transactions.logEntries('warehouse', [
+      { type: 'usage', itemId: 's-wh-cups', quantity: 1, recipeId: 'r-missing' }
+    ]), 'not_found');
+  });
+});
+
+describe('recipes', () => {
+  it('are saved with catalog details, keep their names unique, and leave posted usage behind when deleted', async () => {
+    const repository = createFixture(WAREHOUSE, { recipes: [COFFEE_TO_GO] });
+    const draft = { nameEn: 'Iced coffee', yieldUnit: 'cups', ingredients: [{ productId: LIDS.id, quantity: 1 }, { productId: CUPS.id, quantity: 1 }] };
+    const created = await repository.recipes.create(draft);
+    expect(created).toMatchObject({ nameAr: 'Iced coffee', yieldUnit: 'cups' });
+    expect(created.ingredients.map(i => i.itemNameEn)).toEqual(['Cups', 'Lids']);
+
+    await expectFailure(repository.recipes.create({ ...draft, nameEn: 'COFFEE TO GO' }), 'conflict');
+    await expectFailure(repository.recipes.update(created.id, { ...draft, ingredients: [{ productId: CUPS.id, quantity: 0 }] }), 'invalid');
+    const updated = await repository.recipes.update(created.id, { ...draft, ingredients: [{ productId: CUPS.id, quantity: 2 }] });
+    expect(updated.ingredients.map(i => [i.productId, i.quantity])).toEqual([[CUPS.id, 2]]);
+
+    const [usage] = await repository.transactions.logEntries('warehouse', [{ type: 'usage', itemId: 's-wh-cups', quantity: 2, recipeId: created.id }]);
+    await repository.recipes.remove(created.id);
+    expect((await repository.recipes.list()).map(r => r.id)).toEqual([COFFEE_TO_GO.id]);
+    const [kept] = await repository.transactions.byIds([usage.id]);
+    expect(kept.recipeId).toBeUndefined();
+  });
+});
+
+describe('theoretical vs actual usage', () => {
+  const line: StockTakeLine = {
+    id: 'l1',
+    productId: LIDS.id,
+    itemNameEn: LIDS.nameEn,
+    itemNameAr: LIDS.nameAr,
+    unit: LIDS.unit,
+    expectedQuantity: 40,
+    loggedUsage: 60,
+    productionUsage: 55
+  };
+
+  it('adds what the count is short of to the usage that was logged', () => {
+    expect(getActualUsage(line)).toBeUndefined();
+    expect(getActualUsage({ ...line, countedQuantity: 36 })).toBe(64);
+    expect(getActualUsage({ ...line, countedQuantity: 41 })).toBe(59);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { findItemByCode, findProductByCode } from '../services/scanService';
+import { CUPS, LIDS, WAREHOUSE, createFixture } from './fixtures';
+
+// Matching scanned codes to stock: product barcodes, or the SKU printed on our own labels
+
+describe('scanned codes', () => {
+  it('finds the item by barcode or SKU, ignoring case and surrounding spaces', async () => {
+    const repository = createFixture(WAREHOUSE);
+    const items = (await repository.items.list()).map(i => i.id === 's-wh-cups' ? { ...i, barcode: '6281001234567' } : i);
+
+    expect(findItemByCode(items, ' 6281001234567 ')?.id).toBe('s-wh-cups');
+    expect(findItemByCode(items, LIDS.sku.toLowerCase())?.id).toBe('s-wh-lids');
+    expect(findItemByCode(items, '0000000000000')).toBeUndefined();
+    expect(findItemByCode(items, '  ')).toBeUndefined();
+  });
+
+  it('finds catalog products the location does not stock', () => {
+    expect(findProductByCode([CUPS, { ...LIDS, barcode: 'LID-01' }], 'lid-01')?.id).toBe(LIDS.id);
+  });
+});
@@ -0,0 +1,68 @@
+import { PGlite } from '@electric-sql/pglite';
+import { pgcrypto } from '@electric-sql/pglite/contrib/pgcrypto';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+
+// Stands in for services/supabase.ts in tests that run against supabase_schema.sql under PGlite
+// (see schemaFixtures.ts). Only supabase.rpc() is served: it calls the function as the signed-in
+// user, with the role and JWT claims PostgREST would set, and answers in PostgREST's shape.
+
+export const supabaseUrl = 'http://localhost';
+export const supabaseKey = 'schema-tests';
+
+export const schema: { db?: PGlite, userId?: string } = {};
+
+// Dates stay as the text PostgREST sends
+const asText = (value: string) => value;
+
+export const openSchema = async (sql: string) => {
+  const db = new PGlite({
+    extensions: { pgcrypto, uuid_ossp },
+    parsers: { 1082: asText, 1114: asText, 1184: asText }
+  });
+  await db.exec('CREATE SCHEMA IF NOT EXISTS extensions; CREATE ROLE anon; CREATE ROLE authenticated; CREATE ROLE service_role;');
+  await db.exec(sql);
+  schema.db = db;
+  return db;
+};
+
+// jsonb arguments are sent as JSON, like PostgREST receives them
+const toParameter = (value: unknown) => value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+
+const callFunction = async (db: PGlite, name: string, args: Record<string, unknown>) => {
+  const { rows: [shape] } = await db.query<{ returnsSet: boolean, returnsRow: boolean, returnsVoid: boolean }>(
+    `SELECT p.proretset AS "returnsSet", t.typtype = 'c' AS "returnsRow", t.typname = 'void' AS "returnsVoid"
+     FROM pg_proc p JOIN pg_type t ON t.oid = p.prorettype
+     WHERE p.proname = $1 AND p.pronamespace = 'public'::regnamespace`, [name]);
+  if (!shape) throw new Error(`Unknown function ${name}`);
+
+  const names = Object.keys(args);
+  const call = `public.${name}(${names.map((arg, index) => `${arg} => $${index + 1}`).join(', ')})`;
+  const parameters = names.map(arg => toParameter(args[arg]));
+  if (shape.returnsSet) return (await db.query(`SELECT * FROM ${call}`, parameters)).rows;
+  if (shape.returnsRow) return (await db.query(`SELECT * FROM ${call}`, parameters)).rows[0] ?? null;
+  const { rows: [row] } = await db.query<{ value: unknown }>(`SELECT ${call} AS value`, parameters);
+  return shape.returnsVoid ? null : row.value;
+};
+
+// Each call runs in a savepoint, so a failed call leaves the test's transaction usable
+const rpc = async (name: string, args: Record<string, unknown> = {}) => {
+  const db = schema.db!;
+  await db.exec('SAVEPOINT rpc; SET LOCAL ROLE authenticated;');
+  try {
+    await db.query(`SELECT set_config('request.jwt.claims', $1, true)`, [JSON.stringify({ role: 'authenticated', sub: schema.userId })]);
+    const data = await callFunction(db, name, args);
+    await db.exec('RESET ROLE; RELEASE SAVEPOINT rpc;');
+    return { data, error: null };
+  } catch (error) {
+    await db.exec('ROLLBACK TO SAVEPOINT rpc; RELEASE SAVEPOINT rpc;');
+    return { data: null, error };
+  }
+};
+
+const unsupported = () => {
+  throw new Error('Schema tests only call RPCs');
+};
+
+export const supabase = { rpc, from: unsupported, channel: unsupported, removeChannel: unsupported };
+
+export const setSessionToken = () => {};
@@ -0,0 +1,120 @@
+import { readFileSync } from 'fs';
+import { Transaction, User } from '../types';
+import { MemorySeed } from '../services/memoryRepository';
+import { ItemRepository, TransactionRepository } from '../services/repository';
+import { supabaseRepository } from '../services/supabaseRepository';
+import { mapStockItem } from '../services/catalogService';
+import { WAREHOUSE, fixtureSeed } from './fixtures';
+import { openSchema, schema } from './schemaClient';
+
+// The fixture of fixtures.ts loaded into supabase_schema.sql under PGlite. Stock moves through
+// supabaseRepository, so the services' RPC calls and the plpgsql behind them are what runs. Test
+// files using it mock services/supabase.ts with schemaClient.ts.
+//
+// Each fixture is one transaction, rolled back by rollbackSchemaFixture(). Ids in the database are
+// uuids; the fixture's ids are translated on the way in and out, so tests use the same ids as
+// with the memory repository.
+
+// What both repositories are driven through in parity.test.ts
+export type StockRepository = {
+  signIn(user: User): void;
+  items: Pick<ItemRepository, 'list'>;
+  transactions: Pick<TransactionRepository,
+    'createTransfer' | 'confirmTransfer' | 'receiveTransfer' | 'rejectTransfer' | 'cancelTransfer' | 'logEntries' | 'writeOff'>;
+};
+
+// Loading the schema takes a while, so a test file does it once
+export const loadSchema = () => openSchema(readFileSync(new URL('../supabase_schema.sql', import.meta.url), 'utf8'));
+
+export const createSchemaFixture = async (user: User = WAREHOUSE, extra: Partial<MemorySeed> = {}): Promise<StockRepository> => {
+  const db = schema.db!;
+  const seed = fixtureSeed(user, extra);
+  const databaseIds = new Map<string, string>();
+  const fixtureIds = new Map<string, string>();
+  const assign = (fixtureId: string) => {
+    const id = crypto.randomUUID();
+    databaseIds.set(fixtureId, id);
+    fixtureIds.set(id, fixtureId);
+    return id;
+  };
+  const toDatabase = (id: string) => databaseIds.get(id) ?? id;
+  const toFixture = (id: string) => fixtureIds.get(id) ?? id;
+  const fromDatabase = (tx: Transaction): Transaction => ({ ...tx, productId: tx.productId && toFixture(tx.productId) });
+
+  await db.exec('BEGIN');
+  for (const location of seed.locations || []) {
+    await db.query(
+      `INSERT INTO public.locations (id, name, description, icon, type) VALUES ($1, $2, $3, $4, $5) ON CONFLICT (id) DO NOTHING`,
+      [location.id, location.name, location.description, location.icon, location.type]);
+  }
+  for (const u of seed.users || [seed.user]) {
+    // Usernames are prefixed: the schema seeds its own admin and warehouse users
+    await db.query(
+      `INSERT INTO public.app_users (id, username, password, name, role, branch_code, branch_name, accessible_branches)
+       VALUES ($1, $2, 'secret', $3, $4, $5, $6, $7)`,
+      [assign(u.id), `fixture_${u.username}`, u.name, u.role, u.branchCode ?? null, u.branchName ?? null, u.accessibleBranches ?? null]);
+  }
+  for (const product of seed.products || []) {
+    await db.query(
+      `INSERT INTO public.products (id, name_en, name_ar, category, unit) VALUES ($1, $2, $3, $4, $5)`,
+      [assign(product.id), product.nameEn, product.nameAr, product.category, product.unit]);
+  }
+  // Lots are inserted as given, so the trigger that files direct quantity edits into lots stands aside
+  await db.query(`SELECT set_config('app.stock_movement', 'on', true)`);
+  for (const item of seed.items || []) {
+    await db.query(
+      `INSERT INTO public.stock (id, location_id, product_id, quantity, min_threshold, expiration_date, average_cost, last_updated)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [assign(item.id), item.locationId, toDatabase(item.productId!), item.quantity, item.minThreshold,
+       item.expirationDate ?? null, item.averageCost ?? null, item.lastUpdated]);
+    for (const lot of item.lots || []) {
+      await db.query(
+        `INSERT INTO public.stock_lots (id, stock_id, lot_number, quantity, expiration_date, received_at) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [assign(lot.id), toDatabase(item.id), lot.lotNumber ?? null, lot.quantity, lot.expirationDate ?? null, lot.receivedAt]);
+    }
+  }
+  await db.query(`SELECT set_config('app.stock_movement', '', true)`);
+  schema.userId = toDatabase(seed.user.id);
+
+  const transactions = supabaseRepository.transactions;
+  return {
+    signIn: u => {
+      schema.userId = toDatabase(u.id);
+    },
+
+    items: {
+      // The fixture's products at every location, leaving out the sample stock the schema seeds
+      list: async () => {
+        const { rows } = await db.query(
+          `SELECT s.*, to_jsonb(p) AS product,
+                  coalesce((SELECT jsonb_agg(l) FROM public.stock_lots l WHERE l.stock_id = s.id), '[]'::jsonb) AS lots
+           FROM public.stock s JOIN public.products p ON p.id = s.product_id
+           WHERE p.id = ANY($1::uuid[])`, [(seed.products || []).map(product => toDatabase(product.id))]);
+        return rows.map(mapStockItem).map(item => ({
+          ...item,
+          id: toFixture(item.id),
+          productId: item.productId && toFixture(item.productId),
+          lots: item.lots?.map(lot => ({ ...lot, id: toFixture(lot.id) }))
+        }));
+      }
+    },
+
+    transactions: {
+      createTransfer: async (fromLocation, toLocation, items) =>
+        (await transactions.createTransfer(fromLocation, toLocation, items.map(i => ({ ...i, itemId: toDatabase(i.itemId) }))))
+          .map(fromDatabase),
+      confirmTransfer: async transactionId => fromDatabase(await transactions.confirmTransfer(transactionId)),
+      receiveTransfer: async (transactionId, receipt) => fromDatabase(await transactions.receiveTransfer(transactionId, receipt)),
+      rejectTransfer: async (transactionId, reason) => fromDatabase(await transactions.rejectTransfer(transactionId, reason)),
+      cancelTransfer: async transactionId => fromDatabase(await transactions.cancelTransfer(transactionId)),
+      logEntries: async (locationId, entries) =>
+        (await transactions.logEntries(locationId, entries.map(e => ({ ...e, itemId: toDatabase(e.itemId) })))).map(fromDatabase),
+      writeOff: async (itemId, quantity, reasonCode, notes, lotId) =>
+        fromDatabase(await transactions.writeOff(toDatabase(itemId), quantity, reasonCode, notes, lotId && toDatabase(lotId)))
+    }
+  };
+};
+
+export const rollbackSchemaFixture = async () => {
+  await schema.db?.exec('ROLLBACK');
+};
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { OutboxEntry } from '../types';
+import { applyPendingEntries, uploadOutboxEntries } from '../services/outboxService';
+import { BRANCH_1, BRANCH_2, CUPS, WAREHOUSE, createFixture, expectFailure, lotsAt, quantityAt } from './fixtures';
+
+// Usage and receipts logged in batches (log_stock_entries() in supabase_schema.sql), as the usage
+// modal and the offline outbox send them
+
+describe('logging usage and receipts', () => {
+  it('applies a mixed batch in order, usage taking the first-expiring lots', async () => {
+    const repository = createFixture(BRANCH_1);
+    const logged = await repository.transactions.logEntries('branch1', [
+      { type: 'receive', itemId: 's-b1-cups', quantity: 5, lotNumber: ' C ', expirationDate: '2026-10-25' },
+      { type: 'usage', itemId: 's-b1-cups', quantity: 3, notes: 'Morning shift' },
+      { type: 'receive', itemId: 's-b1-cups', quantity: 4 }
+    ]);
+
+    expect(logged.map(tx => [tx.type, tx.fromLocation, tx.toLocation, tx.quantity])).toEqual([
+      ['receive', 'External Supplier', 'branch1', 5],
+      ['usage', 'branch1', 'Consumed', 3],
+      ['receive', 'External Supplier', 'branch1', 4]
+    ]);
+    expect(logged[1].lots.map(lot => [lot.lotNumber, lot.quantity])).toEqual([['C', 3]]);
+    expect(await lotsAt(repository, 'branch1', CUPS)).toEqual([['C', 2], ['A', 2], [undefined, 4]]);
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(8);
+  });
+
+  it('logs nothing when one entry of the batch fails', async () => {
+    const repository = createFixture(BRANCH_1);
+    await expectFailure(repository.transactions.logEntries('branch1', [
+      { type: 'receive', itemId: 's-b1-cups', quantity: 5 },
+      { type: 'usage', itemId: 's-b1-cups', quantity: 8 }
+    ]), 'invalid');
+
+    expect(await lotsAt(repository, 'branch1', CUPS)).toEqual([['A', 2]]);
+    expect((await repository.transactions.history({})).transactions).toEqual([]);
+  });
+
+  it('refuses entries that cannot be logged', async () => {
+    const repository = createFixture(BRANCH_1);
+    await expectFailure(repository.transactions.logEntries('branch1', []), 'invalid');
+    await expectFailure(repository.transactions.logEntries('branch1', [{ type: 'usage', itemId: 's-b1-cups', quantity: -1 }]), 'invalid');
+    await expectFailure(repository.transactions.logEntries('branch1', [{ type: 'usage', itemId: 's-wh-cups', quantity: 1 }]), 'not_found');
+    await expectFailure(repository.transactions.logEntries('warehouse', [{ type: 'usage', itemId: 's-wh-cups', quantity: 1 }]), 'forbidden');
+  });
+
+  it('logs a retried entry once', async () => {
+    const repository = createFixture(BRANCH_1);
+    const entry = { type: 'usage' as const, itemId: 's-b1-cups', quantity: 1, idempotencyKey: 'key-1' };
+    const [first] = await repository.transactions.logEntries('branch1', [entry]);
+    const [again] = await repository.transactions.logEntries('branch1', [entry]);
+
+    expect(again.id).toBe(first.id);
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(1);
+
+    repository.signIn(BRANCH_2);
+    await expectFailure(repository.transactions.logEntries('branch2', [entry]), 'conflict');
+  });
+
+  it('keeps the time an entry was logged offline, but never a future one', async () => {
+    const repository = createFixture(WAREHOUSE);
+    const [past, future] = await repository.transactions.logEntries('warehouse', [
+      { type: 'usage', itemId: 's-wh-lids', quantity: 1, loggedAt: '2026-02-01T08:00:00.000Z' },
+      { type: 'usage', itemId: 's-wh-lids', quantity: 1, loggedAt: '2999-01-01T00:00:00.000Z' }
+    ]);
+
+    expect(past.date).toBe('2026-02-01T08:00:00.000Z');
+    expect(future.date < '2999-01-01').toBe(true);
+  });
+});
+
+describe('the offline outbox', () => {
+  const queued = (id: string, type: 'usage' | 'receive', quantity: number, expectedQuantity = 2): OutboxEntry => ({
+    id,
+    batchId: 'batch-1',
+    userId: BRANCH_1.id,
+    locationId: 'branch1',
+    type,
+    itemId: 's-b1-cups',
+    productId: CUPS.id,
+    itemNameEn: CUPS.nameEn,
+    itemNameAr: CUPS.nameAr,
+    quantity,
+    unit: CUPS.unit,
+    expectedQuantity,
+    performedBy: BRANCH_1.name,
+    loggedAt: '2026-02-01T08:00:00.000Z',
+    status: 'pending'
+  });
+
+  it('shows queued entries on top of the stock read from the server', async () => {
+    const repository = createFixture(BRANCH_1);
+    const items = await repository.items.list();
+    const inventory = { branch1: items.filter(i => i.locationId === 'branch1') };
+
+    const next = applyPendingEntries(inventory, [
+      queued('e1', 'receive', 5),
+      queued('e2', 'usage', 3),
+      { ...queued('e3', 'usage', 50), status: 'conflict' }
+    ]);
+
+    expect(next.branch1[0].quantity).toBe(4);
+    expect(inventory.branch1[0].quantity).toBe(2);
+  });
+
+  it('uploads a batch once, however often it is retried', async () => {
+    const repository = createFixture(BRANCH_1);
+    const batch = [queued('e1', 'receive', 5), queued('e2', 'usage', 3, 7)];
+
+    const first = await uploadOutboxEntries(batch, repository.transactions.logEntries);
+    const retried = await uploadOutboxEntries(batch, repository.transactions.logEntries);
+
+    expect(retried.map(tx => tx.id)).toEqual(first.map(tx => tx.id));
+    expect(first.every(tx => tx.date === '2026-02-01T08:00:00.000Z')).toBe(true);
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(4);
+  });
+
+  it('surfaces a refused batch as a server rejection, so its entries are retried one by one', async () => {
+    const repository = createFixture(BRANCH_1);
+    const batch = [queued('e1', 'usage', 1), queued('e2', 'usage', 5, 1)];
+
+    await expect(uploadOutboxEntries(batch, repository.transactions.logEntries)).rejects.toMatchObject({ code: '23514' });
+    expect(await uploadOutboxEntries([batch[0]], repository.transactions.logEntries)).toHaveLength(1);
+    await expectFailure(uploadOutboxEntries([batch[1]], repository.transactions.logEntries), 'invalid');
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(1);
+  });
+
+  it('refuses an entry as a conflict when the stock has moved on since it was logged', async () => {
+    const repository = createFixture(BRANCH_1);
+    await repository.transactions.logEntries('branch1', [{ type: 'usage', itemId: 's-b1-cups', quantity: 1 }]);
+
+    const stale = queued('e1', 'usage', 1);
+    await expectFailure(uploadOutboxEntries([stale], repository.transactions.logEntries), 'conflict');
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(1);
+
+    expect(await uploadOutboxEntries([{ ...stale, expectedQuantity: 1 }], repository.transactions.logEntries)).toHaveLength(1);
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(0);
+  });
+});
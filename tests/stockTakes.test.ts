@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { CUPS, BRANCH_1, BRANCH_2, createFixture, expectFailure, lotsAt, quantityAt } from './fixtures';
+
+// Physical counts (section 13 of supabase_schema.sql):
+//   counting --submit--> submitted --approve--> approved
+//   counting / submitted --cancel--> cancelled
+
+describe('stock-takes', () => {
+  it('snapshot the stock and post the counted variance as an adjustment on approval', async () => {
+    const repository = createFixture(BRANCH_1);
+    await repository.transactions.logEntries('branch1', [{ type: 'usage', itemId: 's-b1-cups', quantity: 1 }]);
+    const started = await repository.stockTakes.start('branch1', ' Monthly ');
+    expect(started).toMatchObject({ stockTakeNumber: 'ST-00001', status: 'counting', notes: 'Monthly', startedBy: BRANCH_1.name });
+    const [line] = started.lines;
+    expect(line).toMatchObject({ productId: CUPS.id, expectedQuantity: 1, loggedUsage: 1, productionUsage: 0 });
+
+    await expectFailure(repository.stockTakes.start('branch1'), 'invalid');
+    await expectFailure(repository.stockTakes.submit(started.id), 'invalid');
+    await expectFailure(repository.stockTakes.recordCounts(started.id, [{ lineId: line.id, countedQuantity: -1 }]), 'invalid');
+    await repository.stockTakes.recordCounts(started.id, [{ lineId: line.id, countedQuantity: 4 }]);
+    await repository.stockTakes.submit(started.id);
+    await expectFailure(repository.stockTakes.recordCounts(started.id, [{ lineId: line.id, countedQuantity: 5 }]), 'invalid');
+
+    const approved = await repository.stockTakes.approve(started.id);
+    expect(approved.status).toBe('approved');
+    const [adjustment] = await repository.transactions.byIds([approved.lines[0].transactionId!]);
+    expect(adjustment).toMatchObject({ type: 'adjustment', toLocation: 'branch1', quantity: 3, notes: 'ST-00001' });
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(4);
+    expect(await lotsAt(repository, 'branch1', CUPS)).toEqual([['A', 1], [undefined, 3]]);
+  });
+
+  it('are counted only by the location, and cancelled without touching stock', async () => {
+    const repository = createFixture(BRANCH_1);
+    const started = await repository.stockTakes.start('branch1');
+
+    repository.signIn(BRANCH_2);
+    await expectFailure(repository.stockTakes.start('branch1'), 'forbidden');
+    await expectFailure(repository.stockTakes.cancel(started.id), 'forbidden');
+
+    repository.signIn(BRANCH_1);
+    await repository.stockTakes.recordCounts(started.id, [{ lineId: started.lines[0].id, countedQuantity: 0 }]);
+    expect((await repository.stockTakes.cancel(started.id)).status).toBe('cancelled');
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(2);
+  });
+});
@@ -0,0 +1,391 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryRepository } from '../services/memoryRepository';
+import { formatTransferDocumentCode, parseTransferDocumentCode } from '../services/transferService';
+import { BRANCH_1, BRANCH_2, CUPS, LIDS, WAREHOUSE, createFixture, expectFailure, lotsAt, quantityAt } from './fixtures';
+
+// The transfer workflow (section 11 of supabase_schema.sql), against the in-memory repository:
+//   pending_source --confirm--> pending_target --receive--> completed
+//   either pending state --reject / cancel--> rejected / cancelled
+
+const dispatchCups = async (repository: MemoryRepository, quantity = 7) => {
+  repository.signIn(WAREHOUSE);
+  const [tx] = await repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-cups', quantity }]);
+  return tx;
+};
+
+const requestCups = async (repository: MemoryRepository, quantity = 7) => {
+  repository.signIn(BRANCH_1);
+  const [tx] = await repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-cups', quantity }]);
+  return tx;
+};
+
+describe('creating a transfer', () => {
+  it('dispatches at once when the source sends it, taking the first-expiring lots', async () => {
+    const repository = createFixture();
+    const tx = await dispatchCups(repository);
+
+    expect(tx.status).toBe('pending_target');
+    expect(tx.performedBy).toBe(WAREHOUSE.name);
+    expect(tx.lots).toEqual([
+      { lotNumber: 'A', expirationDate: '2026-11-01', quantity: 6 },
+      { lotNumber: 'B', expirationDate: '2026-12-01', quantity: 1 }
+    ]);
+    expect(await lotsAt(repository, 'warehouse', CUPS)).toEqual([['B', 3]]);
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(2);
+  });
+
+  it('waits for the source when the destination requests it, moving nothing', async () => {
+    const repository = createFixture();
+    const tx = await requestCups(repository);
+
+    expect(tx.status).toBe('pending_source');
+    expect(tx.lots).toEqual([]);
+    expect(await quantityAt(repository, 'warehouse', CUPS)).toBe(10);
+  });
+
+  it('groups the lines of one transfer', async () => {
+    const repository = createFixture();
+    const created = await repository.transactions.createTransfer('warehouse', 'branch1', [
+      { itemId: 's-wh-cups', quantity: 3 },
+      { itemId: 's-wh-lids', quantity: 5 }
+    ]);
+
+    expect(created).toHaveLength(2);
+    expect(new Set(created.map(tx => tx.transferGroupId)).size).toBe(1);
+    expect(await quantityAt(repository, 'warehouse', LIDS)).toBe(15);
+
+    // A second transfer in the same instant gets a group of its own
+    const [next] = await repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-cups', quantity: 1 }]);
+    expect(next.transferGroupId).not.toBe(created[0].transferGroupId);
+  });
+
+  it('creates nothing when one line cannot be sent', async () => {
+    const repository = createFixture();
+    await expectFailure(repository.transactions.createTransfer('warehouse', 'branch1', [
+      { itemId: 's-wh-cups', quantity: 3 },
+      { itemId: 's-wh-lids', quantity: 21 }
+    ]), 'invalid');
+
+    expect(await quantityAt(repository, 'warehouse', CUPS)).toBe(10);
+    expect(await quantityAt(repository, 'warehouse', LIDS)).toBe(20);
+    expect((await repository.transactions.pending()).length).toBe(0);
+  });
+
+  it('refuses bad lines and users with no part in the transfer', async () => {
+    const repository = createFixture();
+    await expectFailure(repository.transactions.createTransfer('warehouse', 'warehouse', [{ itemId: 's-wh-cups', quantity: 1 }]), 'invalid');
+    await expectFailure(repository.transactions.createTransfer('warehouse', 'branch1', []), 'invalid');
+    await expectFailure(repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-cups', quantity: 0 }]), 'invalid');
+    await expectFailure(repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-b1-cups', quantity: 1 }]), 'not_found');
+
+    repository.signIn(BRANCH_2);
+    await expectFailure(repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-cups', quantity: 1 }]), 'forbidden');
+  });
+});
+
+describe('confirming a requested transfer', () => {
+  it('moves it to pending_target and deducts the source', async () => {
+    const repository = createFixture();
+    const requested = await requestCups(repository);
+
+    repository.signIn(WAREHOUSE);
+    const tx = await repository.transactions.confirmTransfer(requested.id);
+
+    expect(tx.status).toBe('pending_target');
+    expect(tx.lots.map(lot => lot.quantity)).toEqual([6, 1]);
+    expect(await lotsAt(repository, 'warehouse', CUPS)).toEqual([['B', 3]]);
+  });
+
+  it('is only done by the source, once', async () => {
+    const repository = createFixture();
+    const requested = await requestCups(repository);
+    await expectFailure(repository.transactions.confirmTransfer(requested.id), 'forbidden');
+
+    repository.signIn(WAREHOUSE);
+    await repository.transactions.confirmTransfer(requested.id);
+    await expectFailure(repository.transactions.confirmTransfer(requested.id), 'invalid');
+    expect(await quantityAt(repository, 'warehouse', CUPS)).toBe(3);
+  });
+
+  it('stays pending_source when the stock ran out in the meantime', async () => {
+    const repository = createFixture();
+    const requested = await requestCups(repository);
+
+    repository.signIn(WAREHOUSE);
+    await repository.transactions.writeOff('s-wh-cups', 5, 'damaged');
+    await expectFailure(repository.transactions.confirmTransfer(requested.id), 'invalid');
+
+    const [tx] = await repository.transactions.byIds([requested.id]);
+    expect(tx.status).toBe('pending_source');
+    expect(await quantityAt(repository, 'warehouse', CUPS)).toBe(5);
+  });
+});
+
+describe('receiving a transfer', () => {
+  it('completes it and adds the lots that were sent to the destination', async () => {
+    const repository = createFixture();
+    const sent = await dispatchCups(repository);
+
+    repository.signIn(BRANCH_1);
+    const tx = await repository.transactions.receiveTransfer(sent.id);
+
+    expect(tx.status).toBe('completed');
+    expect(tx.receivedQuantity).toBe(7);
+    expect(await lotsAt(repository, 'branch1', CUPS)).toEqual([['A', 8], ['B', 1]]);
+    expect(await quantityAt(repository, 'warehouse', CUPS)).toBe(3);
+  });
+
+  it('returns a shortfall to the source in the lots it left', async () => {
+    const repository = createFixture();
+    const sent = await dispatchCups(repository);
+
+    repository.signIn(BRANCH_1);
+    const tx = await repository.transactions.receiveTransfer(sent.id, { receivedQuantity: 5, reason: 'Short', shortfallAction: 'return' });
+
+    expect(tx).toMatchObject({ status: 'completed', receivedQuantity: 5, discrepancyReason: 'Short', shortfallAction: 'return' });
+    expect(await lotsAt(repository, 'branch1', CUPS)).toEqual([['A', 7]]);
+    expect(await lotsAt(repository, 'warehouse', CUPS)).toEqual([['A', 1], ['B', 4]]);
+  });
+
+  it('records a shortfall written off as a loss, leaving the source as it was', async () => {
+    const repository = createFixture();
+    const sent = await dispatchCups(repository);
+
+    repository.signIn(BRANCH_1);
+    await repository.transactions.receiveTransfer(sent.id, { receivedQuantity: 5, reason: 'Broken in transit', shortfallAction: 'loss' });
+
+    const { transactions } = await repository.transactions.history({});
+    const loss = transactions.find(tx => tx.type === 'loss');
+    expect(loss).toMatchObject({ status: 'completed', quantity: 2, transferGroupId: sent.transferGroupId, notes: 'Broken in transit' });
+    expect(loss?.lots.map(lot => [lot.lotNumber, lot.quantity])).toEqual([['A', 1], ['B', 1]]);
+    expect(await lotsAt(repository, 'warehouse', CUPS)).toEqual([['B', 3]]);
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(7);
+  });
+
+  it('treats a receipt of nothing as a shortfall of everything', async () => {
+    const repository = createFixture();
+    const sent = await dispatchCups(repository);
+
+    repository.signIn(BRANCH_1);
+    await repository.transactions.receiveTransfer(sent.id, { receivedQuantity: 0, reason: 'Never arrived', shortfallAction: 'return' });
+
+    expect(await lotsAt(repository, 'warehouse', CUPS)).toEqual([['A', 6], ['B', 4]]);
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(2);
+  });
+
+  it('refuses a receipt that is out of range or short without a reason', async () => {
+    const repository = createFixture();
+    const sent = await dispatchCups(repository);
+
+    repository.signIn(BRANCH_1);
+    await expectFailure(repository.transactions.receiveTransfer(sent.id, { receivedQuantity: 8, shortfallAction: 'return' }), 'invalid');
+    await expectFailure(repository.transactions.receiveTransfer(sent.id, { receivedQuantity: -1, shortfallAction: 'return' }), 'invalid');
+    await expectFailure(repository.transactions.receiveTransfer(sent.id, { receivedQuantity: 5, reason: '  ', shortfallAction: 'return' }), 'invalid');
+
+    const [tx] = await repository.transactions.byIds([sent.id]);
+    expect(tx.status).toBe('pending_target');
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(2);
+  });
+
+  it('is only done by the destination, once the source has sent it', async () => {
+    const repository = createFixture();
+    const requested = await requestCups(repository);
+    await expectFailure(repository.transactions.receiveTransfer(requested.id), 'invalid');
+
+    repository.signIn(WAREHOUSE);
+    await repository.transactions.confirmTransfer(requested.id);
+    await expectFailure(repository.transactions.receiveTransfer(requested.id), 'forbidden');
+
+    repository.signIn(BRANCH_2);
+    await expectFailure(repository.transactions.receiveTransfer(requested.id), 'forbidden');
+  });
+
+  it('recreates the destination stock when it was deleted while the transfer was on its way', async () => {
+    const repository = createFixture();
+    const sent = await dispatchCups(repository);
+    await repository.items.remove(['s-b1-cups']);
+
+    repository.signIn(BRANCH_1);
+    await repository.transactions.receiveTransfer(sent.id);
+
+    expect(await lotsAt(repository, 'branch1', CUPS)).toEqual([['A', 6], ['B', 1]]);
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(7);
+  });
+});
+
+describe('rejecting a transfer', () => {
+  it('leaves the stock alone when the source rejects a request', async () => {
+    const repository = createFixture();
+    const requested = await requestCups(repository);
+
+    repository.signIn(WAREHOUSE);
+    const tx = await repository.transactions.rejectTransfer(requested.id, ' Not available ');
+
+    expect(tx).toMatchObject({ status: 'rejected', rejectionReason: 'Not available' });
+    expect(await quantityAt(repository, 'warehouse', CUPS)).toBe(10);
+  });
+
+  it('returns deducted stock to the source lots it came from', async () => {
+    const repository = createFixture();
+    const sent = await dispatchCups(repository);
+
+    repository.signIn(BRANCH_1);
+    const tx = await repository.transactions.rejectTransfer(sent.id, 'Damaged');
+
+    expect(tx.status).toBe('rejected');
+    expect(await lotsAt(repository, 'warehouse', CUPS)).toEqual([['A', 6], ['B', 4]]);
+    expect(await quantityAt(repository, 'branch1', CUPS)).toBe(2);
+  });
+
+  it('recreates the source stock when it was deleted after the stock was deducted', async () => {
+    const repository = createFixture();
+    const sent = await dispatchCups(repository);
+    await repository.items.remove(['s-wh-cups']);
+
+    repository.signIn(BRANCH_1);
+    await repository.transactions.rejectTransfer(sent.id, 'Wrong item');
+
+    expect(await lotsAt(repository, 'warehouse', CUPS)).toEqual([['A', 6], ['B', 1]]);
+    expect(await quantityAt(repository, 'warehouse', CUPS)).toBe(7);
+  });
+
+  it('is done by whichever side the transfer waits on, with a reason', async () => {
+    const repository = createFixture();
+    const requested = await requestCups(repository);
+    await expectFailure(repository.transactions.rejectTransfer(requested.id, 'Changed my mind'), 'forbidden');
+
+    const sent = await dispatchCups(repository);
+    await expectFailure(repository.transactions.rejectTransfer(sent.id, 'Not ours to reject'), 'forbidden');
+
+    repository.signIn(BRANCH_1);
+    await expectFailure(repository.transactions.rejectTransfer(sent.id, '  '), 'invalid');
+    expect(await quantityAt(repository, 'warehouse', CUPS)).toBe(3);
+  });
+});
+
+describe('cancelling a transfer', () => {
+  it('returns dispatched stock when the source withdraws it', async () => {
+    const repository = createFixture();
+    const sent = await dispatchCups(repository);
+    const tx = await repository.transactions.cancelTransfer(sent.id);
+
+    expect(tx.status).toBe('cancelled');
+    expect(await lotsAt(repository, 'warehouse', CUPS)).toEqual([['A', 6], ['B', 4]]);
+  });
+
+  it('lets the destination withdraw its own request, but not a dispatched transfer', async () => {
+    const repository = createFixture();
+    const requested = await requestCups(repository);
+    expect((await repository.transactions.cancelTransfer(requested.id)).status).toBe('cancelled');
+
+    const sent = await dispatchCups(repository);
+    repository.signIn(BRANCH_1);
+    await expectFailure(repository.transactions.cancelTransfer(sent.id), 'forbidden');
+  });
+});
+
+describe('finished transfers', () => {
+  const finish = {
+    completed: async (repository: MemoryRepository, id: string) => {
+      repository.signIn(BRANCH_1);
+      await repository.transactions.receiveTransfer(id);
+    },
+    rejected: async (repository: MemoryRepository, id: string) => {
+      repository.signIn(BRANCH_1);
+      await repository.transactions.rejectTransfer(id, 'Damaged');
+    },
+    cancelled: async (repository: MemoryRepository, id: string) => {
+      repository.signIn(WAREHOUSE);
+      await repository.transactions.cancelTransfer(id);
+    }
+  };
+
+  it.each(Object.keys(finish) as (keyof typeof finish)[])('accept no further change once %s', async status => {
+    const repository = createFixture();
+    const sent = await dispatchCups(repository);
+    await finish[status](repository, sent.id);
+    const before = await repository.items.list();
+
+    repository.signIn(WAREHOUSE);
+    await expectFailure(repository.transactions.confirmTransfer(sent.id), 'invalid');
+    await expectFailure(repository.transactions.cancelTransfer(sent.id), 'invalid');
+    repository.signIn(BRANCH_1);
+    await expectFailure(repository.transactions.receiveTransfer(sent.id), 'invalid');
+    await expectFailure(repository.transactions.rejectTransfer(sent.id, 'Too late'), 'invalid');
+
+    const [tx] = await repository.transactions.byIds([sent.id]);
+    expect(tx.status).toBe(status);
+    expect(await repository.items.list()).toEqual(before);
+    expect(await repository.transactions.pending()).toEqual([]);
+  });
+
+  it('are not found under another id', async () => {
+    const repository = createFixture();
+    await expectFailure(repository.transactions.confirmTransfer('missing'), 'not_found');
+  });
+});
+
+describe('transfer documents', () => {
+  it('carry the group and its signature in a code only transfer documents parse as', () => {
+    const code = formatTransferDocumentCode('GRP-6f1c2a9e-8d3b-4c1e-9a2f-3b7d5e0c1a42', 'c2lnbmF0dXJl');
+
+    expect(parseTransferDocumentCode(` ${code} `)).toEqual({ transferGroupId: 'GRP-6f1c2a9e-8d3b-4c1e-9a2f-3b7d5e0c1a42', signature: 'c2lnbmF0dXJl' });
+    expect(parseTransferDocumentCode('6281001234567')).toBeNull();
+    expect(parseTransferDocumentCode('DAWAR-TRANSFER:GRP-6f1c2a9e-8d3b-4c1e-9a2f-3b7d5e0c1a42:')).toBeNull();
+  });
+
+  it('verify for the receiver until received, and flag signatures that do not match', async () => {
+    const repository = createFixture();
+    const sent = await dispatchCups(repository);
+    const signature = await repository.transactions.signTransferDocument(sent.transferGroupId!);
+
+    repository.signIn(BRANCH_1);
+    expect(await repository.transactions.verifyTransferDocument(sent.transferGroupId!, signature)).toBe('valid');
+    expect(await repository.transactions.verifyTransferDocument(sent.transferGroupId!, `${signature.slice(1)}A`)).toBe('tampered');
+
+    await repository.transactions.receiveTransfer(sent.id);
+    expect(await repository.transactions.verifyTransferDocument(sent.transferGroupId!, signature)).toBe('completed');
+
+    repository.signIn(BRANCH_2);
+    await expectFailure(repository.transactions.verifyTransferDocument(sent.transferGroupId!, signature), 'not_found');
+  });
+});
+
+describe('transfer signatures', () => {
+  const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+  it('are given by each side while the transfer waits, and replaced by signing again', async () => {
+    const repository = createFixture();
+    const requested = await requestCups(repository);
+    const groupId = requested.transferGroupId!;
+
+    await expectFailure(repository.transactions.recordTransferSignature(groupId, 'sender', 'Driver', PNG), 'not_found');
+    await expectFailure(repository.transactions.recordTransferSignature(groupId, 'receiver', 'Storekeeper', PNG), 'invalid');
+
+    repository.signIn(WAREHOUSE);
+    await expectFailure(repository.transactions.recordTransferSignature(groupId, 'sender', ' ', PNG), 'invalid');
+    await repository.transactions.recordTransferSignature(groupId, 'sender', 'Driver', PNG);
+    const sender = await repository.transactions.recordTransferSignature(groupId, 'sender', ' Sami ', PNG);
+    expect(sender).toMatchObject({ signerName: 'Sami', signedBy: WAREHOUSE.name });
+    await repository.transactions.confirmTransfer(requested.id);
+    await repository.transactions.recordTransferSignature(groupId, 'sender', 'Sami', PNG);
+
+    repository.signIn(BRANCH_1);
+    await repository.transactions.recordTransferSignature(groupId, 'receiver', 'Storekeeper', PNG);
+    await repository.transactions.receiveTransfer(requested.id);
+    const signatures = await repository.transactions.transferSignatures(groupId);
+    expect(signatures.map(s => [s.role, s.signerName]).sort()).toEqual([['receiver', 'Storekeeper'], ['sender', 'Sami']]);
+    await expectFailure(repository.transactions.recordTransferSignature(groupId, 'receiver', 'Storekeeper', PNG), 'invalid');
+
+    repository.signIn(WAREHOUSE);
+    await expectFailure(repository.transactions.recordTransferSignature(groupId, 'sender', 'Sami', PNG), 'invalid');
+  });
+
+  it('are given by the sender after a transfer it sent at once', async () => {
+    const repository = createFixture();
+    const sent = await dispatchCups(repository);
+
+    const sender = await repository.transactions.recordTransferSignature(sent.transferGroupId!, 'sender', 'Driver', PNG);
+    expect(sender).toMatchObject({ role: 'sender', signerName: 'Driver', signedBy: WAREHOUSE.name });
+  });
+});
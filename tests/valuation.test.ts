@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { costOfGoodsUsed, stockValue, valueStockByLocation } from '../services/valuationService';
+import { BRANCH_1, LIDS, WAREHOUSE, createFixture, expectFailure, itemAt } from './fixtures';
+
+// Moving weighted-average cost (private.adjust_stock() in supabase_schema.sql) and the reports
+// built on it
+
+describe('average cost', () => {
+  it('averages the cost of every receipt into the stock, and values what leaves at it', async () => {
+    const repository = createFixture(WAREHOUSE);
+    await repository.transactions.logEntries('warehouse', [
+      { type: 'receive', itemId: 's-wh-lids', quantity: 10, unitCost: 2 },
+      { type: 'receive', itemId: 's-wh-lids', quantity: 10, unitCost: 3 }
+    ]);
+    // Stock received before any cost was known takes the first cost: (30 × 2 + 10 × 3) / 40
+    expect((await itemAt(repository, 'warehouse', LIDS))?.averageCost).toBe(2.25);
+
+    const [received, used] = await repository.transactions.logEntries('warehouse', [
+      { type: 'receive', itemId: 's-wh-lids', quantity: 5 },
+      { type: 'usage', itemId: 's-wh-lids', quantity: 4 }
+    ]);
+    expect(received.unitCost).toBe(2.25);
+    expect(used.unitCost).toBe(2.25);
+    expect((await itemAt(repository, 'warehouse', LIDS))?.averageCost).toBe(2.25);
+
+    await expectFailure(repository.transactions.logEntries('warehouse', [
+      { type: 'receive', itemId: 's-wh-lids', quantity: 1, unitCost: -1 }
+    ]), 'invalid');
+  });
+
+  it('carries the source cost to the destination of a transfer', async () => {
+    const repository = createFixture(WAREHOUSE);
+    await repository.transactions.logEntries('warehouse', [{ type: 'receive', itemId: 's-wh-lids', quantity: 20, unitCost: 4 }]);
+    const [tx] = await repository.transactions.createTransfer('warehouse', 'branch1', [{ itemId: 's-wh-lids', quantity: 8 }]);
+    expect(tx.unitCost).toBe(4);
+
+    repository.signIn(BRANCH_1);
+    await repository.transactions.receiveTransfer(tx.id, { receivedQuantity: 6, reason: 'Damaged', shortfallAction: 'return' });
+
+    expect((await itemAt(repository, 'branch1', LIDS))?.averageCost).toBe(4);
+    expect((await itemAt(repository, 'warehouse', LIDS))?.averageCost).toBe(4);
+  });
+});
+
+describe('valuation reports', () => {
+  const usage = (id: string, date: string, quantity: number, unitCost?: number): Transaction => ({
+    id,
+    date,
+    type: 'usage',
+    status: 'completed',
+    fromLocation: 'branch1',
+    toLocation: 'Consumed',
+    productId: LIDS.id,
+    itemNameEn: LIDS.nameEn,
+    itemNameAr: LIDS.nameAr,
+    quantity,
+    unit: LIDS.unit,
+    performedBy: BRANCH_1.name,
+    unitCost
+  });
+
+  it('values stock per location, counting stock that has no cost yet', async () => {
+    const repository = createFixture(WAREHOUSE);
+    await repository.transactions.logEntries('warehouse', [{ type: 'receive', itemId: 's-wh-lids', quantity: 10, unitCost: 0.5 }]);
+    const items = await repository.items.list();
+    const lids = items.find(i => i.id === 's-wh-lids')!;
+
+    expect(stockValue(lids)).toBe(15);
+    expect(valueStockByLocation({
+      warehouse: items.filter(i => i.locationId === 'warehouse'),
+      branch1: items.filter(i => i.locationId === 'branch1')
+    })).toEqual([
+      { locationId: 'warehouse', value: 15, uncostedItems: 1 },
+      { locationId: 'branch1', value: 0, uncostedItems: 1 }
+    ]);
+  });
+
+  it('sums the cost of goods used at a location over a period', () => {
+    const cogs = costOfGoodsUsed([
+      usage('t1', '2026-03-01T09:00:00.000Z', 4, 2.5),
+      usage('t2', '2026-03-15T09:00:00.000Z', 2, 3),
+      usage('t3', '2026-03-20T09:00:00.000Z', 1),
+      usage('t4', '2026-04-01T09:00:00.000Z', 10, 1),
+      { ...usage('t5', '2026-03-02T09:00:00.000Z', 10, 1), fromLocation: 'branch2' }
+    ], 'branch1', new Date('2026-03-01T00:00:00.000Z'), new Date('2026-04-01T00:00:00.000Z'));
+
+    expect(cogs.cost).toBe(16);
+    expect(cogs.uncostedEntries).toBe(1);
+    expect(cogs.rows).toEqual([{ productId: LIDS.id, itemNameEn: LIDS.nameEn, itemNameAr: LIDS.nameAr, unit: LIDS.unit, quantity: 7, cost: 16 }]);
+  });
+});
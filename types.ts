@@ -2,11 +2,30 @@ export type LocationId = string; // 'warehouse' | 'mammal' | 'all' | branchCode
 export type Language = 'en' | 'ar';
 export type Theme = 'light' | 'dark';
 export type UserRole = 'admin' | 'branch_manager' | 'warehouse_manager' | 'mammal_employee';
-export type TransactionType = 'transfer' | 'usage' | 'receive';
+export type TransactionType = 'transfer' | 'usage' | 'receive' | 'loss' | 'adjustment' | 'waste';
 export type TransactionStatus = 'pending_source' | 'pending_target' | 'completed' | 'cancelled' | 'rejected';
+export type ShortfallAction = 'return' | 'loss'; // Return missing stock to the source, or write it off
+export type WasteReasonCode = 'expired' | 'damaged' | 'spoiled' | 'other';
+// A scanned transfer document: genuine and still pending, genuine but closed, or not matching the transfer's lines
+export type TransferDocumentStatus = 'valid' | 'completed' | 'tampered';
+export type TransferSignatureRole = 'sender' | 'receiver';
 
+export interface Product {
+  id: string;
+  sku: string;
+  nameEn: string;
+  nameAr: string;
+  description?: string;
+  category: string;
+  unit: string;
+  barcode?: string;
+}
+
+// A product's stock at one location, flattened with its catalog details
 export interface InventoryItem {
   id: string;
+  productId?: string; // Shared by the same product at every location
+  sku?: string;
   nameEn: string;
   nameAr: string;
   description?: string;
@@ -16,8 +35,26 @@ export interface InventoryItem {
   minThreshold: number;
   lastUpdated: string;
   locationId?: string; // Used in global view
-  expirationDate?: string;
+  expirationDate?: string; // Earliest expiry among the lots
   barcode?: string;
+  lots?: StockLot[]; // First-expiring first; quantities add up to quantity
+  averageCost?: number; // Weighted-average cost of one unit here; unknown until stock is received with a cost
+}
+
+// Part of a stock row received together; stock is used and transferred first-expiring first
+export interface StockLot {
+  id: string;
+  lotNumber?: string; // Unlabelled lots hold stock added without a lot number
+  quantity: number;
+  expirationDate?: string;
+  receivedAt: string;
+}
+
+// How much of one lot a transaction moved
+export interface LotAllocation {
+  lotNumber?: string;
+  expirationDate?: string;
+  quantity: number;
 }
 
 export interface LocationData {
@@ -43,6 +80,12 @@ export interface User {
   accessibleBranches?: string[];
 }
 
+export interface AuthSession {
+  user: User;
+  accessToken: string;
+  expiresAt: number; // epoch milliseconds
+}
+
 export interface Transaction {
   id: string;
   transferGroupId?: string; // Group items together
@@ -51,6 +94,7 @@ export interface Transaction {
   status: TransactionStatus;
   fromLocation?: string;
   toLocation?: string;
+  productId?: string;
   itemNameEn: string;
   itemNameAr: string;
   quantity: number;
@@ -58,6 +102,306 @@ export interface Transaction {
   performedBy: string;
   notes?: string;
   rejectionReason?: string;
+  receivedQuantity?: number; // Set once a transfer is received; may be less than quantity
+  discrepancyReason?: string;
+  shortfallAction?: ShortfallAction;
+  reasonCode?: WasteReasonCode; // Why stock was written off, on waste transactions
+  lots?: LotAllocation[];
+  unitCost?: number; // Cost of one unit moved: the price paid on receipts, the average cost otherwise
+  recipeId?: string; // Usage posted for production, by this recipe
+}
+
+// A usage or receive entry waiting in the offline outbox. Its id doubles as the idempotency key
+// the server uses to log it only once; entries queued together are uploaded together.
+export interface OutboxEntry {
+  id: string;
+  batchId: string;
+  locationId: LocationId;
+  type: 'usage' | 'receive';
+  itemId: string;
+  productId?: string;
+  itemNameEn: string;
+  itemNameAr: string;
+  unit: string;
+  quantity: number;
+  notes?: string;
+  unitCost?: number; // Price paid, on receipts
+  recipeId?: string; // Recipe the usage was produced by
+  expectedQuantity: number; // Stock on screen when the entry was logged
+  userId: string; // Only uploaded while this user is signed in
+  performedBy: string;
+  loggedAt: string;
+  status: 'pending' | 'conflict';
+  error?: string; // Why the server refused a conflicting entry
+}
+
+// What the destination actually received for one transfer line
+export interface TransferReceipt {
+  receivedQuantity: number;
+  reason?: string;
+  shortfallAction: ShortfallAction;
+}
+
+// Drawn by whoever handed the goods over (sender) or took them (receiver), one per side of a transfer group
+export interface TransferSignature {
+  transferGroupId: string;
+  role: TransferSignatureRole;
+  signerName: string;
+  image: string; // PNG data URL
+  signedBy: string; // The app user who recorded it
+  signedAt: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  id: string;
+  productId: string;
+  itemNameEn: string;
+  itemNameAr: string;
+  unit: string;
+  quantity: number;
+  receivedQuantity: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  supplierId: string;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  orderDate: string;
+  expectedDate?: string;
+  notes?: string;
+  createdBy?: string;
+  lines: PurchaseOrderLine[];
+}
+
+// A delivery booked against a purchase order
+export interface GoodsReceivedNote {
+  id: string;
+  grnNumber: string;
+  purchaseOrderId: string;
+  receivedAt: string;
+  receivedBy: string;
+  notes?: string;
+  lines: { purchaseOrderLineId: string; quantity: number; transactionId?: string }[]; // transactionId: the receipt it logged
+}
+
+// What arrived for one purchase order line; each line is booked into the warehouse as a lot
+export interface GoodsReceiptLine {
+  lineId: string;
+  quantity: number;
+  lotNumber?: string;
+  expirationDate?: string;
+  unitCost?: number;
+}
+
+// One line of the replenishment plan. Branch (and mammal) lines are filled by a transfer from the
+// warehouse; warehouse lines are bought from a supplier.
+export interface ReorderSuggestion {
+  locationId: LocationId;
+  productId: string;
+  itemId?: string; // Stock row at locationId, when the location already carries the product
+  itemNameEn: string;
+  itemNameAr: string;
+  unit: string;
+  quantity: number;
+  inbound: number; // Pending transfers in, or outstanding purchase order quantities
+  minThreshold: number;
+  avgDailyUsage: number;
+  daysOfCover: number | null; // null when there was no usage in the lookback window
+  suggestedQuantity: number;
+  source: 'warehouse' | 'supplier';
+  sourceItemId?: string; // Warehouse stock row to transfer from
+}
+
+export interface ReorderPlan {
+  transfers: ReorderSuggestion[];
+  purchases: ReorderSuggestion[];
+}
+
+// How close stock is to its expiry date: already expired, or expiring within 3, 7 or 30 days
+export type ExpiryBucket = 'expired' | 'within3' | 'within7' | 'within30';
+
+// One dated lot (or a dated stock row without lots) that expires within the watch window
+export interface ExpiringStock {
+  locationId: LocationId;
+  itemId: string;
+  lotId?: string;
+  productId: string;
+  itemNameEn: string;
+  itemNameAr: string;
+  unit: string;
+  lotNumber?: string;
+  quantity: number;
+  expirationDate: string;
+  daysLeft: number; // Negative once expired
+  bucket: ExpiryBucket;
+}
+
+// What a write-off applies to: a whole stock row, or one of its lots
+export interface WriteOffTarget {
+  itemId: string;
+  lotId?: string;
+  itemNameEn: string;
+  itemNameAr: string;
+  unit: string;
+  quantity: number; // Available to write off
+  lotNumber?: string;
+  expirationDate?: string;
+}
+
+// Waste written off in a period, per product, location and reason
+export interface WasteSummaryRow {
+  productId?: string;
+  itemNameEn: string;
+  itemNameAr: string;
+  unit: string;
+  locationId: LocationId;
+  reasonCode: WasteReasonCode;
+  quantity: number;
+  writeOffs: number;
+}
+
+// What the stock held at one location is worth at its average costs. Items received without a
+// cost have no average yet and are counted, not valued.
+export interface StockValuation {
+  locationId: LocationId;
+  value: number;
+  uncostedItems: number;
+}
+
+// Cost of goods used: usage at one location over a period, valued at the cost recorded on each
+// usage transaction
+export interface CostOfGoodsUsedRow {
+  productId?: string;
+  itemNameEn: string;
+  itemNameAr: string;
+  unit: string;
+  quantity: number;
+  cost: number;
+}
+
+export interface CostOfGoodsUsed {
+  rows: CostOfGoodsUsedRow[];
+  cost: number;
+  uncostedEntries: number;
+}
+
+// A bill of materials: what one unit (yieldUnit) of a finished product uses up
+export interface RecipeIngredient {
+  productId: string;
+  itemNameEn: string;
+  itemNameAr: string;
+  unit: string;
+  quantity: number; // Per unit produced
+}
+
+export interface Recipe {
+  id: string;
+  nameEn: string;
+  nameAr: string;
+  yieldUnit: string;
+  notes?: string;
+  ingredients: RecipeIngredient[];
+}
+
+export type LabelSymbology = 'code128' | 'qr';
+
+// A sheet of label paper, measured in mm from the top left of the page
+export interface LabelLayout {
+  id: string;
+  name: string;
+  pageFormat: 'a4' | 'letter';
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number; // Between columns
+  gapY: number; // Between rows
+}
+
+export type StockTakeStatus = 'counting' | 'submitted' | 'approved' | 'cancelled';
+
+export interface StockTakeLine {
+  id: string;
+  productId: string;
+  itemNameEn: string;
+  itemNameAr: string;
+  unit: string;
+  expectedQuantity: number; // Stock on hand when the count started
+  countedQuantity?: number;
+  transactionId?: string; // The adjustment posted on approval, when the count differed
+  loggedUsage: number; // Usage logged since the previous approved count
+  productionUsage: number; // The part of loggedUsage posted from recipes
+}
+
+export interface StockTake {
+  id: string;
+  stockTakeNumber: string;
+  locationId: LocationId;
+  status: StockTakeStatus;
+  notes?: string;
+  startedBy: string;
+  startedAt: string;
+  submittedBy?: string;
+  submittedAt?: string;
+  approvedBy?: string;
+  approvedAt?: string;
+  lines: StockTakeLine[];
+}
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// One row of the database audit log: a direct change to stock, products, locations or users
+export interface AuditEntry {
+  id: number;
+  tableName: string;
+  recordId: string;
+  action: AuditAction;
+  actorId?: string;
+  actorName?: string;
+  locationId?: string;
+  oldData?: Record<string, any>; // Row as stored (snake_case columns); absent for inserts
+  newData?: Record<string, any>; // Absent for deletes
+  changedAt: string;
+}
+
+export type NotificationEvent =
+  | 'incoming_transfer'
+  | 'transfer_rejected'
+  | 'transfer_received'
+  | 'low_stock'
+  | 'expiry'
+  | 'stock_take_approval';
+
+// An entry in the signed-in user's inbox, raised by the database (see "Notifications" in
+// supabase_schema.sql) in both languages
+export interface AppNotification {
+  id: string;
+  event: NotificationEvent;
+  dedupeKey: string; // Also the tag of the system notification, so repeats replace each other
+  locationId?: LocationId;
+  reference?: string; // Transfer group, stock row or stock-take number
+  titleEn: string;
+  bodyEn: string;
+  titleAr: string;
+  bodyAr: string;
+  createdAt: string;
+  readAt?: string;
 }
 
 export interface ChatMessage {